@@ -5455,6 +5455,9 @@ async function cmdStatus() {
           ok(`Connected to ${c.bold(data.relay.email)} via ${data.relay.provider}`);
         } else if (data.mode === 'domain' && data.domain) {
           ok(`Using custom domain ${c.bold(data.domain.domain)}`);
+          if (data.domain.dkim?.active?.length) {
+            log(`    ${c.dim('DKIM:')} ${data.domain.dkim.active.join(', ')}${data.domain.dkim.lastRotatedAt ? c.dim(` (rotated ${data.domain.dkim.lastRotatedAt})`) : ''}`);
+          }
         } else if (data.mode === 'none') {
           info('Not connected yet — run agenticmail setup to connect email');
         } else {
@@ -5864,6 +5867,170 @@ async function cmdTunnel() {
   }
 }
 
+async function cmdDomain() {
+  const args = process.argv.slice(3);
+  const [area, subCmd = 'list'] = args;
+
+  function flag(name: string): string | undefined {
+    const eq = `--${name}=`;
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === `--${name}` && i + 1 < args.length) return args[i + 1];
+      if (args[i].startsWith(eq)) return args[i].slice(eq.length);
+    }
+    return undefined;
+  }
+  const hasFlag = (name: string) => args.includes(`--${name}`);
+
+  if (area !== 'dkim' || !['list', 'rotate', 'retire'].includes(subCmd)) {
+    log('');
+    fail(`Unknown subcommand: ${args.join(' ') || '(none)'}`);
+    info(`Try: ${c.green('agenticmail domain dkim {list|rotate|retire}')}`);
+    info(`  ${c.dim('rotate')}  --grace-days <n> ${c.dim('(default 7)')}  --timeout <seconds> ${c.dim('(DNS wait, default 120)')}`);
+    info(`  ${c.dim('retire')}  --force ${c.dim('(remove replaced keys before their grace period ends)')}`);
+    log('');
+    process.exit(1);
+  }
+
+  const configPath = join(homedir(), '.agenticmail', 'config.json');
+  if (!existsSync(configPath)) {
+    fail(`AgenticMail isn't set up yet — no config at ${c.dim(configPath)}`);
+    info(`Run ${c.cyan('agenticmail setup')} first.`);
+    process.exit(1);
+  }
+  let config: SetupConfig;
+  try { config = JSON.parse(readFileSync(configPath, 'utf-8')) as SetupConfig; }
+  catch (err) { fail(`Could not read ${configPath}: ${(err as Error).message}`); process.exit(1); }
+
+  const base = `http://${config.api.host}:${config.api.port}/api/agenticmail/gateway/domain/dkim`;
+  const call = async (path: string, body?: unknown, timeoutMs = 15_000): Promise<any> => {
+    let response: Response;
+    try {
+      response = await fetch(`${base}${path}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers: { 'Authorization': `Bearer ${config.masterKey}`, 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch {
+      throw new Error('Server isn\'t running — start with: agenticmail start');
+    }
+    const data = await response.json().catch(() => ({})) as any;
+    if (!response.ok) throw new Error(data.error ?? `Server returned ${response.status}`);
+    return data;
+  };
+
+  const printKey = (k: any) => {
+    const color = k.status === 'active' ? c.green : k.status === 'retired' ? c.dim : c.yellow;
+    const when = k.status === 'retiring' && k.retireAfter ? ` until ${k.retireAfter}`
+      : k.status === 'retired' && k.retiredAt ? ` ${k.retiredAt}`
+      : k.activatedAt ? ` since ${k.activatedAt}` : '';
+    log(`    ${c.bold(k.selector.padEnd(16))} ${k.algorithm.padEnd(15)} ${color(k.status)}${c.dim(when)}`);
+    if (k.error) log(`      ${c.red(k.error)}`);
+  };
+
+  log('');
+  switch (subCmd) {
+    case 'list': {
+      const data = await call('').catch((err) => { fail((err as Error).message); process.exit(1); });
+      if (!data.keys.length) {
+        info(`No managed DKIM keys for ${c.bold(data.domain)} yet — run ${c.green('agenticmail domain dkim rotate')}.`);
+        break;
+      }
+      log(`  ${c.bold('DKIM keys for')} ${c.cyan(data.domain)}`);
+      for (const k of data.keys) printKey(k);
+      break;
+    }
+
+    case 'rotate': {
+      const graceDays = flag('grace-days');
+      const timeout = flag('timeout');
+      const body: Record<string, number> = {};
+      if (graceDays !== undefined) body.gracePeriodDays = Number(graceDays);
+      if (timeout !== undefined) body.propagationTimeoutSeconds = Number(timeout);
+
+      const spinner = new Spinner('general', 'Publishing new DKIM keys and waiting for DNS...');
+      spinner.start();
+      const waitMs = ((body.propagationTimeoutSeconds ?? 120) + 60) * 1000;
+      const result = await call('/rotate', body, waitMs).catch((err) => { spinner.fail((err as Error).message); process.exit(1); });
+      if (result.status === 'active') {
+        spinner.succeed(`Now signing ${c.bold(result.domain)} with ${result.keys.map((k: any) => c.cyan(k.selector)).join(' + ')}`);
+      } else {
+        spinner.fail('New selectors are published but not resolvable yet');
+        info(`Run ${c.green('agenticmail domain dkim rotate')} again once DNS has propagated — it will reuse these keys.`);
+      }
+      for (const k of result.keys) printKey(k);
+      for (const k of result.retiring) printKey(k);
+      for (const k of result.retired) printKey(k);
+      break;
+    }
+
+    case 'retire': {
+      const data = await call('/retire', { force: hasFlag('force') })
+        .catch((err) => { fail((err as Error).message); process.exit(1); });
+      if (!data.retired.length) info('Nothing to retire.');
+      else ok(`Retired ${data.retired.length} key(s) for ${c.bold(data.domain)}`);
+      for (const k of data.retired) printKey(k);
+      break;
+    }
+  }
+  log('');
+}
+
+async function cmdMemory() {
+  const [subCmd] = process.argv.slice(3);
+
+  if (subCmd !== 'backfill') {
+    log('');
+    fail(`Unknown subcommand: ${subCmd ?? '(none)'}`);
+    info(`Try: ${c.green('agenticmail memory backfill')} ${c.dim('(embed memory entries that have no vector yet)')}`);
+    log('');
+    process.exit(1);
+  }
+
+  const configPath = join(homedir(), '.agenticmail', 'config.json');
+  if (!existsSync(configPath)) {
+    fail(`AgenticMail isn't set up yet — no config at ${c.dim(configPath)}`);
+    info(`Run ${c.cyan('agenticmail setup')} first.`);
+    process.exit(1);
+  }
+  let config: SetupConfig;
+  try { config = JSON.parse(readFileSync(configPath, 'utf-8')) as SetupConfig; }
+  catch (err) { fail(`Could not read ${configPath}: ${(err as Error).message}`); process.exit(1); }
+
+  log('');
+  const spinner = new Spinner('general', 'Embedding agent memory...');
+  spinner.start();
+  let response: Response;
+  try {
+    response = await fetch(`http://${config.api.host}:${config.api.port}/api/agenticmail/memory/embeddings/backfill`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${config.masterKey}`, 'Content-Type': 'application/json' },
+      body: '{}',
+      // An HTTP embedder over a large memory can take a while.
+      signal: AbortSignal.timeout(30 * 60_000),
+    });
+  } catch {
+    spinner.fail('Server isn\'t running — start with: agenticmail start');
+    process.exit(1);
+  }
+  const data = await response.json().catch(() => ({})) as any;
+  if (!response.ok) {
+    spinner.fail(data.error ?? `Server returned ${response.status}`);
+    process.exit(1);
+  }
+  const { embedder, entries, embedded } = data.embeddings;
+  if (data.failed > 0) {
+    spinner.fail(`Embedded ${data.embedded} of ${data.total} entries — ${data.failed} failed (see the server log)`);
+  } else if (data.total === 0) {
+    spinner.succeed('Every memory entry already has a vector');
+  } else {
+    spinner.succeed(`Embedded ${data.embedded} memory entr${data.embedded === 1 ? 'y' : 'ies'}`);
+  }
+  info(`${embedded}/${entries} entries embedded with ${c.cyan(embedder)}`);
+  log('');
+  if (data.failed > 0) process.exit(1);
+}
+
 async function cmdService() {
   const subCmd = process.argv[3] || 'status';
   const svc = new ServiceManager();
@@ -6135,6 +6302,12 @@ switch (process.argv[2]) {
   case 'tunnel':
     cmdTunnel().catch(err => { console.error(err); process.exit(1); });
     break;
+  case 'domain':
+    cmdDomain().then(() => { process.exit(0); }).catch(err => { console.error(err); process.exit(1); });
+    break;
+  case 'memory':
+    cmdMemory().then(() => { process.exit(0); }).catch(err => { console.error(err); process.exit(1); });
+    break;
   case 'start':
     cmdStart().catch(err => { console.error(err); process.exit(1); });
     break;
@@ -6200,6 +6373,8 @@ switch (process.argv[2]) {
     log(`    ${c.green('agenticmail setup-anthropic')} Generate / save Anthropic OAuth token ${c.dim('(wraps `claude setup-token`)')}`);
     log(`    ${c.green('agenticmail setup-telegram')}  Wire up the Telegram bridge ${c.dim('(--bot-token + --chat-id, or env vars)')}`);
     log(`    ${c.green('agenticmail tunnel')}     Public HTTPS tunnel to your local API ${c.dim('(free Cloudflare quick-tunnel; needed for Twilio webhooks)')}`);
+    log(`    ${c.green('agenticmail domain dkim')} Rotate / list / retire DKIM signing keys ${c.dim('(custom-domain mode)')}`);
+    log(`    ${c.green('agenticmail memory backfill')} Embed agent memory for semantic recall ${c.dim('(after upgrading or changing memory.embedder)')}`);
     log(`    ${c.green('agenticmail start')}     Start the server`);
     log(`    ${c.green('agenticmail stop')}      Stop the server`);
     log(`    ${c.green('agenticmail status')}    See what's running`);
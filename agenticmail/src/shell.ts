@@ -639,7 +639,7 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
 
   // --- Commands ---
 
-  const commands: Record<string, { desc: string; run: () => Promise<void> }> = {
+  const commands: Record<string, { desc: string; run: (args?: string[]) => Promise<void> }> = {
     help: {
       desc: 'Show available commands',
       run: async () => {
@@ -1896,36 +1896,34 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
 
         info('Loading thread...');
         try {
-          // Fetch the anchor message
-          const origResp = await agentFetch(agent.apiKey, `/api/agenticmail/mail/messages/${uid}`);
-          if (!origResp.ok) { fail('Could not load message'); log(''); return; }
-          const orig = await origResp.json() as any;
-
-          // Search for related messages by subject (strip Re:/Fwd: prefixes)
-          const baseSubject = (orig.subject || '').replace(/^(Re|Fwd|Fw):\s*/gi, '').trim();
-          const searchResp = await agentFetch(agent.apiKey, '/api/agenticmail/mail/search', {
-            method: 'POST',
-            body: JSON.stringify({ subject: baseSubject }),
-          });
-          if (!searchResp.ok) { fail('Search failed'); log(''); return; }
-          const { uids: threadUids } = await searchResp.json() as any;
+          // Resolve the header-based thread id (the same one the
+          // dispatcher's thread cache and read_thread use), then load
+          // the whole conversation across INBOX and Sent.
+          const idResp = await agentFetch(agent.apiKey, `/api/agenticmail/agents/me/thread-id?uid=${uid}`);
+          if (!idResp.ok) { fail('Could not load message'); log(''); return; }
+          const { threadId } = await idResp.json() as any;
+          const threadResp = await agentFetch(agent.apiKey, `/api/agenticmail/mail/threads/${encodeURIComponent(threadId)}`);
+          if (!threadResp.ok) { fail('Could not load thread'); log(''); return; }
+          const thread = await threadResp.json() as any;
 
           log('');
-          log(`  ${c.bold('Thread')} ${c.dim('─')} "${baseSubject}" ${c.dim(`(${threadUids?.length || 1} messages)`)}`);
+          log(`  ${c.bold('Thread')} ${c.dim('─')} "${thread.subject}" ${c.dim(`(${thread.messageCount} messages)`)}`);
           log(`  ${c.dim('─'.repeat(40))}`);
           log('');
 
-          // Show each message in the thread
-          const show = (threadUids || [uid]).slice(0, 20);
+          // Show each message in the thread, oldest first
+          const show = (thread.messages as any[]).slice(-20);
           for (let i = 0; i < show.length; i++) {
             try {
-              const msgResp = await agentFetch(agent.apiKey, `/api/agenticmail/mail/messages/${show[i]}`);
+              const m = show[i];
+              const msgResp = await agentFetch(agent.apiKey, `/api/agenticmail/mail/messages/${m.uid}?folder=${encodeURIComponent(m.folder)}`);
               if (!msgResp.ok) continue;
               const msg = await msgResp.json() as any;
               const from = msg.from?.[0]?.address ?? '?';
               const date = msg.date ? new Date(msg.date).toLocaleString() : '';
               const dot = dotColors[i % dotColors.length]('●');
-              log(`  ${dot} ${c.bold(from)} ${c.dim(date)}`);
+              const folderTag = m.folder === 'INBOX' ? '' : ` ${c.dim(`(${m.folder})`)}`;
+              log(`  ${dot} ${c.bold(from)} ${c.dim(date)}${folderTag}`);
               // Show first 3 lines of body
               const body = (msg.text || '').split('\n').filter((l: string) => !l.startsWith('>')).slice(0, 3);
               for (const line of body) {
@@ -2138,7 +2136,7 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
     },
 
     schedule: {
-      desc: 'Schedule an email for later',
+      desc: 'Schedule an email for later, or on a repeating schedule',
       run: async () => {
         const agent = await getFirstAgent();
         if (!agent) return;
@@ -2165,10 +2163,108 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
           }
         } catch { /* ignore */ }
 
-        log(`  ${c.dim('[1] Schedule new  [2] Cancel pending  [3] List all  (Esc to cancel)')}`);
+        log(`  ${c.dim('[1] Schedule new  [2] Cancel pending  [3] List all')}`);
+        log(`  ${c.dim('[4] Repeating  [5] Pause/resume  [6] History  (Esc to cancel)')}`);
         const choice = await question(`  ${c.dim('Choice:')} `);
         if (isBack(choice)) { log(''); return; }
 
+        // Accept the 8-character prefix shown in the lists as well as a full ID.
+        const resolveId = async (prefix: string): Promise<any | null> => {
+          const resp = await agentFetch(agent.apiKey, '/api/agenticmail/scheduled');
+          if (!resp.ok) return null;
+          const { scheduled } = await resp.json() as any;
+          const hits = (scheduled || []).filter((s: any) => s.id.startsWith(prefix));
+          return hits.length === 1 ? hits[0] : null;
+        };
+
+        if (choice.trim() === '4') {
+          const to = await question(`  ${c.dim('To:')}        `);
+          if (isBack(to)) { log(''); return; }
+          const subject = await question(`  ${c.dim('Subject:')}   `);
+          if (isBack(subject)) { log(''); return; }
+          const text = await question(`  ${c.dim('Message:')}   `);
+          if (isBack(text)) { log(''); return; }
+          if (!to.trim()) { fail('Recipient is required'); log(''); return; }
+
+          log(`  ${c.dim('Repeat as an RRULE or cron, e.g.')} ${c.cyan('FREQ=WEEKLY;BYDAY=MO,WE')} ${c.dim('or')} ${c.cyan('0 9 * * 1-5')}`);
+          log(`  ${c.dim('{{date}} in the subject or message becomes the send date.')}`);
+          const repeat = await question(`  ${c.dim('Repeat:')}    `);
+          if (isBack(repeat) || !repeat.trim()) { info('Cancelled'); log(''); return; }
+
+          const localTz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+          const tzInput = await question(`  ${c.dim(`Timezone (${localTz}):`)} `);
+          if (isBack(tzInput)) { log(''); return; }
+
+          const windowInput = await question(`  ${c.dim('Send window, e.g. mon-fri 09:00-17:00 (blank = any time):')} `);
+          if (isBack(windowInput)) { log(''); return; }
+          let sendWindow: { days?: string[]; start: string; end: string } | undefined;
+          if (windowInput.trim()) {
+            const m = windowInput.trim().toLowerCase().match(/^(?:([a-z]{3})(?:-([a-z]{3}))?\s+)?(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/);
+            const dayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+            if (!m || (m[1] && !dayNames.includes(m[1])) || (m[2] && !dayNames.includes(m[2]))) {
+              fail('Could not parse window. Use: mon-fri 09:00-17:00'); log(''); return;
+            }
+            sendWindow = { start: m[3], end: m[4] };
+            if (m[1]) {
+              const from = dayNames.indexOf(m[1]);
+              const until = m[2] ? dayNames.indexOf(m[2]) : from;
+              const days: string[] = [];
+              for (let d = from; ; d = (d + 1) % 7) { days.push(dayNames[d]); if (d === until) break; }
+              sendWindow.days = days;
+            }
+          }
+
+          try {
+            const resp = await agentFetch(agent.apiKey, '/api/agenticmail/scheduled', {
+              method: 'POST',
+              body: JSON.stringify({
+                to: to.trim(), subject, text, recurrence: repeat.trim(), timezone: tzInput.trim() || localTz, sendWindow,
+              }),
+            });
+            const data = await resp.json().catch(() => ({})) as any;
+            if (resp.ok) {
+              ok(`Repeating schedule created ${c.dim(`[${data.id.slice(0, 8)}]`)}`);
+              for (const t of (data.upcoming || []).slice(0, 3)) log(`    ${c.dim('•')} ${new Date(t).toLocaleString()}`);
+            } else {
+              fail(`Could not schedule: ${String(data.error || resp.status).slice(0, 120)}`);
+            }
+          } catch (err) { fail(`Error: ${errMsg(err)}`); }
+          log('');
+          return;
+        }
+
+        if (choice.trim() === '5' || choice.trim() === '6') {
+          const id = await question(`  ${c.dim('Scheduled ID:')} `);
+          if (isBack(id) || !id.trim()) { info('Cancelled'); log(''); return; }
+          try {
+            const row = await resolveId(id.trim());
+            if (!row) { fail('No single scheduled email matches that ID'); log(''); return; }
+            if (choice.trim() === '5') {
+              const action = row.status === 'paused' ? 'resume' : 'pause';
+              const resp = await agentFetch(agent.apiKey, `/api/agenticmail/scheduled/${row.id}/${action}`, { method: 'POST' });
+              const data = await resp.json().catch(() => ({})) as any;
+              if (!resp.ok) { fail(`Could not ${action}: ${data.error || resp.status}`); }
+              else if (action === 'pause') { ok('Paused'); }
+              else { ok(data.sendAt ? `Resumed — next send ${new Date(data.sendAt).toLocaleString()}` : `Resumed (${data.status})`); }
+            } else {
+              const resp = await agentFetch(agent.apiKey, `/api/agenticmail/scheduled/${row.id}`);
+              if (!resp.ok) { fail('Could not fetch history'); log(''); return; }
+              const { scheduled: s, runs, upcoming } = await resp.json() as any;
+              log('');
+              log(`  ${c.bold(s.subject || '(template)')} → ${s.to_addr} ${c.dim(`[${s.status}]`)}`);
+              if (s.recurrence) log(`  ${c.dim('Repeats:')} ${s.recurrence} ${c.dim(`(${s.timezone})`)}`);
+              if (upcoming?.length) log(`  ${c.dim('Next:')} ${upcoming.slice(0, 3).map((t: string) => new Date(t).toLocaleString()).join(', ')}`);
+              if (!runs?.length) info('No sends yet');
+              for (const r of runs || []) {
+                const icon = r.status === 'sent' ? c.green('✓') : r.status === 'retrying' ? c.yellow('↻') : c.red('✗');
+                log(`    ${icon} ${new Date(r.occurrence_at).toLocaleString()} ${c.dim(`[${r.status}, ${r.attempts} attempt${r.attempts !== 1 ? 's' : ''}]`)}${r.error ? ` ${c.dim(r.error)}` : ''}`);
+              }
+            }
+          } catch (err) { fail(`Error: ${errMsg(err)}`); }
+          log('');
+          return;
+        }
+
         if (choice.trim() === '2') {
           const id = await question(`  ${c.dim('Scheduled ID to cancel:')} `);
           if (isBack(id) || !id.trim()) { info('Cancelled'); log(''); return; }
@@ -2189,8 +2285,10 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
             log('');
             for (const s of scheduled) {
               const d = new Date(s.send_at);
-              const statusIcon = s.status === 'pending' ? c.yellow('⏳') : s.status === 'sent' ? c.green('✓') : c.red('✗');
-              log(`  ${statusIcon} To: ${s.to_addr} | "${s.subject}" | ${d.toLocaleString()} ${c.dim(`[${s.status}]`)} ${c.dim(`[${s.id.slice(0, 8)}]`)}`);
+              const statusIcon = s.status === 'pending' ? c.yellow('⏳') : s.status === 'paused' ? c.dim('⏸')
+                : s.status === 'sent' || s.status === 'completed' ? c.green('✓') : c.red('✗');
+              const repeats = s.recurrence ? ` ${c.dim(`↻ ${s.recurrence}`)}` : '';
+              log(`  ${statusIcon} To: ${s.to_addr} | "${s.subject}" | ${d.toLocaleString()}${repeats} ${c.dim(`[${s.status}]`)} ${c.dim(`[${s.id.slice(0, 8)}]`)}`);
             }
           } catch (err) { fail(`Error: ${errMsg(err)}`); }
           log('');
@@ -2498,15 +2596,19 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
     },
 
     rules: {
-      desc: 'Manage email filtering rules',
-      run: async () => {
+      desc: 'Manage email filtering rules (/rules test to dry-run)',
+      run: async (args?: string[]) => {
         const agent = await getFirstAgent();
         if (!agent) return;
 
         log('');
-        log(`  ${c.bold('Rules')}  ${c.dim('[1] List  [2] Create  [3] Delete  (Esc to cancel)')}`);
-        const choice = await question(`  ${c.dim('Choice:')} `);
-        if (isBack(choice)) { log(''); return; }
+        // `/rules test` (or any menu word) skips the menu prompt.
+        let choice = args?.[0] ?? '';
+        if (!choice) {
+          log(`  ${c.bold('Rules')}  ${c.dim('[1] List  [2] Create  [3] Delete  [4] Enable/Disable  [5] Test  (Esc to cancel)')}`);
+          choice = await question(`  ${c.dim('Choice:')} `);
+          if (isBack(choice)) { log(''); return; }
+        }
 
         try {
           if (choice.trim() === '1' || choice.trim().toLowerCase() === 'list') {
@@ -2517,7 +2619,8 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
               log('');
               for (const r of rules) {
                 const status = r.enabled ? c.green('ON') : c.red('OFF');
-                log(`  ${status} ${c.bold(r.name)} ${c.dim(`[${r.id.slice(0, 8)}]  priority: ${r.priority}`)}`);
+                const hits = `hits: ${r.hit_count ?? 0}${r.last_matched_at ? ` (last ${r.last_matched_at})` : ''}`;
+                log(`  ${status} ${c.bold(r.name)} ${c.dim(`[${r.id.slice(0, 8)}]  priority: ${r.priority}  ${hits}${r.stop === false ? '  continues' : ''}`)}`);
                 if (r.conditions && Object.keys(r.conditions).length > 0) {
                   log(`       ${c.dim('if')} ${c.cyan(JSON.stringify(r.conditions))}`);
                 }
@@ -2536,8 +2639,8 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
             const subjectMatch = await question(`  ${c.dim('  Subject contains (or Enter to skip):')} `);
             if (isBack(subjectMatch)) { log(''); return; }
             const conditions: any = {};
-            if (fromMatch.trim()) conditions.from = fromMatch.trim();
-            if (subjectMatch.trim()) conditions.subject = subjectMatch.trim();
+            if (fromMatch.trim()) conditions.from_contains = fromMatch.trim();
+            if (subjectMatch.trim()) conditions.subject_contains = subjectMatch.trim();
             if (Object.keys(conditions).length === 0) { fail('At least one condition required'); log(''); return; }
 
             log(`  ${c.dim('Actions:')}`);
@@ -2561,7 +2664,10 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
             if (resp.ok) {
               const data = await resp.json() as any;
               ok(`Created rule "${data.name}"`);
-            } else { fail('Could not create rule'); }
+            } else {
+              const data = await resp.json().catch(() => ({})) as any;
+              fail(`Could not create rule${data.details ? `: ${data.details.join('; ')}` : ''}`);
+            }
           } else if (choice.trim() === '3' || choice.trim().toLowerCase() === 'delete') {
             const resp = await agentFetch(agent.apiKey, '/api/agenticmail/rules');
             if (!resp.ok) { fail('Could not fetch rules'); log(''); return; }
@@ -2576,6 +2682,65 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
             if (isBack(confirm) || confirm.trim().toLowerCase() !== 'y') { info('Cancelled'); log(''); return; }
             await agentFetch(agent.apiKey, `/api/agenticmail/rules/${rules[idx].id}`, { method: 'DELETE' });
             ok(`Deleted rule "${rules[idx].name}"`);
+          } else if (choice.trim() === '4' || choice.trim().toLowerCase() === 'toggle') {
+            const resp = await agentFetch(agent.apiKey, '/api/agenticmail/rules');
+            if (!resp.ok) { fail('Could not fetch rules'); log(''); return; }
+            const { rules } = await resp.json() as any;
+            if (!rules?.length) { info('No rules configured'); log(''); return; }
+            for (let i = 0; i < rules.length; i++) {
+              const status = rules[i].enabled ? c.green('ON') : c.red('OFF');
+              log(`  ${c.dim(`[${i + 1}]`)} ${status} ${c.bold(rules[i].name)} ${c.dim(`[${rules[i].id.slice(0, 8)}]`)}`);
+            }
+            const idx = await askChoice(`  ${c.dim('Rule # to toggle:')} `, rules.length);
+            if (idx === null) { log(''); return; }
+            const upd = await agentFetch(agent.apiKey, `/api/agenticmail/rules/${rules[idx].id}`, {
+              method: 'PUT',
+              body: JSON.stringify({ enabled: !rules[idx].enabled }),
+            });
+            if (upd.ok) ok(`Rule "${rules[idx].name}" ${rules[idx].enabled ? 'disabled' : 'enabled'}`);
+            else fail('Could not update rule');
+          } else if (choice.trim() === '5' || choice.trim().toLowerCase() === 'test') {
+            // Dry-run: POST /rules/test never moves, flags or sends.
+            const resp = await agentFetch(agent.apiKey, '/api/agenticmail/rules');
+            if (!resp.ok) { fail('Could not fetch rules'); log(''); return; }
+            const { rules } = await resp.json() as any;
+            if (!rules?.length) { info('No rules configured'); log(''); return; }
+            log(`  ${c.dim('[0]')} ${c.bold('All enabled rules')}`);
+            for (let i = 0; i < rules.length; i++) {
+              const status = rules[i].enabled ? c.green('ON') : c.red('OFF');
+              log(`  ${c.dim(`[${i + 1}]`)} ${status} ${c.bold(rules[i].name)} ${c.dim(`[${rules[i].id.slice(0, 8)}]`)}`);
+            }
+            const pick = await question(`  ${c.dim('Rule # to test (0 = all):')} `);
+            if (isBack(pick)) { log(''); return; }
+            const n = parseInt(pick.trim() || '0', 10);
+            if (isNaN(n) || n < 0 || n > rules.length) { fail('Invalid choice'); log(''); return; }
+            const target = await question(`  ${c.dim('UID, or folder to scan (Enter for INBOX):')} `);
+            if (isBack(target)) { log(''); return; }
+            const since = await question(`  ${c.dim('Since date (YYYY-MM-DD, Enter for any):')} `);
+            if (isBack(since)) { log(''); return; }
+
+            const body: Record<string, unknown> = { limit: 25 };
+            if (n > 0) body.ruleId = rules[n - 1].id;
+            if (/^\d+$/.test(target.trim())) body.uid = parseInt(target.trim(), 10);
+            else if (target.trim()) body.folder = target.trim();
+            if (since.trim()) body.since = since.trim();
+
+            const test = await agentFetch(agent.apiKey, '/api/agenticmail/rules/test', {
+              method: 'POST',
+              body: JSON.stringify(body),
+            });
+            const data = await test.json().catch(() => ({})) as any;
+            if (!test.ok) { fail(`Dry-run failed: ${data.error ?? test.status}`); log(''); return; }
+            log('');
+            info(`${data.matched}/${data.scanned} messages in ${data.folder} matched${data.truncated ? ` (newest ${data.scanned} of ${data.total})` : ''} — nothing was changed`);
+            for (const m of data.results ?? []) {
+              if (!m.matched) continue;
+              log(`  ${c.dim(`[${m.uid}]`)} ${c.bold(m.subject || '(no subject)')} ${c.dim(m.from)}`);
+              log(`       ${c.dim('rules')} ${c.cyan(m.rules.map((r: any) => r.name).join(', '))}${m.reachesRules ? '' : c.yellow('  (spam — rules would not run)')}`);
+              const steps = (m.actions ?? []).map((a: any) =>
+                (a.wouldRun ? '' : c.dim('skip ')) + a.type + (a.detail ? c.dim(` ${a.detail}`) : ''));
+              if (steps.length > 0) log(`       ${c.dim('then')} ${steps.join(c.dim(' → '))}`);
+            }
           } else {
             fail('Invalid choice');
           }
@@ -4180,7 +4345,7 @@ export async function interactiveShell(options: ShellOptions): Promise<void> {
     const handler = commands[cmdName];
 
     if (handler) {
-      await handler.run();
+      await handler.run(trimmed.split(/\s+/).slice(1));
     } else {
       log(`  ${c.red('Unknown:')} /${cmdName} ${c.dim('─ type /help')}`);
     }
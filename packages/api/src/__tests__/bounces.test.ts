@@ -0,0 +1,175 @@
+/**
+ * Bounce handling on the mail routes — inbound DSNs recorded and
+ * correlated to the sent message, the suppression list /mail/send
+ * refuses (with its override), and the bounced flag on contacts. Only
+ * a bounce of mail the agent really sent suppresses anything.
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { createTestDatabase } from '@agenticmail/core';
+import { createMailRoutes, recordInboundBounce } from '../routes/mail.js';
+import { createFeatureRoutes } from '../routes/features.js';
+import { errorHandler } from '../middleware/error-handler.js';
+
+const AGENTS = [
+  { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} },
+  { id: 'a-2', name: 'lyra', email: 'lyra@localhost', stalwartPrincipal: 'lyra', metadata: {} },
+];
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+function dsn(recipient: string, status: string, originalMessageId: string): Buffer {
+  return Buffer.from([
+    'From: MAILER-DAEMON@mx.example.net',
+    'To: ops@localhost',
+    'Subject: Undelivered Mail Returned to Sender',
+    'Content-Type: multipart/report; report-type=delivery-status; boundary="B"',
+    '',
+    '--B',
+    'Content-Type: text/plain',
+    '',
+    'Delivery failed.',
+    '--B',
+    'Content-Type: message/delivery-status',
+    '',
+    'Reporting-MTA: dns; mx.example.net',
+    '',
+    `Final-Recipient: rfc822; ${recipient}`,
+    'Action: failed',
+    `Status: ${status}`,
+    '--B',
+    'Content-Type: text/rfc822-headers',
+    '',
+    `Message-ID: ${originalMessageId}`,
+    'Subject: Hello',
+    '--B--',
+    '',
+  ].join('\r\n'));
+}
+
+async function buildApp() {
+  const db = createTestDatabase();
+  const sent: any[] = [];
+  const gateway = {
+    getConfig: () => ({}),
+    routeOutbound: async (_agent: string, opts: any) => {
+      sent.push(opts);
+      return { messageId: `<m${sent.length}@localhost>` };
+    },
+  };
+  const accounts = {
+    getByName: async (name: string) => AGENTS.find(a => a.name === name) ?? null,
+    getById: async (id: string) => AGENTS.find(a => a.id === id) ?? null,
+  };
+  const config = { dataDir: '/nonexistent', imap: { host: 'localhost', port: 143 }, smtp: { host: 'localhost', port: 587 } } as any;
+
+  const e = express();
+  e.use(express.json());
+  e.use((req, _res, next) => {
+    const auth = req.get('authorization');
+    if (auth === 'Bearer master') (req as any).isMaster = true;
+    const agent = AGENTS.find(a => auth === `Bearer ${a.name}`);
+    if (agent) (req as any).agent = agent;
+    next();
+  });
+  e.use(createMailRoutes(accounts as any, config, db, gateway as any));
+  e.use(createFeatureRoutes(db, accounts as any, config, gateway as any));
+  e.use(errorHandler);
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const call = async (auth: string, method: string, path: string, body?: unknown) => {
+    const res = await fetch(`http://127.0.0.1:${a.port}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', authorization: `Bearer ${auth}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as any };
+  };
+  return { db, call, sent };
+}
+
+describe('bounces', () => {
+  it('records an inbound DSN and lists it against the sent message', async () => {
+    const { db, call } = await buildApp();
+    await call('ops', 'POST', '/mail/send', { to: 'gone@example.org', subject: 'Hello', text: 'a' });
+    const summary = recordInboundBounce(db, 'a-1', dsn('gone@example.org', '5.1.1', '<m1@localhost>'), '<b1@mx.example.net>');
+    expect(summary).toMatchObject({
+      format: 'dsn',
+      originalMessageId: '<m1@localhost>',
+      recipients: [{ address: 'gone@example.org', type: 'hard', status: '5.1.1' }],
+      suppressed: ['gone@example.org'],
+    });
+    recordInboundBounce(db, 'a-2', dsn('full@example.org', '4.2.2', '<m2@localhost>'), '<b2@mx.example.net>');
+    expect(recordInboundBounce(db, 'a-1', Buffer.from('From: dana@example.org\r\nSubject: Hi\r\n\r\nHello'))).toBeNull();
+
+    const own = await call('ops', 'GET', '/mail/bounces?messageId=m1@localhost');
+    expect(own.body).toMatchObject({ count: 1, bounces: [{ recipient: 'gone@example.org', type: 'hard', originalSubject: 'Hello' }] });
+    expect((await call('lyra', 'GET', '/mail/bounces?messageId=m1@localhost')).body.count).toBe(0);
+    expect((await call('master', 'GET', '/mail/bounces?type=soft')).body.bounces).toMatchObject([{ agentId: 'a-2', recipient: 'full@example.org' }]);
+    expect((await call('master', 'GET', '/mail/bounces?type=bogus')).status).toBe(400);
+  });
+
+  it('does not suppress on a forged DSN for mail the agent never sent', async () => {
+    const { db, call, sent } = await buildApp();
+    await call('ops', 'POST', '/mail/send', { to: 'dana@example.org', subject: 'Hello', text: 'a' });
+    const forged = recordInboundBounce(db, 'a-1', dsn('victim@corp.example', '5.1.1', '<m1@localhost>'), '<f1@attacker.example>');
+    expect(forged).toMatchObject({ recipients: [{ address: 'victim@corp.example', type: 'hard' }], suppressed: [] });
+    // The right message and recipient, reported to an agent that didn't send it.
+    expect(recordInboundBounce(db, 'a-2', dsn('dana@example.org', '5.1.1', '<m1@localhost>'), '<f2@attacker.example>'))
+      .toMatchObject({ suppressed: [] });
+
+    expect((await call('master', 'GET', '/mail/suppressions')).body.count).toBe(0);
+    expect((await call('master', 'GET', '/mail/bounces?recipient=victim@corp.example')).body.count).toBe(1);
+    expect((await call('lyra', 'POST', '/mail/send', { to: 'victim@corp.example', subject: 'Hi', text: 'a' })).status).toBe(200);
+    expect(sent).toHaveLength(2);
+  });
+
+  it('refuses suppressed recipients unless overridden', async () => {
+    const { db, call, sent } = await buildApp();
+    await call('lyra', 'POST', '/mail/send', { to: 'gone@example.org', subject: 'Hello', text: 'a' });
+    recordInboundBounce(db, 'a-2', dsn('gone@example.org', '5.1.1', '<m1@localhost>'), '<b1@mx.example.net>');
+    sent.length = 0;
+
+    const refused = await call('ops', 'POST', '/mail/send', { to: 'x@example.com', cc: ['Gone <GONE@example.org>'], subject: 'Hi', text: 'a' });
+    expect(refused.status).toBe(409);
+    expect(refused.body.suppressed).toMatchObject([{ address: 'gone@example.org', reason: 'hard_bounce' }]);
+    const daemon = await call('ops', 'POST', '/mail/send', { to: 'MAILER-DAEMON@mx.example.net', subject: 'Re: Undelivered', text: 'a' });
+    expect(daemon.body.suppressed).toMatchObject([{ reason: 'mailer_daemon' }]);
+    expect(sent).toHaveLength(0);
+
+    const forced = await call('ops', 'POST', '/mail/send', { to: 'gone@example.org', subject: 'Hi', text: 'a', allowSuppressed: true });
+    expect(forced.status).toBe(200);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('flags contacts and lets the master lift a suppression', async () => {
+    const { db, call, sent } = await buildApp();
+    await call('ops', 'POST', '/contacts', { name: 'Gone', email: 'gone@example.org' });
+    await call('lyra', 'POST', '/mail/send', { to: 'gone@example.org', subject: 'Hello', text: 'a' });
+    recordInboundBounce(db, 'a-2', dsn('gone@example.org', '5.1.1', '<m1@localhost>'), '<b1@mx.example.net>');
+    sent.length = 0;
+    expect((await call('ops', 'GET', '/contacts')).body.contacts).toMatchObject([{ email: 'gone@example.org', bounced: 1 }]);
+
+    // Re-saving the contact keeps the flag.
+    await call('ops', 'POST', '/contacts', { name: 'Gone Again', email: 'gone@example.org' });
+    expect((await call('ops', 'GET', '/contacts')).body.contacts).toMatchObject([{ name: 'Gone Again', bounced: 1 }]);
+    expect((await call('ops', 'GET', '/mail/suppressions')).body).toMatchObject({ count: 1, suppressions: [{ address: 'gone@example.org' }] });
+
+    expect((await call('ops', 'DELETE', '/mail/suppressions/gone@example.org')).status).toBe(403);
+    expect((await call('master', 'DELETE', '/mail/suppressions/Gone@example.org')).body).toEqual({ ok: true, address: 'gone@example.org' });
+    expect((await call('master', 'DELETE', '/mail/suppressions/gone@example.org')).status).toBe(404);
+    expect((await call('ops', 'GET', '/contacts')).body.contacts).toMatchObject([{ bounced: 0, bounced_at: null }]);
+
+    expect((await call('ops', 'POST', '/mail/send', { to: 'gone@example.org', subject: 'Hi', text: 'a' })).status).toBe(200);
+    expect(sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Calendar invites — answering an inbound invite with an iTIP REPLY
+ * (the IMAP receiver is an in-memory mailbox) and organising invites:
+ * REQUEST, rescheduling, CANCEL, and RSVPs recorded from replies.
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+
+const INVITE = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'METHOD:REQUEST',
+  'BEGIN:VEVENT',
+  'UID:sync-1@example.org',
+  'SEQUENCE:2',
+  'SUMMARY:Quarterly sync',
+  'DTSTART;TZID=Europe/Berlin:20261103T150000',
+  'DTEND;TZID=Europe/Berlin:20261103T160000',
+  'ORGANIZER;CN=Ada:mailto:ada@example.org',
+  'ATTENDEE;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:bob@example.org',
+  'ATTENDEE;CN=Ops;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:me+ops@gmail.com',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+const MAILBOX: Record<number, Buffer> = {};
+
+class FakeReceiver {
+  async connect(): Promise<void> { /* connected */ }
+  async disconnect(): Promise<void> { /* closed */ }
+  getImapClient() { return { usable: true }; }
+  async fetchMessage(uid: number) {
+    if (!MAILBOX[uid]) throw Object.assign(new Error('Message not found'), { code: 'MESSAGE_NOT_FOUND' });
+    return MAILBOX[uid];
+  }
+}
+
+vi.mock('@agenticmail/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@agenticmail/core')>()),
+  MailReceiver: FakeReceiver,
+}));
+
+const { createTestDatabase, formatICalendar, parseICalendar } = await import('@agenticmail/core');
+const { createCalendarRoutes, trackCalendarReply } = await import('../routes/calendar.js');
+
+const AGENT = { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} };
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function buildApp() {
+  const db = createTestDatabase();
+  const sent: any[] = [];
+  const gateway = {
+    routeOutbound: async (_agent: string, opts: any) => {
+      sent.push(opts);
+      return { messageId: `<c${sent.length}@localhost>` };
+    },
+    getConfig: () => ({ mode: 'relay' }),
+    outboundAddress: (agent: { name: string }) => `me+${agent.name}@gmail.com`,
+  };
+  const config = { dataDir: '/nonexistent', imap: { host: 'localhost', port: 143 }, smtp: { host: 'localhost', port: 587 } } as any;
+
+  const e = express();
+  e.use(express.json());
+  e.use('/api/agenticmail', (req, _res, next) => { (req as any).agent = AGENT; next(); });
+  e.use('/api/agenticmail', createCalendarRoutes(db, config, gateway as any));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const call = async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(`http://127.0.0.1:${a.port}/api/agenticmail${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as any };
+  };
+  return { db, call, sent };
+}
+
+describe('POST /calendar/respond', () => {
+  it('sends the organizer a REPLY with the agent\'s PARTSTAT', async () => {
+    MAILBOX[7] = await new MailComposer({
+      from: 'ada@example.org',
+      to: 'me+ops@gmail.com',
+      subject: 'Invitation: Quarterly sync',
+      messageId: '<invite-7@example.org>',
+      text: 'Quarterly sync',
+      icalEvent: { method: 'REQUEST', content: INVITE },
+    }).compile().build();
+    const { call, sent } = await buildApp();
+
+    expect((await call('POST', '/calendar/respond', { uid: 7, response: 'maybe' })).status).toBe(400);
+    expect((await call('POST', '/calendar/respond', { uid: 99, response: 'accepted' })).status).toBe(404);
+
+    const res = await call('POST', '/calendar/respond', { uid: 7, response: 'Tentative', comment: 'May run late' });
+    expect(res.body).toMatchObject({ ok: true, uid: 'sync-1@example.org', partstat: 'TENTATIVE', organizer: 'ada@example.org' });
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ to: 'ada@example.org', subject: 'Tentative: Quarterly sync', inReplyTo: '<invite-7@example.org>' });
+    expect(sent[0].text).toContain('May run late');
+    expect(sent[0].icalEvent.method).toBe('REPLY');
+
+    const reply = parseICalendar(sent[0].icalEvent.content)!;
+    expect(reply.method).toBe('REPLY');
+    expect(reply.events[0]).toMatchObject({
+      uid: 'sync-1@example.org',
+      sequence: 2,
+      organizer: { address: 'ada@example.org' },
+      attendees: [{ address: 'me+ops@gmail.com', name: 'Ops', partstat: 'TENTATIVE' }],
+    });
+    expect(reply.events[0].start?.date.toISOString()).toBe('2026-11-03T14:00:00.000Z');
+  });
+});
+
+describe('/calendar/invites', () => {
+  it('sends, reschedules and cancels an invite and records RSVPs', async () => {
+    const { db, call, sent } = await buildApp();
+    expect((await call('POST', '/calendar/invites', { to: 'ada@example.org', start: '2026-11-03T15:00' })).status).toBe(400);
+    const backwards = await call('POST', '/calendar/invites', {
+      to: 'ada@example.org', summary: 'Sync', start: '2026-11-03T15:00:00Z', end: '2026-11-03T14:00:00Z',
+    });
+    expect(backwards.body.error).toContain('end must be after start');
+
+    const created = await call('POST', '/calendar/invites', {
+      summary: 'Roadmap review',
+      attendees: [{ address: 'Ada@Example.org', name: 'Ada' }, { address: 'bob@localhost' }],
+      start: '2026-11-03T15:00',
+      timezone: 'Europe/Berlin',
+      durationMinutes: 45,
+      location: 'Room 4',
+    });
+    expect(created.status).toBe(200);
+    const uid = created.body.uid;
+    expect(created.body).toMatchObject({
+      sequence: 0,
+      status: 'confirmed',
+      organizer: 'me+ops@gmail.com',
+      start: '2026-11-03T14:00:00.000Z',
+      end: '2026-11-03T14:45:00.000Z',
+      messageId: '<c1@localhost>',
+    });
+    expect(sent[0]).toMatchObject({ to: ['ada@example.org', 'bob@localhost'], subject: 'Invitation: Roadmap review' });
+    expect(sent[0].text).toContain('When: Tue, 3 Nov 2026, 15:00 – 15:45 (Europe/Berlin)');
+    expect(sent[0].icalEvent.content).toContain('DTSTART;TZID=Europe/Berlin:20261103T150000');
+
+    // Ada accepts.
+    const replyFrom = (address: string, partstat: string, sequence: number) => ({
+      calendar: parseICalendar(formatICalendar({
+        method: 'REPLY',
+        events: [{ uid, sequence, organizer: { address: 'me+ops@gmail.com' }, attendees: [{ address, partstat }], start: new Date('2026-11-03T14:00:00Z') }],
+      }))!,
+    });
+    expect(trackCalendarReply(db, AGENT.id, replyFrom('ada@example.org', 'ACCEPTED', 0))).toBe(1);
+    expect((await call('GET', `/calendar/invites/${encodeURIComponent(uid)}`)).body.attendees).toMatchObject([
+      { address: 'ada@example.org', name: 'Ada', partstat: 'ACCEPTED' },
+      { address: 'bob@localhost', partstat: 'NEEDS-ACTION' },
+    ]);
+
+    // Moving the meeting asks everyone again, and old replies no longer count.
+    const moved = await call('PATCH', `/calendar/invites/${encodeURIComponent(uid)}`, { start: '2026-11-04T10:00' });
+    expect(moved.body).toMatchObject({ sequence: 1, start: '2026-11-04T09:00:00.000Z', end: '2026-11-04T09:45:00.000Z' });
+    expect(moved.body.attendees[0].partstat).toBe('NEEDS-ACTION');
+    expect(sent[1].subject).toBe('Updated invitation: Roadmap review');
+    expect(parseICalendar(sent[1].icalEvent.content)!.events[0].sequence).toBe(1);
+    expect(trackCalendarReply(db, AGENT.id, replyFrom('ada@example.org', 'ACCEPTED', 0))).toBe(0);
+    expect(trackCalendarReply(db, AGENT.id, replyFrom('bob@localhost', 'DECLINED', 1))).toBe(1);
+
+    const cancelled = await call('POST', `/calendar/invites/${encodeURIComponent(uid)}/cancel`, {});
+    expect(cancelled.body).toMatchObject({ sequence: 2, status: 'cancelled' });
+    expect(sent[2]).toMatchObject({ subject: 'Cancelled: Roadmap review', icalEvent: { method: 'CANCEL' } });
+    expect(parseICalendar(sent[2].icalEvent.content)!.events[0].status).toBe('CANCELLED');
+    expect((await call('POST', `/calendar/invites/${encodeURIComponent(uid)}/cancel`, {})).status).toBe(409);
+    expect((await call('GET', '/calendar/invites?status=cancelled')).body.invites).toHaveLength(1);
+  });
+});
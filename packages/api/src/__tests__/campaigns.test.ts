@@ -0,0 +1,238 @@
+/**
+ * /campaigns — mail merge from CSV, storage tables and tagged contacts,
+ * the throttled sweep, the outbound guard and suppression on each send,
+ * and replies/bounces flowing back into per-recipient progress. Sends
+ * go to a fake gateway; the sweep is driven with explicit clock values.
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { BounceTracker, OutboundQuotaError, createTestDatabase } from '@agenticmail/core';
+import { createCampaignRoutes, sweepCampaigns, trackCampaignMail } from '../routes/campaigns.js';
+import { createFeatureRoutes } from '../routes/features.js';
+import { createStorageRoutes } from '../routes/storage.js';
+import { parseCsv } from '../lib/mail-merge.js';
+import { renderTemplate } from '../lib/template-engine.js';
+
+const AGENTS = [
+  { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} },
+  { id: 'a-2', name: 'lyra', email: 'lyra@localhost', stalwartPrincipal: 'lyra', metadata: {} },
+];
+const accounts = {
+  getById: async (id: string) => AGENTS.find(a => a.id === id) ?? null,
+  getByName: async (name: string) => AGENTS.find(a => a.name === name) ?? null,
+} as any;
+const config = { dataDir: '/nonexistent', masterKey: 'mk_test', smtp: { host: 'localhost', port: 587 } } as any;
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function buildApp() {
+  const db = createTestDatabase();
+  const sent: any[] = [];
+  const failures: Error[] = [];
+  const gateway = {
+    getConfig: () => ({ mode: 'relay' }),
+    routeOutbound: async (_agent: string, opts: any) => {
+      const failure = failures.shift();
+      if (failure) throw failure;
+      sent.push(opts);
+      return { messageId: `<c${sent.length}@example.com>` };
+    },
+  } as any;
+
+  const e = express();
+  e.use(express.json());
+  e.use((req, _res, next) => {
+    const agent = AGENTS.find(a => req.get('authorization') === `Bearer ${a.name}`);
+    if (agent) (req as any).agent = agent;
+    next();
+  });
+  e.use(createCampaignRoutes(db, config, gateway));
+  e.use(createFeatureRoutes(db, accounts, config, gateway));
+  e.use(createStorageRoutes(db, accounts, config));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const call = async (method: string, path: string, body?: unknown, auth = 'ops') => {
+    const res = await fetch(`http://127.0.0.1:${a.port}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', authorization: `Bearer ${auth}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as any };
+  };
+  const sweep = (at: string) => sweepCampaigns(db, accounts, config, gateway, new Date(at));
+  return { db, call, sent, failures, sweep };
+}
+
+const CSV = [
+  'email,first_name,company',
+  'ada@example.org,Ada,"Analytical, Ltd"',
+  'grace@example.org,Grace,Navy',
+  'not-an-address,Nobody,-',
+  'ADA@example.org,Ada again,dupe',
+  'linus@example.org,Linus,"Transmeta ""Labs"""',
+].join('\r\n');
+
+describe('mail merge helpers', () => {
+  it('parses quoted CSV and renders fields', () => {
+    expect(parseCsv('name,note\n"Lee","line one\nline two"\n\nKim,"say ""hi"""\n')).toEqual([
+      { name: 'Lee', note: 'line one\nline two' },
+      { name: 'Kim', note: 'say "hi"' },
+    ]);
+    expect(() => parseCsv('a\n"open')).toThrow(/unterminated/);
+    expect(renderTemplate('Hi {{name}}{{missing}} from {{team}}', { name: 'Ada', team: null })).toMatchObject({
+      output: 'Hi Ada from ', errors: [{ path: 'missing', message: 'undefined variable' }],
+    });
+  });
+});
+
+describe('/campaigns', () => {
+  it('sends a CSV campaign at the throttle rate with each recipient\'s fields', async () => {
+    const { call, sent, sweep } = await buildApp();
+    const created = await call('POST', '/campaigns', {
+      name: 'Launch', source: { type: 'csv', csv: CSV, nameColumn: 'first_name' },
+      subject: 'A note for {{company}}', text: 'Hi {{first_name}},\nwelcome aboard.',
+      perHour: 120, startAt: '2026-01-01T00:00:00Z',
+    });
+    expect(created.body).toMatchObject({ ok: true, recipients: 3, invalid: 1, duplicates: 1 });
+    const id = created.body.id;
+
+    // The past start means "now"; 120/hour is one slot every 30 seconds.
+    const start = Date.parse(created.body.startAt);
+    await sweep(new Date(start + 45_000).toISOString());
+    expect(sent.map(m => m.to)).toEqual(['"Ada" <ada@example.org>', '"Grace" <grace@example.org>']);
+    expect(sent[0]).toMatchObject({ subject: 'A note for Analytical, Ltd', text: 'Hi Ada,\nwelcome aboard.', fromName: 'ops' });
+
+    let detail = await call('GET', `/campaigns/${id}`);
+    expect(detail.body.campaign).toMatchObject({ status: 'active', total: 3, progress: { sent: 2, queued: 1 } });
+    expect(detail.body.recipients[0]).toMatchObject({ address: 'ada@example.org', status: 'sent', messageId: '<c1@example.com>' });
+
+    await sweep(new Date(start + 70_000).toISOString());
+    expect(sent[2].subject).toBe('A note for Transmeta "Labs"');
+    detail = await call('GET', `/campaigns/${id}?status=sent`);
+    expect(detail.body.campaign).toMatchObject({ status: 'completed', progress: { sent: 3, queued: 0 } });
+    expect(detail.body.recipients).toHaveLength(3);
+  });
+
+  it('rejects templates that use fields the recipients lack', async () => {
+    const { call } = await buildApp();
+    const res = await call('POST', '/campaigns', {
+      name: 'Bad', source: { type: 'csv', csv: CSV }, subject: 'Hi {{first_name}}', text: 'Your plan: {{plan}}',
+    });
+    expect(res.status).toBe(400);
+    expect(res.body.missing).toEqual(['plan']);
+
+    const template = await call('POST', '/templates', { name: 'intro', subject: 'Hello {{first_name}}', text: 'Hi from {{company}}' });
+    const ok = await call('POST', '/campaigns', { name: 'Tpl', source: { type: 'csv', csv: CSV }, templateId: template.body.id });
+    expect(ok.status).toBe(200);
+  });
+
+  it('reads recipients from a storage table and from tagged contacts', async () => {
+    const { call, sent, sweep } = await buildApp();
+    await call('POST', '/storage/tables', {
+      name: 'leads', shared: true, columns: [{ name: 'addr', type: 'text' }, { name: 'plan', type: 'text' }],
+    });
+    await call('POST', '/storage/insert', { table: 'shared_leads', rows: [{ addr: 'kim@example.org', plan: 'pro' }] });
+    const fromTable = await call('POST', '/campaigns', {
+      name: 'Leads', source: { type: 'table', table: 'shared_leads', emailColumn: 'addr' },
+      subject: 'Your {{plan}} plan', text: 'Details inside.',
+    }, 'lyra');
+    expect(fromTable.body).toMatchObject({ ok: true, recipients: 1 });
+    expect((await call('POST', '/campaigns', {
+      name: 'Nope', source: { type: 'table', table: 'missing' }, subject: 'x', text: 'y',
+    })).status).toBe(404);
+
+    await call('POST', '/contacts', { email: 'vip@example.org', name: 'Vee', tags: ['VIP', 'beta'] });
+    await call('POST', '/contacts', { email: 'other@example.org', name: 'Oz' });
+    expect((await call('GET', '/contacts?tag=vip')).body.contacts).toMatchObject([{ email: 'vip@example.org', tags: ['VIP', 'beta'] }]);
+    const fromContacts = await call('POST', '/campaigns', {
+      name: 'VIPs', source: { type: 'contacts', tag: 'vip' }, subject: 'Hello {{name}}', text: 'Early access.',
+    });
+    expect(fromContacts.body.recipients).toBe(1);
+
+    await sweep(new Date(Date.now() + 1000).toISOString());
+    expect(sent.map(m => m.subject).sort()).toEqual(['Hello Vee', 'Your pro plan']);
+  });
+
+  it('guards, skips suppressed addresses and waits out quotas', async () => {
+    const { db, call, sent, failures, sweep } = await buildApp();
+    const bounces = new BounceTracker(db);
+    bounces.recordSent('a-2', '<earlier@localhost>', ['gone@example.org']);
+    bounces.record('a-2', {
+      format: 'dsn', recipients: [{ address: 'gone@example.org', action: 'failed', status: '5.1.1', type: 'hard' }],
+      originalMessageId: '<earlier@localhost>',
+    }, '<b1@mx>');
+    const csv = 'email,account\nleak@example.org,DE89370400440532013000\ngone@example.org,none\nok@example.org,none\n';
+    const created = await call('POST', '/campaigns', {
+      name: 'Billing', source: { type: 'csv', csv }, subject: 'Billing', text: 'Account: {{account}}', perHour: 3600,
+    });
+    const start = Date.parse(created.body.startAt);
+
+    failures.push(new OutboundQuotaError({
+      agentName: 'ops', scope: 'agent', limit: 'perHour', max: 10, used: 10, retryAfterSeconds: 600,
+    }));
+    await sweep(new Date(start + 5000).toISOString());
+    let detail = await call('GET', `/campaigns/${created.body.id}`);
+    expect(detail.body.recipients.map((r: any) => r.status)).toEqual(['blocked', 'skipped', 'queued']);
+    expect(detail.body.recipients[1].error).toBe('suppressed (hard_bounce)');
+    expect(Date.parse(detail.body.campaign.nextSendAt)).toBe(start + 5000 + 600_000);
+
+    await sweep(new Date(start + 60_000).toISOString());
+    expect(sent).toHaveLength(0);
+    await sweep(new Date(start + 610_000).toISOString());
+    expect(sent.map(m => m.to)).toEqual(['ok@example.org']);
+  });
+
+  it('tracks replies and bounces by Message-ID', async () => {
+    const { db, call, sweep } = await buildApp();
+    const created = await call('POST', '/campaigns', {
+      name: 'Outreach', source: { type: 'csv', csv: 'email\nada@example.org\ngrace@example.org\n' },
+      subject: 'Hello', text: 'Hi', perHour: 3600,
+    });
+    await sweep(new Date(Date.parse(created.body.startAt) + 5000).toISOString());
+
+    trackCampaignMail(db, 'a-1', { inReplyTo: '<c1@example.com>', references: [] });
+    trackCampaignMail(db, 'a-2', { inReplyTo: '<c2@example.com>' });
+    trackCampaignMail(db, 'a-1', {}, {
+      format: 'dsn', originalMessageId: 'c2@example.com', originalSubject: 'Hello', suppressed: ['grace@example.org'],
+      recipients: [{ address: 'grace@example.org', type: 'hard', action: 'failed', status: '5.1.1', diagnostic: '550 5.1.1 no such user' }],
+    });
+
+    const detail = await call('GET', `/campaigns/${created.body.id}`);
+    expect(detail.body.recipients).toMatchObject([
+      { address: 'ada@example.org', status: 'replied' },
+      { address: 'grace@example.org', status: 'bounced', error: '550 5.1.1 no such user' },
+    ]);
+    expect(detail.body.campaign.progress).toMatchObject({ replied: 1, bounced: 1 });
+  });
+
+  it('pauses, resumes and cancels', async () => {
+    const { call, sent, sweep } = await buildApp();
+    const created = await call('POST', '/campaigns', {
+      name: 'Slow', source: { type: 'csv', csv: CSV }, subject: 'Hi', text: 'Hello {{first_name}}', perHour: 1,
+    });
+    const id = created.body.id;
+    const start = Date.parse(created.body.startAt);
+    expect((await call('POST', `/campaigns/${id}/pause`)).body.status).toBe('paused');
+    await sweep(new Date(start + 1000).toISOString());
+    expect(sent).toHaveLength(0);
+    expect((await call('POST', `/campaigns/${id}/pause`)).status).toBe(404);
+
+    expect((await call('POST', `/campaigns/${id}/resume`)).body.status).toBe('active');
+    await sweep(new Date(Date.now() + 1000).toISOString());
+    expect(sent).toHaveLength(1);
+
+    expect((await call('GET', `/campaigns/${id}`, undefined, 'lyra')).status).toBe(404);
+    expect((await call('POST', `/campaigns/${id}/cancel`)).body).toMatchObject({ status: 'cancelled', cancelled: 2 });
+    const list = await call('GET', '/campaigns');
+    expect(list.body.campaigns[0]).toMatchObject({ status: 'cancelled', progress: { sent: 1, cancelled: 2 } });
+  });
+});
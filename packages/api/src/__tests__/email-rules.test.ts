@@ -0,0 +1,247 @@
+/**
+ * Email rule engine: condition trees, action pipelines, the stop
+ * flag, and the /rules routes that store them.
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { createTestDatabase } from '@agenticmail/core';
+import {
+  matchesConditions,
+  normalizeRuleActions,
+  planRuleActions,
+  validateRuleDefinition,
+  type EmailRule,
+  type RuleEmail,
+} from '../lib/email-rules.js';
+import { createFeatureRoutes, evaluateRules } from '../routes/features.js';
+
+function email(overrides: Partial<RuleEmail> = {}): RuleEmail {
+  return {
+    from: [{ address: 'billing@vendor.com', name: 'Vendor Billing' }],
+    to: [{ address: 'ops@localhost' }, { address: 'finance@localhost' }],
+    cc: [{ address: 'cfo@example.com' }],
+    subject: 'Invoice #4411 for March',
+    text: 'Please find the invoice attached. Payment due in 30 days.',
+    attachments: [],
+    headers: new Map([['list-id', '<billing.vendor.com>'], ['x-priority', '1']]),
+    ...overrides,
+  };
+}
+
+function rule(overrides: Partial<EmailRule>): EmailRule {
+  return { id: 'r', name: 'r', priority: 0, enabled: true, stop: true, conditions: {}, actions: [], ...overrides };
+}
+
+describe('matchesConditions', () => {
+  it('keeps the flat legacy keys as an implicit AND', () => {
+    expect(matchesConditions({ from_contains: 'vendor', subject_contains: 'invoice' }, email())).toBe(true);
+    expect(matchesConditions({ from_contains: 'vendor', subject_contains: 'receipt' }, email())).toBe(false);
+    expect(matchesConditions({}, email())).toBe(true);
+  });
+
+  it('checks every To/Cc address, not just the first', () => {
+    expect(matchesConditions({ to_exact: 'finance@localhost' }, email())).toBe(true);
+    expect(matchesConditions({ cc_contains: 'cfo@' }, email())).toBe(true);
+    expect(matchesConditions({ cc_exact: 'ceo@example.com' }, email())).toBe(false);
+  });
+
+  it('evaluates any / all / not trees', () => {
+    const tree = {
+      all: [
+        { any: [{ subject_contains: 'receipt' }, { subject_regex: '^invoice #\\d+' }] },
+        { not: { from_contains: 'noreply' } },
+      ],
+    };
+    expect(matchesConditions(tree, email())).toBe(true);
+    expect(matchesConditions(tree, email({ from: [{ address: 'noreply@vendor.com' }] }))).toBe(false);
+    expect(matchesConditions({ any: [] }, email())).toBe(false);
+  });
+
+  it('matches body text, falling back to stripped HTML', () => {
+    expect(matchesConditions({ body_contains: 'payment due' }, email())).toBe(true);
+    expect(matchesConditions({ body_contains: 'due in' }, email({ text: undefined, html: '<p>due in <b>30</b> days</p>' }))).toBe(true);
+  });
+
+  it('tests arbitrary headers', () => {
+    expect(matchesConditions({ header: { name: 'List-Id', contains: 'vendor.com' } }, email())).toBe(true);
+    expect(matchesConditions({ header: { name: 'X-Priority', equals: '1' } }, email())).toBe(true);
+    expect(matchesConditions({ header: { name: 'X-Mailer', exists: false } }, email())).toBe(true);
+    expect(matchesConditions({ header: [{ name: 'list-id', exists: true }, { name: 'x-priority', regex: '^[45]$' }] }, email())).toBe(false);
+  });
+
+  it('reads spam score and route class from the context', () => {
+    expect(matchesConditions({ spam_score_gte: 20 }, email(), { spamScore: 25 })).toBe(true);
+    expect(matchesConditions({ spam_score_lt: 20 }, email(), { spamScore: 25 })).toBe(false);
+    // Unscored (internal) mail never matches a score test.
+    expect(matchesConditions({ spam_score_lt: 20 }, email())).toBe(false);
+    expect(matchesConditions({ route_class: ['deal_escalation', 'project_update'] }, email(), { routeClass: 'deal_escalation' })).toBe(true);
+    expect(matchesConditions({ route_class: 'human_private' }, email(), { routeClass: 'deal_escalation' })).toBe(false);
+  });
+
+  it('fails closed on unknown keys and bad regexes', () => {
+    expect(matchesConditions({ sender_is: 'x' }, email())).toBe(false);
+    expect(matchesConditions({ subject_regex: '(' }, email())).toBe(false);
+  });
+});
+
+describe('normalizeRuleActions', () => {
+  it('turns the legacy object into an ordered pipeline', () => {
+    expect(normalizeRuleActions({ delete: true, move_to: 'Archive', mark_read: true, add_tags: ['billing'] })).toEqual([
+      { type: 'tag', tags: ['billing'] },
+      { type: 'mark_read' },
+      { type: 'move', folder: 'Archive' },
+      { type: 'delete' },
+    ]);
+  });
+
+  it('passes pipelines through and drops unknown steps', () => {
+    expect(normalizeRuleActions([{ type: 'forward', to: 'a@b.com' }, { type: 'explode' }])).toEqual([
+      { type: 'forward', to: 'a@b.com' },
+    ]);
+  });
+});
+
+describe('planRuleActions', () => {
+  it('stops at the first matching rule by default', () => {
+    const plan = planRuleActions([
+      rule({ id: 'low', priority: 1, actions: { mark_read: true } }),
+      rule({ id: 'high', priority: 10, actions: { move_to: 'Billing' } }),
+    ], email());
+    expect(plan?.matches.map(m => m.ruleId)).toEqual(['high']);
+    expect(plan?.actions).toEqual([{ type: 'move', folder: 'Billing' }]);
+  });
+
+  it('lets later rules run when stop is false', () => {
+    const plan = planRuleActions([
+      rule({ id: 'tagger', priority: 10, stop: false, actions: [{ type: 'tag', tags: ['vendor'] }] }),
+      rule({ id: 'skipped', priority: 5, enabled: false, actions: [{ type: 'delete' }] }),
+      rule({ id: 'mover', priority: 1, actions: [{ type: 'move', folder: 'Billing' }] }),
+      rule({ id: 'never', priority: 0, actions: [{ type: 'mark_read' }] }),
+    ], email());
+    expect(plan?.matches.map(m => m.ruleId)).toEqual(['tagger', 'mover']);
+    expect(plan?.actions.map(a => a.type)).toEqual(['tag', 'move']);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(planRuleActions([rule({ conditions: { from_exact: 'x@y.z' } })], email())).toBeNull();
+  });
+});
+
+describe('validateRuleDefinition', () => {
+  it('accepts trees and pipelines', () => {
+    expect(validateRuleDefinition({
+      conditions: { any: [{ from_contains: 'a' }, { not: { header: { name: 'List-Id', exists: true } } }] },
+      actions: [{ type: 'auto_reply', template: 'ooo' }, { type: 'assign_task', assignee: 'secretary' }],
+    })).toEqual([]);
+    expect(validateRuleDefinition({ conditions: { from_contains: 'a' }, actions: { move_to: 'X' } })).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    const errors = validateRuleDefinition({
+      conditions: { all: [{ sender: 'x' }, { subject_regex: '(' }], has_attachment: 'yes' },
+      actions: [{ type: 'move' }, { type: 'forward', to: 'nobody' }, { type: 'launch' }],
+    });
+    expect(errors).toEqual([
+      expect.stringContaining('conditions.all[0].sender'),
+      expect.stringContaining('conditions.all[1].subject_regex'),
+      expect.stringContaining('conditions.has_attachment'),
+      expect.stringContaining('actions[0].folder'),
+      expect.stringContaining('actions[1].to'),
+      expect.stringContaining('actions[2].type'),
+    ]);
+  });
+});
+
+// ─── Routes ─────────────────────────────────────────────────────────
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function listen(app: express.Express): Promise<string> {
+  const server = createServer(app);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  return `http://127.0.0.1:${a.port}`;
+}
+
+async function req(base: string, path: string, init?: RequestInit) {
+  const res = await fetch(`${base}${path}`, { ...init, headers: { 'Content-Type': 'application/json' } });
+  return { status: res.status, body: await res.json().catch(() => ({})) as any };
+}
+
+function buildApp() {
+  const db = createTestDatabase();
+  const e = express();
+  e.use(express.json());
+  e.use((r, _res, next) => {
+    (r as any).agent = { id: 'agent-1', name: 'ops', email: 'ops@localhost' };
+    next();
+  });
+  e.use(createFeatureRoutes(db, {} as any, { smtp: { host: 'localhost', port: 587 } } as any));
+  return { e, db };
+}
+
+describe('/rules routes', () => {
+  it('rejects invalid rule bodies with the full error list', async () => {
+    const { e } = buildApp();
+    const base = await listen(e);
+    const r = await req(base, '/rules', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'bad', conditions: { from: 'x' }, actions: [{ type: 'move' }] }),
+    });
+    expect(r.status).toBe(400);
+    expect(r.body.details).toHaveLength(2);
+  });
+
+  it('updates a rule partially with PUT', async () => {
+    const { e } = buildApp();
+    const base = await listen(e);
+    const created = await req(base, '/rules', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'vendor', conditions: { from_contains: 'vendor' }, actions: { mark_read: true } }),
+    });
+    expect(created.status).toBe(201);
+    expect(created.body.stop).toBe(true);
+
+    const updated = await req(base, `/rules/${created.body.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ stop: false, actions: [{ type: 'tag', tags: ['vendor'] }] }),
+    });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({
+      name: 'vendor',
+      stop: false,
+      enabled: true,
+      conditions: { from_contains: 'vendor' },
+      actions: [{ type: 'tag', tags: ['vendor'] }],
+    });
+
+    const missing = await req(base, '/rules/nope', { method: 'PUT', body: JSON.stringify({ enabled: false }) });
+    expect(missing.status).toBe(404);
+  });
+
+  it('counts hits when evaluateRules matches live mail', async () => {
+    const { e, db } = buildApp();
+    const base = await listen(e);
+    await req(base, '/rules', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'vendor', conditions: { from_contains: 'vendor' }, actions: [{ type: 'mark_read' }] }),
+    });
+
+    expect(evaluateRules(db, 'agent-1', email())?.actions).toEqual([{ type: 'mark_read' }]);
+    evaluateRules(db, 'agent-1', email());
+    expect(evaluateRules(db, 'other-agent', email())).toBeNull();
+
+    const list = await req(base, '/rules');
+    expect(list.body.rules[0].hit_count).toBe(2);
+    expect(list.body.rules[0].last_matched_at).toBeTruthy();
+  });
+});
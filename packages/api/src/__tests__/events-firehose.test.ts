@@ -0,0 +1,187 @@
+/**
+ * GET /events/all — the master-key firehose. InboxWatcher is replaced
+ * with an in-memory emitter so the test can drive mailbox events and
+ * count how many IMAP watchers the server opens.
+ */
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { EventEmitter } from 'node:events';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+
+const watchers: FakeWatcher[] = [];
+
+class FakeWatcher extends EventEmitter {
+  stopped = false;
+  constructor(readonly options: { email: string }) {
+    super();
+    watchers.push(this);
+  }
+  async start(): Promise<void> { /* connected */ }
+  async stop(): Promise<void> { this.stopped = true; }
+}
+
+vi.mock('@agenticmail/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@agenticmail/core')>()),
+  InboxWatcher: FakeWatcher,
+}));
+
+const { emitChannelActivity } = await import('@agenticmail/core');
+const { createEventRoutes, pushEventToAgent, closeAllWatchers } = await import('../routes/events.js');
+const { publishAccountEvent } = await import('../routes/firehose.js');
+
+const AGENTS = [
+  { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} },
+  { id: 'a-2', name: 'lyra', email: 'lyra@localhost', stalwartPrincipal: 'lyra', metadata: {} },
+];
+const accounts = { list: async () => AGENTS } as any;
+const config = { imap: { host: 'localhost', port: 143 } } as any;
+
+const servers: Server[] = [];
+const aborts: AbortController[] = [];
+
+afterEach(async () => {
+  aborts.splice(0).forEach(a => a.abort());
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => { s.closeAllConnections(); s.close(() => r()); })));
+});
+
+afterAll(async () => { await closeAllWatchers(); });
+
+async function buildApp(): Promise<string> {
+  const e = express();
+  e.use((req, _res, next) => {
+    const auth = req.get('authorization');
+    if (auth === 'Bearer master') (req as any).isMaster = true;
+    const agent = AGENTS.find(a => auth === `Bearer ${a.name}`);
+    if (agent) (req as any).agent = agent;
+    next();
+  });
+  e.use(createEventRoutes(accounts, config));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  return `http://127.0.0.1:${a.port}`;
+}
+
+interface Frame { id?: string; data: any }
+
+/** Open an SSE stream and read parsed frames on demand. */
+async function openStream(url: string, headers: Record<string, string>) {
+  const abort = new AbortController();
+  aborts.push(abort);
+  const res = await fetch(url, { headers, signal: abort.signal });
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  const frames: Frame[] = [];
+  const pump = async (): Promise<void> => {
+    const { value, done } = await reader.read();
+    if (done) throw new Error('stream ended');
+    pending += decoder.decode(value, { stream: true });
+    let cut: number;
+    while ((cut = pending.indexOf('\n\n')) >= 0) {
+      const block = pending.slice(0, cut);
+      pending = pending.slice(cut + 2);
+      const frame: Frame = { data: undefined };
+      for (const line of block.split('\n')) {
+        if (line.startsWith('id: ')) frame.id = line.slice(4);
+        if (line.startsWith('data: ')) frame.data = JSON.parse(line.slice(6));
+      }
+      if (frame.data !== undefined) frames.push(frame);
+    }
+  };
+  return {
+    status: res.status,
+    /** Resolve with the first unread frame matching `match`. */
+    async next(match: (f: Frame) => boolean): Promise<Frame> {
+      for (;;) {
+        const i = frames.findIndex(match);
+        if (i >= 0) return frames.splice(0, i + 1)[i];
+        await pump();
+      }
+    },
+    close: () => abort.abort(),
+  };
+}
+
+const settle = () => new Promise(r => setTimeout(r, 20));
+
+describe('GET /events/all', () => {
+  it('is master-only', async () => {
+    const base = await buildApp();
+    const res = await fetch(`${base}/events/all`, { headers: { authorization: 'Bearer ops' } });
+    expect(res.status).toBe(403);
+  });
+
+  it('multiplexes every agent with agent ids and monotonic event ids', async () => {
+    const base = await buildApp();
+    const stream = await openStream(`${base}/events/all`, { authorization: 'Bearer master' });
+    expect(stream.status).toBe(200);
+    await stream.next(f => f.data.type === 'connected');
+    await settle();
+
+    // One watcher per account, started by the firehose itself.
+    const live = watchers.filter(w => !w.stopped);
+    expect(live.map(w => w.options.email).sort()).toEqual(['lyra', 'ops']);
+
+    live.find(w => w.options.email === 'lyra')!.emit('expunge', { type: 'expunge', uid: 7 });
+    pushEventToAgent('a-1', { type: 'task', taskId: 't-1' });
+    publishAccountEvent({ type: 'account_stopped', accountId: 'a-2' });
+    emitChannelActivity({ type: 'sms', agentId: 'a-1', direction: 'inbound', message: { body: 'hi' } });
+
+    const mail = await stream.next(f => f.data.type === 'expunge');
+    const task = await stream.next(f => f.data.type === 'task');
+    const stopped = await stream.next(f => f.data.type === 'account_stopped');
+    const sms = await stream.next(f => f.data.type === 'sms');
+    expect(mail.data).toMatchObject({ agentId: 'a-2', uid: 7 });
+    expect(task.data).toMatchObject({ agentId: 'a-1', taskId: 't-1' });
+    expect(stopped.data).toMatchObject({ agentId: 'a-2' });
+    expect(sms.data).toMatchObject({ agentId: 'a-1', direction: 'inbound' });
+    const ids = [mail, task, stopped, sms].map(f => Number(f.id));
+    expect(ids).toEqual([...ids].sort((x, y) => x - y));
+    expect(ids.map((id, i) => id - ids[0] - i)).toEqual([0, 0, 0, 0]);
+    expect(sms.data.eventId).toBe(ids[3]);
+  });
+
+  it('shares the mailbox watcher with per-agent /events connections', async () => {
+    const base = await buildApp();
+    const before = watchers.length;
+    const firehose = await openStream(`${base}/events/all`, { authorization: 'Bearer master' });
+    await firehose.next(f => f.data.type === 'connected');
+    const agentStream = await openStream(`${base}/events`, { authorization: 'Bearer ops' });
+    await agentStream.next(f => f.data.type === 'connected');
+    await settle();
+
+    const opsWatchers = watchers.filter(w => w.options.email === 'ops' && !w.stopped);
+    expect(opsWatchers).toHaveLength(1);
+    expect(watchers.length - before).toBeLessThanOrEqual(2);
+
+    opsWatchers[0].emit('new', { type: 'new', uid: 42 });
+    expect((await agentStream.next(f => f.data.type === 'new')).data).toMatchObject({ uid: 42 });
+    expect((await firehose.next(f => f.data.type === 'new')).data).toMatchObject({ uid: 42, agentId: 'a-1' });
+  });
+
+  it('replays missed events after Last-Event-ID', async () => {
+    const base = await buildApp();
+    const first = await openStream(`${base}/events/all`, { authorization: 'Bearer master' });
+    pushEventToAgent('a-1', { type: 'task', taskId: 'before' });
+    const seen = await first.next(f => f.data.taskId === 'before');
+    first.close();
+
+    pushEventToAgent('a-1', { type: 'task', taskId: 'missed-1' });
+    pushEventToAgent('a-2', { type: 'task', taskId: 'missed-2' });
+
+    const resumed = await openStream(`${base}/events/all`, { authorization: 'Bearer master', 'last-event-id': seen.id! });
+    const a = await resumed.next(f => f.data.type === 'task');
+    const b = await resumed.next(f => f.data.type === 'task');
+    expect([a.data.taskId, b.data.taskId]).toEqual(['missed-1', 'missed-2']);
+    expect(Number(a.id)).toBe(Number(seen.id) + 1);
+
+    // An id from the future (e.g. before a server restart) is a gap.
+    const stale = await openStream(`${base}/events/all?lastEventId=999999999`, { authorization: 'Bearer master' });
+    expect((await stale.next(f => f.data.type === 'replay_gap')).data.lastEventId).toBe(999999999);
+  });
+});
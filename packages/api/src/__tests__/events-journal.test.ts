@@ -0,0 +1,223 @@
+/**
+ * Event journal — ids on per-agent `/events` frames, replay after
+ * Last-Event-ID / `?since=`, retention gaps and GET /events/history.
+ * InboxWatcher is an in-memory emitter; the journal lives in a test
+ * database.
+ */
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { EventEmitter } from 'node:events';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+
+const watchers: FakeWatcher[] = [];
+
+class FakeWatcher extends EventEmitter {
+  stopped = false;
+  constructor(readonly options: { email: string }) {
+    super();
+    watchers.push(this);
+  }
+  async start(): Promise<void> { /* connected */ }
+  async stop(): Promise<void> { this.stopped = true; }
+}
+
+vi.mock('@agenticmail/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@agenticmail/core')>()),
+  InboxWatcher: FakeWatcher,
+}));
+
+const { createTestDatabase } = await import('@agenticmail/core');
+const { createEventRoutes, pushEventToAgent, broadcastEvent, closeAllWatchers } = await import('../routes/events.js');
+const { detachEventJournal, pruneEventJournal } = await import('../routes/firehose.js');
+
+const AGENTS = [
+  { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} },
+  { id: 'a-2', name: 'lyra', email: 'lyra@localhost', stalwartPrincipal: 'lyra', metadata: {} },
+];
+const accounts = { list: async () => AGENTS } as any;
+const config = { imap: { host: 'localhost', port: 143 } } as any;
+const db = createTestDatabase();
+
+const servers: Server[] = [];
+const aborts: AbortController[] = [];
+
+afterEach(async () => {
+  aborts.splice(0).forEach(a => a.abort());
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => { s.closeAllConnections(); s.close(() => r()); })));
+});
+
+afterAll(async () => {
+  await closeAllWatchers();
+  detachEventJournal();
+});
+
+async function buildApp(): Promise<string> {
+  const e = express();
+  e.use((req, _res, next) => {
+    const auth = req.get('authorization');
+    if (auth === 'Bearer master') (req as any).isMaster = true;
+    const agent = AGENTS.find(a => auth === `Bearer ${a.name}`);
+    if (agent) (req as any).agent = agent;
+    next();
+  });
+  e.use(createEventRoutes(accounts, config, db));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  return `http://127.0.0.1:${a.port}`;
+}
+
+interface Frame { id?: string; data: any }
+
+/** Open an SSE stream and read parsed frames on demand. */
+async function openStream(url: string, headers: Record<string, string>) {
+  const abort = new AbortController();
+  aborts.push(abort);
+  const res = await fetch(url, { headers, signal: abort.signal });
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  const frames: Frame[] = [];
+  const pump = async (): Promise<void> => {
+    const { value, done } = await reader.read();
+    if (done) throw new Error('stream ended');
+    pending += decoder.decode(value, { stream: true });
+    let cut: number;
+    while ((cut = pending.indexOf('\n\n')) >= 0) {
+      const block = pending.slice(0, cut);
+      pending = pending.slice(cut + 2);
+      const frame: Frame = { data: undefined };
+      for (const line of block.split('\n')) {
+        if (line.startsWith('id: ')) frame.id = line.slice(4);
+        if (line.startsWith('data: ')) frame.data = JSON.parse(line.slice(6));
+      }
+      if (frame.data !== undefined) frames.push(frame);
+    }
+  };
+  return {
+    status: res.status,
+    /** Resolve with the first unread frame matching `match`. */
+    async next(match: (f: Frame) => boolean): Promise<Frame> {
+      for (;;) {
+        const i = frames.findIndex(match);
+        if (i >= 0) return frames.splice(0, i + 1)[i];
+        await pump();
+      }
+    },
+    close: () => abort.abort(),
+  };
+}
+
+async function history(base: string, auth: string, query = '') {
+  const res = await fetch(`${base}/events/history${query}`, { headers: { authorization: `Bearer ${auth}` } });
+  return { status: res.status, body: await res.json() as any };
+}
+
+describe('per-agent /events replay', () => {
+  it('stamps every frame with an id and replays what a reconnecting agent missed', async () => {
+    const base = await buildApp();
+    const first = await openStream(`${base}/events`, { authorization: 'Bearer ops' });
+    const connected = await first.next(f => f.data.type === 'connected');
+    expect(connected.id).toBeUndefined();
+
+    watchers.find(w => w.options.email === 'ops' && !w.stopped)!.emit('expunge', { type: 'expunge', uid: 3 });
+    const mail = await first.next(f => f.data.type === 'expunge');
+    expect(mail.id).toMatch(/^\d+$/);
+    expect(mail.data.eventId).toBe(Number(mail.id));
+    first.close();
+
+    pushEventToAgent('a-1', { type: 'task', taskId: 'missed' });
+    pushEventToAgent('a-2', { type: 'task', taskId: 'not-mine' });
+
+    const resumed = await openStream(`${base}/events`, { authorization: 'Bearer ops', 'last-event-id': mail.id! });
+    const replayed = await resumed.next(f => f.data.type === 'task');
+    expect(replayed.data.taskId).toBe('missed');
+    expect(Number(replayed.id)).toBeGreaterThan(Number(mail.id));
+
+    // Live events keep flowing after the replay, with ids.
+    pushEventToAgent('a-1', { type: 'task', taskId: 'live' });
+    const live = await resumed.next(f => f.data.type === 'task');
+    expect(live.data.taskId).toBe('live');
+    expect(Number(live.id)).toBeGreaterThan(Number(replayed.id));
+  });
+
+  it('replays from a timestamp with ?since=', async () => {
+    const base = await buildApp();
+    const since = new Date().toISOString();
+    pushEventToAgent('a-2', { type: 'task', taskId: 'after-since' });
+
+    const stream = await openStream(`${base}/events?since=${encodeURIComponent(since)}`, { authorization: 'Bearer lyra' });
+    expect((await stream.next(f => f.data.type === 'task')).data.taskId).toBe('after-since');
+
+    const bad = await fetch(`${base}/events?since=yesterday`, { headers: { authorization: 'Bearer lyra' } });
+    expect(bad.status).toBe(400);
+  });
+
+  it('reuses the journaled id when a push falls back to a broadcast', async () => {
+    const base = await buildApp();
+    const stream = await openStream(`${base}/events`, { authorization: 'Bearer lyra' });
+    await stream.next(f => f.data.type === 'connected');
+
+    // Nobody is listening as ops, so the task goes to every stream.
+    const event = { type: 'task', taskId: 'fallback' };
+    expect(pushEventToAgent('a-1', event)).toBe(false);
+    broadcastEvent(event);
+    const frame = await stream.next(f => f.data.taskId === 'fallback');
+
+    const { body } = await history(base, 'master', '?type=task&agentId=a-1');
+    expect(body.events.at(-1)).toMatchObject({ taskId: 'fallback', eventId: Number(frame.id) });
+  });
+});
+
+describe('GET /events/history', () => {
+  it('scopes agents to their own events and lets the master key read everyone', async () => {
+    const base = await buildApp();
+    pushEventToAgent('a-1', { type: 'sms', body: 'one' });
+    pushEventToAgent('a-2', { type: 'sms', body: 'two' });
+
+    const own = await history(base, 'lyra', '?type=sms');
+    expect(own.status).toBe(200);
+    expect(own.body.events.every((e: any) => e.agentId === 'a-2')).toBe(true);
+    expect(own.body.events.at(-1)).toMatchObject({ type: 'sms', body: 'two' });
+    expect(own.body.events.at(-1).createdAt).toBeTruthy();
+
+    expect((await history(base, 'lyra', '?agentId=a-1')).status).toBe(403);
+
+    const all = await history(base, 'master', '?type=sms');
+    expect(all.body.events.map((e: any) => e.body)).toEqual(['one', 'two']);
+    expect((await history(base, 'master', '?limit=0')).status).toBe(400);
+  });
+
+  it('pages with after and hasMore', async () => {
+    const base = await buildApp();
+    for (let i = 0; i < 5; i++) pushEventToAgent('a-1', { type: 'page', n: i });
+
+    const first = await history(base, 'ops', '?type=page&limit=3');
+    expect(first.body.events.map((e: any) => e.n)).toEqual([0, 1, 2]);
+    expect(first.body.hasMore).toBe(true);
+    const rest = await history(base, 'ops', `?type=page&limit=3&after=${first.body.events[2].eventId}`);
+    expect(rest.body.events.map((e: any) => e.n)).toEqual([3, 4]);
+    expect(rest.body.hasMore).toBe(false);
+  });
+
+  it('reports a replay gap once the retention window has pruned the resume point', async () => {
+    const base = await buildApp();
+    const old = pushEventToAgent('a-1', { type: 'task', taskId: 'old' });
+    expect(old).toBe(false);
+    const { body } = await history(base, 'ops', '?type=task');
+    const oldId = body.events.at(-1).eventId;
+
+    // Everything so far is past retention.
+    expect(pruneEventJournal(new Date(Date.now() + 365 * 86_400_000))).toBeGreaterThan(0);
+    pushEventToAgent('a-1', { type: 'task', taskId: 'new' });
+
+    const stream = await openStream(`${base}/events`, { authorization: 'Bearer ops', 'last-event-id': String(oldId - 1) });
+    const gap = await stream.next(f => f.data.type === 'replay_gap');
+    expect(gap.data.lastEventId).toBe(oldId - 1);
+    expect((await stream.next(f => f.data.type === 'task')).data.taskId).toBe('new');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Bulk mail on /mail/send — List-Unsubscribe headers, the public
+ * one-click endpoint, and later bulk sends skipping opted-out
+ * recipients.
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { createTestDatabase } from '@agenticmail/core';
+import { createMailRoutes } from '../routes/mail.js';
+import { createFeatureRoutes } from '../routes/features.js';
+import { createUnsubscribeRoutes } from '../routes/unsubscribe.js';
+import { errorHandler } from '../middleware/error-handler.js';
+
+const AGENTS = [
+  { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} },
+  { id: 'a-2', name: 'lyra', email: 'lyra@localhost', stalwartPrincipal: 'lyra', metadata: {} },
+];
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function buildApp(publicUrl?: string) {
+  const db = createTestDatabase();
+  const sent: any[] = [];
+  const gateway = {
+    getConfig: () => ({ mode: 'relay' }),
+    routeOutbound: async (_agent: string, opts: any) => {
+      sent.push(opts);
+      return { messageId: `<m${sent.length}@localhost>` };
+    },
+  };
+  const accounts = {
+    getByName: async (name: string) => AGENTS.find(a => a.name === name) ?? null,
+    getById: async (id: string) => AGENTS.find(a => a.id === id) ?? null,
+  };
+  const config = {
+    dataDir: '/nonexistent', masterKey: 'mk_test', publicUrl,
+    imap: { host: 'localhost', port: 143 }, smtp: { host: 'localhost', port: 587 },
+  } as any;
+
+  const e = express();
+  e.use(express.json());
+  e.use(express.urlencoded({ extended: false }));
+  e.use('/api/agenticmail', createUnsubscribeRoutes(db, config));
+  e.use('/api/agenticmail', (req, _res, next) => {
+    const agent = AGENTS.find(a => req.get('authorization') === `Bearer ${a.name}`);
+    if (agent) (req as any).agent = agent;
+    next();
+  });
+  e.use('/api/agenticmail', createMailRoutes(accounts as any, config, db, gateway as any));
+  e.use('/api/agenticmail', createFeatureRoutes(db, accounts as any, config, gateway as any));
+  e.use(errorHandler);
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const origin = `http://127.0.0.1:${a.port}`;
+  const call = async (auth: string, method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${origin}/api/agenticmail${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', authorization: `Bearer ${auth}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as any };
+  };
+  /** Follow a List-Unsubscribe URL against this server. */
+  const local = (url: string) => url.replace(/^<https:\/\/[^/]+|>$/g, '').replace(/^/, origin);
+  return { call, sent, local };
+}
+
+const BULK = { to: 'Dana <dana@example.org>', subject: 'March news', text: 'Hello', bulk: true, list: 'news' };
+
+describe('bulk mail and one-click unsubscribe', () => {
+  it('adds List-Unsubscribe headers and honours a one-click unsubscribe', async () => {
+    const { call, sent, local } = await buildApp('https://mail.example.com/');
+    expect((await call('ops', 'POST', '/mail/send', BULK)).status).toBe(200);
+    const headers = sent[0].headers;
+    expect(headers['List-Unsubscribe']).toMatch(/^<https:\/\/mail\.example\.com\/api\/agenticmail\/unsubscribe\/[\w-]+\.[\w-]+>$/);
+    expect(headers['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+
+    // Opening the link only shows the confirmation page.
+    const url = local(headers['List-Unsubscribe']);
+    const preview = await fetch(url);
+    expect(preview.status).toBe(200);
+    expect(await preview.text()).toContain('<form method="post">');
+    expect((await call('ops', 'POST', '/mail/send', BULK)).body.sent).not.toBe(false);
+
+    const oneClick = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: 'List-Unsubscribe=One-Click',
+    });
+    expect(oneClick.status).toBe(200);
+
+    const skipped = await call('ops', 'POST', '/mail/send', BULK);
+    expect(skipped.body).toMatchObject({ sent: false, skipped: true, reason: 'unsubscribed', list: 'news', recipient: 'dana@example.org' });
+    expect(sent).toHaveLength(2);
+
+    // Other lists, other agents and 1:1 mail are unaffected.
+    await call('ops', 'POST', '/mail/send', { ...BULK, list: 'offers' });
+    await call('lyra', 'POST', '/mail/send', BULK);
+    await call('ops', 'POST', '/mail/send', { to: 'dana@example.org', subject: 'Re: your question', text: 'Hi' });
+    expect(sent).toHaveLength(5);
+    expect(sent[4].headers?.['List-Unsubscribe']).toBeUndefined();
+
+    expect((await call('ops', 'GET', '/contacts/unsubscribes')).body).toMatchObject({
+      count: 1, unsubscribes: [{ list: 'news', address: 'dana@example.org', source: 'one-click' }],
+    });
+    expect((await call('lyra', 'GET', '/contacts/unsubscribes')).body.count).toBe(0);
+  });
+
+  it('rejects forged tokens', async () => {
+    const { sent, call, local } = await buildApp('https://mail.example.com');
+    await call('ops', 'POST', '/mail/send', BULK);
+    const url = local(sent[0].headers['List-Unsubscribe']);
+    const forged = url.replace(/\.[\w-]+$/, '.AAAA');
+    expect((await fetch(forged, { method: 'POST' })).status).toBe(404);
+    expect((await fetch(forged)).status).toBe(404);
+  });
+
+  it('validates bulk sends', async () => {
+    const noUrl = await buildApp();
+    expect((await noUrl.call('ops', 'POST', '/mail/send', BULK)).body.error).toContain('public URL');
+
+    const { call, sent } = await buildApp('https://mail.example.com');
+    expect((await call('ops', 'POST', '/mail/send', { ...BULK, cc: 'lee@example.org' })).status).toBe(400);
+    expect((await call('ops', 'POST', '/mail/send', { ...BULK, list: 'not a list' })).status).toBe(400);
+    expect((await call('ops', 'POST', '/mail/send', { ...BULK, bulk: 'yes' })).status).toBe(400);
+    expect((await call('ops', 'POST', '/mail/send', { to: 'dana@example.org', subject: 'x', list: 'news' })).status).toBe(400);
+    expect(sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * GET /mail/threads and /mail/threads/:id — JWZ header threading
+ * across INBOX and Sent. The IMAP receiver is an in-memory pair of
+ * folders; thread ids must agree with the `get_thread_id` route.
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import type { EmailEnvelope } from '@agenticmail/core';
+
+const at = (min: number) => new Date(Date.UTC(2026, 2, 3, 10, min));
+
+type EnvFields = Omit<Partial<EmailEnvelope>, 'from' | 'to'> & { from: string; to: string };
+
+function env(uid: number, { from, to, ...fields }: EnvFields): EmailEnvelope {
+  return {
+    uid,
+    seq: uid,
+    messageId: '',
+    subject: '',
+    date: at(uid),
+    flags: new Set<string>(),
+    size: 100,
+    ...fields,
+    from: [{ address: from }],
+    to: [{ address: to }],
+  };
+}
+
+const FOLDERS: Record<string, EmailEnvelope[]> = {
+  INBOX: [
+    env(1, { from: 'billing@vendor.test', to: 'ops@localhost', subject: 'Invoice', messageId: '<inv-1@vendor.test>' }),
+    env(3, {
+      from: 'billing@vendor.test', to: 'ops@localhost', subject: 'AW: Invoice — corrected amount',
+      messageId: '<inv-1b@vendor.test>', inReplyTo: '<ops-1@localhost>', references: ['inv-1@vendor.test', 'ops-1@localhost'],
+      flags: new Set(['\\Seen']),
+    }),
+    env(4, { from: 'billing@vendor.test', to: 'ops@localhost', subject: 'Invoice', messageId: '<inv-2@vendor.test>' }),
+  ],
+  Sent: [
+    env(2, {
+      from: 'ops@localhost', to: 'billing@vendor.test', subject: 'Re: Invoice',
+      messageId: '<ops-1@localhost>', inReplyTo: '<inv-1@vendor.test>', references: ['inv-1@vendor.test'],
+    }),
+  ],
+};
+
+class FakeReceiver {
+  async connect(): Promise<void> { /* connected */ }
+  async disconnect(): Promise<void> { /* closed */ }
+  getImapClient() { return { usable: true }; }
+  async listFolders() { return [{ name: 'Sent', path: 'Sent', specialUse: '\\Sent' }]; }
+  async listEnvelopes(folder: string, opts?: { limit?: number }) {
+    const list = FOLDERS[folder];
+    if (!list) throw new Error(`no folder ${folder}`);
+    return [...list].sort((a, b) => b.uid - a.uid).slice(0, opts?.limit ?? 20);
+  }
+}
+
+vi.mock('@agenticmail/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@agenticmail/core')>()),
+  MailReceiver: FakeReceiver,
+}));
+
+const { createTestDatabase, threadIdFor } = await import('@agenticmail/core');
+const { createMailRoutes } = await import('../routes/mail.js');
+const { createAgentMemoryRoutes } = await import('../routes/agent-memory.js');
+
+const AGENT = { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} };
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function buildApp() {
+  const config = { imap: { host: 'localhost', port: 143 }, smtp: { host: 'localhost', port: 587 } } as any;
+  const e = express();
+  e.use((req, _res, next) => {
+    if (req.get('authorization') === 'Bearer ops') (req as any).agent = AGENT;
+    next();
+  });
+  e.use(createMailRoutes({} as any, config, createTestDatabase()));
+  e.use(createAgentMemoryRoutes(config));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const base = `http://127.0.0.1:${a.port}`;
+  return async (path: string) => {
+    const res = await fetch(`${base}${path}`, { headers: { authorization: 'Bearer ops' } });
+    return { status: res.status, body: await res.json() as any };
+  };
+}
+
+describe('GET /mail/threads', () => {
+  it('threads INBOX and Sent by headers, keeping same-subject conversations apart', async () => {
+    const get = await buildApp();
+    const { status, body } = await get('/mail/threads');
+    expect(status).toBe(200);
+    expect(body.total).toBe(2);
+
+    const [other, invoice] = body.threads;
+    expect(other).toMatchObject({ subject: 'Invoice', messageCount: 1, unread: 1 });
+    expect(invoice).toMatchObject({
+      threadId: threadIdFor({ messageId: '<inv-1@vendor.test>' }),
+      rootMessageId: 'inv-1@vendor.test',
+      subject: 'Invoice',
+      messageCount: 3,
+      unread: 1,
+      folders: ['INBOX', 'Sent'],
+      latest: { uid: 3, folder: 'INBOX' },
+    });
+    expect(invoice.participants.sort()).toEqual(['billing@vendor.test', 'ops@localhost']);
+
+    expect((await get('/mail/threads?limit=1&offset=1')).body.threads.map((t: any) => t.threadId)).toEqual([invoice.threadId]);
+    expect((await get('/mail/threads?scan=5000')).status).toBe(400);
+  });
+
+  it('returns one thread in order with reply structure, under the get_thread_id id', async () => {
+    const get = await buildApp();
+    const { body: resolved } = await get('/agents/me/thread-id?uid=3');
+    expect(resolved.rootMessageId).toBe('inv-1@vendor.test');
+
+    const { status, body } = await get(`/mail/threads/${resolved.threadId}`);
+    expect(status).toBe(200);
+    expect(body.messages.map((m: any) => [m.folder, m.uid, m.depth])).toEqual([
+      ['INBOX', 1, 0], ['Sent', 2, 1], ['INBOX', 3, 2],
+    ]);
+    expect(body.messages[2]).toMatchObject({ parentMessageId: 'ops-1@localhost', flags: ['\\Seen'] });
+
+    expect((await get('/mail/threads/not-a-thread')).status).toBe(404);
+  });
+});
@@ -26,15 +26,19 @@ async function req(base: string, path: string, init?: RequestInit, agent = 'agen
     ...init,
     headers: { 'Content-Type': 'application/json', 'x-agent': agent, ...(init?.headers || {}) },
   });
-  return { status: res.status, body: await res.json() };
+  return { status: res.status, body: await res.json() as any };
 }
 
-function app() {
-  const db = createTestDatabase();
+function app(db = createTestDatabase()) {
   const e = express();
   e.use(express.json());
-  // Test auth shim: the x-agent header selects which agent is "logged in".
-  e.use((r, _res, next) => { (r as any).agent = { id: String(r.headers['x-agent'] || 'agent1'), email: 'a@x.com' }; next(); });
+  // Test auth shim: the x-agent header selects which agent is "logged
+  // in"; `master` authenticates with the master key instead.
+  e.use((r, _res, next) => {
+    if (r.headers['x-agent'] === 'master') (r as any).isMaster = true;
+    else (r as any).agent = { id: String(r.headers['x-agent'] || 'agent1'), email: 'a@x.com' };
+    next();
+  });
   e.use(createMemoryRoutes(db as any));
   return e;
 }
@@ -102,4 +106,122 @@ describe('memory routes', () => {
     const list = await req(base, '/memory');
     expect(list.body.count).toBe(0);
   });
+
+  it('searches by mode and backfills embeddings', async () => {
+    const base = await listen(app());
+    await req(base, '/memory', { method: 'POST', body: JSON.stringify({ content: 'Acme asked for their money back', title: 'Acme' }) });
+
+    const lexical = await req(base, '/memory?query=customer%20wants%20a%20refund&mode=lexical');
+    expect(lexical.body.count).toBe(0);
+    const hybrid = await req(base, '/memory?query=customer%20wants%20a%20refund');
+    expect(hybrid.body.memories.map((m: any) => m.title)).toEqual(['Acme']);
+    expect((await req(base, '/memory?query=x&mode=fuzzy')).status).toBe(400);
+
+    const stats = await req(base, '/memory/stats');
+    expect(stats.body.embeddings).toMatchObject({ entries: 1, embedded: 1 });
+    const backfill = await req(base, '/memory/embeddings/backfill', { method: 'POST' });
+    expect(backfill.body).toMatchObject({ total: 0, embedded: 0, failed: 0, embeddings: { entries: 1, embedded: 1 } });
+  });
+
+  it('consolidates duplicates and undoes the merge', async () => {
+    const base = await listen(app());
+    const post = (content: string, agent = 'agent1') =>
+      req(base, '/memory', { method: 'POST', body: JSON.stringify({ content, tags: [agent] }) }, agent);
+    await post('Acme invoices are due on the 15th of each month.');
+    await post('Acme invoices are due on the 15th of every month.');
+    await post('Acme invoices are due on the 15th of each month.', 'agent2');
+
+    expect((await req(base, '/memory/consolidate', { method: 'POST', body: JSON.stringify({ duplicateThreshold: 2 }) })).status).toBe(400);
+    const dry = await req(base, '/memory/consolidate', { method: 'POST', body: JSON.stringify({ dryRun: true }) });
+    expect(dry.body).toMatchObject({ dryRun: true, merges: [{ agentId: 'agent1' }] });
+    expect((await req(base, '/memory')).body.count).toBe(2);
+
+    const run = await req(base, '/memory/consolidate', { method: 'POST', body: '{}' });
+    expect(run.body.merges).toHaveLength(1);
+    expect((await req(base, '/memory')).body.count).toBe(1);
+
+    const history = await req(base, '/memory/consolidations');
+    expect(history.body.changes).toMatchObject([{ id: run.body.merges[0].changeId, kind: 'merge' }]);
+    // Another agent can neither see nor undo it.
+    expect((await req(base, '/memory/consolidations', undefined, 'agent2')).body.count).toBe(0);
+    const undoPath = `/memory/consolidations/${run.body.merges[0].changeId}/undo`;
+    expect((await req(base, undoPath, { method: 'POST' }, 'agent2')).status).toBe(404);
+
+    const undo = await req(base, undoPath, { method: 'POST' });
+    expect(undo.body.restored).toHaveLength(2);
+    expect((await req(base, '/memory')).body.count).toBe(2);
+    expect((await req(base, undoPath, { method: 'POST' })).status).toBe(409);
+  });
+
+  it('exports, imports and transfers memory', async () => {
+    const db = createTestDatabase();
+    for (const name of ['agent1', 'agent2']) {
+      db.prepare('INSERT INTO agents (id, name, email, api_key, stalwart_principal) VALUES (?, ?, ?, ?, ?)')
+        .run(name, `${name}-name`, `${name}@localhost`, `key-${name}`, name);
+    }
+    const base = await listen(app(db));
+    const post = (content: string, category: string, tags: string[]) =>
+      req(base, '/memory', { method: 'POST', body: JSON.stringify({ content, category, tags }) });
+    await post('Acme invoices are due on the 15th.', 'knowledge', ['acme']);
+    await post('Globex prefers phone calls.', 'preference', ['globex']);
+
+    const res = await fetch(`${base}/memory/export?tag=acme`, { headers: { 'x-agent': 'agent1' } });
+    expect(res.headers.get('content-type')).toContain('application/x-ndjson');
+    const jsonl = await res.text();
+    expect(JSON.parse(jsonl.trim())).toMatchObject({ category: 'knowledge', tags: ['acme'], provenance: { agentId: 'agent1' } });
+
+    const importJsonl = (body: string, query = '') => fetch(`${base}/memory/import${query}`, {
+      method: 'POST', headers: { 'Content-Type': 'application/x-ndjson', 'x-agent': 'agent2' }, body,
+    }).then(async (r) => ({ status: r.status, body: await r.json() as any }));
+    const imported = await importJsonl(`${jsonl}{"category":"knowledge"}
+`);
+    expect(imported.body).toMatchObject({ imported: 1, skipped: 0, errors: [{ line: 2, error: 'content is required' }] });
+    expect((await importJsonl(jsonl, '?onConflict=merge')).status).toBe(400);
+    const json = await req(base, '/memory/import', { method: 'POST', body: JSON.stringify({ records: [JSON.parse(jsonl)], onConflict: 'keep-both' }) }, 'agent2');
+    expect(json.body).toMatchObject({ imported: 1, errors: [] });
+    expect((await req(base, '/memory', undefined, 'agent2')).body.count).toBe(2);
+
+    const transfer = (body: unknown, agent = 'master') =>
+      req(base, '/memory/transfer', { method: 'POST', body: JSON.stringify(body) }, agent);
+    expect((await transfer({ from: 'agent1', to: 'agent2' }, 'agent1')).status).toBe(403);
+    expect((await transfer({ from: 'agent1', to: 'nobody' })).status).toBe(404);
+    expect((await transfer({ from: 'agent1', to: 'agent1-name' })).status).toBe(400);
+    const moved = await transfer({ from: 'agent1-name', to: 'agent2', category: 'preference' });
+    expect(moved.body).toMatchObject({ from: 'agent1-name', to: 'agent2-name', imported: 1, skipped: 0 });
+    const [copy] = (await req(base, '/memory?category=preference', undefined, 'agent2')).body.memories;
+    expect(copy).toMatchObject({ source: 'transfer', metadata: { transferredFrom: { agentId: 'agent1' } } });
+  });
+
+  it('shares a space between granted agents', async () => {
+    const db = createTestDatabase();
+    for (const name of ['research', 'writer']) {
+      db.prepare('INSERT INTO agents (id, name, email, api_key, stalwart_principal) VALUES (?, ?, ?, ?, ?)')
+        .run(`id-${name}`, name, `${name}@localhost`, `key-${name}`, name);
+    }
+    const base = await listen(app(db));
+    const call = (method: string, path: string, agent: string, body?: unknown) =>
+      req(base, path, { method, body: body === undefined ? undefined : JSON.stringify(body) }, agent);
+
+    expect((await call('POST', '/memory/spaces', 'id-research', { name: 'clients' })).status).toBe(403);
+    expect((await call('POST', '/memory/spaces', 'master', { name: 'Clients' })).body.space).toMatchObject({ name: 'clients' });
+    expect((await call('PUT', '/memory/spaces/clients/grants/research', 'master', { access: 'admin' })).status).toBe(400);
+    await call('PUT', '/memory/spaces/clients/grants/research', 'master', { access: 'write' });
+    await call('PUT', '/memory/spaces/clients/grants/writer', 'master', { access: 'read' });
+
+    const fact = await call('POST', '/memory/spaces/clients/memory', 'id-research', { content: 'Acme invoices are due on the 15th.' });
+    expect(fact.body.memory).toMatchObject({ space: 'clients', authoredBy: 'id-research' });
+    expect((await call('POST', '/memory/spaces/clients/memory', 'id-writer', { content: 'x' })).status).toBe(403);
+    expect((await call('GET', '/memory/spaces/clients/memory', 'id-other')).status).toBe(404);
+
+    // Personal listings stay personal unless asked; the digest blends.
+    expect((await call('GET', '/memory?query=acme%20invoices', 'id-writer')).body.count).toBe(0);
+    expect((await call('GET', '/memory?query=acme%20invoices&shared=true', 'id-writer')).body.memories[0].id).toBe(fact.body.memory.id);
+    expect((await call('GET', '/memory/context', 'id-writer')).body.context).toContain('[shared: clients]');
+    expect((await call('GET', '/memory/spaces', 'id-writer')).body.spaces).toMatchObject([{ name: 'clients', access: 'read', entries: 1 }]);
+
+    expect((await call('DELETE', '/memory/spaces/clients/grants/writer', 'master')).status).toBe(200);
+    expect((await call('GET', '/memory/context', 'id-writer')).body.context).toBe('');
+    expect((await call('DELETE', '/memory/spaces/clients', 'master')).body).toMatchObject({ deletedEntries: 1 });
+    expect((await call('GET', '/memory/spaces', 'master')).body.spaces).toEqual([]);
+  });
 });
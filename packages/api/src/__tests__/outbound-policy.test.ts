@@ -0,0 +1,116 @@
+/**
+ * Outbound guard policies on /mail/send — redact-and-send, trusted
+ * domains, and which policy each pending-approval decision came from.
+ * Sends go to a fake gateway that records what would have left.
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createTestDatabase } from '@agenticmail/core';
+import { createMailRoutes } from '../routes/mail.js';
+
+const AGENTS = [
+  { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} },
+  { id: 'a-2', name: 'lyra', email: 'lyra@localhost', stalwartPrincipal: 'lyra', metadata: {} },
+];
+const IBAN = 'DE89370400440532013000';
+const servers: Server[] = [];
+const dirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+  for (const d of dirs.splice(0)) rmSync(d, { recursive: true, force: true });
+});
+
+async function buildApp() {
+  const dataDir = mkdtempSync(join(tmpdir(), 'am-outbound-'));
+  dirs.push(dataDir);
+  writeFileSync(join(dataDir, 'outbound-policy.json'), JSON.stringify({
+    version: 1,
+    trustedDomains: [{ domain: 'ledgerworks.example', rules: ['ob_iban'] }],
+  }));
+  mkdirSync(join(dataDir, 'outbound-policies'));
+  writeFileSync(join(dataDir, 'outbound-policies', 'ops.json'), JSON.stringify({
+    version: 1,
+    overrides: { ob_iban: { action: 'redact', placeholder: '[account]' } },
+  }));
+
+  const sent: any[] = [];
+  const gateway = {
+    getConfig: () => ({}),
+    routeOutbound: async (_agent: string, opts: any) => { sent.push(opts); return { sent: true, messageId: `<m${sent.length}@localhost>` }; },
+  };
+  const accounts = { getByName: async (name: string) => AGENTS.find(a => a.name === name) ?? null };
+  const config = { dataDir, imap: { host: 'localhost', port: 143 }, smtp: { host: 'localhost', port: 587 } } as any;
+
+  const e = express();
+  e.use(express.json());
+  e.use((req, _res, next) => {
+    const auth = req.get('authorization');
+    if (auth === 'Bearer master') (req as any).isMaster = true;
+    const agent = AGENTS.find(a => auth === `Bearer ${a.name}`);
+    if (agent) (req as any).agent = agent;
+    next();
+  });
+  e.use(createMailRoutes(accounts as any, config, createTestDatabase(), gateway as any));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const call = async (auth: string, method: string, path: string, body?: unknown) => {
+    const res = await fetch(`http://127.0.0.1:${a.port}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', authorization: `Bearer ${auth}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as any };
+  };
+  return { call, sent, dataDir };
+}
+
+describe('outbound guard policies on /mail/send', () => {
+  it('redacts under the agent policy and sends', async () => {
+    const { call, sent } = await buildApp();
+    const res = await call('ops', 'POST', '/mail/send', { to: 'x@example.com', subject: 'Payment', text: `Pay ${IBAN} today` });
+    expect(res.status).toBe(200);
+    expect(res.body.outboundWarnings).toMatchObject([{ ruleId: 'ob_iban', action: 'redact', policy: 'agent' }]);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].text).toBe('Pay [account] today');
+  });
+
+  it('holds the mail for other agents and names the deciding policy', async () => {
+    const { call, sent } = await buildApp();
+    const res = await call('lyra', 'POST', '/mail/send', { to: 'x@example.com', subject: 'Payment', text: `Pay ${IBAN} today` });
+    expect(res.body).toMatchObject({ sent: false, blocked: true });
+    expect(sent).toHaveLength(0);
+    const pending = await call('lyra', 'GET', `/mail/pending/${res.body.pendingId}`);
+    expect(pending.body.warnings).toMatchObject([{ ruleId: 'ob_iban', action: 'block', policy: 'builtin' }]);
+  });
+
+  it('lets a trusted domain receive the hit unchanged', async () => {
+    const { call, sent } = await buildApp();
+    const res = await call('lyra', 'POST', '/mail/send', { to: 'books@ledgerworks.example', subject: 'Payment', text: `Pay ${IBAN}` });
+    expect(res.status).toBe(200);
+    expect(res.body.outboundWarnings).toBeUndefined();
+    expect(res.body.outboundExempted).toMatchObject([{ ruleId: 'ob_iban', exemptedBy: ['ledgerworks.example'] }]);
+    expect(sent[0].text).toBe(`Pay ${IBAN}`);
+  });
+
+  it('shows the effective policy and broken policy files', async () => {
+    const { call, dataDir } = await buildApp();
+    writeFileSync(join(dataDir, 'outbound-policies', 'lyra.json'), JSON.stringify({ version: 1, overrides: { ob_nope: {} } }));
+    const ops = await call('ops', 'GET', '/mail/outbound-policy');
+    expect(ops.body.sources.map((s: any) => s.scope)).toEqual(['install', 'agent']);
+    expect(ops.body.overrides.ob_iban).toMatchObject({ action: 'redact', source: 'agent' });
+
+    const lyra = await call('master', 'GET', '/mail/outbound-policy?agent=lyra');
+    expect(lyra.body.errors).toMatchObject([{ scope: 'agent', issues: ['overrides.ob_nope: unknown rule id'] }]);
+    expect((await call('master', 'GET', '/mail/outbound-policy?agent=ghost')).status).toBe(404);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Outbound quotas on /mail/send — 429 with Retry-After, queue-instead-
+ * of-fail, and the queue sweep. The fake gateway enforces the real
+ * quota from the data dir's policy, on a clock the tests control.
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createTestDatabase, loadOutboundPolicy, OutboundQuota } from '@agenticmail/core';
+import { createMailRoutes, sweepOutboundQueue, wakeHeaders } from '../routes/mail.js';
+import { errorHandler } from '../middleware/error-handler.js';
+
+const AGENTS = [
+  { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} },
+  { id: 'a-2', name: 'lyra', email: 'lyra@localhost', stalwartPrincipal: 'lyra', metadata: {} },
+];
+const servers: Server[] = [];
+const dirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+  for (const d of dirs.splice(0)) rmSync(d, { recursive: true, force: true });
+});
+
+async function buildApp() {
+  const dataDir = mkdtempSync(join(tmpdir(), 'am-quota-'));
+  dirs.push(dataDir);
+  writeFileSync(join(dataDir, 'outbound-policy.json'), JSON.stringify({ version: 1, quotas: { agent: { perMinute: 1 } } }));
+  mkdirSync(join(dataDir, 'outbound-policies'));
+  writeFileSync(join(dataDir, 'outbound-policies', 'lyra.json'), JSON.stringify({ version: 1, quotas: { onExceed: 'queue' } }));
+
+  const db = createTestDatabase();
+  const clock = { now: new Date() };
+  const quota = new OutboundQuota(db, { now: () => clock.now });
+  const sent: any[] = [];
+  const gateway = {
+    getConfig: () => ({}),
+    routeOutbound: async (agent: string, opts: any) => {
+      quota.reserve(agent, [opts.to], loadOutboundPolicy(dataDir, agent).quotas);
+      sent.push(opts);
+      return { messageId: `<m${sent.length}@localhost>` };
+    },
+  };
+  const accounts = {
+    getByName: async (name: string) => AGENTS.find(a => a.name === name) ?? null,
+    getById: async (id: string) => AGENTS.find(a => a.id === id) ?? null,
+  };
+  const config = { dataDir, imap: { host: 'localhost', port: 143 }, smtp: { host: 'localhost', port: 587 } } as any;
+
+  const e = express();
+  e.use(express.json());
+  e.use((req, _res, next) => {
+    const auth = req.get('authorization');
+    const agent = AGENTS.find(a => auth === `Bearer ${a.name}`);
+    if (agent) (req as any).agent = agent;
+    next();
+  });
+  e.use(createMailRoutes(accounts as any, config, db, gateway as any));
+  e.use(errorHandler);
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const call = async (auth: string, method: string, path: string, body?: unknown) => {
+    const res = await fetch(`http://127.0.0.1:${a.port}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', authorization: `Bearer ${auth}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, headers: res.headers, body: await res.json() as any };
+  };
+  const sweep = (at: Date) => {
+    clock.now = at;
+    return sweepOutboundQueue(db, accounts as any, config, gateway as any, at);
+  };
+  return { call, sent, sweep, clock };
+}
+
+describe('outbound quotas on /mail/send', () => {
+  it('rejects over-quota mail with 429 and Retry-After', async () => {
+    const { call, sent } = await buildApp();
+    expect((await call('ops', 'POST', '/mail/send', { to: 'x@example.com', subject: 'One', text: 'a' })).status).toBe(200);
+
+    const res = await call('ops', 'POST', '/mail/send', { to: 'y@example.com', subject: 'Two', text: 'b' });
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(res.body).toMatchObject({ retryAfter: expect.any(Number), quota: { scope: 'agent', limit: 'perMinute', max: 1 } });
+    expect(sent).toHaveLength(1);
+  });
+
+  it('queues when the request asks to, and the sweep sends it once there is room', async () => {
+    const { call, sent, sweep, clock } = await buildApp();
+    await call('ops', 'POST', '/mail/send', { to: 'x@example.com', subject: 'One', text: 'a' });
+    const res = await call('ops', 'POST', '/mail/send', {
+      to: 'y@example.com', subject: 'Two', text: 'b', wake: ['lyra'], onQuotaExceeded: 'queue',
+    });
+    expect(res.status).toBe(202);
+    expect(res.body).toMatchObject({ sent: false, queued: true, quota: { limit: 'perMinute' } });
+
+    const listed = await call('ops', 'GET', '/mail/queue');
+    expect(listed.body.queue).toMatchObject([{ id: res.body.queueId, to: 'y@example.com', status: 'queued' }]);
+
+    // Another send takes the freed slot first: the queued mail moves
+    // back without using up an attempt.
+    clock.now = new Date(Date.parse(res.body.sendAfter) + 1_000);
+    await call('ops', 'POST', '/mail/send', { to: 'x@example.com', subject: 'Three', text: 'c' });
+    await sweep(clock.now);
+    const waiting = await call('ops', 'GET', '/mail/queue');
+    expect(waiting.body.queue).toMatchObject([{ status: 'queued', attempts: 0, error: expect.stringContaining('perMinute') }]);
+
+    await sweep(new Date(Date.parse(waiting.body.queue[0].sendAfter) + 1_000));
+    expect(sent.map(m => m.subject)).toEqual(['One', 'Three', 'Two']);
+    expect(sent[2].headers).toEqual(wakeHeaders(['lyra']));
+
+    const done = await call('ops', 'GET', '/mail/queue?status=sent');
+    expect(done.body.queue).toMatchObject([{ id: res.body.queueId, status: 'sent', attempts: 1, messageId: '<m3@localhost>' }]);
+  });
+
+  it('follows the policy onExceed and lets the agent cancel', async () => {
+    const { call, sent } = await buildApp();
+    await call('lyra', 'POST', '/mail/send', { to: 'x@example.com', subject: 'One', text: 'a' });
+    const queued = await call('lyra', 'POST', '/mail/send', { to: 'y@example.com', subject: 'Two', text: 'b' });
+    expect(queued.status).toBe(202);
+    expect((await call('lyra', 'POST', '/mail/send', { to: 'z@example.com', subject: 'Three', text: 'c', onQuotaExceeded: 'reject' })).status).toBe(429);
+    expect((await call('lyra', 'POST', '/mail/send', { to: 'z@example.com', subject: 'Four', onQuotaExceeded: 'later' })).status).toBe(400);
+
+    expect((await call('ops', 'DELETE', `/mail/queue/${queued.body.queueId}`)).status).toBe(404);
+    const cancelled = await call('lyra', 'DELETE', `/mail/queue/${queued.body.queueId}`);
+    expect(cancelled.body).toMatchObject({ status: 'cancelled', subject: 'Two' });
+    expect((await call('lyra', 'GET', '/mail/queue')).body.count).toBe(0);
+    expect(sent).toHaveLength(1);
+  });
+});
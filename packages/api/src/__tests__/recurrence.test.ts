@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applySendWindow,
+  fromWallClock,
+  nextOccurrence,
+  parseCron,
+  parseRecurrence,
+  parseRRule,
+  parseSendWindow,
+  toWallClock,
+  upcomingOccurrences,
+} from '../lib/recurrence.js';
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+describe('timezones', () => {
+  it('round-trips wall-clock time', () => {
+    const t = fromWallClock({ year: 2026, month: 7, day: 1, hour: 9, minute: 30 }, 'Europe/Berlin');
+    expect(t.toISOString()).toBe('2026-07-01T07:30:00.000Z');
+    expect(toWallClock(t, 'Europe/Berlin')).toMatchObject({ hour: 9, minute: 30, weekday: 3 });
+  });
+
+  it('reads a time in the spring-forward gap with the earlier offset', () => {
+    // 02:30 does not exist in Berlin on 2026-03-29; RFC 5545 says use the pre-jump offset (+01:00).
+    const t = fromWallClock({ year: 2026, month: 3, day: 29, hour: 2, minute: 30 }, 'Europe/Berlin');
+    expect(t.toISOString()).toBe('2026-03-29T01:30:00.000Z');
+  });
+
+  it('picks the first instance of an ambiguous fall-back time', () => {
+    const t = fromWallClock({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, 'America/New_York');
+    expect(t.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+});
+
+describe('cron', () => {
+  it('parses names, ranges, steps and macros', () => {
+    const spec = parseCron('*/15 9-17 * jan-mar mon-fri');
+    expect(spec.minutes).toEqual([0, 15, 30, 45]);
+    expect(spec.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...spec.months]).toEqual([1, 2, 3]);
+    expect([...spec.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect(parseCron('@daily').minutes).toEqual([0]);
+    expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('0 9 * *')).toThrow(/five fields/);
+    expect(() => parseCron('60 9 * * *')).toThrow(/minute/);
+    expect(() => parseCron('0 9 * * 5-1')).toThrow(/backwards/);
+  });
+
+  it('keeps 9am local across a DST change', () => {
+    const rec = parseRecurrence('0 9 * * *');
+    const got = upcomingOccurrences(rec, {
+      start: new Date('2026-03-27T00:00:00Z'), tz: 'Europe/Berlin', after: new Date('2026-03-27T00:00:00Z'),
+    }, 3);
+    expect(iso(got)).toEqual(['2026-03-27T08:00:00.000Z', '2026-03-28T08:00:00.000Z', '2026-03-29T07:00:00.000Z']);
+  });
+
+  it('ORs day-of-month and day-of-week when both are restricted', () => {
+    const rec = parseRecurrence('0 12 1 * fri');
+    const got = upcomingOccurrences(rec, {
+      start: new Date('2026-05-01T00:00:00Z'), tz: 'UTC', after: new Date('2026-05-01T00:00:00Z'),
+    }, 3);
+    expect(iso(got)).toEqual(['2026-05-01T12:00:00.000Z', '2026-05-08T12:00:00.000Z', '2026-05-15T12:00:00.000Z']);
+  });
+
+  it('returns null when a rule can never fire', () => {
+    expect(nextOccurrence(parseRecurrence('0 0 31 2 *'), {
+      start: new Date('2026-01-01T00:00:00Z'), tz: 'UTC', after: new Date('2026-01-01T00:00:00Z'),
+    })).toBeNull();
+  });
+});
+
+describe('rrule', () => {
+  const start = new Date('2026-01-05T14:00:00Z'); // Monday 09:00 in New York
+
+  it('expands weekly BYDAY from DTSTART in the series timezone', () => {
+    const rec = parseRecurrence('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4');
+    expect(rec.kind).toBe('rrule');
+    const got = upcomingOccurrences(rec, { start, tz: 'America/New_York', after: new Date(start.getTime() - 1) }, 10);
+    expect(iso(got)).toEqual([
+      '2026-01-05T14:00:00.000Z', '2026-01-07T14:00:00.000Z', '2026-01-12T14:00:00.000Z', '2026-01-14T14:00:00.000Z',
+    ]);
+  });
+
+  it('handles ordinal weekdays and negative month days', () => {
+    const lastFriday = upcomingOccurrences(parseRecurrence('RRULE:FREQ=MONTHLY;BYDAY=-1FR'), {
+      start, tz: 'America/New_York', after: start,
+    }, 3);
+    expect(iso(lastFriday)).toEqual(['2026-01-30T14:00:00.000Z', '2026-02-27T14:00:00.000Z', '2026-03-27T13:00:00.000Z']);
+
+    const monthEnd = upcomingOccurrences(parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=17;BYMINUTE=0'), {
+      start, tz: 'UTC', after: start,
+    }, 2);
+    expect(iso(monthEnd)).toEqual(['2026-01-31T17:00:00.000Z', '2026-02-28T17:00:00.000Z']);
+  });
+
+  it('skips months without the start day and stops at UNTIL', () => {
+    const s = new Date('2026-01-31T10:00:00Z');
+    const got = upcomingOccurrences(parseRecurrence('FREQ=MONTHLY;UNTIL=20260601'), {
+      start: s, tz: 'UTC', after: new Date(s.getTime() - 1),
+    }, 10);
+    expect(iso(got)).toEqual(['2026-01-31T10:00:00.000Z', '2026-03-31T10:00:00.000Z', '2026-05-31T10:00:00.000Z']);
+  });
+
+  it('rejects unsupported parts', () => {
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow(/cron/);
+    expect(() => parseRRule('FREQ=MONTHLY;BYSETPOS=1')).toThrow(/BYSETPOS/);
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow(/ordinals/);
+    expect(() => parseRRule('FREQ=DAILY;COUNT=2;UNTIL=20260101')).toThrow(/COUNT and UNTIL/);
+  });
+});
+
+describe('send windows', () => {
+  const window = parseSendWindow({ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' });
+
+  it('normalises and validates', () => {
+    expect(window).toEqual({ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' });
+    expect(() => parseSendWindow({ start: '17:00', end: '09:00' })).toThrow(/later/);
+    expect(() => parseSendWindow({ days: ['someday'], start: '09:00', end: '17:00' })).toThrow(/weekday/);
+  });
+
+  it('moves times outside the window to the next opening', () => {
+    const tz = 'Europe/London';
+    // Inside: unchanged.
+    expect(applySendWindow(new Date('2026-06-03T10:00:00Z'), window, tz).toISOString()).toBe('2026-06-03T10:00:00.000Z');
+    // Before opening on a weekday: 09:00 BST the same day.
+    expect(applySendWindow(new Date('2026-06-03T05:00:00Z'), window, tz).toISOString()).toBe('2026-06-03T08:00:00.000Z');
+    // Friday evening: Monday 09:00.
+    expect(applySendWindow(new Date('2026-06-05T17:30:00Z'), window, tz).toISOString()).toBe('2026-06-08T08:00:00.000Z');
+  });
+});
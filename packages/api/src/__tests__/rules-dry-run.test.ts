@@ -0,0 +1,141 @@
+/**
+ * POST /rules/test — dry-run rules against mail already in the
+ * mailbox. The IMAP receiver is replaced with an in-memory folder so
+ * the test exercises the real parse → classify → plan path.
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { createTestDatabase } from '@agenticmail/core';
+
+function rawMail(opts: { from: string; subject: string; body: string; headers?: string[] }): Buffer {
+  return Buffer.from([
+    `From: ${opts.from}`,
+    'To: ops@localhost',
+    `Subject: ${opts.subject}`,
+    `Message-ID: <${opts.subject.replace(/\W+/g, '-')}@example.com>`,
+    'Date: Tue, 03 Mar 2026 10:00:00 +0000',
+    ...(opts.headers ?? []),
+    '',
+    opts.body,
+  ].join('\r\n'));
+}
+
+const FOLDER = new Map<number, Buffer>([
+  [10, rawMail({ from: 'billing@vendor.com', subject: 'Invoice 4411', body: 'Invoice attached.' })],
+  [11, rawMail({ from: 'news@vendor.com', subject: 'Weekly digest', body: 'Our news.', headers: ['List-Id: <news.vendor.com>'] })],
+  [12, rawMail({ from: 'friend@example.org', subject: 'Lunch?', body: 'Tomorrow at noon?' })],
+]);
+
+const receiver = {
+  search: vi.fn(async () => [...FOLDER.keys()]),
+  batchFetch: vi.fn(async (uids: number[]) => new Map(uids.filter(u => FOLDER.has(u)).map(u => [u, FOLDER.get(u)!]))),
+  markSeen: vi.fn(),
+  moveMessage: vi.fn(),
+  deleteMessage: vi.fn(),
+};
+
+vi.mock('../routes/mail.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../routes/mail.js')>()),
+  getReceiver: async () => receiver,
+}));
+
+const { createFeatureRoutes } = await import('../routes/features.js');
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function listen(app: express.Express): Promise<string> {
+  const server = createServer(app);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  return `http://127.0.0.1:${a.port}`;
+}
+
+async function post(base: string, path: string, body: unknown) {
+  const res = await fetch(`${base}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json().catch(() => ({})) as any };
+}
+
+async function buildApp() {
+  const db = createTestDatabase();
+  const e = express();
+  e.use(express.json());
+  e.use((r, _res, next) => {
+    (r as any).agent = { id: 'agent-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} };
+    next();
+  });
+  e.use(createFeatureRoutes(db, {} as any, { smtp: { host: 'localhost', port: 587 } } as any));
+  return { base: await listen(e), db };
+}
+
+describe('POST /rules/test', () => {
+  it('previews a draft rule against a folder without touching it', async () => {
+    const { base } = await buildApp();
+    const r = await post(base, '/rules/test', {
+      rule: {
+        conditions: { from_contains: '@vendor.com' },
+        actions: [{ type: 'move', folder: 'Vendors' }, { type: 'mark_read' }, { type: 'auto_reply', template: 'ack' }],
+      },
+    });
+    expect(r.status).toBe(200);
+    expect(r.body).toMatchObject({ folder: 'INBOX', total: 3, scanned: 3, matched: 2, truncated: false });
+
+    const byUid = Object.fromEntries(r.body.results.map((m: any) => [m.uid, m]));
+    expect(byUid[12].matched).toBe(false);
+    expect(byUid[10].actions).toEqual([
+      { type: 'move', wouldRun: true, detail: 'Vendors' },
+      { type: 'mark_read', wouldRun: false, detail: 'message already moved' },
+      { type: 'auto_reply', wouldRun: true, detail: 'template ack' },
+    ]);
+    // Mailing-list mail never gets an auto-reply.
+    expect(byUid[11].actions[2]).toMatchObject({ type: 'auto_reply', wouldRun: false });
+    expect(typeof byUid[10].spamScore).toBe('number');
+    expect(byUid[10].routeClass).toBeTruthy();
+
+    expect(receiver.markSeen).not.toHaveBeenCalled();
+    expect(receiver.moveMessage).not.toHaveBeenCalled();
+  });
+
+  it('matches header conditions against the raw header lines', async () => {
+    const { base } = await buildApp();
+    const r = await post(base, '/rules/test', {
+      rule: { conditions: { header: { name: 'List-Id', contains: 'news.vendor.com' } }, actions: [{ type: 'tag', tags: ['lists'] }] },
+    });
+    expect(r.status).toBe(200);
+    expect(r.body.results.filter((m: any) => m.matched).map((m: any) => m.uid)).toEqual([11]);
+  });
+
+  it('tests a stored rule by id without bumping its hit counter', async () => {
+    const { base, db } = await buildApp();
+    db.prepare(
+      "INSERT INTO email_rules (id, agent_id, name, enabled, conditions, actions) VALUES ('r1', 'agent-1', 'lunch', 0, ?, ?)",
+    ).run(JSON.stringify({ subject_contains: 'lunch' }), JSON.stringify({ mark_read: true }));
+
+    const r = await post(base, '/rules/test', { ruleId: 'r1', uid: 12 });
+    expect(r.status).toBe(200);
+    expect(r.body.results).toHaveLength(1);
+    expect(r.body.results[0]).toMatchObject({ uid: 12, matched: true, rules: [{ id: 'r1', name: 'lunch' }] });
+
+    const row = db.prepare("SELECT hit_count FROM email_rules WHERE id = 'r1'").get() as any;
+    expect(row.hit_count).toBe(0);
+  });
+
+  it('rejects invalid draft rules and unknown rule ids', async () => {
+    const { base } = await buildApp();
+    expect((await post(base, '/rules/test', { rule: { conditions: { nope: 1 } } })).status).toBe(400);
+    expect((await post(base, '/rules/test', { ruleId: 'missing' })).status).toBe(404);
+    expect((await post(base, '/rules/test', { since: 'not a date' })).status).toBe(400);
+  });
+});
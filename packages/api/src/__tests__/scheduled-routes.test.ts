@@ -0,0 +1,198 @@
+/**
+ * /scheduled — recurring schedules, pause/resume and the sweep's
+ * retry/advance behaviour. Sends go through a fake gateway so no SMTP
+ * server is needed; the sweep is driven with explicit clock values.
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { BounceTracker, UnsubscribeList, createTestDatabase } from '@agenticmail/core';
+import { createFeatureRoutes, sweepScheduledEmails } from '../routes/features.js';
+
+const AGENT = { id: 'agent-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} };
+const servers: Server[] = [];
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function buildApp() {
+  const db = createTestDatabase();
+  const e = express();
+  e.use(express.json());
+  e.use((r, _res, next) => { (r as any).agent = AGENT; next(); });
+  e.use(createFeatureRoutes(db, {} as any, { smtp: { host: 'localhost', port: 587 } } as any));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const base = `http://127.0.0.1:${a.port}`;
+  const call = async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${base}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json().catch(() => ({})) as any };
+  };
+  return { db, call };
+}
+
+function fakeGateway(outcomes: Array<'ok' | 'fail'>) {
+  const sent: any[] = [];
+  return {
+    sent,
+    gateway: {
+      routeOutbound: vi.fn(async (_agent: string, mail: any) => {
+        if ((outcomes.shift() ?? 'ok') === 'fail') throw new Error('relay unavailable');
+        sent.push(mail);
+        return { messageId: `<m${sent.length}@localhost>`, envelope: { from: AGENT.email, to: [mail.to] }, raw: Buffer.from('') };
+      }),
+    } as any,
+  };
+}
+
+const accounts = { getById: async (id: string) => (id === AGENT.id ? AGENT : null) } as any;
+const config = { smtp: { host: 'localhost', port: 587 } } as any;
+
+describe('/scheduled', () => {
+  it('creates a recurring schedule in a timezone and lists its upcoming occurrences', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-06-01T00:00:00Z') });
+    const { call } = await buildApp();
+    const created = await call('POST', '/scheduled', {
+      to: 'team@example.com', subject: 'Standup {{date}}', text: 'Notes for {{date}}',
+      recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE,FR', sendAt: '2026-06-01T09:00', timezone: 'America/Chicago',
+    });
+    expect(created.status).toBe(200);
+    expect(created.body.sendAt).toBe('2026-06-01T14:00:00.000Z');
+    expect(created.body.upcoming.slice(0, 3)).toEqual([
+      '2026-06-01T14:00:00.000Z', '2026-06-03T14:00:00.000Z', '2026-06-05T14:00:00.000Z',
+    ]);
+
+    const detail = await call('GET', `/scheduled/${created.body.id}`);
+    expect(detail.body.scheduled).toMatchObject({ recurrence: 'FREQ=WEEKLY;BYDAY=MO,WE,FR', timezone: 'America/Chicago', status: 'pending' });
+    expect(detail.body.upcoming).toHaveLength(5);
+  });
+
+  it('validates recurrence, timezone, window and template', async () => {
+    const { call } = await buildApp();
+    const base = { to: 'a@example.com', subject: 's' };
+    expect((await call('POST', '/scheduled', { ...base, recurrence: 'FREQ=HOURLY' })).body.error).toMatch(/cron/);
+    expect((await call('POST', '/scheduled', { ...base, recurrence: '@daily', timezone: 'Mars/Olympus' })).status).toBe(400);
+    expect((await call('POST', '/scheduled', { ...base, recurrence: '@daily', sendWindow: { start: '18:00', end: '09:00' } })).status).toBe(400);
+    expect((await call('POST', '/scheduled', { to: 'a@example.com', templateId: 'nope', recurrence: '@daily' })).status).toBe(404);
+    expect((await call('POST', '/scheduled', base)).status).toBe(400);
+  });
+
+  it('sends, records a run and advances to the next occurrence', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-06-01T00:00:00Z') });
+    const { db, call } = await buildApp();
+    db.prepare('INSERT INTO templates (id, agent_id, name, subject, text_body) VALUES (?, ?, ?, ?, ?)')
+      .run('tpl-1', AGENT.id, 'digest', 'Digest for {{team}}', 'Hello {{team}}, today is {{date}}.');
+    const { body } = await call('POST', '/scheduled', {
+      to: 'team@example.com', templateId: 'tpl-1', variables: { team: 'Platform' },
+      recurrence: '0 8 * * *', timezone: 'Europe/Berlin',
+    });
+    expect(body.sendAt).toBe('2026-06-01T06:00:00.000Z');
+
+    const { gateway, sent } = fakeGateway(['ok']);
+    await sweepScheduledEmails(db, accounts, config, gateway, new Date('2026-06-01T06:00:30Z'));
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ subject: 'Digest for Platform', text: 'Hello Platform, today is 2026-06-01.' });
+
+    const detail = await call('GET', `/scheduled/${body.id}`);
+    expect(detail.body.scheduled).toMatchObject({ status: 'pending', occurrence_at: '2026-06-02T06:00:00.000Z', attempts: 0 });
+    expect(detail.body.runs).toMatchObject([{ occurrence_at: '2026-06-01T06:00:00.000Z', status: 'sent', message_id: '<m1@localhost>' }]);
+  });
+
+  it('retries with backoff, then gives up on the occurrence and moves on', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-06-01T00:00:00Z') });
+    const { db, call } = await buildApp();
+    const { body } = await call('POST', '/scheduled', {
+      to: 'team@example.com', subject: 'Report', text: 'x', recurrence: '0 12 * * *', maxAttempts: 3,
+    });
+    const { gateway, sent } = fakeGateway(['fail', 'fail', 'fail']);
+    const row = () => db.prepare('SELECT * FROM scheduled_emails WHERE id = ?').get(body.id) as any;
+
+    await sweepScheduledEmails(db, accounts, config, gateway, new Date('2026-06-01T12:00:00Z'));
+    expect(row()).toMatchObject({ attempts: 1, send_at: '2026-06-01T12:01:00.000Z', error: 'relay unavailable' });
+    await sweepScheduledEmails(db, accounts, config, gateway, new Date('2026-06-01T12:01:00Z'));
+    expect(row()).toMatchObject({ attempts: 2, send_at: '2026-06-01T12:03:00.000Z' });
+    await sweepScheduledEmails(db, accounts, config, gateway, new Date('2026-06-01T12:03:00Z'));
+    expect(row()).toMatchObject({ status: 'pending', attempts: 0, occurrence_at: '2026-06-02T12:00:00.000Z' });
+    expect(sent).toHaveLength(0);
+
+    const runs = db.prepare('SELECT * FROM scheduled_email_runs WHERE schedule_id = ?').all(body.id) as any[];
+    expect(runs).toMatchObject([{ status: 'failed', attempts: 3, error: 'relay unavailable' }]);
+  });
+
+  it('skips suppressed recipients without retrying', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-06-01T00:00:00Z') });
+    const { db, call } = await buildApp();
+    const bounces = new BounceTracker(db);
+    bounces.recordSent(AGENT.id, '<earlier@localhost>', ['gone@example.com']);
+    bounces.record(AGENT.id, {
+      format: 'dsn', recipients: [{ address: 'gone@example.com', action: 'failed', status: '5.1.1', type: 'hard' }],
+      originalMessageId: '<earlier@localhost>',
+    }, '<b1@mx>');
+    const { body } = await call('POST', '/scheduled', {
+      to: 'gone@example.com', subject: 'Report', text: 'x', recurrence: '0 12 * * *', maxAttempts: 3,
+    });
+    const { gateway, sent } = fakeGateway([]);
+    await sweepScheduledEmails(db, accounts, config, gateway, new Date('2026-06-01T12:00:00Z'));
+    expect(sent).toHaveLength(0);
+    const row = db.prepare('SELECT * FROM scheduled_emails WHERE id = ?').get(body.id) as any;
+    expect(row).toMatchObject({ status: 'pending', occurrence_at: '2026-06-02T12:00:00.000Z' });
+    const runs = db.prepare('SELECT * FROM scheduled_email_runs WHERE schedule_id = ?').all(body.id) as any[];
+    expect(runs).toMatchObject([{ status: 'failed', error: 'Not sent: gone@example.com (hard_bounce) is on the suppression list' }]);
+  });
+
+  it('stops recurring sends to recipients who unsubscribed from bulk mail', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-06-01T00:00:00Z') });
+    const { db, call } = await buildApp();
+    const recurring = await call('POST', '/scheduled', { to: 'dana@example.com', subject: 'Digest', text: 'x', recurrence: '0 12 * * *' });
+    await call('POST', '/scheduled', { to: 'dana@example.com', subject: 'Invoice', text: 'x', sendAt: '2026-06-01T12:00:00Z' });
+    new UnsubscribeList(db).record({ agentId: AGENT.id, list: 'default', recipient: 'dana@example.com' }, 'one-click');
+
+    const { gateway, sent } = fakeGateway([]);
+    await sweepScheduledEmails(db, accounts, config, gateway, new Date('2026-06-01T12:00:00Z'));
+    expect(sent).toMatchObject([{ subject: 'Invoice' }]);
+    const runs = db.prepare('SELECT * FROM scheduled_email_runs WHERE schedule_id = ?').all(recurring.body.id) as any[];
+    expect(runs).toMatchObject([{ status: 'failed', error: 'Not sent: dana@example.com unsubscribed from list "default"' }]);
+  });
+
+  it('keeps sends inside the window and marks one-shots sent', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-06-05T00:00:00Z') });
+    const { db, call } = await buildApp();
+    // Saturday 10:00 UTC, outside a weekday window: pushed to Monday 09:00.
+    const { body } = await call('POST', '/scheduled', {
+      to: 'a@example.com', subject: 'Hi', sendAt: '2026-06-06T10:00:00Z',
+      sendWindow: { days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' },
+    });
+    expect(body.sendAt).toBe('2026-06-08T09:00:00.000Z');
+    const { gateway } = fakeGateway(['ok']);
+    await sweepScheduledEmails(db, accounts, config, gateway, new Date('2026-06-08T09:00:00Z'));
+    expect((db.prepare('SELECT status FROM scheduled_emails WHERE id = ?').get(body.id) as any).status).toBe('sent');
+  });
+
+  it('pauses, and resumes without replaying missed occurrences', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-06-01T00:00:00Z') });
+    const { db, call } = await buildApp();
+    const { body } = await call('POST', '/scheduled', { to: 'a@example.com', subject: 'Daily', recurrence: '0 9 * * *' });
+    expect((await call('POST', `/scheduled/${body.id}/pause`)).body.status).toBe('paused');
+
+    const { gateway, sent } = fakeGateway([]);
+    await sweepScheduledEmails(db, accounts, config, gateway, new Date('2026-06-03T12:00:00Z'));
+    expect(sent).toHaveLength(0);
+
+    vi.setSystemTime(new Date('2026-06-03T12:00:00Z'));
+    const resumed = await call('POST', `/scheduled/${body.id}/resume`);
+    expect(resumed.body).toMatchObject({ status: 'pending', occurrenceAt: '2026-06-04T09:00:00.000Z' });
+    expect((await call('POST', `/scheduled/${body.id}/resume`)).status).toBe(404);
+    expect((await call('DELETE', `/scheduled/${body.id}`)).status).toBe(200);
+  });
+});
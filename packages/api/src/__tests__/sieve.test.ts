@@ -0,0 +1,256 @@
+/**
+ * Sieve import/export: round-trips over the rule model, hand-written
+ * scripts, per-line errors, and the /rules/export + /rules/import
+ * routes.
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { createTestDatabase } from '@agenticmail/core';
+import { normalizeRuleActions, planRuleActions, type EmailRule, type RuleEmail } from '../lib/email-rules.js';
+import { rulesToSieve, sieveToRules } from '../lib/sieve.js';
+import { createFeatureRoutes } from '../routes/features.js';
+
+function rule(overrides: Partial<EmailRule>): EmailRule {
+  return { id: overrides.name ?? 'r', name: 'r', priority: 0, enabled: true, stop: true, conditions: {}, actions: [], ...overrides };
+}
+
+function email(overrides: Partial<RuleEmail> = {}): RuleEmail {
+  return {
+    from: [{ address: 'billing@vendor.com' }],
+    to: [{ address: 'ops@localhost' }],
+    subject: 'Invoice #4411',
+    text: 'Payment due in 30 days.',
+    attachments: [],
+    headers: new Map(),
+    headerLines: [],
+    ...overrides,
+  };
+}
+
+const RULES: EmailRule[] = [
+  rule({
+    name: 'Vendor invoices', priority: 50,
+    conditions: { from_contains: '@vendor.com', subject_regex: '^invoice #\\d+' },
+    actions: [{ type: 'tag', tags: ['billing', 'vendor'] }, { type: 'mark_read' }, { type: 'move', folder: 'Billing' }],
+  }),
+  rule({
+    name: 'Lists', priority: 40, stop: false,
+    conditions: { any: [{ header: { name: 'List-Id', exists: true } }, { header: { name: 'Precedence', equals: 'bulk' } }] },
+    actions: { add_tags: ['list'] },
+  }),
+  rule({
+    name: 'Boss "quoted"', priority: 30,
+    conditions: { from_exact: 'ceo@example.com', not: { subject_contains: 'fyi' }, has_attachment: true },
+    actions: [{ type: 'forward', to: 'assistant@example.com' }],
+  }),
+  rule({
+    name: 'Old newsletter', priority: 20, enabled: false,
+    conditions: { all: [{ cc_contains: 'news' }, { cc_contains: 'letter' }, { body_regex: 'unsubscribe\\s+here' }] },
+    actions: [{ type: 'delete' }],
+  }),
+  rule({
+    name: 'Catch-all', priority: 10, stop: false,
+    conditions: { header: [{ name: 'X-Mailer', contains: 'Outlook' }, { name: 'X-Spam', exists: false }], to_exact: 'ops@localhost' },
+    actions: [],
+  }),
+];
+
+describe('Sieve round trip', () => {
+  const exported = rulesToSieve(RULES);
+  const imported = sieveToRules(exported.script);
+
+  it('exports every translatable rule', () => {
+    expect(exported.skipped).toEqual([]);
+    expect(exported.script).toMatch(/^require \["fileinto", "imap4flags", "copy", "body", "regex", "mime"\];/m);
+    expect(exported.script).toContain('if allof (false, ');
+  });
+
+  it('imports the export back to the same rules', () => {
+    expect(imported.errors).toEqual([]);
+    expect(imported.warnings).toEqual([]);
+    expect(imported.rules.map(({ name, priority, enabled, stop, conditions }) => ({ name, priority, enabled, stop, conditions })))
+      .toEqual(RULES.map(({ name, priority, enabled, stop, conditions }) => ({ name, priority, enabled, stop, conditions })));
+    expect(imported.rules.map(r => r.actions)).toEqual(RULES.map(r => normalizeRuleActions(r.actions)));
+  });
+
+  it('is a fixpoint: exporting the import reproduces the script', () => {
+    const again = rulesToSieve(imported.rules.map((r, i) => ({ ...r, id: String(i) }) as EmailRule));
+    expect(again.script).toBe(exported.script);
+  });
+
+  it('plans the same actions for sample mail, whatever shape the tree had', () => {
+    const nested = RULES.map(r => r.name === 'Boss "quoted"'
+      ? { ...r, conditions: { all: [{ all: [{ from_exact: 'ceo@example.com' }] }, { not: { subject_contains: 'fyi' } }], has_attachment: true } }
+      : r);
+    const back = sieveToRules(rulesToSieve(nested).script).rules.map((r, i) => ({ ...r, id: RULES[i].id }) as EmailRule);
+    const samples = [
+      email(),
+      email({ subject: 'weekly', headerLines: [{ key: 'list-id', line: 'List-Id: <x.example.com>' }] }),
+      email({ from: [{ address: 'ceo@example.com' }], subject: 'Board deck', attachments: [{ filename: 'a.pdf' } as any] }),
+      email({ from: [{ address: 'ceo@example.com' }], subject: 'FYI deck', attachments: [{ filename: 'a.pdf' } as any] }),
+      email({ from: [{ address: 'x@y.z' }], headerLines: [{ key: 'x-mailer', line: 'X-Mailer: Microsoft Outlook 16' }] }),
+    ];
+    for (const sample of samples) {
+      expect(planRuleActions(back, sample)).toEqual(planRuleActions(RULES, sample));
+    }
+  });
+
+  it('skips rules Sieve cannot express and says why', () => {
+    const { script, skipped } = rulesToSieve([
+      rule({ id: 'a', name: 'spammy', conditions: { spam_score_gte: 40 }, actions: [{ type: 'move', folder: 'Junk' }] }),
+      rule({ id: 'b', name: 'tasks', actions: [{ type: 'assign_task', assignee: 'secretary' }] }),
+      rule({ id: 'c', name: 'ooo', actions: [{ type: 'auto_reply', template: 'missing' }] }),
+    ]);
+    expect(skipped.map(s => s.id)).toEqual(['a', 'b', 'c']);
+    expect(script).toContain('# skipped rule "spammy": spam_score_gte has no Sieve equivalent');
+    expect(sieveToRules(script).rules).toEqual([]);
+  });
+
+  it('exports auto-replies as vacation from the template', () => {
+    const { script } = rulesToSieve([rule({ name: 'ooo', actions: [{ type: 'auto_reply', template: 'away' }] })], {
+      resolveTemplate: (ref) => ref === 'away' ? { subject: 'Away', text: 'Back Monday.\nCheers' } : undefined,
+    });
+    expect(script).toContain('vacation :subject "Away" "Back Monday.\nCheers";');
+    expect(sieveToRules(script).rules[0].actions).toEqual([{ type: 'vacation', subject: 'Away', reason: 'Back Monday.\nCheers' }]);
+  });
+});
+
+describe('sieveToRules', () => {
+  it('translates a hand-written script', () => {
+    const { rules, errors, warnings } = sieveToRules([
+      'require ["fileinto", "imap4flags", "vacation", "envelope"];',
+      '/* migrated from the old mail host */',
+      'if address :domain :is "from" "vendor.com" {',
+      '  fileinto "Vendors"; stop;',
+      '} elsif header :matches "subject" "[URGENT]*" {',
+      '  addflag ["\\\\Seen", "urgent"];',
+      '} else {',
+      '  keep;',
+      '}',
+      'if envelope :is "to" "ops@localhost" { redirect "pager@example.com"; }',
+      'vacation :days 7 :subject "Out" text:',
+      'Away until Monday.',
+      '..signed',
+      '.',
+      ';',
+    ].join('\n'));
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { line: 3, name: 'Sieve rule 1', priority: 4, enabled: true, stop: true, conditions: { from_contains: '@vendor.com' }, actions: [{ type: 'move', folder: 'Vendors' }] },
+      {
+        line: 5, name: 'Sieve rule 2', priority: 3, enabled: true, stop: false,
+        conditions: { all: [{ not: { from_contains: '@vendor.com' } }, { subject_regex: '^\\[URGENT\\].*$' }] },
+        actions: [{ type: 'mark_read' }, { type: 'tag', tags: ['urgent'] }],
+      },
+      { line: 10, name: 'Sieve rule 3', priority: 2, enabled: true, stop: false, conditions: { to_exact: 'ops@localhost' }, actions: [{ type: 'forward', to: 'pager@example.com' }, { type: 'delete' }] },
+      { line: 11, name: 'Sieve rule 4', priority: 1, enabled: true, stop: false, conditions: {}, actions: [{ type: 'vacation', subject: 'Out', reason: 'Away until Monday.\n.signed' }] },
+    ]);
+    expect(warnings.map(w => w.line)).toEqual([3, 10, 11]);
+  });
+
+  it('reports every untranslatable line', () => {
+    const { errors } = sieveToRules([
+      'require ["fileinto", "variables"];',
+      'if size :over 100K { discard; }',
+      'if header :comparator "i;octet" :is "subject" "X" { fileinto "X"; }',
+      'if true { reject "no"; }',
+      'if address :regex "from" "a.*" { keep; }',
+      'if true { fileinto "A" }',
+      'if exists "x" { addflag "\\\\Flagged"; }',
+    ].join('\n'));
+    expect(errors.map(e => e.line)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(errors[0].message).toContain('"variables"');
+    expect(errors[1].message).toContain('"size"');
+    expect(errors[2].message).toContain('i;octet');
+    expect(errors[3].message).toContain('"reject"');
+    expect(errors[6].message).toContain('\\Flagged');
+  });
+});
+
+// ─── Routes ─────────────────────────────────────────────────────────
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function buildApp() {
+  const db = createTestDatabase();
+  const e = express();
+  e.use(express.json());
+  e.use((r, _res, next) => {
+    (r as any).agent = { id: 'agent-1', name: 'ops', email: 'ops@localhost' };
+    next();
+  });
+  e.use(createFeatureRoutes(db, {} as any, { smtp: { host: 'localhost', port: 587 } } as any));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  return { base: `http://127.0.0.1:${a.port}`, db };
+}
+
+async function importScript(base: string, body: Record<string, unknown>) {
+  const res = await fetch(`${base}/rules/import`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  return { status: res.status, body: await res.json() as any };
+}
+
+const SCRIPT = [
+  'require ["fileinto", "vacation"];',
+  '# rule: vendors',
+  '# priority: 9',
+  'if address :contains "from" "@vendor.com" { fileinto "Vendors"; stop; }',
+  '# rule: away',
+  '# priority: 1',
+  'if true { vacation :subject "Away" "Back soon."; }',
+].join('\n');
+
+describe('/rules/import and /rules/export', () => {
+  it('imports rules, turning vacation into a reusable template', async () => {
+    const { base, db } = await buildApp();
+    const dry = await importScript(base, { script: SCRIPT, dryRun: true });
+    expect(dry.status).toBe(200);
+    expect(dry.body.rules).toHaveLength(2);
+    expect((db.prepare('SELECT COUNT(*) AS n FROM email_rules').get() as any).n).toBe(0);
+
+    const r = await importScript(base, { script: SCRIPT });
+    expect(r.status).toBe(201);
+    expect(r.body.rules.map((x: any) => [x.name, x.priority, x.stop])).toEqual([['vendors', 9, true], ['away', 1, false]]);
+    expect(r.body.rules[1].actions).toEqual([{ type: 'auto_reply', template: 'away (vacation)' }]);
+
+    expect((await importScript(base, { script: SCRIPT })).status).toBe(409);
+    const replaced = await importScript(base, { script: SCRIPT, replace: true });
+    expect(replaced.status).toBe(201);
+    expect((db.prepare('SELECT COUNT(*) AS n FROM email_rules').get() as any).n).toBe(2);
+    // The identical vacation text reuses the first template.
+    expect((db.prepare('SELECT COUNT(*) AS n FROM templates').get() as any).n).toBe(1);
+  });
+
+  it('rejects a bad script with per-line errors and writes nothing', async () => {
+    const { base, db } = await buildApp();
+    const r = await importScript(base, { script: 'if true { fileinto "A"; }\nif true { notify "x"; }\n' });
+    expect(r.status).toBe(400);
+    expect(r.body.errors).toEqual([{ line: 2, message: 'unsupported command "notify"' }]);
+    expect((db.prepare('SELECT COUNT(*) AS n FROM email_rules').get() as any).n).toBe(0);
+    expect((await importScript(base, {})).status).toBe(400);
+  });
+
+  it('exports what it imported', async () => {
+    const { base } = await buildApp();
+    await importScript(base, { script: SCRIPT });
+    const res = await fetch(`${base}/rules/export?format=sieve`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('application/sieve');
+    expect(res.headers.get('x-rules-skipped')).toBe('0');
+    const script = await res.text();
+    expect(script).toContain('vacation :subject "Away" "Back soon.";');
+    expect(sieveToRules(script).rules.map(r => r.name)).toEqual(['vendors', 'away']);
+
+    expect((await fetch(`${base}/rules/export?format=procmail`)).status).toBe(400);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Adaptive spam learning through the report / not-spam routes and
+ * GET /mail/spam/model. The IMAP receiver is an in-memory pair of
+ * folders holding raw messages.
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+
+const raw = (n: number, from: string, subject: string, body: string) => Buffer.from(
+  `From: ${from}\r\nTo: ops@localhost\r\nSubject: ${subject}\r\nMessage-ID: <m${n}@test>\r\nDate: Tue, 3 Mar 2026 10:00:00 +0000\r\n\r\n${body}\r\n`,
+);
+
+let folders: Record<string, Map<number, Buffer>> = {};
+let nextUid = 1;
+
+class FakeReceiver {
+  async connect(): Promise<void> { /* connected */ }
+  async disconnect(): Promise<void> { /* closed */ }
+  getImapClient() { return { usable: true }; }
+  async listFolders() { return [{ name: 'Junk Mail', path: 'Junk Mail', specialUse: '\\Junk' }]; }
+  async fetchMessage(uid: number, folder = 'INBOX') {
+    const message = folders[folder]?.get(uid);
+    if (!message) throw new Error(`no message ${uid} in ${folder}`);
+    return message;
+  }
+  async moveMessage(uid: number, from: string, to: string) {
+    const message = await this.fetchMessage(uid, from);
+    folders[from].delete(uid);
+    folders[to].set(nextUid++, message);
+  }
+}
+
+vi.mock('@agenticmail/core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@agenticmail/core')>()),
+  MailReceiver: FakeReceiver,
+}));
+
+const { createTestDatabase, SPAM_MODEL_MIN_DOCS } = await import('@agenticmail/core');
+const { createMailRoutes } = await import('../routes/mail.js');
+
+const AGENT = { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} };
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+function deliver(message: Buffer): number {
+  const uid = nextUid++;
+  folders.INBOX.set(uid, message);
+  return uid;
+}
+
+async function buildApp() {
+  folders = { INBOX: new Map(), 'Junk Mail': new Map() };
+  const config = { imap: { host: 'localhost', port: 143 }, smtp: { host: 'localhost', port: 587 } } as any;
+  const accounts = { getByName: async (name: string) => (name === AGENT.name ? AGENT : null) };
+  const e = express();
+  e.use(express.json());
+  e.use((req, _res, next) => {
+    const auth = req.get('authorization');
+    if (auth === 'Bearer master') (req as any).isMaster = true;
+    if (auth === 'Bearer ops') (req as any).agent = AGENT;
+    next();
+  });
+  e.use(createMailRoutes(accounts as any, config, createTestDatabase()));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  return async (auth: string, method: string, path: string, body?: unknown) => {
+    const res = await fetch(`http://127.0.0.1:${a.port}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', authorization: `Bearer ${auth}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as any };
+  };
+}
+
+const promo = (n: number) => raw(n, 'deals@promo.example', 'Picks of the week', 'Our weekly picks, curated for you.');
+const friend = (n: number) => raw(n, 'friend@example.com', `Lunch ${n}`, 'See you at lunch tomorrow.');
+
+describe('adaptive spam learning', () => {
+  it('learns from report and not-spam, then scores with the model', async () => {
+    const call = await buildApp();
+    for (let i = 0; i < SPAM_MODEL_MIN_DOCS; i++) {
+      const spam = await call('ops', 'POST', `/mail/messages/${deliver(promo(i))}/spam`, {});
+      expect(spam.body).toMatchObject({ movedToSpam: true, learned: true });
+      const [junkUid] = [...folders['Junk Mail'].keys()];
+      folders['Junk Mail'].delete(junkUid);
+
+      folders['Junk Mail'].set(nextUid, friend(100 + i));
+      expect((await call('ops', 'POST', `/mail/messages/${nextUid++}/not-spam`)).body).toMatchObject({ movedToInbox: true, learned: true });
+    }
+
+    const score = await call('ops', 'GET', `/mail/messages/${deliver(promo(999))}/spam-score`);
+    expect(score.body).toMatchObject({ isSpam: true, bayes: { probability: expect.any(Number) } });
+    expect(score.body.explanation.tokens.spam.map((t: any) => t.token)).toContain('from:@promo.example');
+    expect(score.body.explanation.summary).toMatch(/^spam \(p=/);
+
+    const model = await call('ops', 'GET', '/mail/spam/model');
+    expect(model.body).toMatchObject({ agent: 'ops', trained: true, documents: { feedback: { spam: 5, ham: 5 } } });
+  });
+
+  it('lets master read an agent model by name', async () => {
+    const call = await buildApp();
+    expect((await call('master', 'GET', '/mail/spam/model?agent=ops')).body).toMatchObject({ agent: 'ops', trained: false });
+    expect((await call('master', 'GET', '/mail/spam/model')).status).toBe(400);
+    expect((await call('master', 'GET', '/mail/spam/model?agent=ghost')).status).toBe(404);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Email templates — the template engine (variables, defaults, blocks,
+ * escaping, partials), schema-checked rendering, and the /templates
+ * save, preview and send routes.
+ */
+import { afterEach, describe, expect, it } from 'vitest';
+import express from 'express';
+import { createServer, type Server } from 'node:http';
+import { once } from 'node:events';
+import { createTestDatabase } from '@agenticmail/core';
+import { createFeatureRoutes } from '../routes/features.js';
+import {
+  parseTemplate,
+  renderEmailTemplate,
+  renderTemplate,
+  templateVariables,
+  TemplateSyntaxError,
+} from '../lib/template-engine.js';
+
+const AGENT = { id: 'a-1', name: 'ops', email: 'ops@localhost', stalwartPrincipal: 'ops', metadata: {} };
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => s.close(() => r()))));
+});
+
+async function buildApp() {
+  const db = createTestDatabase();
+  const sent: any[] = [];
+  const gateway = {
+    routeOutbound: async (_agent: string, opts: any) => {
+      sent.push(opts);
+      return { messageId: `<t${sent.length}@localhost>` };
+    },
+  };
+  const accounts = { getByName: async () => null, getById: async () => null };
+  const config = { dataDir: '/nonexistent', masterKey: 'mk_test', smtp: { host: 'localhost', port: 587 } } as any;
+
+  const e = express();
+  e.use(express.json());
+  e.use('/api/agenticmail', (req, _res, next) => { (req as any).agent = AGENT; next(); });
+  e.use('/api/agenticmail', createFeatureRoutes(db, accounts as any, config, gateway as any));
+  const server = createServer(e);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  const call = async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(`http://127.0.0.1:${a.port}/api/agenticmail${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() as any };
+  };
+  return { db, call, sent };
+}
+
+describe('template engine', () => {
+  it('renders variables, defaults, conditionals and loops', () => {
+    const source = [
+      'Hi {{customer.name | default: "there"}},',
+      '{{#if vip}}',
+      'Thanks for being a VIP.',
+      '{{else}}',
+      'Thanks for your order.',
+      '{{/if}}',
+      '{{#each items}}',
+      '{{@index}}. {{this.sku}} x{{qty}}{{#unless @last}},{{/unless}}',
+      '{{else}}',
+      'Nothing shipped.',
+      '{{/each}}',
+      '{{! internal note }}',
+      'Order {{order}}',
+    ].join('\n');
+    const vars = { customer: { name: '' }, vip: false, order: 42, items: [{ sku: 'A1', qty: 2 }, { sku: 'B2', qty: 1 }] };
+    expect(renderTemplate(source, vars)).toEqual({
+      output: 'Hi there,\nThanks for your order.\n0. A1 x2,\n1. B2 x1\nOrder 42',
+      errors: [],
+    });
+    expect(renderTemplate(source, { ...vars, vip: true, items: [] }).output)
+      .toBe('Hi there,\nThanks for being a VIP.\nNothing shipped.\nOrder 42');
+  });
+
+  it('escapes HTML unless triple-braced and reports what it cannot render', () => {
+    const vars = { name: '<b>Ada</b> & co', note: '<i>ok</i>' };
+    expect(renderTemplate('<p>{{name}} {{{note}}}</p>', vars, { html: true }).output)
+      .toBe('<p>&lt;b&gt;Ada&lt;/b&gt; &amp; co <i>ok</i></p>');
+    expect(renderTemplate('{{name}}', vars).output).toBe('<b>Ada</b> & co');
+
+    const { output, errors } = renderTemplate('{{first}} {{first}} {{a.b}} {{#each tags}}x{{/each}}{{> footer}}', { a: {}, tags: 'red' });
+    expect(output).toBe('   ');
+    expect(errors).toEqual([
+      { path: 'first', message: 'undefined variable', line: 1 },
+      { path: 'a.b', message: 'undefined variable', line: 1 },
+      { path: 'tags', message: 'not a list', line: 1 },
+      { path: '> footer', message: 'unknown partial', line: 1 },
+    ]);
+  });
+
+  it('rejects malformed templates with a line number', () => {
+    expect(() => parseTemplate('ok\n{{#if a}}\nno close')).toThrow(/never closed \(line 2\)/);
+    expect(() => parseTemplate('{{#if a}}{{/each}}')).toThrow(TemplateSyntaxError);
+    expect(() => parseTemplate('{{/if}}')).toThrow(/no matching opening block/);
+    expect(() => parseTemplate('{{else}}')).toThrow(/outside a block/);
+    expect(() => parseTemplate('{{first name}}')).toThrow(/Invalid variable/);
+    expect(() => parseTemplate('Hi {{name')).toThrow(/Unclosed/);
+    expect(templateVariables('{{a}} {{b | default: "x"}} {{#if c}}{{d.e}}{{/if}} {{#each f}}{{g}}{{/each}}')).toEqual(['a', 'd']);
+  });
+
+  it('fills schema defaults and validates before rendering', () => {
+    const template = {
+      subject: 'Plan {{plan}}\nrenewal',
+      text: 'Seats: {{seats}}',
+      schema: {
+        type: 'object',
+        required: ['seats'],
+        properties: { plan: { type: 'string', default: 'basic' }, seats: { type: 'integer', minimum: 1 } },
+      },
+    };
+    expect(renderEmailTemplate(template, { seats: 3 })).toEqual({ subject: 'Plan basic renewal', text: 'Seats: 3', errors: [] });
+    expect(renderEmailTemplate(template, { seats: 0 }).errors).toEqual([{ path: 'seats', message: 'value below minimum 1' }]);
+    expect(renderEmailTemplate(template, {}).errors).toEqual([
+      { path: 'seats', message: 'required property is missing' },
+      { part: 'text', path: 'seats', message: 'undefined variable', line: 1 },
+    ]);
+  });
+});
+
+describe('/templates', () => {
+  it('previews without sending and refuses to send with errors', async () => {
+    const { db, call, sent } = await buildApp();
+    await call('POST', '/signatures', { name: 'Work', text: 'Ops team\nACME', isDefault: true });
+    const created = await call('POST', '/templates', {
+      name: 'welcome',
+      subject: 'Welcome, {{name}}',
+      text: 'Hi {{name}}\n\n{{> signature}}',
+      html: '<p>Hi {{name}}</p>{{> signature}}',
+      schema: { type: 'object', required: ['name'], properties: { name: { type: 'string', minLength: 1 } } },
+    });
+    expect(created.status).toBe(200);
+    const id = created.body.id;
+    expect((await call('GET', '/templates')).body.templates[0].schema).toMatchObject({ required: ['name'] });
+
+    const preview = await call('POST', `/templates/${id}/preview`, { variables: { name: 'Ada & Lee' } });
+    expect(preview.body).toEqual({
+      ok: true,
+      subject: 'Welcome, Ada & Lee',
+      text: 'Hi Ada & Lee\n\nOps team\nACME',
+      html: '<p>Hi Ada &amp; Lee</p>Ops team<br>\nACME',
+      errors: [],
+    });
+
+    const bad = await call('POST', `/templates/${id}/preview`, {});
+    expect(bad.body.ok).toBe(false);
+    expect(bad.body.errors).toContainEqual({ path: 'name', message: 'required property is missing' });
+    expect(bad.body.errors).toContainEqual({ part: 'subject', path: 'name', message: 'undefined variable', line: 1 });
+
+    const refused = await call('POST', `/templates/${id}/send`, { to: 'ada@example.org' });
+    expect(refused.status).toBe(400);
+    expect(refused.body.error).toContain('required property is missing');
+    expect(sent).toHaveLength(0);
+
+    expect((await call('POST', `/templates/${id}/send`, { to: 'ada@example.org', variables: { name: 'Ada' } })).status).toBe(200);
+    expect(sent[0]).toMatchObject({ subject: 'Welcome, Ada', text: 'Hi Ada\n\nOps team\nACME' });
+    expect((await call('POST', '/templates/nope/preview', {})).status).toBe(404);
+
+    // A scheduled send from the template is checked when it is created.
+    db.prepare('UPDATE templates SET variable_schema = NULL WHERE id = ?').run(id);
+    const scheduled = await call('POST', '/scheduled', { to: 'ada@example.org', templateId: id, sendAt: '2099-01-01T09:00:00Z' });
+    expect(scheduled.status).toBe(400);
+    expect(scheduled.body.error).toContain('name undefined variable');
+  });
+
+  it('validates templates and schemas on save', async () => {
+    const { call } = await buildApp();
+    const broken = await call('POST', '/templates', { name: 'x', subject: 'Hi', text: 'one\n{{#if vip}}\nVIP' });
+    expect(broken.status).toBe(400);
+    expect(broken.body).toMatchObject({ part: 'text', line: 2 });
+    expect((await call('POST', '/templates', { name: 'x', subject: 'Hi', schema: [] })).status).toBe(400);
+    expect((await call('POST', '/templates', { name: 'x', subject: 'Hi', schema: { type: 'array' } })).status).toBe(400);
+    const badDefault = await call('POST', '/templates', {
+      name: 'x', subject: 'Hi', schema: { properties: { seats: { type: 'integer', default: 'two' } } },
+    });
+    expect(badDefault.body.error).toContain('default');
+  });
+});
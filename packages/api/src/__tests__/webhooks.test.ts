@@ -0,0 +1,239 @@
+/**
+ * /webhooks — registration, SSRF checks on target URLs, signed
+ * deliveries to a local HTTP receiver, retry backoff, the delivery log
+ * and manual redelivery. Retries are driven with explicit clock values.
+ * Hostname lookups go through a stub resolver.
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import { once } from 'node:events';
+import crypto from 'node:crypto';
+import { createTestDatabase } from '@agenticmail/core';
+import { createWebhookRoutes, deliverDueWebhooks, emitWebhookEvent, signWebhookPayload, webhookRetryDelayMs } from '../routes/webhooks.js';
+import { publishAgentEvent } from '../routes/firehose.js';
+
+vi.mock('node:dns/promises', () => ({
+  lookup: vi.fn(async (hostname: string) => {
+    if (hostname === 'internal.example.com') return [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.7', family: 4 }];
+    throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+  }),
+}));
+
+const AGENTS = [
+  { id: 'a-1', name: 'ops', email: 'ops@localhost' },
+  { id: 'a-2', name: 'lyra', email: 'lyra@localhost' },
+];
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((s) => new Promise<void>((r) => { s.closeAllConnections(); s.close(() => r()); })));
+});
+
+async function listen(server: Server): Promise<string> {
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const a = server.address();
+  if (!a || typeof a === 'string') throw new Error('bad address');
+  return `http://127.0.0.1:${a.port}`;
+}
+
+interface Received { headers: IncomingMessage['headers']; body: string }
+
+/** A local webhook receiver answering with the queued status codes (default 200). */
+async function receiver(statuses: number[] = []) {
+  const received: Received[] = [];
+  const url = await listen(createServer((req, res) => {
+    let body = '';
+    req.on('data', (c) => { body += c; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end('ok');
+    });
+  }));
+  return { url: `${url}/hook`, received };
+}
+
+async function buildApp() {
+  const db = createTestDatabase();
+  const e = express();
+  e.use(express.json());
+  e.use((req, _res, next) => {
+    const auth = req.get('authorization');
+    if (auth === 'Bearer master') (req as any).isMaster = true;
+    const agent = AGENTS.find(a => auth === `Bearer ${a.name}`);
+    if (agent) (req as any).agent = agent;
+    next();
+  });
+  e.use(createWebhookRoutes(db));
+  const base = await listen(createServer(e));
+  const call = async (auth: string, method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${base}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', authorization: `Bearer ${auth}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json().catch(() => ({})) as any };
+  };
+  return { db, call };
+}
+
+/** Wait out an in-flight sweep: a sweep at the epoch finds nothing due. */
+const settle = (db: Parameters<typeof deliverDueWebhooks>[0]) => deliverDueWebhooks(db, new Date(0));
+
+const until = async (check: () => boolean) => {
+  for (let i = 0; i < 100 && !check(); i++) await new Promise(r => setTimeout(r, 10));
+  expect(check()).toBe(true);
+};
+
+describe('webhook registration', () => {
+  it('rejects unsafe target URLs and unknown event types', async () => {
+    const { call } = await buildApp();
+    const meta = await call('master', 'POST', '/webhooks', { url: 'http://169.254.169.254/latest/meta-data/', events: ['*'] });
+    expect(meta.status).toBe(400);
+    expect(meta.body.error).toMatch(/blocked metadata host/);
+    expect((await call('master', 'POST', '/webhooks', { url: 'file:///etc/passwd', events: ['*'] })).status).toBe(400);
+    expect((await call('master', 'POST', '/webhooks', { url: 'http://127.0.0.1/x', events: ['mail.exploded'] })).status).toBe(400);
+    expect((await call('master', 'POST', '/webhooks', { url: 'http://127.0.0.1/x', events: [] })).status).toBe(400);
+  });
+
+  it('returns the secret once and scopes agent webhooks to the agent', async () => {
+    const { call } = await buildApp();
+    const created = await call('ops', 'POST', '/webhooks', { url: 'https://hooks.example.com/hook', events: ['mail.*'] });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ agentId: 'a-1', events: ['mail.*'], active: true });
+    expect(created.body.secret).toMatch(/^whsec_/);
+
+    const fetched = await call('ops', 'GET', `/webhooks/${created.body.id}`);
+    expect(fetched.body.secret).toBeUndefined();
+    expect(fetched.body.secretHint).toBeTruthy();
+
+    expect((await call('lyra', 'GET', `/webhooks/${created.body.id}`)).status).toBe(404);
+    expect((await call('lyra', 'GET', '/webhooks')).body.webhooks).toEqual([]);
+    expect((await call('master', 'GET', '/webhooks')).body.webhooks).toHaveLength(1);
+    expect((await call('lyra', 'POST', '/webhooks', { url: 'https://hooks.example.com/hook', events: ['*'], agentId: 'a-1' })).status).toBe(403);
+  });
+
+  it('rejects local and private targets from agent keys', async () => {
+    const { call } = await buildApp();
+    for (const url of ['http://127.0.0.1:1/hook', 'http://localhost:3000/hook', 'http://10.0.0.5/hook', 'http://[::1]/hook']) {
+      const res = await call('ops', 'POST', '/webhooks', { url, events: ['*'] });
+      expect(res.status, url).toBe(400);
+      expect(res.body.error).toMatch(/local or private address/);
+    }
+
+    const created = await call('ops', 'POST', '/webhooks', { url: 'https://hooks.example.com/hook', events: ['*'] });
+    const moved = await call('ops', 'PUT', `/webhooks/${created.body.id}`, { url: 'http://192.168.1.20/hook' });
+    expect(moved.status).toBe(400);
+    expect((await call('ops', 'GET', `/webhooks/${created.body.id}`)).body.url).toBe('https://hooks.example.com/hook');
+  });
+
+  it('accepts local and private targets from the master key', async () => {
+    const { call } = await buildApp();
+    const global = await call('master', 'POST', '/webhooks', { url: 'http://127.0.0.1:1/hook', events: ['*'] });
+    expect(global.status).toBe(201);
+    const scoped = await call('master', 'POST', '/webhooks', { url: 'http://10.0.0.5/hook', events: ['*'], agentId: 'a-1' });
+    expect(scoped.status).toBe(201);
+    expect(scoped.body.agentId).toBe('a-1');
+    expect((await call('master', 'PUT', `/webhooks/${scoped.body.id}`, { url: 'http://localhost:3000/hook' })).status).toBe(200);
+  });
+});
+
+describe('webhook delivery', () => {
+  it('delivers matching events with a verifiable HMAC signature', async () => {
+    const { call } = await buildApp();
+    const hook = await receiver();
+    const created = await call('master', 'POST', '/webhooks', { url: hook.url, events: ['task.*', 'sms.received'], agentId: 'a-1' });
+
+    publishAgentEvent('a-1', { type: 'task', taskId: 't-1' });
+    publishAgentEvent('a-2', { type: 'task', taskId: 'someone-else' });
+    publishAgentEvent('a-1', { type: 'sms', direction: 'inbound', message: { body: 'hi' } });
+    publishAgentEvent('a-1', { type: 'sms', direction: 'outbound', message: { body: 'bye' } });
+    await until(() => hook.received.length === 2);
+
+    const [task, sms] = hook.received.map(r => ({ ...r, payload: JSON.parse(r.body) }));
+    expect(task.payload).toMatchObject({ type: 'task.assigned', agentId: 'a-1', data: { taskId: 't-1' } });
+    expect(sms.payload).toMatchObject({ type: 'sms.received', data: { direction: 'inbound' } });
+    expect(task.headers['x-agenticmail-event']).toBe('task.assigned');
+
+    const [t, v1] = String(task.headers['x-agenticmail-signature']).split(',');
+    const timestamp = Number(t.slice(2));
+    const expected = crypto.createHmac('sha256', created.body.secret).update(`${timestamp}.${task.body}`).digest('hex');
+    expect(v1).toBe(`v1=${expected}`);
+    expect(signWebhookPayload(created.body.secret, timestamp, task.body)).toBe(`${t},${v1}`);
+  });
+
+  it('refuses agent deliveries to a hostname that resolves to a private address', async () => {
+    const { db, call } = await buildApp();
+    const created = await call('ops', 'POST', '/webhooks', { url: 'http://internal.example.com/hook', events: ['task.*'] });
+    expect(created.status).toBe(201);
+
+    publishAgentEvent('a-1', { type: 'task', taskId: 't-9' });
+    const status = () => (db.prepare('SELECT status FROM webhook_deliveries WHERE webhook_id = ?').get(created.body.id) as any)?.status;
+    await until(() => status() === 'failed');
+    const log = await call('ops', 'GET', `/webhooks/${created.body.id}/deliveries`);
+    expect(log.body.deliveries[0]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(log.body.deliveries[0].error).toMatch(/internal\.example\.com resolves to a local or private address: 10\.0\.0\.7/);
+  });
+
+  it('retries failures with backoff and logs every attempt', async () => {
+    const { db, call } = await buildApp();
+    const hook = await receiver([500, 503]);
+    const created = await call('master', 'POST', '/webhooks', { url: hook.url, events: ['mail.sent'] });
+
+    emitWebhookEvent('mail.sent', 'a-1', { messageId: '<m1@localhost>' });
+    await until(() => hook.received.length === 1);
+    await settle(db);
+    let log = await call('master', 'GET', `/webhooks/${created.body.id}/deliveries`);
+    const [pending] = log.body.deliveries;
+    expect(pending).toMatchObject({ status: 'pending', attempts: 1, responseStatus: 500, error: 'HTTP 500' });
+
+    // Not due yet: nothing is attempted before the backoff elapses.
+    const retryAt = new Date(pending.nextAttemptAt);
+    expect(await deliverDueWebhooks(db, new Date(retryAt.getTime() - 1000))).toBe(0);
+
+    await deliverDueWebhooks(db, retryAt);
+    const second = new Date(retryAt.getTime() + webhookRetryDelayMs(2));
+    await deliverDueWebhooks(db, second);
+    expect(hook.received).toHaveLength(3);
+    expect(new Set(hook.received.map(r => JSON.parse(r.body).id)).size).toBe(1);
+
+    log = await call('master', 'GET', `/webhooks/${created.body.id}/deliveries`);
+    expect(log.body.deliveries[0]).toMatchObject({ status: 'delivered', attempts: 3, responseStatus: 200 });
+    const detail = await call('master', 'GET', `/webhooks/${created.body.id}/deliveries/${pending.id}`);
+    expect(detail.body.payload).toMatchObject({ type: 'mail.sent', data: { messageId: '<m1@localhost>' } });
+    expect(detail.body.responseBody).toBe('ok');
+  });
+
+  it('gives up after the last attempt and redelivers on request', async () => {
+    const { db, call } = await buildApp();
+    const hook = await receiver(Array(8).fill(500));
+    const created = await call('master', 'POST', '/webhooks', { url: hook.url, events: ['*'] });
+    const ping = await call('master', 'POST', `/webhooks/${created.body.id}/ping`);
+    expect(ping.status).toBe(202);
+    await until(() => hook.received.length === 1);
+    await settle(db);
+
+    let now = Date.now();
+    for (let attempt = 1; attempt < 8; attempt++) {
+      now += webhookRetryDelayMs(attempt);
+      await deliverDueWebhooks(db, new Date(now));
+    }
+    const failed = await call('master', 'GET', `/webhooks/${created.body.id}/deliveries/${ping.body.deliveryId}`);
+    expect(failed.body).toMatchObject({ status: 'failed', attempts: 8, nextAttemptAt: null });
+
+    const again = await call('master', 'POST', `/webhooks/${created.body.id}/deliveries/${ping.body.deliveryId}/redeliver`);
+    expect(again.status).toBe(202);
+    await until(() => hook.received.length === 9);
+    await settle(db);
+    const redelivered = await call('master', 'GET', `/webhooks/${created.body.id}/deliveries/${again.body.deliveryId}`);
+    expect(redelivered.body.redeliveryOf).toBe(ping.body.deliveryId);
+    expect(JSON.parse(hook.received[8].body).id).toBe(JSON.parse(hook.received[0].body).id);
+
+    // A paused webhook gets nothing.
+    await call('master', 'PUT', `/webhooks/${created.body.id}`, { active: false });
+    expect(emitWebhookEvent('mail.sent', 'a-1', {})).toBe(0);
+  });
+});
@@ -20,17 +20,21 @@ import { createAccountRoutes } from './routes/accounts.js';
 import { createMailRoutes } from './routes/mail.js';
 import { createInboundRoutes } from './routes/inbound.js';
 import { createEventRoutes } from './routes/events.js';
+import { createWebhookRoutes } from './routes/webhooks.js';
 import { createDomainRoutes } from './routes/domains.js';
 import { createGatewayRoutes } from './routes/gateway.js';
 import { createFeatureRoutes } from './routes/features.js';
+import { createCampaignRoutes } from './routes/campaigns.js';
+import { createCalendarRoutes } from './routes/calendar.js';
 import { createTaskRoutes } from './routes/tasks.js';
 import { createSmsRoutes, createSmsWebhookRoutes } from './routes/sms.js';
 import { createPhoneRoutes, createPhoneWebhookRoutes } from './routes/phone.js';
 import { createTelegramRoutes, createTelegramWebhookRoutes } from './routes/telegram.js';
+import { createUnsubscribeRoutes } from './routes/unsubscribe.js';
 import { createMediaRoutes } from './routes/media.js';
 import { createStorageRoutes } from './routes/storage.js';
 import { createMemoryRoutes } from './routes/memory.js';
-import { createSystemEventRoutes } from './routes/system-events.js';
+import { createSystemEventRoutes, pushSystemEvent } from './routes/system-events.js';
 import { createDispatcherActivityRoutes } from './routes/dispatcher-activity.js';
 import { createAgentMemoryRoutes } from './routes/agent-memory.js';
 
@@ -135,6 +139,10 @@ export function createApp(configOverrides?: Partial<AgenticMailConfig>): {
       pass: config.stalwart.adminPassword,
     },
     encryptionKey: config.masterKey || undefined,
+    dataDir: config.dataDir,
+    // Operators watching the system event stream hear about a runaway
+    // agent the first time it hits a limit, not on every rejected send.
+    onQuotaExceeded: (exceeded) => pushSystemEvent({ type: 'quota_exceeded', ...exceeded }),
   });
 
   const app = express();
@@ -227,6 +235,10 @@ export function createApp(configOverrides?: Partial<AgenticMailConfig>): {
   // X-Telegram-Bot-Api-Secret-Token header, before bearer auth)
   app.use('/api/agenticmail', createTelegramWebhookRoutes(db, config, gatewayManager));
 
+  // One-click unsubscribe for bulk mail (the signed token in the URL is
+  // the credential, before bearer auth)
+  app.use('/api/agenticmail', createUnsubscribeRoutes(db, config));
+
   // Integration bootstrap routes — mounted BEFORE bearer auth so a fresh
   // AI agent (Claude Code, etc.) can self-install without having to first
   // know the master key. The factory was resolved at module load (see
@@ -253,10 +265,14 @@ export function createApp(configOverrides?: Partial<AgenticMailConfig>): {
   // API routes
   app.use('/api/agenticmail', createAccountRoutes(accountManager, db, config));
   app.use('/api/agenticmail', createMailRoutes(accountManager, config, db, gatewayManager));
-  app.use('/api/agenticmail', createEventRoutes(accountManager, config, db));
+  app.use('/api/agenticmail', createEventRoutes(accountManager, config, db, gatewayManager));
+  // Webhooks map firehose events, so they mount after the event routes.
+  app.use('/api/agenticmail', createWebhookRoutes(db));
   app.use('/api/agenticmail', createDomainRoutes(domainManager));
   app.use('/api/agenticmail', createGatewayRoutes(gatewayManager));
   app.use('/api/agenticmail', createFeatureRoutes(db, accountManager, config, gatewayManager));
+  app.use('/api/agenticmail', createCampaignRoutes(db, config, gatewayManager));
+  app.use('/api/agenticmail', createCalendarRoutes(db, config, gatewayManager));
   app.use('/api/agenticmail', createTaskRoutes(db, accountManager, config));
   app.use('/api/agenticmail', createSmsRoutes(db, accountManager, config, gatewayManager));
   app.use('/api/agenticmail', createPhoneRoutes(db, config));
@@ -266,7 +282,7 @@ export function createApp(configOverrides?: Partial<AgenticMailConfig>): {
   // MediaManager; the underlying binaries (ffmpeg, ImageMagick, …) are
   // feature-detected so a missing one yields a 503, never a crash.
   app.use('/api/agenticmail', createMediaRoutes(config));
-  app.use('/api/agenticmail', createMemoryRoutes(db as any));
+  app.use('/api/agenticmail', createMemoryRoutes(db as any, config));
   app.use('/api/agenticmail', createStorageRoutes(db as any, accountManager, config));
   app.use('/api/agenticmail', createSystemEventRoutes());
   app.use('/api/agenticmail', createDispatcherActivityRoutes({
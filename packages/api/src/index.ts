@@ -4,7 +4,10 @@ import { createApp, prepareIntegrations } from './app.js';
 import { closeCaches } from './routes/mail.js';
 import { closeAllWatchers } from './routes/events.js';
 import { closeAllSystemEventListeners } from './routes/system-events.js';
+import { closeAllFirehoseStreams, detachEventJournal } from './routes/firehose.js';
 import { startScheduledSender } from './routes/features.js';
+import { startWebhookDispatcher } from './routes/webhooks.js';
+import { stopMemoryConsolidation } from './routes/memory.js';
 import { createRealtimeVoiceServer, REALTIME_WS_PATH } from './realtime-ws.js';
 import { startCallbackScheduler } from './callback-scheduler.js';
 import { startTunnelWatchdog } from './tunnel-watchdog.js';
@@ -44,6 +47,7 @@ const { app, context } = createApp();
 const { port, host } = context.config.api;
 
 let scheduledTimer: ReturnType<typeof setInterval> | null = null;
+let webhookTimer: ReturnType<typeof setInterval> | null = null;
 let stopCallbackScheduler: (() => void) | null = null;
 let stopTunnelWatchdog: (() => void) | null = null;
 
@@ -90,6 +94,9 @@ const server = app.listen(port, host, async () => {
   // Start scheduled email sender
   scheduledTimer = startScheduledSender(context.db, context.accountManager, context.config, context.gatewayManager);
 
+  // Start webhook delivery retries (new events are delivered immediately)
+  webhookTimer = startWebhookDispatcher(context.db);
+
   // v0.9.81 — start the scheduled-callback loop so `schedule_callback`
   // requests from live voice calls actually get dialed when their `at`
   // time arrives. Tick is unref'd so it doesn't keep the process alive
@@ -148,11 +155,15 @@ async function shutdown() {
   shuttingDown = true;
   console.log('\nShutting down...');
   if (scheduledTimer) { try { clearInterval(scheduledTimer); } catch { /* ignore */ } }
+  if (webhookTimer) { try { clearInterval(webhookTimer); } catch { /* ignore */ } }
+  stopMemoryConsolidation();
   if (stopCallbackScheduler) { try { stopCallbackScheduler(); } catch { /* ignore */ } }
   if (stopTunnelWatchdog) { try { stopTunnelWatchdog(); } catch { /* ignore */ } }
   try { realtimeVoice.close(); } catch { /* ignore */ }
   try { await closeAllWatchers(); } catch { /* ignore */ }
   try { closeAllSystemEventListeners(); } catch { /* ignore */ }
+  try { closeAllFirehoseStreams(); } catch { /* ignore */ }
+  try { detachEventJournal(); } catch { /* ignore */ }
   try { await closeCaches(); } catch { /* ignore */ }
   try { await context.gatewayManager.shutdown(); } catch { /* ignore */ }
   server.close(() => process.exit(0));
@@ -0,0 +1,499 @@
+/**
+ * Email rule engine — condition trees and action pipelines.
+ *
+ * Pure functions only: no DB, no IMAP. `routes/features.ts` loads the
+ * rows and records hit counters, `routes/events.ts` executes the
+ * resulting plan against the mailbox, and `POST /rules/test` previews
+ * it. Keeping evaluation side-effect free means the SSE path and the
+ * dry-run agree exactly on what a rule does.
+ *
+ * # Conditions
+ *
+ * A condition node is an object whose keys are ANDed together:
+ *
+ *   - combinators: `all: [node, …]`, `any: [node, …]`, `not: node`
+ *   - address tests (match ANY address in the field):
+ *     `from_contains`, `from_exact`, `to_contains`, `to_exact`,
+ *     `cc_contains`, `cc_exact`
+ *   - text tests: `subject_contains`, `subject_regex`,
+ *     `body_contains`, `body_regex`
+ *   - `header: { name, contains? | equals? | regex? | exists? }`
+ *     (or an array of them, all of which must hold)
+ *   - `spam_score_gte`, `spam_score_lt` — only match when the spam
+ *     filter ran (internal agent-to-agent mail is never scored)
+ *   - `route_class` — one class or a list, from `classifyEmailRoute`
+ *   - `has_attachment` — boolean
+ *
+ * The flat keys are the pre-1.0 format, so every rule stored before
+ * condition trees existed still evaluates the same way. An empty node
+ * matches everything.
+ *
+ * # Actions
+ *
+ * Either the legacy object (`{ move_to, mark_read, delete, add_tags }`)
+ * or an ordered array of `{ type, … }` steps. The legacy object is
+ * normalised to the array form in a fixed order (tag, mark read, move,
+ * delete) so the executor only has one shape to deal with.
+ */
+
+import {
+  classifyEmailRoute,
+  isInternalEmail,
+  scoreEmail,
+  type EmailRouteClassification,
+  type EmailRouteInput,
+  type ParsedEmail,
+  type SpamResult,
+  type SpamTokenStats,
+} from '@agenticmail/core';
+
+export type RuleConditionNode = Record<string, unknown>;
+
+export type RuleAction =
+  | { type: 'tag'; tags: string[] }
+  | { type: 'mark_read' }
+  | { type: 'move'; folder: string }
+  | { type: 'delete' }
+  | { type: 'forward'; to: string; note?: string }
+  | { type: 'auto_reply'; template: string; variables?: Record<string, string> }
+  | { type: 'assign_task'; assignee: string; taskType?: string; task?: string };
+
+export type RuleActionType = RuleAction['type'];
+
+/** The subset of a parsed message the engine reads. */
+export type RuleEmail = Pick<ParsedEmail, 'from' | 'to' | 'subject'>
+  & Partial<Pick<ParsedEmail, 'cc' | 'text' | 'html' | 'attachments' | 'headers' | 'headerLines'>>;
+
+/** Verdicts computed upstream of the rules (spam filter, route classifier). */
+export interface RuleEvaluationContext {
+  spamScore?: number;
+  routeClass?: string;
+}
+
+/** A rule as the engine sees it — already JSON-decoded. */
+export interface EmailRule {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  stop: boolean;
+  conditions: RuleConditionNode;
+  actions: unknown;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  ruleName: string;
+  actions: RuleAction[];
+  stop: boolean;
+}
+
+export interface RulePlan {
+  /** Every rule that matched, in evaluation order. */
+  matches: RuleMatch[];
+  /** The concatenated action pipeline, in execution order. */
+  actions: RuleAction[];
+}
+
+const ADDRESS_KEYS = ['from_contains', 'from_exact', 'to_contains', 'to_exact', 'cc_contains', 'cc_exact'] as const;
+const TEXT_KEYS = ['subject_contains', 'subject_regex', 'body_contains', 'body_regex'] as const;
+const LEAF_KEYS = new Set<string>([
+  ...ADDRESS_KEYS, ...TEXT_KEYS,
+  'header', 'spam_score_gte', 'spam_score_lt', 'route_class', 'has_attachment',
+]);
+const COMBINATOR_KEYS = new Set(['all', 'any', 'not']);
+const ACTION_TYPES: ReadonlySet<string> = new Set<RuleActionType>([
+  'tag', 'mark_read', 'move', 'delete', 'forward', 'auto_reply', 'assign_task',
+]);
+
+/** Upper bound on tree depth — a rule is config, not a program. */
+const MAX_CONDITION_DEPTH = 16;
+
+// ─── Evaluation ─────────────────────────────────────────────────────
+
+function addresses(list: { address?: string }[] | undefined): string[] {
+  return (list ?? []).map(a => (a.address ?? '').toLowerCase()).filter(Boolean);
+}
+
+function bodyText(email: RuleEmail): string {
+  if (email.text) return email.text;
+  // HTML-only mail: strip tags so `body_contains` sees the words, not markup.
+  return (email.html ?? '').replace(/<[^>]+>/g, ' ');
+}
+
+function headerValue(email: Pick<RuleEmail, 'headers' | 'headerLines'>, name: string): string | undefined {
+  const key = name.toLowerCase();
+  // Prefer the raw lines: mailparser's decoded map renames or merges
+  // several headers (List-* → `list`, X-Priority → `priority`), so a
+  // rule on `List-Id` would never see it there.
+  if (email.headerLines) {
+    const values = email.headerLines
+      .filter(h => h.key === key)
+      .map(h => h.line.slice(h.line.indexOf(':') + 1).replace(/\r?\n[ \t]+/g, ' ').trim());
+    return values.length > 0 ? values.join(', ') : undefined;
+  }
+  const raw = email.headers?.get(key) as unknown;
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw === 'string') return raw;
+  // mailparser decodes structured headers into objects; `text` or
+  // `value` carries the display form.
+  if (typeof raw === 'object') {
+    const r = raw as { text?: unknown; value?: unknown };
+    if (typeof r.text === 'string') return r.text;
+    if (typeof r.value === 'string') return r.value;
+    if (Array.isArray(raw)) return raw.map(String).join(', ');
+  }
+  return String(raw);
+}
+
+function safeRegex(pattern: unknown): RegExp | null {
+  if (typeof pattern !== 'string') return null;
+  try { return new RegExp(pattern, 'i'); } catch { return null; }
+}
+
+function matchesHeaderTest(email: RuleEmail, test: unknown): boolean {
+  if (!test || typeof test !== 'object') return false;
+  const t = test as { name?: unknown; contains?: unknown; equals?: unknown; regex?: unknown; exists?: unknown };
+  if (typeof t.name !== 'string' || !t.name) return false;
+  const value = headerValue(email, t.name);
+  if (t.exists !== undefined && (value !== undefined) !== (t.exists === true)) return false;
+  if (t.contains !== undefined && !(value ?? '').toLowerCase().includes(String(t.contains).toLowerCase())) return false;
+  if (t.equals !== undefined && (value ?? '').trim().toLowerCase() !== String(t.equals).trim().toLowerCase()) return false;
+  if (t.regex !== undefined) {
+    const re = safeRegex(t.regex);
+    if (!re || value === undefined || !re.test(value)) return false;
+  }
+  return true;
+}
+
+function matchesLeaf(key: string, expected: unknown, email: RuleEmail, ctx: RuleEvaluationContext): boolean {
+  switch (key) {
+    case 'from_contains':
+    case 'to_contains':
+    case 'cc_contains': {
+      const field = key.slice(0, key.indexOf('_')) as 'from' | 'to' | 'cc';
+      const needle = String(expected).toLowerCase();
+      return addresses(email[field]).some(a => a.includes(needle));
+    }
+    case 'from_exact':
+    case 'to_exact':
+    case 'cc_exact': {
+      const field = key.slice(0, key.indexOf('_')) as 'from' | 'to' | 'cc';
+      const needle = String(expected).toLowerCase();
+      return addresses(email[field]).some(a => a === needle);
+    }
+    case 'subject_contains':
+      return (email.subject ?? '').toLowerCase().includes(String(expected).toLowerCase());
+    case 'subject_regex': {
+      const re = safeRegex(expected);
+      return !!re && re.test(email.subject ?? '');
+    }
+    case 'body_contains':
+      return bodyText(email).toLowerCase().includes(String(expected).toLowerCase());
+    case 'body_regex': {
+      const re = safeRegex(expected);
+      return !!re && re.test(bodyText(email));
+    }
+    case 'header':
+      return Array.isArray(expected)
+        ? expected.every(t => matchesHeaderTest(email, t))
+        : matchesHeaderTest(email, expected);
+    case 'spam_score_gte':
+      return typeof ctx.spamScore === 'number' && ctx.spamScore >= Number(expected);
+    case 'spam_score_lt':
+      return typeof ctx.spamScore === 'number' && ctx.spamScore < Number(expected);
+    case 'route_class': {
+      if (!ctx.routeClass) return false;
+      const wanted = Array.isArray(expected) ? expected.map(String) : [String(expected)];
+      return wanted.includes(ctx.routeClass);
+    }
+    case 'has_attachment': {
+      const has = (email.attachments?.length ?? 0) > 0;
+      return expected === true ? has : expected === false ? !has : true;
+    }
+    default:
+      // Unknown keys fail closed. Validation rejects them on write, so
+      // this only triggers for rows hand-edited into the table.
+      return false;
+  }
+}
+
+/** Evaluate a condition tree against a message. */
+export function matchesConditions(
+  node: unknown,
+  email: RuleEmail,
+  ctx: RuleEvaluationContext = {},
+  depth = 0,
+): boolean {
+  if (depth > MAX_CONDITION_DEPTH) return false;
+  if (!node || typeof node !== 'object' || Array.isArray(node)) return false;
+  for (const [key, value] of Object.entries(node)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (key === 'all') {
+      if (!Array.isArray(value) || !value.every(n => matchesConditions(n, email, ctx, depth + 1))) return false;
+    } else if (key === 'any') {
+      if (!Array.isArray(value) || !value.some(n => matchesConditions(n, email, ctx, depth + 1))) return false;
+    } else if (key === 'not') {
+      if (matchesConditions(value, email, ctx, depth + 1)) return false;
+    } else if (!matchesLeaf(key, value, email, ctx)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Normalise a stored `actions` value into the ordered pipeline form. */
+export function normalizeRuleActions(raw: unknown): RuleAction[] {
+  if (Array.isArray(raw)) {
+    return raw.filter((a): a is RuleAction =>
+      !!a && typeof a === 'object' && ACTION_TYPES.has(String((a as { type?: unknown }).type)));
+  }
+  if (!raw || typeof raw !== 'object') return [];
+  const legacy = raw as { add_tags?: unknown; mark_read?: unknown; move_to?: unknown; delete?: unknown };
+  const out: RuleAction[] = [];
+  const tags = Array.isArray(legacy.add_tags)
+    ? legacy.add_tags.map(String).filter(Boolean)
+    : typeof legacy.add_tags === 'string' && legacy.add_tags ? [legacy.add_tags] : [];
+  if (tags.length > 0) out.push({ type: 'tag', tags });
+  if (legacy.mark_read) out.push({ type: 'mark_read' });
+  if (typeof legacy.move_to === 'string' && legacy.move_to) out.push({ type: 'move', folder: legacy.move_to });
+  if (legacy.delete) out.push({ type: 'delete' });
+  return out;
+}
+
+/**
+ * Run every enabled rule (highest priority first) against a message.
+ * Matching rules append their actions to the pipeline; a matching rule
+ * with `stop` set ends evaluation. Returns null when nothing matched.
+ */
+export function planRuleActions(
+  rules: EmailRule[],
+  email: RuleEmail,
+  ctx: RuleEvaluationContext = {},
+): RulePlan | null {
+  const ordered = [...rules].sort((a, b) => b.priority - a.priority);
+  const matches: RuleMatch[] = [];
+  for (const rule of ordered) {
+    if (!rule.enabled) continue;
+    if (!matchesConditions(rule.conditions, email, ctx)) continue;
+    matches.push({ ruleId: rule.id, ruleName: rule.name, actions: normalizeRuleActions(rule.actions), stop: rule.stop });
+    if (rule.stop) break;
+  }
+  if (matches.length === 0) return null;
+  return { matches, actions: matches.flatMap(m => m.actions) };
+}
+
+/** Decode an `email_rules` row into the engine's shape. */
+export function ruleFromRow(row: Record<string, any>): EmailRule {
+  const parse = (v: unknown, fallback: unknown) => {
+    if (typeof v !== 'string') return v ?? fallback;
+    try { return JSON.parse(v); } catch { return fallback; }
+  };
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    priority: Number(row.priority ?? 0),
+    enabled: row.enabled === 1 || row.enabled === true,
+    // Rows written before the `stop` column default to 1 — first match
+    // wins, same as the original engine.
+    stop: row.stop === undefined || row.stop === null ? true : row.stop === 1 || row.stop === true,
+    conditions: parse(row.conditions, {}) as RuleConditionNode,
+    actions: parse(row.actions, {}),
+  };
+}
+
+// ─── Inbound classification ────────────────────────────────────────
+
+type EmailRouteAccountContext = NonNullable<EmailRouteInput['account']>;
+
+export interface RuleInboundVerdict {
+  /** Agent-to-agent mail: spam filter skipped. */
+  internal: boolean;
+  spam?: SpamResult;
+  route: EmailRouteClassification;
+  context: RuleEvaluationContext;
+}
+
+/**
+ * Only the fields the route classifier reads. Avoids leaking the full
+ * agent.metadata blob (which can carry founder-set arbitrary keys)
+ * into event payloads via any classifier change that echoes its input.
+ */
+export function ruleAccountContext(agent: { name: string; email: string; role?: string; metadata?: unknown }): EmailRouteAccountContext {
+  const meta = agent.metadata && typeof agent.metadata === 'object' ? agent.metadata as Record<string, unknown> : undefined;
+  return {
+    name: agent.name,
+    email: agent.email,
+    role: agent.role,
+    metadata: meta
+      ? { emailRoutePolicy: meta.emailRoutePolicy, routePolicy: meta.routePolicy, mailboxPolicy: meta.mailboxPolicy }
+      : undefined,
+  };
+}
+
+/**
+ * The verdicts the SSE path computes before running rules. Relay-
+ * delivered mail carries X-AgenticMail-Relay — it is external mail
+ * rewritten with an @localhost From, so it is never treated as
+ * internal and always gets a spam score. `spamModel` is the agent's
+ * trained token stats (`SpamModel.forAgent`).
+ */
+export function classifyForRules(email: ParsedEmail, account: EmailRouteAccountContext, spamModel?: SpamTokenStats): RuleInboundVerdict {
+  const isRelay = !!email.headers.get('x-agenticmail-relay');
+  const internal = !isRelay && isInternalEmail(email);
+  if (internal) {
+    const route = classifyEmailRoute({ email, account });
+    return { internal, route, context: { routeClass: route.routeClass } };
+  }
+  const spam = scoreEmail(email, spamModel);
+  const route = classifyEmailRoute({ email, spam, account });
+  return { internal, spam, route, context: { spamScore: spam.score, routeClass: route.routeClass } };
+}
+
+/**
+ * Headers that mark a message as machine-generated. Auto-replies to
+ * these are how two vacation responders end up mailing each other
+ * forever (RFC 3834 §2).
+ */
+export function isAutomatedMessage(email: Pick<ParsedEmail, 'from' | 'headers' | 'headerLines'>): boolean {
+  const autoSubmitted = (headerValue(email, 'auto-submitted') ?? '').toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+  const precedence = (headerValue(email, 'precedence') ?? '').toLowerCase();
+  if (['bulk', 'list', 'junk'].includes(precedence)) return true;
+  if (headerValue(email, 'list-id') !== undefined || email.headers.get('list')) return true;
+  const from = (email.from[0]?.address ?? '').toLowerCase();
+  return /^(mailer-daemon|postmaster|no-?reply|do-?not-?reply)@/.test(from);
+}
+
+export interface RuleActionPreview {
+  type: RuleActionType;
+  wouldRun: boolean;
+  detail?: string;
+}
+
+/**
+ * Describe what the executor would do with a plan, without doing it.
+ * Mirrors the executor's ordering rules: flag/tag/move steps after a
+ * move are skipped, `delete` ends the pipeline, auto-replies skip
+ * automated senders and the agent's own address.
+ */
+export function previewRulePipeline(
+  plan: RulePlan,
+  email: Pick<ParsedEmail, 'from' | 'headers' | 'headerLines'>,
+  agentEmail: string,
+): RuleActionPreview[] {
+  const out: RuleActionPreview[] = [];
+  let folder: string | null = 'INBOX';
+  for (const action of plan.actions) {
+    switch (action.type) {
+      case 'tag':
+        out.push(folder ? { type: action.type, wouldRun: true, detail: action.tags.join(', ') } : { type: action.type, wouldRun: false, detail: 'message already moved' });
+        break;
+      case 'mark_read':
+        out.push(folder ? { type: action.type, wouldRun: true } : { type: action.type, wouldRun: false, detail: 'message already moved' });
+        break;
+      case 'move':
+        if (!folder) { out.push({ type: action.type, wouldRun: false, detail: 'message already moved' }); break; }
+        out.push({ type: action.type, wouldRun: true, detail: action.folder });
+        if (action.folder !== folder) folder = null;
+        break;
+      case 'delete':
+        out.push({ type: action.type, wouldRun: true });
+        return out;
+      case 'forward':
+        out.push({ type: action.type, wouldRun: true, detail: action.to });
+        break;
+      case 'auto_reply': {
+        const sender = (email.from[0]?.address ?? '').toLowerCase();
+        const skip = isAutomatedMessage(email) || !sender || sender === agentEmail.toLowerCase();
+        out.push(skip
+          ? { type: action.type, wouldRun: false, detail: 'skipped: automated sender' }
+          : { type: action.type, wouldRun: true, detail: `template ${action.template}` });
+        break;
+      }
+      case 'assign_task':
+        out.push({ type: action.type, wouldRun: true, detail: action.assignee });
+        break;
+    }
+  }
+  return out;
+}
+
+// ─── Validation ─────────────────────────────────────────────────────
+
+function validateConditionNode(node: unknown, path: string, errors: string[], depth: number): void {
+  if (depth > MAX_CONDITION_DEPTH) { errors.push(`${path}: nesting deeper than ${MAX_CONDITION_DEPTH}`); return; }
+  if (!node || typeof node !== 'object' || Array.isArray(node)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  for (const [key, value] of Object.entries(node)) {
+    const at = `${path}.${key}`;
+    if (key === 'all' || key === 'any') {
+      if (!Array.isArray(value)) { errors.push(`${at}: expected an array of conditions`); continue; }
+      value.forEach((n, i) => validateConditionNode(n, `${at}[${i}]`, errors, depth + 1));
+    } else if (key === 'not') {
+      validateConditionNode(value, at, errors, depth + 1);
+    } else if (!LEAF_KEYS.has(key)) {
+      errors.push(`${at}: unknown condition (expected one of ${[...COMBINATOR_KEYS, ...LEAF_KEYS].join(', ')})`);
+    } else if ((key === 'subject_regex' || key === 'body_regex') && !safeRegex(value)) {
+      errors.push(`${at}: invalid regular expression`);
+    } else if (key === 'header') {
+      const tests = Array.isArray(value) ? value : [value];
+      tests.forEach((t, i) => {
+        const hp = Array.isArray(value) ? `${at}[${i}]` : at;
+        if (!t || typeof t !== 'object' || typeof (t as any).name !== 'string' || !(t as any).name) {
+          errors.push(`${hp}: expected { name, contains? | equals? | regex? | exists? }`);
+        } else if ((t as any).regex !== undefined && !safeRegex((t as any).regex)) {
+          errors.push(`${hp}.regex: invalid regular expression`);
+        }
+      });
+    } else if ((key === 'spam_score_gte' || key === 'spam_score_lt') && !Number.isFinite(Number(value))) {
+      errors.push(`${at}: expected a number`);
+    } else if (key === 'has_attachment' && typeof value !== 'boolean') {
+      errors.push(`${at}: expected a boolean`);
+    }
+  }
+}
+
+function validateAction(action: unknown, path: string, errors: string[]): void {
+  if (!action || typeof action !== 'object') { errors.push(`${path}: expected an object`); return; }
+  const a = action as Record<string, unknown>;
+  if (!ACTION_TYPES.has(String(a.type))) {
+    errors.push(`${path}.type: expected one of ${[...ACTION_TYPES].join(', ')}`);
+    return;
+  }
+  switch (a.type) {
+    case 'tag':
+      if (!Array.isArray(a.tags) || a.tags.length === 0) errors.push(`${path}.tags: expected a non-empty array of tag names`);
+      break;
+    case 'move':
+      if (typeof a.folder !== 'string' || !a.folder) errors.push(`${path}.folder: required`);
+      break;
+    case 'forward':
+      if (typeof a.to !== 'string' || !a.to.includes('@')) errors.push(`${path}.to: expected an email address`);
+      break;
+    case 'auto_reply':
+      if (typeof a.template !== 'string' || !a.template) errors.push(`${path}.template: template id or name required`);
+      break;
+    case 'assign_task':
+      if (typeof a.assignee !== 'string' || !a.assignee) errors.push(`${path}.assignee: agent name required`);
+      break;
+  }
+}
+
+/**
+ * Check a rule body before it is stored. Returns a flat list of
+ * human-readable problems (empty when valid) so the API can hand the
+ * whole list back in one 400.
+ */
+export function validateRuleDefinition(def: { conditions?: unknown; actions?: unknown }): string[] {
+  const errors: string[] = [];
+  if (def.conditions !== undefined) validateConditionNode(def.conditions, 'conditions', errors, 0);
+  if (Array.isArray(def.actions)) {
+    def.actions.forEach((a, i) => validateAction(a, `actions[${i}]`, errors));
+  } else if (def.actions !== undefined && (typeof def.actions !== 'object' || def.actions === null)) {
+    errors.push('actions: expected an array of steps or an object');
+  }
+  return errors;
+}
@@ -0,0 +1,52 @@
+/**
+ * Mail merge helpers for campaigns: CSV recipient lists. Pure
+ * functions, no I/O. Campaign bodies are rendered with the template
+ * engine (template-engine.ts), one recipient's columns at a time.
+ */
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, `""` escapes, CRLF or LF,
+ * line breaks inside quotes) into one object per data row, keyed by
+ * the header row. Blank lines are skipped; missing trailing cells are
+ * empty strings. Throws on an unterminated quote or a blank header.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') cell += c;
+      else if (text[i + 1] === '"') { cell += '"'; i++; }
+      else quoted = false;
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) throw new Error('CSV has an unterminated quoted field');
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const data = rows.filter(r => r.some(v => v.trim() !== ''));
+  if (data.length === 0) return [];
+  const header = data[0].map(h => h.trim());
+  if (header.some(h => h === '')) throw new Error('CSV header has an empty column name');
+  return data.slice(1).map(r => Object.fromEntries(header.map((h, n) => [h, r[n] ?? ''])));
+}
@@ -0,0 +1,518 @@
+/**
+ * Recurrence for scheduled emails — RRULE (RFC 5545 subset) or
+ * five-field cron, evaluated in an IANA timezone, plus business-hours
+ * send windows.
+ *
+ * Everything is computed on local wall-clock fields and converted to
+ * UTC last, so "9am every weekday in Europe/Berlin" stays 9am across
+ * DST changes. A local time that doesn't exist (the spring-forward
+ * gap) is read with the offset in force before the jump, as RFC 5545
+ * §3.3.5 prescribes; an ambiguous one (fall-back) resolves to the
+ * first instance. Pure functions, no timers.
+ *
+ * # RRULE
+ *
+ * `FREQ=DAILY|WEEKLY|MONTHLY|YEARLY` with `INTERVAL`, `COUNT`,
+ * `UNTIL`, `BYDAY` (ordinals like `1MO` / `-1FR` in MONTHLY and in
+ * YEARLY with BYMONTH), `BYMONTHDAY` (negative counts from month end),
+ * `BYMONTH`, `BYHOUR`, `BYMINUTE`. DTSTART is the schedule's start
+ * time. Sub-daily frequencies are cron's job.
+ *
+ * # Cron
+ *
+ * `minute hour day-of-month month day-of-week` with `*`, lists,
+ * ranges, `/step`, month and weekday names, and the `@daily`-style
+ * macros. Day-of-month and day-of-week are ORed when both are
+ * restricted, like Vixie cron.
+ */
+
+export interface WallClock {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+type CalendarDate = Pick<WallClock, 'year' | 'month' | 'day'>;
+
+export interface CronSpec {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** `*` in the day-of-month field. */
+  anyDayOfMonth: boolean;
+  /** `*` in the day-of-week field. */
+  anyWeekday: boolean;
+}
+
+export interface RRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: { weekday: number; n?: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  byHour?: number[];
+  byMinute?: number[];
+}
+
+export type Recurrence =
+  | { kind: 'rrule'; source: string; rule: RRule }
+  | { kind: 'cron'; source: string; cron: CronSpec };
+
+export interface SendWindow {
+  /** Allowed weekdays, 0 = Sunday. */
+  days: number[];
+  /** "HH:MM", inclusive. */
+  start: string;
+  /** "HH:MM", exclusive. */
+  end: string;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** How far ahead a search may look before deciding a rule never fires. */
+const MAX_SEARCH_DAYS = 366 * 8 + 2;
+const MAX_RRULE_PERIODS = 50_000;
+
+// ─── Timezones ──────────────────────────────────────────────────────
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(tz: string): Intl.DateTimeFormat {
+  let f = formatters.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', weekday: 'short',
+    });
+    formatters.set(tz, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(tz: string): boolean {
+  try { formatter(tz); return true; } catch { return false; }
+}
+
+/** Local wall-clock fields of an instant in `tz` (seconds dropped). */
+export function toWallClock(date: Date, tz: string): WallClock {
+  const parts: Record<string, string> = {};
+  for (const p of formatter(tz).formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase().slice(0, 3)),
+  };
+}
+
+/** UTC offset of `tz` at an instant, in ms. */
+function offsetAt(ms: number, tz: string): number {
+  const w = toWallClock(new Date(ms), tz);
+  return Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute) - Math.floor(ms / 60_000) * 60_000;
+}
+
+/** The instant a local wall-clock time names in `tz`. */
+export function fromWallClock(w: Omit<WallClock, 'weekday'>, tz: string): Date {
+  const naive = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute);
+  // The offsets half a day either side bracket any transition.
+  const before = offsetAt(naive - 43_200_000, tz);
+  const after = offsetAt(naive + 43_200_000, tz);
+  const matches = [naive - before, naive - after].filter(t => {
+    const back = toWallClock(new Date(t), tz);
+    return back.year === w.year && back.month === w.month && back.day === w.day && back.hour === w.hour && back.minute === w.minute;
+  });
+  if (matches.length > 0) return new Date(Math.min(...matches));
+  return new Date(naive - before);
+}
+
+/**
+ * Read a naive ISO time ("2026-02-14T10:00", no Z or offset) as wall-clock
+ * time in `tz`. Returns null for anything else so the caller can fall back
+ * to another parser.
+ */
+export function parseLocalIso(input: string, tz: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/.exec(input.trim());
+  if (!m) return null;
+  return fromWallClock({ year: +m[1], month: +m[2], day: +m[3], hour: +m[4], minute: +m[5] }, tz);
+}
+
+// ─── Calendar helpers ───────────────────────────────────────────────
+
+function addDays(d: CalendarDate, n: number): CalendarDate {
+  const t = new Date(Date.UTC(d.year, d.month - 1, d.day + n));
+  return { year: t.getUTCFullYear(), month: t.getUTCMonth() + 1, day: t.getUTCDate() };
+}
+
+function weekdayOf(d: CalendarDate): number {
+  return new Date(Date.UTC(d.year, d.month - 1, d.day)).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function parseHHMM(value: unknown, field: string): { hour: number; minute: number } {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? ''));
+  if (!m || Number(m[1]) > 24 || Number(m[2]) > 59 || (Number(m[1]) === 24 && Number(m[2]) > 0)) {
+    throw new Error(`${field} must be HH:MM`);
+  }
+  return { hour: Number(m[1]), minute: Number(m[2]) };
+}
+
+// ─── Cron ───────────────────────────────────────────────────────────
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+function cronField(text: string, name: string, min: number, max: number, names?: string[]): number[] {
+  const out = new Set<number>();
+  const value = (v: string): number => {
+    const idx = names?.indexOf(v.toLowerCase()) ?? -1;
+    const n = idx >= 0 ? idx + min : /^\d+$/.test(v) ? Number(v) : NaN;
+    if (!Number.isInteger(n) || n < min || n > max) throw new Error(`cron ${name}: "${v}" is out of range ${min}-${max}`);
+    return n;
+  };
+  for (const part of text.split(',')) {
+    const m = /^(\*|[A-Za-z0-9]+(?:-[A-Za-z0-9]+)?)(?:\/(\d+))?$/.exec(part);
+    if (!m) throw new Error(`cron ${name}: cannot parse "${part}"`);
+    const step = m[2] ? Number(m[2]) : 1;
+    if (step < 1) throw new Error(`cron ${name}: step must be at least 1`);
+    let lo: number;
+    let hi: number;
+    if (m[1] === '*') { lo = min; hi = max; } else {
+      const [a, b] = m[1].split('-');
+      lo = value(a);
+      hi = b === undefined ? (m[2] ? max : lo) : value(b);
+      if (hi < lo) throw new Error(`cron ${name}: range "${m[1]}" runs backwards`);
+    }
+    for (let n = lo; n <= hi; n += step) out.add(n);
+  }
+  return [...out].sort((a, b) => a - b);
+}
+
+export function parseCron(expr: string): CronSpec {
+  const source = CRON_MACROS[expr.trim().toLowerCase()] ?? expr.trim();
+  const fields = source.split(/\s+/);
+  if (fields.length !== 5) throw new Error('cron expressions need five fields: minute hour day-of-month month day-of-week');
+  const [min, hour, dom, month, dow] = fields;
+  // Day-of-week accepts 0-7 with 7 meaning Sunday again.
+  const weekdays = cronField(dow, 'day-of-week', 0, 7, WEEKDAY_NAMES).map(d => d % 7);
+  return {
+    minutes: cronField(min, 'minute', 0, 59),
+    hours: cronField(hour, 'hour', 0, 23),
+    daysOfMonth: new Set(cronField(dom, 'day-of-month', 1, 31)),
+    months: new Set(cronField(month, 'month', 1, 12, MONTH_NAMES)),
+    weekdays: new Set(weekdays),
+    anyDayOfMonth: dom === '*',
+    anyWeekday: dow === '*',
+  };
+}
+
+function cronDayMatches(spec: CronSpec, d: CalendarDate): boolean {
+  if (!spec.months.has(d.month)) return false;
+  const domOk = spec.daysOfMonth.has(d.day);
+  const dowOk = spec.weekdays.has(weekdayOf(d));
+  if (spec.anyDayOfMonth && spec.anyWeekday) return true;
+  if (spec.anyDayOfMonth) return dowOk;
+  if (spec.anyWeekday) return domOk;
+  return domOk || dowOk;
+}
+
+/** First cron time strictly after `after`, or null if none within eight years. */
+export function nextCron(spec: CronSpec, after: Date, tz: string): Date | null {
+  const start = toWallClock(after, tz);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const d = addDays(start, i);
+    if (!cronDayMatches(spec, d)) continue;
+    for (const hour of spec.hours) {
+      for (const minute of spec.minutes) {
+        const t = fromWallClock({ ...d, hour, minute }, tz);
+        if (t.getTime() > after.getTime()) return t;
+      }
+    }
+  }
+  return null;
+}
+
+// ─── RRULE ──────────────────────────────────────────────────────────
+
+function intList(value: string, key: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(',').map(v => {
+    const n = Number(v);
+    const ok = Number.isInteger(n) && (allowNegative ? n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max : n >= min && n <= max);
+    if (!ok) throw new Error(`RRULE ${key}: "${v}" is out of range`);
+    return n;
+  });
+}
+
+function parseUntil(value: string): Date {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!m) throw new Error(`RRULE UNTIL: "${value}" is not a date (YYYYMMDD or YYYYMMDDTHHMMSSZ)`);
+  const [, y, mo, d, h, mi, s] = m;
+  // A bare date includes the whole day.
+  return h === undefined
+    ? new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), 23, 59, 59))
+    : new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)));
+}
+
+export function parseRRule(text: string): RRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+  for (const piece of body.split(';').filter(Boolean)) {
+    const eq = piece.indexOf('=');
+    if (eq <= 0) throw new Error(`RRULE: cannot parse "${piece}"`);
+    parts.set(piece.slice(0, eq).toUpperCase(), piece.slice(eq + 1).toUpperCase());
+  }
+  const freq = parts.get('FREQ');
+  if (!freq) throw new Error('RRULE: FREQ is required');
+  if (['HOURLY', 'MINUTELY', 'SECONDLY'].includes(freq)) throw new Error(`RRULE: FREQ=${freq} is not supported; use a cron expression`);
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) throw new Error(`RRULE: unknown FREQ "${freq}"`);
+  const rule: RRule = { freq: freq as RRule['freq'], interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = intList(value, key, 1, 1000)[0];
+        break;
+      case 'COUNT':
+        rule.count = intList(value, key, 1, 100_000)[0];
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(v => {
+          const m = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(v);
+          if (!m) throw new Error(`RRULE BYDAY: cannot parse "${v}"`);
+          const n = m[1] ? Number(m[1]) : undefined;
+          if (n !== undefined && (n === 0 || Math.abs(n) > 5)) throw new Error(`RRULE BYDAY: "${v}" is out of range`);
+          return n === undefined ? { weekday: WEEKDAY_CODES.indexOf(m[2]) } : { weekday: WEEKDAY_CODES.indexOf(m[2]), n };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = intList(value, key, 1, 31, true);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = intList(value, key, 1, 12);
+        break;
+      case 'BYHOUR':
+        rule.byHour = intList(value, key, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = intList(value, key, 0, 59);
+        break;
+      case 'BYSECOND':
+        if (value !== '0') throw new Error('RRULE BYSECOND: only 0 is supported');
+        break;
+      case 'WKST':
+        if (value !== 'MO') throw new Error('RRULE WKST: only MO is supported');
+        break;
+      default:
+        throw new Error(`RRULE: ${key} is not supported`);
+    }
+  }
+  if (rule.count !== undefined && rule.until) throw new Error('RRULE: COUNT and UNTIL cannot both be set');
+  const ordinal = rule.byDay?.some(d => d.n !== undefined);
+  if (ordinal && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    throw new Error(`RRULE BYDAY: ordinals like 1MO need FREQ=MONTHLY or YEARLY`);
+  }
+  if (ordinal && rule.freq === 'YEARLY' && !rule.byMonth) {
+    throw new Error('RRULE BYDAY: ordinals in FREQ=YEARLY need BYMONTH');
+  }
+  return rule;
+}
+
+/** Days of one month a MONTHLY/YEARLY rule selects, ascending. */
+function monthDays(rule: RRule, year: number, month: number, fallbackDay: number): number[] {
+  const last = daysInMonth(year, month);
+  let days: number[] | null = null;
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay.map(d => d > 0 ? d : last + d + 1).filter(d => d >= 1 && d <= last);
+  }
+  if (rule.byDay) {
+    const picked: number[] = [];
+    for (const { weekday, n } of rule.byDay) {
+      const all: number[] = [];
+      for (let d = 1; d <= last; d++) if (weekdayOf({ year, month, day: d }) === weekday) all.push(d);
+      if (n === undefined) picked.push(...all);
+      else {
+        const day = n > 0 ? all[n - 1] : all[all.length + n];
+        if (day !== undefined) picked.push(day);
+      }
+    }
+    days = days ? days.filter(d => picked.includes(d)) : picked;
+  }
+  if (!days) days = fallbackDay <= last ? [fallbackDay] : [];
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/** Candidate dates of the k-th period, ascending. */
+function periodDates(rule: RRule, s: WallClock, k: number): CalendarDate[] {
+  const step = k * rule.interval;
+  const inMonths = (d: CalendarDate) => !rule.byMonth || rule.byMonth.includes(d.month);
+  const weekdays = rule.byDay?.map(d => d.weekday);
+  switch (rule.freq) {
+    case 'DAILY': {
+      const d = addDays(s, step);
+      if (!inMonths(d)) return [];
+      if (weekdays && !weekdays.includes(weekdayOf(d))) return [];
+      if (rule.byMonthDay && !monthDays({ ...rule, byDay: undefined }, d.year, d.month, d.day).includes(d.day)) return [];
+      return [d];
+    }
+    case 'WEEKLY': {
+      const monday = addDays(s, -((s.weekday + 6) % 7) + step * 7);
+      const wanted = weekdays ?? [s.weekday];
+      const out: CalendarDate[] = [];
+      for (let i = 0; i < 7; i++) {
+        const d = addDays(monday, i);
+        if (wanted.includes(weekdayOf(d)) && inMonths(d)) out.push(d);
+      }
+      return out;
+    }
+    case 'MONTHLY': {
+      const index = (s.year * 12 + s.month - 1) + step;
+      const year = Math.floor(index / 12);
+      const month = (index % 12) + 1;
+      if (rule.byMonth && !rule.byMonth.includes(month)) return [];
+      return monthDays(rule, year, month, s.day).map(day => ({ year, month, day }));
+    }
+    case 'YEARLY': {
+      const year = s.year + step;
+      const months = rule.byMonth ?? (rule.byDay || rule.byMonthDay ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] : [s.month]);
+      return [...months].sort((a, b) => a - b)
+        .flatMap(month => monthDays(rule, year, month, s.day).map(day => ({ year, month, day })));
+    }
+  }
+}
+
+/** Occurrences of `rule` from `dtstart`, in order, honouring COUNT/UNTIL. */
+export function* iterateRRule(rule: RRule, dtstart: Date, tz: string): Generator<Date> {
+  const s = toWallClock(dtstart, tz);
+  const hours = [...(rule.byHour ?? [s.hour])].sort((a, b) => a - b);
+  const minutes = [...(rule.byMinute ?? [s.minute])].sort((a, b) => a - b);
+  let emitted = 0;
+  for (let k = 0; k < MAX_RRULE_PERIODS; k++) {
+    for (const d of periodDates(rule, s, k)) {
+      for (const hour of hours) {
+        for (const minute of minutes) {
+          const t = fromWallClock({ ...d, hour, minute }, tz);
+          if (t.getTime() < dtstart.getTime()) continue;
+          if (rule.until && t.getTime() > rule.until.getTime()) return;
+          yield t;
+          if (rule.count !== undefined && ++emitted >= rule.count) return;
+        }
+      }
+    }
+  }
+}
+
+// ─── Public surface ─────────────────────────────────────────────────
+
+/** Parse a recurrence string — RRULE when it names a FREQ, cron otherwise. */
+export function parseRecurrence(text: string): Recurrence {
+  const source = text.trim();
+  if (!source) throw new Error('recurrence is empty');
+  if (/^(RRULE:)?FREQ=|;\s*FREQ=|^[A-Z]+=[^;]*;/i.test(source)) {
+    return { kind: 'rrule', source, rule: parseRRule(source) };
+  }
+  return { kind: 'cron', source, cron: parseCron(source) };
+}
+
+export interface OccurrenceQuery {
+  /** Series start (RRULE DTSTART; cron never fires before it). */
+  start: Date;
+  tz: string;
+  /** Return occurrences strictly after this instant. */
+  after: Date;
+}
+
+/** The next `limit` occurrences after `q.after`. */
+export function upcomingOccurrences(rec: Recurrence, q: OccurrenceQuery, limit: number): Date[] {
+  const out: Date[] = [];
+  if (rec.kind === 'cron') {
+    let cursor = new Date(Math.max(q.after.getTime(), q.start.getTime() - 1));
+    while (out.length < limit) {
+      const next = nextCron(rec.cron, cursor, q.tz);
+      if (!next) break;
+      out.push(next);
+      cursor = next;
+    }
+    return out;
+  }
+  for (const t of iterateRRule(rec.rule, q.start, q.tz)) {
+    if (t.getTime() <= q.after.getTime()) continue;
+    out.push(t);
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+export function nextOccurrence(rec: Recurrence, q: OccurrenceQuery): Date | null {
+  return upcomingOccurrences(rec, q, 1)[0] ?? null;
+}
+
+/**
+ * Validate a send window: `{ days?: ["mon", …] | [1, …], start: "09:00",
+ * end: "17:00" }`. Days default to every day.
+ */
+export function parseSendWindow(raw: unknown): SendWindow {
+  if (!raw || typeof raw !== 'object') throw new Error('sendWindow must be an object { days?, start, end }');
+  const r = raw as { days?: unknown; start?: unknown; end?: unknown };
+  const start = parseHHMM(r.start, 'sendWindow.start');
+  const end = parseHHMM(r.end, 'sendWindow.end');
+  if (end.hour * 60 + end.minute <= start.hour * 60 + start.minute) {
+    throw new Error('sendWindow.end must be later than sendWindow.start');
+  }
+  let days = [0, 1, 2, 3, 4, 5, 6];
+  if (r.days !== undefined) {
+    if (!Array.isArray(r.days) || r.days.length === 0) throw new Error('sendWindow.days must be a non-empty array');
+    days = [...new Set(r.days.map(d => {
+      const n = typeof d === 'number' ? d : WEEKDAY_NAMES.indexOf(String(d).toLowerCase().slice(0, 3));
+      if (!Number.isInteger(n) || n < 0 || n > 6) throw new Error(`sendWindow.days: "${d}" is not a weekday`);
+      return n;
+    }))].sort((a, b) => a - b);
+  }
+  const hhmm = (t: { hour: number; minute: number }) => `${String(t.hour).padStart(2, '0')}:${String(t.minute).padStart(2, '0')}`;
+  return { days, start: hhmm(start), end: hhmm(end) };
+}
+
+/** The earliest instant at or after `date` that falls inside the window. */
+export function applySendWindow(date: Date, window: SendWindow, tz: string): Date {
+  const local = toWallClock(date, tz);
+  const start = parseHHMM(window.start, 'start');
+  const end = parseHHMM(window.end, 'end');
+  for (let i = 0; i < 8; i++) {
+    const d = addDays(local, i);
+    if (!window.days.includes(weekdayOf(d))) continue;
+    const open = fromWallClock({ ...d, ...start }, tz);
+    const close = end.hour === 24
+      ? fromWallClock({ ...addDays(d, 1), hour: 0, minute: 0 }, tz)
+      : fromWallClock({ ...d, ...end }, tz);
+    if (date.getTime() < open.getTime()) return open;
+    if (date.getTime() < close.getTime()) return date;
+  }
+  // Unreachable for a validated window (at least one day, start < end).
+  return date;
+}
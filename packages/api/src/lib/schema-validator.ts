@@ -15,6 +15,9 @@
  *   - `minLength` / `maxLength` (strings)
  *   - `minimum` / `maximum` (numbers)
  *
+ * `default` is carried for callers that fill in missing values (email
+ * templates do); it is not checked here.
+ *
  * Anything else in the schema is ignored — so a richer schema
  * still validates against the supported subset rather than
  * crashing. The error list returned is a flat array of `{ path,
@@ -33,6 +36,7 @@ export interface Schema {
   maxLength?: number;
   minimum?: number;
   maximum?: number;
+  default?: unknown;
 }
 
 export interface ValidationError {
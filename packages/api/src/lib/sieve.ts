@@ -0,0 +1,1038 @@
+/**
+ * Sieve (RFC 5228) ⇄ `email_rules` translation.
+ *
+ * Agents migrated from an existing mailbox usually arrive with a Sieve
+ * script. This module maps the subset of Sieve that the rule engine in
+ * `email-rules.ts` can express, in both directions:
+ *
+ *   - tests: `address`, `envelope`, `header`, `exists`, `body`,
+ *     `allof`, `anyof`, `not`, `true`, `false`
+ *   - actions: `fileinto`, `addflag`, `redirect`, `vacation`,
+ *     `discard`, `keep`, `stop`
+ *   - extensions: fileinto, imap4flags, copy, vacation, body, regex,
+ *     mime (attachment test only), envelope
+ *
+ * Import never guesses. Anything it cannot translate faithfully is a
+ * `{ line, message }` error and the script is rejected as a whole;
+ * translations that are close but looser than the original (an
+ * `:domain` test becoming a substring match, say) are warnings.
+ *
+ * Export writes one `if` block per rule, preceded by `# rule:` and
+ * `# priority:` comments that import reads back, so export → import
+ * round-trips names, order, `stop` and `enabled` (a disabled rule is
+ * exported as `if allof (false, …)`). Rules using features Sieve has
+ * no word for (spam score, route class, task assignment) are left out
+ * with a `# skipped` comment naming the reason.
+ *
+ * Pure functions only — the route resolves auto-reply templates.
+ */
+
+import {
+  normalizeRuleActions,
+  type EmailRule,
+  type RuleAction,
+  type RuleConditionNode,
+} from './email-rules.js';
+
+export interface SieveProblem {
+  line: number;
+  message: string;
+}
+
+/** A `vacation` step before the route has turned it into a template. */
+export interface SieveVacation {
+  type: 'vacation';
+  subject?: string;
+  reason: string;
+}
+
+export type SieveImportedAction = RuleAction | SieveVacation;
+
+export interface SieveImportedRule {
+  /** Line of the `if` (or first command) the rule came from. */
+  line: number;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  stop: boolean;
+  conditions: RuleConditionNode;
+  actions: SieveImportedAction[];
+}
+
+export interface SieveImportResult {
+  rules: SieveImportedRule[];
+  errors: SieveProblem[];
+  warnings: SieveProblem[];
+}
+
+export interface SieveExportTemplate {
+  subject?: string | null;
+  text?: string | null;
+}
+
+export interface SieveExportOptions {
+  /** Comment lines written at the top of the script. */
+  header?: string[];
+  /** Look up an auto-reply template by id or name. */
+  resolveTemplate?: (ref: string) => SieveExportTemplate | undefined;
+}
+
+export interface SieveExportResult {
+  script: string;
+  skipped: { id: string; name: string; reason: string }[];
+}
+
+const SUPPORTED_CAPABILITIES = new Set([
+  'fileinto', 'imap4flags', 'copy', 'vacation', 'body', 'regex', 'mime', 'envelope',
+  'comparator-i;ascii-casemap', 'comparator-i;octet',
+]);
+
+/** Fixed order for the `require` line so exports diff cleanly. */
+const CAPABILITY_ORDER = ['fileinto', 'imap4flags', 'copy', 'vacation', 'body', 'regex', 'mime'];
+
+// ─── Export ─────────────────────────────────────────────────────────
+
+class Untranslatable extends Error {}
+
+function quote(value: unknown): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function stringList(values: string[]): string {
+  return values.length === 1 ? quote(values[0]) : `[${values.map(quote).join(', ')}]`;
+}
+
+function allOf(tests: string[]): string {
+  if (tests.length === 0) return 'true';
+  return tests.length === 1 ? tests[0] : `allof (${tests.join(', ')})`;
+}
+
+function headerTestToSieve(test: unknown, needs: Set<string>): string[] {
+  if (!test || typeof test !== 'object') throw new Untranslatable('malformed header test');
+  const t = test as { name?: unknown; contains?: unknown; equals?: unknown; regex?: unknown; exists?: unknown };
+  if (typeof t.name !== 'string' || !t.name) throw new Untranslatable('header test without a name');
+  const parts: string[] = [];
+  if (t.exists !== undefined) parts.push(t.exists === true ? `exists ${quote(t.name)}` : `not exists ${quote(t.name)}`);
+  if (t.contains !== undefined) parts.push(`header :contains ${quote(t.name)} ${quote(t.contains)}`);
+  if (t.equals !== undefined) parts.push(`header :is ${quote(t.name)} ${quote(String(t.equals).trim())}`);
+  if (t.regex !== undefined) {
+    needs.add('regex');
+    parts.push(`header :regex ${quote(t.name)} ${quote(t.regex)}`);
+  }
+  return parts;
+}
+
+function conditionToSieve(node: unknown, needs: Set<string>): string {
+  return allOf(conjuncts(node, needs));
+}
+
+/**
+ * The ANDed tests of a node, flattened: nested `all` lists and header
+ * arrays are spliced in so the script reads `allof (a, b, c)` rather
+ * than `allof (allof (a, b), c)` — the same shape import produces.
+ */
+function conjuncts(node: unknown, needs: Set<string>): string[] {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) throw new Untranslatable('malformed condition');
+  const tests: string[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (value === undefined || value === null || value === '') continue;
+    switch (key) {
+      case 'all':
+        if (!Array.isArray(value)) throw new Untranslatable('`all` is not an array');
+        tests.push(...value.flatMap(n => conjuncts(n, needs)));
+        break;
+      case 'any':
+        if (!Array.isArray(value)) throw new Untranslatable('`any` is not an array');
+        tests.push(value.length === 0 ? 'false'
+          : value.length === 1 ? conditionToSieve(value[0], needs)
+          : `anyof (${value.map(n => conditionToSieve(n, needs)).join(', ')})`);
+        break;
+      case 'not':
+        tests.push(`not ${conditionToSieve(value, needs)}`);
+        break;
+      case 'from_contains': case 'to_contains': case 'cc_contains':
+        tests.push(`address :contains ${quote(key.slice(0, key.indexOf('_')))} ${quote(value)}`);
+        break;
+      case 'from_exact': case 'to_exact': case 'cc_exact':
+        tests.push(`address :is ${quote(key.slice(0, key.indexOf('_')))} ${quote(value)}`);
+        break;
+      case 'subject_contains':
+        tests.push(`header :contains "subject" ${quote(value)}`);
+        break;
+      case 'subject_regex':
+        needs.add('regex');
+        tests.push(`header :regex "subject" ${quote(value)}`);
+        break;
+      case 'body_contains':
+        needs.add('body');
+        tests.push(`body :text :contains ${quote(value)}`);
+        break;
+      case 'body_regex':
+        needs.add('body');
+        needs.add('regex');
+        tests.push(`body :text :regex ${quote(value)}`);
+        break;
+      case 'header':
+        tests.push(...(Array.isArray(value) ? value : [value]).flatMap(t => headerTestToSieve(t, needs)));
+        break;
+      case 'has_attachment': {
+        if (typeof value !== 'boolean') break;
+        needs.add('mime');
+        const test = 'header :mime :anychild :contains "Content-Disposition" "attachment"';
+        tests.push(value ? test : `not ${test}`);
+        break;
+      }
+      case 'spam_score_gte':
+      case 'spam_score_lt':
+      case 'route_class':
+        throw new Untranslatable(`${key} has no Sieve equivalent`);
+      default:
+        throw new Untranslatable(`unknown condition ${key}`);
+    }
+  }
+  return tests;
+}
+
+function actionsToSieve(actions: RuleAction[], needs: Set<string>, opts: SieveExportOptions): string[] {
+  const lines: string[] = [];
+  for (const action of actions) {
+    switch (action.type) {
+      case 'tag':
+        needs.add('imap4flags');
+        lines.push(`addflag ${stringList(action.tags)};`);
+        break;
+      case 'mark_read':
+        needs.add('imap4flags');
+        lines.push('addflag "\\\\Seen";');
+        break;
+      case 'move':
+        needs.add('fileinto');
+        lines.push(`fileinto ${quote(action.folder)};`);
+        break;
+      case 'delete':
+        lines.push('discard;');
+        break;
+      case 'forward':
+        // Our forward keeps the original, which is `redirect :copy`.
+        needs.add('copy');
+        if (action.note) lines.push(`# forward note not exported: ${action.note.replace(/\s+/g, ' ')}`);
+        lines.push(`redirect :copy ${quote(action.to)};`);
+        break;
+      case 'auto_reply': {
+        if (action.variables && Object.keys(action.variables).length > 0) {
+          throw new Untranslatable('auto_reply variables have no Sieve equivalent');
+        }
+        const template = opts.resolveTemplate?.(action.template);
+        if (!template) throw new Untranslatable(`auto_reply template "${action.template}" not found`);
+        if (!template.text) throw new Untranslatable(`auto_reply template "${action.template}" has no text body`);
+        needs.add('vacation');
+        lines.push(template.subject
+          ? `vacation :subject ${quote(template.subject)} ${quote(template.text)};`
+          : `vacation ${quote(template.text)};`);
+        break;
+      }
+      case 'assign_task':
+        throw new Untranslatable('assign_task has no Sieve equivalent');
+    }
+  }
+  return lines;
+}
+
+/**
+ * Render rules as a Sieve script. `rules` may be in any order; they are
+ * written in evaluation order (priority, highest first).
+ */
+export function rulesToSieve(rules: EmailRule[], opts: SieveExportOptions = {}): SieveExportResult {
+  const needs = new Set<string>();
+  const blocks: string[] = [];
+  const skipped: SieveExportResult['skipped'] = [];
+  const oneLine = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+  for (const rule of [...rules].sort((a, b) => b.priority - a.priority)) {
+    const ruleNeeds = new Set<string>();
+    try {
+      const test = conditionToSieve(rule.conditions, ruleNeeds);
+      const body = actionsToSieve(normalizeRuleActions(rule.actions), ruleNeeds, opts);
+      if (rule.stop) body.push('stop;');
+      blocks.push([
+        `# rule: ${oneLine(rule.name)}`,
+        `# priority: ${rule.priority}`,
+        `if ${rule.enabled ? test : `allof (false, ${test})`} {`,
+        ...body.map(l => `    ${l}`),
+        '}',
+      ].join('\n'));
+      ruleNeeds.forEach(n => needs.add(n));
+    } catch (err) {
+      if (!(err instanceof Untranslatable)) throw err;
+      skipped.push({ id: rule.id, name: rule.name, reason: err.message });
+      blocks.push(`# skipped rule "${oneLine(rule.name)}": ${err.message}`);
+    }
+  }
+
+  const out: string[] = (opts.header ?? []).map(h => `# ${oneLine(h)}`);
+  const capabilities = CAPABILITY_ORDER.filter(c => needs.has(c));
+  if (capabilities.length > 0) out.push(`require [${capabilities.map(quote).join(', ')}];`);
+  if (out.length > 0) out.push('');
+  out.push(blocks.join('\n\n'));
+  return { script: `${out.join('\n')}\n`, skipped };
+}
+
+// ─── Lexer ──────────────────────────────────────────────────────────
+
+type Token =
+  | { kind: 'ident'; value: string; line: number }
+  | { kind: 'tag'; value: string; line: number }
+  | { kind: 'string'; value: string; line: number }
+  | { kind: 'number'; value: number; line: number }
+  | { kind: 'punct'; value: string; line: number }
+  | { kind: 'comment'; value: string; line: number };
+
+class SieveSyntaxError extends Error {
+  constructor(readonly line: number, message: string) { super(message); }
+}
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '\n') { line++; i++; continue; }
+    if (ch === ' ' || ch === '\t' || ch === '\r') { i++; continue; }
+    if (ch === '#') {
+      const end = src.indexOf('\n', i);
+      const stop = end === -1 ? src.length : end;
+      tokens.push({ kind: 'comment', value: src.slice(i + 1, stop).trim(), line });
+      i = stop;
+      continue;
+    }
+    if (ch === '/' && src[i + 1] === '*') {
+      const end = src.indexOf('*/', i + 2);
+      if (end === -1) throw new SieveSyntaxError(line, 'unterminated /* comment');
+      line += (src.slice(i, end).match(/\n/g) ?? []).length;
+      i = end + 2;
+      continue;
+    }
+    if (ch === '"') {
+      const start = line;
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= src.length) throw new SieveSyntaxError(start, 'unterminated string');
+        const c = src[i];
+        if (c === '"') { i++; break; }
+        if (c === '\\' && i + 1 < src.length) { value += src[i + 1]; i += 2; continue; }
+        if (c === '\n') line++;
+        if (c !== '\r') value += c;
+        i++;
+      }
+      tokens.push({ kind: 'string', value, line: start });
+      continue;
+    }
+    if (src.startsWith('text:', i)) {
+      // Multi-line string: everything up to a line holding a lone ".".
+      const start = line;
+      const eol = src.indexOf('\n', i);
+      if (eol === -1) throw new SieveSyntaxError(start, 'unterminated text: block');
+      i = eol + 1;
+      line++;
+      const lines: string[] = [];
+      for (;;) {
+        if (i >= src.length) throw new SieveSyntaxError(start, 'unterminated text: block');
+        const next = src.indexOf('\n', i);
+        const raw = src.slice(i, next === -1 ? src.length : next).replace(/\r$/, '');
+        i = next === -1 ? src.length : next + 1;
+        line++;
+        if (raw === '.') break;
+        lines.push(raw.startsWith('..') ? raw.slice(1) : raw);
+      }
+      tokens.push({ kind: 'string', value: lines.join('\n'), line: start });
+      continue;
+    }
+    if (ch === ':' && /[A-Za-z_]/.test(src[i + 1] ?? '')) {
+      const m = /^:[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i))!;
+      tokens.push({ kind: 'tag', value: m[0].slice(1).toLowerCase(), line });
+      i += m[0].length;
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      const m = /^([0-9]+)([KkMmGg])?/.exec(src.slice(i))!;
+      const unit = { k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[(m[2] ?? '').toLowerCase() as 'k' | 'm' | 'g'] ?? 1;
+      tokens.push({ kind: 'number', value: Number(m[1]) * unit, line });
+      i += m[0].length;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i))!;
+      tokens.push({ kind: 'ident', value: m[0].toLowerCase(), line });
+      i += m[0].length;
+      continue;
+    }
+    if ('[](){},;'.includes(ch)) {
+      tokens.push({ kind: 'punct', value: ch, line });
+      i++;
+      continue;
+    }
+    throw new SieveSyntaxError(line, `unexpected character "${ch}"`);
+  }
+  return tokens;
+}
+
+// ─── Parser ─────────────────────────────────────────────────────────
+
+type SieveArg =
+  | { kind: 'tag'; name: string; line: number }
+  | { kind: 'strings'; values: string[]; line: number }
+  | { kind: 'number'; value: number; line: number };
+
+interface SieveTest {
+  name: string;
+  args: SieveArg[];
+  tests: SieveTest[];
+  line: number;
+}
+
+interface SieveCommand {
+  name: string;
+  args: SieveArg[];
+  tests: SieveTest[];
+  block: SieveCommand[] | null;
+  line: number;
+  /** Comments between the previous command and this one. */
+  comments: string[];
+}
+
+class Parser {
+  private pos = 0;
+  private comments: string[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token | undefined {
+    while (this.tokens[this.pos]?.kind === 'comment') {
+      this.comments.push(this.tokens[this.pos].value as string);
+      this.pos++;
+    }
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const t = this.peek();
+    if (!t) throw new SieveSyntaxError(this.tokens[this.tokens.length - 1]?.line ?? 1, 'unexpected end of script');
+    this.pos++;
+    return t;
+  }
+
+  private isPunct(value: string): boolean {
+    const t = this.peek();
+    return t?.kind === 'punct' && t.value === value;
+  }
+
+  private expectPunct(value: string): void {
+    const t = this.next();
+    if (t.kind !== 'punct' || t.value !== value) throw new SieveSyntaxError(t.line, `expected "${value}"`);
+  }
+
+  atEnd(): boolean {
+    return this.peek() === undefined;
+  }
+
+  /**
+   * Parse the whole script. A command that fails to parse is recorded
+   * and skipped so one typo doesn't hide every other problem.
+   */
+  parseScript(errors: SieveProblem[]): SieveCommand[] {
+    const commands: SieveCommand[] = [];
+    while (!this.atEnd()) {
+      const start = this.pos;
+      try {
+        commands.push(this.parseCommand());
+      } catch (err) {
+        if (!(err instanceof SieveSyntaxError)) throw err;
+        errors.push({ line: err.line, message: err.message });
+        this.recover(start);
+      }
+    }
+    return commands;
+  }
+
+  private recover(from: number): void {
+    // Skip the failed command: up to its ";" or its closing "}", plus
+    // any elsif/else that hung off it.
+    this.pos = from;
+    let depth = 0;
+    while (this.pos < this.tokens.length) {
+      const t = this.tokens[this.pos++];
+      if (t.kind !== 'punct') continue;
+      if (t.value === '{') depth++;
+      else if (t.value === '}' && depth > 0 && --depth === 0) break;
+      else if (t.value === ';' && depth === 0) break;
+    }
+    const t = this.peek();
+    if (t?.kind === 'ident' && (t.value === 'elsif' || t.value === 'else')) this.recover(this.pos);
+    this.comments = [];
+  }
+
+  private parseCommand(): SieveCommand {
+    this.peek();
+    const comments = this.comments;
+    this.comments = [];
+    const t = this.next();
+    if (t.kind !== 'ident') throw new SieveSyntaxError(t.line, 'expected a command');
+    const { args, tests } = this.parseArguments();
+    let block: SieveCommand[] | null = null;
+    if (this.isPunct('{')) {
+      this.next();
+      block = [];
+      while (!this.isPunct('}')) {
+        if (this.atEnd()) throw new SieveSyntaxError(t.line, `unclosed block for "${t.value}"`);
+        block.push(this.parseCommand());
+      }
+      this.next();
+      // Trailing comments inside the block belong to nothing.
+      this.comments = [];
+    } else {
+      this.expectPunct(';');
+    }
+    return { name: t.value, args, tests, block, line: t.line, comments };
+  }
+
+  private parseArguments(): { args: SieveArg[]; tests: SieveTest[] } {
+    const args: SieveArg[] = [];
+    for (;;) {
+      const t = this.peek();
+      if (!t) break;
+      if (t.kind === 'tag') { this.next(); args.push({ kind: 'tag', name: t.value, line: t.line }); continue; }
+      if (t.kind === 'number') { this.next(); args.push({ kind: 'number', value: t.value, line: t.line }); continue; }
+      if (t.kind === 'string') { this.next(); args.push({ kind: 'strings', values: [t.value], line: t.line }); continue; }
+      if (t.kind === 'punct' && t.value === '[') { args.push(this.parseStringList()); continue; }
+      break;
+    }
+    const tests: SieveTest[] = [];
+    const t = this.peek();
+    if (t?.kind === 'ident') {
+      tests.push(this.parseTest());
+    } else if (t?.kind === 'punct' && t.value === '(') {
+      this.next();
+      tests.push(this.parseTest());
+      while (this.isPunct(',')) { this.next(); tests.push(this.parseTest()); }
+      this.expectPunct(')');
+    }
+    return { args, tests };
+  }
+
+  private parseStringList(): SieveArg {
+    const open = this.next();
+    const values: string[] = [];
+    for (;;) {
+      const t = this.next();
+      if (t.kind !== 'string') throw new SieveSyntaxError(t.line, 'expected a string in list');
+      values.push(t.value);
+      if (this.isPunct(',')) { this.next(); continue; }
+      this.expectPunct(']');
+      break;
+    }
+    return { kind: 'strings', values, line: open.line };
+  }
+
+  private parseTest(): SieveTest {
+    const t = this.next();
+    if (t.kind !== 'ident') throw new SieveSyntaxError(t.line, 'expected a test');
+    const { args, tests } = this.parseArguments();
+    return { name: t.value, args, tests, line: t.line };
+  }
+}
+
+// ─── Import ─────────────────────────────────────────────────────────
+
+type MatchType = 'is' | 'contains' | 'matches' | 'regex';
+
+interface TestArgs {
+  match: MatchType;
+  tags: Set<string>;
+  positional: SieveArg[];
+}
+
+/** `vacation` tags that take a value, so the value isn't mistaken for the reason. */
+const VACATION_VALUE_TAGS = new Set(['days', 'seconds', 'subject', 'from', 'addresses', 'handle']);
+
+class Importer {
+  readonly errors: SieveProblem[] = [];
+  readonly warnings: SieveProblem[] = [];
+
+  private fail(line: number, message: string): null {
+    this.errors.push({ line, message });
+    return null;
+  }
+
+  private warn(line: number, message: string): void {
+    this.warnings.push({ line, message });
+  }
+
+  /** Split a test's arguments into match type, other tags and positionals. */
+  private testArgs(test: SieveTest, allowed: string[]): TestArgs | null {
+    let match: MatchType = 'is';
+    const tags = new Set<string>();
+    const positional: SieveArg[] = [];
+    for (let i = 0; i < test.args.length; i++) {
+      const arg = test.args[i];
+      if (arg.kind !== 'tag') { positional.push(arg); continue; }
+      if (['is', 'contains', 'matches', 'regex'].includes(arg.name)) {
+        match = arg.name as MatchType;
+      } else if (arg.name === 'comparator') {
+        const value = test.args[++i];
+        const name = value?.kind === 'strings' ? value.values[0].toLowerCase() : '';
+        if (name !== 'i;ascii-casemap') {
+          return this.fail(arg.line, `comparator "${name}" is not supported (rules always compare case-insensitively)`);
+        }
+      } else if (allowed.includes(arg.name)) {
+        tags.add(arg.name);
+      } else {
+        return this.fail(arg.line, `"${test.name}" does not support :${arg.name}`);
+      }
+    }
+    if (match === 'regex' && test.name === 'address') {
+      return this.fail(test.line, 'address :regex is not supported; use header :regex on the field');
+    }
+    return { match, tags, positional };
+  }
+
+  private strings(test: SieveTest, args: SieveArg[], count: number): string[][] | null {
+    if (args.length !== count || args.some(a => a.kind !== 'strings')) {
+      return this.fail(test.line, `"${test.name}" expects ${count === 1 ? 'one string list' : `${count} string lists`}`);
+    }
+    return args.map(a => (a as { values: string[] }).values);
+  }
+
+  /** Convert a `:matches` glob to an anchored regular expression. */
+  private globToRegex(glob: string): string {
+    let out = '';
+    for (let i = 0; i < glob.length; i++) {
+      const c = glob[i];
+      if (c === '\\' && i + 1 < glob.length) { out += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'); continue; }
+      if (c === '*') out += '.*';
+      else if (c === '?') out += '.';
+      else out += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+    return `^${out}$`;
+  }
+
+  private addressLeaf(test: SieveTest, field: string, key: string, match: MatchType, part: string): RuleConditionNode | null {
+    if (part === 'domain') {
+      if (match === 'is') {
+        this.warn(test.line, `:domain :is "${key}" imported as a substring match on "@${key}"`);
+        return { [`${field}_contains`]: `@${key}` };
+      }
+      if (match === 'contains') {
+        this.warn(test.line, `:domain :contains "${key}" imported as a substring match on the whole address`);
+        return { [`${field}_contains`]: key };
+      }
+      return this.fail(test.line, `:domain :${match} is not supported`);
+    }
+    if (part === 'localpart') {
+      if (match === 'is') {
+        this.warn(test.line, `:localpart :is "${key}" imported as a substring match on "${key}@"`);
+        return { [`${field}_contains`]: `${key}@` };
+      }
+      return this.fail(test.line, `:localpart :${match} is not supported`);
+    }
+    if (match === 'is') return { [`${field}_exact`]: key };
+    if (match === 'contains') return { [`${field}_contains`]: key };
+    // :matches — only globs that reduce to a substring test.
+    const inner = key.replace(/^\*+|\*+$/g, '');
+    if (/[*?\\]/.test(inner)) {
+      return this.fail(test.line, `address :matches "${key}" is not supported; only "*text*" style patterns translate`);
+    }
+    if (inner === key) return { [`${field}_exact`]: key };
+    if (!key.startsWith('*') || !key.endsWith('*')) {
+      this.warn(test.line, `address :matches "${key}" imported as a substring match on "${inner}"`);
+    }
+    return { [`${field}_contains`]: inner };
+  }
+
+  private anyOf(nodes: RuleConditionNode[]): RuleConditionNode {
+    return nodes.length === 1 ? nodes[0] : { any: nodes };
+  }
+
+  /**
+   * Merge ANDed children into one node when their keys don't collide —
+   * `allof (address …, header …)` becomes the flat `{ from_contains,
+   * subject_contains }` shape the rule UI shows best.
+   */
+  private allOf(nodes: RuleConditionNode[]): RuleConditionNode {
+    const merged: RuleConditionNode = {};
+    for (const node of nodes) {
+      for (const [key, value] of Object.entries(node)) {
+        if (!(key in merged)) { merged[key] = value; continue; }
+        if (key !== 'header') return nodes.length === 1 ? nodes[0] : { all: nodes };
+        merged.header = [merged.header, value].flat();
+      }
+    }
+    return merged;
+  }
+
+  private addressTest(test: SieveTest): RuleConditionNode | null {
+    const args = this.testArgs(test, ['all', 'localpart', 'domain']);
+    if (!args) return null;
+    const lists = this.strings(test, args.positional, 2);
+    if (!lists) return null;
+    const [fields, keys] = lists;
+    const part = args.tags.has('domain') ? 'domain' : args.tags.has('localpart') ? 'localpart' : 'all';
+    const nodes: RuleConditionNode[] = [];
+    for (const raw of fields) {
+      const field = raw.toLowerCase();
+      const allowed = test.name === 'envelope' ? ['from', 'to'] : ['from', 'to', 'cc'];
+      if (!allowed.includes(field)) {
+        return this.fail(test.line, `${test.name} test on "${raw}" is not supported (${allowed.join(', ')} only)`);
+      }
+      for (const key of keys) {
+        const leaf = this.addressLeaf(test, field, key, args.match, part);
+        if (!leaf) return null;
+        nodes.push(leaf);
+      }
+    }
+    if (test.name === 'envelope') this.warn(test.line, 'envelope test imported as a test on the From/To headers');
+    return this.anyOf(nodes);
+  }
+
+  private headerTest(test: SieveTest): RuleConditionNode | null {
+    const args = this.testArgs(test, ['mime', 'anychild']);
+    if (!args) return null;
+    const lists = this.strings(test, args.positional, 2);
+    if (!lists) return null;
+    const [names, keys] = lists;
+    if (args.tags.has('mime')) {
+      // The only :mime form rules understand: "has an attachment part".
+      const ok = args.tags.has('anychild') && args.match === 'contains'
+        && names.length === 1 && names[0].toLowerCase() === 'content-disposition'
+        && keys.length === 1 && keys[0].toLowerCase() === 'attachment';
+      if (!ok) return this.fail(test.line, 'header :mime is only supported as :anychild :contains "Content-Disposition" "attachment"');
+      return { has_attachment: true };
+    }
+    if (args.tags.has('anychild')) return this.fail(test.line, ':anychild requires :mime');
+    const nodes: RuleConditionNode[] = [];
+    for (const name of names) {
+      const subject = name.toLowerCase() === 'subject';
+      for (const key of keys) {
+        switch (args.match) {
+          case 'contains':
+            nodes.push(subject ? { subject_contains: key } : { header: { name, contains: key } });
+            break;
+          case 'is':
+            nodes.push({ header: { name, equals: key } });
+            break;
+          case 'regex':
+          case 'matches': {
+            const pattern = args.match === 'regex' ? key : this.globToRegex(key);
+            try { new RegExp(pattern); } catch { return this.fail(test.line, `invalid regular expression "${key}"`); }
+            nodes.push(subject ? { subject_regex: pattern } : { header: { name, regex: pattern } });
+            break;
+          }
+        }
+      }
+    }
+    return this.anyOf(nodes);
+  }
+
+  private bodyTest(test: SieveTest): RuleConditionNode | null {
+    const args = this.testArgs(test, ['text', 'raw', 'content']);
+    if (!args) return null;
+    if (args.tags.has('raw') || args.tags.has('content')) {
+      return this.fail(test.line, 'only body :text is supported');
+    }
+    const lists = this.strings(test, args.positional, 1);
+    if (!lists) return null;
+    const nodes: RuleConditionNode[] = [];
+    for (const key of lists[0]) {
+      if (args.match === 'contains') { nodes.push({ body_contains: key }); continue; }
+      if (args.match === 'is') return this.fail(test.line, 'body :is is not supported; use :contains');
+      const pattern = args.match === 'regex' ? key : this.globToRegex(key);
+      try { new RegExp(pattern); } catch { return this.fail(test.line, `invalid regular expression "${key}"`); }
+      nodes.push({ body_regex: pattern });
+    }
+    return this.anyOf(nodes);
+  }
+
+  /** Translate a test; `false` becomes `{ not: {} }` (never matches). */
+  translateTest(test: SieveTest): RuleConditionNode | null {
+    switch (test.name) {
+      case 'true':
+        return {};
+      case 'false':
+        return { not: {} };
+      case 'not': {
+        if (test.tests.length !== 1) return this.fail(test.line, '"not" expects one test');
+        const inner = this.translateTest(test.tests[0]);
+        if (!inner) return null;
+        // `not exists "X"` is the rule engine's `exists: false`.
+        const h = inner.header as { name?: string; exists?: boolean } | undefined;
+        if (Object.keys(inner).length === 1 && h && !Array.isArray(h) && h.exists === true && Object.keys(h).length === 2) {
+          return { header: { name: h.name, exists: false } };
+        }
+        return { not: inner };
+      }
+      case 'allof':
+      case 'anyof': {
+        if (test.tests.length === 0) return this.fail(test.line, `"${test.name}" expects a test list`);
+        const nodes = test.tests.map(t => this.translateTest(t));
+        if (nodes.some(n => n === null)) return null;
+        return test.name === 'allof' ? this.allOf(nodes as RuleConditionNode[]) : this.anyOf(nodes as RuleConditionNode[]);
+      }
+      case 'address':
+      case 'envelope':
+        return this.addressTest(test);
+      case 'header':
+        return this.headerTest(test);
+      case 'exists': {
+        const lists = this.strings(test, test.args, 1);
+        if (!lists) return null;
+        const tests = lists[0].map(name => ({ name, exists: true }));
+        return { header: tests.length === 1 ? tests[0] : tests };
+      }
+      case 'body':
+        return this.bodyTest(test);
+      default:
+        return this.fail(test.line, `unsupported test "${test.name}"`);
+    }
+  }
+
+  /**
+   * A rule's own test, with the disabled-rule convention peeled off:
+   * `false` or `allof (false, …)` means "stored but not enabled".
+   */
+  ruleTest(test: SieveTest): { enabled: boolean; conditions: RuleConditionNode } | null {
+    if (test.name === 'false') return { enabled: false, conditions: {} };
+    if (test.name === 'allof' && test.tests[0]?.name === 'false') {
+      const rest = test.tests.slice(1).map(t => this.translateTest(t));
+      if (rest.some(n => n === null)) return null;
+      return { enabled: false, conditions: this.allOf(rest as RuleConditionNode[]) };
+    }
+    const conditions = this.translateTest(test);
+    return conditions && { enabled: true, conditions };
+  }
+
+  /** Translate a block of action commands. */
+  translateActions(commands: SieveCommand[]): { actions: SieveImportedAction[]; stop: boolean } | null {
+    const actions: SieveImportedAction[] = [];
+    let ok = true;
+    let stop = false;
+    const bad = (line: number, message: string) => { this.fail(line, message); ok = false; };
+    for (const cmd of commands) {
+      if (stop) { this.warn(cmd.line, `"${cmd.name}" after stop is never reached; ignored`); continue; }
+      const tags = cmd.args.filter(a => a.kind === 'tag').map(a => (a as { name: string }).name);
+      const positional = cmd.args.filter(a => a.kind !== 'tag');
+      switch (cmd.name) {
+        case 'stop':
+          stop = true;
+          break;
+        case 'keep':
+          break;
+        case 'discard':
+          actions.push({ type: 'delete' });
+          break;
+        case 'fileinto': {
+          if (tags.length > 0) { bad(cmd.line, `fileinto :${tags[0]} is not supported`); break; }
+          if (positional.length !== 1 || positional[0].kind !== 'strings' || positional[0].values.length !== 1) {
+            bad(cmd.line, 'fileinto expects one folder name');
+            break;
+          }
+          actions.push({ type: 'move', folder: positional[0].values[0] });
+          break;
+        }
+        case 'addflag': {
+          if (positional.length !== 1 || positional[0].kind !== 'strings') {
+            bad(cmd.line, 'addflag expects one flag list (variables are not supported)');
+            break;
+          }
+          // IMAP flag lists may also be space-separated inside one string.
+          const flags = positional[0].values.flatMap(v => v.split(/\s+/)).filter(Boolean);
+          const keywords: string[] = [];
+          for (const flag of flags) {
+            if (flag.toLowerCase() === '\\seen') actions.push({ type: 'mark_read' });
+            else if (flag.startsWith('\\')) bad(cmd.line, `system flag ${flag} is not supported (only \\Seen)`);
+            else if (!keywords.includes(flag)) keywords.push(flag);
+          }
+          if (keywords.length > 0) actions.push({ type: 'tag', tags: keywords });
+          break;
+        }
+        case 'redirect': {
+          const copy = tags.includes('copy');
+          const other = tags.find(t => t !== 'copy');
+          if (other) { bad(cmd.line, `redirect :${other} is not supported`); break; }
+          const to = positional[0]?.kind === 'strings' ? positional[0].values[0] : '';
+          if (positional.length !== 1 || !to.includes('@')) { bad(cmd.line, 'redirect expects one address'); break; }
+          actions.push({ type: 'forward', to });
+          // Plain redirect cancels the implicit keep: forward, then drop.
+          if (!copy) actions.push({ type: 'delete' });
+          break;
+        }
+        case 'vacation': {
+          let subject: string | undefined;
+          const rest: SieveArg[] = [];
+          for (let i = 0; i < cmd.args.length; i++) {
+            const arg = cmd.args[i];
+            if (arg.kind !== 'tag') { rest.push(arg); continue; }
+            if (arg.name === 'mime') { bad(arg.line, 'vacation :mime is not supported; use a plain-text reason'); continue; }
+            if (!VACATION_VALUE_TAGS.has(arg.name)) { bad(arg.line, `vacation :${arg.name} is not supported`); continue; }
+            const value = cmd.args[++i];
+            if (arg.name === 'subject') {
+              subject = value?.kind === 'strings' ? value.values[0] : undefined;
+            } else {
+              this.warn(arg.line, `vacation :${arg.name} ignored (auto-replies always skip automated senders)`);
+            }
+          }
+          if (rest.length !== 1 || rest[0].kind !== 'strings' || rest[0].values.length !== 1) {
+            bad(cmd.line, 'vacation expects one reason string');
+            break;
+          }
+          actions.push(subject ? { type: 'vacation', subject, reason: rest[0].values[0] } : { type: 'vacation', reason: rest[0].values[0] });
+          break;
+        }
+        case 'if':
+        case 'elsif':
+        case 'else':
+          bad(cmd.line, `nested "${cmd.name}" is not supported; combine the tests with allof`);
+          break;
+        case 'require':
+          bad(cmd.line, 'require must come before any other command');
+          break;
+        default:
+          bad(cmd.line, `unsupported command "${cmd.name}"`);
+      }
+    }
+    return ok ? { actions, stop } : null;
+  }
+}
+
+function ruleMeta(comments: string[]): { name?: string; priority?: number } {
+  const meta: { name?: string; priority?: number } = {};
+  for (const c of comments) {
+    const name = /^rule:\s*(.+)$/i.exec(c);
+    if (name) meta.name = name[1].trim();
+    const priority = /^priority:\s*(-?\d+)\s*$/i.exec(c);
+    if (priority) meta.priority = Number(priority[1]);
+  }
+  return meta;
+}
+
+/**
+ * Translate a Sieve script into rules. When `errors` is non-empty the
+ * rules are partial and must not be stored.
+ */
+export function sieveToRules(script: string): SieveImportResult {
+  const importer = new Importer();
+  let commands: SieveCommand[];
+  try {
+    commands = new Parser(tokenize(script)).parseScript(importer.errors);
+  } catch (err) {
+    if (!(err instanceof SieveSyntaxError)) throw err;
+    return { rules: [], errors: [{ line: err.line, message: err.message }], warnings: [] };
+  }
+
+  type Draft = Omit<SieveImportedRule, 'priority'> & { metaPriority?: number };
+  const drafts: Draft[] = [];
+  let seenOther = false;
+  let pending: SieveCommand[] = [];
+
+  const flushPending = () => {
+    if (pending.length === 0) return;
+    const translated = importer.translateActions(pending);
+    const meta = ruleMeta(pending[0].comments);
+    // A lone `keep;` adds nothing worth storing.
+    if (translated && (translated.actions.length > 0 || translated.stop)) {
+      drafts.push({
+        line: pending[0].line, name: meta.name ?? '', enabled: true, stop: translated.stop,
+        conditions: {}, actions: translated.actions, metaPriority: meta.priority,
+      });
+    }
+    pending = [];
+  };
+
+  for (let i = 0; i < commands.length; i++) {
+    const cmd = commands[i];
+    if (cmd.name === 'require') {
+      if (seenOther) { importer.errors.push({ line: cmd.line, message: 'require must come before any other command' }); continue; }
+      for (const arg of cmd.args) {
+        if (arg.kind !== 'strings') { importer.errors.push({ line: cmd.line, message: 'require expects a string list' }); continue; }
+        for (const cap of arg.values) {
+          if (!SUPPORTED_CAPABILITIES.has(cap.toLowerCase())) {
+            importer.errors.push({ line: cmd.line, message: `extension "${cap}" is not supported` });
+          }
+        }
+      }
+      continue;
+    }
+    seenOther = true;
+    if (cmd.name === 'elsif' || cmd.name === 'else') {
+      flushPending();
+      importer.errors.push({ line: cmd.line, message: `"${cmd.name}" without a preceding if` });
+      continue;
+    }
+    if (cmd.name !== 'if') { pending.push(cmd); continue; }
+    flushPending();
+
+    // An if/elsif/else chain becomes one rule per branch, each ANDed
+    // with the negation of the branches before it.
+    const chain = [cmd];
+    while (commands[i + 1]?.name === 'elsif' || commands[i + 1]?.name === 'else') {
+      chain.push(commands[++i]);
+      if (commands[i].name === 'else') break;
+    }
+    const meta = ruleMeta(cmd.comments);
+    const earlier: RuleConditionNode[] = [];
+    chain.forEach((branch, n) => {
+      if (!branch.block) { importer.errors.push({ line: branch.line, message: `"${branch.name}" needs a block` }); return; }
+      let test: { enabled: boolean; conditions: RuleConditionNode } | null = { enabled: true, conditions: {} };
+      if (branch.name === 'else') {
+        if (branch.tests.length > 0) { importer.errors.push({ line: branch.line, message: '"else" takes no test' }); return; }
+      } else if (branch.tests.length !== 1) {
+        importer.errors.push({ line: branch.line, message: `"${branch.name}" expects one test` });
+        return;
+      } else if (n === 0) {
+        test = importer.ruleTest(branch.tests[0]);
+      } else {
+        const conditions = importer.translateTest(branch.tests[0]);
+        test = conditions && { enabled: true, conditions };
+      }
+      const translated = importer.translateActions(branch.block);
+      if (!test || !translated) return;
+      const conditions = n === 0 ? test.conditions : { all: [...earlier.map(c => ({ not: c })), test.conditions] };
+      // A disabled branch never matches, so it excludes nothing later.
+      earlier.push(test.enabled ? test.conditions : { not: {} });
+      // `else { keep; }` and friends: nothing to store.
+      if (n > 0 && translated.actions.length === 0 && !translated.stop) return;
+      drafts.push({
+        line: branch.line,
+        name: meta.name ? (n === 0 ? meta.name : `${meta.name} (${branch.name} ${n})`) : '',
+        enabled: test.enabled,
+        stop: translated.stop,
+        conditions,
+        actions: translated.actions,
+        metaPriority: n === 0 ? meta.priority : undefined,
+      });
+    });
+  }
+  flushPending();
+
+  // Names: keep the exported ones, number the rest, never repeat.
+  const used = new Set<string>();
+  let counter = 0;
+  for (const d of drafts) {
+    let name = d.name || `Sieve rule ${++counter}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${d.name || `Sieve rule ${counter}`} (${n})`;
+    used.add(name.toLowerCase());
+    d.name = name;
+  }
+
+  // `# priority:` comments are honoured only when every rule has one and
+  // they agree with script order; otherwise script order wins.
+  const metas = drafts.map(d => d.metaPriority);
+  const useMeta = metas.every((p, i) => p !== undefined && (i === 0 || p < metas[i - 1]!));
+  const rules = drafts.map(({ metaPriority, ...d }, i) => ({
+    ...d,
+    priority: useMeta ? metaPriority! : drafts.length - i,
+  }));
+
+  const byLine = (a: SieveProblem, b: SieveProblem) => a.line - b.line;
+  return { rules, errors: importer.errors.sort(byLine), warnings: importer.warnings.sort(byLine) };
+}
@@ -0,0 +1,377 @@
+/**
+ * Email template engine.
+ *
+ * A small Handlebars-style language for the `templates` table:
+ *
+ *   {{name}}                       value; HTML-escaped in the HTML part
+ *   {{{name}}}                     value, never escaped
+ *   {{customer.name}}              dotted paths into objects
+ *   {{name | default: "there"}}    fallback when missing, null or ""
+ *   {{#if vip}}…{{else}}…{{/if}}   also {{#unless}}
+ *   {{#each items}}…{{else}}…{{/each}}
+ *                                  inside: {{this}}, {{this.x}}, {{x}},
+ *                                  {{@index}}, {{@first}}, {{@last}}
+ *   {{> signature}}                the agent's default signature
+ *   {{> signature "Work"}}         a named signature
+ *   {{! comment }}
+ *
+ * A block tag alone on its line takes the line with it, so text parts
+ * don't fill up with blank lines. Rendering never throws on data: a
+ * variable that isn't there renders empty and is reported as an error,
+ * so callers can refuse to send. Malformed templates throw
+ * TemplateSyntaxError from parseTemplate.
+ *
+ * A template may declare its variables as a JSON Schema (see
+ * schema-validator.ts); renderEmailTemplate fills in `default`s and
+ * validates against it before rendering.
+ */
+
+import type { Database } from '@agenticmail/core';
+import { validate, type Schema } from './schema-validator.js';
+
+export type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'var'; path: string; fallback?: string; raw: boolean; line: number }
+  | { kind: 'block'; type: 'if' | 'unless' | 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[]; line: number }
+  | { kind: 'partial'; name: string; arg?: string; line: number };
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+/** A variable or partial that could not be rendered, or a schema violation. */
+export interface TemplateError {
+  /** Which part of the email; absent for schema errors. */
+  part?: 'subject' | 'text' | 'html';
+  path: string;
+  message: string;
+  line?: number;
+}
+
+/**
+ * Look up a partial's content for the part being rendered (`html` true
+ * for the HTML part). `undefined` means there is no such partial.
+ */
+export type PartialResolver = (name: string, arg: string | undefined, html: boolean) => string | undefined;
+
+const PATH_RE = /^(?:@(?:index|first|last)|this(?:\.[\w-]+)*|[A-Za-z_][\w-]*(?:\.[\w-]+)*)$/;
+const VAR_RE = /^(\S+?)(?:\s*\|\s*default:\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'))?$/;
+const PARTIAL_RE = /^([A-Za-z_][\w-]*)(?:\s+(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'))?$/;
+
+interface Frame {
+  value: unknown;
+  index?: number;
+  length?: number;
+}
+
+type Open = { type: 'if' | 'unless' | 'each'; path: string; line: number; body: TemplateNode[]; otherwise: TemplateNode[] | null };
+
+/** Parse a template. Throws TemplateSyntaxError on malformed tags or unbalanced blocks. */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Open[] = [];
+  const target = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    return top ? (top.otherwise ?? top.body) : root;
+  };
+  const lineAt = (pos: number) => source.slice(0, pos).split('\n').length;
+  const unescape = (s: string) => s.replace(/\\(.)/g, '$1');
+
+  let pos = 0;
+  while (pos < source.length) {
+    const start = source.indexOf('{{', pos);
+    if (start === -1) {
+      target().push({ kind: 'text', value: source.slice(pos) });
+      break;
+    }
+    const raw = source.startsWith('{{{', start);
+    const close = raw ? '}}}' : '}}';
+    const end = source.indexOf(close, start + close.length);
+    const line = lineAt(start);
+    if (end === -1) throw new TemplateSyntaxError(`Unclosed "${raw ? '{{{' : '{{'}"`, line);
+    const tag = source.slice(start + close.length, end).trim();
+    let tagEnd = end + close.length;
+    let textEnd = start;
+
+    // A block, else or comment tag alone on its line takes the line with it.
+    const sigil = raw ? '' : tag[0];
+    if (sigil === '#' || sigil === '/' || sigil === '!' || tag === 'else') {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const after = /^[ \t]*(?:\r?\n|$)/.exec(source.slice(tagEnd));
+      if (after && lineStart >= pos && /^[ \t]*$/.test(source.slice(lineStart, start))) {
+        textEnd = lineStart;
+        tagEnd += after[0].length;
+      }
+    }
+    if (textEnd > pos) target().push({ kind: 'text', value: source.slice(pos, textEnd) });
+    pos = tagEnd;
+
+    if (raw) {
+      if (!PATH_RE.test(tag)) throw new TemplateSyntaxError(`Invalid variable "{{{${tag}}}}"`, line);
+      target().push({ kind: 'var', path: tag, raw: true, line });
+    } else if (sigil === '!') {
+      continue;
+    } else if (sigil === '#') {
+      const m = /^#(if|unless|each)\s+(\S+)$/.exec(tag);
+      if (!m || !PATH_RE.test(m[2])) throw new TemplateSyntaxError(`Invalid block "{{${tag}}}" (expected #if, #unless or #each with a variable)`, line);
+      stack.push({ type: m[1] as Open['type'], path: m[2], line, body: [], otherwise: null });
+    } else if (sigil === '/') {
+      const top = stack.pop();
+      const name = tag.slice(1).trim();
+      if (!top) throw new TemplateSyntaxError(`"{{${tag}}}" has no matching opening block`, line);
+      if (name !== top.type) throw new TemplateSyntaxError(`"{{${tag}}}" closes {{#${top.type}}} from line ${top.line}`, line);
+      target().push({ kind: 'block', type: top.type, path: top.path, body: top.body, otherwise: top.otherwise ?? [], line: top.line });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.otherwise) throw new TemplateSyntaxError('"{{else}}" outside a block', line);
+      top.otherwise = [];
+    } else if (sigil === '>') {
+      const m = PARTIAL_RE.exec(tag.slice(1).trim());
+      if (!m) throw new TemplateSyntaxError(`Invalid partial "{{${tag}}}"`, line);
+      const arg = m[2] ?? m[3];
+      target().push({ kind: 'partial', name: m[1], ...(arg !== undefined ? { arg: unescape(arg) } : {}), line });
+    } else {
+      const m = VAR_RE.exec(tag);
+      if (!m || !PATH_RE.test(m[1])) throw new TemplateSyntaxError(`Invalid variable "{{${tag}}}"`, line);
+      const fallback = m[2] ?? m[3];
+      target().push({ kind: 'var', path: m[1], raw: false, ...(fallback !== undefined ? { fallback: unescape(fallback) } : {}), line });
+    }
+  }
+
+  const open = stack.pop();
+  if (open) throw new TemplateSyntaxError(`{{#${open.type} ${open.path}}} is never closed`, open.line);
+  return root;
+}
+
+/**
+ * The top-level variables a template interpolates outside `#each`
+ * blocks, minus `@`/`this` references and variables with a `default`.
+ * Names only (`customer` for `customer.name`). Conditions are left out:
+ * an `{{#if}}` on a missing variable is simply false.
+ */
+export function templateVariables(source: string): string[] {
+  const names = new Set<string>();
+  const walk = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.kind === 'var' && node.fallback === undefined && !/^(?:@|this\b)/.test(node.path)) {
+        names.add(node.path.split('.')[0]);
+      } else if (node.kind === 'block') {
+        if (node.type !== 'each') walk(node.body);
+        walk(node.otherwise);
+      }
+    }
+  };
+  walk(parseTemplate(source));
+  return [...names];
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+function format(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(format).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/** Resolve a path against the scope stack; `found` is false when nothing defines it. */
+function lookup(frames: Frame[], path: string): { found: boolean; value: unknown } {
+  const top = frames[frames.length - 1];
+  if (path.startsWith('@')) {
+    const loop = [...frames].reverse().find(f => f.index !== undefined);
+    if (!loop) return { found: false, value: undefined };
+    const value = path === '@index' ? loop.index : path === '@first' ? loop.index === 0 : loop.index === loop.length! - 1;
+    return { found: true, value };
+  }
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+  if (head === 'this') {
+    value = top.value;
+  } else {
+    const frame = [...frames].reverse().find(f => f.value !== null && typeof f.value === 'object' && Object.prototype.hasOwnProperty.call(f.value, head));
+    if (!frame) return { found: false, value: undefined };
+    value = (frame.value as Record<string, unknown>)[head];
+  }
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) return { found: false, value: undefined };
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { found: value !== undefined, value };
+}
+
+/**
+ * Render a template against `variables`. With `html`, values are
+ * HTML-escaped (except in `{{{…}}}`). Missing variables and partials
+ * render empty and are listed in `errors`, once per path.
+ * Throws TemplateSyntaxError if the template doesn't parse.
+ */
+export function renderTemplate(
+  source: string,
+  variables: Record<string, unknown>,
+  options: { html?: boolean; partials?: PartialResolver } = {},
+): { output: string; errors: TemplateError[] } {
+  const errors: TemplateError[] = [];
+  const reported = new Set<string>();
+  const report = (path: string, message: string, line: number) => {
+    if (reported.has(path)) return;
+    reported.add(path);
+    errors.push({ path, message, line });
+  };
+  const out = (s: string, raw = false) => (options.html && !raw ? escapeHtml(s) : s);
+
+  const render = (nodes: TemplateNode[], frames: Frame[]): string => {
+    let result = '';
+    for (const node of nodes) {
+      if (node.kind === 'text') {
+        result += node.value;
+      } else if (node.kind === 'var') {
+        const { found, value } = lookup(frames, node.path);
+        if (node.fallback !== undefined && (!found || value === null || value === '')) {
+          result += out(node.fallback);
+        } else if (!found) {
+          report(node.path, 'undefined variable', node.line);
+        } else {
+          result += out(format(value), node.raw);
+        }
+      } else if (node.kind === 'partial') {
+        const content = options.partials?.(node.name, node.arg, !!options.html);
+        if (content === undefined) {
+          report(`> ${node.name}${node.arg !== undefined ? ` "${node.arg}"` : ''}`, 'unknown partial', node.line);
+        } else {
+          result += content;
+        }
+      } else {
+        const { value } = lookup(frames, node.path);
+        if (node.type === 'each') {
+          if (value !== undefined && value !== null && !Array.isArray(value)) {
+            report(node.path, 'not a list', node.line);
+            result += render(node.otherwise, frames);
+          } else if (!value || value.length === 0) {
+            result += render(node.otherwise, frames);
+          } else {
+            value.forEach((item, index) => {
+              result += render(node.body, [...frames, { value: item, index, length: value.length }]);
+            });
+          }
+        } else {
+          const pass = node.type === 'if' ? truthy(value) : !truthy(value);
+          result += render(pass ? node.body : node.otherwise, frames);
+        }
+      }
+    }
+    return result;
+  };
+
+  const output = render(parseTemplate(source), [{ value: variables }]);
+  return { output, errors };
+}
+
+export interface EmailTemplate {
+  subject?: string | null;
+  text?: string | null;
+  html?: string | null;
+  schema?: Schema | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text?: string;
+  html?: string;
+  /** Schema violations and render errors; send only when empty. */
+  errors: TemplateError[];
+}
+
+/**
+ * Render all parts of an email template: `default`s from the schema
+ * are filled in, the variables validated against it, then the subject
+ * and text part are rendered as text and the HTML part with escaping.
+ * Line breaks in the rendered subject are collapsed to spaces.
+ */
+export function renderEmailTemplate(
+  template: EmailTemplate,
+  variables: Record<string, unknown>,
+  partials?: PartialResolver,
+): RenderedEmail {
+  const vars = { ...variables };
+  const errors: TemplateError[] = [];
+  if (template.schema) {
+    for (const [key, prop] of Object.entries(template.schema.properties ?? {})) {
+      if (vars[key] === undefined && prop.default !== undefined) vars[key] = prop.default;
+    }
+    errors.push(...validate(vars, { type: 'object', ...template.schema }));
+  }
+
+  const part = (name: 'subject' | 'text' | 'html', source: string): string => {
+    try {
+      const { output, errors: partErrors } = renderTemplate(source, vars, { html: name === 'html', partials });
+      errors.push(...partErrors.map(e => ({ part: name, ...e })));
+      return output;
+    } catch (err) {
+      if (!(err instanceof TemplateSyntaxError)) throw err;
+      errors.push({ part: name, path: '', message: err.message, line: err.line });
+      return source;
+    }
+  };
+
+  const subject = part('subject', template.subject || '(no subject)').replace(/\s*[\r\n]+\s*/g, ' ').trim();
+  const text = template.text ? part('text', template.text) : undefined;
+  const html = template.html ? part('html', template.html) : undefined;
+  return { subject, ...(text !== undefined ? { text } : {}), ...(html !== undefined ? { html } : {}), errors };
+}
+
+/** One-line summary of render errors, for error messages and logs. */
+export function describeTemplateErrors(errors: TemplateError[]): string {
+  return errors
+    .map(e => `${e.part ? `${e.part}: ` : ''}${e.path ? `${e.path} ` : ''}${e.message}`.trim())
+    .join('; ');
+}
+
+/**
+ * Check a template's variable schema before it is stored. Returns an
+ * error message, or null when the schema is usable.
+ */
+export function checkVariableSchema(schema: unknown): string | null {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return 'schema must be a JSON Schema object';
+  const s = schema as Schema;
+  if (s.type !== undefined && s.type !== 'object') return 'schema.type must be "object"';
+  if (s.properties !== undefined) {
+    if (!s.properties || typeof s.properties !== 'object' || Array.isArray(s.properties)) return 'schema.properties must be an object';
+    for (const [key, prop] of Object.entries(s.properties)) {
+      if (!prop || typeof prop !== 'object' || Array.isArray(prop)) return `schema.properties.${key} must be an object`;
+      if (prop.default !== undefined && validate(prop.default, prop).length > 0) return `schema.properties.${key}.default does not match its own schema`;
+    }
+  }
+  if (s.required !== undefined && (!Array.isArray(s.required) || s.required.some(k => typeof k !== 'string'))) {
+    return 'schema.required must be an array of property names';
+  }
+  return null;
+}
+
+/**
+ * Partials backed by the agent's `signatures`: `{{> signature}}` is the
+ * default signature, `{{> signature "Name"}}` a named one. The HTML part
+ * uses the HTML signature (or the escaped text one); the text part uses
+ * the text signature.
+ */
+export function signaturePartials(db: Database, agentId: string): PartialResolver {
+  return (name, arg, html) => {
+    if (name !== 'signature') return undefined;
+    const row = (arg === undefined
+      ? db.prepare('SELECT * FROM signatures WHERE agent_id = ? AND is_default = 1').get(agentId)
+      : db.prepare('SELECT * FROM signatures WHERE agent_id = ? AND name = ?').get(agentId, arg)) as
+      { text_content: string | null; html_content: string | null } | undefined;
+    if (!row) return undefined;
+    if (!html) return row.text_content ?? '';
+    if (row.html_content) return row.html_content;
+    return escapeHtml(row.text_content ?? '').replace(/\r?\n/g, '<br>\n');
+  };
+}
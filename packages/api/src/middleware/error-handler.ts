@@ -19,6 +19,13 @@ export function errorHandler(err: any, req: Request, res: Response, _next: NextF
     return;
   }
 
+  // Outbound quota (OutboundQuotaError): tell the client when to come back
+  if (err.statusCode === 429 && typeof err.retryAfterSeconds === 'number') {
+    res.setHeader('Retry-After', String(err.retryAfterSeconds));
+    res.status(429).json({ error: message, retryAfter: err.retryAfterSeconds, quota: err.exceeded });
+    return;
+  }
+
   // Use explicit status if set on the error object
   if (typeof err.statusCode === 'number') {
     res.status(err.statusCode).json({ error: message });
@@ -92,6 +92,7 @@ import {
   type PhoneMissionTranscriptEntry,
 } from '@agenticmail/core';
 import { notifyCallEnded } from './notifications/end-of-call.js';
+import { createAgentMemoryManager } from './routes/memory.js';
 
 type Db = ReturnType<typeof import('@agenticmail/core').getDatabase>;
 
@@ -136,7 +137,7 @@ interface RealtimeVoiceServer {
 export function createRealtimeVoiceServer(db: Db, config: AgenticMailConfig): RealtimeVoiceServer {
   const wss = new WebSocketServer({ noServer: true });
   const phoneManager = new PhoneManager(db as any, config.masterKey);
-  const memory = new AgentMemoryManager(db as any);
+  const memory = createAgentMemoryManager(db, config);
 
   wss.on('connection', (carrierWs: WebSocket, req: IncomingMessage) => {
     const path = (req.url ?? '').split('?')[0];
@@ -1,7 +1,17 @@
 import { Router } from 'express';
-import { AGENT_ROLES, AgentDeletionService, type AccountManager, type AgentRole, type AgenticMailConfig, type Database } from '@agenticmail/core';
+import {
+  AGENT_ROLES,
+  AgentDeletionService,
+  OutboundQuota,
+  loadOutboundPolicy,
+  type AccountManager,
+  type AgentRole,
+  type AgenticMailConfig,
+  type Database,
+} from '@agenticmail/core';
 import { requireMaster, requireAgent, requireAuth } from '../middleware/auth.js';
 import { pushSystemEvent } from './system-events.js';
+import { publishAccountEvent } from './firehose.js';
 
 /** Strip internal metadata fields (prefixed with _) from agent responses */
 function sanitizeAgent(agent: any): any {
@@ -17,6 +27,12 @@ function sanitizeAgent(agent: any): any {
   return agent;
 }
 
+/** Account lifecycle events go to the system bus and the firehose. */
+function announceAccountEvent(event: Record<string, unknown>): void {
+  pushSystemEvent(event);
+  publishAccountEvent(event);
+}
+
 function parsePositiveIntegerHours(value: unknown, fallback: number): number | null {
   if (value === undefined || value === null || value === '') return fallback;
   const raw = Array.isArray(value) ? value[0] : value;
@@ -96,7 +112,7 @@ export function createAccountRoutes(accountManager: AccountManager, db: Database
       // The full account record is published deliberately — the endpoint
       // is master-auth, so anyone reading the stream already has the keys.
       try {
-        pushSystemEvent({
+        announceAccountEvent({
           type: 'account_created',
           account: sanitizeAgent(agent),
         });
@@ -277,7 +293,13 @@ export function createAccountRoutes(accountManager: AccountManager, db: Database
         res.status(404).json({ error: 'Agent not found' });
         return;
       }
-      res.json(sanitizeAgent(agent));
+      // Outbound quota counters next to the limits from the agent's policy,
+      // plus how much over-quota mail is waiting in the queue.
+      const usage = new OutboundQuota(db).usage(agent.name, loadOutboundPolicy(config.dataDir, agent.name).quotas);
+      const queued = (db.prepare(
+        "SELECT COUNT(*) AS n FROM outbound_queue WHERE agent_id = ? AND status = 'queued'",
+      ).get(agent.id) as { n: number }).n;
+      res.json({ ...sanitizeAgent(agent), outboundUsage: { ...usage, queued } });
     } catch (err) {
       next(err);
     }
@@ -360,7 +382,7 @@ export function createAccountRoutes(accountManager: AccountManager, db: Database
         'UPDATE agents SET stopped = 1, stopped_at = ?, stopped_reason = ? WHERE id = ?'
       ).run(stoppedAt, reason, req.params.id);
       if (result.changes === 0) { res.status(404).json({ error: 'Agent not found' }); return; }
-      pushSystemEvent({ type: 'account_stopped', accountId: req.params.id, stoppedAt, reason });
+      announceAccountEvent({ type: 'account_stopped', accountId: req.params.id, stoppedAt, reason });
       res.json({ ok: true, stopped: true, stoppedAt, reason });
     } catch (err) { next(err); }
   });
@@ -381,7 +403,7 @@ export function createAccountRoutes(accountManager: AccountManager, db: Database
     try {
       const result = db.prepare('UPDATE agents SET stopped = 0 WHERE id = ?').run(req.params.id);
       if (result.changes === 0) { res.status(404).json({ error: 'Agent not found' }); return; }
-      pushSystemEvent({ type: 'account_resumed', accountId: req.params.id });
+      announceAccountEvent({ type: 'account_resumed', accountId: req.params.id });
       res.json({ ok: true, stopped: false });
     } catch (err) { next(err); }
   });
@@ -461,7 +483,7 @@ export function createAccountRoutes(accountManager: AccountManager, db: Database
         // Return summary without full email bodies
         const { emails: _emails, ...summary } = report;
         try {
-          pushSystemEvent({ type: 'account_deleted', accountId: req.params.id, name: deletingAgent?.name });
+          announceAccountEvent({ type: 'account_deleted', accountId: req.params.id, name: deletingAgent?.name });
         } catch { /* ignore */ }
         res.json(summary);
       } else {
@@ -471,7 +493,7 @@ export function createAccountRoutes(accountManager: AccountManager, db: Database
           return;
         }
         try {
-          pushSystemEvent({ type: 'account_deleted', accountId: req.params.id, name: deletingAgent?.name });
+          announceAccountEvent({ type: 'account_deleted', accountId: req.params.id, name: deletingAgent?.name });
         } catch { /* ignore */ }
         res.status(204).send();
       }
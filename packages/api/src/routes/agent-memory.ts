@@ -15,6 +15,7 @@ import { Router } from 'express';
 import {
   AgentMemoryStore,
   threadIdFor,
+  threadRootMessageId,
   ThreadCache,
   type AgenticMailConfig,
 } from '@agenticmail/core';
@@ -90,11 +91,11 @@ export function createAgentMemoryRoutes(config: AgenticMailConfig): Router {
    *
    * The flow:
    *   1. Fetch the envelope at (uid, folder).
-   *   2. Look up the existing cache entry for the thread, if any.
-   *      We use its `rootFromAddr` so a reply's thread id matches
-   *      the root sender's, not the replier's. Cold start (no
-   *      cache entry) → use the envelope's sender as the root.
-   *   3. Compute and return the thread id.
+   *   2. Derive the id from its Message-ID / In-Reply-To /
+   *      References (subject hash when it has none) — the same id
+   *      the dispatcher's thread cache and `/mail/threads` use.
+   *   3. Report the cached root sender when the thread is already
+   *      in the cache, else the envelope's own sender.
    */
   router.get('/agents/me/thread-id', requireAgent, async (req, res, next) => {
     try {
@@ -114,22 +115,14 @@ export function createAgentMemoryRoutes(config: AgenticMailConfig): Router {
         return;
       }
       const subject = envelope.subject ?? '';
-      const senderAddr = envelope.from?.[0]?.address ?? '';
-      // First-pass id guesses the envelope itself is the root.
-      // We then probe the cache for an existing root sender to
-      // produce the canonical id (replies need to map to the
-      // root's id, not the replier's).
-      const provisional = threadIdFor({ subject, rootFromAddr: senderAddr });
-      const existing = threadCache.read(provisional);
-      if (existing) {
-        // If the provisional already matches the cache entry's
-        // own rootFromAddr, we're already canonical.
-        const canonical = threadIdFor({ subject, rootFromAddr: existing.rootFromAddr });
-        res.json({ threadId: canonical, rootFromAddr: existing.rootFromAddr, subject: existing.subject });
-        return;
-      }
-      // Cold start: this is treated as a new thread root.
-      res.json({ threadId: provisional, rootFromAddr: senderAddr, subject });
+      const threadId = threadIdFor(envelope);
+      const existing = threadCache.read(threadId);
+      res.json({
+        threadId,
+        rootMessageId: threadRootMessageId(envelope),
+        rootFromAddr: existing?.rootFromAddr ?? envelope.from?.[0]?.address ?? '',
+        subject: existing?.subject ?? subject,
+      });
     } catch (err) { next(err); }
   });
 
@@ -0,0 +1,564 @@
+/**
+ * Calendar Routes — meeting invites over email (iMIP).
+ *
+ * Inbound invites are parsed into `ParsedEmail.calendar` by core; an
+ * agent answers one with POST /calendar/respond, which sends the
+ * organizer an iTIP REPLY carrying the agent's PARTSTAT for the same
+ * UID / SEQUENCE / RECURRENCE-ID.
+ *
+ * Agents organise their own meetings with /calendar/invites: creating
+ * one sends a REQUEST to every attendee, PATCH sends an updated
+ * REQUEST with the next SEQUENCE, and cancel sends a CANCEL. Each
+ * attendee's answer is recorded as their REPLY arrives
+ * (trackCalendarReply). Every message goes through the outbound guard
+ * with the agent's policy, then the gateway, then local SMTP.
+ */
+
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  MailSender,
+  formatICalendar,
+  loadOutboundPolicy,
+  parseEmail,
+  scanOutboundEmail,
+  type Agent,
+  type AgenticMailConfig,
+  type CalendarAttendee,
+  type CalendarEvent,
+  type CalendarEventInput,
+  type Database,
+  type GatewayManager,
+  type ParsedEmail,
+  type SendMailOptions,
+} from '@agenticmail/core';
+import { requireAgent } from '../middleware/auth.js';
+import { getAgentPassword, getReceiver, recordSentMail } from './mail.js';
+import { emitWebhookEvent } from './webhooks.js';
+import { isValidTimeZone, parseLocalIso } from '../lib/recurrence.js';
+
+export const CALENDAR_RESPONSES = { accepted: 'ACCEPTED', declined: 'DECLINED', tentative: 'TENTATIVE' } as const;
+
+/** Attendees one invite may have. */
+const INVITE_MAX_ATTENDEES = 100;
+/** Meeting length when neither `end` nor `durationMinutes` is given. */
+const DEFAULT_DURATION_MINUTES = 30;
+const EMAIL_RE = /^[^\s@<>]+@[^\s@<>]+$/;
+
+/** A request the invite can't be sent from; carries the HTTP status. */
+class CalendarRequestError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+  }
+}
+
+interface InviteRow {
+  id: string;
+  agent_id: string;
+  uid: string;
+  sequence: number;
+  status: string;
+  organizer: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start_at: string;
+  end_at: string;
+  all_day: number;
+  timezone: string | null;
+  recurrence: string | null;
+  message_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AttendeeRow {
+  address: string;
+  name: string | null;
+  partstat: string;
+  responded_at: string | null;
+}
+
+function inviteFromRow(row: InviteRow, attendees: AttendeeRow[]) {
+  return {
+    uid: row.uid,
+    sequence: row.sequence,
+    status: row.status,
+    organizer: row.organizer,
+    summary: row.summary,
+    description: row.description,
+    location: row.location,
+    start: row.start_at,
+    end: row.end_at,
+    allDay: row.all_day === 1,
+    timezone: row.timezone,
+    recurrence: row.recurrence,
+    messageId: row.message_id,
+    attendees: attendees.map(a => ({ address: a.address, name: a.name, partstat: a.partstat, respondedAt: a.responded_at })),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** `to` as a string / list of addresses, or `attendees` as `{ address, name? }` objects. */
+function parseAttendees(body: any): CalendarAttendee[] {
+  const raw: unknown[] = Array.isArray(body.attendees) ? body.attendees
+    : Array.isArray(body.to) ? body.to
+    : typeof body.to === 'string' ? body.to.split(',')
+    : [];
+  const seen = new Set<string>();
+  const attendees: CalendarAttendee[] = [];
+  for (const entry of raw) {
+    const address = String(typeof entry === 'object' && entry ? (entry as any).address ?? '' : entry).trim().toLowerCase();
+    if (!EMAIL_RE.test(address)) throw new CalendarRequestError(`Invalid attendee address: ${address || '(empty)'}`);
+    if (seen.has(address)) continue;
+    seen.add(address);
+    const name = typeof entry === 'object' && entry && typeof (entry as any).name === 'string' ? (entry as any).name.trim() : '';
+    attendees.push({ address, ...(name ? { name } : {}) });
+  }
+  if (attendees.length === 0) throw new CalendarRequestError('to (or attendees) is required');
+  if (attendees.length > INVITE_MAX_ATTENDEES) throw new CalendarRequestError(`An invite may have at most ${INVITE_MAX_ATTENDEES} attendees`);
+  return attendees;
+}
+
+function parseTime(value: unknown, field: string, tz: string, allDay: boolean): Date {
+  const text = String(value ?? '').trim();
+  if (allDay) {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+    if (!m) throw new CalendarRequestError(`${field} must be a date (YYYY-MM-DD) for an all-day event`);
+    return new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  }
+  const parsed = parseLocalIso(text, tz) ?? new Date(text);
+  if (!text || isNaN(parsed.getTime())) throw new CalendarRequestError(`${field} must be an ISO 8601 time`);
+  return parsed;
+}
+
+interface InviteFields {
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timezone: string | null;
+  recurrence: string | null;
+}
+
+/** Invite fields from a request body, on top of `current` when updating. */
+function parseInviteFields(body: any, current?: InviteFields): InviteFields {
+  const summary = body.summary !== undefined ? String(body.summary).trim() : current?.summary;
+  if (!summary) throw new CalendarRequestError('summary is required');
+  const allDay = body.allDay !== undefined ? body.allDay === true : current?.allDay ?? false;
+  const timezone = body.timezone !== undefined ? (body.timezone ? String(body.timezone) : null) : current?.timezone ?? null;
+  if (timezone && !isValidTimeZone(timezone)) throw new CalendarRequestError(`Unknown timezone: ${timezone}`);
+
+  const timesChanged = body.start !== undefined || body.end !== undefined || body.durationMinutes !== undefined || body.allDay !== undefined;
+  let start = current?.start;
+  let end = current?.end;
+  if (!current || timesChanged) {
+    if (body.start === undefined && !current) throw new CalendarRequestError('start is required');
+    const tz = timezone ?? 'UTC';
+    start = body.start !== undefined ? parseTime(body.start, 'start', tz, allDay) : start!;
+    if (body.end !== undefined) {
+      end = parseTime(body.end, 'end', tz, allDay);
+    } else if (body.durationMinutes !== undefined) {
+      const minutes = Number(body.durationMinutes);
+      if (!Number.isFinite(minutes) || minutes <= 0) throw new CalendarRequestError('durationMinutes must be a positive number');
+      end = new Date(start.getTime() + minutes * 60_000);
+    } else if (!current || body.start !== undefined) {
+      // Keep the meeting's length when only the start moves.
+      const length = current ? current.end.getTime() - current.start.getTime() : allDay ? 86_400_000 : DEFAULT_DURATION_MINUTES * 60_000;
+      end = new Date(start.getTime() + length);
+    }
+    if (end!.getTime() <= start.getTime()) throw new CalendarRequestError('end must be after start');
+  }
+
+  let recurrence = body.recurrence !== undefined ? (body.recurrence ? String(body.recurrence).replace(/^RRULE:/i, '').trim() : null) : current?.recurrence ?? null;
+  if (recurrence && !/^FREQ=(SECONDLY|MINUTELY|HOURLY|DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[A-Z0-9,+-]+)*$/i.test(recurrence)) {
+    throw new CalendarRequestError('recurrence must be an RRULE value, e.g. FREQ=WEEKLY;BYDAY=MO');
+  }
+  if (recurrence) recurrence = recurrence.toUpperCase();
+  const text = (key: string, fallback: string | null | undefined) =>
+    body[key] !== undefined ? (body[key] ? String(body[key]) : null) : fallback ?? null;
+
+  return {
+    summary,
+    description: text('description', current?.description),
+    location: text('location', current?.location),
+    start: start!,
+    end: end!,
+    allDay,
+    timezone,
+    recurrence,
+  };
+}
+
+function fieldsFromRow(row: InviteRow): InviteFields {
+  return {
+    summary: row.summary,
+    description: row.description,
+    location: row.location,
+    start: new Date(row.start_at),
+    end: new Date(row.end_at),
+    allDay: row.all_day === 1,
+    timezone: row.timezone,
+    recurrence: row.recurrence,
+  };
+}
+
+/** "Tue, 3 Nov 2026, 15:00 – 15:30 (Europe/Berlin)" for the plain-text part. */
+function describeWhen(fields: Pick<InviteFields, 'start' | 'end' | 'allDay' | 'timezone'>): string {
+  const timeZone = fields.allDay ? 'UTC' : fields.timezone ?? 'UTC';
+  const day = (d: Date) => d.toLocaleDateString('en-GB', { timeZone, weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+  if (fields.allDay) {
+    const last = new Date(fields.end.getTime() - 86_400_000);
+    return last.getTime() > fields.start.getTime() ? `${day(fields.start)} – ${day(last)} (all day)` : `${day(fields.start)} (all day)`;
+  }
+  const time = (d: Date) => d.toLocaleTimeString('en-GB', { timeZone, hour: '2-digit', minute: '2-digit' });
+  const sameDay = day(fields.start) === day(fields.end);
+  return `${day(fields.start)}, ${time(fields.start)} – ${sameDay ? '' : `${day(fields.end)}, `}${time(fields.end)} (${timeZone})`;
+}
+
+function inviteText(fields: InviteFields, organizer: string, note?: string): string {
+  return [
+    ...(note ? [note, ''] : []),
+    fields.summary,
+    `When: ${describeWhen(fields)}`,
+    ...(fields.recurrence ? [`Repeats: ${fields.recurrence}`] : []),
+    ...(fields.location ? [`Where: ${fields.location}`] : []),
+    `Organizer: ${organizer}`,
+    ...(fields.description ? ['', fields.description] : []),
+  ].join('\n');
+}
+
+/**
+ * The ORGANIZER address for an agent's invite: its own address when
+ * every attendee is local, else the address outside recipients see
+ * (so their replies reach it through the gateway).
+ */
+function organizerAddress(agent: Agent, attendees: CalendarAttendee[], gatewayManager?: GatewayManager): string {
+  if (!gatewayManager) return agent.email;
+  const localDomain = gatewayManager.getConfig().domain?.domain?.toLowerCase();
+  const external = attendees.some(a => {
+    const domain = a.address.split('@')[1];
+    return domain !== 'localhost' && domain !== localDomain;
+  });
+  return external ? gatewayManager.outboundAddress(agent) : agent.email;
+}
+
+/** The agent's ATTENDEE entry in an invite, by any address it receives mail at. */
+function findSelf(event: CalendarEvent, agent: Agent, email: ParsedEmail, gatewayManager?: GatewayManager): CalendarAttendee | undefined {
+  const own = [agent.email, gatewayManager?.outboundAddress(agent)].filter((a): a is string => !!a).map(a => a.toLowerCase());
+  const delivered = [...email.to, ...(email.cc ?? [])].map(a => a.address.toLowerCase());
+  return event.attendees.find(a => own.includes(a.address))
+    ?? event.attendees.find(a => delivered.includes(a.address));
+}
+
+export function createCalendarRoutes(
+  db: Database,
+  config: AgenticMailConfig,
+  gatewayManager?: GatewayManager,
+): Router {
+  const router = Router();
+
+  /** Guard, gateway, then local SMTP. Returns the Message-ID. */
+  async function sendCalendarMail(agent: Agent, mailOpts: SendMailOptions): Promise<string> {
+    const scan = scanOutboundEmail({
+      to: mailOpts.to,
+      subject: mailOpts.subject,
+      text: mailOpts.text,
+    }, loadOutboundPolicy(config.dataDir, agent.name));
+    if (scan.blocked) throw new CalendarRequestError(`Blocked by outbound guard: ${scan.summary}`, 403);
+
+    let messageId: string | undefined;
+    if (gatewayManager) {
+      messageId = (await gatewayManager.routeOutbound(agent.name, mailOpts))?.messageId;
+    }
+    if (!messageId) {
+      const sender = new MailSender({
+        host: config.smtp.host,
+        port: config.smtp.port,
+        email: agent.email,
+        password: getAgentPassword(agent),
+        authUser: agent.stalwartPrincipal,
+      });
+      try {
+        messageId = (await sender.send(mailOpts)).messageId;
+      } finally {
+        sender.close();
+      }
+    }
+    recordSentMail(db, agent.id, messageId, mailOpts);
+    emitWebhookEvent('mail.sent', agent.id, { messageId, to: mailOpts.to, subject: mailOpts.subject });
+    return messageId;
+  }
+
+  /** Send a REQUEST or CANCEL for a stored invite to its attendees. */
+  async function sendInvite(agent: Agent, row: InviteRow, method: 'REQUEST' | 'CANCEL', note?: string): Promise<string> {
+    const attendees = db.prepare('SELECT * FROM calendar_invite_attendees WHERE invite_id = ? ORDER BY address')
+      .all(row.id) as any[];
+    const fields = fieldsFromRow(row);
+    const event: CalendarEventInput = {
+      uid: row.uid,
+      sequence: row.sequence,
+      summary: fields.summary,
+      ...(fields.description ? { description: fields.description } : {}),
+      ...(fields.location ? { location: fields.location } : {}),
+      status: method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED',
+      organizer: { address: row.organizer, name: agent.name },
+      attendees: attendees.map(a => ({
+        address: a.address,
+        ...(a.name ? { name: a.name } : {}),
+        role: 'REQ-PARTICIPANT',
+        partstat: method === 'CANCEL' ? a.partstat : 'NEEDS-ACTION',
+        rsvp: method === 'REQUEST',
+      })),
+      start: fields.start,
+      end: fields.end,
+      allDay: fields.allDay,
+      ...(fields.timezone ? { timezone: fields.timezone } : {}),
+      ...(fields.recurrence ? { recurrence: fields.recurrence } : {}),
+    };
+    const subject = method === 'CANCEL' ? `Cancelled: ${fields.summary}` : row.sequence > 0 ? `Updated invitation: ${fields.summary}` : `Invitation: ${fields.summary}`;
+    return sendCalendarMail(agent, {
+      to: attendees.map(a => a.address),
+      subject,
+      text: inviteText(fields, row.organizer, note),
+      icalEvent: { method, content: formatICalendar({ method, events: [event] }) },
+    });
+  }
+
+  function loadInvite(agentId: string, uid: string): InviteRow | undefined {
+    return db.prepare('SELECT * FROM calendar_invites WHERE agent_id = ? AND uid = ?').get(agentId, uid) as InviteRow | undefined;
+  }
+
+  function inviteJson(row: InviteRow) {
+    const attendees = db.prepare('SELECT * FROM calendar_invite_attendees WHERE invite_id = ? ORDER BY address').all(row.id) as any[];
+    return inviteFromRow(row, attendees);
+  }
+
+  function handleError(err: unknown, res: any, next: (err: unknown) => void): void {
+    if (err instanceof CalendarRequestError) {
+      res.status(err.statusCode).json({ error: err.message });
+      return;
+    }
+    next(err);
+  }
+
+  // ─── Answering invites ────────────────────────────────────────────
+
+  router.post('/calendar/respond', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const { folder, comment } = req.body || {};
+      const uid = parseInt(String(req.body?.uid));
+      const response = String(req.body?.response ?? '').toLowerCase() as keyof typeof CALENDAR_RESPONSES;
+      if (isNaN(uid) || uid < 1) { res.status(400).json({ error: 'uid (the invite message UID) is required' }); return; }
+      if (!(response in CALENDAR_RESPONSES)) {
+        res.status(400).json({ error: `response must be one of: ${Object.keys(CALENDAR_RESPONSES).join(', ')}` });
+        return;
+      }
+
+      const receiver = await getReceiver(agent.stalwartPrincipal, getAgentPassword(agent), config);
+      let email: ParsedEmail;
+      try {
+        email = await parseEmail(await receiver.fetchMessage(uid, typeof folder === 'string' && folder ? folder : 'INBOX'));
+      } catch (err) {
+        if ((err as { code?: string }).code === 'MESSAGE_NOT_FOUND') { res.status(404).json({ error: 'Message not found' }); return; }
+        throw err;
+      }
+      const invite = email.calendar;
+      if (!invite || invite.events.length === 0) { res.status(400).json({ error: 'Message has no calendar invite' }); return; }
+      if (invite.method && invite.method !== 'REQUEST') {
+        res.status(400).json({ error: `Only invitations (METHOD:REQUEST) can be answered; this message is ${invite.method}` });
+        return;
+      }
+      // The master event (or the single occurrence the invite is about).
+      const event = invite.events.find(e => !e.recurrenceId) ?? invite.events[0];
+      if (!event.organizer) { res.status(400).json({ error: 'Invite has no organizer to reply to' }); return; }
+
+      const partstat = CALENDAR_RESPONSES[response];
+      const self = findSelf(event, agent, email, gatewayManager);
+      const attendee: CalendarAttendee = {
+        address: self?.address ?? gatewayManager?.outboundAddress(agent) ?? agent.email,
+        ...(self?.name ? { name: self.name } : { name: agent.name }),
+        partstat,
+      };
+      const reply: CalendarEventInput = {
+        uid: event.uid,
+        sequence: event.sequence,
+        ...(event.summary !== undefined ? { summary: event.summary } : {}),
+        organizer: event.organizer,
+        attendees: [attendee],
+        start: event.start?.date ?? new Date(),
+        ...(event.end ? { end: event.end.date } : {}),
+        allDay: event.start?.allDay ?? false,
+        ...(event.recurrenceId ? { recurrenceId: event.recurrenceId.date } : {}),
+      };
+      const label = { accepted: 'Accepted', declined: 'Declined', tentative: 'Tentative' }[response];
+      const summary = event.summary ?? '(no title)';
+      const messageId = await sendCalendarMail(agent, {
+        to: event.organizer.address,
+        subject: `${label}: ${summary}`,
+        text: [`${attendee.name} ${response === 'tentative' ? 'tentatively accepted' : response} "${summary}".`,
+          ...(typeof comment === 'string' && comment.trim() ? ['', comment.trim()] : [])].join('\n'),
+        ...(email.messageId ? { inReplyTo: email.messageId, references: [...(email.references ?? []), email.messageId] } : {}),
+        icalEvent: { method: 'REPLY', content: formatICalendar({ method: 'REPLY', events: [reply] }) },
+      });
+      res.json({ ok: true, messageId, uid: event.uid, partstat, organizer: event.organizer.address });
+    } catch (err) {
+      handleError(err, res, next);
+    }
+  });
+
+  // ─── Organising invites ───────────────────────────────────────────
+
+  router.get('/calendar/invites', requireAgent, (req, res, next) => {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const rows = db.prepare(
+        `SELECT * FROM calendar_invites WHERE agent_id = ? AND (? IS NULL OR status = ?) ORDER BY start_at`,
+      ).all(req.agent!.id, status ?? null, status ?? null) as any[];
+      res.json({ invites: rows.map(inviteJson) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get('/calendar/invites/:uid', requireAgent, (req, res, next) => {
+    try {
+      const row = loadInvite(req.agent!.id, String(req.params.uid));
+      if (!row) { res.status(404).json({ error: 'Invite not found' }); return; }
+      res.json(inviteJson(row));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.post('/calendar/invites', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const body = req.body || {};
+      const fields = parseInviteFields(body);
+      const attendees = parseAttendees(body);
+      const uid = typeof body.uid === 'string' && body.uid.trim() ? body.uid.trim() : `${uuidv4()}@agenticmail`;
+      if (loadInvite(agent.id, uid)) { res.status(409).json({ error: 'An invite with this uid already exists' }); return; }
+
+      const stamp = new Date().toISOString();
+      const id = uuidv4();
+      const organizer = organizerAddress(agent, attendees, gatewayManager);
+      db.prepare(
+        `INSERT INTO calendar_invites (id, agent_id, uid, sequence, status, organizer, summary, description, location,
+           start_at, end_at, all_day, timezone, recurrence, created_at, updated_at)
+         VALUES (?, ?, ?, 0, 'confirmed', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ).run(id, agent.id, uid, organizer, fields.summary, fields.description, fields.location,
+        fields.start.toISOString(), fields.end.toISOString(), fields.allDay ? 1 : 0, fields.timezone, fields.recurrence, stamp, stamp);
+      const addAttendee = db.prepare('INSERT INTO calendar_invite_attendees (invite_id, address, name) VALUES (?, ?, ?)');
+      for (const a of attendees) addAttendee.run(id, a.address, a.name ?? null);
+
+      const row = loadInvite(agent.id, uid)!;
+      let messageId: string;
+      try {
+        messageId = await sendInvite(agent, row, 'REQUEST');
+      } catch (err) {
+        // Nothing went out, so there is no invite to track.
+        db.prepare('DELETE FROM calendar_invites WHERE id = ?').run(id);
+        throw err;
+      }
+      db.prepare('UPDATE calendar_invites SET message_id = ? WHERE id = ?').run(messageId, id);
+      res.json({ ok: true, ...inviteJson(loadInvite(agent.id, uid)!) });
+    } catch (err) {
+      handleError(err, res, next);
+    }
+  });
+
+  router.patch('/calendar/invites/:uid', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const row = loadInvite(agent.id, String(req.params.uid));
+      if (!row) { res.status(404).json({ error: 'Invite not found' }); return; }
+      if (row.status === 'cancelled') { res.status(409).json({ error: 'Invite is cancelled' }); return; }
+      const body = req.body || {};
+      const before = fieldsFromRow(row);
+      const fields = parseInviteFields(body, before);
+      const attendees = body.to !== undefined || body.attendees !== undefined ? parseAttendees(body) : null;
+      const moved = fields.start.getTime() !== before.start.getTime() || fields.end.getTime() !== before.end.getTime()
+        || fields.allDay !== before.allDay || fields.recurrence !== before.recurrence;
+
+      const stamp = new Date().toISOString();
+      db.prepare(
+        `UPDATE calendar_invites SET sequence = sequence + 1, summary = ?, description = ?, location = ?, start_at = ?, end_at = ?,
+           all_day = ?, timezone = ?, recurrence = ?, updated_at = ? WHERE id = ?`,
+      ).run(fields.summary, fields.description, fields.location, fields.start.toISOString(), fields.end.toISOString(),
+        fields.allDay ? 1 : 0, fields.timezone, fields.recurrence, stamp, row.id);
+      if (attendees) {
+        const keep = new Set(attendees.map(a => a.address));
+        for (const a of db.prepare('SELECT address FROM calendar_invite_attendees WHERE invite_id = ?').all(row.id) as any[]) {
+          if (!keep.has(a.address)) db.prepare('DELETE FROM calendar_invite_attendees WHERE invite_id = ? AND address = ?').run(row.id, a.address);
+        }
+        const add = db.prepare('INSERT OR IGNORE INTO calendar_invite_attendees (invite_id, address, name) VALUES (?, ?, ?)');
+        for (const a of attendees) add.run(row.id, a.address, a.name ?? null);
+      }
+      // A new time needs a new answer from everyone.
+      if (moved) {
+        db.prepare(`UPDATE calendar_invite_attendees SET partstat = 'NEEDS-ACTION', responded_at = NULL WHERE invite_id = ?`).run(row.id);
+      }
+
+      const updated = loadInvite(agent.id, row.uid)!;
+      const messageId = await sendInvite(agent, updated, 'REQUEST', typeof body.comment === 'string' ? body.comment : undefined);
+      db.prepare('UPDATE calendar_invites SET message_id = ? WHERE id = ?').run(messageId, row.id);
+      res.json({ ok: true, ...inviteJson(loadInvite(agent.id, row.uid)!) });
+    } catch (err) {
+      handleError(err, res, next);
+    }
+  });
+
+  router.post('/calendar/invites/:uid/cancel', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const row = loadInvite(agent.id, String(req.params.uid));
+      if (!row) { res.status(404).json({ error: 'Invite not found' }); return; }
+      if (row.status === 'cancelled') { res.status(409).json({ error: 'Invite is already cancelled' }); return; }
+      db.prepare(`UPDATE calendar_invites SET sequence = sequence + 1, status = 'cancelled', updated_at = ? WHERE id = ?`)
+        .run(new Date().toISOString(), row.id);
+      const cancelled = loadInvite(agent.id, row.uid)!;
+      const comment = req.body?.comment;
+      const messageId = await sendInvite(agent, cancelled, 'CANCEL', typeof comment === 'string' ? comment : undefined);
+      db.prepare('UPDATE calendar_invites SET message_id = ? WHERE id = ?').run(messageId, row.id);
+      res.json({ ok: true, ...inviteJson(loadInvite(agent.id, row.uid)!) });
+    } catch (err) {
+      handleError(err, res, next);
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Record RSVPs: an iTIP REPLY for an invite the agent organised sets
+ * the replying attendee's PARTSTAT. Replies to an older SEQUENCE than
+ * the invite's current one are stale and ignored. Returns the number
+ * of attendees updated.
+ */
+export function trackCalendarReply(db: Database, agentId: string, email: Pick<ParsedEmail, 'calendar'>): number {
+  const invite = email.calendar;
+  if (invite?.method !== 'REPLY') return 0;
+  let updated = 0;
+  const stamp = new Date().toISOString();
+  for (const event of invite.events) {
+    const row = db.prepare('SELECT id, sequence FROM calendar_invites WHERE agent_id = ? AND uid = ?')
+      .get(agentId, event.uid) as { id: string; sequence: number } | undefined;
+    if (!row || event.sequence < row.sequence) continue;
+    for (const attendee of event.attendees) {
+      if (!attendee.partstat) continue;
+      const result = db.prepare(
+        'UPDATE calendar_invite_attendees SET partstat = ?, responded_at = ? WHERE invite_id = ? AND address = ?',
+      ).run(attendee.partstat, stamp, row.id, attendee.address);
+      if (result.changes > 0) {
+        updated += Number(result.changes);
+        emitWebhookEvent('calendar.replied', agentId, { uid: event.uid, attendee: attendee.address, partstat: attendee.partstat });
+      }
+    }
+  }
+  return updated;
+}
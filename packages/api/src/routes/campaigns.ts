@@ -0,0 +1,588 @@
+/**
+ * Campaign Routes — mail merge with per-recipient progress.
+ *
+ * A campaign pairs a recipient source (an `agt_`/`shared_` storage
+ * table, an uploaded CSV, or the agent's contacts filtered by tag) with
+ * a subject and body in the template language (lib/template-engine.ts)
+ * whose variables are the recipient's columns. Recipients are
+ * resolved once, when the campaign is created; each keeps its merge
+ * variables and its own status:
+ *
+ *   queued → sent → replied | bounced
+ *          → blocked   (outbound guard)
+ *          → skipped   (suppressed address, or unsubscribed from `list`)
+ *          → failed    (send kept failing, or a template error)
+ *          → cancelled (campaign cancelled first)
+ *
+ * The scheduled-sender loop calls sweepCampaigns, which sends at most
+ * `perHour` messages an hour per campaign, only from `startAt` on and
+ * inside the optional send window. Every message goes through the
+ * outbound guard with the agent's policy and through the gateway's
+ * quotas. Replies and bounces are matched back to the recipient by
+ * Message-ID as they arrive (trackCampaignMail).
+ */
+
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  MailSender,
+  OutboundQuotaError,
+  isValidListName,
+  loadOutboundPolicy,
+  normalizeAddress,
+  scanOutboundEmail,
+  type AccountManager,
+  type AgenticMailConfig,
+  type Database,
+  type GatewayManager,
+  type ParsedEmail,
+} from '@agenticmail/core';
+import { requireAgent } from '../middleware/auth.js';
+import { checkRecipients, getAgentPassword, recordSentMail, type recordInboundBounce } from './mail.js';
+import { isSafeTable, resolveTable } from './storage.js';
+import { bulkUnsubscribeHeaders, publicBaseUrl } from './unsubscribe.js';
+import { emitWebhookEvent } from './webhooks.js';
+import { parseCsv } from '../lib/mail-merge.js';
+import {
+  describeTemplateErrors,
+  renderEmailTemplate,
+  signaturePartials,
+  templateVariables,
+  TemplateSyntaxError,
+} from '../lib/template-engine.js';
+import {
+  applySendWindow,
+  isValidTimeZone,
+  parseLocalIso,
+  parseSendWindow,
+  type SendWindow,
+} from '../lib/recurrence.js';
+
+/** Recipients one campaign may have. */
+const CAMPAIGN_MAX_RECIPIENTS = 10_000;
+/** Failed sends before a recipient is given up on. */
+const CAMPAIGN_MAX_ATTEMPTS = 3;
+/** Recipients handled per campaign per sweep. */
+const CAMPAIGN_BATCH = 50;
+/** How far behind schedule a campaign may catch up in one sweep (after a pause or downtime). */
+const CAMPAIGN_CATCH_UP_MS = 60_000;
+
+export const CAMPAIGN_RECIPIENT_STATUSES = ['queued', 'sent', 'blocked', 'skipped', 'failed', 'bounced', 'replied', 'cancelled'] as const;
+
+/** A request the campaign can't be built from; carries the HTTP status. */
+class CampaignRequestError extends Error {
+  constructor(message: string, public statusCode = 400) {
+    super(message);
+  }
+}
+
+interface ResolvedRecipients {
+  /** Stored description of where the recipients came from. */
+  source: Record<string, unknown>;
+  rows: Record<string, unknown>[];
+  emailColumn: string;
+  nameColumn?: string;
+}
+
+function stringOption(value: unknown, label: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !value.trim()) throw new CampaignRequestError(`${label} must be a non-empty string`);
+  return value.trim();
+}
+
+/** Read the recipient rows a campaign's `source` names. */
+function resolveRecipients(db: Database, agentId: string, source: any): ResolvedRecipients {
+  if (!source || typeof source !== 'object' || Array.isArray(source)) {
+    throw new CampaignRequestError('source must be an object with a type of "table", "csv" or "contacts"');
+  }
+  const emailColumn = stringOption(source.emailColumn, 'source.emailColumn') ?? 'email';
+  const nameColumn = stringOption(source.nameColumn, 'source.nameColumn');
+
+  if (source.type === 'table') {
+    const name = stringOption(source.table, 'source.table');
+    if (!name) throw new CampaignRequestError('source.table is required');
+    const table = resolveTable(agentId, name);
+    if (!isSafeTable(table)) throw new CampaignRequestError('source.table must be an agt_* or shared_* storage table');
+    let meta: { agent_id: string; shared: number } | undefined;
+    try {
+      meta = db.prepare('SELECT agent_id, shared FROM agenticmail_storage_meta WHERE table_name = ?').get(table) as typeof meta;
+    } catch { /* the metadata table is created on first storage use */ }
+    if (!meta) throw new CampaignRequestError(`Table "${name}" not found`, 404);
+    if (meta.agent_id !== agentId && !meta.shared) throw new CampaignRequestError(`Access denied for table "${name}"`, 403);
+    const rows = db.prepare(`SELECT * FROM ${table} LIMIT ?`).all(CAMPAIGN_MAX_RECIPIENTS + 1) as Record<string, unknown>[];
+    return { source: { type: 'table', table, emailColumn, ...(nameColumn ? { nameColumn } : {}) }, rows, emailColumn, nameColumn };
+  }
+
+  if (source.type === 'csv') {
+    if (typeof source.csv !== 'string' || !source.csv.trim()) throw new CampaignRequestError('source.csv must be the CSV text, header row first');
+    let rows: Record<string, string>[];
+    try {
+      rows = parseCsv(source.csv);
+    } catch (err) {
+      throw new CampaignRequestError((err as Error).message);
+    }
+    return { source: { type: 'csv', rows: rows.length, emailColumn, ...(nameColumn ? { nameColumn } : {}) }, rows, emailColumn, nameColumn };
+  }
+
+  if (source.type === 'contacts') {
+    const tag = stringOption(source.tag, 'source.tag');
+    const rows = db.prepare(
+      `SELECT name, email, notes FROM contacts WHERE agent_id = ?
+         AND (? IS NULL OR EXISTS (SELECT 1 FROM json_each(contacts.tags) WHERE lower(value) = lower(?)))
+       ORDER BY name, email LIMIT ?`,
+    ).all(agentId, tag ?? null, tag ?? null, CAMPAIGN_MAX_RECIPIENTS + 1) as Record<string, unknown>[];
+    return { source: { type: 'contacts', ...(tag ? { tag } : {}) }, rows, emailColumn: 'email', nameColumn: 'name' };
+  }
+
+  throw new CampaignRequestError('source.type must be "table", "csv" or "contacts"');
+}
+
+function campaignCounts(db: Database, campaignId: string): Record<string, number> {
+  const counts: Record<string, number> = Object.fromEntries(CAMPAIGN_RECIPIENT_STATUSES.map(s => [s, 0]));
+  const rows = db.prepare('SELECT status, COUNT(*) AS n FROM campaign_recipients WHERE campaign_id = ? GROUP BY status')
+    .all(campaignId) as Array<{ status: string; n: number }>;
+  for (const r of rows) counts[r.status] = r.n;
+  return counts;
+}
+
+function campaignJson(db: Database, row: any) {
+  const progress = campaignCounts(db, row.id);
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    source: JSON.parse(row.source),
+    subject: row.subject,
+    templateId: row.template_id,
+    list: row.list,
+    perHour: row.per_hour,
+    timezone: row.timezone,
+    sendWindow: row.send_window ? JSON.parse(row.send_window) : null,
+    startAt: row.start_at,
+    nextSendAt: row.next_send_at,
+    total: Object.values(progress).reduce((a, b) => a + b, 0),
+    progress,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+  };
+}
+
+function recipientJson(row: any) {
+  return {
+    id: row.id,
+    address: row.address,
+    name: row.name,
+    status: row.status,
+    attempts: row.attempts,
+    messageId: row.message_id,
+    error: row.error,
+    sentAt: row.sent_at,
+    bouncedAt: row.bounced_at,
+    repliedAt: row.replied_at,
+    updatedAt: row.updated_at,
+    variables: JSON.parse(row.variables),
+  };
+}
+
+/** `<id>` form, as stored for sent mail and compared against In-Reply-To / References. */
+function bracketed(messageId: string): string {
+  return `<${messageId.trim().replace(/^<|>$/g, '')}>`;
+}
+
+export function createCampaignRoutes(
+  db: Database,
+  config: AgenticMailConfig,
+  gatewayManager?: GatewayManager,
+): Router {
+  const router = Router();
+
+  router.get('/campaigns', requireAgent, async (req, res, next) => {
+    try {
+      const rows = db.prepare('SELECT * FROM campaigns WHERE agent_id = ? ORDER BY created_at DESC').all(req.agent!.id) as any[];
+      res.json({ campaigns: rows.map(r => campaignJson(db, r)) });
+    } catch (err) { next(err); }
+  });
+
+  router.post('/campaigns', requireAgent, async (req, res, next) => {
+    try {
+      const agentId = req.agent!.id;
+      const { name, source, templateId, list, perHour, startAt, timezone, sendWindow } = req.body || {};
+      let { subject, text, html } = req.body || {};
+      if (typeof name !== 'string' || !name.trim()) { res.status(400).json({ error: 'name is required' }); return; }
+
+      if (templateId !== undefined) {
+        const template = db.prepare('SELECT * FROM templates WHERE id = ? AND agent_id = ?').get(templateId, agentId) as any;
+        if (!template) { res.status(404).json({ error: 'Template not found' }); return; }
+        subject = subject ?? template.subject;
+        text = text ?? template.text_body;
+        html = html ?? template.html_body;
+      }
+      if (typeof subject !== 'string' || !subject.trim() || (!text && !html)) {
+        res.status(400).json({ error: 'subject and text or html (or a templateId providing them) are required' });
+        return;
+      }
+
+      const rate = perHour === undefined ? 60 : Number(perHour);
+      if (!Number.isInteger(rate) || rate < 1 || rate > 3600) {
+        res.status(400).json({ error: 'perHour must be an integer from 1 to 3600' });
+        return;
+      }
+      if (list !== undefined) {
+        if (typeof list !== 'string' || !isValidListName(list)) {
+          res.status(400).json({ error: 'list must be 1-64 letters, digits, ".", "_" or "-"' });
+          return;
+        }
+        if (!publicBaseUrl(config, gatewayManager)) {
+          res.status(400).json({
+            error: 'list needs a public URL for its unsubscribe link: set publicUrl (AGENTICMAIL_PUBLIC_URL) or use domain mode',
+          });
+          return;
+        }
+      }
+      const tz = timezone ? String(timezone) : 'UTC';
+      if (!isValidTimeZone(tz)) {
+        res.status(400).json({ error: `Unknown timezone "${tz}" — use an IANA name such as Europe/Berlin` });
+        return;
+      }
+      let window: SendWindow | null = null;
+      try {
+        if (sendWindow) window = parseSendWindow(sendWindow);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+      let start = new Date();
+      if (startAt !== undefined) {
+        // A naive ISO time (no Z or offset) is read in the campaign's timezone.
+        const parsed = parseLocalIso(String(startAt), tz) ?? new Date(String(startAt));
+        if (isNaN(parsed.getTime())) {
+          res.status(400).json({ error: 'startAt must be an ISO 8601 time' });
+          return;
+        }
+        if (parsed.getTime() > start.getTime()) start = parsed;
+      }
+
+      const resolved = resolveRecipients(db, agentId, source);
+      if (resolved.rows.length > CAMPAIGN_MAX_RECIPIENTS) {
+        res.status(400).json({ error: `A campaign can have at most ${CAMPAIGN_MAX_RECIPIENTS} recipients` });
+        return;
+      }
+      const columns = new Set(['email', ...resolved.rows.flatMap(r => Object.keys(r))]);
+      if (resolved.rows.length > 0 && !resolved.rows.some(r => resolved.emailColumn in r)) {
+        res.status(400).json({ error: `The recipients have no "${resolved.emailColumn}" column; set source.emailColumn` });
+        return;
+      }
+      let used: string[];
+      try {
+        used = [subject, text, html].flatMap(part => (part ? templateVariables(part) : []));
+      } catch (err) {
+        if (!(err instanceof TemplateSyntaxError)) throw err;
+        res.status(400).json({ error: err.message });
+        return;
+      }
+      const missing = [...new Set(used)].filter(f => !columns.has(f));
+      if (missing.length > 0) {
+        res.status(400).json({ error: `The template uses fields the recipients don't have: ${missing.join(', ')}`, missing });
+        return;
+      }
+
+      // One row per distinct valid address; the rest are reported, not stored.
+      const recipients: Array<{ address: string; name: string | null; variables: Record<string, unknown> }> = [];
+      const seen = new Set<string>();
+      let invalid = 0;
+      let duplicates = 0;
+      for (const row of resolved.rows) {
+        const raw = row[resolved.emailColumn];
+        const address = typeof raw === 'string' ? normalizeAddress(raw) : '';
+        if (!/^[^\s@]+@[^\s@]+$/.test(address)) { invalid++; continue; }
+        if (seen.has(address)) { duplicates++; continue; }
+        seen.add(address);
+        const rawName = resolved.nameColumn ? row[resolved.nameColumn] : undefined;
+        recipients.push({
+          address,
+          name: typeof rawName === 'string' && rawName.trim() ? rawName.trim() : null,
+          variables: { ...row, email: address },
+        });
+      }
+      if (recipients.length === 0) {
+        res.status(400).json({ error: 'The source has no recipients with a valid email address', invalid, duplicates });
+        return;
+      }
+
+      const id = uuidv4();
+      const now = new Date().toISOString();
+      const firstSend = window ? applySendWindow(start, window, tz) : start;
+      const insertRecipient = db.prepare(
+        `INSERT INTO campaign_recipients (id, campaign_id, agent_id, position, address, name, variables, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      db.exec('BEGIN');
+      try {
+        db.prepare(
+          `INSERT INTO campaigns (id, agent_id, name, source, subject, text_body, html_body, template_id, list, per_hour,
+             timezone, send_window, start_at, next_send_at, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ).run(
+          id, agentId, name.trim(), JSON.stringify(resolved.source), subject, text || null, html || null, templateId ?? null,
+          list ?? null, rate, tz, window ? JSON.stringify(window) : null, start.toISOString(), firstSend.toISOString(), now, now,
+        );
+        recipients.forEach((r, i) => insertRecipient.run(uuidv4(), id, agentId, i, r.address, r.name, JSON.stringify(r.variables), now));
+        db.exec('COMMIT');
+      } catch (err) {
+        db.exec('ROLLBACK');
+        throw err;
+      }
+      res.json({ ok: true, id, status: 'active', recipients: recipients.length, invalid, duplicates, startAt: firstSend.toISOString() });
+    } catch (err) {
+      if (err instanceof CampaignRequestError) { res.status(err.statusCode).json({ error: err.message }); return; }
+      next(err);
+    }
+  });
+
+  router.get('/campaigns/:id', requireAgent, async (req, res, next) => {
+    try {
+      const row = db.prepare('SELECT * FROM campaigns WHERE id = ? AND agent_id = ?').get(req.params.id, req.agent!.id) as any;
+      if (!row) { res.status(404).json({ error: 'Campaign not found' }); return; }
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      if (status && !(CAMPAIGN_RECIPIENT_STATUSES as readonly string[]).includes(status)) {
+        res.status(400).json({ error: `status must be one of ${CAMPAIGN_RECIPIENT_STATUSES.join(', ')}` });
+        return;
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 1000);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const recipients = db.prepare(
+        `SELECT * FROM campaign_recipients WHERE campaign_id = ? AND (? IS NULL OR status = ?)
+         ORDER BY position LIMIT ? OFFSET ?`,
+      ).all(row.id, status ?? null, status ?? null, limit, offset) as any[];
+      res.json({ campaign: campaignJson(db, row), recipients: recipients.map(recipientJson) });
+    } catch (err) { next(err); }
+  });
+
+  router.post('/campaigns/:id/pause', requireAgent, async (req, res, next) => {
+    try {
+      const result = db.prepare("UPDATE campaigns SET status = 'paused', updated_at = ? WHERE id = ? AND agent_id = ? AND status = 'active'")
+        .run(new Date().toISOString(), req.params.id, req.agent!.id);
+      if (result.changes === 0) { res.status(404).json({ error: 'Campaign not found or not active' }); return; }
+      res.json({ ok: true, status: 'paused' });
+    } catch (err) { next(err); }
+  });
+
+  router.post('/campaigns/:id/resume', requireAgent, async (req, res, next) => {
+    try {
+      const row = db.prepare("SELECT * FROM campaigns WHERE id = ? AND agent_id = ? AND status = 'paused'")
+        .get(req.params.id, req.agent!.id) as any;
+      if (!row) { res.status(404).json({ error: 'Campaign not found or not paused' }); return; }
+      // Sends missed while paused are not made up in a burst.
+      const now = new Date();
+      const next = new Date(Math.max(now.getTime(), Date.parse(row.next_send_at)));
+      db.prepare("UPDATE campaigns SET status = 'active', next_send_at = ?, updated_at = ? WHERE id = ?")
+        .run(next.toISOString(), now.toISOString(), row.id);
+      res.json({ ok: true, status: 'active', nextSendAt: next.toISOString() });
+    } catch (err) { next(err); }
+  });
+
+  router.post('/campaigns/:id/cancel', requireAgent, async (req, res, next) => {
+    try {
+      const now = new Date().toISOString();
+      const result = db.prepare(
+        "UPDATE campaigns SET status = 'cancelled', updated_at = ?, completed_at = ? WHERE id = ? AND agent_id = ? AND status IN ('active', 'paused')",
+      ).run(now, now, req.params.id, req.agent!.id);
+      if (result.changes === 0) { res.status(404).json({ error: 'Campaign not found or already finished' }); return; }
+      const cancelled = db.prepare("UPDATE campaign_recipients SET status = 'cancelled', updated_at = ? WHERE campaign_id = ? AND status = 'queued'")
+        .run(now, req.params.id);
+      res.json({ ok: true, status: 'cancelled', cancelled: Number(cancelled.changes) });
+    } catch (err) { next(err); }
+  });
+
+  return router;
+}
+
+/**
+ * Send due campaign mail. Called from the scheduled-sender loop.
+ *
+ * Each active campaign gets a send slot every `3600 / perHour` seconds
+ * from `next_send_at`; suppressed, unsubscribed and guard-blocked
+ * recipients are settled without using a slot. A campaign that hits an
+ * outbound quota waits until the quota has room, and a failed send
+ * leaves the rest of that campaign for the next sweep.
+ */
+export async function sweepCampaigns(
+  db: Database,
+  accountManager: AccountManager,
+  config: AgenticMailConfig,
+  gatewayManager?: GatewayManager,
+  now: Date = new Date(),
+): Promise<void> {
+  const due = db.prepare("SELECT * FROM campaigns WHERE status = 'active' AND next_send_at <= ? ORDER BY next_send_at")
+    .all(now.toISOString()) as any[];
+  const stamp = now.toISOString();
+  const update = db.prepare(
+    `UPDATE campaign_recipients SET status = ?, attempts = ?, message_id = COALESCE(?, message_id), error = ?,
+       sent_at = COALESCE(?, sent_at), updated_at = ? WHERE id = ?`,
+  );
+  const settle = (recipient: any, status: string, fields: { attempts?: number; messageId?: string; error?: string } = {}) => {
+    update.run(status, fields.attempts ?? recipient.attempts, fields.messageId ?? null, fields.error ?? null,
+      status === 'sent' ? stamp : null, stamp, recipient.id);
+  };
+
+  for (const campaign of due) {
+    const agent = await accountManager.getById(campaign.agent_id);
+    if (!agent) {
+      db.prepare("UPDATE campaigns SET status = 'cancelled', updated_at = ?, completed_at = ? WHERE id = ?").run(stamp, stamp, campaign.id);
+      db.prepare("UPDATE campaign_recipients SET status = 'cancelled', error = 'Agent not found', updated_at = ? WHERE campaign_id = ? AND status = 'queued'")
+        .run(stamp, campaign.id);
+      continue;
+    }
+
+    const tz = campaign.timezone || 'UTC';
+    const window: SendWindow | null = campaign.send_window ? JSON.parse(campaign.send_window) : null;
+    if (window) {
+      const open = applySendWindow(now, window, tz);
+      if (open.getTime() > now.getTime()) {
+        db.prepare('UPDATE campaigns SET next_send_at = ?, updated_at = ? WHERE id = ?').run(open.toISOString(), stamp, campaign.id);
+        continue;
+      }
+    }
+
+    const policy = loadOutboundPolicy(config.dataDir, agent.name);
+    const ownerName = (agent.metadata as Record<string, any>)?.ownerName;
+    const fromName = ownerName ? `${agent.name} from ${ownerName}` : agent.name;
+    const baseUrl = campaign.list ? publicBaseUrl(config, gatewayManager) : null;
+
+    /** Settle one recipient; only 'sent' (and a thrown send error) used a send slot. */
+    const sendTo = async (recipient: any): Promise<'sent' | 'blocked' | 'skipped' | 'failed'> => {
+      const blocked = checkRecipients(db, agent.id, { to: recipient.address }, { bulkList: campaign.list ?? undefined });
+      if (blocked) {
+        settle(recipient, 'skipped', {
+          error: blocked.reason === 'suppressed' ? `suppressed (${blocked.suppressed[0].reason})` : `unsubscribed from list "${blocked.list}"`,
+        });
+        return 'skipped';
+      }
+
+      const rendered = renderEmailTemplate(
+        { subject: campaign.subject, text: campaign.text_body, html: campaign.html_body },
+        JSON.parse(recipient.variables),
+        signaturePartials(db, agent.id),
+      );
+      if (rendered.errors.length > 0) {
+        settle(recipient, 'failed', { error: `template: ${describeTemplateErrors(rendered.errors)}` });
+        return 'failed';
+      }
+      let { subject, text, html } = rendered;
+      const to = recipient.name ? `"${recipient.name.replace(/["\\\r\n]/g, '')}" <${recipient.address}>` : recipient.address;
+
+      // The same guard /mail/send applies; blocked mail is not held for approval.
+      const scan = scanOutboundEmail({ to, subject, text, html }, policy);
+      if (scan.redacted) {
+        subject = scan.redacted.subject ?? subject;
+        text = scan.redacted.text ?? text;
+        html = scan.redacted.html ?? html;
+      }
+      if (scan.blocked) {
+        settle(recipient, 'blocked', { error: scan.summary });
+        return 'blocked';
+      }
+
+      if (campaign.list && !baseUrl) throw new Error('list needs a public URL (publicUrl or domain mode) for its unsubscribe link');
+      const headers = campaign.list && baseUrl
+        ? bulkUnsubscribeHeaders(baseUrl, config.masterKey, { agentId: agent.id, list: campaign.list, recipient: recipient.address })
+        : undefined;
+      const mailOpts = { to, subject, text, html, fromName, ...(headers ? { headers } : {}) };
+
+      let messageId: string | undefined;
+      const gatewayResult = gatewayManager ? await gatewayManager.routeOutbound(agent.name, mailOpts) : null;
+      if (gatewayResult) {
+        messageId = gatewayResult.messageId;
+      } else {
+        const sender = new MailSender({
+          host: config.smtp.host,
+          port: config.smtp.port,
+          email: agent.email,
+          password: getAgentPassword(agent),
+          authUser: agent.stalwartPrincipal,
+        });
+        try {
+          messageId = (await sender.send(mailOpts)).messageId;
+        } finally {
+          sender.close();
+        }
+      }
+      settle(recipient, 'sent', { attempts: recipient.attempts + 1, ...(messageId ? { messageId: bracketed(messageId) } : {}) });
+      recordSentMail(db, agent.id, messageId, mailOpts);
+      emitWebhookEvent('mail.sent', agent.id, { messageId, to, subject, campaignId: campaign.id });
+      return 'sent';
+    };
+
+    const interval = 3_600_000 / campaign.per_hour;
+    let slot = Math.max(Date.parse(campaign.next_send_at), now.getTime() - CAMPAIGN_CATCH_UP_MS);
+    const queued = db.prepare("SELECT * FROM campaign_recipients WHERE campaign_id = ? AND status = 'queued' ORDER BY position LIMIT ?")
+      .all(campaign.id, CAMPAIGN_BATCH) as any[];
+
+    for (const recipient of queued) {
+      if (slot > now.getTime()) break;
+      // Paused or cancelled while this sweep was sending.
+      const current = db.prepare('SELECT status FROM campaigns WHERE id = ?').get(campaign.id) as { status: string } | undefined;
+      if (current?.status !== 'active') break;
+      try {
+        if (await sendTo(recipient) === 'sent') slot += interval;
+      } catch (err) {
+        const message = (err as Error).message;
+        if (err instanceof OutboundQuotaError) {
+          // Over quota is a wait, not a failure.
+          settle(recipient, 'queued', { error: message });
+          slot = now.getTime() + err.retryAfterSeconds * 1000;
+          break;
+        }
+        const attempts = recipient.attempts + 1;
+        settle(recipient, attempts >= CAMPAIGN_MAX_ATTEMPTS ? 'failed' : 'queued', { attempts, error: message });
+        slot += interval;
+        break;
+      }
+    }
+
+    const left = db.prepare("SELECT COUNT(*) AS n FROM campaign_recipients WHERE campaign_id = ? AND status = 'queued'")
+      .get(campaign.id) as { n: number };
+    if (left.n === 0) {
+      db.prepare("UPDATE campaigns SET status = 'completed', updated_at = ?, completed_at = ? WHERE id = ? AND status = 'active'")
+        .run(stamp, stamp, campaign.id);
+    } else {
+      db.prepare('UPDATE campaigns SET next_send_at = ?, updated_at = ? WHERE id = ?')
+        .run(new Date(slot).toISOString(), stamp, campaign.id);
+    }
+  }
+}
+
+/**
+ * Match a message that reached an agent's inbox against the agent's
+ * campaign mail: a bounce marks the recipient it names `bounced`, any
+ * other mail whose In-Reply-To / References names a campaign message
+ * marks that recipient `replied`.
+ */
+export function trackCampaignMail(
+  db: Database,
+  agentId: string,
+  email: Pick<ParsedEmail, 'inReplyTo' | 'references'>,
+  bounce?: ReturnType<typeof recordInboundBounce>,
+): void {
+  const stamp = new Date().toISOString();
+  if (bounce) {
+    const failed = bounce.recipients.filter(r => r.action === 'failed');
+    const mark = db.prepare(
+      `UPDATE campaign_recipients SET status = 'bounced', bounced_at = ?, error = ?, updated_at = ?
+       WHERE agent_id = ? AND address = ? AND status = 'sent' AND (? IS NULL OR message_id = ?)`,
+    );
+    const original = bounce.originalMessageId ? bracketed(bounce.originalMessageId) : null;
+    for (const r of failed) {
+      mark.run(stamp, r.diagnostic ?? r.status ?? 'bounced', stamp, agentId, r.address, original, original);
+    }
+    return;
+  }
+
+  const ids = [email.inReplyTo, ...(email.references ?? [])].filter((id): id is string => !!id?.trim()).map(bracketed);
+  if (ids.length === 0) return;
+  db.prepare(
+    `UPDATE campaign_recipients SET status = 'replied', replied_at = ?, updated_at = ?
+     WHERE agent_id = ? AND status = 'sent' AND message_id IN (${ids.map(() => '?').join(', ')})`,
+  ).run(stamp, stamp, agentId, ...ids);
+}
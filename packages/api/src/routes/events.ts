@@ -1,35 +1,82 @@
 import { Router } from 'express';
-import type { Response } from 'express';
+import type { Request, Response } from 'express';
 import {
   InboxWatcher,
   MailReceiver,
+  MailSender,
+  onChannelActivity,
   parseEmail,
-  scoreEmail,
-  isInternalEmail,
-  classifyEmailRoute,
+  scanOutboundEmail,
+  loadOutboundPolicy,
+  SpamModel,
+  type Agent,
   type AccountManager,
   type AgenticMailConfig,
+  type Database,
+  type GatewayManager,
+  type ParsedEmail,
+  type SendMailOptions,
 } from '@agenticmail/core';
 import { v4 as uuidv4 } from 'uuid';
-import { requireAgent, touchActivity } from '../middleware/auth.js';
-import { getAgentPassword } from './mail.js';
+import { requireAgent, requireAuth, requireMaster, touchActivity } from '../middleware/auth.js';
+import { checkRecipients, describeRecipientBlock, getAgentPassword, recordInboundBounce, recordSentMail } from './mail.js';
 import { evaluateRules } from './features.js';
+import { trackCampaignMail } from './campaigns.js';
+import { trackCalendarReply } from './calendar.js';
 import { pushSystemEvent } from './system-events.js';
+import {
+  agentEventFrame,
+  attachEventJournal,
+  currentFirehoseEventId,
+  firehoseEventsSince,
+  firehoseFrame,
+  firehoseStreamCount,
+  onFirehoseEvent,
+  publishAgentEvent,
+  publishedEventId,
+  queryEvents,
+  trackFirehoseStream,
+} from './firehose.js';
+import {
+  classifyForRules,
+  isAutomatedMessage,
+  ruleAccountContext,
+  type RuleAction,
+  type RulePlan,
+} from '../lib/email-rules.js';
+import { describeTemplateErrors, renderEmailTemplate, signaturePartials } from '../lib/template-engine.js';
 
 const MAX_SSE_PER_AGENT = 5;
-const activeWatchers = new Map<string, Set<{ watcher: InboxWatcher; res: Response }>>();
+const MAX_FIREHOSE_STREAMS = 5;
+const MAX_HISTORY_LIMIT = 1000;
+/** Firehose watches outlive the last stream by this long so a reconnect doesn't miss mail. */
+const FIREHOSE_LINGER_MS = 60_000;
+/** Safety-net re-sync of firehose watches against the account list. */
+const FIREHOSE_SYNC_INTERVAL_MS = 30_000;
+
+// SMS, Telegram and call records can come from core pollers as well as
+// API routes; core announces them all on one feed.
+onChannelActivity(({ agentId, ...event }) => {
+  publishAgentEvent(agentId, event);
+});
+
+/** Open per-agent `/events` connections, for direct pushes. */
+const activeStreams = new Map<string, Set<Response>>();
 
 /**
  * Push an event directly to an agent's active SSE connections.
  * Used by the task RPC endpoint to instantly notify the target agent
  * without relying on SMTP email delivery → IMAP IDLE → SSE chain.
+ * The event also goes to the firehose; the return value only reflects
+ * the agent's own connections.
  */
 export function pushEventToAgent(agentId: string, event: Record<string, unknown>): boolean {
-  const watchers = activeWatchers.get(agentId);
-  if (!watchers || watchers.size === 0) return false;
-  const data = `data: ${JSON.stringify(event)}\n\n`;
-  for (const entry of watchers) {
-    try { entry.res.write(data); } catch { /* ignore write-after-end */ }
+  const id = publishAgentEvent(agentId, event);
+  const streams = activeStreams.get(agentId);
+  if (!streams || streams.size === 0) return false;
+  const data = agentEventFrame(id, event);
+  for (const res of streams) {
+    try { res.write(data); } catch { /* ignore write-after-end */ }
   }
   return true;
 }
@@ -38,14 +85,16 @@ export function pushEventToAgent(agentId: string, event: Record<string, unknown>
  * Broadcast an event to ALL active SSE connections.
  * Used as a fallback when the targeted push finds no watchers for the
  * assignee — common when OpenClaw sub-agents act on behalf of a target
- * agent under a different identity.
+ * agent under a different identity. An event that was already pushed
+ * keeps the id it was journaled under; anything else is journaled
+ * without an agent.
  */
 export function broadcastEvent(event: Record<string, unknown>): number {
-  const data = `data: ${JSON.stringify(event)}\n\n`;
+  const data = agentEventFrame(publishedEventId(event) ?? publishAgentEvent(null, event), event);
   let count = 0;
-  for (const [, watchers] of activeWatchers) {
-    for (const entry of watchers) {
-      try { entry.res.write(data); count++; } catch { /* ignore */ }
+  for (const [, streams] of activeStreams) {
+    for (const res of streams) {
+      try { res.write(data); count++; } catch { /* ignore */ }
     }
   }
   return count;
@@ -53,48 +102,626 @@ export function broadcastEvent(event: Record<string, unknown>): number {
 
 /** Cleanup all active SSE watchers (called on shutdown) */
 export async function closeAllWatchers(): Promise<void> {
-  for (const [, watchers] of activeWatchers) {
-    for (const entry of watchers) {
-      try { await entry.watcher.stop(); } catch { /* ignore */ }
-      try { entry.res.end(); } catch { /* ignore */ }
+  stopFirehoseWatches();
+  for (const [, streams] of activeStreams) {
+    for (const res of streams) {
+      try { res.end(); } catch { /* ignore */ }
+    }
+  }
+  activeStreams.clear();
+  const open = [...mailboxes.values()];
+  mailboxes.clear();
+  for (const mailbox of open) {
+    mailbox.watcher.removeAllListeners();
+    try { await mailbox.watcher.stop(); } catch { /* ignore */ }
+  }
+}
+
+interface MailboxDeps {
+  accountManager: AccountManager;
+  config: AgenticMailConfig;
+  db?: Database;
+  gatewayManager?: GatewayManager;
+}
+
+type MailboxListener = (event: Record<string, unknown>, id: number) => void;
+
+interface Mailbox {
+  watcher: InboxWatcher;
+  listeners: Set<MailboxListener>;
+  ready: Promise<void>;
+}
+
+/**
+ * One IMAP IDLE watcher per agent, shared by the agent's `/events`
+ * connections and the firehose, so the spam filter and rules run once
+ * per message rather than once per connection.
+ */
+const mailboxes = new Map<string, Mailbox>();
+
+/**
+ * Subscribe to an agent's processed mailbox events, starting its
+ * watcher if nobody else is watching. Rejects if the watcher cannot
+ * start. Resolves to the unsubscribe function; the last one out stops
+ * the watcher.
+ */
+async function watchMailbox(agent: Agent, deps: MailboxDeps, listener: MailboxListener): Promise<() => void> {
+  let mailbox = mailboxes.get(agent.id);
+  if (!mailbox) {
+    mailbox = openMailbox(agent, deps);
+    mailboxes.set(agent.id, mailbox);
+  }
+  const current = mailbox;
+  current.listeners.add(listener);
+  try {
+    await current.ready;
+  } catch (err) {
+    current.listeners.delete(listener);
+    if (mailboxes.get(agent.id) === current) mailboxes.delete(agent.id);
+    throw err;
+  }
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    current.listeners.delete(listener);
+    if (current.listeners.size > 0 || mailboxes.get(agent.id) !== current) return;
+    mailboxes.delete(agent.id);
+    current.watcher.removeAllListeners();
+    current.watcher.stop().catch((err) => {
+      console.error('[SSE] Watcher cleanup error:', err);
+    });
+  };
+}
+
+export interface RuleActionResult {
+  type: RuleAction['type'];
+  ok: boolean;
+  detail?: string;
+}
+
+export interface RulePipelineContext {
+  db: Database;
+  agent: Agent;
+  receiver: MailReceiver;
+  uid: number;
+  email: ParsedEmail;
+  accountManager: AccountManager;
+  config: AgenticMailConfig;
+  gatewayManager?: GatewayManager;
+}
+
+/**
+ * Send mail generated by a rule. Suppressed recipients (hard bounces,
+ * MAILER-DAEMON) are refused as they are for `/mail/send`, so an
+ * auto-reply can't loop with a bounce. Then the outbound guard runs as
+ * for an agent-initiated send — a rule must not become a way to forward
+ * credentials out of the mailbox without approval — then the gateway,
+ * then local SMTP. Attachments are scanned too; a hit inside one can't
+ * be redacted, so the guard blocks the whole send rather than letting
+ * a redacted body travel with the attachment. Returns a failure
+ * reason, or null on success.
+ */
+async function sendRuleMail(ctx: RulePipelineContext, mailOpts: SendMailOptions): Promise<string | null> {
+  const blocked = checkRecipients(ctx.db, ctx.agent.id, mailOpts);
+  if (blocked) return `not sent: ${describeRecipientBlock(blocked)}`;
+
+  const scan = scanOutboundEmail({
+    to: mailOpts.to,
+    cc: mailOpts.cc,
+    bcc: mailOpts.bcc,
+    subject: mailOpts.subject,
+    text: mailOpts.text,
+    html: mailOpts.html,
+    attachments: mailOpts.attachments,
+  }, loadOutboundPolicy(ctx.config.dataDir, ctx.agent.name));
+  if (scan.blocked) return `blocked by outbound guard: ${scan.summary}`;
+  if (scan.redacted) mailOpts = { ...mailOpts, ...scan.redacted };
+
+  if (ctx.gatewayManager) {
+    const gatewayResult = await ctx.gatewayManager.routeOutbound(ctx.agent.name, mailOpts);
+    if (gatewayResult) {
+      recordSentMail(ctx.db, ctx.agent.id, gatewayResult.messageId, mailOpts);
+      return null;
+    }
+  }
+  const sender = new MailSender({
+    host: ctx.config.smtp.host,
+    port: ctx.config.smtp.port,
+    email: ctx.agent.email,
+    password: getAgentPassword(ctx.agent),
+    authUser: ctx.agent.stalwartPrincipal,
+  });
+  try {
+    const result = await sender.send(mailOpts);
+    recordSentMail(ctx.db, ctx.agent.id, result.messageId, mailOpts);
+    return null;
+  } finally {
+    sender.close();
+  }
+}
+
+/**
+ * Execute a rule pipeline against a freshly-delivered INBOX message.
+ *
+ * Steps run in order and one failing step does not abort the rest —
+ * every step reports its own outcome. `move` and `delete` take the
+ * message out of INBOX, so flag/tag steps after them are skipped (the
+ * UID is no longer valid there); `delete` ends the pipeline.
+ */
+export async function runRulePipeline(ctx: RulePipelineContext, plan: RulePlan): Promise<{ deleted: boolean; results: RuleActionResult[] }> {
+  const { db, agent, receiver, uid, email } = ctx;
+  const results: RuleActionResult[] = [];
+  let folder: string | null = 'INBOX';
+  let deleted = false;
+  const sender = email.from[0]?.address ?? '';
+
+  for (const action of plan.actions) {
+    try {
+      switch (action.type) {
+        case 'tag': {
+          if (!folder) { results.push({ type: action.type, ok: false, detail: 'message already moved' }); break; }
+          for (const name of action.tags) {
+            const tagName = String(name).trim();
+            if (!tagName) continue;
+            db.prepare('INSERT OR IGNORE INTO tags (id, agent_id, name) VALUES (?, ?, ?)').run(uuidv4(), agent.id, tagName);
+            const tag = db.prepare('SELECT id FROM tags WHERE agent_id = ? AND name = ?').get(agent.id, tagName) as { id: string };
+            db.prepare('INSERT OR IGNORE INTO message_tags (agent_id, message_uid, tag_id, folder) VALUES (?, ?, ?, ?)')
+              .run(agent.id, uid, tag.id, folder);
+          }
+          results.push({ type: action.type, ok: true });
+          break;
+        }
+        case 'mark_read':
+          if (!folder) { results.push({ type: action.type, ok: false, detail: 'message already moved' }); break; }
+          await receiver.markSeen(uid, folder);
+          results.push({ type: action.type, ok: true });
+          break;
+        case 'move':
+          if (!folder) { results.push({ type: action.type, ok: false, detail: 'message already moved' }); break; }
+          if (action.folder !== folder) {
+            await receiver.moveMessage(uid, folder, action.folder);
+            folder = null;
+          }
+          results.push({ type: action.type, ok: true, detail: action.folder });
+          break;
+        case 'delete':
+          if (folder) await receiver.deleteMessage(uid, folder);
+          deleted = true;
+          results.push({ type: action.type, ok: true });
+          break;
+        case 'forward': {
+          const quoted = [
+            '---------- Forwarded message ----------',
+            `From: ${sender}`,
+            `Date: ${email.date.toISOString()}`,
+            `Subject: ${email.subject}`,
+            `To: ${email.to.map(a => a.address).join(', ')}`,
+            '',
+            email.text ?? '',
+          ].join('\n');
+          const failure = await sendRuleMail(ctx, {
+            to: action.to,
+            subject: /^fwd?:/i.test(email.subject) ? email.subject : `Fwd: ${email.subject}`,
+            text: action.note ? `${action.note}\n\n${quoted}` : quoted,
+            attachments: email.attachments.map(a => ({ filename: a.filename, content: a.content, contentType: a.contentType })),
+          });
+          results.push({ type: action.type, ok: !failure, detail: failure ?? action.to });
+          break;
+        }
+        case 'auto_reply': {
+          if (isAutomatedMessage(email) || !sender || sender.toLowerCase() === agent.email.toLowerCase()) {
+            results.push({ type: action.type, ok: false, detail: 'skipped: automated sender' });
+            break;
+          }
+          const template = db.prepare('SELECT * FROM templates WHERE agent_id = ? AND (id = ? OR name = ?)')
+            .get(agent.id, action.template, action.template) as any;
+          if (!template) { results.push({ type: action.type, ok: false, detail: `template "${action.template}" not found` }); break; }
+          const rendered = renderEmailTemplate({
+            subject: template.subject,
+            text: template.text_body,
+            html: template.html_body,
+            schema: template.variable_schema ? JSON.parse(template.variable_schema) : null,
+          }, {
+            from_name: email.from[0]?.name || sender,
+            from_email: sender,
+            subject: email.subject,
+            ...(action.variables ?? {}),
+          }, signaturePartials(db, agent.id));
+          if (rendered.errors.length > 0) {
+            results.push({ type: action.type, ok: false, detail: `template "${action.template}": ${describeTemplateErrors(rendered.errors)}` });
+            break;
+          }
+          const replyTo = email.replyTo?.[0]?.address || sender;
+          const failure = await sendRuleMail(ctx, {
+            to: replyTo,
+            subject: template.subject ? rendered.subject : (/^re:/i.test(email.subject) ? email.subject : `Re: ${email.subject}`),
+            text: rendered.text,
+            html: rendered.html,
+            inReplyTo: email.messageId || undefined,
+            references: [...(email.references ?? []), ...(email.messageId ? [email.messageId] : [])],
+            headers: { 'Auto-Submitted': 'auto-replied' },
+          });
+          results.push({ type: action.type, ok: !failure, detail: failure ?? replyTo });
+          break;
+        }
+        case 'assign_task': {
+          const target = await ctx.accountManager.getByName(action.assignee);
+          if (!target) { results.push({ type: action.type, ok: false, detail: `agent "${action.assignee}" not found` }); break; }
+          const taskId = uuidv4();
+          const payload = {
+            task: action.task || `Handle the email "${email.subject}" from ${sender}.`,
+            email: { uid, messageId: email.messageId, from: sender, subject: email.subject, agent: agent.name },
+          };
+          db.prepare(
+            'INSERT INTO agent_tasks (id, assigner_id, assignee_id, task_type, payload) VALUES (?, ?, ?, ?, ?)'
+          ).run(taskId, agent.id, target.id, action.taskType || 'email_rule', JSON.stringify(payload));
+          const spawnEvent = {
+            type: 'task', taskId, taskType: 'rpc',
+            task: `You have a pending task (ID: ${taskId}). Check your pending tasks, claim it, process it, and submit the result.\n\nType: ${action.taskType || 'email_rule'}\nTask: ${payload.task}`,
+            assignee: target.name, from: agent.name,
+          };
+          if (!pushEventToAgent(target.id, spawnEvent)) broadcastEvent(spawnEvent);
+          results.push({ type: action.type, ok: true, detail: taskId });
+          break;
+        }
+      }
+    } catch (err) {
+      results.push({ type: action.type, ok: false, detail: (err as Error).message });
     }
+    if (deleted) break;
   }
-  activeWatchers.clear();
+  return { deleted, results };
+}
+
+/**
+ * Start an agent's IMAP watcher and hook up the inbound pipeline. New
+ * mail goes through the spam filter and the agent's rules before it is
+ * handed to listeners; everything the watcher reports is journaled and
+ * published to the firehose first, so listeners get its event id.
+ */
+function openMailbox(agent: Agent, deps: MailboxDeps): Mailbox {
+  const { accountManager, config, db, gatewayManager } = deps;
+  const password = getAgentPassword(agent);
+  const watcher = new InboxWatcher({
+    host: config.imap.host,
+    port: config.imap.port,
+    email: agent.stalwartPrincipal,
+    password,
+    autoReconnect: true,
+    maxReconnectAttempts: 20,
+  });
+  const listeners = new Set<MailboxListener>();
+
+  const emit = (e: Record<string, unknown>): void => {
+    const id = publishAgentEvent(agent.id, e);
+    for (const listener of listeners) {
+      try { listener(e, id); } catch { /* a closed connection must not stop the others */ }
+    }
+  };
+
+  // Helper: every new-mail event MUST land in two places —
+  //   (a) the per-agent /events SSE and the firehose (`emit`), which
+  //       the dispatcher daemons listen on; and
+  //   (b) the master /system/events bus, which the web UI listens on
+  //       since 0.9.9 (one shared SSE replaces N per-agent ones).
+  // Multiple code paths below early-return after firing (a) — internal
+  // agent-to-agent mail, spam-routed mail, deleted-by-rule mail. Before
+  // 0.9.x had this helper, those paths skipped (b) entirely, which
+  // silently broke the web UI's chime/notification for the EXACT
+  // traffic class users see most: agent-to-agent threads.
+  const broadcastNew = (e: Record<string, unknown>) => {
+    emit(e);
+    try {
+      pushSystemEvent({
+        type: 'new_mail',
+        agentId: agent.id,
+        agentName: agent.name,
+        event: e,
+      });
+    } catch { /* never fatal — per-agent stream is the primary path */ }
+  };
+
+  const pipelineContext = (receiver: MailReceiver, uid: number, email: ParsedEmail): RulePipelineContext => ({
+    db: db!, agent, receiver, uid, email, accountManager, config, gatewayManager,
+  });
+  // `ruleId` / `actions` keep the pre-pipeline event shape for
+  // consumers that only read the first matching rule.
+  const ruleAppliedSummary = (plan: RulePlan, results: RuleActionResult[]) => ({
+    ruleId: plan.matches[0].ruleId,
+    rules: plan.matches.map(m => ({ id: m.ruleId, name: m.ruleName })),
+    actions: plan.actions,
+    results,
+  });
+
+  watcher.on('new', async (event) => {
+    // Agent is active — receiving events via SSE
+    if (db) touchActivity(db, agent.id);
+
+    // Run spam filter + rules if db is available
+    if (db && event.uid) {
+      try {
+        const receiver = new MailReceiver({
+          host: config.imap.host, port: config.imap.port,
+          email: agent.stalwartPrincipal, password,
+          secure: false,
+        });
+        await receiver.connect();
+        try {
+          const raw = await receiver.fetchMessage(event.uid);
+          const parsed = await parseEmail(raw);
+
+          // --- Bounces / DSNs: recorded before the spam filter can move them.
+          // Only a bounce of mail this agent sent suppresses its recipient,
+          // so a forged report is just a log row. ---
+          const bounce = recordInboundBounce(db, agent.id, raw, parsed.messageId);
+          if (bounce) (event as any).bounce = bounce;
+          // Campaign progress: bounces and replies to campaign mail.
+          trackCampaignMail(db, agent.id, parsed, bounce);
+          // RSVPs to invites the agent organised.
+          trackCalendarReply(db, agent.id, parsed);
+
+          // --- Spam filter (runs BEFORE rules, skipped for internal emails) ---
+          const verdict = classifyForRules(parsed, ruleAccountContext(agent), new SpamModel(db).forAgent(agent.id));
+          (event as any).route = verdict.route;
+          if (verdict.internal || !verdict.spam) {
+            // Internal agent-to-agent email — skip spam filter entirely
+            const rulePlan = evaluateRules(db, agent.id, parsed, verdict.context);
+            if (rulePlan) {
+              const outcome = await runRulePipeline(pipelineContext(receiver, event.uid, parsed), rulePlan);
+              if (outcome.deleted) return;
+              (event as any).ruleApplied = ruleAppliedSummary(rulePlan, outcome.results);
+            }
+            broadcastNew(event as Record<string, unknown>);
+            return;
+          }
+
+          const spamResult = verdict.spam;
+
+          // Log to spam_log
+          try {
+            db.prepare(
+              'INSERT INTO spam_log (id, agent_id, message_uid, score, flags, category, is_spam) VALUES (?, ?, ?, ?, ?, ?, ?)'
+            ).run(
+              uuidv4(), agent.id, event.uid, spamResult.score,
+              JSON.stringify(spamResult.matches.map(m => m.ruleId)),
+              spamResult.topCategory, spamResult.isSpam ? 1 : 0,
+            );
+          } catch { /* ignore log errors */ }
+
+          if (spamResult.isSpam) {
+            // Resolve the EXISTING junk folder before falling back to
+            // creating a new "Spam" folder. Stalwart ships with "Junk
+            // Mail" by default; hardcoding "Spam" here meant every
+            // spam-classified message landed in a brand-new "Spam"
+            // folder while the web UI's Spam tab queried "Junk Mail"
+            // (the one the FOLDER_MATCHERS regex resolves to). Net:
+            // user-reported spam ✓ visible, but server-classified
+            // spam ✗ silently disappearing into a parallel folder.
+            let spamFolder = 'Spam';
+            try {
+              const folders = await receiver.listFolders();
+              const junkRe = /^junk\b|junk mail|^spam\b|\[gmail\]\/spam/i;
+              const existing =
+                folders.find(f => f.specialUse === '\\Junk')?.path
+                ?? folders.find(f => junkRe.test(f.name) || junkRe.test(f.path))?.path;
+              if (existing) {
+                spamFolder = existing;
+              } else {
+                try { await receiver.createFolder('Spam'); } catch { /* race */ }
+              }
+            } catch {
+              // listFolders failed — fall back to creating "Spam" the
+              // way we used to. Better than dropping the message.
+              try { await receiver.createFolder('Spam'); } catch { /* race */ }
+            }
+            await receiver.moveMessage(event.uid, 'INBOX', spamFolder);
+            (event as any).spam = { score: spamResult.score, probability: spamResult.probability, category: spamResult.topCategory, movedToSpam: true, folder: spamFolder };
+            broadcastNew(event as Record<string, unknown>);
+            return;
+          }
+          if (spamResult.isWarning) {
+            (event as any).spamWarning = { score: spamResult.score, probability: spamResult.probability, category: spamResult.topCategory, matches: spamResult.matches.map(m => m.ruleId) };
+          }
+
+          // --- Email rules (runs AFTER spam filter) ---
+          const rulePlan = evaluateRules(db, agent.id, parsed, verdict.context);
+          if (rulePlan) {
+            const outcome = await runRulePipeline(pipelineContext(receiver, event.uid, parsed), rulePlan);
+            if (outcome.deleted) return;
+            (event as any).ruleApplied = ruleAppliedSummary(rulePlan, outcome.results);
+          }
+        } finally {
+          await receiver.disconnect();
+        }
+      } catch (err) {
+        console.error('[SSE] Spam/rule evaluation error:', (err as Error).message);
+      }
+    }
+    broadcastNew(event as Record<string, unknown>);
+  });
+
+  watcher.on('expunge', (event) => emit(event as unknown as Record<string, unknown>));
+  watcher.on('flags', (event) => emit(event as unknown as Record<string, unknown>));
+  watcher.on('error', (err) => emit({ type: 'error', message: err.message }));
+  watcher.on('reconnecting', (info) => emit({ type: 'reconnecting', attempt: info.attempt, delayMs: info.delayMs }));
+  watcher.on('reconnected', (info) => emit({ type: 'reconnected', attempt: info.attempt }));
+  watcher.on('reconnect_failed', (info) => emit({ type: 'reconnect_failed', attempts: info.attempts }));
+
+  const ready = watcher.start();
+  ready.catch(() => { watcher.removeAllListeners(); });
+  return { watcher, listeners, ready };
+}
+
+// ─── Firehose watches ───
+//
+// While anything holds them — an open /events/all stream, or a webhook
+// subscribed to mail — every account's mailbox is watched so its mail
+// reaches the firehose even when no per-agent connection exists.
+// Account create/delete events re-sync immediately; a timer re-syncs
+// as a safety net and retries watchers that failed.
+
+const firehoseWatches = new Map<string, () => void>();
+const firehoseFailures = new Map<string, string>();
+let firehoseSyncTimer: ReturnType<typeof setInterval> | null = null;
+let firehoseLingerTimer: ReturnType<typeof setTimeout> | null = null;
+let firehoseTapOff: (() => void) | null = null;
+let firehoseSyncing: Promise<void> | null = null;
+let firehoseResync = false;
+let firehoseHolds = 0;
+/** Set by createEventRoutes; holds taken before then are no-ops. */
+let firehoseDeps: MailboxDeps | null = null;
+
+/**
+ * Keep every account's mailbox watched until the returned function is
+ * called. Watches linger for a minute after the last hold is released.
+ */
+export function holdAllMailboxes(): () => void {
+  const deps = firehoseDeps;
+  if (!deps) return () => { /* event routes not mounted */ };
+  firehoseHolds++;
+  ensureFirehoseWatches(deps);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    firehoseHolds--;
+    releaseFirehoseWatches();
+  };
+}
+
+function ensureFirehoseWatches(deps: MailboxDeps): void {
+  if (firehoseLingerTimer) { clearTimeout(firehoseLingerTimer); firehoseLingerTimer = null; }
+  if (firehoseSyncTimer) return;
+  firehoseSyncTimer = setInterval(() => { void syncFirehoseWatches(deps); }, FIREHOSE_SYNC_INTERVAL_MS);
+  firehoseSyncTimer.unref?.();
+  firehoseTapOff = onFirehoseEvent((e) => {
+    if (e.event.type === 'account_created' || e.event.type === 'account_deleted') void syncFirehoseWatches(deps);
+  });
+  void syncFirehoseWatches(deps);
 }
 
-export function createEventRoutes(accountManager: AccountManager, config: AgenticMailConfig, db?: import('@agenticmail/core').Database): Router {
+function releaseFirehoseWatches(): void {
+  if (firehoseHolds > 0 || firehoseLingerTimer) return;
+  firehoseLingerTimer = setTimeout(() => {
+    firehoseLingerTimer = null;
+    if (firehoseHolds === 0) stopFirehoseWatches();
+  }, FIREHOSE_LINGER_MS);
+  firehoseLingerTimer.unref?.();
+}
+
+function stopFirehoseWatches(): void {
+  if (firehoseLingerTimer) { clearTimeout(firehoseLingerTimer); firehoseLingerTimer = null; }
+  if (firehoseSyncTimer) { clearInterval(firehoseSyncTimer); firehoseSyncTimer = null; }
+  firehoseTapOff?.();
+  firehoseTapOff = null;
+  for (const unwatch of firehoseWatches.values()) unwatch();
+  firehoseWatches.clear();
+  firehoseFailures.clear();
+}
+
+/** Watch every account's mailbox and drop watches for deleted accounts. */
+async function syncFirehoseWatches(deps: MailboxDeps): Promise<void> {
+  if (firehoseSyncing) { firehoseResync = true; return firehoseSyncing; }
+  firehoseSyncing = (async () => {
+    do {
+      firehoseResync = false;
+      let agents: Agent[];
+      try { agents = await deps.accountManager.list(); } catch { return; }
+      const ids = new Set(agents.map(a => a.id));
+      for (const [id, unwatch] of firehoseWatches) {
+        if (!ids.has(id)) { unwatch(); firehoseWatches.delete(id); }
+      }
+      for (const agent of agents) {
+        if (!firehoseSyncTimer) return;
+        if (firehoseWatches.has(agent.id)) continue;
+        try {
+          const unwatch = await watchMailbox(agent, deps, () => { /* keeps the watcher alive; emit publishes */ });
+          // Streams may all have gone (and the linger expired) meanwhile.
+          if (!firehoseSyncTimer) { unwatch(); return; }
+          firehoseWatches.set(agent.id, unwatch);
+          firehoseFailures.delete(agent.id);
+        } catch (err) {
+          const message = (err as Error).message;
+          // Report each distinct failure once rather than every re-sync.
+          if (firehoseFailures.get(agent.id) !== message) {
+            firehoseFailures.set(agent.id, message);
+            publishAgentEvent(agent.id, { type: 'watch_error', message });
+          }
+        }
+      }
+    } while (firehoseResync);
+  })().finally(() => { firehoseSyncing = null; });
+  return firehoseSyncing;
+}
+
+/**
+ * Where a reconnecting client wants replay to start: the standard
+ * `Last-Event-ID` header, or `?lastEventId=` / `?since=` for clients
+ * that can't set headers. `since` takes an event id or an ISO
+ * timestamp. Undefined when none was given, null when malformed.
+ */
+function resumePoint(req: Request): number | Date | null | undefined {
+  const query = (name: string) => (typeof req.query[name] === 'string' ? (req.query[name] as string).trim() : undefined);
+  const raw = req.get('last-event-id')?.trim() ?? query('lastEventId') ?? query('since');
+  if (raw === undefined || raw === '') return undefined;
+  if (/^\d+$/.test(raw)) return Number(raw);
+  const at = new Date(raw);
+  return isNaN(at.getTime()) ? null : at;
+}
+
+/** Replay control frame: the journal can't cover everything after the resume point. */
+function replayGapFrame(from: number | Date, events: Array<{ id: number }>): string {
+  const resumedFrom = from instanceof Date ? { since: from.toISOString() } : { lastEventId: from };
+  return `data: ${JSON.stringify({ type: 'replay_gap', ...resumedFrom, oldestEventId: events[0]?.id ?? null })}\n\n`;
+}
+
+export function createEventRoutes(
+  accountManager: AccountManager,
+  config: AgenticMailConfig,
+  db?: Database,
+  gatewayManager?: GatewayManager,
+): Router {
   const router = Router();
+  const deps: MailboxDeps = { accountManager, config, db, gatewayManager };
+  if (db) attachEventJournal(db);
+  firehoseDeps = deps;
 
   // SSE endpoint for real-time events
   router.get('/events', requireAgent, async (req, res, next) => {
     try {
       const agent = req.agent!;
-      const password = getAgentPassword(agent);
+      const resumeFrom = resumePoint(req);
+      if (resumeFrom === null) {
+        res.status(400).json({ error: 'Last-Event-ID / since must be an event id or an ISO timestamp' });
+        return;
+      }
 
       // Enforce per-agent SSE connection limit
-      const agentWatchers = activeWatchers.get(agent.id) ?? new Set();
-      if (agentWatchers.size >= MAX_SSE_PER_AGENT) {
+      const agentStreams = activeStreams.get(agent.id) ?? new Set();
+      if (agentStreams.size >= MAX_SSE_PER_AGENT) {
         res.status(429).json({ error: `Maximum ${MAX_SSE_PER_AGENT} concurrent SSE connections per agent` });
         return;
       }
 
-      // Create and start watcher BEFORE flushing SSE headers
-      // so failures produce a normal JSON error response
-      const watcher = new InboxWatcher({
-        host: config.imap.host,
-        port: config.imap.port,
-        email: agent.stalwartPrincipal,
-        password,
-        autoReconnect: true,
-        maxReconnectAttempts: 20,
-      });
+      let streaming = false;
+      let closed = false;
+      const safeWrite = (data: string): void => {
+        if (streaming && !closed) {
+          try { res.write(data); } catch { /* ignore write-after-end */ }
+        }
+      };
 
+      // Start (or join) the agent's watcher BEFORE flushing SSE headers
+      // so failures produce a normal JSON error response
+      let unwatch: () => void;
       try {
-        await watcher.start();
+        unwatch = await watchMailbox(agent, deps, (e, id) => safeWrite(agentEventFrame(id, e)));
       } catch (err) {
         res.status(500).json({ error: 'Failed to start event stream: ' + (err instanceof Error ? err.message : String(err)) });
         return;
       }
+      if (req.destroyed) { unwatch(); return; }
 
       // Now set SSE headers (point of no return for JSON error responses)
       res.setHeader('Content-Type', 'text/event-stream');
@@ -102,192 +729,21 @@ export function createEventRoutes(accountManager: AccountManager, config: Agenti
       res.setHeader('Connection', 'keep-alive');
       res.setHeader('X-Accel-Buffering', 'no');
       res.flushHeaders();
-
-      let closed = false;
-      const entry = { watcher, res };
+      streaming = true;
 
       // Track this connection
-      activeWatchers.set(agent.id, agentWatchers);
-      agentWatchers.add(entry);
-
-      const safeWrite = (data: string): void => {
-        if (!closed) {
-          try { res.write(data); } catch { /* ignore write-after-end */ }
-        }
-      };
-
-      safeWrite(`data: ${JSON.stringify({ type: 'connected', agentId: agent.id })}\n\n`);
-
-      // Helper: every new-mail event MUST land in two places —
-      //   (a) the per-agent /events SSE (this connection's `safeWrite`),
-      //       which the dispatcher daemon listens on; and
-      //   (b) the master /system/events bus, which the web UI listens on
-      //       since 0.9.9 (one shared SSE replaces N per-agent ones).
-      // Multiple code paths below early-return after firing (a) — internal
-      // agent-to-agent mail, spam-routed mail, deleted-by-rule mail. Before
-      // 0.9.x had this helper, those paths skipped (b) entirely, which
-      // silently broke the web UI's chime/notification for the EXACT
-      // traffic class users see most: agent-to-agent threads.
-      const broadcastNew = (e: Record<string, unknown>) => {
-        safeWrite(`data: ${JSON.stringify(e)}\n\n`);
-        try {
-          pushSystemEvent({
-            type: 'new_mail',
-            agentId: agent.id,
-            agentName: agent.name,
-            event: e,
-          });
-        } catch { /* never fatal — per-agent stream is the primary path */ }
-      };
-
-      watcher.on('new', async (event) => {
-        // Agent is active — receiving events via SSE
-        if (db) touchActivity(db, agent.id);
-
-        // Run spam filter + rules if db is available
-        if (db && event.uid) {
-          try {
-            const receiver = new MailReceiver({
-              host: config.imap.host, port: config.imap.port,
-              email: agent.stalwartPrincipal, password,
-              secure: false,
-            });
-            await receiver.connect();
-            try {
-              const raw = await receiver.fetchMessage(event.uid);
-              const parsed = await parseEmail(raw);
-              // Hardening: only pass the fields the route classifier
-              // actually reads. Avoids accidentally leaking the full
-              // agent.metadata blob (which can carry founder-set
-              // arbitrary keys) into the SSE event payload via any
-              // future classifier-side change that echoes its
-              // input back.
-              const policyMetadata = agent.metadata && typeof agent.metadata === 'object'
-                ? {
-                    emailRoutePolicy: (agent.metadata as Record<string, unknown>).emailRoutePolicy,
-                    routePolicy: (agent.metadata as Record<string, unknown>).routePolicy,
-                    mailboxPolicy: (agent.metadata as Record<string, unknown>).mailboxPolicy,
-                  }
-                : undefined;
-              const accountRouteContext = {
-                name: agent.name,
-                email: agent.email,
-                role: agent.role,
-                metadata: policyMetadata,
-              };
-
-              // --- Spam filter (runs BEFORE rules, skipped for internal emails) ---
-              // Relay-delivered emails have X-AgenticMail-Relay header — they are
-              // external emails rewritten with @localhost from, so never treat as internal.
-              const isRelay = !!parsed.headers.get('x-agenticmail-relay');
-              const internal = !isRelay && isInternalEmail(parsed);
-              if (internal) {
-                (event as any).route = classifyEmailRoute({ email: parsed, account: accountRouteContext });
-
-                // Internal agent-to-agent email — skip spam filter entirely
-                const ruleResult = evaluateRules(db, agent.id, parsed);
-                if (ruleResult) {
-                  const actions = ruleResult.actions;
-                  if (actions.mark_read) await receiver.markSeen(event.uid);
-                  if (actions.delete) { await receiver.deleteMessage(event.uid); return; }
-                  if (actions.move_to) await receiver.moveMessage(event.uid, 'INBOX', actions.move_to);
-                  (event as any).ruleApplied = { ruleId: ruleResult.ruleId, actions };
-                }
-                broadcastNew(event as Record<string, unknown>);
-                return;
-              }
-
-              const spamResult = scoreEmail(parsed);
-              (event as any).route = classifyEmailRoute({ email: parsed, spam: spamResult, account: accountRouteContext });
-
-              // Log to spam_log
-              try {
-                db.prepare(
-                  'INSERT INTO spam_log (id, agent_id, message_uid, score, flags, category, is_spam) VALUES (?, ?, ?, ?, ?, ?, ?)'
-                ).run(
-                  uuidv4(), agent.id, event.uid, spamResult.score,
-                  JSON.stringify(spamResult.matches.map(m => m.ruleId)),
-                  spamResult.topCategory, spamResult.isSpam ? 1 : 0,
-                );
-              } catch { /* ignore log errors */ }
-
-              if (spamResult.isSpam) {
-                // Resolve the EXISTING junk folder before falling back to
-                // creating a new "Spam" folder. Stalwart ships with "Junk
-                // Mail" by default; hardcoding "Spam" here meant every
-                // spam-classified message landed in a brand-new "Spam"
-                // folder while the web UI's Spam tab queried "Junk Mail"
-                // (the one the FOLDER_MATCHERS regex resolves to). Net:
-                // user-reported spam ✓ visible, but server-classified
-                // spam ✗ silently disappearing into a parallel folder.
-                let spamFolder = 'Spam';
-                try {
-                  const folders = await receiver.listFolders();
-                  const junkRe = /^junk\b|junk mail|^spam\b|\[gmail\]\/spam/i;
-                  const existing =
-                    folders.find(f => f.specialUse === '\\Junk')?.path
-                    ?? folders.find(f => junkRe.test(f.name) || junkRe.test(f.path))?.path;
-                  if (existing) {
-                    spamFolder = existing;
-                  } else {
-                    try { await receiver.createFolder('Spam'); } catch { /* race */ }
-                  }
-                } catch {
-                  // listFolders failed — fall back to creating "Spam" the
-                  // way we used to. Better than dropping the message.
-                  try { await receiver.createFolder('Spam'); } catch { /* race */ }
-                }
-                await receiver.moveMessage(event.uid, 'INBOX', spamFolder);
-                (event as any).spam = { score: spamResult.score, category: spamResult.topCategory, movedToSpam: true, folder: spamFolder };
-                broadcastNew(event as Record<string, unknown>);
-                return;
-              }
-              if (spamResult.isWarning) {
-                (event as any).spamWarning = { score: spamResult.score, category: spamResult.topCategory, matches: spamResult.matches.map(m => m.ruleId) };
-              }
-
-              // --- Email rules (runs AFTER spam filter) ---
-              const ruleResult = evaluateRules(db, agent.id, parsed);
-              if (ruleResult) {
-                const actions = ruleResult.actions;
-                if (actions.mark_read) await receiver.markSeen(event.uid);
-                if (actions.delete) { await receiver.deleteMessage(event.uid); return; }
-                if (actions.move_to) await receiver.moveMessage(event.uid, 'INBOX', actions.move_to);
-                (event as any).ruleApplied = { ruleId: ruleResult.ruleId, actions };
-              }
-            } finally {
-              await receiver.disconnect();
-            }
-          } catch (err) {
-            console.error('[SSE] Spam/rule evaluation error:', (err as Error).message);
-          }
-        }
-        broadcastNew(event as Record<string, unknown>);
-      });
-
-      watcher.on('expunge', (event) => {
-        safeWrite(`data: ${JSON.stringify(event)}\n\n`);
-      });
-
-      watcher.on('flags', (event) => {
-        safeWrite(`data: ${JSON.stringify(event)}\n\n`);
-      });
-
-      watcher.on('error', (err) => {
-        safeWrite(`data: ${JSON.stringify({ type: 'error', message: err.message })}\n\n`);
-      });
-
-      watcher.on('reconnecting', (info) => {
-        safeWrite(`data: ${JSON.stringify({ type: 'reconnecting', attempt: info.attempt, delayMs: info.delayMs })}\n\n`);
-      });
-
-      watcher.on('reconnected', (info) => {
-        safeWrite(`data: ${JSON.stringify({ type: 'reconnected', attempt: info.attempt })}\n\n`);
-      });
-
-      watcher.on('reconnect_failed', (info) => {
-        safeWrite(`data: ${JSON.stringify({ type: 'reconnect_failed', attempts: info.attempts })}\n\n`);
-      });
+      activeStreams.set(agent.id, agentStreams);
+      agentStreams.add(res);
+
+      // Control frames carry no `id:` so they never move Last-Event-ID.
+      // Replay and going live happen in the same tick: anything the
+      // listener dropped before `streaming` was set is in the journal.
+      safeWrite(`data: ${JSON.stringify({ type: 'connected', agentId: agent.id, lastEventId: currentFirehoseEventId() })}\n\n`);
+      if (resumeFrom !== undefined) {
+        const { events, gap } = firehoseEventsSince(resumeFrom, agent.id);
+        if (gap) safeWrite(replayGapFrame(resumeFrom, events));
+        for (const e of events) safeWrite(agentEventFrame(e.id, e.event));
+      }
 
       // Keep-alive ping every 30 seconds
       const pingInterval = setInterval(() => {
@@ -298,12 +754,114 @@ export function createEventRoutes(accountManager: AccountManager, config: Agenti
       req.on('close', () => {
         closed = true;
         clearInterval(pingInterval);
-        agentWatchers.delete(entry);
-        if (agentWatchers.size === 0) activeWatchers.delete(agent.id);
-        watcher.removeAllListeners();
-        watcher.stop().catch((err) => {
-          console.error('[SSE] Watcher cleanup error:', err);
-        });
+        agentStreams.delete(res);
+        if (agentStreams.size === 0) activeStreams.delete(agent.id);
+        unwatch();
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  /**
+   * Firehose: every agent's events on one master-key stream. See
+   * firehose.ts for what it carries. Resumes like `/events`.
+   */
+  router.get('/events/all', requireMaster, (req, res) => {
+    if (firehoseStreamCount() >= MAX_FIREHOSE_STREAMS) {
+      res.status(429).json({ error: `Maximum ${MAX_FIREHOSE_STREAMS} concurrent firehose connections` });
+      return;
+    }
+    const resumeFrom = resumePoint(req);
+    if (resumeFrom === null) {
+      res.status(400).json({ error: 'Last-Event-ID / since must be an event id or an ISO timestamp' });
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    let closed = false;
+    const safeWrite = (data: string): void => {
+      if (!closed) {
+        try { res.write(data); } catch { /* ignore write-after-end */ }
+      }
+    };
+
+    // No `id:` on control frames so they never move the client's Last-Event-ID.
+    safeWrite(`data: ${JSON.stringify({ type: 'connected', lastEventId: currentFirehoseEventId() })}\n\n`);
+    if (resumeFrom !== undefined) {
+      const { events, gap } = firehoseEventsSince(resumeFrom);
+      if (gap) safeWrite(replayGapFrame(resumeFrom, events));
+      for (const e of events) safeWrite(firehoseFrame(e));
+    }
+    const off = onFirehoseEvent((e) => safeWrite(firehoseFrame(e)));
+    const untrack = trackFirehoseStream(res);
+    const release = holdAllMailboxes();
+
+    const pingInterval = setInterval(() => {
+      safeWrite(`: ping\n\n`);
+    }, 30000);
+
+    req.on('close', () => {
+      closed = true;
+      clearInterval(pingInterval);
+      off();
+      untrack();
+      release();
+    });
+  });
+
+  /**
+   * Query the event journal, oldest first. Agents see their own events;
+   * the master key sees everyone's, or one agent's with `?agentId=`.
+   * Page with `?after=<last eventId>` while `hasMore` is set.
+   */
+  router.get('/events/history', requireAuth, (req, res, next) => {
+    try {
+      const q = req.query as Record<string, string | undefined>;
+      let agentId: string | undefined;
+      if (req.isMaster) {
+        agentId = q.agentId || undefined;
+      } else {
+        if (q.agentId && q.agentId !== req.agent!.id) {
+          res.status(403).json({ error: 'Agents can only read their own event history' });
+          return;
+        }
+        agentId = req.agent!.id;
+      }
+      const limit = q.limit === undefined ? 100 : Number(q.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+        res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_HISTORY_LIMIT}` });
+        return;
+      }
+      if (q.after !== undefined && !/^\d+$/.test(q.after)) {
+        res.status(400).json({ error: 'after must be an event id' });
+        return;
+      }
+      const since = q.since ? new Date(q.since) : undefined;
+      const until = q.until ? new Date(q.until) : undefined;
+      if ((since && isNaN(since.getTime())) || (until && isNaN(until.getTime()))) {
+        res.status(400).json({ error: 'since and until must be ISO timestamps' });
+        return;
+      }
+      const types = q.type ? q.type.split(',').map(t => t.trim()).filter(Boolean) : undefined;
+
+      const { events, hasMore } = queryEvents({
+        agentId,
+        afterId: q.after !== undefined ? Number(q.after) : undefined,
+        since,
+        until,
+        types,
+        limit,
+      });
+      res.json({
+        events: events.map(e => ({ ...e.event, agentId: e.agentId, eventId: e.id, createdAt: e.createdAt })),
+        hasMore,
+        lastEventId: currentFirehoseEventId(),
       });
     } catch (err) {
       next(err);
@@ -312,3 +870,4 @@ export function createEventRoutes(accountManager: AccountManager, config: Agenti
 
   return router;
 }
+
@@ -3,12 +3,55 @@ import { v4 as uuidv4 } from 'uuid';
 import type { Database } from '@agenticmail/core';
 import {
   MailSender,
+  parseEmail,
+  SpamModel,
+  OutboundQuotaError,
+  UnsubscribeList,
+  DEFAULT_UNSUBSCRIBE_LIST,
   type AccountManager,
   type AgenticMailConfig,
   type GatewayManager,
 } from '@agenticmail/core';
 import { requireAgent } from '../middleware/auth.js';
-import { getAgentPassword, normalizeWakeList, wakeHeaders, pushLocalRecipientWakes, deriveDefaultWakeList } from './mail.js';
+import {
+  getAgentPassword, getReceiver, normalizeWakeList, wakeHeaders, pushLocalRecipientWakes, deriveDefaultWakeList, sweepOutboundQueue,
+  checkRecipients, describeRecipientBlock, recordSentMail,
+} from './mail.js';
+import { emitWebhookEvent } from './webhooks.js';
+import { sweepCampaigns } from './campaigns.js';
+import {
+  classifyForRules,
+  planRuleActions,
+  previewRulePipeline,
+  ruleAccountContext,
+  ruleFromRow,
+  validateRuleDefinition,
+  type EmailRule,
+  type RuleEmail,
+  type RuleEvaluationContext,
+  type RulePlan,
+} from '../lib/email-rules.js';
+import { rulesToSieve, sieveToRules, type SieveImportedRule, type SieveVacation } from '../lib/sieve.js';
+import {
+  applySendWindow,
+  isValidTimeZone,
+  nextOccurrence,
+  parseLocalIso,
+  parseRecurrence,
+  parseSendWindow,
+  toWallClock,
+  upcomingOccurrences,
+  type Recurrence,
+  type SendWindow,
+} from '../lib/recurrence.js';
+import {
+  checkVariableSchema,
+  describeTemplateErrors,
+  parseTemplate,
+  renderEmailTemplate,
+  signaturePartials,
+  TemplateSyntaxError,
+} from '../lib/template-engine.js';
 
 /**
  * Parse a schedule time string. Supports:
@@ -133,6 +176,15 @@ function parseScheduleTime(input: string): Date | null {
   return isNaN(fallback.getTime()) ? null : fallback;
 }
 
+/** A scheduled_emails row with its JSON columns decoded. */
+function scheduledFromRow(row: any): any {
+  const json = (value: string | null) => {
+    if (!value) return null;
+    try { return JSON.parse(value); } catch { return null; }
+  };
+  return { ...row, send_window: json(row.send_window), variables: json(row.variables) };
+}
+
 /**
  * Feature routes: contacts, drafts, signatures, templates, scheduled emails
  */
@@ -148,22 +200,46 @@ export function createFeatureRoutes(
 
   router.get('/contacts', requireAgent, async (req, res, next) => {
     try {
-      const rows = db.prepare('SELECT * FROM contacts WHERE agent_id = ? ORDER BY name, email').all(req.agent!.id);
-      res.json({ contacts: rows });
+      const tag = typeof req.query.tag === 'string' && req.query.tag ? req.query.tag : null;
+      const rows = db.prepare(
+        `SELECT * FROM contacts WHERE agent_id = ?
+           AND (? IS NULL OR EXISTS (SELECT 1 FROM json_each(contacts.tags) WHERE lower(value) = lower(?)))
+         ORDER BY name, email`,
+      ).all(req.agent!.id, tag, tag) as any[];
+      res.json({ contacts: rows.map(r => ({ ...r, tags: r.tags ? JSON.parse(r.tags) : [] })) });
     } catch (err) { next(err); }
   });
 
   router.post('/contacts', requireAgent, async (req, res, next) => {
     try {
-      const { name, email, notes } = req.body || {};
+      const { name, email, notes, tags } = req.body || {};
       if (!email) { res.status(400).json({ error: 'email is required' }); return; }
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some((t: unknown) => typeof t !== 'string' || !t.trim()))) {
+        res.status(400).json({ error: 'tags must be an array of non-empty strings' });
+        return;
+      }
+      const tagList: string[] = tags ? [...new Set((tags as string[]).map(t => t.trim()))] : [];
       const id = uuidv4();
-      db.prepare('INSERT OR REPLACE INTO contacts (id, agent_id, name, email, notes) VALUES (?, ?, ?, ?, ?)')
-        .run(id, req.agent!.id, name || null, email, notes || null);
+      db.prepare('INSERT OR REPLACE INTO contacts (id, agent_id, name, email, notes, tags) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(id, req.agent!.id, name || null, email, notes || null, tagList.length ? JSON.stringify(tagList) : null);
+      // Saving (or re-saving) an address that already hard-bounced keeps it flagged.
+      db.prepare(
+        `UPDATE contacts SET bounced = 1, bounced_at = s.created_at
+         FROM suppressed_recipients s WHERE contacts.id = ? AND s.address = lower(contacts.email)`,
+      ).run(id);
       res.json({ ok: true, id, email });
     } catch (err) { next(err); }
   });
 
+  // Recipients who opted out of this agent's bulk mail (List-Unsubscribe)
+  router.get('/contacts/unsubscribes', requireAgent, async (req, res, next) => {
+    try {
+      const list = typeof req.query.list === 'string' && req.query.list ? req.query.list : undefined;
+      const unsubscribes = new UnsubscribeList(db).list(req.agent!.id, list);
+      res.json({ unsubscribes, count: unsubscribes.length });
+    } catch (err) { next(err); }
+  });
+
   router.delete('/contacts/:id', requireAgent, async (req, res, next) => {
     try {
       const result = db.prepare('DELETE FROM contacts WHERE id = ? AND agent_id = ?').run(req.params.id, req.agent!.id);
@@ -356,6 +432,8 @@ export function createFeatureRoutes(
         const gatewayResult = await gatewayManager.routeOutbound(agent.name, mailOpts);
         if (gatewayResult) {
           db.prepare('DELETE FROM drafts WHERE id = ?').run(draft.id);
+          recordSentMail(db, agent.id, gatewayResult.messageId, mailOpts);
+          emitWebhookEvent('mail.sent', agent.id, { messageId: gatewayResult.messageId, to: mailOpts.to, cc: mailOpts.cc, bcc: mailOpts.bcc, subject: mailOpts.subject });
           res.json(gatewayResult);
           return;
         }
@@ -372,6 +450,8 @@ export function createFeatureRoutes(
       try {
         const result = await sender.send(mailOpts);
         db.prepare('DELETE FROM drafts WHERE id = ?').run(draft.id);
+        recordSentMail(db, agent.id, result.messageId, mailOpts);
+        emitWebhookEvent('mail.sent', agent.id, { messageId: result.messageId, to: mailOpts.to, cc: mailOpts.cc, bcc: mailOpts.bcc, subject: mailOpts.subject });
         // Same SSE push as /mail/send so dispatcher wake gating applies
         // to drafts too.
         pushLocalRecipientWakes(
@@ -418,21 +498,43 @@ export function createFeatureRoutes(
   });
 
   // ─── Templates ───
+  //
+  // Bodies use the template engine (lib/template-engine.ts); `schema`
+  // declares the variables. Both are checked on save so a broken
+  // template is a 400 here, not a broken mail later.
+  const templateFromRow = (row: any) => {
+    const { variable_schema, ...rest } = row;
+    return { ...rest, schema: variable_schema ? JSON.parse(variable_schema) : null };
+  };
 
   router.get('/templates', requireAgent, async (req, res, next) => {
     try {
-      const rows = db.prepare('SELECT * FROM templates WHERE agent_id = ? ORDER BY name').all(req.agent!.id);
-      res.json({ templates: rows });
+      const rows = db.prepare('SELECT * FROM templates WHERE agent_id = ? ORDER BY name').all(req.agent!.id) as any[];
+      res.json({ templates: rows.map(templateFromRow) });
     } catch (err) { next(err); }
   });
 
   router.post('/templates', requireAgent, async (req, res, next) => {
     try {
-      const { name, subject, text, html } = req.body || {};
+      const { name, subject, text, html, schema } = req.body || {};
       if (!name) { res.status(400).json({ error: 'name is required' }); return; }
+      if (schema !== undefined && schema !== null) {
+        const problem = checkVariableSchema(schema);
+        if (problem) { res.status(400).json({ error: problem }); return; }
+      }
+      for (const [part, source] of [['subject', subject], ['text', text], ['html', html]] as const) {
+        if (!source) continue;
+        try {
+          parseTemplate(String(source));
+        } catch (err) {
+          if (!(err instanceof TemplateSyntaxError)) throw err;
+          res.status(400).json({ error: `${part}: ${err.message}`, part, line: err.line });
+          return;
+        }
+      }
       const id = uuidv4();
-      db.prepare('INSERT OR REPLACE INTO templates (id, agent_id, name, subject, text_body, html_body) VALUES (?, ?, ?, ?, ?, ?)')
-        .run(id, req.agent!.id, name, subject || null, text || null, html || null);
+      db.prepare('INSERT OR REPLACE INTO templates (id, agent_id, name, subject, text_body, html_body, variable_schema) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run(id, req.agent!.id, name, subject || null, text || null, html || null, schema ? JSON.stringify(schema) : null);
       res.json({ ok: true, id });
     } catch (err) { next(err); }
   });
@@ -449,46 +551,171 @@ export function createFeatureRoutes(
 
   router.get('/scheduled', requireAgent, async (req, res, next) => {
     try {
-      const rows = db.prepare('SELECT * FROM scheduled_emails WHERE agent_id = ? ORDER BY send_at ASC').all(req.agent!.id);
-      res.json({ scheduled: rows });
+      const rows = db.prepare('SELECT * FROM scheduled_emails WHERE agent_id = ? ORDER BY send_at ASC').all(req.agent!.id) as any[];
+      res.json({ scheduled: rows.map(scheduledFromRow) });
     } catch (err) { next(err); }
   });
 
   router.post('/scheduled', requireAgent, async (req, res, next) => {
     try {
-      const { to, subject, text, html, cc, bcc, sendAt } = req.body || {};
-      if (!to || !subject || !sendAt) {
-        res.status(400).json({ error: 'to, subject, and sendAt are required' });
+      const { to, subject, text, html, cc, bcc, sendAt, recurrence, timezone, sendWindow, templateId, variables, maxAttempts } = req.body || {};
+      if (!to || (!subject && !templateId) || (!sendAt && !recurrence)) {
+        res.status(400).json({ error: 'to, subject (or templateId), and sendAt (or recurrence) are required' });
         return;
       }
 
-      // Parse sendAt — supports ISO 8601, natural language presets, and human-friendly formats
-      const sendDate = parseScheduleTime(String(sendAt));
-      if (!sendDate || isNaN(sendDate.getTime())) {
-        res.status(400).json({
-          error: 'Invalid sendAt date. Accepted formats: ISO 8601 (2026-02-14T10:00:00), '
-            + 'presets (in 30 minutes, in 1 hour, in 3 hours, tomorrow 8am, tomorrow 9am, '
-            + 'next monday 9am), or MM-DD-YYYY H:MM AM/PM TZ',
-        });
+      const tz = timezone ? String(timezone) : 'UTC';
+      if (!isValidTimeZone(tz)) {
+        res.status(400).json({ error: `Unknown timezone "${tz}" — use an IANA name such as Europe/Berlin` });
+        return;
+      }
+      let rec: Recurrence | null = null;
+      let window: SendWindow | null = null;
+      try {
+        if (recurrence) rec = parseRecurrence(String(recurrence));
+        if (sendWindow) window = parseSendWindow(sendWindow);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+      if (variables !== undefined && (variables === null || typeof variables !== 'object' || Array.isArray(variables))) {
+        res.status(400).json({ error: 'variables must be an object' });
+        return;
+      }
+      const attemptsLimit = maxAttempts === undefined ? 4 : Number(maxAttempts);
+      if (!Number.isInteger(attemptsLimit) || attemptsLimit < 1 || attemptsLimit > 10) {
+        res.status(400).json({ error: 'maxAttempts must be an integer from 1 to 10' });
+        return;
+      }
+      if (templateId && !db.prepare('SELECT id FROM templates WHERE id = ? AND agent_id = ?').get(templateId, req.agent!.id)) {
+        res.status(404).json({ error: 'Template not found' });
         return;
       }
-      if (sendDate.getTime() <= Date.now()) {
-        res.status(400).json({ error: 'sendAt must be in the future' });
+
+      // Parse sendAt — supports ISO 8601, natural language presets, and human-friendly formats.
+      // A naive ISO time (no Z or offset) is read in the schedule's timezone.
+      let sendDate: Date | null = null;
+      if (sendAt) {
+        sendDate = parseLocalIso(String(sendAt), tz) ?? parseScheduleTime(String(sendAt));
+        if (!sendDate || isNaN(sendDate.getTime())) {
+          res.status(400).json({
+            error: 'Invalid sendAt date. Accepted formats: ISO 8601 (2026-02-14T10:00:00), '
+              + 'presets (in 30 minutes, in 1 hour, in 3 hours, tomorrow 8am, tomorrow 9am, '
+              + 'next monday 9am), or MM-DD-YYYY H:MM AM/PM TZ',
+          });
+          return;
+        }
+        if (sendDate.getTime() <= Date.now()) {
+          res.status(400).json({ error: 'sendAt must be in the future' });
+          return;
+        }
+      }
+
+      // For a recurring schedule sendAt is the series start (RRULE
+      // DTSTART); the first send is the first occurrence at or after it.
+      const startsAt = sendDate ?? new Date(Math.ceil(Date.now() / 60_000) * 60_000);
+      const occurrence = rec
+        ? nextOccurrence(rec, { start: startsAt, tz, after: new Date(startsAt.getTime() - 1) })
+        : startsAt;
+      if (!occurrence) {
+        res.status(400).json({ error: 'recurrence has no occurrences after sendAt' });
         return;
       }
+      const firstSend = window ? applySendWindow(occurrence, window, tz) : occurrence;
+      if (templateId) {
+        // Render the first occurrence now so missing variables are a 400, not a failed run.
+        try {
+          renderScheduledEmail(db, {
+            agent_id: req.agent!.id, to_addr: to, subject: subject || '', text_body: text || null, html_body: html || null,
+            timezone: tz, template_id: templateId, variables: variables ? JSON.stringify(variables) : null,
+          }, occurrence);
+        } catch (err) {
+          if (!(err instanceof ScheduleError)) throw err;
+          res.status(400).json({ error: err.message });
+          return;
+        }
+      }
+
       const id = uuidv4();
-      db.prepare(`INSERT INTO scheduled_emails (id, agent_id, to_addr, subject, text_body, html_body, cc, bcc, send_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`)
-        .run(id, req.agent!.id, to, subject, text || null, html || null, cc || null, bcc || null, sendDate.toISOString());
-      res.json({ ok: true, id, sendAt: sendDate.toISOString() });
+      db.prepare(`INSERT INTO scheduled_emails (id, agent_id, to_addr, subject, text_body, html_body, cc, bcc, send_at,
+          recurrence, timezone, send_window, template_id, variables, starts_at, occurrence_at, max_attempts, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))`)
+        .run(
+          id, req.agent!.id, to, subject || '', text || null, html || null, cc || null, bcc || null, firstSend.toISOString(),
+          rec ? rec.source : null, tz, window ? JSON.stringify(window) : null, templateId || null,
+          variables ? JSON.stringify(variables) : null, startsAt.toISOString(), occurrence.toISOString(), attemptsLimit,
+        );
+      const upcoming = rec
+        ? upcomingOccurrences(rec, { start: startsAt, tz, after: new Date(occurrence.getTime() - 1) }, 5).map(d => d.toISOString())
+        : [occurrence.toISOString()];
+      res.json({ ok: true, id, sendAt: firstSend.toISOString(), occurrenceAt: occurrence.toISOString(), upcoming });
+    } catch (err) { next(err); }
+  });
+
+  router.get('/scheduled/:id', requireAgent, async (req, res, next) => {
+    try {
+      const row = db.prepare('SELECT * FROM scheduled_emails WHERE id = ? AND agent_id = ?').get(req.params.id, req.agent!.id) as any;
+      if (!row) { res.status(404).json({ error: 'Scheduled email not found' }); return; }
+      const runs = db.prepare('SELECT * FROM scheduled_email_runs WHERE schedule_id = ? ORDER BY occurrence_at DESC LIMIT 100')
+        .all(row.id);
+      let upcoming: string[] = [];
+      if (row.status === 'pending' || row.status === 'paused') {
+        upcoming = row.recurrence
+          ? upcomingOccurrences(parseRecurrence(row.recurrence), {
+            start: new Date(row.starts_at), tz: row.timezone, after: new Date(new Date(row.occurrence_at).getTime() - 1),
+          }, 5).map(d => d.toISOString())
+          : [row.occurrence_at || row.send_at];
+      }
+      res.json({ scheduled: scheduledFromRow(row), runs, upcoming });
+    } catch (err) { next(err); }
+  });
+
+  router.post('/scheduled/:id/pause', requireAgent, async (req, res, next) => {
+    try {
+      const result = db.prepare("UPDATE scheduled_emails SET status = 'paused', updated_at = datetime('now') WHERE id = ? AND agent_id = ? AND status = 'pending'")
+        .run(req.params.id, req.agent!.id);
+      if (result.changes === 0) { res.status(404).json({ error: 'Scheduled email not found or not pending' }); return; }
+      res.json({ ok: true, status: 'paused' });
+    } catch (err) { next(err); }
+  });
+
+  router.post('/scheduled/:id/resume', requireAgent, async (req, res, next) => {
+    try {
+      const row = db.prepare("SELECT * FROM scheduled_emails WHERE id = ? AND agent_id = ? AND status = 'paused'")
+        .get(req.params.id, req.agent!.id) as any;
+      if (!row) { res.status(404).json({ error: 'Scheduled email not found or not paused' }); return; }
+      const now = new Date();
+      let occurrence = new Date(row.occurrence_at || row.send_at);
+      let sendAt = new Date(row.send_at);
+      if (sendAt.getTime() <= now.getTime()) {
+        if (row.recurrence) {
+          // Occurrences missed while paused are skipped, not replayed.
+          const next = nextOccurrence(parseRecurrence(row.recurrence), { start: new Date(row.starts_at), tz: row.timezone, after: now });
+          if (!next) {
+            db.prepare("UPDATE scheduled_emails SET status = 'completed', updated_at = datetime('now') WHERE id = ?").run(row.id);
+            res.json({ ok: true, status: 'completed' });
+            return;
+          }
+          occurrence = next;
+          sendAt = row.send_window ? applySendWindow(next, JSON.parse(row.send_window), row.timezone) : next;
+        } else {
+          // An overdue one-shot goes out on the next sweep.
+          sendAt = row.send_window ? applySendWindow(now, JSON.parse(row.send_window), row.timezone) : now;
+        }
+      }
+      db.prepare(`UPDATE scheduled_emails SET status = 'pending', occurrence_at = ?, send_at = ?, attempts = 0,
+          updated_at = datetime('now') WHERE id = ?`)
+        .run(occurrence.toISOString(), sendAt.toISOString(), row.id);
+      res.json({ ok: true, status: 'pending', sendAt: sendAt.toISOString(), occurrenceAt: occurrence.toISOString() });
     } catch (err) { next(err); }
   });
 
   router.delete('/scheduled/:id', requireAgent, async (req, res, next) => {
     try {
-      const result = db.prepare("DELETE FROM scheduled_emails WHERE id = ? AND agent_id = ? AND status = 'pending'")
+      const result = db.prepare("DELETE FROM scheduled_emails WHERE id = ? AND agent_id = ? AND status IN ('pending', 'paused')")
         .run(req.params.id, req.agent!.id);
       if (result.changes === 0) { res.status(404).json({ error: 'Scheduled email not found or already sent' }); return; }
+      db.prepare('DELETE FROM scheduled_email_runs WHERE schedule_id = ?').run(req.params.id);
       res.json({ ok: true });
     } catch (err) { next(err); }
   });
@@ -570,16 +797,41 @@ export function createFeatureRoutes(
     } catch (err) { next(err); }
   });
 
-  // ─── Template send with variable substitution ────────────────────
+  // ─── Template preview and send ───────────────────────────────────
+
+  /** Load and render one of the agent's templates; null when it doesn't exist. */
+  const renderStoredTemplate = (agentId: string, templateId: string, variables: unknown) => {
+    const template = db.prepare('SELECT * FROM templates WHERE id = ? AND agent_id = ?').get(templateId, agentId) as any;
+    if (!template) return null;
+    const vars = variables && typeof variables === 'object' && !Array.isArray(variables) ? variables as Record<string, unknown> : {};
+    return renderEmailTemplate({
+      subject: template.subject,
+      text: template.text_body,
+      html: template.html_body,
+      schema: template.variable_schema ? JSON.parse(template.variable_schema) : null,
+    }, vars, signaturePartials(db, agentId));
+  };
+
+  /** Render a template without sending: the output plus every variable error. */
+  router.post('/templates/:id/preview', requireAgent, async (req, res, next) => {
+    try {
+      const rendered = renderStoredTemplate(req.agent!.id, String(req.params.id), req.body?.variables);
+      if (!rendered) { res.status(404).json({ error: 'Template not found' }); return; }
+      res.json({ ok: rendered.errors.length === 0, ...rendered });
+    } catch (err) { next(err); }
+  });
+
   router.post('/templates/:id/send', requireAgent, async (req, res, next) => {
     try {
-      const template = db.prepare('SELECT * FROM templates WHERE id = ? AND agent_id = ?').get(req.params.id, req.agent!.id) as any;
-      if (!template) { res.status(404).json({ error: 'Template not found' }); return; }
       const { to, variables, cc, bcc, wake } = req.body || {};
+      const rendered = renderStoredTemplate(req.agent!.id, String(req.params.id), variables);
+      if (!rendered) { res.status(404).json({ error: 'Template not found' }); return; }
       if (!to) { res.status(400).json({ error: 'to is required' }); return; }
-
-      const applyVars = (text: string, vars: Record<string, string>): string =>
-        text.replace(/\{\{(\w+)\}\}/g, (m, key) => vars[key] ?? m);
+      // Refuse rather than send a mail with holes in it.
+      if (rendered.errors.length > 0) {
+        res.status(400).json({ error: `Template variables are invalid: ${describeTemplateErrors(rendered.errors)}`, errors: rendered.errors });
+        return;
+      }
 
       // Normalise wake the same way POST /mail/send does so template-
       // sent mail behaves identically to a direct send for dispatcher
@@ -588,13 +840,12 @@ export function createFeatureRoutes(
       const wakeList = wake === undefined ? deriveDefaultWakeList(to) : explicitWake;
       const customHeaders = wakeHeaders(wakeList);
 
-      const vars: Record<string, string> = variables && typeof variables === 'object' ? variables : {};
-      const renderedSubject = applyVars(template.subject || '(no subject)', vars);
+      const renderedSubject = rendered.subject;
       const mailOpts = {
         to,
         subject: renderedSubject,
-        text: template.text_body ? applyVars(template.text_body, vars) : undefined,
-        html: template.html_body ? applyVars(template.html_body, vars) : undefined,
+        text: rendered.text,
+        html: rendered.html,
         cc: cc || undefined,
         bcc: bcc || undefined,
         ...(Object.keys(customHeaders).length > 0 ? { headers: customHeaders } : {}),
@@ -603,7 +854,12 @@ export function createFeatureRoutes(
       const agent = req.agent!;
       if (gatewayManager) {
         const gatewayResult = await gatewayManager.routeOutbound(agent.name, mailOpts);
-        if (gatewayResult) { res.json(gatewayResult); return; }
+        if (gatewayResult) {
+          recordSentMail(db, agent.id, gatewayResult.messageId, mailOpts);
+          emitWebhookEvent('mail.sent', agent.id, { messageId: gatewayResult.messageId, to, cc, bcc, subject: renderedSubject });
+          res.json(gatewayResult);
+          return;
+        }
       }
 
       const password = getAgentPassword(agent);
@@ -613,6 +869,8 @@ export function createFeatureRoutes(
       });
       try {
         const result = await sender.send(mailOpts);
+        recordSentMail(db, agent.id, result.messageId, mailOpts);
+        emitWebhookEvent('mail.sent', agent.id, { messageId: result.messageId, to, cc, bcc, subject: renderedSubject });
         // Push SSE wake events to local recipients with the same
         // wake-allowlist semantics as POST /mail/send. Without this,
         // template-sent mail would only wake recipients through IMAP
@@ -630,22 +888,278 @@ export function createFeatureRoutes(
   });
 
   // ─── Email Rules/Filters ────────────────────────────────────────
+  //
+  // Conditions are a boolean tree and actions an ordered pipeline —
+  // see lib/email-rules.ts for the model. Bodies are validated on
+  // write so a typo'd condition key is a 400, not a rule that
+  // silently never matches.
+  const ruleToJson = (r: any) => ({
+    ...r,
+    conditions: JSON.parse(r.conditions),
+    actions: JSON.parse(r.actions),
+    enabled: !!r.enabled,
+    stop: r.stop === undefined ? true : !!r.stop,
+  });
+
   router.get('/rules', requireAgent, async (req, res, next) => {
     try {
       const rows = db.prepare('SELECT * FROM email_rules WHERE agent_id = ? ORDER BY priority DESC, created_at').all(req.agent!.id);
-      res.json({ rules: rows.map((r: any) => ({ ...r, conditions: JSON.parse(r.conditions), actions: JSON.parse(r.actions) })) });
+      res.json({ rules: rows.map(ruleToJson) });
     } catch (err) { next(err); }
   });
 
   router.post('/rules', requireAgent, async (req, res, next) => {
     try {
-      const { name, conditions, actions, priority, enabled } = req.body || {};
+      const { name, conditions, actions, priority, enabled, stop } = req.body || {};
       if (!name) { res.status(400).json({ error: 'name is required' }); return; }
+      const errors = validateRuleDefinition({ conditions, actions });
+      if (errors.length > 0) { res.status(400).json({ error: 'Invalid rule', details: errors }); return; }
       const id = uuidv4();
       db.prepare(
-        'INSERT INTO email_rules (id, agent_id, name, priority, enabled, conditions, actions) VALUES (?, ?, ?, ?, ?, ?, ?)'
-      ).run(id, req.agent!.id, name, priority ?? 0, enabled !== false ? 1 : 0, JSON.stringify(conditions || {}), JSON.stringify(actions || {}));
-      res.status(201).json({ id, name, conditions: conditions || {}, actions: actions || {}, priority: priority ?? 0, enabled: enabled !== false });
+        'INSERT INTO email_rules (id, agent_id, name, priority, enabled, stop, conditions, actions) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+      ).run(id, req.agent!.id, name, priority ?? 0, enabled !== false ? 1 : 0, stop !== false ? 1 : 0,
+        JSON.stringify(conditions || {}), JSON.stringify(actions || {}));
+      res.status(201).json({
+        id, name, conditions: conditions || {}, actions: actions || {}, priority: priority ?? 0,
+        enabled: enabled !== false, stop: stop !== false,
+      });
+    } catch (err) { next(err); }
+  });
+
+  // Partial update — only the fields present on the body change.
+  router.put('/rules/:id', requireAgent, async (req, res, next) => {
+    try {
+      const existing = db.prepare('SELECT * FROM email_rules WHERE id = ? AND agent_id = ?').get(req.params.id, req.agent!.id) as any;
+      if (!existing) { res.status(404).json({ error: 'Rule not found' }); return; }
+      const body = req.body || {};
+      const has = (k: string) => Object.prototype.hasOwnProperty.call(body, k);
+      if (has('name') && !body.name) { res.status(400).json({ error: 'name cannot be empty' }); return; }
+      const errors = validateRuleDefinition({
+        conditions: has('conditions') ? body.conditions ?? {} : undefined,
+        actions: has('actions') ? body.actions ?? {} : undefined,
+      });
+      if (errors.length > 0) { res.status(400).json({ error: 'Invalid rule', details: errors }); return; }
+
+      const updated = {
+        name: has('name') ? String(body.name) : existing.name,
+        priority: has('priority') ? Number(body.priority) || 0 : existing.priority,
+        enabled: has('enabled') ? (body.enabled !== false ? 1 : 0) : existing.enabled,
+        stop: has('stop') ? (body.stop !== false ? 1 : 0) : existing.stop,
+        conditions: has('conditions') ? JSON.stringify(body.conditions || {}) : existing.conditions,
+        actions: has('actions') ? JSON.stringify(body.actions || {}) : existing.actions,
+      };
+      db.prepare(
+        `UPDATE email_rules SET name = ?, priority = ?, enabled = ?, stop = ?, conditions = ?, actions = ?,
+          updated_at = datetime('now') WHERE id = ? AND agent_id = ?`
+      ).run(updated.name, updated.priority, updated.enabled, updated.stop, updated.conditions, updated.actions, existing.id, req.agent!.id);
+      const row = db.prepare('SELECT * FROM email_rules WHERE id = ?').get(existing.id);
+      res.json(ruleToJson(row));
+    } catch (err) {
+      if (String((err as Error).message).includes('UNIQUE')) {
+        res.status(409).json({ error: 'A rule with that name already exists' });
+        return;
+      }
+      next(err);
+    }
+  });
+
+  /**
+   * Dry-run rules against mail already in the mailbox. Nothing is
+   * moved, flagged, sent or counted — the response says what the SSE
+   * path would have done for each message.
+   *
+   * Body: `{ rule?: { conditions, actions, stop? } | ruleId?: string,
+   * uid?: number, folder?: string, since?: string, before?: string,
+   * limit?: number }`. With neither `rule` nor `ruleId` the agent's
+   * full enabled rule set is evaluated, exactly as live mail sees it.
+   * Without `uid` the newest `limit` messages (default 50, max 200) in
+   * the folder / date range are used.
+   */
+  router.post('/rules/test', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const { rule, ruleId, uid, folder: rawFolder, since, before, limit: rawLimit } = req.body || {};
+      const folder = typeof rawFolder === 'string' && rawFolder ? rawFolder : 'INBOX';
+
+      let rules: EmailRule[];
+      if (rule !== undefined) {
+        if (!rule || typeof rule !== 'object') { res.status(400).json({ error: 'rule must be an object' }); return; }
+        const errors = validateRuleDefinition({ conditions: rule.conditions, actions: rule.actions });
+        if (errors.length > 0) { res.status(400).json({ error: 'Invalid rule', details: errors }); return; }
+        rules = [{
+          id: 'draft', name: typeof rule.name === 'string' && rule.name ? rule.name : '(draft rule)',
+          priority: 0, enabled: true, stop: rule.stop !== false,
+          conditions: rule.conditions || {}, actions: rule.actions || {},
+        }];
+      } else if (ruleId) {
+        const row = db.prepare('SELECT * FROM email_rules WHERE id = ? AND agent_id = ?').get(String(ruleId), agent.id) as any;
+        if (!row) { res.status(404).json({ error: 'Rule not found' }); return; }
+        // Testing a disabled rule is the point of a dry-run.
+        rules = [{ ...ruleFromRow(row), enabled: true }];
+      } else {
+        const rows = db.prepare('SELECT * FROM email_rules WHERE agent_id = ? AND enabled = 1 ORDER BY priority DESC, created_at').all(agent.id) as any[];
+        rules = rows.map(ruleFromRow);
+      }
+
+      const sinceDate = since ? new Date(since) : undefined;
+      const beforeDate = before ? new Date(before) : undefined;
+      if (sinceDate && isNaN(sinceDate.getTime())) { res.status(400).json({ error: 'Invalid "since" date' }); return; }
+      if (beforeDate && isNaN(beforeDate.getTime())) { res.status(400).json({ error: 'Invalid "before" date' }); return; }
+      const limit = Math.min(Math.max(parseInt(String(rawLimit ?? 50), 10) || 50, 1), 200);
+
+      const receiver = await getReceiver(agent.stalwartPrincipal, getAgentPassword(agent), config);
+      let uids: number[];
+      if (uid !== undefined) {
+        const n = parseInt(String(uid), 10);
+        if (isNaN(n) || n < 1) { res.status(400).json({ error: 'Invalid UID' }); return; }
+        uids = [n];
+      } else {
+        uids = await receiver.search({ since: sinceDate, before: beforeDate }, folder);
+      }
+      const total = uids.length;
+      const selected = [...uids].sort((a, b) => b - a).slice(0, limit);
+      const raws = await receiver.batchFetch(selected, folder);
+      if (uid !== undefined && raws.size === 0) { res.status(404).json({ error: 'Message not found' }); return; }
+
+      const account = ruleAccountContext(agent);
+      const spamModel = new SpamModel(db).forAgent(agent.id);
+      const results = [];
+      for (const messageUid of selected) {
+        const raw = raws.get(messageUid);
+        if (!raw) continue;
+        const parsed = await parseEmail(raw);
+        const verdict = classifyForRules(parsed, account, spamModel);
+        const plan = planRuleActions(rules, parsed, verdict.context);
+        // Live mail scored as spam is moved to the junk folder before
+        // rules run; report the match anyway so a rule can be tuned
+        // against spam-folder samples.
+        const reachesRules = folder !== 'INBOX' || !verdict.spam?.isSpam;
+        results.push({
+          uid: messageUid,
+          messageId: parsed.messageId,
+          subject: parsed.subject,
+          from: parsed.from[0]?.address ?? '',
+          date: parsed.date.toISOString(),
+          internal: verdict.internal,
+          spamScore: verdict.spam?.score ?? null,
+          spamProbability: verdict.spam?.probability ?? null,
+          isSpam: verdict.spam?.isSpam ?? false,
+          routeClass: verdict.route.routeClass,
+          reachesRules,
+          matched: !!plan,
+          rules: plan ? plan.matches.map(m => ({ id: m.ruleId, name: m.ruleName, stop: m.stop })) : [],
+          actions: plan ? previewRulePipeline(plan, parsed, agent.email) : [],
+        });
+      }
+
+      res.json({
+        folder,
+        total,
+        scanned: results.length,
+        matched: results.filter(r => r.matched).length,
+        truncated: total > selected.length,
+        results,
+      });
+    } catch (err) { next(err); }
+  });
+
+  /**
+   * Export the agent's rules as a Sieve script (lib/sieve.ts). Rules
+   * Sieve can't express are left in as `# skipped` comments.
+   */
+  router.get('/rules/export', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const format = String(req.query.format ?? 'sieve').toLowerCase();
+      if (format !== 'sieve') { res.status(400).json({ error: `Unsupported format "${format}" (supported: sieve)` }); return; }
+      const rows = db.prepare('SELECT * FROM email_rules WHERE agent_id = ? ORDER BY priority DESC, created_at').all(agent.id) as any[];
+      const { script, skipped } = rulesToSieve(rows.map(ruleFromRow), {
+        header: [`AgenticMail rules for ${agent.name} <${agent.email}>`, `Exported ${new Date().toISOString()}`],
+        resolveTemplate: (ref) => {
+          const t = db.prepare('SELECT subject, text_body FROM templates WHERE agent_id = ? AND (id = ? OR name = ?)')
+            .get(agent.id, ref, ref) as any;
+          return t ? { subject: t.subject, text: t.text_body } : undefined;
+        },
+      });
+      res.setHeader('X-Rules-Skipped', String(skipped.length));
+      res.type('application/sieve').send(script);
+    } catch (err) { next(err); }
+  });
+
+  /**
+   * Import a Sieve script as rules. Body: `{ script, replace?, dryRun? }`.
+   * Any untranslatable line rejects the whole script with per-line
+   * errors; nothing is written. `vacation` reasons become templates
+   * (an identical existing template is reused). `replace` drops the
+   * agent's current rules first; otherwise an imported name that
+   * already exists is a 409.
+   */
+  router.post('/rules/import', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const { script, replace, dryRun } = req.body || {};
+      if (typeof script !== 'string' || !script.trim()) { res.status(400).json({ error: 'script is required' }); return; }
+
+      const { rules, errors, warnings } = sieveToRules(script);
+      for (const rule of rules) {
+        // Vacation steps are checked as the auto_reply they will become.
+        const actions = rule.actions.map(a => a.type === 'vacation' ? { type: 'auto_reply', template: '(vacation)' } : a);
+        for (const message of validateRuleDefinition({ conditions: rule.conditions, actions })) {
+          errors.push({ line: rule.line, message });
+        }
+      }
+      if (errors.length > 0) {
+        errors.sort((a, b) => a.line - b.line);
+        res.status(400).json({ error: 'Sieve script could not be imported', errors, warnings });
+        return;
+      }
+      if (dryRun) { res.json({ dryRun: true, rules, warnings }); return; }
+
+      if (!replace) {
+        const existing = new Set((db.prepare('SELECT name FROM email_rules WHERE agent_id = ?').all(agent.id) as any[]).map(r => r.name));
+        const conflicts = rules.map(r => r.name).filter(n => existing.has(n));
+        if (conflicts.length > 0) {
+          res.status(409).json({ error: 'Rules with these names already exist (pass replace: true to overwrite all rules)', conflicts });
+          return;
+        }
+      }
+
+      const templateFor = (rule: SieveImportedRule, v: SieveVacation): string => {
+        const found = db.prepare(
+          'SELECT name FROM templates WHERE agent_id = ? AND subject IS ? AND text_body = ? AND html_body IS NULL',
+        ).get(agent.id, v.subject ?? null, v.reason) as any;
+        if (found) return found.name;
+        let name = `${rule.name} (vacation)`;
+        for (let n = 2; db.prepare('SELECT 1 FROM templates WHERE agent_id = ? AND name = ?').get(agent.id, name); n++) {
+          name = `${rule.name} (vacation ${n})`;
+        }
+        db.prepare('INSERT INTO templates (id, agent_id, name, subject, text_body, html_body) VALUES (?, ?, ?, ?, ?, NULL)')
+          .run(uuidv4(), agent.id, name, v.subject ?? null, v.reason);
+        return name;
+      };
+
+      const ids: string[] = [];
+      db.exec('BEGIN');
+      try {
+        if (replace) db.prepare('DELETE FROM email_rules WHERE agent_id = ?').run(agent.id);
+        const insert = db.prepare(
+          'INSERT INTO email_rules (id, agent_id, name, priority, enabled, stop, conditions, actions) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        );
+        for (const rule of rules) {
+          const actions = rule.actions.map(a => a.type === 'vacation' ? { type: 'auto_reply', template: templateFor(rule, a) } : a);
+          const id = uuidv4();
+          insert.run(id, agent.id, rule.name, rule.priority, rule.enabled ? 1 : 0, rule.stop ? 1 : 0,
+            JSON.stringify(rule.conditions), JSON.stringify(actions));
+          ids.push(id);
+        }
+        db.exec('COMMIT');
+      } catch (err) {
+        try { db.exec('ROLLBACK'); } catch { /* best effort */ }
+        throw err;
+      }
+
+      const rows = ids.map(id => db.prepare('SELECT * FROM email_rules WHERE id = ?').get(id));
+      res.status(201).json({ imported: rows.length, rules: rows.map(ruleToJson), warnings });
     } catch (err) { next(err); }
   });
 
@@ -661,95 +1175,237 @@ export function createFeatureRoutes(
 }
 
 /**
- * Evaluate email rules for an agent against a parsed email.
- * Returns the first matching rule's actions, or null if no match.
+ * Evaluate an agent's email rules against a parsed email.
+ *
+ * Returns the combined action pipeline of every matching rule (up to
+ * and including the first one with `stop` set), or null if nothing
+ * matched. Matching rules get their hit counter and last-matched
+ * timestamp bumped — callers that only want to preview a match should
+ * use `planRuleActions` from lib/email-rules.ts directly.
  */
-export function evaluateRules(db: Database, agentId: string, email: { from?: { address?: string }[]; to?: { address?: string }[]; subject?: string; text?: string; attachments?: any[] }): { ruleId: string; actions: any } | null {
-  const rules = db.prepare('SELECT * FROM email_rules WHERE agent_id = ? AND enabled = 1 ORDER BY priority DESC').all(agentId) as any[];
-  for (const rule of rules) {
-    const cond = JSON.parse(rule.conditions);
-    let match = true;
-    const fromAddr = (email.from?.[0]?.address ?? '').toLowerCase();
-    const toAddr = (email.to?.[0]?.address ?? '').toLowerCase();
-    const subject = (email.subject ?? '').toLowerCase();
-
-    if (cond.from_contains && !fromAddr.includes(cond.from_contains.toLowerCase())) match = false;
-    if (cond.from_exact && fromAddr !== cond.from_exact.toLowerCase()) match = false;
-    if (cond.subject_contains && !subject.includes(cond.subject_contains.toLowerCase())) match = false;
-    if (cond.subject_regex) {
-      try { if (!new RegExp(cond.subject_regex, 'i').test(email.subject ?? '')) match = false; } catch { match = false; }
-    }
-    if (cond.to_contains && !toAddr.includes(cond.to_contains.toLowerCase())) match = false;
-    if (cond.has_attachment === true && (!email.attachments || email.attachments.length === 0)) match = false;
+export function evaluateRules(
+  db: Database,
+  agentId: string,
+  email: RuleEmail,
+  context: RuleEvaluationContext = {},
+): RulePlan | null {
+  const rows = db.prepare('SELECT * FROM email_rules WHERE agent_id = ? AND enabled = 1 ORDER BY priority DESC, created_at').all(agentId) as any[];
+  const plan = planRuleActions(rows.map(ruleFromRow), email, context);
+  if (!plan) return null;
+  const bump = db.prepare("UPDATE email_rules SET hit_count = hit_count + 1, last_matched_at = datetime('now') WHERE id = ?");
+  for (const m of plan.matches) {
+    try { bump.run(m.ruleId); } catch { /* counters are best-effort */ }
+  }
+  return plan;
+}
+
+/** Failures that retrying cannot fix (deleted agent or template, template errors). */
+class ScheduleError extends Error {}
 
-    if (match) return { ruleId: rule.id, actions: JSON.parse(rule.actions) };
+/** Retry delay after the n-th failed attempt: 1, 2, 4… minutes, capped at an hour. */
+function retryDelayMs(attempt: number): number {
+  return Math.min(60_000 * 2 ** (attempt - 1), 3_600_000);
+}
+
+/**
+ * Build the message for one occurrence. Template-backed schedules are
+ * rendered now, with the template engine, so edits to the template
+ * apply to later occurrences; `{{date}}` (local YYYY-MM-DD of the
+ * occurrence) and `{{occurrence}}` (ISO instant) are available unless
+ * the schedule's variables override them. Schedules without a
+ * template keep plain `{{name}}` substitution.
+ */
+function renderScheduledEmail(db: Database, row: any, occurrence: Date) {
+  const local = toWallClock(occurrence, row.timezone || 'UTC');
+  const pad = (n: number) => String(n).padStart(2, '0');
+  let stored: Record<string, unknown> = {};
+  try { stored = row.variables ? JSON.parse(row.variables) : {}; } catch { /* treat as empty */ }
+  const builtins = {
+    date: `${local.year}-${pad(local.month)}-${pad(local.day)}`,
+    occurrence: occurrence.toISOString(),
+  };
+
+  if (row.template_id) {
+    const template = db.prepare('SELECT * FROM templates WHERE id = ? AND agent_id = ?').get(row.template_id, row.agent_id) as any;
+    if (!template) throw new ScheduleError('Template not found');
+    const rendered = renderEmailTemplate({
+      subject: row.subject || template.subject,
+      text: row.text_body ?? template.text_body,
+      html: row.html_body ?? template.html_body,
+      schema: template.variable_schema ? JSON.parse(template.variable_schema) : null,
+    }, { ...builtins, ...stored }, signaturePartials(db, row.agent_id));
+    if (rendered.errors.length > 0) throw new ScheduleError(`Template: ${describeTemplateErrors(rendered.errors)}`);
+    return {
+      to: row.to_addr,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+      cc: row.cc || undefined,
+      bcc: row.bcc || undefined,
+    };
   }
-  return null;
+
+  const vars: Record<string, string> = { ...builtins };
+  for (const [k, v] of Object.entries(stored)) vars[k] = String(v);
+  const applyVars = (text: string): string => text.replace(/\{\{(\w+)\}\}/g, (m, key) => vars[key] ?? m);
+  return {
+    to: row.to_addr,
+    subject: applyVars(row.subject),
+    text: row.text_body ? applyVars(row.text_body) : undefined,
+    html: row.html_body ? applyVars(row.html_body) : undefined,
+    cc: row.cc || undefined,
+    bcc: row.bcc || undefined,
+  };
 }
 
 /**
- * Start the scheduled email sender loop.
- * Checks every 30 seconds for emails that need to be sent.
+ * Send every scheduled email that is due at `now`.
+ *
+ * Each occurrence gets a scheduled_email_runs row. A failed send is
+ * retried with exponential backoff (kept inside the send window) until
+ * max_attempts is used up; then the run is marked failed and a
+ * recurring schedule moves on to its next occurrence. Occurrences
+ * missed while the server was down are coalesced into one send.
  */
-export function startScheduledSender(
+export async function sweepScheduledEmails(
   db: Database,
   accountManager: AccountManager,
   config: AgenticMailConfig,
   gatewayManager?: GatewayManager,
-): ReturnType<typeof setInterval> {
-  return setInterval(async () => {
-    try {
-      const now = new Date().toISOString();
-      const pending = db.prepare(
-        "SELECT * FROM scheduled_emails WHERE status = 'pending' AND send_at <= ?"
-      ).all(now) as any[];
+  now: Date = new Date(),
+): Promise<void> {
+  const due = db.prepare(
+    "SELECT * FROM scheduled_emails WHERE status = 'pending' AND send_at <= ? ORDER BY send_at"
+  ).all(now.toISOString()) as any[];
+
+  const recordRun = db.prepare(`INSERT INTO scheduled_email_runs (id, schedule_id, agent_id, occurrence_at, status, attempts, message_id, error)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(schedule_id, occurrence_at) DO UPDATE SET status = excluded.status, attempts = excluded.attempts,
+      message_id = excluded.message_id, error = excluded.error, updated_at = datetime('now')`);
+
+  for (const row of due) {
+    const occurrence = new Date(row.occurrence_at || row.send_at);
+    const attempt = (row.attempts || 0) + 1;
+    const window: SendWindow | null = row.send_window ? JSON.parse(row.send_window) : null;
+    const tz = row.timezone || 'UTC';
+
+    // Move to the next occurrence (recurring) or close the schedule (one-shot).
+    const advance = (sent: boolean, error: string | null) => {
+      if (row.recurrence) {
+        const rec = parseRecurrence(row.recurrence);
+        const after = new Date(Math.max(occurrence.getTime(), now.getTime()));
+        const next = nextOccurrence(rec, { start: new Date(row.starts_at || row.send_at), tz, after });
+        if (next) {
+          db.prepare(`UPDATE scheduled_emails SET status = 'pending', occurrence_at = ?, send_at = ?, attempts = 0,
+              sent_at = CASE WHEN ? THEN datetime('now') ELSE sent_at END, error = ?, last_run_at = ?, updated_at = datetime('now')
+            WHERE id = ?`)
+            .run(next.toISOString(), (window ? applySendWindow(next, window, tz) : next).toISOString(),
+              sent ? 1 : 0, error, now.toISOString(), row.id);
+          return;
+        }
+        db.prepare(`UPDATE scheduled_emails SET status = 'completed', attempts = ?,
+            sent_at = CASE WHEN ? THEN datetime('now') ELSE sent_at END, error = ?, last_run_at = ?, updated_at = datetime('now')
+          WHERE id = ?`)
+          .run(attempt, sent ? 1 : 0, error, now.toISOString(), row.id);
+        return;
+      }
+      db.prepare(`UPDATE scheduled_emails SET status = ?, attempts = ?, sent_at = CASE WHEN ? THEN datetime('now') ELSE sent_at END,
+          error = ?, last_run_at = ?, updated_at = datetime('now') WHERE id = ?`)
+        .run(sent ? 'sent' : 'failed', attempt, sent ? 1 : 0, error, now.toISOString(), row.id);
+    };
 
-      for (const row of pending) {
-        try {
-          const agent = await accountManager.getById(row.agent_id);
-          if (!agent) {
-            db.prepare("UPDATE scheduled_emails SET status = 'failed', error = ? WHERE id = ?")
-              .run('Agent not found', row.id);
-            continue;
-          }
+    try {
+      const agent = await accountManager.getById(row.agent_id);
+      if (!agent) {
+        // Nothing left to send as — close the schedule outright.
+        recordRun.run(uuidv4(), row.id, row.agent_id, occurrence.toISOString(), 'failed', attempt, null, 'Agent not found');
+        db.prepare("UPDATE scheduled_emails SET status = 'failed', error = ?, updated_at = datetime('now') WHERE id = ?")
+          .run('Agent not found', row.id);
+        continue;
+      }
 
-          const mailOpts = {
-            to: row.to_addr,
-            subject: row.subject,
-            text: row.text_body || undefined,
-            html: row.html_body || undefined,
-            cc: row.cc || undefined,
-            bcc: row.bcc || undefined,
-          };
-
-          // Try gateway first
-          if (gatewayManager) {
-            const gResult = await gatewayManager.routeOutbound(agent.name, mailOpts);
-            if (gResult) {
-              db.prepare("UPDATE scheduled_emails SET status = 'sent', sent_at = datetime('now') WHERE id = ?").run(row.id);
-              continue;
-            }
-          }
+      const mailOpts = renderScheduledEmail(db, row, occurrence);
+      // The same recipient checks as /mail/send. A recurring schedule is
+      // bulk-style mail, so recipients who unsubscribed from the agent's
+      // bulk mail stop getting it too. A refused occurrence fails
+      // without retries; the next one is checked afresh.
+      const blocked = checkRecipients(db, agent.id, mailOpts, {
+        bulkList: row.recurrence ? DEFAULT_UNSUBSCRIBE_LIST : undefined,
+      });
+      if (blocked) throw new ScheduleError(`Not sent: ${describeRecipientBlock(blocked)}`);
+      let messageId: string | undefined;
 
-          const password = (agent.metadata as Record<string, any>)?._password || agent.name;
-          const sender = new MailSender({
-            host: config.smtp.host,
-            port: config.smtp.port,
-            email: agent.email,
-            password,
-            authUser: agent.stalwartPrincipal,
-          });
-          try {
-            await sender.send(mailOpts);
-            db.prepare("UPDATE scheduled_emails SET status = 'sent', sent_at = datetime('now') WHERE id = ?").run(row.id);
-          } finally {
-            sender.close();
-          }
-        } catch (err) {
-          db.prepare("UPDATE scheduled_emails SET status = 'failed', error = ? WHERE id = ?")
-            .run((err as Error).message, row.id);
+      // Try gateway first
+      const gResult = gatewayManager ? await gatewayManager.routeOutbound(agent.name, mailOpts) : null;
+      if (gResult) {
+        messageId = gResult.messageId;
+      } else {
+        const sender = new MailSender({
+          host: config.smtp.host,
+          port: config.smtp.port,
+          email: agent.email,
+          password: getAgentPassword(agent),
+          authUser: agent.stalwartPrincipal,
+        });
+        try {
+          messageId = (await sender.send(mailOpts)).messageId;
+        } finally {
+          sender.close();
+        }
+      }
+      recordRun.run(uuidv4(), row.id, row.agent_id, occurrence.toISOString(), 'sent', attempt, messageId ?? null, null);
+      recordSentMail(db, agent.id, messageId, mailOpts);
+      emitWebhookEvent('mail.sent', agent.id, {
+        messageId, to: mailOpts.to, cc: mailOpts.cc, bcc: mailOpts.bcc, subject: mailOpts.subject, scheduledId: row.id,
+      });
+      advance(true, null);
+    } catch (err) {
+      const message = (err as Error).message;
+      try {
+        if (err instanceof OutboundQuotaError) {
+          // Over quota is a wait, not a failure: move to when there is room.
+          const retryAt = new Date(now.getTime() + err.retryAfterSeconds * 1000);
+          recordRun.run(uuidv4(), row.id, row.agent_id, occurrence.toISOString(), 'retrying', row.attempts || 0, null, message);
+          db.prepare(`UPDATE scheduled_emails SET send_at = ?, error = ?, last_run_at = ?, updated_at = datetime('now') WHERE id = ?`)
+            .run((window ? applySendWindow(retryAt, window, tz) : retryAt).toISOString(), message, now.toISOString(), row.id);
+        } else if (!(err instanceof ScheduleError) && attempt < (row.max_attempts ?? 1)) {
+          const retryAt = new Date(now.getTime() + retryDelayMs(attempt));
+          recordRun.run(uuidv4(), row.id, row.agent_id, occurrence.toISOString(), 'retrying', attempt, null, message);
+          db.prepare(`UPDATE scheduled_emails SET attempts = ?, send_at = ?, error = ?, last_run_at = ?, updated_at = datetime('now')
+            WHERE id = ?`)
+            .run(attempt, (window ? applySendWindow(retryAt, window, tz) : retryAt).toISOString(), message, now.toISOString(), row.id);
+        } else {
+          recordRun.run(uuidv4(), row.id, row.agent_id, occurrence.toISOString(), 'failed', attempt, null, message);
+          advance(false, message);
         }
+      } catch {
+        db.prepare("UPDATE scheduled_emails SET status = 'failed', error = ? WHERE id = ?").run(message, row.id);
       }
+    }
+  }
+}
+
+/**
+ * Start the scheduled email sender loop.
+ * Checks every 30 seconds for emails that need to be sent, including
+ * mail queued by an outbound quota and due campaign mail.
+ */
+export function startScheduledSender(
+  db: Database,
+  accountManager: AccountManager,
+  config: AgenticMailConfig,
+  gatewayManager?: GatewayManager,
+): ReturnType<typeof setInterval> {
+  // A slow SMTP server can make a sweep outlast the interval; don't
+  // let the next one pick up the same rows.
+  let running = false;
+  return setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sweepScheduledEmails(db, accountManager, config, gatewayManager);
+      await sweepOutboundQueue(db, accountManager, config, gatewayManager);
+      await sweepCampaigns(db, accountManager, config, gatewayManager);
       // Housekeeping: prune delivered_messages older than 30 days
       try {
         db.prepare("DELETE FROM delivered_messages WHERE delivered_at < datetime('now', '-30 days')").run();
@@ -758,6 +1414,23 @@ export function startScheduledSender(
       try {
         db.prepare("DELETE FROM spam_log WHERE created_at < datetime('now', '-30 days')").run();
       } catch { /* ignore cleanup errors */ }
-    } catch { /* ignore sweep errors */ }
+      // Housekeeping: prune finished quota-queue entries older than 30 days
+      try {
+        db.prepare("DELETE FROM outbound_queue WHERE status != 'queued' AND created_at < ?")
+          .run(new Date(Date.now() - 30 * 86_400_000).toISOString());
+      } catch { /* ignore cleanup errors */ }
+      // Housekeeping: forget sent-message recipients older than 30 days
+      // (a bounce arriving later is recorded but suppresses nothing)
+      try {
+        db.prepare('DELETE FROM sent_recipients WHERE created_at < ?')
+          .run(new Date(Date.now() - 30 * 86_400_000).toISOString());
+      } catch { /* ignore cleanup errors */ }
+      // Housekeeping: prune finished webhook deliveries older than 30 days
+      try {
+        db.prepare("DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < datetime('now', '-30 days')").run();
+      } catch { /* ignore cleanup errors */ }
+    } catch { /* ignore sweep errors */ } finally {
+      running = false;
+    }
   }, 30_000);
 }
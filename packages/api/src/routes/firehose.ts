@@ -0,0 +1,264 @@
+/**
+ * Event bus and journal behind `/events` and `/events/all`.
+ *
+ * # Why this exists
+ *
+ * Host dispatchers (@agenticmail/claudecode, @agenticmail/codex) used to
+ * open one `/events` SSE per account — one IMAP IDLE watcher each — and
+ * poll `GET /accounts` to learn about new ones. The firehose carries
+ * every agent's events on a single master-auth stream instead:
+ *
+ *   - mail (`new`, `expunge`, `flags`, watcher reconnects) after the
+ *     spam filter and rules have run, exactly as `/events` sees it
+ *   - tasks and direct pushes (`pushEventToAgent`)
+ *   - SMS, Telegram and call activity (core's channel-activity feed)
+ *   - account lifecycle: `account_created`, `account_deleted`,
+ *     `account_stopped`, `account_resumed`
+ *
+ * Every event is stamped with `agentId` and a monotonic `eventId`,
+ * which is also the SSE `id:` on both streams so a reconnecting client
+ * sends it back as `Last-Event-ID` and gets what it missed.
+ *
+ * # The journal
+ *
+ * Events written while a client was disconnected used to be lost, and
+ * the dispatchers made up for it with catch-up inbox scans. Once
+ * `attachEventJournal(db)` has run, every published event is also
+ * written to the `event_journal` table, so replay survives restarts and
+ * reaches back as far as the retention window (AGENTICMAIL_EVENT_RETENTION_HOURS,
+ * default 72). Without a database the bus falls back to an in-memory
+ * buffer of the last REPLAY_BUFFER_SIZE events, and ids restart at 1.
+ *
+ * When a client asks to resume from an id the journal can no longer
+ * serve, it gets a `replay_gap` event first and should re-sync from the
+ * list endpoints.
+ *
+ * # API surface
+ *
+ *   GET /events/all                   SSE stream, master-auth only (events.ts)
+ *   GET /events/history               journal query (events.ts)
+ *   publishAgentEvent(agentId, e)     stamp, journal and fan out one event
+ *   publishAccountEvent(e)            same, for account lifecycle events
+ *   onFirehoseEvent(listener)         in-process tap (watch management)
+ */
+
+import type { Response } from 'express';
+import type { Database } from '@agenticmail/core';
+
+export interface FirehoseEvent {
+  id: number;
+  agentId: string | null;
+  createdAt: string;
+  event: Record<string, unknown>;
+}
+
+export type FirehoseListener = (event: FirehoseEvent) => void;
+
+export interface EventQuery {
+  /** Restrict to one agent's events. */
+  agentId?: string;
+  /** Only events with an id greater than this. */
+  afterId?: number;
+  /** Only events created at or after this instant. */
+  since?: Date;
+  /** Only events created before this instant. */
+  until?: Date;
+  types?: string[];
+  limit?: number;
+}
+
+const REPLAY_BUFFER_SIZE = 1000;
+const REPLAY_PAGE_SIZE = 500;
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+const DEFAULT_RETENTION_HOURS = 72;
+
+let lastEventId = 0;
+const buffer: FirehoseEvent[] = [];
+const listeners = new Set<FirehoseListener>();
+const streams = new Set<Response>();
+/** Event object → id, so a re-broadcast of a published event reuses its id. */
+const publishedIds = new WeakMap<object, number>();
+
+let journal: Database | null = null;
+let retentionMs = DEFAULT_RETENTION_HOURS * 3_600_000;
+let pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+function retentionFromEnv(): number {
+  const hours = Number(process.env.AGENTICMAIL_EVENT_RETENTION_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_RETENTION_HOURS) * 3_600_000;
+}
+
+/**
+ * Persist published events to `db` from now on. Ids continue from the
+ * highest id the table has ever handed out. Prunes past the retention
+ * window immediately and then hourly.
+ */
+export function attachEventJournal(db: Database, opts: { retentionMs?: number } = {}): void {
+  if (journal === db) return;
+  detachEventJournal();
+  journal = db;
+  retentionMs = opts.retentionMs ?? retentionFromEnv();
+  const seq = db.prepare("SELECT seq FROM sqlite_sequence WHERE name = 'event_journal'").get() as { seq: number } | undefined;
+  lastEventId = Math.max(lastEventId, seq?.seq ?? 0);
+  pruneEventJournal();
+  pruneTimer = setInterval(() => { pruneEventJournal(); }, PRUNE_INTERVAL_MS);
+  pruneTimer.unref?.();
+}
+
+/** Stop journaling (called on shutdown). Live fan-out keeps working. */
+export function detachEventJournal(): void {
+  if (pruneTimer) { clearInterval(pruneTimer); pruneTimer = null; }
+  journal = null;
+}
+
+/** Delete journal rows older than the retention window. Returns the count removed. */
+export function pruneEventJournal(now: Date = new Date()): number {
+  if (!journal) return 0;
+  try {
+    const cutoff = new Date(now.getTime() - retentionMs).toISOString();
+    return Number(journal.prepare('DELETE FROM event_journal WHERE created_at < ?').run(cutoff).changes);
+  } catch {
+    return 0;
+  }
+}
+
+/** SSE frame for a firehose event — `id:` drives Last-Event-ID. */
+export function firehoseFrame(e: FirehoseEvent): string {
+  return `id: ${e.id}\ndata: ${JSON.stringify({ ...e.event, agentId: e.agentId, eventId: e.id })}\n\n`;
+}
+
+/** SSE frame for a per-agent `/events` stream: the event as emitted, plus its id. */
+export function agentEventFrame(id: number, event: Record<string, unknown>): string {
+  return `id: ${id}\ndata: ${JSON.stringify({ ...event, eventId: id })}\n\n`;
+}
+
+/** Stamp an event with the next id, journal it and fan it out. */
+export function publishAgentEvent(agentId: string | null, event: Record<string, unknown>): number {
+  const entry: FirehoseEvent = { id: ++lastEventId, agentId, createdAt: new Date().toISOString(), event };
+  publishedIds.set(event, entry.id);
+  if (journal) {
+    try {
+      journal.prepare('INSERT INTO event_journal (id, agent_id, type, payload, created_at) VALUES (?, ?, ?, ?, ?)')
+        .run(entry.id, agentId, String(event.type ?? 'event'), JSON.stringify(event), entry.createdAt);
+    } catch (err) {
+      // Still deliver live; only replay of this one event is lost.
+      console.error('[events] Journal write failed:', (err as Error).message);
+    }
+  } else {
+    buffer.push(entry);
+    if (buffer.length > REPLAY_BUFFER_SIZE) buffer.shift();
+  }
+  for (const listener of listeners) {
+    try { listener(entry); } catch { /* a broken listener must not stop the fan-out */ }
+  }
+  return entry.id;
+}
+
+/** Publish an account lifecycle event under the account's id. */
+export function publishAccountEvent(event: Record<string, unknown>): number {
+  const account = event.account as { id?: string } | undefined;
+  const agentId = (event.accountId as string | undefined) ?? account?.id ?? null;
+  return publishAgentEvent(agentId, event);
+}
+
+/** The id `event` was published under, if this exact object was published. */
+export function publishedEventId(event: Record<string, unknown>): number | undefined {
+  return publishedIds.get(event);
+}
+
+/** Subscribe to every published event. Returns the unsubscribe function. */
+export function onFirehoseEvent(listener: FirehoseListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function fromRow(row: any): FirehoseEvent {
+  return { id: row.id, agentId: row.agent_id, createdAt: row.created_at, event: JSON.parse(row.payload) };
+}
+
+/**
+ * Query published events, oldest first. `hasMore` is set when `limit`
+ * cut the result short; page on by passing the last id as `afterId`.
+ */
+export function queryEvents(query: EventQuery): { events: FirehoseEvent[]; hasMore: boolean } {
+  const limit = query.limit ?? 100;
+  let events: FirehoseEvent[];
+  if (journal) {
+    const where: string[] = [];
+    const params: Array<string | number> = [];
+    if (query.agentId !== undefined) { where.push('agent_id = ?'); params.push(query.agentId); }
+    if (query.afterId !== undefined) { where.push('id > ?'); params.push(query.afterId); }
+    if (query.since) { where.push('created_at >= ?'); params.push(query.since.toISOString()); }
+    if (query.until) { where.push('created_at < ?'); params.push(query.until.toISOString()); }
+    if (query.types?.length) {
+      where.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+      params.push(...query.types);
+    }
+    const sql = `SELECT * FROM event_journal${where.length ? ` WHERE ${where.join(' AND ')}` : ''} ORDER BY id LIMIT ?`;
+    events = (journal.prepare(sql).all(...params, limit + 1) as any[]).map(fromRow);
+  } else {
+    const since = query.since?.toISOString();
+    const until = query.until?.toISOString();
+    events = buffer.filter(e =>
+      (query.agentId === undefined || e.agentId === query.agentId)
+      && (query.afterId === undefined || e.id > query.afterId)
+      && (!since || e.createdAt >= since)
+      && (!until || e.createdAt < until)
+      && (!query.types?.length || query.types.includes(String(e.event.type))),
+    ).slice(0, limit + 1);
+  }
+  const hasMore = events.length > limit;
+  return { events: hasMore ? events.slice(0, limit) : events, hasMore };
+}
+
+/**
+ * Events that can still be replayed after a resume point — an event id
+ * (`Last-Event-ID`) or an instant — optionally for one agent. `gap` is
+ * set when some may already have been pruned, or when the id is one
+ * this server never issued (in-memory mode after a restart, or a reset
+ * database); nothing is replayed then.
+ */
+export function firehoseEventsSince(from: number | Date, agentId?: string): { events: FirehoseEvent[]; gap: boolean } {
+  const oldest = queryEvents({ limit: 1 }).events[0];
+  let afterId: number;
+  let gap: boolean;
+  if (from instanceof Date) {
+    const first = queryEvents({ since: from, limit: 1 }).events[0];
+    afterId = first ? first.id - 1 : lastEventId;
+    gap = !!oldest && oldest.id > 1 && oldest.createdAt > from.toISOString();
+  } else {
+    // An id we never handed out can't be placed; the client must re-sync.
+    if (from > lastEventId) return { events: [], gap: true };
+    afterId = from;
+    gap = afterId < (oldest?.id ?? lastEventId + 1) - 1;
+  }
+  const events: FirehoseEvent[] = [];
+  for (;;) {
+    const page = queryEvents({ agentId, afterId: events.at(-1)?.id ?? afterId, limit: REPLAY_PAGE_SIZE });
+    events.push(...page.events);
+    if (!page.hasMore) break;
+  }
+  return { events, gap };
+}
+
+export function currentFirehoseEventId(): number {
+  return lastEventId;
+}
+
+/** Track an open `/events/all` response so shutdown can end it. */
+export function trackFirehoseStream(res: Response): () => void {
+  streams.add(res);
+  return () => { streams.delete(res); };
+}
+
+export function firehoseStreamCount(): number {
+  return streams.size;
+}
+
+/** End every firehose stream (called on shutdown). */
+export function closeAllFirehoseStreams(): void {
+  for (const res of streams) {
+    try { res.end(); } catch { /* ignore */ }
+  }
+  streams.clear();
+}
@@ -404,13 +404,78 @@ export function createGatewayRoutes(gatewayManager: GatewayManager): Router {
         return;
       }
 
-      const verification = await dnsConfig.verify(config.domain.domain);
+      const dkim = gatewayManager.getDkimKeys()
+        .filter((k) => k.status === 'active')
+        .map((k) => ({ selector: k.selector, publicKey: k.publicKey || undefined }));
+      const verification = await dnsConfig.verify(config.domain.domain, { dkim });
       res.json({ domain: config.domain.domain, dns: verification });
     } catch (err) {
       next(err);
     }
   });
 
+  // List DKIM keys and their rotation history — requires master key
+  router.get('/gateway/domain/dkim', requireMaster, async (_req, res, next) => {
+    try {
+      const config = gatewayManager.getConfig();
+      if (config.mode !== 'domain' || !config.domain) {
+        res.status(400).json({ error: 'Domain mode not configured' });
+        return;
+      }
+      res.json({ domain: config.domain.domain, keys: gatewayManager.getDkimKeys() });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Rotate DKIM keys — requires master key. Waits for DNS propagation;
+  // answers 202 with status "awaiting_dns" if the new selectors don't
+  // resolve in time (call again to finish the rotation).
+  router.post('/gateway/domain/dkim/rotate', requireMaster, async (req, res, next) => {
+    try {
+      const config = gatewayManager.getConfig();
+      if (config.mode !== 'domain' || !config.domain) {
+        res.status(400).json({ error: 'Domain mode not configured' });
+        return;
+      }
+
+      const { gracePeriodDays, propagationTimeoutSeconds } = req.body || {};
+      if (gracePeriodDays !== undefined && (typeof gracePeriodDays !== 'number' || !(gracePeriodDays >= 0))) {
+        res.status(400).json({ error: 'gracePeriodDays must be a non-negative number' });
+        return;
+      }
+      if (propagationTimeoutSeconds !== undefined
+        && (typeof propagationTimeoutSeconds !== 'number' || !(propagationTimeoutSeconds >= 0) || propagationTimeoutSeconds > 600)) {
+        res.status(400).json({ error: 'propagationTimeoutSeconds must be a number between 0 and 600' });
+        return;
+      }
+
+      const result = await gatewayManager.rotateDkimKeys({
+        gracePeriodDays,
+        propagationTimeoutMs: propagationTimeoutSeconds !== undefined ? propagationTimeoutSeconds * 1000 : undefined,
+      });
+      res.status(result.status === 'active' ? 200 : 202).json(result);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Retire replaced DKIM keys past their grace period (all of them with
+  // { force: true }) — requires master key
+  router.post('/gateway/domain/dkim/retire', requireMaster, async (req, res, next) => {
+    try {
+      const config = gatewayManager.getConfig();
+      if (config.mode !== 'domain' || !config.domain) {
+        res.status(400).json({ error: 'Domain mode not configured' });
+        return;
+      }
+      const retired = await gatewayManager.retireDkimKeys({ force: req.body?.force === true });
+      res.json({ domain: config.domain.domain, retired });
+    } catch (err) {
+      next(err);
+    }
+  });
+
   // Start/restart tunnel — requires master key
   router.post('/gateway/tunnel/start', requireMaster, async (_req, res, next) => {
     try {
@@ -6,6 +6,8 @@ import {
   PhoneManager,
   parseOperatorQueryReply,
   isOperatorReplySender,
+  verifyEmailAuthentication,
+  formatAuthenticationResults,
   getDatabase,
   type AccountManager,
   type AgenticMailConfig,
@@ -46,7 +48,7 @@ export function createInboundRoutes(
         return;
       }
 
-      const { from, to, subject, rawEmail } = req.body;
+      const { from, to, subject, rawEmail, clientIp } = req.body;
       if (!to || !rawEmail) {
         res.status(400).json({ error: 'to and rawEmail are required' });
         return;
@@ -75,6 +77,14 @@ export function createInboundRoutes(
       const rawBuffer = Buffer.from(rawEmail, 'base64');
       const parsed = await parseEmail(rawBuffer);
 
+      // Verify SPF (when the worker knows the connecting IP), DKIM, DMARC
+      // and ARC. The verdict gates the operator-reply hook below and rides
+      // on the delivered copy as Authentication-Results for the spam filter.
+      const authentication = await verifyEmailAuthentication(rawBuffer, {
+        ip: typeof clientIp === 'string' && clientIp ? clientIp : undefined,
+        mailFrom: typeof from === 'string' ? from : undefined,
+      });
+
       // ─── Operator-query email-reply hook (v0.9.53, plan §5) ──────
       //
       // The realtime voice `ask_operator` tool emails the operator a
@@ -95,14 +105,15 @@ export function createInboundRoutes(
           // travels in plaintext subjects (quoting, forwarding, relay/
           // provider logs). So an emailed answer is only honoured when its
           // From address matches the configured operator — consistent
-          // with plan §5 (the operator is the one who replies). Ultimate
-          // strength still depends on inbound SPF/DKIM rejecting a spoofed
-          // From; this closes the casual-leak path.
+          // with plan §5 (the operator is the one who replies) — and the
+          // operator's domain must have passed aligned SPF or DKIM, so a
+          // spoofed From with a leaked token is refused too.
           const replyFrom = parsed.from?.[0]?.address || (typeof from === 'string' ? from : '');
-          if (!isOperatorReplySender(replyFrom, config.operatorEmail)) {
+          if (!isOperatorReplySender(replyFrom, config.operatorEmail, authentication)) {
             console.warn(
               `[Inbound] operator-query reply for ${opReply.queryId} rejected — `
-              + `sender "${replyFrom || '(unknown)'}" is not the configured operator`,
+              + `sender "${replyFrom || '(unknown)'}" is not the configured operator`
+              + (authentication.fromAligned ? '' : ' or failed sender authentication'),
             );
           } else {
             const found = phoneManager.findMissionByOperatorQueryId(opReply.queryId);
@@ -154,6 +165,7 @@ export function createInboundRoutes(
             'X-AgenticMail-Inbound': 'cloudflare-worker',
             'X-Original-From': from || parsed.from?.[0]?.address || '',
             ...(parsed.messageId ? { 'X-Original-Message-Id': parsed.messageId } : {}),
+            'Authentication-Results': formatAuthenticationResults(authentication),
           },
           attachments: parsed.attachments?.map(a => ({
             filename: a.filename,
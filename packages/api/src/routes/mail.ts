@@ -6,16 +6,32 @@ import {
   MailReceiver,
   parseEmail,
   scoreEmail,
+  explainSpamScore,
+  SpamModel,
   sanitizeEmail,
   isInternalEmail,
   scanOutboundEmail,
+  loadOutboundPolicy,
+  OutboundQuotaError,
+  BounceTracker,
+  parseBounce,
+  UnsubscribeList,
+  isValidListName,
+  DEFAULT_UNSUBSCRIBE_LIST,
+  threadMessages,
   type AccountManager,
   type AgenticMailConfig,
   type Agent,
+  type EmailEnvelope,
   type GatewayManager,
+  type MessageThread,
+  type SuppressedRecipient,
+  type UnsubscribeRecord,
 } from '@agenticmail/core';
 import { requireAgent, requireMaster, requireAuth } from '../middleware/auth.js';
 import { pushEventToAgent } from './events.js';
+import { emitWebhookEvent } from './webhooks.js';
+import { bulkUnsubscribeHeaders, publicBaseUrl } from './unsubscribe.js';
 
 // Cache of sender/receiver per agent with TTL-based eviction
 const senderCache = new Map<string, { sender: MailSender; createdAt: number }>();
@@ -751,8 +767,10 @@ async function notifyLocalRecipientsOfNewMail(
   }
 }
 
+const sentFolderCache = new Map<string, string>(); // authUser → folder path
+
 /**
- * Append a sent message to the agent's Sent folder (fire-and-forget).
+ * Resolve the agent's Sent folder.
  *
  * Auto-discovers the correct folder name instead of hard-coding
  * 'Sent Items'. Different mail servers use different names —
@@ -760,22 +778,27 @@ async function notifyLocalRecipientsOfNewMail(
  * macOS Mail can mount it as `Sent Messages`. Before this lookup,
  * the hard-coded name would silently fail on every server that
  * didn't match, leaving an empty Sent folder. The first match
- * is cached on the IMAP capability set so we only pay the
- * listFolders cost once per process.
+ * is cached per principal so we only pay the listFolders cost
+ * once per process.
  */
-const sentFolderCache = new Map<string, string>(); // authUser → folder path
+async function resolveSentFolder(authUser: string, receiver: MailReceiver): Promise<string> {
+  let folder = sentFolderCache.get(authUser);
+  if (!folder) {
+    const folders = await receiver.listFolders();
+    const sentRe = /^sent\b|sent items|sent mail|sent messages|\[gmail\]\/sent/i;
+    folder = folders.find(f => f.specialUse === '\\Sent')?.path
+      ?? folders.find(f => sentRe.test(f.name) || sentRe.test(f.path))?.path
+      ?? 'Sent Items';   // last-resort fallback
+    sentFolderCache.set(authUser, folder);
+  }
+  return folder;
+}
+
+/** Append a sent message to the agent's Sent folder (fire-and-forget). */
 async function saveSentCopy(authUser: string, password: string, config: AgenticMailConfig, raw: Buffer): Promise<void> {
   try {
     const receiver = await getReceiver(authUser, password, config);
-    let folder = sentFolderCache.get(authUser);
-    if (!folder) {
-      const folders = await receiver.listFolders();
-      const sentRe = /^sent\b|sent items|sent mail|sent messages|\[gmail\]\/sent/i;
-      folder = folders.find(f => f.specialUse === '\\Sent')?.path
-        ?? folders.find(f => sentRe.test(f.name) || sentRe.test(f.path))?.path
-        ?? 'Sent Items';   // last-resort fallback
-      sentFolderCache.set(authUser, folder);
-    }
+    const folder = await resolveSentFolder(authUser, receiver);
     await receiver.appendMessage(raw, folder, ['\\Seen']);
   } catch (err) {
     // Best-effort — don't let Sent copy failures affect the send response
@@ -783,8 +806,309 @@ async function saveSentCopy(authUser: string, password: string, config: AgenticM
   }
 }
 
+/** An envelope tagged with the folder it was listed from. */
+export interface ThreadEnvelope extends EmailEnvelope {
+  folder: string;
+}
+
+/** Default / max messages scanned per folder when building threads. */
+const THREAD_SCAN_DEFAULT = 200;
+const THREAD_SCAN_MAX = 1000;
+
+/**
+ * Thread the newest `scan` messages of INBOX and Sent with the JWZ
+ * header threader (core threading/jwz.ts). Thread ids are the same
+ * ones `threadIdFor` gives the dispatcher's thread cache and the
+ * `get_thread_id` tool. A missing Sent folder just contributes nothing.
+ */
+export async function loadMailThreads(
+  receiver: MailReceiver,
+  authUser: string,
+  scan = THREAD_SCAN_DEFAULT,
+): Promise<MessageThread<ThreadEnvelope>[]> {
+  const folders = ['INBOX', await resolveSentFolder(authUser, receiver).catch(() => 'Sent Items')];
+  const envelopes: ThreadEnvelope[] = [];
+  for (const folder of folders) {
+    let listed: EmailEnvelope[];
+    try {
+      listed = await receiver.listEnvelopes(folder, { limit: scan });
+    } catch (err) {
+      if (folder === 'INBOX') throw err;
+      continue;
+    }
+    for (const env of listed) envelopes.push({ ...env, folder });
+  }
+  return threadMessages(envelopes);
+}
+
+/** JSON-safe envelope: `flags` is a Set on the wire type. */
+function threadEnvelopeJson(env: ThreadEnvelope) {
+  return { ...env, flags: [...env.flags] };
+}
+
+function threadSummary(thread: MessageThread<ThreadEnvelope>) {
+  const participants = new Set<string>();
+  for (const { message } of thread.messages) {
+    for (const a of [...message.from, ...message.to, ...(message.cc ?? [])]) {
+      if (a.address) participants.add(a.address.toLowerCase());
+    }
+  }
+  const latest = thread.messages[thread.messages.length - 1].message;
+  return {
+    threadId: thread.threadId,
+    rootMessageId: thread.rootMessageId,
+    subject: thread.subject,
+    messageCount: thread.messages.length,
+    unread: thread.messages.filter(m => m.message.folder === 'INBOX' && !m.message.flags.has('\\Seen')).length,
+    participants: [...participants],
+    folders: [...new Set(thread.messages.map(m => m.message.folder))],
+    lastDate: thread.lastDate.toISOString(),
+    latest: { uid: latest.uid, folder: latest.folder, from: latest.from, subject: latest.subject },
+  };
+}
+
+/** Outbound-guard fields merged into a successful send response. */
+function outboundReport(warnings?: unknown[], summary?: string, exempted?: unknown[]): Record<string, unknown> {
+  return {
+    ...(warnings ? { outboundWarnings: warnings, outboundSummary: summary } : {}),
+    ...(exempted ? { outboundExempted: exempted } : {}),
+  };
+}
+
+/**
+ * Turn mail options stored as JSON (pending approval, quota queue) back
+ * into something the senders accept: current display name, revived
+ * attachment Buffers, and the persisted wake list as a header again.
+ */
+function reviveStoredMailOptions(agent: Agent, stored: string): { mailOpts: any; wakeList?: string[]; bulkList?: string } {
+  const mailOpts = JSON.parse(stored);
+
+  // Refresh fromName from current agent metadata (in case it changed)
+  const ownerName = (agent.metadata as Record<string, any>)?.ownerName;
+  mailOpts.fromName = ownerName ? `${agent.name} from ${ownerName}` : agent.name;
+
+  // Reconstitute any JSON-roundtripped Buffer objects in attachments
+  if (Array.isArray(mailOpts.attachments)) {
+    for (const att of mailOpts.attachments) {
+      if (att.content && typeof att.content === 'object' && att.content.type === 'Buffer' && Array.isArray(att.content.data)) {
+        att.content = Buffer.from(att.content.data);
+      }
+    }
+  }
+
+  // Restore the X-AgenticMail-Wake header from the persisted wakeList
+  // so the round-trip doesn't strip the sender's wake intent. Without
+  // this, every CC'd recipient would get a Claude turn even though the
+  // sender wanted just one.
+  const wakeList: string[] | undefined = Array.isArray(mailOpts.wakeList) ? mailOpts.wakeList : undefined;
+  if (wakeList !== undefined) {
+    mailOpts.headers = { ...(mailOpts.headers ?? {}), ...wakeHeaders(wakeList) };
+    // The stored field isn't part of the SMTP message shape, scrub it.
+    delete mailOpts.wakeList;
+  }
+
+  // Bulk mail keeps its List-Unsubscribe headers in `headers`; the list
+  // name comes back so the unsubscribe can be re-checked before sending.
+  const bulkList: string | undefined = typeof mailOpts.bulkList === 'string' ? mailOpts.bulkList : undefined;
+  delete mailOpts.bulkList;
+  return { mailOpts, wakeList, bulkList };
+}
+
+/** Queued (over-quota) mail an agent may have waiting at once; past this, sends are rejected. */
+const OUTBOUND_QUEUE_MAX_PER_AGENT = 500;
+/** Non-quota send failures before a queued mail is given up on. */
+const OUTBOUND_QUEUE_MAX_ATTEMPTS = 3;
+/** Queued mails tried per sweep. */
+const OUTBOUND_QUEUE_BATCH = 50;
+
+/**
+ * Send queued over-quota mail whose wait is over. Called from the
+ * scheduled-sender loop. A mail that is still over quota moves to the
+ * new retry time without using up an attempt, and the rest of that
+ * agent's queue waits for the next sweep.
+ */
+export async function sweepOutboundQueue(
+  db: Database,
+  accountManager: AccountManager,
+  config: AgenticMailConfig,
+  gatewayManager?: GatewayManager,
+  now: Date = new Date(),
+): Promise<void> {
+  const due = db.prepare(
+    "SELECT * FROM outbound_queue WHERE status = 'queued' AND send_after <= ? ORDER BY send_after, created_at LIMIT ?",
+  ).all(now.toISOString(), OUTBOUND_QUEUE_BATCH) as any[];
+  const throttled = new Set<string>();
+
+  for (const row of due) {
+    if (throttled.has(row.agent_id)) continue;
+    const attempt = (row.attempts || 0) + 1;
+    try {
+      const agent = await accountManager.getById(row.agent_id);
+      if (!agent) {
+        db.prepare("UPDATE outbound_queue SET status = 'failed', error = ?, attempts = ? WHERE id = ?")
+          .run('Agent not found', attempt, row.id);
+        continue;
+      }
+      const { mailOpts, wakeList, bulkList } = reviveStoredMailOptions(agent, row.mail_options);
+      // Suppression was checked (or overridden) when the mail was queued.
+      const blocked = checkRecipients(db, agent.id, mailOpts, { bulkList, allowSuppressed: true });
+      if (blocked) {
+        db.prepare("UPDATE outbound_queue SET status = 'cancelled', error = ? WHERE id = ?")
+          .run(describeRecipientBlock(blocked), row.id);
+        continue;
+      }
+      const password = getAgentPassword(agent);
+
+      let messageId: string | undefined;
+      const gatewayResult = gatewayManager ? await gatewayManager.routeOutbound(agent.name, mailOpts) : null;
+      if (gatewayResult) {
+        if (gatewayResult.raw) saveSentCopy(agent.stalwartPrincipal, password, config, gatewayResult.raw);
+        messageId = gatewayResult.messageId;
+      } else {
+        // The gateway was switched off while the mail waited.
+        const result = await getSender(agent.stalwartPrincipal, agent.email, password, config).send(mailOpts);
+        saveSentCopy(agent.stalwartPrincipal, password, config, result.raw);
+        notifyLocalRecipientsOfNewMail(
+          accountManager, mailOpts.to, mailOpts.cc, mailOpts.bcc, agent, mailOpts.subject, result.messageId, config, wakeList,
+        ).catch((err) => {
+          console.warn(`[mail] Internal SSE notify (queue) failed: ${(err as Error).message}`);
+        });
+        messageId = result.messageId;
+      }
+
+      db.prepare("UPDATE outbound_queue SET status = 'sent', attempts = ?, message_id = ?, error = NULL, sent_at = ? WHERE id = ?")
+        .run(attempt, messageId ?? null, now.toISOString(), row.id);
+      recordSentMail(db, agent.id, messageId, mailOpts);
+      emitWebhookEvent('mail.sent', agent.id, {
+        messageId, to: mailOpts.to, cc: mailOpts.cc, bcc: mailOpts.bcc, subject: mailOpts.subject, queueId: row.id,
+      });
+    } catch (err) {
+      const message = (err as Error).message;
+      if (err instanceof OutboundQuotaError) {
+        throttled.add(row.agent_id);
+        db.prepare('UPDATE outbound_queue SET send_after = ?, error = ? WHERE id = ?')
+          .run(new Date(now.getTime() + err.retryAfterSeconds * 1000).toISOString(), message, row.id);
+      } else if (attempt < OUTBOUND_QUEUE_MAX_ATTEMPTS) {
+        db.prepare('UPDATE outbound_queue SET attempts = ?, send_after = ?, error = ? WHERE id = ?')
+          .run(attempt, new Date(now.getTime() + attempt * 60_000).toISOString(), message, row.id);
+      } else {
+        db.prepare("UPDATE outbound_queue SET status = 'failed', attempts = ?, error = ? WHERE id = ?")
+          .run(attempt, message, row.id);
+      }
+    }
+  }
+}
+
+/** Why `checkRecipients` refused a send. */
+export type RecipientBlock =
+  | { reason: 'suppressed'; suppressed: SuppressedRecipient[] }
+  | { reason: 'unsubscribed'; list: string; recipient: UnsubscribeRecord };
+
+/**
+ * The recipient checks every send path runs before mail goes out:
+ * addresses on the bounce suppression list (and MAILER-DAEMON) are
+ * refused unless `allowSuppressed`, and bulk-style mail — anything
+ * sent with a `bulkList` — also refuses recipients who unsubscribed
+ * from that list. Returns the first reason the send must not go out,
+ * or null.
+ */
+export function checkRecipients(
+  db: Database,
+  agentId: string,
+  mailOpts: { to?: unknown; cc?: unknown; bcc?: unknown },
+  opts: { bulkList?: string; allowSuppressed?: boolean } = {},
+): RecipientBlock | null {
+  const recipients = recipientAddresses(mailOpts.to, mailOpts.cc, mailOpts.bcc);
+  if (!opts.allowSuppressed) {
+    const suppressed = new BounceTracker(db).suppressed(recipients);
+    if (suppressed.length > 0) return { reason: 'suppressed', suppressed };
+  }
+  if (opts.bulkList) {
+    const [optedOut] = new UnsubscribeList(db).find(agentId, opts.bulkList, recipients);
+    if (optedOut) return { reason: 'unsubscribed', list: opts.bulkList, recipient: optedOut };
+  }
+  return null;
+}
+
+/** A one-line description of a `RecipientBlock`, for logs and failure records. */
+export function describeRecipientBlock(block: RecipientBlock): string {
+  return block.reason === 'suppressed'
+    ? `${block.suppressed.map(r => `${r.address} (${r.reason})`).join(', ')} ${block.suppressed.length === 1 ? 'is' : 'are'} on the suppression list`
+    : `${block.recipient.address} unsubscribed from list "${block.list}"`;
+}
+
+/**
+ * Remember who a sent message went to, so a bounce of it can suppress
+ * the recipient (`BounceTracker.recordSent`). Called by every send
+ * path once the mail is out; never fails the send.
+ */
+export function recordSentMail(
+  db: Database,
+  agentId: string,
+  messageId: string | undefined,
+  mailOpts: { to?: unknown; cc?: unknown; bcc?: unknown },
+): void {
+  if (!messageId) return;
+  try {
+    new BounceTracker(db).recordSent(agentId, messageId, recipientAddresses(mailOpts.to, mailOpts.cc, mailOpts.bcc));
+  } catch (err) {
+    console.warn(`[mail] Could not record sent recipients: ${(err as Error).message}`);
+  }
+}
+
+/** Every address in to/cc/bcc, whether each field is a string, a list or absent. */
+function recipientAddresses(...fields: unknown[]): string[] {
+  return fields
+    .flatMap(f => (Array.isArray(f) ? f : typeof f === 'string' ? f.split(',') : []))
+    .filter((a): a is string => typeof a === 'string' && a.includes('@'));
+}
+
+/**
+ * Record a bounce or delivery status notification that reached an
+ * agent's inbox. Hard bounces of mail this agent sent go on the
+ * suppression list; others (including forged reports) are only
+ * recorded. Returns the summary the new-mail event carries, or null
+ * for ordinary mail.
+ */
+export function recordInboundBounce(db: Database, agentId: string, raw: Buffer, bounceMessageId?: string) {
+  const report = parseBounce(raw);
+  if (!report) return null;
+  const recorded = new BounceTracker(db).record(agentId, report, bounceMessageId);
+  return {
+    format: report.format,
+    originalMessageId: recorded[0]?.originalMessageId ?? report.originalMessageId ?? null,
+    originalSubject: report.originalSubject ?? null,
+    recipients: report.recipients.filter(r => r.type).map(r => ({
+      address: r.address,
+      type: r.type,
+      action: r.action,
+      status: r.status ?? null,
+      diagnostic: r.diagnosticCode ?? null,
+    })),
+    suppressed: recorded.filter(r => r.suppressed).map(r => r.recipient),
+  };
+}
+
+function queuedSummary(row: any) {
+  const opts = JSON.parse(row.mail_options);
+  return {
+    id: row.id,
+    agentId: row.agent_id,
+    to: opts.to,
+    subject: opts.subject,
+    status: row.status,
+    sendAfter: row.send_after,
+    attempts: row.attempts,
+    messageId: row.message_id,
+    error: row.error,
+    createdAt: row.created_at,
+    sentAt: row.sent_at,
+  };
+}
+
 export function createMailRoutes(accountManager: AccountManager, config: AgenticMailConfig, db: Database, gatewayManager?: GatewayManager): Router {
   const router = Router();
+  const spamModel = new SpamModel(db);
 
   // Send email
   router.post('/mail/send', requireAgent, async (req, res, next) => {
@@ -794,25 +1118,81 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
         return;
       }
       const agent = req.agent!;
-      const { to, subject, text, html, cc, bcc, replyTo, inReplyTo, references, attachments, allowSensitive, wake } = req.body;
+      const { to, cc, bcc, replyTo, inReplyTo, references, attachments, allowSensitive, allowSuppressed, wake, onQuotaExceeded, bulk, list } = req.body;
+      let { subject, text, html } = req.body;
 
       if (!to || !subject) {
         res.status(400).json({ error: 'to and subject are required' });
         return;
       }
+      if (onQuotaExceeded !== undefined && onQuotaExceeded !== 'queue' && onQuotaExceeded !== 'reject') {
+        res.status(400).json({ error: 'onQuotaExceeded must be "queue" or "reject"' });
+        return;
+      }
+      if (bulk !== undefined && typeof bulk !== 'boolean') {
+        res.status(400).json({ error: 'bulk must be a boolean' });
+        return;
+      }
+      if (list !== undefined && (bulk !== true || typeof list !== 'string' || !isValidListName(list))) {
+        res.status(400).json({ error: 'list needs bulk: true and must be 1-64 letters, digits, ".", "_" or "-"' });
+        return;
+      }
       if (typeof to !== 'string' && !Array.isArray(to)) {
         res.status(400).json({ error: 'to must be a string or array of strings' });
         return;
       }
 
+      // Bulk mail: one recipient per message, so its unsubscribe link can
+      // name them.
+      const bulkList: string | undefined = bulk ? (list ?? DEFAULT_UNSUBSCRIBE_LIST) : undefined;
+      let listHeaders: Record<string, string> | undefined;
+      if (bulkList) {
+        const recipients = recipientAddresses(to, cc, bcc);
+        if (recipients.length !== 1) {
+          res.status(400).json({ error: 'bulk mail goes to exactly one recipient per message; send one message per recipient' });
+          return;
+        }
+        const baseUrl = publicBaseUrl(config, gatewayManager);
+        if (!baseUrl) {
+          res.status(400).json({
+            error: 'bulk mail needs a public URL for its unsubscribe link: set publicUrl (AGENTICMAIL_PUBLIC_URL) or use domain mode',
+          });
+          return;
+        }
+        listHeaders = bulkUnsubscribeHeaders(baseUrl, config.masterKey, { agentId: agent.id, list: bulkList, recipient: recipients[0] });
+      }
+
+      // Addresses that hard-bounced before (and MAILER-DAEMON) are refused
+      // unless the caller explicitly sends anyway; bulk recipients who
+      // opted out of the list are skipped.
+      const blocked = checkRecipients(db, agent.id, { to, cc, bcc }, { bulkList, allowSuppressed: allowSuppressed === true });
+      if (blocked?.reason === 'suppressed') {
+        res.status(409).json({
+          error: `Refusing to send to suppressed recipient(s): ${blocked.suppressed.map(r => r.address).join(', ')}. `
+            + 'Set allowSuppressed: true to send anyway.',
+          suppressed: blocked.suppressed,
+        });
+        return;
+      }
+      if (blocked?.reason === 'unsubscribed') {
+        res.json({
+          sent: false, skipped: true, reason: 'unsubscribed', list: blocked.list,
+          recipient: blocked.recipient.address, unsubscribedAt: blocked.recipient.createdAt,
+        });
+        return;
+      }
+
       // Server-side outbound guard — scan unless master key holder explicitly overrides.
       // Agents CANNOT bypass the guard even if they pass allowSensitive=true.
       let outboundWarnings: any[] | undefined;
       let outboundSummary: string | undefined;
+      let outboundExempted: any[] | undefined;
 
       if (!(allowSensitive && req.isMaster)) {
         const scanResult = scanOutboundEmail({
-          to: Array.isArray(to) ? to.join(', ') : to,
+          to,
+          cc,
+          bcc,
           subject,
           text,
           html,
@@ -824,7 +1204,16 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
                 encoding: a.encoding,
               }))
             : undefined,
-        });
+        }, loadOutboundPolicy(config.dataDir, agent.name));
+
+        // Redact-action hits: what goes out (or into the approval queue)
+        // is the rewritten content, never the original.
+        if (scanResult.redacted) {
+          subject = scanResult.redacted.subject ?? subject;
+          text = scanResult.redacted.text ?? text;
+          html = scanResult.redacted.html ?? html;
+        }
+        if (scanResult.exempted) outboundExempted = scanResult.exempted;
 
         if (scanResult.blocked) {
           // Store in pending queue for human-in-the-loop approval
@@ -851,18 +1240,22 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
           const mailOptions: Record<string, unknown> = {
             to, subject, text, html, cc, bcc, replyTo, inReplyTo, references, attachments, fromName,
             ...(wakeListForPersist !== undefined ? { wakeList: wakeListForPersist } : {}),
+            ...(listHeaders ? { headers: listHeaders, bulkList } : {}),
           };
 
           db.prepare(
             `INSERT INTO pending_outbound (id, agent_id, mail_options, warnings, summary) VALUES (?, ?, ?, ?, ?)`,
           ).run(pendingId, agent.id, JSON.stringify(mailOptions), JSON.stringify(scanResult.warnings), scanResult.summary);
+          emitWebhookEvent('pending_outbound.created', agent.id, {
+            pendingId, to, cc, subject, summary: scanResult.summary, warnings: scanResult.warnings,
+          });
 
           // Notify the owner via email with full email content for review (fire-and-forget)
           if (gatewayManager) {
             const ownerEmail = gatewayManager.getConfig()?.relay?.email;
             if (ownerEmail) {
               const warningList = scanResult.warnings
-                .map((w: any) => `  - [${w.severity.toUpperCase()}] ${w.ruleId}: ${w.description}${w.match ? ` (matched: ${w.match})` : ''}`)
+                .map((w: any) => `  - [${w.severity.toUpperCase()}] ${w.ruleId}: ${w.description}${w.match ? ` (matched: ${w.match})` : ''} → ${w.action} by ${w.policy} policy`)
                 .join('\n');
 
               // Build a complete preview of the blocked email for review
@@ -924,7 +1317,7 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
           return;
         }
 
-        // Medium warnings — send but include warnings in response
+        // Warn / redact hits — send but include warnings in response
         if (scanResult.warnings.length > 0) {
           outboundWarnings = scanResult.warnings;
           outboundSummary = scanResult.summary;
@@ -964,7 +1357,7 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
         const bodyDerived = deriveWakeFromBody(typeof text === 'string' ? text : '', extractLocalNames(cc));
         wakeList = bodyDerived.length > 0 ? bodyDerived : deriveDefaultWakeList(to);
       }
-      const customHeaders = wakeHeaders(wakeList);
+      const customHeaders = { ...wakeHeaders(wakeList), ...listHeaders };
 
       const mailOpts = {
         to, subject, text, html, cc, bcc, replyTo, inReplyTo, references, attachments, fromName,
@@ -974,14 +1367,48 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
 
       // Try gateway routing first (relay/domain mode for external addresses)
       if (gatewayManager) {
-        const gatewayResult = await gatewayManager.routeOutbound(agent.name, mailOpts);
+        let gatewayResult: Awaited<ReturnType<GatewayManager['routeOutbound']>>;
+        try {
+          gatewayResult = await gatewayManager.routeOutbound(agent.name, mailOpts);
+        } catch (err) {
+          // Over quota: queue for later when asked to (per request, else
+          // the policy's onExceed), otherwise the error handler's 429.
+          if (!(err instanceof OutboundQuotaError)) throw err;
+          const queue = (onQuotaExceeded ?? loadOutboundPolicy(config.dataDir, agent.name).quotas.onExceed) === 'queue';
+          const waiting = queue
+            ? (db.prepare("SELECT COUNT(*) AS n FROM outbound_queue WHERE agent_id = ? AND status = 'queued'").get(agent.id) as { n: number }).n
+            : 0;
+          if (!queue || waiting >= OUTBOUND_QUEUE_MAX_PER_AGENT) throw err;
+
+          const queueId = crypto.randomUUID();
+          const sendAfter = new Date(Date.now() + err.retryAfterSeconds * 1000).toISOString();
+          const stored = {
+            to, subject, text, html, cc, bcc, replyTo, inReplyTo, references, attachments, fromName,
+            ...(wakeList !== undefined ? { wakeList } : {}),
+            ...(listHeaders ? { headers: listHeaders, bulkList } : {}),
+          };
+          db.prepare(
+            'INSERT INTO outbound_queue (id, agent_id, mail_options, send_after, created_at) VALUES (?, ?, ?, ?, ?)',
+          ).run(queueId, agent.id, JSON.stringify(stored), sendAfter, new Date().toISOString());
+          res.status(202).json({
+            sent: false,
+            queued: true,
+            queueId,
+            sendAfter,
+            quota: err.exceeded,
+            ...outboundReport(outboundWarnings, outboundSummary, outboundExempted),
+          });
+          return;
+        }
         if (gatewayResult) {
           // Save copy to Sent folder (best-effort — don't fail the send)
           if (gatewayResult.raw) {
             saveSentCopy(agent.stalwartPrincipal, password, config, gatewayResult.raw);
           }
           const { raw: _raw, ...response } = gatewayResult as any;
-          res.json({ ...response, ...(outboundWarnings ? { outboundWarnings, outboundSummary } : {}) });
+          recordSentMail(db, agent.id, response.messageId, mailOpts);
+          emitWebhookEvent('mail.sent', agent.id, { messageId: response.messageId, to, cc, bcc, subject });
+          res.json({ ...response, ...outboundReport(outboundWarnings, outboundSummary, outboundExempted) });
           return;
         }
       }
@@ -1006,7 +1433,9 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
       });
 
       const { raw: _raw, ...response } = result;
-      res.json({ ...response, ...(outboundWarnings ? { outboundWarnings, outboundSummary } : {}) });
+      recordSentMail(db, agent.id, response.messageId, mailOpts);
+      emitWebhookEvent('mail.sent', agent.id, { messageId: response.messageId, to, cc, bcc, subject });
+      res.json({ ...response, ...outboundReport(outboundWarnings, outboundSummary, outboundExempted) });
     } catch (err) {
       next(err);
     }
@@ -1030,6 +1459,65 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
     }
   });
 
+  /** Parse `?scan=` for the thread routes; null when out of range. */
+  function threadScan(raw: unknown): number | null {
+    if (raw === undefined || raw === '') return THREAD_SCAN_DEFAULT;
+    const n = Number(raw);
+    return Number.isInteger(n) && n >= 1 && n <= THREAD_SCAN_MAX ? n : null;
+  }
+
+  // List conversation threads across INBOX + Sent, newest activity first
+  router.get('/mail/threads', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const scan = threadScan(req.query.scan);
+      if (scan === null) {
+        res.status(400).json({ error: `scan must be an integer between 1 and ${THREAD_SCAN_MAX}` });
+        return;
+      }
+      const receiver = await getReceiver(agent.stalwartPrincipal, getAgentPassword(agent), config);
+      const threads = await loadMailThreads(receiver, agent.stalwartPrincipal, scan);
+      res.json({
+        threads: threads.slice(offset, offset + limit).map(threadSummary),
+        count: Math.max(Math.min(limit, threads.length - offset), 0),
+        total: threads.length,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // One thread's messages across INBOX + Sent, oldest first
+  router.get('/mail/threads/:id', requireAgent, async (req, res, next) => {
+    try {
+      const agent = req.agent!;
+      const scan = threadScan(req.query.scan);
+      if (scan === null) {
+        res.status(400).json({ error: `scan must be an integer between 1 and ${THREAD_SCAN_MAX}` });
+        return;
+      }
+      const receiver = await getReceiver(agent.stalwartPrincipal, getAgentPassword(agent), config);
+      const threads = await loadMailThreads(receiver, agent.stalwartPrincipal, scan);
+      const thread = threads.find(t => t.threadId === req.params.id);
+      if (!thread) {
+        res.status(404).json({ error: `No thread ${req.params.id} in the newest ${scan} messages of INBOX or Sent` });
+        return;
+      }
+      res.json({
+        ...threadSummary(thread),
+        messages: thread.messages.map(m => ({
+          ...threadEnvelopeJson(m.message),
+          parentMessageId: m.parentMessageId,
+          depth: m.depth,
+        })),
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
   // Read specific message (with sanitization + spam scoring)
   router.get('/mail/messages/:uid', requireAgent, async (req, res, next) => {
     try {
@@ -1097,7 +1585,7 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
         };
       } else {
         const sanitized = sanitizeEmail(parsed);
-        const spamScore = scoreEmail(parsed);
+        const spamScore = scoreEmail(parsed, spamModel.forAgent(agent.id));
         payload = {
           ...parsed,
           attachments,
@@ -1105,6 +1593,7 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
           html: sanitized.html,
           security: {
             spamScore: spamScore.score,
+            spamProbability: spamScore.probability,
             isSpam: spamScore.isSpam,
             isWarning: spamScore.isWarning,
             topCategory: spamScore.topCategory,
@@ -1669,6 +2158,29 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
     }
   });
 
+  // Adaptive spam model stats — what the agent's report / not-spam
+  // feedback has taught it. Master must name the agent.
+  router.get('/mail/spam/model', requireAuth, async (req, res, next) => {
+    try {
+      let agent = req.agent;
+      if (req.isMaster && typeof req.query.agent === 'string' && req.query.agent) {
+        agent = await accountManager.getByName(req.query.agent) ?? undefined;
+        if (!agent) {
+          res.status(404).json({ error: 'Agent not found' });
+          return;
+        }
+      }
+      if (!agent) {
+        res.status(400).json({ error: 'agent query parameter is required' });
+        return;
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 100);
+      res.json({ agent: agent.name, ...spamModel.stats(agent.id, limit) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
   /**
    * Archive a single message — move it to the agent's Archive
    * mailbox. Auto-discovers the archive folder using the
@@ -1804,8 +2316,10 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
         res.status(400).json({ error: 'Message already in spam' });
         return;
       }
+      // Train before the move — the UID is only valid in the source folder.
+      const training = spamModel.train(agent.id, await parseEmail(await receiver.fetchMessage(uid, folder)), 'spam');
       await receiver.moveMessage(uid, folder, spamFolder);
-      res.json({ ok: true, movedToSpam: true, spam: spamFolder });
+      res.json({ ok: true, movedToSpam: true, spam: spamFolder, learned: training.changed });
     } catch (err) {
       next(err);
     }
@@ -1823,8 +2337,9 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
       const password = getAgentPassword(agent);
       const receiver = await getReceiver(agent.stalwartPrincipal, password, config);
       const spamFolder = await resolveSpamFolder(receiver);
+      const training = spamModel.train(agent.id, await parseEmail(await receiver.fetchMessage(uid, spamFolder)), 'ham');
       await receiver.moveMessage(uid, spamFolder, 'INBOX');
-      res.json({ ok: true, movedToInbox: true, spam: spamFolder });
+      res.json({ ok: true, movedToInbox: true, spam: spamFolder, learned: training.changed });
     } catch (err) {
       next(err);
     }
@@ -1847,12 +2362,12 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
 
       // Internal emails always score 0
       if (isInternalEmail(parsed)) {
-        res.json({ score: 0, isSpam: false, isWarning: false, matches: [], topCategory: null, internal: true });
+        res.json({ score: 0, probability: 0, isSpam: false, isWarning: false, matches: [], topCategory: null, internal: true });
         return;
       }
 
-      const result = scoreEmail(parsed);
-      res.json(result);
+      const result = scoreEmail(parsed, spamModel.forAgent(agent.id));
+      res.json({ ...result, explanation: explainSpamScore(result) });
     } catch (err) {
       next(err);
     }
@@ -1984,6 +2499,99 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
 
   // ─── Pending Outbound (approval queue) ───
 
+  // Effective outbound guard policy (agents see their own; master may pass ?agent=)
+  router.get('/mail/outbound-policy', requireAuth, async (req, res, next) => {
+    try {
+      let agentName = req.agent?.name;
+      if (req.isMaster && typeof req.query.agent === 'string' && req.query.agent) {
+        const agent = await accountManager.getByName(req.query.agent);
+        if (!agent) {
+          res.status(404).json({ error: 'Agent not found' });
+          return;
+        }
+        agentName = agent.name;
+      }
+      const policy = loadOutboundPolicy(config.dataDir, agentName);
+      res.json({
+        agent: agentName ?? null,
+        sources: policy.sources,
+        errors: policy.errors,
+        defaultActions: policy.defaultActions,
+        rules: policy.rules.map(({ pattern, ...rule }) => ({ ...rule, pattern: pattern.source, flags: pattern.flags })),
+        overrides: policy.overrides,
+        trustedDomains: policy.trustedDomains,
+        quotas: policy.quotas,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // List mail waiting in the outbound quota queue (agents see own, master sees all)
+  router.get('/mail/queue', requireAuth, async (req, res) => {
+    const status = typeof req.query.status === 'string' ? req.query.status : 'queued';
+    if (!['queued', 'sent', 'failed', 'cancelled', 'all'].includes(status)) {
+      res.status(400).json({ error: 'status must be queued, sent, failed, cancelled or all' });
+      return;
+    }
+    const where = [status === 'all' ? '1 = 1' : 'status = ?', req.isMaster ? '1 = 1' : 'agent_id = ?'].join(' AND ');
+    const params = [...(status === 'all' ? [] : [status]), ...(req.isMaster ? [] : [req.agent!.id])];
+    const rows = db.prepare(
+      `SELECT * FROM outbound_queue WHERE ${where} ORDER BY send_after, created_at LIMIT 100`,
+    ).all(...params) as any[];
+    const queue = rows.map(queuedSummary);
+    res.json({ queue, count: queue.length });
+  });
+
+  // Cancel a queued mail before it goes out
+  router.delete('/mail/queue/:id', requireAuth, async (req, res) => {
+    const row = req.isMaster
+      ? db.prepare('SELECT * FROM outbound_queue WHERE id = ?').get(req.params.id) as any
+      : db.prepare('SELECT * FROM outbound_queue WHERE id = ? AND agent_id = ?').get(req.params.id, req.agent!.id) as any;
+    if (!row) {
+      res.status(404).json({ error: 'Queued email not found' });
+      return;
+    }
+    if (row.status !== 'queued') {
+      res.status(400).json({ error: `Email already ${row.status}` });
+      return;
+    }
+    db.prepare("UPDATE outbound_queue SET status = 'cancelled' WHERE id = ?").run(row.id);
+    res.json({ ...queuedSummary(row), status: 'cancelled' });
+  });
+
+  // Bounces and DSNs parsed from inboxes (agents see own, master sees all)
+  router.get('/mail/bounces', requireAuth, async (req, res) => {
+    const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+    if (type !== undefined && type !== 'hard' && type !== 'soft') {
+      res.status(400).json({ error: 'type must be hard or soft' });
+      return;
+    }
+    const bounces = new BounceTracker(db).list({
+      agentId: req.isMaster ? (typeof req.query.agentId === 'string' ? req.query.agentId : undefined) : req.agent!.id,
+      messageId: typeof req.query.messageId === 'string' ? req.query.messageId : undefined,
+      recipient: typeof req.query.recipient === 'string' ? req.query.recipient : undefined,
+      type,
+      limit: Number(req.query.limit) || undefined,
+    });
+    res.json({ bounces, count: bounces.length });
+  });
+
+  // The install-wide suppression list /mail/send refuses
+  router.get('/mail/suppressions', requireAuth, async (req, res) => {
+    const suppressions = new BounceTracker(db).listSuppressed(Number(req.query.limit) || undefined);
+    res.json({ suppressions, count: suppressions.length });
+  });
+
+  // Take an address off the suppression list (master only)
+  router.delete('/mail/suppressions/:address', requireMaster, async (req, res) => {
+    if (!new BounceTracker(db).unsuppress(req.params.address)) {
+      res.status(404).json({ error: 'Address is not suppressed' });
+      return;
+    }
+    res.json({ ok: true, address: req.params.address.trim().toLowerCase() });
+  });
+
   // List pending outbound emails (agents see own, master sees all)
   router.get('/mail/pending', requireAuth, async (req, res) => {
     const rows = req.isMaster
@@ -2059,31 +2667,11 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
         return;
       }
 
-      const mailOpts = JSON.parse(row.mail_options);
-
-      // Refresh fromName from current agent metadata (in case it changed)
-      const ownerName = (agent.metadata as Record<string, any>)?.ownerName;
-      mailOpts.fromName = ownerName ? `${agent.name} from ${ownerName}` : agent.name;
-
-      // Reconstitute any JSON-roundtripped Buffer objects in attachments
-      if (Array.isArray(mailOpts.attachments)) {
-        for (const att of mailOpts.attachments) {
-          if (att.content && typeof att.content === 'object' && att.content.type === 'Buffer' && Array.isArray(att.content.data)) {
-            att.content = Buffer.from(att.content.data);
-          }
-        }
-      }
-
-      // Restore the X-AgenticMail-Wake header from the persisted wakeList
-      // so approval doesn't strip the sender's wake intent. Without this,
-      // an outbound-guard-blocked mail would lose its wake hint when the
-      // owner approves it, and every CC'd recipient would get a Claude
-      // turn even though the sender wanted just one.
-      const persistedWakeList: string[] | undefined = Array.isArray(mailOpts.wakeList) ? mailOpts.wakeList : undefined;
-      if (persistedWakeList !== undefined) {
-        mailOpts.headers = { ...(mailOpts.headers ?? {}), ...wakeHeaders(persistedWakeList) };
-        // The stored field isn't part of the SMTP message shape, scrub it.
-        delete mailOpts.wakeList;
+      const { mailOpts, wakeList: persistedWakeList, bulkList } = reviveStoredMailOptions(agent, row.mail_options);
+      const blocked = checkRecipients(db, agent.id, mailOpts, { bulkList, allowSuppressed: true });
+      if (blocked) {
+        res.status(409).json({ error: `${describeRecipientBlock(blocked)} since it was held; reject this email instead` });
+        return;
       }
 
       const password = getAgentPassword(agent);
@@ -2122,6 +2710,11 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
         `UPDATE pending_outbound SET status = 'approved', resolved_at = datetime('now'), resolved_by = ? WHERE id = ?`,
       ).run('master', row.id);
 
+      emitWebhookEvent('pending_outbound.approved', agent.id, { pendingId: row.id, subject: mailOpts.subject });
+      recordSentMail(db, agent.id, response.messageId, mailOpts);
+      emitWebhookEvent('mail.sent', agent.id, {
+        messageId: response.messageId, to: mailOpts.to, cc: mailOpts.cc, bcc: mailOpts.bcc, subject: mailOpts.subject, pendingId: row.id,
+      });
       res.json({ ...response, approved: true, pendingId: row.id });
     } catch (err) {
       next(err);
@@ -2147,6 +2740,7 @@ export function createMailRoutes(accountManager: AccountManager, config: Agentic
       `UPDATE pending_outbound SET status = 'rejected', resolved_at = datetime('now'), resolved_by = ? WHERE id = ?`,
     ).run('master', row.id);
 
+    emitWebhookEvent('pending_outbound.rejected', row.agent_id, { pendingId: row.id });
     res.json({ ok: true, rejected: true, pendingId: row.id });
   });
 
@@ -1,14 +1,21 @@
-import { Router, type Request, type Response } from 'express';
-import { AgentMemoryManager } from '@agenticmail/core';
+import express, { Router, type Request, type Response } from 'express';
+import {
+  AgentMemoryManager, MEMORY_CONFLICT_STRATEGIES, MEMORY_SEARCH_MODES, MEMORY_SPACE_ACCESS, createEmbedder,
+  formatMemoryJsonl, parseMemoryJsonl, parseMemoryRecord,
+  type AgenticMailConfig, type ConsolidateOptions, type MemoryConflictStrategy, type MemoryExportRecord,
+  type MemoryFilter, type MemorySearchMode, type MemorySpaceAccess,
+} from '@agenticmail/core';
+import { requireMaster } from '../middleware/auth.js';
 
 /**
  * Persistent per-agent memory routes. Every endpoint is scoped to the
  * authenticated agent (`req.agent`) — an agent can only ever read or
- * write its own memory. One shared AgentMemoryManager backs the routes
- * so the in-memory cache + search index stay coherent.
+ * write its own memory, plus the shared spaces the master key has
+ * granted it. One shared AgentMemoryManager backs the routes so the
+ * in-memory cache + search index stay coherent.
  */
 
-function getAgent(req: Request, res: Response): { id: string; email: string } | null {
+function getAgent(req: Request, res: Response): { id: string; name?: string; email: string } | null {
   const agent = (req as any).agent;
   if (!agent) {
     res.status(401).json({ error: 'Authentication required' });
@@ -19,17 +26,132 @@ function getAgent(req: Request, res: Response): { id: string; email: string } |
 
 function fail(res: Response, err: unknown): void {
   const msg = (err as Error)?.message ?? String(err);
-  const status = msg.includes('not found') ? 404
+  const status = typeof (err as any)?.statusCode === 'number' ? (err as any).statusCode
+    : msg.includes('not found') ? 404
     : (msg.includes('required') || msg.includes('Invalid') || msg.includes('must be')) ? 400
     : 500;
   res.status(status).json({ error: msg });
 }
 
+/**
+ * A memory manager configured from `config.memory` (embedder, keyword
+ * ranking backend, cache budgets).
+ * A broken embedder config falls back to the local embedder rather than
+ * keeping the API from starting.
+ */
+export function createAgentMemoryManager(db: unknown, config?: AgenticMailConfig): AgentMemoryManager {
+  let embedder;
+  try {
+    embedder = createEmbedder(config?.memory?.embedder, config?.openaiApiKey);
+  } catch (err) {
+    console.error(`[agent-memory] ${(err as Error).message}; using the local embedder`);
+  }
+  return new AgentMemoryManager(db as any, {
+    embedder,
+    fullTextSearch: config?.memory?.fullTextSearch,
+    maxCachedAgents: config?.memory?.maxCachedAgents,
+    maxCachedEntries: config?.memory?.maxCachedEntries,
+  });
+}
+
+/** `?mode=` — undefined when absent, null when invalid. */
+function parseMode(value: unknown): MemorySearchMode | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  return MEMORY_SEARCH_MODES.includes(value as MemorySearchMode) ? value as MemorySearchMode : null;
+}
+
+const INVALID_MODE = `mode must be one of: ${MEMORY_SEARCH_MODES.join(', ')}`;
+
+/** Consolidation options from a request body; a string when one is invalid. */
+function parseConsolidateOptions(body: any): ConsolidateOptions | string {
+  const options: ConsolidateOptions = { dryRun: body?.dryRun === true };
+  for (const key of ['duplicateThreshold', 'supersedeThreshold'] as const) {
+    const value = body?.[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !(value > 0 && value <= 1)) return `${key} must be a number in (0, 1]`;
+    options[key] = value;
+  }
+  return options;
+}
+
+/** Export / transfer filters from a query string or body; a string when one is invalid. */
+function parseFilter(source: any): MemoryFilter | string {
+  const filter: MemoryFilter = {};
+  for (const key of ['category', 'tag', 'query'] as const) {
+    if (typeof source?.[key] === 'string' && source[key]) filter[key] = source[key];
+  }
+  if (source?.limit !== undefined) {
+    const limit = Number(source.limit);
+    if (!Number.isInteger(limit) || limit < 1) return 'limit must be a positive integer';
+    filter.limit = limit;
+  }
+  return filter;
+}
+
+/** `onConflict` — `skip` when absent, null when invalid. */
+function parseConflict(value: unknown): MemoryConflictStrategy | null {
+  if (value === undefined || value === '') return 'skip';
+  return MEMORY_CONFLICT_STRATEGIES.includes(value as MemoryConflictStrategy) ? value as MemoryConflictStrategy : null;
+}
+
+const INVALID_CONFLICT = `onConflict must be one of: ${MEMORY_CONFLICT_STRATEGIES.join(', ')}`;
+
+/**
+ * Records from an import body: JSONL text, a JSON array, or
+ * `{ records: [...] }`. Bad records are reported by line (JSONL) or
+ * 1-based position (JSON) and the rest still import.
+ */
+function parseImportBody(body: unknown): { records: MemoryExportRecord[]; errors: { line: number; error: string }[] } | null {
+  if (typeof body === 'string') return parseMemoryJsonl(body);
+  const items = Array.isArray(body) ? body : (body as any)?.records;
+  if (!Array.isArray(items)) return null;
+  const records: MemoryExportRecord[] = [];
+  const errors: { line: number; error: string }[] = [];
+  items.forEach((item, i) => {
+    try { records.push(parseMemoryRecord(item)); } catch (err) { errors.push({ line: i + 1, error: (err as Error).message }); }
+  });
+  return { records, errors };
+}
+
+const DEBUG = () => !!process.env.AGENTICMAIL_DEBUG;
+
+let consolidationTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Run a consolidation pass over every agent's memory every
+ * `config.memory.consolidateEveryHours` hours. Off unless configured —
+ * a pass rewrites memory, so operators opt in. Replaces any schedule
+ * already running.
+ */
+function scheduleConsolidation(memory: AgentMemoryManager, config: AgenticMailConfig): void {
+  stopMemoryConsolidation();
+  const hours = config.memory?.consolidateEveryHours ?? 0;
+  if (!(hours > 0)) return;
+  consolidationTimer = setInterval(() => {
+    memory.consolidate().then((report) => {
+      if (DEBUG() && (report.merges.length || report.supersessions.length)) {
+        console.log(`[agent-memory] Consolidation merged ${report.merges.length} group(s), superseded ${report.supersessions.length} entr${report.supersessions.length === 1 ? 'y' : 'ies'}`);
+      }
+    }).catch((err) => console.error(`[agent-memory] Consolidation failed: ${(err as Error).message}`));
+  }, hours * 3_600_000);
+  consolidationTimer.unref?.();
+}
+
+/** Stop the scheduled consolidation pass (called on shutdown). */
+export function stopMemoryConsolidation(): void {
+  if (consolidationTimer) { clearInterval(consolidationTimer); consolidationTimer = null; }
+}
+
 export function createMemoryRoutes(
   db: ReturnType<typeof import('@agenticmail/core').getDatabase>,
+  config?: AgenticMailConfig,
 ): Router {
   const router = Router();
-  const memory = new AgentMemoryManager(db as any);
+  const memory = createAgentMemoryManager(db, config);
+  if (config) scheduleConsolidation(memory, config);
+  const agentByIdOrName = (value: unknown) => typeof value === 'string' && value
+    ? db.prepare('SELECT id, name FROM agents WHERE id = ? OR name = ?').get(value, value) as { id: string; name: string } | undefined
+    : undefined;
 
   // POST /memory — store a memory entry for this agent
   router.post('/memory', async (req: Request, res: Response) => {
@@ -57,13 +179,17 @@ export function createMemoryRoutes(
       const agent = getAgent(req, res);
       if (!agent) return;
       const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 200);
+      const mode = parseMode(req.query.mode);
+      if (mode === null) return res.status(400).json({ error: INVALID_MODE });
       const entries = await memory.queryMemories({
         agentId: agent.id,
         category: typeof req.query.category === 'string' ? req.query.category : undefined,
         importance: typeof req.query.importance === 'string' ? req.query.importance : undefined,
         source: typeof req.query.source === 'string' ? req.query.source : undefined,
         query: typeof req.query.query === 'string' ? req.query.query : undefined,
+        mode,
         limit,
+        includeShared: req.query.shared === 'true',
       });
       res.json({ memories: entries, count: entries.length });
     } catch (err) { fail(res, err); }
@@ -75,10 +201,13 @@ export function createMemoryRoutes(
       const agent = getAgent(req, res);
       if (!agent) return;
       const maxTokens = Math.min(Math.max(parseInt(String(req.query.maxTokens ?? '1500'), 10) || 1500, 100), 8000);
+      const mode = parseMode(req.query.mode);
+      if (mode === null) return res.status(400).json({ error: INVALID_MODE });
       const context = await memory.generateMemoryContext(
         agent.id,
         typeof req.query.query === 'string' ? req.query.query : undefined,
         maxTokens,
+        mode,
       );
       res.json({ context });
     } catch (err) { fail(res, err); }
@@ -89,7 +218,225 @@ export function createMemoryRoutes(
     try {
       const agent = getAgent(req, res);
       if (!agent) return;
-      res.json({ stats: await memory.getStats(agent.id) });
+      res.json({ stats: await memory.getStats(agent.id), embeddings: memory.getEmbeddingStatus(agent.id) });
+    } catch (err) { fail(res, err); }
+  });
+
+  // POST /memory/embeddings/backfill — embed entries that have no vector
+  // from the current embedder. An agent backfills its own memory; the
+  // master key backfills every agent's.
+  router.post('/memory/embeddings/backfill', async (req: Request, res: Response) => {
+    try {
+      if ((req as any).isMaster && !(req as any).agent) {
+        return res.json({ ...await memory.backfillEmbeddings(), embeddings: memory.getEmbeddingStatus() });
+      }
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      res.json({ ...await memory.backfillEmbeddings(agent.id), embeddings: memory.getEmbeddingStatus(agent.id) });
+    } catch (err) { fail(res, err); }
+  });
+
+  // GET /memory/export — this agent's memory as JSONL, one entry per
+  // line with its category, importance, tags, metadata and provenance.
+  // Optional ?category=, ?tag=, ?query=, ?limit= narrow it.
+  router.get('/memory/export', async (req: Request, res: Response) => {
+    try {
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      const filter = parseFilter(req.query);
+      if (typeof filter === 'string') return res.status(400).json({ error: filter });
+      const records = await memory.exportMemories(agent.id, filter);
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="memory-${agent.name ?? agent.id}.jsonl"`);
+      res.send(formatMemoryJsonl(records));
+    } catch (err) { fail(res, err); }
+  });
+
+  // POST /memory/import — load an export into this agent's memory. The
+  // body is JSONL (application/x-ndjson) or JSON ({ records: [...] }).
+  // ?onConflict= (or body.onConflict) is skip | overwrite | keep-both.
+  router.post(
+    '/memory/import',
+    express.text({ type: ['application/x-ndjson', 'application/jsonl', 'text/plain'], limit: '25mb' }),
+    async (req: Request, res: Response) => {
+      try {
+        const agent = getAgent(req, res);
+        if (!agent) return;
+        const onConflict = parseConflict(req.query.onConflict ?? req.body?.onConflict);
+        if (!onConflict) return res.status(400).json({ error: INVALID_CONFLICT });
+        const parsed = parseImportBody(req.body);
+        if (!parsed) return res.status(400).json({ error: 'Body must be JSONL or { records: [...] }' });
+        const result = await memory.importMemories(agent.id, parsed.records, { onConflict });
+        res.json({ ...result, errors: parsed.errors });
+      } catch (err) { fail(res, err); }
+    },
+  );
+
+  // POST /memory/transfer — master only. Copy the entries matching a
+  // category / tag / query filter from one agent to another (by id or
+  // name), e.g. to hand a retired agent's knowledge to its successor.
+  router.post('/memory/transfer', requireMaster, async (req: Request, res: Response) => {
+    try {
+      if (!req.body?.from || !req.body?.to) return res.status(400).json({ error: 'from and to are required' });
+      const from = agentByIdOrName(req.body.from);
+      const to = agentByIdOrName(req.body.to);
+      if (!from || !to) return res.status(404).json({ error: `Agent not found: ${!from ? req.body.from : req.body.to}` });
+      if (from.id === to.id) return res.status(400).json({ error: 'from and to must be different agents' });
+      const filter = parseFilter(req.body);
+      if (typeof filter === 'string') return res.status(400).json({ error: filter });
+      const onConflict = parseConflict(req.body.onConflict);
+      if (!onConflict) return res.status(400).json({ error: INVALID_CONFLICT });
+      const result = await memory.transferMemories(from.id, to.id, filter, { onConflict });
+      res.json({ from: from.name, to: to.name, ...result });
+    } catch (err) { fail(res, err); }
+  });
+
+  // ─── Shared spaces ──────────────────────────────────
+  // The master key creates spaces and grants agents read or write
+  // access; agents read and write the spaces they're granted. Shared
+  // entries also blend into the agent's recall and context digest.
+
+  // GET /memory/spaces — the agent's spaces (with its access), or every
+  // space with its grants for the master key
+  router.get('/memory/spaces', async (req: Request, res: Response) => {
+    try {
+      if ((req as any).isMaster && !(req as any).agent) {
+        return res.json({ spaces: await memory.listSpaces() });
+      }
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      res.json({ spaces: await memory.listSpaces(agent.id) });
+    } catch (err) { fail(res, err); }
+  });
+
+  // POST /memory/spaces — master only: create a space
+  router.post('/memory/spaces', requireMaster, async (req: Request, res: Response) => {
+    try {
+      if (typeof req.body?.name !== 'string' || !req.body.name.trim()) return res.status(400).json({ error: 'name is required' });
+      const description = typeof req.body.description === 'string' ? req.body.description : '';
+      res.status(201).json({ space: await memory.createSpace(req.body.name, description) });
+    } catch (err) { fail(res, err); }
+  });
+
+  // DELETE /memory/spaces/:name — master only: delete a space and its entries
+  router.delete('/memory/spaces/:name', requireMaster, async (req: Request, res: Response) => {
+    try {
+      res.json({ success: true, deletedEntries: await memory.deleteSpace(req.params.name) });
+    } catch (err) { fail(res, err); }
+  });
+
+  // PUT /memory/spaces/:name/grants/:agent — master only: grant an agent
+  // (id or name) `read` or `write` access
+  router.put('/memory/spaces/:name/grants/:agent', requireMaster, async (req: Request, res: Response) => {
+    try {
+      const access = req.body?.access as MemorySpaceAccess;
+      if (!MEMORY_SPACE_ACCESS.includes(access)) {
+        return res.status(400).json({ error: `access must be one of: ${MEMORY_SPACE_ACCESS.join(', ')}` });
+      }
+      const agent = agentByIdOrName(req.params.agent);
+      if (!agent) return res.status(404).json({ error: `Agent not found: ${req.params.agent}` });
+      res.json({ grant: await memory.grantSpaceAccess(req.params.name, agent.id, access) });
+    } catch (err) { fail(res, err); }
+  });
+
+  // DELETE /memory/spaces/:name/grants/:agent — master only: revoke access
+  router.delete('/memory/spaces/:name/grants/:agent', requireMaster, async (req: Request, res: Response) => {
+    try {
+      const agent = agentByIdOrName(req.params.agent);
+      if (!agent || !await memory.revokeSpaceAccess(req.params.name, agent.id)) {
+        return res.status(404).json({ error: 'Grant not found' });
+      }
+      res.json({ success: true });
+    } catch (err) { fail(res, err); }
+  });
+
+  // POST /memory/spaces/:name/memory — write to a space (needs write access)
+  router.post('/memory/spaces/:name/memory', async (req: Request, res: Response) => {
+    try {
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      const content = typeof req.body?.content === 'string' ? req.body.content.trim() : '';
+      if (!content) return res.status(400).json({ error: 'content is required' });
+      const entry = await memory.storeSpaceMemory(req.params.name, agent.id, {
+        content,
+        category: typeof req.body?.category === 'string' ? req.body.category : undefined,
+        importance: typeof req.body?.importance === 'string' ? req.body.importance : undefined,
+        confidence: typeof req.body?.confidence === 'number' ? req.body.confidence : undefined,
+        title: typeof req.body?.title === 'string' ? req.body.title : undefined,
+        tags: Array.isArray(req.body?.tags) ? req.body.tags.filter((t: unknown) => typeof t === 'string') : undefined,
+      });
+      res.json({ success: true, memory: entry });
+    } catch (err) { fail(res, err); }
+  });
+
+  // GET /memory/spaces/:name/memory — list / search a space (needs read access)
+  router.get('/memory/spaces/:name/memory', async (req: Request, res: Response) => {
+    try {
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 200);
+      const mode = parseMode(req.query.mode);
+      if (mode === null) return res.status(400).json({ error: INVALID_MODE });
+      const entries = await memory.querySpaceMemories(req.params.name, agent.id, {
+        category: typeof req.query.category === 'string' ? req.query.category : undefined,
+        query: typeof req.query.query === 'string' ? req.query.query : undefined,
+        mode,
+        limit,
+      });
+      res.json({ memories: entries, count: entries.length });
+    } catch (err) { fail(res, err); }
+  });
+
+  // DELETE /memory/spaces/:name/memory/:id — delete a space entry (needs write access)
+  router.delete('/memory/spaces/:name/memory/:id', async (req: Request, res: Response) => {
+    try {
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      if (!await memory.deleteSpaceMemory(req.params.name, agent.id, req.params.id)) {
+        return res.status(404).json({ error: 'Memory entry not found' });
+      }
+      res.json({ success: true, deleted: req.params.id });
+    } catch (err) { fail(res, err); }
+  });
+
+  // POST /memory/consolidate — merge near-duplicates and demote entries
+  // that corrections (or later negations) supersede. An agent
+  // consolidates its own memory; the master key consolidates every
+  // agent's. `dryRun: true` reports without writing.
+  router.post('/memory/consolidate', async (req: Request, res: Response) => {
+    try {
+      const options = parseConsolidateOptions(req.body);
+      if (typeof options === 'string') return res.status(400).json({ error: options });
+      if ((req as any).isMaster && !(req as any).agent) {
+        return res.json(await memory.consolidate(undefined, options));
+      }
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      res.json(await memory.consolidate(agent.id, options));
+    } catch (err) { fail(res, err); }
+  });
+
+  // GET /memory/consolidations — this agent's consolidation history, newest first
+  router.get('/memory/consolidations', async (req: Request, res: Response) => {
+    try {
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 200);
+      const changes = await memory.listConsolidationChanges(agent.id, limit);
+      res.json({ changes, count: changes.length });
+    } catch (err) { fail(res, err); }
+  });
+
+  // POST /memory/consolidations/:id/undo — restore the entries one
+  // merge or supersession changed
+  router.post('/memory/consolidations/:id/undo', async (req: Request, res: Response) => {
+    try {
+      if ((req as any).isMaster && !(req as any).agent) {
+        return res.json({ success: true, restored: await memory.undoConsolidationChange(req.params.id) });
+      }
+      const agent = getAgent(req, res);
+      if (!agent) return;
+      res.json({ success: true, restored: await memory.undoConsolidationChange(req.params.id, agent.id) });
     } catch (err) { fail(res, err); }
   });
 
@@ -131,12 +131,13 @@ function safeTableName(agentId: string, name: string, shared: boolean): string {
   return `${prefix}_${clean}`;
 }
 
-function resolveTable(agentId: string, name: string): string {
+/** The physical table a caller's name refers to (`agt_<agent>_<name>` unless already prefixed). */
+export function resolveTable(agentId: string, name: string): string {
   if (name.startsWith('agt_') || name.startsWith('shared_')) return name;
   return safeTableName(agentId, name, false);
 }
 
-function isSafeTable(tableName: string): boolean {
+export function isSafeTable(tableName: string): boolean {
   return IDENTIFIER_RE.test(tableName) && (tableName.startsWith('agt_') || tableName.startsWith('shared_'));
 }
 
@@ -28,6 +28,7 @@
  *   { type: "connected" }
  *   { type: "account_created", account: { id, name, email, role, apiKey, ... } }
  *   { type: "account_deleted", accountId, name }
+ *   { type: "quota_exceeded", agentName, scope, limit, max, used, domain?, retryAfterSeconds }
  *
  * The `account_created` payload deliberately includes the full account
  * record (incl. apiKey) so the dispatcher can open the per-account SSE
@@ -4,6 +4,7 @@ import { MailSender, type AccountManager, type AgenticMailConfig, type Database
 import { requireAgent, requireAuth, touchActivity } from '../middleware/auth.js';
 import { pushEventToAgent, broadcastEvent } from './events.js';
 import { getAgentPassword } from './mail.js';
+import { emitWebhookEvent } from './webhooks.js';
 import { validate as validateSchema, type Schema } from '../lib/schema-validator.js';
 
 // Promise-based RPC completion notification — resolves the long-poll instantly
@@ -206,6 +207,7 @@ export function createTaskRoutes(db: Database, accountManager: AccountManager, c
         resolver({ status: 'completed', result: resultJson });
       }
 
+      emitWebhookEvent('task.completed', taskRow?.assignee_id ?? null, { taskId: req.params.id, assignerId: taskRow?.assigner_id ?? null, result: result ?? null });
       res.json({ ok: true, taskId: req.params.id, status: 'completed' });
     } catch (err) { next(err); }
   });
@@ -241,6 +243,7 @@ export function createTaskRoutes(db: Database, accountManager: AccountManager, c
         resolver({ status: 'completed', result: resultJson });
       }
 
+      emitWebhookEvent('task.completed', existing?.assignee_id ?? null, { taskId: req.params.id, assignerId: existing?.assigner_id ?? null, result: result ?? null });
       res.json({ ok: true, taskId: req.params.id, status: 'completed' });
     } catch (err) { next(err); }
   });
@@ -266,6 +269,7 @@ export function createTaskRoutes(db: Database, accountManager: AccountManager, c
         resolver({ status: 'failed', error: errorMsg });
       }
 
+      emitWebhookEvent('task.failed', existing?.assignee_id ?? null, { taskId: req.params.id, assignerId: existing?.assigner_id ?? null, error: errorMsg });
       res.json({ ok: true, taskId: req.params.id, status: 'failed' });
     } catch (err) { next(err); }
   });
@@ -0,0 +1,85 @@
+/**
+ * Public one-click unsubscribe for agent bulk mail (RFC 8058).
+ *
+ * Bulk sends (`POST /mail/send` with `bulk: true`) carry
+ *
+ *   List-Unsubscribe: <{publicUrl}/api/agenticmail/unsubscribe/{token}>
+ *   List-Unsubscribe-Post: List-Unsubscribe=One-Click
+ *
+ * Mail clients POST `List-Unsubscribe=One-Click` to that URL; a person
+ * opening it gets a confirmation page whose button POSTs the same way.
+ * GET never unsubscribes, because link scanners fetch every URL in a
+ * message. The token is the only credential, so these routes are
+ * mounted before bearer auth.
+ */
+
+import { Router } from 'express';
+import {
+  UnsubscribeList,
+  createUnsubscribeToken,
+  listUnsubscribeHeaders,
+  verifyUnsubscribeToken,
+  type AgenticMailConfig,
+  type Database,
+  type GatewayManager,
+  type UnsubscribeTarget,
+} from '@agenticmail/core';
+
+/**
+ * Where outside recipients can reach the API: `config.publicUrl`, else
+ * the domain-mode domain (its tunnel routes `/api/agenticmail/*` to the
+ * API). Null when neither is set — relay mode without a public URL.
+ */
+export function publicBaseUrl(config: AgenticMailConfig, gatewayManager?: GatewayManager): string | null {
+  if (config.publicUrl) return config.publicUrl.replace(/\/+$/, '');
+  const gateway = gatewayManager?.getConfig();
+  return gateway?.mode === 'domain' && gateway.domain?.domain ? `https://${gateway.domain.domain}` : null;
+}
+
+/** The List-Unsubscribe headers for one recipient of a bulk send. */
+export function bulkUnsubscribeHeaders(baseUrl: string, secret: string, target: UnsubscribeTarget): Record<string, string> {
+  return listUnsubscribeHeaders(`${baseUrl}/api/agenticmail/unsubscribe/${createUnsubscribeToken(secret, target)}`);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">`
+    + `<title>${title}</title></head><body style="font-family: sans-serif; max-width: 32rem; margin: 4rem auto; padding: 0 1rem">`
+    + `<h1 style="font-size: 1.4rem">${title}</h1>${body}</body></html>`;
+}
+
+export function createUnsubscribeRoutes(db: Database, config: AgenticMailConfig): Router {
+  const router = Router();
+
+  router.get('/unsubscribe/:token', (req, res) => {
+    const target = verifyUnsubscribeToken(config.masterKey, req.params.token);
+    if (!target) {
+      res.status(404).type('html').send(page('Link not valid', '<p>This unsubscribe link is not valid.</p>'));
+      return;
+    }
+    const done = new UnsubscribeList(db).find(target.agentId, target.list, [target.recipient]).length > 0;
+    res.type('html').send(done
+      ? page('Unsubscribed', `<p><b>${escapeHtml(target.recipient)}</b> is already unsubscribed from this list.</p>`)
+      : page('Unsubscribe', `<p>Stop receiving this list at <b>${escapeHtml(target.recipient)}</b>?</p>`
+        + '<form method="post"><input type="hidden" name="List-Unsubscribe" value="Page">'
+        + '<button type="submit">Unsubscribe</button></form>'));
+  });
+
+  router.post('/unsubscribe/:token', (req, res, next) => {
+    try {
+      const target = verifyUnsubscribeToken(config.masterKey, req.params.token);
+      if (!target) {
+        res.status(404).type('html').send(page('Link not valid', '<p>This unsubscribe link is not valid.</p>'));
+        return;
+      }
+      const oneClick = req.body?.['List-Unsubscribe'] === 'One-Click';
+      new UnsubscribeList(db).record(target, oneClick ? 'one-click' : 'page');
+      res.type('html').send(page('Unsubscribed', `<p><b>${escapeHtml(target.recipient)}</b> will not receive this list again.</p>`));
+    } catch (err) { next(err); }
+  });
+
+  return router;
+}
@@ -0,0 +1,554 @@
+/**
+ * Outbound webhooks.
+ *
+ * # Why this exists
+ *
+ * Services that integrate with AgenticMail had to hold an SSE
+ * connection open (`/events`, `/events/all`) to hear about anything.
+ * A webhook is a URL plus a list of event types; matching events are
+ * queued in `webhook_deliveries` and POSTed to it, signed, with retries
+ * that survive restarts.
+ *
+ * # Event types
+ *
+ *   mail.received            new mail, after the spam filter and rules
+ *   mail.bounced             the new mail was a bounce or DSN (sent alongside mail.received)
+ *   mail.sent                an agent's mail left (direct or approved)
+ *   pending_outbound.*       created / approved / rejected by the outbound guard
+ *   task.*                   assigned / completed / failed
+ *   call.ended               a phone mission reached a terminal status
+ *   sms.received, sms.sent, telegram.received, telegram.sent
+ *   account.created, account.deleted
+ *   webhook.ping             POST /webhooks/:id/ping
+ *
+ * Most of these are mapped from the firehose (firehose.ts); the rest
+ * are emitted where they happen with `emitWebhookEvent`. A webhook
+ * subscribed to mail keeps every mailbox watched (holdAllMailboxes),
+ * since mail only reaches the firehose from a running watcher.
+ *
+ * # Delivery
+ *
+ *   POST <url>
+ *   Content-Type: application/json
+ *   X-AgenticMail-Event: mail.received
+ *   X-AgenticMail-Delivery: <delivery id>
+ *   X-AgenticMail-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<body>")>
+ *
+ *   { "id": "<event id>", "type": "...", "createdAt": "...", "agentId": "...", "data": { ... } }
+ *
+ * Any 2xx is success. Anything else — including a redirect, which is
+ * never followed — is retried with exponential backoff (30s doubling,
+ * capped at 1h) until MAX_ATTEMPTS. Target URLs go through core's
+ * `validateWebhookUrl` both when saved and before every attempt.
+ * Loopback and private-network targets are only accepted from the
+ * master key; the webhook remembers that (`allow_private`) so the
+ * per-attempt check applies the same rule. For other webhooks each
+ * attempt also resolves the hostname and refuses to deliver when it
+ * points at a local or private address.
+ */
+
+import { Router } from 'express';
+import type { Request } from 'express';
+import crypto from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { checkWebhookHost, validateWebhookUrl, type Database, type WebhookHostResolver } from '@agenticmail/core';
+import { requireAuth } from '../middleware/auth.js';
+import { onFirehoseEvent, type FirehoseEvent } from './firehose.js';
+import { holdAllMailboxes } from './events.js';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'mail.received',
+  'mail.bounced',
+  'mail.sent',
+  'calendar.replied',
+  'pending_outbound.created',
+  'pending_outbound.approved',
+  'pending_outbound.rejected',
+  'task.assigned',
+  'task.completed',
+  'task.failed',
+  'call.ended',
+  'sms.received',
+  'sms.sent',
+  'telegram.received',
+  'telegram.sent',
+  'account.created',
+  'account.deleted',
+  'webhook.ping',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const SWEEP_BATCH = 50;
+const RESPONSE_BODY_LIMIT = 1024;
+const CALL_TERMINAL_STATES = new Set(['completed', 'failed', 'cancelled']);
+/** Recently announced mail, so a local delivery's direct push and its IMAP event fire once. */
+const RECENT_MAIL_LIMIT = 500;
+
+let webhookDb: Database | null = null;
+let firehoseTapOff: (() => void) | null = null;
+let releaseMailWatch: (() => void) | null = null;
+let sweeping: Promise<number> | null = null;
+let kickQueued = false;
+const recentMail = new Set<string>();
+
+const resolveHost: WebhookHostResolver = async (hostname) => (await lookup(hostname, { all: true })).map(a => a.address);
+
+/** Backoff before attempt `attempt + 1`. */
+export function webhookRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1), RETRY_MAX_MS);
+}
+
+/** `X-AgenticMail-Signature` value for a delivery body. */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const mac = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/** Does a subscription pattern (`mail.sent`, `mail.*`, `*`) cover `type`? */
+function patternMatches(pattern: string, type: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith('.*')) return type.startsWith(pattern.slice(0, -1));
+  return pattern === type;
+}
+
+function parseEvents(raw: unknown): string[] | string {
+  if (!Array.isArray(raw) || raw.length === 0) return 'events must be a non-empty array of event types';
+  const events = [...new Set(raw.map(e => (typeof e === 'string' ? e.trim() : '')))];
+  for (const pattern of events) {
+    if (!WEBHOOK_EVENT_TYPES.some(type => patternMatches(pattern, type))) {
+      return `Unknown event type: ${pattern || '(empty)'}`;
+    }
+  }
+  return events;
+}
+
+function webhookFromRow(row: any, revealSecret = false) {
+  return {
+    id: row.id,
+    agentId: row.agent_id ?? null,
+    url: row.url,
+    events: JSON.parse(row.events) as string[],
+    description: row.description ?? null,
+    active: !!row.active,
+    ...(revealSecret ? { secret: row.secret } : { secretHint: `${String(row.secret).slice(0, 6)}…${String(row.secret).slice(-4)}` }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? null,
+  };
+}
+
+function deliveryFromRow(row: any, full = false) {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    agentId: row.agent_id ?? null,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.status === 'pending' ? row.next_attempt_at : null,
+    responseStatus: row.response_status ?? null,
+    error: row.error ?? null,
+    durationMs: row.duration_ms ?? null,
+    redeliveryOf: row.redelivery_of ?? null,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at ?? null,
+    ...(full ? { payload: JSON.parse(row.payload), responseBody: row.response_body ?? null } : {}),
+  };
+}
+
+function insertDelivery(
+  db: Database,
+  webhookId: string,
+  payload: { id: string; type: string; agentId: string | null },
+  body: string,
+  redeliveryOf?: string,
+): string {
+  const id = uuidv4();
+  db.prepare(
+    `INSERT INTO webhook_deliveries (id, webhook_id, event_id, event_type, agent_id, payload, max_attempts, next_attempt_at, redelivery_of)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(id, webhookId, payload.id, payload.type, payload.agentId, body, MAX_ATTEMPTS, new Date().toISOString(), redeliveryOf ?? null);
+  return id;
+}
+
+/** Deliver whatever is due soon, without waiting for the next sweep. */
+function kickDeliveries(): void {
+  if (kickQueued || !webhookDb) return;
+  kickQueued = true;
+  const db = webhookDb;
+  setImmediate(() => {
+    kickQueued = false;
+    deliverDueWebhooks(db).catch(() => { /* the timer retries */ });
+  });
+}
+
+/**
+ * Queue `type` for every active webhook subscribed to it. Agent-scoped
+ * webhooks only get their own agent's events. A no-op until the
+ * webhook routes are mounted. Returns the number of deliveries queued.
+ */
+export function emitWebhookEvent(type: WebhookEventType, agentId: string | null, data: Record<string, unknown>): number {
+  const db = webhookDb;
+  if (!db) return 0;
+  try {
+    const hooks = (db.prepare(
+      'SELECT id, events FROM webhooks WHERE active = 1 AND (agent_id IS NULL OR agent_id = ?)',
+    ).all(agentId ?? '') as any[]).filter(h => (JSON.parse(h.events) as string[]).some(p => patternMatches(p, type)));
+    if (hooks.length === 0) return 0;
+    const payload = { id: uuidv4(), type, createdAt: new Date().toISOString(), agentId, data };
+    const body = JSON.stringify(payload);
+    for (const hook of hooks) insertDelivery(db, hook.id, payload, body);
+    kickDeliveries();
+    return hooks.length;
+  } catch (err) {
+    console.error(`[webhooks] Failed to queue ${type}:`, (err as Error).message);
+    return 0;
+  }
+}
+
+/** Announce a received message once, however many paths report it. */
+function announceMail(agentId: string, event: Record<string, unknown>): void {
+  const message = event.message as { subject?: string; from?: unknown; to?: unknown; date?: unknown; messageId?: string } | undefined;
+  const messageId = (event.messageId as string | undefined) ?? message?.messageId;
+  const uid = Number(event.uid) || 0;
+  if (messageId || uid) {
+    const key = `${agentId}:${messageId ?? `uid:${uid}`}`;
+    if (recentMail.has(key)) return;
+    recentMail.add(key);
+    if (recentMail.size > RECENT_MAIL_LIMIT) recentMail.delete(recentMail.values().next().value!);
+  }
+  const { message: _message, type: _type, ...rest } = event;
+  emitWebhookEvent('mail.received', agentId, {
+    ...rest,
+    uid,
+    ...(messageId ? { messageId } : {}),
+    ...(message ? { subject: message.subject, from: message.from, to: message.to, date: message.date } : {}),
+  });
+  if (event.bounce) emitWebhookEvent('mail.bounced', agentId, { uid, ...(messageId ? { messageId } : {}), ...(event.bounce as object) });
+}
+
+/** Map firehose events onto webhook event types. */
+function onFirehose({ agentId, event }: FirehoseEvent): void {
+  const { type, ...data } = event;
+  switch (type) {
+    case 'new':
+      if (agentId) announceMail(agentId, event);
+      break;
+    case 'task':
+      emitWebhookEvent('task.assigned', agentId, data);
+      break;
+    case 'sms':
+    case 'telegram':
+      emitWebhookEvent(`${type}.${data.direction === 'outbound' ? 'sent' : 'received'}`, agentId, data);
+      break;
+    case 'call':
+      if (CALL_TERMINAL_STATES.has(String(data.status)) && !CALL_TERMINAL_STATES.has(String(data.previousStatus))) {
+        emitWebhookEvent('call.ended', agentId, data);
+      }
+      break;
+    case 'account_created': {
+      // The firehose copy carries the new account's API key; a webhook must not.
+      const account = (data.account ?? {}) as Record<string, unknown>;
+      emitWebhookEvent('account.created', agentId, {
+        account: { id: account.id, name: account.name, email: account.email, role: account.role, createdAt: account.createdAt },
+      });
+      break;
+    }
+    case 'account_deleted':
+      emitWebhookEvent('account.deleted', agentId, data);
+      break;
+  }
+}
+
+/** Hold every mailbox watched while some active webhook wants mail. */
+function syncMailWatch(db: Database): void {
+  const wanted = (db.prepare('SELECT events FROM webhooks WHERE active = 1').all() as any[])
+    .some(h => (JSON.parse(h.events) as string[]).some(p => patternMatches(p, 'mail.received') || patternMatches(p, 'mail.bounced')));
+  if (wanted && !releaseMailWatch) releaseMailWatch = holdAllMailboxes();
+  if (!wanted && releaseMailWatch) { releaseMailWatch(); releaseMailWatch = null; }
+}
+
+async function attemptDelivery(db: Database, row: any, now: Date): Promise<void> {
+  const attempts = row.attempts + 1;
+  const started = Date.now();
+  let status: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  let permanent = false;
+
+  if (!row.url) {
+    error = 'Webhook was deleted';
+    permanent = true;
+  } else if (!row.active) {
+    error = 'Webhook is inactive';
+    permanent = true;
+  } else {
+    try {
+      const url = validateWebhookUrl(row.url, { allowPrivate: !!row.allow_private });
+      await checkWebhookHost(url, resolveHost, { allowPrivate: !!row.allow_private });
+      const res = await fetch(url, {
+        method: 'POST',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'AgenticMail-Webhooks/1',
+          'X-AgenticMail-Event': row.event_type,
+          'X-AgenticMail-Delivery': row.id,
+          'X-AgenticMail-Webhook': row.webhook_id,
+          'X-AgenticMail-Signature': signWebhookPayload(row.secret, Math.floor(now.getTime() / 1000), row.payload),
+        },
+        body: row.payload,
+      });
+      status = res.status;
+      responseBody = (await res.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+      if (status < 200 || status >= 300) error = `HTTP ${status}`;
+    } catch (err) {
+      error = (err as Error).name === 'UnsafeWebhookUrlError' ? (err as Error).message : `Request failed: ${(err as Error).message}`;
+      permanent = (err as Error).name === 'UnsafeWebhookUrlError';
+    }
+  }
+
+  const durationMs = Date.now() - started;
+  const stamp = now.toISOString();
+  if (!error) {
+    db.prepare(
+      `UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, response_status = ?, response_body = ?, error = NULL,
+       duration_ms = ?, delivered_at = ?, updated_at = ? WHERE id = ?`,
+    ).run(attempts, status, responseBody, durationMs, stamp, stamp, row.id);
+    return;
+  }
+  const exhausted = permanent || attempts >= row.max_attempts;
+  db.prepare(
+    `UPDATE webhook_deliveries SET status = ?, attempts = ?, response_status = ?, response_body = ?, error = ?,
+     duration_ms = ?, next_attempt_at = ?, updated_at = ? WHERE id = ?`,
+  ).run(
+    exhausted ? 'failed' : 'pending', attempts, status, responseBody, error, durationMs,
+    exhausted ? null : new Date(now.getTime() + webhookRetryDelayMs(attempts)).toISOString(), stamp, row.id,
+  );
+}
+
+async function sweep(db: Database, now: Date): Promise<number> {
+  const due = db.prepare(
+    `SELECT d.*, w.url, w.secret, w.active, w.allow_private FROM webhook_deliveries d
+     LEFT JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+     ORDER BY d.next_attempt_at LIMIT ?`,
+  ).all(now.toISOString(), SWEEP_BATCH) as any[];
+  for (const row of due) {
+    try {
+      await attemptDelivery(db, row, now);
+    } catch (err) {
+      console.error('[webhooks] Delivery bookkeeping failed:', (err as Error).message);
+    }
+  }
+  return due.length;
+}
+
+/**
+ * Attempt every pending delivery that is due at `now`. Sweeps never
+ * overlap — a call made while one is running waits for it first.
+ * Returns the number of deliveries attempted.
+ */
+export async function deliverDueWebhooks(db: Database, now?: Date): Promise<number> {
+  while (sweeping) await sweeping.catch(() => 0);
+  sweeping = sweep(db, now ?? new Date()).finally(() => { sweeping = null; });
+  return sweeping;
+}
+
+/**
+ * Start the webhook delivery loop. Checks every 10 seconds for due
+ * deliveries; new events are also delivered straight away.
+ */
+export function startWebhookDispatcher(db: Database): ReturnType<typeof setInterval> {
+  return setInterval(() => {
+    deliverDueWebhooks(db).catch(() => { /* ignore sweep errors */ });
+  }, 10_000);
+}
+
+export function createWebhookRoutes(db: Database): Router {
+  const router = Router();
+  webhookDb = db;
+  if (!firehoseTapOff) firehoseTapOff = onFirehoseEvent(onFirehose);
+  syncMailWatch(db);
+
+  /** Load a webhook the caller may manage: master any, agents their own. */
+  const ownedWebhook = (req: Request): any => {
+    const row = db.prepare('SELECT * FROM webhooks WHERE id = ?').get(req.params.id) as any;
+    if (!row) return null;
+    if (!req.isMaster && row.agent_id !== req.agent!.id) return null;
+    return row;
+  };
+
+  router.get('/webhooks/events', requireAuth, (_req, res) => {
+    res.json({ events: WEBHOOK_EVENT_TYPES });
+  });
+
+  router.get('/webhooks', requireAuth, (req, res, next) => {
+    try {
+      const rows = req.isMaster
+        ? db.prepare('SELECT * FROM webhooks ORDER BY created_at').all()
+        : db.prepare('SELECT * FROM webhooks WHERE agent_id = ? ORDER BY created_at').all(req.agent!.id);
+      res.json({ webhooks: (rows as any[]).map(r => webhookFromRow(r)) });
+    } catch (err) { next(err); }
+  });
+
+  /**
+   * Register a webhook. The signing secret is generated unless one is
+   * supplied, and is only ever returned here.
+   */
+  router.post('/webhooks', requireAuth, (req, res, next) => {
+    try {
+      const { url, events, description, secret, agentId } = req.body || {};
+      let target: string;
+      try {
+        target = validateWebhookUrl(url, { allowPrivate: req.isMaster });
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+        return;
+      }
+      const parsedEvents = parseEvents(events);
+      if (typeof parsedEvents === 'string') { res.status(400).json({ error: parsedEvents }); return; }
+      if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+        res.status(400).json({ error: 'secret must be a string of at least 16 characters' });
+        return;
+      }
+      if (agentId !== undefined && !req.isMaster && agentId !== req.agent!.id) {
+        res.status(403).json({ error: 'Agents can only register webhooks for their own events' });
+        return;
+      }
+      const scope = req.isMaster ? (agentId || null) : req.agent!.id;
+
+      const id = uuidv4();
+      db.prepare(
+        'INSERT INTO webhooks (id, agent_id, url, events, secret, description, allow_private) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      ).run(id, scope, target, JSON.stringify(parsedEvents), secret ?? `whsec_${crypto.randomBytes(24).toString('hex')}`,
+        typeof description === 'string' ? description : null, req.isMaster ? 1 : 0);
+      syncMailWatch(db);
+      res.status(201).json(webhookFromRow(db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id), true));
+    } catch (err) { next(err); }
+  });
+
+  router.get('/webhooks/:id', requireAuth, (req, res, next) => {
+    try {
+      const row = ownedWebhook(req);
+      if (!row) { res.status(404).json({ error: 'Webhook not found' }); return; }
+      res.json(webhookFromRow(row));
+    } catch (err) { next(err); }
+  });
+
+  // Update url / events / description / active; omitted fields are kept.
+  router.put('/webhooks/:id', requireAuth, (req, res, next) => {
+    try {
+      const row = ownedWebhook(req);
+      if (!row) { res.status(404).json({ error: 'Webhook not found' }); return; }
+      const { url, events, description, active } = req.body || {};
+      let target = row.url as string;
+      let allowPrivate = row.allow_private as number;
+      if (url !== undefined) {
+        try {
+          target = validateWebhookUrl(url, { allowPrivate: req.isMaster });
+          allowPrivate = req.isMaster ? 1 : 0;
+        } catch (err) {
+          res.status(400).json({ error: (err as Error).message });
+          return;
+        }
+      }
+      let eventList = row.events as string;
+      if (events !== undefined) {
+        const parsedEvents = parseEvents(events);
+        if (typeof parsedEvents === 'string') { res.status(400).json({ error: parsedEvents }); return; }
+        eventList = JSON.stringify(parsedEvents);
+      }
+      if (active !== undefined && typeof active !== 'boolean') {
+        res.status(400).json({ error: 'active must be a boolean' });
+        return;
+      }
+      db.prepare(
+        "UPDATE webhooks SET url = ?, events = ?, description = ?, active = ?, allow_private = ?, updated_at = datetime('now') WHERE id = ?",
+      ).run(target, eventList, description !== undefined ? description : row.description,
+        active !== undefined ? (active ? 1 : 0) : row.active, allowPrivate, row.id);
+      syncMailWatch(db);
+      res.json(webhookFromRow(db.prepare('SELECT * FROM webhooks WHERE id = ?').get(row.id)));
+    } catch (err) { next(err); }
+  });
+
+  router.delete('/webhooks/:id', requireAuth, (req, res, next) => {
+    try {
+      const row = ownedWebhook(req);
+      if (!row) { res.status(404).json({ error: 'Webhook not found' }); return; }
+      db.prepare('DELETE FROM webhooks WHERE id = ?').run(row.id);
+      db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(row.id);
+      syncMailWatch(db);
+      res.status(204).send();
+    } catch (err) { next(err); }
+  });
+
+  // Queue a webhook.ping delivery to this webhook only.
+  router.post('/webhooks/:id/ping', requireAuth, (req, res, next) => {
+    try {
+      const row = ownedWebhook(req);
+      if (!row) { res.status(404).json({ error: 'Webhook not found' }); return; }
+      const payload = { id: uuidv4(), type: 'webhook.ping', createdAt: new Date().toISOString(), agentId: row.agent_id ?? null, data: { webhookId: row.id } };
+      const deliveryId = insertDelivery(db, row.id, payload, JSON.stringify(payload));
+      kickDeliveries();
+      res.status(202).json({ ok: true, deliveryId });
+    } catch (err) { next(err); }
+  });
+
+  router.get('/webhooks/:id/deliveries', requireAuth, (req, res, next) => {
+    try {
+      const row = ownedWebhook(req);
+      if (!row) { res.status(404).json({ error: 'Webhook not found' }); return; }
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      if (status && !['pending', 'delivered', 'failed'].includes(status)) {
+        res.status(400).json({ error: 'status must be pending, delivered or failed' });
+        return;
+      }
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '50'), 10) || 50, 1), 500);
+      const rows = status
+        ? db.prepare('SELECT * FROM webhook_deliveries WHERE webhook_id = ? AND status = ? ORDER BY created_at DESC, rowid DESC LIMIT ?').all(row.id, status, limit)
+        : db.prepare('SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?').all(row.id, limit);
+      res.json({ deliveries: (rows as any[]).map(r => deliveryFromRow(r)) });
+    } catch (err) { next(err); }
+  });
+
+  router.get('/webhooks/:id/deliveries/:deliveryId', requireAuth, (req, res, next) => {
+    try {
+      const row = ownedWebhook(req);
+      const delivery = row && db.prepare('SELECT * FROM webhook_deliveries WHERE id = ? AND webhook_id = ?').get(req.params.deliveryId, row.id);
+      if (!delivery) { res.status(404).json({ error: 'Delivery not found' }); return; }
+      res.json(deliveryFromRow(delivery, true));
+    } catch (err) { next(err); }
+  });
+
+  /**
+   * Send a delivery's payload again as a new delivery with a fresh
+   * attempt budget. The event id is unchanged so receivers can tell
+   * it is the same event.
+   */
+  router.post('/webhooks/:id/deliveries/:deliveryId/redeliver', requireAuth, (req, res, next) => {
+    try {
+      const row = ownedWebhook(req);
+      const original = row && db.prepare('SELECT * FROM webhook_deliveries WHERE id = ? AND webhook_id = ?').get(req.params.deliveryId, row.id) as any;
+      if (!original) { res.status(404).json({ error: 'Delivery not found' }); return; }
+      if (original.status === 'pending') {
+        res.status(409).json({ error: 'Delivery is still pending' });
+        return;
+      }
+      const payload = JSON.parse(original.payload);
+      const deliveryId = insertDelivery(db, row.id, payload, original.payload, original.id);
+      kickDeliveries();
+      res.status(202).json({ ok: true, deliveryId });
+    } catch (err) { next(err); }
+  });
+
+  return router;
+}
@@ -318,6 +318,22 @@ describe('Dispatcher.handleEvent — wake-budget circuit breaker', () => {
     expect(sdk.calls[1].prompt).toContain('save_thread_memory');
   });
 
+  it('keys thread context on Message-ID headers, not the subject', async () => {
+    // The reply edits its subject but carries the root in References;
+    // a same-subject mail with a different root is another thread.
+    const { d, sdk } = makeDispatcher();
+    await d.handleEvent(FOLA, { type: 'new', uid: 20, from: 'vendor', message: { subject: 'Invoice', messageId: '<inv-1@vendor.test>' } });
+    await d.handleEvent(FOLA, { type: 'new', uid: 21, from: 'vendor', message: { subject: 'Invoice', messageId: '<inv-2@vendor.test>' } });
+    await d.handleEvent(FOLA, {
+      type: 'new', uid: 22, from: 'vendor',
+      message: { subject: 'AW: corrected amount', messageId: '<inv-1b@vendor.test>', inReplyTo: '<inv-1@vendor.test>', references: ['<inv-1@vendor.test>'] },
+    });
+    expect(sdk.calls).toHaveLength(3);
+    expect(sdk.calls[1].prompt).not.toContain('## Thread context');
+    expect(sdk.calls[2].prompt).toContain('UID 20');
+    expect(sdk.calls[2].prompt).not.toContain('UID 21');
+  });
+
   it('treats Re: prefixes as the same thread (subject normalisation)', async () => {
     const { d, sdk } = makeDispatcher({}, { maxWakesPerThread: 2 });
     await d.handleEvent(FOLA, { type: 'new', uid: 1, from: 'a', subject: 'Project Acme' });
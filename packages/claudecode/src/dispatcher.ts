@@ -70,7 +70,10 @@ interface SSEEvent {
    * `extractSubject(event)` rather than reading either path directly.
    */
   subject?: string;
-  message?: { subject?: string; from?: unknown; to?: unknown; messageId?: string };
+  message?: {
+    subject?: string; from?: unknown; to?: unknown;
+    messageId?: string; inReplyTo?: string; references?: string | string[];
+  };
   taskId?: string;
   taskType?: string;
   task?: string;
@@ -117,6 +120,22 @@ function extractFrom(event: SSEEvent): string | undefined {
   return undefined;
 }
 
+/**
+ * Thread-cache / thread-memory key for a new-mail event: the header
+ * thread id from the enriched `message` (Message-ID / In-Reply-To /
+ * References), else the subject hash. Same id `/mail/threads` and
+ * the `get_thread_id` tool report, so an edited reply subject stays
+ * on its thread.
+ */
+function extractThreadId(event: SSEEvent): string {
+  return threadIdFor({
+    subject: extractSubject(event),
+    messageId: event.message?.messageId,
+    inReplyTo: event.message?.inReplyTo,
+    references: event.message?.references,
+  });
+}
+
 /**
  * Domains whose senders are internal teammate agents on THIS instance,
  * for the bridge-wake sender gate (GHSA-fq4x-789w-jg5h). Teammates share
@@ -1211,7 +1230,7 @@ export class Dispatcher {
       // agents on the same thread share the cache. See
       // packages/core/src/threading/thread-cache.ts for the
       // design rationale.
-      const cacheThreadId = threadIdFor({ subject });
+      const cacheThreadId = extractThreadId(event);
       try {
         const fromAddr = extractFrom(event) ?? '(unknown)';
         const previewSource = (event as { preview?: string }).preview
@@ -1913,6 +1932,7 @@ export class Dispatcher {
     await this.spawnWorker(account, newMailPrompt(account, event), {
       kind: 'new-mail',
       uid: event.uid,
+      threadId: extractThreadId(event),
       subject: extractSubject(event),
       from: extractFrom(event),
     });
@@ -1950,6 +1970,7 @@ export class Dispatcher {
     void this.spawnWorker(entry.account, prompt, {
       kind: 'new-mail',
       uid: lastEvent.uid,
+      threadId: extractThreadId(lastEvent),
       subject: extractSubject(lastEvent),
       from: extractFrom(lastEvent),
     });
@@ -1968,11 +1989,11 @@ export class Dispatcher {
    */
   composeWakePromptWithContext(
     account: AgenticMailAccount,
-    ctx: { kind: string; subject?: string; uid?: number },
+    ctx: { kind: string; subject?: string; uid?: number; threadId?: string },
     prompt: string,
   ): string {
     if (ctx.kind !== 'new-mail' && ctx.kind !== 'task') return prompt;
-    const t = threadIdFor({ subject: ctx.subject });
+    const t = ctx.threadId ?? threadIdFor({ subject: ctx.subject });
     let cacheBlock = '';
     let memoryBlock = '';
     try {
@@ -2131,7 +2152,7 @@ export class Dispatcher {
   }
 
   /** Acquire a concurrency slot, run a worker, release the slot. */
-  private async spawnWorker(account: AgenticMailAccount, prompt: string, ctx: { kind: string; uid?: number; taskId?: string; subject?: string; from?: string }): Promise<void> {
+  private async spawnWorker(account: AgenticMailAccount, prompt: string, ctx: { kind: string; uid?: number; taskId?: string; subject?: string; from?: string; threadId?: string }): Promise<void> {
     // Per-agent serialization gate. If another worker is mid-flight
     // for the SAME agent, this await chains onto its tail and we
     // resume after it finishes. Prevents two simultaneous Vesper
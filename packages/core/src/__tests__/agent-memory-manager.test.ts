@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { createTestDatabase } from '../storage/db.js';
-import { AgentMemoryManager } from '../memory/index.js';
+import { AgentMemoryManager, HashedNgramEmbedder, type Embedder } from '../memory/index.js';
 
 function freshManager() {
   const db = createTestDatabase();
@@ -129,4 +129,126 @@ describe('AgentMemoryManager', () => {
     expect(stats.byCategory.context).toBe(1);
     expect(stats.byImportance.high).toBe(1);
   });
+
+  it('recalls by meaning in hybrid mode where keyword search finds nothing', async () => {
+    const { manager } = freshManager();
+    await manager.storeMemory('agent1', { content: 'Acme asked for their money back on the March order.', title: 'Acme' });
+    await manager.storeMemory('agent1', { content: 'The weekly newsletter goes out on Fridays.', title: 'Newsletter' });
+
+    expect(await manager.recall('agent1', 'customer wants a refund', 5, 'lexical')).toEqual([]);
+    const semantic = await manager.recall('agent1', 'customer wants a refund', 5, 'semantic');
+    expect(semantic.map((m) => m.title)).toEqual(['Acme']);
+    const hybrid = await manager.recall('agent1', 'customer wants a refund');
+    expect(hybrid[0].title).toBe('Acme');
+
+    // Exact keywords still rank first.
+    const keyword = await manager.recall('agent1', 'newsletter Fridays');
+    expect(keyword[0].title).toBe('Newsletter');
+    const ctx = await manager.generateMemoryContext('agent1', 'refund request');
+    expect(ctx.indexOf('Acme')).toBeLessThan(ctx.indexOf('Newsletter'));
+  });
+
+  it('backfills vectors for entries stored while the embedder was failing', async () => {
+    const db = createTestDatabase();
+    let down = true;
+    const local = new HashedNgramEmbedder();
+    const flaky: Embedder = {
+      id: local.id,
+      minSimilarity: local.minSimilarity,
+      embed: async (texts) => {
+        if (down) throw new Error('provider unreachable');
+        return local.embed(texts);
+      },
+    };
+    const manager = new AgentMemoryManager(db, { embedder: flaky });
+    await manager.storeMemory('agent1', { content: 'Acme wants a refund', title: 'Acme' });
+    await manager.storeMemory('agent2', { content: 'Globex invoice is overdue', title: 'Globex' });
+    expect(manager.getEmbeddingStatus()).toMatchObject({ entries: 2, embedded: 0 });
+    // Falls back to keyword search while the provider is down.
+    expect((await manager.recall('agent1', 'refund', 5, 'semantic')).map((m) => m.title)).toEqual(['Acme']);
+
+    down = false;
+    expect(await manager.backfillEmbeddings('agent1')).toEqual({ total: 1, embedded: 1, failed: 0 });
+    expect(await manager.backfillEmbeddings()).toEqual({ total: 1, embedded: 1, failed: 0 });
+    expect(await manager.backfillEmbeddings()).toEqual({ total: 0, embedded: 0, failed: 0 });
+
+    // Vectors persist, and a different embedder ignores them until backfilled.
+    expect(new AgentMemoryManager(db, { embedder: flaky }).getEmbeddingStatus('agent1').embedded).toBe(1);
+    const other = new AgentMemoryManager(db, { embedder: new HashedNgramEmbedder(256) });
+    expect(other.getEmbeddingStatus().embedded).toBe(0);
+    expect((await other.backfillEmbeddings()).embedded).toBe(2);
+  });
+
+  it('loads agents on first access and evicts the least recently used', async () => {
+    const db = createTestDatabase();
+    const writer = new AgentMemoryManager(db);
+    for (const agent of ['a1', 'a2', 'a3']) {
+      await writer.storeMemory(agent, { content: `${agent} likes window seats`, title: `${agent} seating` });
+      await writer.storeMemory(agent, { content: `${agent} prefers email`, title: `${agent} channel` });
+    }
+
+    const manager = new AgentMemoryManager(db, { maxCachedAgents: 2, maxCachedEntries: 10 });
+    expect(manager.getCacheStatus()).toEqual({ agents: 0, entries: 0 });
+    expect((await manager.recall('a1', 'window seats'))[0].title).toBe('a1 seating');
+    await manager.getStats('a2');
+    expect(manager.getCacheStatus()).toEqual({ agents: 2, entries: 4 });
+
+    // a1 is the coldest, so loading a3 evicts it; it reloads from disk.
+    await manager.queryMemories({ agentId: 'a3' });
+    expect(manager.getCacheStatus()).toEqual({ agents: 2, entries: 4 });
+    const a1 = await manager.queryMemories({ agentId: 'a1' });
+    expect(a1.map((m) => m.title).sort()).toEqual(['a1 channel', 'a1 seating']);
+
+    // Lookups by id find entries of agents that are not cached.
+    await manager.queryMemories({ agentId: 'a2' });
+    const a3Entry = (await writer.queryMemories({ agentId: 'a3' }))[0];
+    expect((await manager.getMemory(a3Entry.id))?.title).toBe(a3Entry.title);
+    expect(await manager.deleteMemory(a3Entry.id)).toBe(true);
+    expect(await manager.getMemory(a3Entry.id)).toBeUndefined();
+
+    // The entry budget also evicts.
+    const small = new AgentMemoryManager(db, { maxCachedEntries: 3 });
+    await small.getStats('a1');
+    await small.getStats('a2');
+    expect(small.getCacheStatus()).toEqual({ agents: 1, entries: 2 });
+  });
+
+  it('prunes every agent without loading them', async () => {
+    const { db, manager } = freshManager();
+    const gone = await manager.storeMemory('a1', { content: 'expired', title: 'Expired' });
+    await manager.storeMemory('a2', { content: 'live', title: 'Live' });
+    db.prepare('UPDATE agent_memory SET expires_at = ? WHERE id = ?')
+      .run(new Date(Date.now() - 1000).toISOString(), gone.id);
+
+    const cold = new AgentMemoryManager(db);
+    expect(await cold.pruneExpired()).toBe(1);
+    expect(cold.getCacheStatus().agents).toBe(0);
+    // The warm manager's cache drops the entry too.
+    expect(await manager.pruneExpired()).toBe(0);
+    expect(await cold.queryMemories({ agentId: 'a1' })).toHaveLength(0);
+  });
+
+  it('ranks keywords in SQLite FTS5 when configured', async () => {
+    const db = createTestDatabase();
+    // Written before the FTS table exists: the first FTS manager indexes them.
+    const plain = new AgentMemoryManager(db);
+    await plain.storeMemory('agent1', {
+      content: 'Restaurant reservations should default to a window seat.', title: 'Reservation seating',
+    });
+    await plain.storeMemory('agent2', { content: 'Reservations go through the concierge.', title: 'Concierge' });
+
+    const fts = new AgentMemoryManager(db, { fullTextSearch: 'fts5' });
+    await fts.storeMemory('agent1', { content: 'The operator prefers terse updates.', title: 'Update style' });
+    const hits = await fts.recall('agent1', 'reservation seating', 5, 'lexical');
+    expect(hits.map((m) => m.title)).toEqual(['Reservation seating']);
+    expect((await fts.recall('agent1', 'terse', 5, 'lexical'))[0].title).toBe('Update style');
+
+    // Triggers keep the index in step with edits and deletes.
+    await fts.updateMemory(hits[0].id, { content: 'Book a booth.', title: 'Booth' });
+    expect(await fts.recall('agent1', 'reservation', 5, 'lexical')).toEqual([]);
+    expect((await fts.recall('agent1', 'booth', 5, 'lexical'))[0].title).toBe('Booth');
+    await fts.deleteAgentMemories('agent1');
+    expect(await fts.recall('agent1', 'terse', 5, 'lexical')).toEqual([]);
+    expect((await fts.recall('agent2', 'reservations', 5, 'lexical'))[0].title).toBe('Concierge');
+  });
 });
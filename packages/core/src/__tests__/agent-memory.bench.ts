@@ -0,0 +1,90 @@
+/**
+ * Agent memory at scale: a 100k-entry store (100 agents × 1,000
+ * entries). Run with `npm run bench` in packages/core.
+ *
+ * - startup — constructing a manager over the full store
+ * - cold — the first query for an agent that is not cached (load + index)
+ * - warm — queries against a cached agent
+ */
+import { bench, describe } from 'vitest';
+import { createTestDatabase } from '../storage/db.js';
+import { AgentMemoryManager } from '../memory/index.js';
+
+const AGENTS = 100;
+const PER_AGENT = 1_000;
+
+const WORDS = [
+  'invoice', 'refund', 'meeting', 'customer', 'shipping', 'contract', 'renewal', 'password', 'calendar',
+  'budget', 'supplier', 'warehouse', 'delivery', 'complaint', 'discount', 'quarterly', 'report', 'travel',
+  'hotel', 'flight', 'reservation', 'window', 'seat', 'prefers', 'morning', 'evening', 'weekly', 'status',
+  'update', 'escalation', 'vendor', 'payroll', 'onboarding', 'laptop', 'license', 'renewal', 'deadline',
+  'proposal', 'pricing', 'tier', 'enterprise', 'support', 'ticket', 'outage', 'backup', 'migration',
+];
+
+// Deterministic filler text (mulberry32).
+let seed = 42;
+function random(): number {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+const sentence = (n: number) => Array.from({ length: n }, () => WORDS[Math.floor(random() * WORDS.length)]).join(' ');
+
+const db = createTestDatabase();
+new AgentMemoryManager(db); // creates the tables
+const insert = db.prepare(
+  `INSERT INTO agent_memory (id, agent_id, category, title, content, importance, tags, created_at, updated_at)
+   VALUES (?, ?, 'knowledge', ?, ?, 'normal', ?, ?, ?)`,
+);
+const now = new Date().toISOString();
+db.exec('BEGIN');
+for (let a = 0; a < AGENTS; a++) {
+  for (let i = 0; i < PER_AGENT; i++) {
+    insert.run(`m-${a}-${i}`, `agent-${a}`, sentence(4), sentence(25), JSON.stringify([WORDS[i % WORDS.length]]), now, now);
+  }
+}
+db.exec('COMMIT');
+
+const warm = new AgentMemoryManager(db);
+const warmFts = new AgentMemoryManager(db, { fullTextSearch: 'fts5' });
+await warm.backfillEmbeddings('agent-0');
+await warm.recall('agent-0', 'warm up');
+await warmFts.recall('agent-0', 'warm up', 5, 'lexical');
+
+let next = 0;
+const coldAgent = () => `agent-${1 + (next++ % (AGENTS - 1))}`;
+
+describe('agent memory, 100k entries', () => {
+  bench('startup', () => {
+    new AgentMemoryManager(db);
+  });
+
+  bench('cold recall (in-memory BM25F)', async () => {
+    await new AgentMemoryManager(db).recall(coldAgent(), 'customer refund complaint', 5, 'lexical');
+  }, { iterations: 20 });
+
+  bench('cold recall (FTS5)', async () => {
+    await new AgentMemoryManager(db, { fullTextSearch: 'fts5' }).recall(coldAgent(), 'customer refund complaint', 5, 'lexical');
+  }, { iterations: 20 });
+
+  bench('warm recall, lexical (in-memory BM25F)', async () => {
+    await warm.recall('agent-0', 'customer refund complaint', 5, 'lexical');
+  });
+
+  bench('warm recall, lexical (FTS5)', async () => {
+    await warmFts.recall('agent-0', 'customer refund complaint', 5, 'lexical');
+  });
+
+  bench('warm recall, hybrid', async () => {
+    await warm.recall('agent-0', 'customer wants money back');
+  });
+
+  bench('warm queryMemories, category filter', async () => {
+    await warm.queryMemories({ agentId: 'agent-0', category: 'knowledge', limit: 50 });
+  });
+
+  bench('warm getStats', async () => {
+    await warm.getStats('agent-0');
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest';
+import { deflateRawSync, deflateSync, gzipSync } from 'node:zlib';
+import { ATTACHMENT_SCAN_LIMITS, extractAttachmentText, isTextScannable } from '../mail/attachment-extract.js';
+import { scanOutboundEmail } from '../mail/outbound-guard.js';
+
+const SSN = '123-45-6789';
+const CARD = '4111 1111 1111 1111';
+
+// ─── Fixture builders ────────────────────────────────────────────────
+// Minimal writers: enough structure for the extractor, CRCs left at 0.
+
+function zip(files: Record<string, string | Buffer>, opts: { store?: boolean; encrypt?: string[] } = {}): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    const data = opts.store ? raw : deflateRawSync(raw);
+    const nameBuf = Buffer.from(name);
+    const flags = opts.encrypt?.includes(name) ? 1 : 0;
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(opts.store ? 0 : 8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    const cd = Buffer.alloc(46);
+    cd.writeUInt32LE(0x02014b50, 0);
+    cd.writeUInt16LE(flags, 8);
+    cd.writeUInt16LE(opts.store ? 0 : 8, 10);
+    cd.writeUInt32LE(data.length, 20);
+    cd.writeUInt32LE(raw.length, 24);
+    cd.writeUInt16LE(nameBuf.length, 28);
+    cd.writeUInt32LE(offset, 42);
+    locals.push(local, nameBuf, data);
+    central.push(cd, nameBuf);
+    offset += 30 + nameBuf.length + data.length;
+  }
+  const cdBuf = Buffer.concat(central);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(cdBuf.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, cdBuf, eocd]);
+}
+
+function tar(files: Record<string, string | Buffer>): Buffer {
+  const parts: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(name, 0);
+    header.write(data.length.toString(8).padStart(11, '0'), 124);
+    header.write('0', 156);
+    header.write('ustar', 257);
+    const body = Buffer.alloc(Math.ceil(data.length / 512) * 512);
+    data.copy(body);
+    parts.push(header, body);
+  }
+  return Buffer.concat([...parts, Buffer.alloc(1024)]);
+}
+
+const CONTENT_TYPES = '<?xml version="1.0"?><Types/>';
+
+function xlsx(sheets: Record<string, string[][]>): Buffer {
+  const shared: string[] = [];
+  const files: Record<string, string> = { '[Content_Types].xml': CONTENT_TYPES };
+  const sheetTags: string[] = [];
+  const rels: string[] = [];
+  Object.entries(sheets).forEach(([name, rows], i) => {
+    const rowXml = rows.map(row => `<row>${row.map(v => {
+      shared.push(v);
+      return `<c t="s"><v>${shared.length - 1}</v></c>`;
+    }).join('')}</row>`).join('');
+    files[`xl/worksheets/sheet${i + 1}.xml`] = `<worksheet><sheetData>${rowXml}</sheetData></worksheet>`;
+    sheetTags.push(`<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`);
+    rels.push(`<Relationship Id="rId${i + 1}" Target="worksheets/sheet${i + 1}.xml"/>`);
+  });
+  files['xl/workbook.xml'] = `<workbook><sheets>${sheetTags.join('')}</sheets></workbook>`;
+  files['xl/_rels/workbook.xml.rels'] = `<Relationships>${rels.join('')}</Relationships>`;
+  files['xl/sharedStrings.xml'] = `<sst>${shared.map(s => `<si><t>${s}</t></si>`).join('')}</sst>`;
+  return zip(files);
+}
+
+function pdf(pages: string[]): Buffer {
+  const objects: string[] = [];
+  const kids = pages.map((_, i) => `${3 + i * 2} 0 R`).join(' ');
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+  const streams: Buffer[] = [];
+  pages.forEach((text, i) => {
+    objects.push(`<< /Type /Page /Parent 2 0 R /Contents ${4 + i * 2} 0 R >>`);
+    streams[objects.length] = deflateSync(`BT /F1 12 Tf 72 720 Td (${text}) Tj ET`);
+    objects.push('');
+  });
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n')];
+  objects.forEach((dict, i) => {
+    const stream = streams[i];
+    chunks.push(Buffer.from(stream
+      ? `${i + 1} 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`
+      : `${i + 1} 0 obj\n${dict}\nendobj\n`));
+    if (stream) chunks.push(stream, Buffer.from('\nendstream\nendobj\n'));
+  });
+  chunks.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n'));
+  return Buffer.concat(chunks);
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────
+
+describe('extractAttachmentText', () => {
+  it('reads plain text files as before', () => {
+    expect(isTextScannable('notes.csv')).toBe(true);
+    expect(isTextScannable('photo.png', 'image/png')).toBe(false);
+    expect(extractAttachmentText('notes.txt', 'text/plain', Buffer.from('hello')).segments).toEqual([{ path: '', text: 'hello' }]);
+    expect(extractAttachmentText('photo.png', 'image/png', Buffer.from([0x89, 0x50])).segments).toEqual([]);
+  });
+
+  it('reads xlsx cells per sheet', () => {
+    const { segments } = extractAttachmentText('book.xlsx', undefined, xlsx({
+      Summary: [['Total', '42']],
+      'Customers & Co': [['Name', 'SSN'], ['Ada', SSN]],
+    }));
+    expect(segments).toEqual([
+      { path: 'xl/worksheets/sheet1.xml', location: 'sheet "Summary"', text: 'Total\t42' },
+      { path: 'xl/worksheets/sheet2.xml', location: 'sheet "Customers & Co"', text: `Name\tSSN\nAda\t${SSN}` },
+    ]);
+  });
+
+  it('reads docx paragraphs and pptx slides', () => {
+    const docx = zip({
+      '[Content_Types].xml': CONTENT_TYPES,
+      'word/document.xml': '<w:document><w:body><w:p><w:r><w:t>SSN </w:t></w:r><w:r><w:t>123-45-</w:t></w:r><w:r><w:t>6789</w:t></w:r></w:p><w:p><w:r><w:t>Bye</w:t></w:r></w:p></w:body></w:document>',
+    });
+    expect(extractAttachmentText('memo.docx', undefined, docx).segments).toEqual([{ path: 'word/document.xml', text: `SSN ${SSN}\nBye\n` }]);
+
+    const pptx = zip({
+      '[Content_Types].xml': CONTENT_TYPES,
+      'ppt/slides/slide10.xml': '<p:sld><a:p><a:r><a:t>Ten</a:t></a:r></a:p></p:sld>',
+      'ppt/slides/slide2.xml': '<p:sld><a:p><a:r><a:t>Two</a:t></a:r></a:p></p:sld>',
+    });
+    expect(extractAttachmentText('deck.pptx', undefined, pptx).segments.map(s => s.location)).toEqual(['slide 2', 'slide 10']);
+  });
+
+  it('reads ODF spreadsheets by table', () => {
+    const ods = zip({
+      mimetype: 'application/vnd.oasis.opendocument.spreadsheet',
+      'content.xml': '<office:document-content><table:table table:name="People"><table:table-row><table:table-cell><text:p>Ada</text:p></table:table-cell><table:table-cell><text:p>123-45<text:s/>6789</text:p></table:table-cell></table:table-row></table:table></office:document-content>',
+    }, { store: true });
+    expect(extractAttachmentText('p.ods', undefined, ods).segments).toEqual([
+      { path: 'content.xml', location: 'sheet "People"', text: 'Ada\t123-45 6789\t\n' },
+    ]);
+  });
+
+  it('reads PDF text per page', () => {
+    const { segments } = extractAttachmentText('r.pdf', 'application/pdf', pdf(['Hello', `SSN ${SSN}`]));
+    expect(segments.map(s => [s.location, s.text.trim()])).toEqual([['page 1', 'Hello'], ['page 2', `SSN ${SSN}`]]);
+  });
+
+  it('skips encrypted PDFs and zip entries', () => {
+    const encrypted = Buffer.from('%PDF-1.4\ntrailer << /Root 1 0 R /Encrypt 5 0 R >>');
+    expect(extractAttachmentText('x.pdf', undefined, encrypted).skipped).toEqual([{ path: '', reason: 'encrypted PDF' }]);
+    const result = extractAttachmentText('x.zip', undefined, zip({ 'a.txt': 'open', 'b.txt': 'secret' }, { encrypt: ['b.txt'] }));
+    expect(result.segments).toEqual([{ path: 'a.txt', text: 'open' }]);
+    expect(result.skipped).toEqual([{ path: 'b.txt', reason: 'encrypted' }]);
+  });
+
+  it('walks tar, tgz and nested archives with inner paths', () => {
+    const inner = zip({ 'data/people.csv': `ada,${SSN}` });
+    const outer = gzipSync(tar({ 'export/people.zip': inner }));
+    const { segments } = extractAttachmentText('backup.tgz', undefined, outer);
+    expect(segments).toEqual([{ path: 'export/people.zip/data/people.csv', text: `ada,${SSN}` }]);
+  });
+
+  it('stops at the nesting depth limit', () => {
+    let nested = zip({ 'deep.txt': SSN });
+    for (let i = 0; i < ATTACHMENT_SCAN_LIMITS.maxDepth; i++) nested = zip({ [`l${i}.zip`]: nested });
+    const result = extractAttachmentText('nest.zip', undefined, nested);
+    expect(result.segments).toEqual([]);
+    expect(result.skipped).toEqual([{ path: 'l2.zip/l1.zip/l0.zip', reason: 'archive nested deeper than 3 levels' }]);
+  });
+
+  it('bounds decompression of a zip bomb', () => {
+    const bomb = zip({ 'zeros.txt': Buffer.alloc(2 * 1024 * 1024) });
+    const limits = { ...ATTACHMENT_SCAN_LIMITS, maxEntryBytes: 64 * 1024 };
+    expect(extractAttachmentText('bomb.zip', undefined, bomb, limits).skipped).toEqual([
+      { path: 'zeros.txt', reason: 'decompressed size limit reached' },
+    ]);
+  });
+});
+
+describe('scanOutboundEmail attachment content', () => {
+  it('finds an SSN in a spreadsheet and cites the sheet', () => {
+    const result = scanOutboundEmail({
+      to: 'x@example.com',
+      attachments: [{ filename: 'customers.xlsx', content: xlsx({ Customers: [['Ada', SSN]] }).toString('base64'), encoding: 'base64' }],
+    });
+    expect(result.blocked).toBe(true);
+    expect(result.warnings[0]).toMatchObject({
+      ruleId: 'ob_ssn',
+      description: expect.stringMatching(/\(in attachment: customers\.xlsx › xl\/worksheets\/sheet1\.xml, sheet "Customers"\)$/),
+      attachment: { filename: 'customers.xlsx', path: 'xl/worksheets/sheet1.xml', location: 'sheet "Customers"' },
+    });
+  });
+
+  it('finds a card number on a PDF page inside a zip', () => {
+    const result = scanOutboundEmail({
+      to: 'x@example.com',
+      attachments: [{ filename: 'docs.zip', content: zip({ 'q3/receipt.pdf': pdf(['Thanks', `Card ${CARD}`]) }) }],
+    });
+    expect(result.warnings.find(w => w.ruleId === 'ob_credit_card')).toMatchObject({
+      attachment: { filename: 'docs.zip', path: 'q3/receipt.pdf', location: 'page 2' },
+    });
+  });
+
+  it('warns about content it could not read', () => {
+    const result = scanOutboundEmail({
+      to: 'x@example.com',
+      attachments: [{ filename: 'locked.zip', content: zip({ 'ssn.txt': SSN }, { encrypt: ['ssn.txt'] }) }],
+    });
+    expect(result.blocked).toBe(false);
+    expect(result.warnings).toMatchObject([{
+      ruleId: 'ob_unscanned_attachment', severity: 'medium', action: 'warn',
+      description: 'Attachment content could not be scanned: encrypted',
+    }]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import { parseBounce } from '../mail/bounce-parser.js';
+
+function dsn(groups: string, extra = ''): string {
+  return [
+    'From: MAILER-DAEMON@mx.example.net (Mail Delivery System)',
+    'To: ops@agents.example.com',
+    'Subject: Undelivered Mail Returned to Sender',
+    'Message-ID: <bounce-1@mx.example.net>',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/report; report-type=delivery-status;',
+    '\tboundary="B1"',
+    '',
+    'This is a MIME-encapsulated message.',
+    '',
+    '--B1',
+    'Content-Type: text/plain; charset=us-ascii',
+    '',
+    'I\'m sorry to have to inform you that your message could not be delivered.',
+    '',
+    '--B1',
+    'Content-Type: message/delivery-status',
+    '',
+    'Reporting-MTA: dns; mx.example.net',
+    'Arrival-Date: Sun,  1 Mar 2026 12:00:00 +0000 (UTC)',
+    '',
+    groups,
+    '',
+    '--B1',
+    'Content-Type: text/rfc822-headers',
+    '',
+    'From: ops@agents.example.com',
+    'To: gone@example.org',
+    'Subject: Quarterly numbers',
+    'Message-ID: <orig-42@agents.example.com>',
+    '',
+    extra,
+    '--B1--',
+    '',
+  ].join('\r\n');
+}
+
+describe('parseBounce', () => {
+  it('reads an RFC 3464 report and the returned headers', () => {
+    const report = parseBounce(dsn([
+      'Final-Recipient: rfc822; Gone@Example.org',
+      'Original-Recipient: rfc822;gone@example.org',
+      'Action: failed',
+      'Status: 5.1.1',
+      'Remote-MTA: dns; mx.example.org',
+      'Diagnostic-Code: smtp; 550 5.1.1 <gone@example.org>: Recipient address rejected:',
+      '    User unknown in virtual mailbox table',
+    ].join('\r\n')));
+
+    expect(report).toEqual({
+      format: 'dsn',
+      reportingMta: 'mx.example.net',
+      recipients: [{
+        address: 'gone@example.org',
+        action: 'failed',
+        status: '5.1.1',
+        diagnosticCode: '550 5.1.1 <gone@example.org>: Recipient address rejected: User unknown in virtual mailbox table',
+        remoteMta: 'mx.example.org',
+        type: 'hard',
+      }],
+      originalMessageId: '<orig-42@agents.example.com>',
+      originalSubject: 'Quarterly numbers',
+    });
+  });
+
+  it('tells hard from soft failures per recipient', () => {
+    const report = parseBounce(dsn([
+      'Final-Recipient: rfc822; full@example.org',
+      'Action: failed',
+      'Status: 5.2.2',
+      'Diagnostic-Code: smtp; 552 5.2.2 Mailbox full',
+      '',
+      'Final-Recipient: rfc822; nodomain@example.invalid',
+      'Action: failed',
+      'Status: 5.4.4',
+      '',
+      'Final-Recipient: rfc822; slow@example.org',
+      'Action: delayed',
+      'Status: 4.4.1',
+      '',
+      'Final-Recipient: rfc822; fine@example.org',
+      'Action: delivered',
+      'Status: 2.0.0',
+    ].join('\r\n')));
+
+    expect(report!.recipients.map(r => [r.address, r.action, r.type])).toEqual([
+      ['full@example.org', 'failed', 'soft'],
+      ['nodomain@example.invalid', 'failed', 'hard'],
+      ['slow@example.org', 'delayed', 'soft'],
+      ['fine@example.org', 'delivered', null],
+    ]);
+  });
+
+  it('ignores reports of successful delivery and ordinary mail', () => {
+    expect(parseBounce(dsn('Final-Recipient: rfc822; fine@example.org\r\nAction: delivered\r\nStatus: 2.0.0'))).toBeNull();
+    expect(parseBounce([
+      'From: Dana <dana@example.org>',
+      'To: ops@agents.example.com',
+      'Subject: Re: Quarterly numbers',
+      '',
+      'The address gone@example.org: 550 is not one I use any more.',
+    ].join('\r\n'))).toBeNull();
+  });
+
+  it('reads qmail bounces', () => {
+    const report = parseBounce([
+      'From: MAILER-DAEMON@qmail.example.net',
+      'To: ops@agents.example.com',
+      'Subject: failure notice',
+      '',
+      'Hi. This is the qmail-send program at qmail.example.net.',
+      'I\'m afraid I wasn\'t able to deliver your message to the following addresses.',
+      'This is a permanent error; I\'ve given up. Sorry it didn\'t work out.',
+      '',
+      '<nobody@example.net>:',
+      'Sorry, no mailbox here by that name. (#5.1.1)',
+      '',
+      '--- Below this line is a copy of the message.',
+      '',
+      'From: ops@agents.example.com',
+      'To: nobody@example.net',
+      'Subject: Hello',
+      'Message-ID: <orig-7@agents.example.com>',
+    ].join('\n'));
+
+    expect(report).toMatchObject({
+      format: 'heuristic',
+      recipients: [{ address: 'nobody@example.net', action: 'failed', status: '5.1.1', type: 'hard' }],
+      originalMessageId: '<orig-7@agents.example.com>',
+      originalSubject: 'Hello',
+    });
+  });
+
+  it('reads Exim bounces with X-Failed-Recipients', () => {
+    const report = parseBounce([
+      'From: Mail Delivery System <Mailer-Daemon@exim.example.net>',
+      'To: ops@agents.example.com',
+      'Subject: Mail delivery failed: returning message to sender',
+      'X-Failed-Recipients: missing@example.com',
+      'In-Reply-To: <orig-9@agents.example.com>',
+      '',
+      'This message was created automatically by mail delivery software.',
+      '',
+      'A message that you sent could not be delivered to one or more of its',
+      'recipients. This is a permanent error. The following address(es) failed:',
+      '',
+      '  missing@example.com',
+      '    SMTP error from remote mail server after RCPT TO:<missing@example.com>:',
+      '    550 No such user here',
+    ].join('\n'));
+
+    expect(report).toMatchObject({
+      format: 'heuristic',
+      recipients: [{ address: 'missing@example.com', action: 'failed', diagnosticCode: '550 No such user here', type: 'hard' }],
+      originalMessageId: '<orig-9@agents.example.com>',
+    });
+  });
+
+  it('reads Gmail prose and classifies a temporary failure as soft', () => {
+    const hard = parseBounce([
+      'From: Mail Delivery Subsystem <mailer-daemon@googlemail.com>',
+      'To: ops@agents.example.com',
+      'Subject: Delivery Status Notification (Failure)',
+      '',
+      'Address not found',
+      '',
+      'Your message wasn\'t delivered to nope@gmail.com because the address couldn\'t be found,',
+      'or is unable to receive mail.',
+      '',
+      'The response was:',
+      '550 5.1.1 The email account that you tried to reach does not exist.',
+    ].join('\n'));
+    expect(hard!.recipients).toEqual([expect.objectContaining({ address: 'nope@gmail.com', status: '5.1.1', type: 'hard' })]);
+
+    const soft = parseBounce([
+      'From: Mail Delivery Subsystem <mailer-daemon@googlemail.com>',
+      'To: ops@agents.example.com',
+      'Subject: Delivery Status Notification (Delay)',
+      '',
+      'Your message wasn\'t delivered to busy@example.com yet. Gmail will keep trying.',
+      '',
+      'The response was:',
+      '451 4.7.1 Try again later',
+    ].join('\n'));
+    expect(soft!.recipients).toEqual([expect.objectContaining({ address: 'busy@example.com', action: 'delayed', type: 'soft' })]);
+  });
+
+  it('reads the DSN fields of a report whose MIME structure was flattened', () => {
+    const report = parseBounce([
+      'From: postmaster@relay.example.net',
+      'To: ops@agents.example.com',
+      'Subject: Returned mail: see transcript for details',
+      'Content-Type: text/plain',
+      '',
+      'Reporting-MTA: dns; relay.example.net',
+      '',
+      'Final-Recipient: rfc822; left@example.org',
+      'Action: failed',
+      'Status: 5.1.1',
+      '',
+      'Message-ID: <orig-3@agents.example.com>',
+    ].join('\n'));
+
+    expect(report).toMatchObject({
+      format: 'heuristic',
+      recipients: [{ address: 'left@example.org', type: 'hard' }],
+      originalMessageId: '<orig-3@agents.example.com>',
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { BounceTracker } from '../mail/bounce-tracker.js';
+import type { BounceReport } from '../mail/bounce-parser.js';
+import { createTestDatabase } from '../storage/db.js';
+
+const REPORT: BounceReport = {
+  format: 'dsn',
+  reportingMta: 'mx.example.net',
+  recipients: [
+    { address: 'Gone@Example.org', action: 'failed', status: '5.1.1', diagnosticCode: '550 5.1.1 User unknown', type: 'hard' },
+    { address: 'full@example.org', action: 'failed', status: '5.2.2', type: 'soft' },
+    { address: 'fine@example.org', action: 'delivered', status: '2.0.0', type: null },
+  ],
+  originalMessageId: '<orig-1@agents.example.com>',
+  originalSubject: 'Hello',
+};
+
+describe('BounceTracker', () => {
+  let db: ReturnType<typeof createTestDatabase>;
+  let tracker: BounceTracker;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    tracker = new BounceTracker(db, () => new Date('2026-03-01T12:00:00Z'));
+    const contact = db.prepare('INSERT INTO contacts (id, agent_id, name, email) VALUES (?, ?, ?, ?)');
+    contact.run('c-1', 'agent-1', 'Gone', 'gone@example.org');
+    contact.run('c-2', 'agent-2', 'Gone', 'GONE@example.org');
+    contact.run('c-3', 'agent-1', 'Full', 'full@example.org');
+    tracker.recordSent('agent-1', 'orig-1@agents.example.com', ['Dana <gone@example.org>', 'full@example.org', 'fine@example.org']);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const flags = () => db.prepare('SELECT id, bounced, bounced_at FROM contacts ORDER BY id').all();
+
+  it('records failures, suppresses hard bounces and flags contacts', () => {
+    const recorded = tracker.record('agent-1', REPORT, 'bounce-1@mx.example.net');
+    expect(recorded.map(r => [r.recipient, r.type])).toEqual([['gone@example.org', 'hard'], ['full@example.org', 'soft']]);
+    expect(recorded[0]).toMatchObject({
+      agentId: 'agent-1',
+      status: '5.1.1',
+      originalMessageId: '<orig-1@agents.example.com>',
+      bounceMessageId: '<bounce-1@mx.example.net>',
+      suppressed: true,
+    });
+    expect(recorded[1].suppressed).toBe(false);
+
+    expect(tracker.suppressed(['Dana <gone@example.org>', 'full@example.org'])).toEqual([{
+      address: 'gone@example.org',
+      reason: 'hard_bounce',
+      bounceId: recorded[0].id,
+      detail: '550 5.1.1 User unknown',
+      agentId: 'agent-1',
+      createdAt: '2026-03-01T12:00:00.000Z',
+    }]);
+    expect(flags()).toEqual([
+      { id: 'c-1', bounced: 1, bounced_at: '2026-03-01T12:00:00.000Z' },
+      { id: 'c-2', bounced: 1, bounced_at: '2026-03-01T12:00:00.000Z' },
+      { id: 'c-3', bounced: 0, bounced_at: null },
+    ]);
+  });
+
+  it('records but does not suppress a hard bounce for mail it did not send', () => {
+    const forged: BounceReport = {
+      format: 'dsn',
+      recipients: [{ address: 'victim@corp.example', action: 'failed', status: '5.1.1', type: 'hard' }],
+      originalMessageId: '<orig-1@agents.example.com>',
+    };
+    const recorded = tracker.record('agent-1', forged, 'forged-1@attacker.example');
+    expect(recorded).toMatchObject([{ recipient: 'victim@corp.example', type: 'hard', suppressed: false }]);
+    expect(tracker.record('agent-1', { ...forged, originalMessageId: undefined }, 'forged-2@attacker.example'))
+      .toMatchObject([{ suppressed: false }]);
+    // The real message, but bounced to an agent that didn't send it.
+    expect(tracker.record('agent-2', REPORT, 'forged-3@attacker.example')[0].suppressed).toBe(false);
+
+    expect(tracker.suppressed(['victim@corp.example', 'gone@example.org'])).toEqual([]);
+    expect(tracker.list({ recipient: 'victim@corp.example' })).toHaveLength(2);
+    expect(flags().every((f: any) => f.bounced === 0)).toBe(true);
+  });
+
+  it('always treats MAILER-DAEMON addresses as suppressed', () => {
+    expect(tracker.suppressed(['MAILER-DAEMON@mx.example.net', 'postmaster@example.net'])).toEqual([
+      { address: 'mailer-daemon@mx.example.net', reason: 'mailer_daemon', createdAt: '2026-03-01T12:00:00.000Z' },
+    ]);
+    expect(tracker.listSuppressed()).toEqual([]);
+  });
+
+  it('skips a bounce message it has already seen', () => {
+    tracker.record('agent-1', REPORT, '<bounce-1@mx.example.net>');
+    expect(tracker.record('agent-1', REPORT, 'bounce-1@mx.example.net')).toEqual([]);
+    expect(tracker.list()).toHaveLength(2);
+  });
+
+  it('filters the list by agent, sent message, recipient and type', () => {
+    tracker.record('agent-1', REPORT, 'bounce-1@mx.example.net');
+    tracker.record('agent-2', { ...REPORT, originalMessageId: '<orig-2@agents.example.com>' }, 'bounce-2@mx.example.net');
+
+    expect(tracker.list({ agentId: 'agent-2' }).map(b => b.originalMessageId)).toEqual([
+      '<orig-2@agents.example.com>', '<orig-2@agents.example.com>',
+    ]);
+    expect(tracker.list({ messageId: 'orig-1@agents.example.com' })).toHaveLength(2);
+    expect(tracker.list({ recipient: 'GONE@example.org', type: 'hard' })).toHaveLength(2);
+    expect(tracker.list({ type: 'soft', limit: 1 })).toHaveLength(1);
+  });
+
+  it('unsuppresses an address and clears its contacts flag', () => {
+    tracker.record('agent-1', REPORT, 'bounce-1@mx.example.net');
+    expect(tracker.listSuppressed().map(s => s.address)).toEqual(['gone@example.org']);
+
+    expect(tracker.unsuppress('Gone@example.org')).toBe(true);
+    expect(tracker.unsuppress('gone@example.org')).toBe(false);
+    expect(tracker.suppressed(['gone@example.org'])).toEqual([]);
+    expect(flags()).toEqual([
+      { id: 'c-1', bounced: 0, bounced_at: null },
+      { id: 'c-2', bounced: 0, bounced_at: null },
+      { id: 'c-3', bounced: 0, bounced_at: null },
+    ]);
+  });
+});
@@ -0,0 +1,334 @@
+import { describe, expect, it } from 'vitest';
+import { createHash, generateKeyPairSync, sign as cryptoSign, type KeyObject } from 'node:crypto';
+import nodemailer from 'nodemailer';
+import {
+  createStaticDnsResolver,
+  formatAuthenticationResults,
+  organizationalDomain,
+  verifyEmailAuthentication,
+  verifySpf,
+  type EmailAuthDnsZone,
+} from '../mail/email-auth.js';
+
+// ─── Fixture keys and signers ────────────────────────────────────────
+// RSA mail is signed by nodemailer (an independent DKIM implementation);
+// Ed25519 and ARC use the small relaxed/relaxed signer below.
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ed = generateKeyPairSync('ed25519');
+const rsaTxt = (key: KeyObject) => `v=DKIM1; k=rsa; p=${key.export({ type: 'spki', format: 'der' }).toString('base64')}`;
+const edTxt = (key: KeyObject) => `v=DKIM1; k=ed25519; p=${key.export({ type: 'spki', format: 'der' }).subarray(-32).toString('base64')}`;
+
+type Header = [name: string, value: string];
+
+interface Signer {
+  domain: string;
+  selector: string;
+  key: KeyObject;
+  algorithm: 'rsa-sha256' | 'ed25519-sha256';
+}
+
+const relaxedHeader = ([name, value]: Header) => `${name.toLowerCase()}:${value.replace(/\r\n/g, '').replace(/[ \t]+/g, ' ').trim()}\r\n`;
+const relaxedBody = (body: string) => {
+  const b = body.replace(/[ \t]+\r\n/g, '\r\n').replace(/[ \t]+/g, ' ').replace(/(\r\n)*$/, '');
+  return b ? b + '\r\n' : '';
+};
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest();
+
+function signData(data: string, signer: Signer): string {
+  const buf = Buffer.from(data, 'latin1');
+  return (signer.algorithm === 'ed25519-sha256'
+    ? cryptoSign(null, sha256(buf), signer.key)
+    : cryptoSign('sha256', buf, signer.key)).toString('base64');
+}
+
+/** Sign `headers` + `body` and return the signature header (DKIM-Signature or ARC-Message-Signature). */
+function messageSignature(headers: Header[], body: string, signer: Signer, name = 'DKIM-Signature', prefix = 'v=1'): Header {
+  const signed = headers.map(([n]) => n.toLowerCase());
+  const unsigned = `${prefix}; a=${signer.algorithm}; c=relaxed/relaxed; d=${signer.domain}; s=${signer.selector}; `
+    + `h=${signed.join(':')}; bh=${sha256(relaxedBody(body)).toString('base64')}; b=`;
+  const data = headers.map(relaxedHeader).join('') + relaxedHeader([name, unsigned]).slice(0, -2);
+  return [name, unsigned + signData(data, signer)];
+}
+
+const render = (headers: Header[], body: string) => `${headers.map(([n, v]) => `${n}: ${v}`).join('\r\n')}\r\n\r\n${body}`;
+
+/** Add one ARC set (AAR, AMS, AS) on top of `headers`. */
+function arcSeal(headers: Header[], body: string, signer: Signer, cv: 'none' | 'pass' | 'fail'): Header[] {
+  const sets = headers.filter(([n]) => /^arc-/i.test(n));
+  const instance = sets.length / 3 + 1;
+  const content = headers.filter(([n]) => !/^arc-/i.test(n));
+  const aar: Header = ['ARC-Authentication-Results', `i=${instance}; ${signer.domain}; dkim=pass; spf=pass`];
+  const ams = messageSignature(content, body, signer, 'ARC-Message-Signature', `i=${instance}`);
+  const seal = `i=${instance}; a=${signer.algorithm}; cv=${cv}; d=${signer.domain}; s=${signer.selector}; b=`;
+  let data = '';
+  for (let i = 1; i < instance; i++) {
+    for (const name of ['arc-authentication-results', 'arc-message-signature', 'arc-seal']) {
+      data += relaxedHeader(sets.find(([n, v]) => n.toLowerCase() === name && new RegExp(`^i=${i};`).test(v))!);
+    }
+  }
+  data += relaxedHeader(aar) + relaxedHeader(ams) + relaxedHeader(['ARC-Seal', seal]).slice(0, -2);
+  return [['ARC-Seal', seal + signData(data, signer)], ams, aar, ...headers];
+}
+
+const BASE: Header[] = [
+  ['From', 'Ada <ada@example.com>'],
+  ['To', 'ops@agents.example'],
+  ['Subject', 'Quarterly numbers'],
+  ['Message-ID', '<q1@example.com>'],
+];
+const BODY = 'Numbers attached.\r\n\r\n';
+
+const zone: EmailAuthDnsZone = {
+  'rsa._domainkey.example.com': { TXT: [rsaTxt(rsa.publicKey)] },
+  'ed._domainkey.mail.example.com': { TXT: [edTxt(ed.publicKey)] },
+  'seal._domainkey.forwarder.example': { TXT: [rsaTxt(rsa.publicKey)] },
+  'seal2._domainkey.list.example': { TXT: [edTxt(ed.publicKey)] },
+  'revoked._domainkey.example.com': { TXT: ['v=DKIM1; p='] },
+  '_dmarc.example.com': { TXT: ['v=DMARC1; p=reject; sp=quarantine'] },
+  'example.com': { TXT: ['v=spf1 ip4:192.0.2.0/24 include:_spf.provider.example -all'], A: ['192.0.2.10'] },
+  '_spf.provider.example': {
+    TXT: ['v=spf1 mx a:relay.provider.example ip6:2001:db8::/32 ~all'],
+    MX: [{ exchange: 'mx.provider.example', priority: 10 }],
+  },
+  'relay.provider.example': { A: ['198.51.100.7'] },
+  'mx.provider.example': { A: ['203.0.113.25'] },
+};
+const resolver = createStaticDnsResolver(zone);
+
+const edSigner: Signer = { domain: 'mail.example.com', selector: 'ed', key: ed.privateKey, algorithm: 'ed25519-sha256' };
+const rsaSigner: Signer = { domain: 'example.com', selector: 'rsa', key: rsa.privateKey, algorithm: 'rsa-sha256' };
+
+async function nodemailerSigned(): Promise<Buffer> {
+  const transport = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+  const info = await transport.sendMail({
+    from: 'Ada <ada@example.com>',
+    to: 'ops@agents.example',
+    subject: 'Quarterly numbers',
+    text: 'Numbers attached.',
+    dkim: {
+      domainName: 'example.com',
+      keySelector: 'rsa',
+      privateKey: rsa.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    },
+  });
+  return info.message as Buffer;
+}
+
+// ─── DKIM ────────────────────────────────────────────────────────────
+
+describe('DKIM', () => {
+  it('verifies an RSA signature made by nodemailer', async () => {
+    const result = await verifyEmailAuthentication(await nodemailerSigned(), { resolver });
+    expect(result.dkim).toEqual([
+      expect.objectContaining({ result: 'pass', domain: 'example.com', selector: 'rsa', algorithm: 'rsa-sha256', aligned: true }),
+    ]);
+    expect(result.fromAligned).toBe(true);
+  });
+
+  it('verifies an Ed25519 signature', async () => {
+    const headers = [messageSignature(BASE, BODY, edSigner), ...BASE];
+    const result = await verifyEmailAuthentication(render(headers, BODY), { resolver });
+    expect(result.dkim[0]).toMatchObject({ result: 'pass', domain: 'mail.example.com', algorithm: 'ed25519-sha256', aligned: true });
+  });
+
+  it('tolerates whitespace changes under relaxed canonicalization', async () => {
+    const headers = [messageSignature(BASE, BODY, edSigner), ...BASE];
+    const refolded = render(headers, BODY).replace('Subject: Quarterly numbers', 'Subject:   Quarterly\r\n  numbers  ');
+    const result = await verifyEmailAuthentication(refolded.replace('Numbers attached.', 'Numbers  attached. '), { resolver });
+    expect(result.dkim[0].result).toBe('pass');
+  });
+
+  it('fails when the body or a signed header was altered', async () => {
+    const raw = (await nodemailerSigned()).toString('latin1');
+    const body = await verifyEmailAuthentication(raw.replace('Numbers attached.', 'Wire $9,000 today.'), { resolver });
+    expect(body.dkim[0]).toMatchObject({ result: 'fail', reason: 'body hash mismatch' });
+    const header = await verifyEmailAuthentication(raw.replace('Subject: Quarterly numbers', 'Subject: Urgent wire'), { resolver });
+    expect(header.dkim[0]).toMatchObject({ result: 'fail', reason: 'signature did not verify' });
+    expect(header.fromAligned).toBe(false);
+  });
+
+  it('reports key problems as permerror and DNS outages as temperror', async () => {
+    const missing = [messageSignature(BASE, BODY, { ...rsaSigner, selector: 'gone' }), ...BASE];
+    expect((await verifyEmailAuthentication(render(missing, BODY), { resolver })).dkim[0]).toMatchObject({ result: 'permerror', reason: 'no key published' });
+    const revoked = [messageSignature(BASE, BODY, { ...rsaSigner, selector: 'revoked' }), ...BASE];
+    expect((await verifyEmailAuthentication(render(revoked, BODY), { resolver })).dkim[0]).toMatchObject({ result: 'permerror', reason: 'key revoked' });
+
+    const down = { ...resolver, resolveTxt: async () => { throw Object.assign(new Error('queryTxt ESERVFAIL'), { code: 'ESERVFAIL' }); } };
+    const signed = [messageSignature(BASE, BODY, rsaSigner), ...BASE];
+    const result = await verifyEmailAuthentication(render(signed, BODY), { resolver: down });
+    expect(result.dkim[0].result).toBe('temperror');
+    expect(result.dmarc.result).toBe('temperror');
+  });
+
+  it('fails an expired signature and rejects rsa-sha1', async () => {
+    const [name, value] = messageSignature(BASE, BODY, rsaSigner);
+    const expired = await verifyEmailAuthentication(render([[name, value.replace('v=1;', 'v=1; x=1000;')], ...BASE], BODY), { resolver });
+    expect(expired.dkim[0]).toMatchObject({ result: 'fail', reason: 'signature expired' });
+    const sha1 = await verifyEmailAuthentication(render([[name, value.replace('rsa-sha256', 'rsa-sha1')], ...BASE], BODY), { resolver });
+    expect(sha1.dkim[0].result).toBe('permerror');
+  });
+
+  it('requires From to be signed', async () => {
+    const headers = [messageSignature(BASE.slice(1), BODY, rsaSigner), ...BASE];
+    const result = await verifyEmailAuthentication(render(headers, BODY), { resolver });
+    expect(result.dkim[0]).toMatchObject({ result: 'permerror', reason: 'From is not signed' });
+  });
+});
+
+// ─── SPF ─────────────────────────────────────────────────────────────
+
+describe('SPF', () => {
+  const spf = (ip: string, mailFrom = 'ada@example.com') => verifySpf(ip, mailFrom, undefined, resolver);
+
+  it('evaluates ip4, include, a, mx and ip6 mechanisms', async () => {
+    expect((await spf('192.0.2.44')).result).toBe('pass');
+    expect((await spf('198.51.100.7')).result).toBe('pass');
+    expect((await spf('203.0.113.25')).result).toBe('pass');
+    expect((await spf('2001:db8::25')).result).toBe('pass');
+    expect((await spf('::ffff:192.0.2.44')).result).toBe('pass');
+  });
+
+  it('applies the qualifier of the matching mechanism', async () => {
+    expect(await spf('203.0.113.99')).toMatchObject({ result: 'fail', domain: 'example.com', ip: '203.0.113.99' });
+  });
+
+  it('follows redirect= and expands macros in exists:', async () => {
+    const r = createStaticDnsResolver({
+      'a.example': { TXT: ['v=spf1 redirect=b.example'] },
+      'b.example': { TXT: ['v=spf1 exists:%{ir}.%{l}._spf.%{d} ~all'] },
+      '44.2.0.192.ada._spf.b.example': { A: ['127.0.0.2'] },
+    });
+    expect((await verifySpf('192.0.2.44', 'ada@a.example', undefined, r)).result).toBe('pass');
+    expect((await verifySpf('192.0.2.45', 'ada@a.example', undefined, r)).result).toBe('softfail');
+  });
+
+  it('stops at ten DNS lookups', async () => {
+    const loop: EmailAuthDnsZone = {};
+    for (let i = 0; i < 12; i++) loop[`l${i}.example`] = { TXT: [`v=spf1 include:l${i + 1}.example -all`] };
+    loop['l12.example'] = { TXT: ['v=spf1 -all'] };
+    const result = await verifySpf('192.0.2.1', 'x@l0.example', undefined, createStaticDnsResolver(loop));
+    expect(result).toMatchObject({ result: 'permerror', reason: 'too many DNS lookups' });
+  });
+
+  it('is none without a connecting IP or a published record', async () => {
+    expect(await spf(undefined as unknown as string)).toMatchObject({ result: 'none', reason: 'connecting IP unknown' });
+    expect((await spf('192.0.2.1', 'x@nospf.example')).result).toBe('none');
+  });
+
+  it('checks the HELO name for a null sender', async () => {
+    expect(await verifySpf('192.0.2.5', '<>', 'example.com', resolver)).toMatchObject({ result: 'pass', domain: 'example.com' });
+  });
+});
+
+// ─── DMARC ───────────────────────────────────────────────────────────
+
+describe('DMARC', () => {
+  it('passes on a relaxed-aligned DKIM signature from a subdomain', async () => {
+    const headers = [messageSignature(BASE, BODY, edSigner), ...BASE];
+    const result = await verifyEmailAuthentication(render(headers, BODY), { resolver });
+    expect(result.dmarc).toMatchObject({ result: 'pass', domain: 'example.com', policy: 'reject', alignment: { dkim: true, spf: false } });
+  });
+
+  it('passes on aligned SPF when the connecting IP is known', async () => {
+    const result = await verifyEmailAuthentication(render(BASE, BODY), { resolver, ip: '192.0.2.9', mailFrom: 'bounce@example.com' });
+    expect(result.spf.result).toBe('pass');
+    expect(result.dmarc).toMatchObject({ result: 'pass', alignment: { dkim: false, spf: true } });
+    expect(result.fromAligned).toBe(true);
+  });
+
+  it('fails a forged From even when another domain signed the message', async () => {
+    const forged: Header[] = [['From', '"ada@example.com" <ceo@example.com>'], ...BASE.slice(1)];
+    const evil = generateKeyPairSync('ed25519');
+    const signer: Signer = { domain: 'evil.example', selector: 'x', key: evil.privateKey, algorithm: 'ed25519-sha256' };
+    const r = createStaticDnsResolver({ ...zone, 'x._domainkey.evil.example': { TXT: [edTxt(evil.publicKey)] } });
+    const result = await verifyEmailAuthentication(render([messageSignature(forged, BODY, signer), ...forged], BODY), { resolver: r });
+    expect(result.dkim[0]).toMatchObject({ result: 'pass', aligned: false });
+    expect(result.dmarc).toMatchObject({ result: 'fail', domain: 'example.com', policy: 'reject' });
+    expect(result.fromAligned).toBe(false);
+  });
+
+  it('reads only the address, not a quoted display name', async () => {
+    const spoof: Header[] = [['From', '"ceo@example.com" <x@elsewhere.example>'], ...BASE.slice(1)];
+    const result = await verifyEmailAuthentication(render(spoof, BODY), { resolver });
+    expect(result.fromDomain).toBe('elsewhere.example');
+    expect(result.dmarc.result).toBe('none');
+  });
+
+  it('falls back to the organisational record and its sp= policy', async () => {
+    const sub: Header[] = [['From', 'bot@alerts.example.com'], ...BASE.slice(1)];
+    const result = await verifyEmailAuthentication(render(sub, BODY), { resolver });
+    expect(result.dmarc).toMatchObject({ result: 'fail', domain: 'alerts.example.com', policy: 'quarantine' });
+  });
+
+  it('honours strict DKIM alignment', async () => {
+    const r = createStaticDnsResolver({ ...zone, '_dmarc.example.com': { TXT: ['v=DMARC1; p=reject; adkim=s'] } });
+    const result = await verifyEmailAuthentication(render([messageSignature(BASE, BODY, edSigner), ...BASE], BODY), { resolver: r });
+    expect(result.dmarc.result).toBe('fail');
+    expect(result.fromAligned).toBe(true);
+  });
+
+  it('refuses a message with several From domains', async () => {
+    const multi: Header[] = [['From', 'a@example.com, b@other.example'], ...BASE.slice(1)];
+    expect((await verifyEmailAuthentication(render(multi, BODY), { resolver })).dmarc).toMatchObject({ result: 'permerror', reason: 'multiple From domains' });
+  });
+
+  it('approximates organisational domains', () => {
+    expect(organizationalDomain('a.b.example.com')).toBe('example.com');
+    expect(organizationalDomain('mail.shop.co.uk')).toBe('shop.co.uk');
+    expect(organizationalDomain('example.com')).toBe('example.com');
+  });
+});
+
+// ─── ARC ─────────────────────────────────────────────────────────────
+
+describe('ARC', () => {
+  const forwarder: Signer = { domain: 'forwarder.example', selector: 'seal', key: rsa.privateKey, algorithm: 'rsa-sha256' };
+  const list: Signer = { domain: 'list.example', selector: 'seal2', key: ed.privateKey, algorithm: 'ed25519-sha256' };
+
+  it('is none without ARC headers', async () => {
+    expect((await verifyEmailAuthentication(render(BASE, BODY), { resolver })).arc).toEqual({ result: 'none', instances: 0, sealers: [] });
+  });
+
+  it('validates a one- and a two-hop chain', async () => {
+    const one = arcSeal(BASE, BODY, forwarder, 'none');
+    expect((await verifyEmailAuthentication(render(one, BODY), { resolver })).arc)
+      .toEqual({ result: 'pass', instances: 1, sealers: ['forwarder.example'] });
+    const two = arcSeal(one, BODY, list, 'pass');
+    expect((await verifyEmailAuthentication(render(two, BODY), { resolver })).arc)
+      .toEqual({ result: 'pass', instances: 2, sealers: ['forwarder.example', 'list.example'] });
+  });
+
+  it('fails a chain whose sealed results were edited', async () => {
+    const two = render(arcSeal(arcSeal(BASE, BODY, forwarder, 'none'), BODY, list, 'pass'), BODY);
+    const edited = await verifyEmailAuthentication(two.replace('i=1; forwarder.example; dkim=pass', 'i=1; forwarder.example; dkim=fail'), { resolver });
+    expect(edited.arc).toMatchObject({ result: 'fail', reason: 'ARC-Seal 2 did not verify' });
+  });
+
+  it('fails on a wrong cv= or a missing set', async () => {
+    const badCv = arcSeal(BASE, BODY, forwarder, 'pass');
+    expect((await verifyEmailAuthentication(render(badCv, BODY), { resolver })).arc).toMatchObject({ result: 'fail', reason: 'ARC set 1 has cv=pass' });
+    const partial = arcSeal(BASE, BODY, forwarder, 'none').filter(([n]) => n !== 'ARC-Authentication-Results');
+    expect((await verifyEmailAuthentication(render(partial, BODY), { resolver })).arc).toMatchObject({ result: 'fail', reason: 'ARC set 1 is incomplete' });
+  });
+
+  it('fails when the message changed after the last hop', async () => {
+    const sealed = render(arcSeal(BASE, BODY, forwarder, 'none'), BODY);
+    const result = await verifyEmailAuthentication(sealed.replace('Numbers attached.', 'Numbers changed.'), { resolver });
+    expect(result.arc).toMatchObject({ result: 'fail', reason: 'ARC-Message-Signature 1: body hash mismatch' });
+  });
+});
+
+// ─── Authentication-Results ──────────────────────────────────────────
+
+describe('formatAuthenticationResults', () => {
+  it('renders every mechanism', async () => {
+    const result = await verifyEmailAuthentication(await nodemailerSigned(), { resolver, ip: '203.0.113.99', mailFrom: 'ada@example.com' });
+    expect(formatAuthenticationResults(result)).toBe(
+      'agenticmail; spf=fail smtp.mailfrom=example.com; dkim=pass header.d=example.com header.s=rsa; '
+      + 'dmarc=pass header.from=example.com; arc=none',
+    );
+    expect(formatAuthenticationResults(await verifyEmailAuthentication(render(BASE, BODY), { resolver }), 'mx.test'))
+      .toBe('mx.test; spf=none; dkim=none; dmarc=fail header.from=example.com; arc=none');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import nodemailer from 'nodemailer';
+import { DkimKeyManager, generateDkimKeyPair } from '../gateway/dkim-keys.js';
+import { createStaticDnsResolver, verifyEmailAuthentication } from '../mail/email-auth.js';
+import { decryptSecret } from '../crypto/secrets.js';
+import { createTestDatabase } from '../storage/db.js';
+
+const MASTER_KEY = 'mk_test';
+
+describe('generateDkimKeyPair', () => {
+  it('produces an RSA key whose DNS record verifies a real signature', async () => {
+    const pair = generateDkimKeyPair('rsa-sha256');
+    expect(pair.privateKey).toContain('BEGIN RSA PRIVATE KEY');
+
+    const transport = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+    const info = await transport.sendMail({
+      from: 'ops@example.com',
+      to: 'someone@example.net',
+      subject: 'Signed',
+      text: 'Hello.',
+      dkim: { domainName: 'example.com', keySelector: 'am1r', privateKey: pair.privateKey },
+    });
+    const resolver = createStaticDnsResolver({
+      'am1r._domainkey.example.com': { TXT: [`v=DKIM1; k=rsa; p=${pair.publicKey}`] },
+    });
+    const result = await verifyEmailAuthentication(info.message as Buffer, { resolver });
+    expect(result.dkim[0]).toMatchObject({ result: 'pass', selector: 'am1r' });
+  });
+
+  it('publishes the raw 32-byte Ed25519 key', () => {
+    const pair = generateDkimKeyPair('ed25519-sha256');
+    expect(Buffer.from(pair.publicKey, 'base64')).toHaveLength(32);
+    expect(pair.privateKey).toContain('BEGIN PRIVATE KEY');
+  });
+});
+
+describe('DkimKeyManager', () => {
+  let db: ReturnType<typeof createTestDatabase>;
+  let clock: Date;
+  let published: Set<string>;
+  let mockDns: any;
+  let mockStalwart: any;
+  let mockCf: any;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    clock = new Date('2026-03-01T12:00:00Z');
+    published = new Set();
+    mockCf = { getZone: vi.fn().mockResolvedValue({ id: 'zone-1' }) };
+    mockDns = {
+      publishDkimKey: vi.fn().mockResolvedValue({ recordId: 'rec-1' }),
+      removeDkimKey: vi.fn().mockResolvedValue(1),
+      verify: vi.fn(async (_domain: string, opts: any) => ({
+        mx: true, spf: true, dmarc: true,
+        dkim: Object.fromEntries(opts.dkim.map((k: any) => [k.selector, published.has(k.selector)])),
+      })),
+    };
+    mockStalwart = {
+      installDkimSignature: vi.fn().mockResolvedValue(undefined),
+      setDkimSigners: vi.fn().mockResolvedValue(undefined),
+      removeDkimSignature: vi.fn().mockResolvedValue(undefined),
+      hasDkimSignature: vi.fn().mockResolvedValue(true),
+    };
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function createManager(encryptionKey: string | null = MASTER_KEY) {
+    return new DkimKeyManager({
+      db, cf: mockCf, dns: mockDns, stalwart: mockStalwart, encryptionKey,
+      now: () => clock,
+      sleep: async (ms) => {
+        clock = new Date(clock.getTime() + ms);
+        for (const [, , selector] of mockDns.publishDkimKey.mock.calls) published.add(selector);
+      },
+    });
+  }
+
+  it('publishes, waits for DNS, then signs with both keys and retires the setup key', async () => {
+    const result = await createManager().rotate('example.com', { propagationTimeoutMs: 60_000, pollIntervalMs: 10_000 });
+
+    expect(result.status).toBe('active');
+    expect(result.keys.map(k => [k.selector, k.algorithm, k.status])).toEqual([
+      ['am20260301e', 'ed25519-sha256', 'active'],
+      ['am20260301r', 'rsa-sha256', 'active'],
+    ]);
+    expect(mockDns.publishDkimKey.mock.calls.map((c: any[]) => c[4]).sort()).toEqual(['ed25519', 'rsa']);
+    expect(mockDns.verify).toHaveBeenCalledTimes(2);
+    expect(mockStalwart.setDkimSigners).toHaveBeenCalledWith([
+      'agenticmail-example-com-am20260301e',
+      'agenticmail-example-com-am20260301r',
+    ]);
+
+    // Stalwart gets the decrypted PEM; the DB only holds ciphertext.
+    const installed = mockStalwart.installDkimSignature.mock.calls.map((c: any[]) => c[0].privateKey);
+    const stored = db.prepare("SELECT private_key FROM dkim_keys WHERE status = 'active' ORDER BY selector").all() as any[];
+    expect(stored.every(r => r.private_key.startsWith('enc2:'))).toBe(true);
+    expect(stored.map(r => decryptSecret(r.private_key, MASTER_KEY))).toEqual(installed);
+
+    expect(result.retiring).toEqual([
+      expect.objectContaining({ selector: 'agenticmail', status: 'retiring', retireAfter: '2026-03-08T12:00:10.000Z' }),
+    ]);
+  });
+
+  it('stops at awaiting_dns and resumes the same keys on the next rotation', async () => {
+    const manager = createManager();
+    const first = await manager.rotate('example.com', { propagationTimeoutMs: 0 });
+    expect(first.status).toBe('awaiting_dns');
+    expect(first.keys.every(k => k.status === 'published')).toBe(true);
+    expect(mockStalwart.setDkimSigners).not.toHaveBeenCalled();
+    expect(manager.status('example.com').pending).toHaveLength(2);
+
+    published = new Set(first.keys.map(k => k.selector));
+    const second = await manager.rotate('example.com', { propagationTimeoutMs: 0 });
+    expect(second.status).toBe('active');
+    expect(second.keys.map(k => k.id)).toEqual(first.keys.map(k => k.id));
+    expect(mockDns.publishDkimKey).toHaveBeenCalledTimes(2);
+  });
+
+  it('retires replaced keys only after the grace period', async () => {
+    const manager = createManager();
+    published = new Set(['am20260301r', 'am20260301e', 'am20260301r2', 'am20260301e2']);
+    await manager.rotate('example.com', { propagationTimeoutMs: 0 });
+    const second = await manager.rotate('example.com', { propagationTimeoutMs: 0, gracePeriodDays: 2 });
+    expect(second.keys.map(k => k.selector)).toEqual(['am20260301e2', 'am20260301r2']);
+    expect(second.retiring.map(k => k.selector)).toEqual(['am20260301e', 'am20260301r']);
+
+    expect(await manager.retireExpired('example.com')).toEqual([]);
+    clock = new Date('2026-03-03T12:00:01Z');
+    const retired = await manager.retireExpired('example.com');
+    expect(retired.map(k => k.selector)).toEqual(['am20260301e', 'am20260301r']);
+    expect(mockDns.removeDkimKey).toHaveBeenCalledWith('example.com', 'zone-1', 'am20260301r');
+    expect(mockStalwart.removeDkimSignature).toHaveBeenCalledWith('agenticmail-example-com-am20260301r');
+    // The setup key was replaced by the first rotation, on the default 7-day grace.
+    expect(manager.list('example.com').find(k => k.selector === 'agenticmail')?.status).toBe('retiring');
+
+    const wiped = db.prepare("SELECT COUNT(*) AS n FROM dkim_keys WHERE status = 'retired' AND private_key IS NOT NULL").get() as any;
+    expect(wiped.n).toBe(0);
+    expect(manager.status('example.com')).toMatchObject({ active: ['am20260301e2', 'am20260301r2'], pending: [] });
+  });
+
+  it('keeps a key retiring and records the error when removal fails', async () => {
+    const manager = createManager();
+    published = new Set(['am20260301r', 'am20260301e']);
+    await manager.rotate('example.com', { propagationTimeoutMs: 0 });
+    mockDns.removeDkimKey.mockRejectedValueOnce(new Error('Cloudflare API error'));
+
+    expect(await manager.retireExpired('example.com', { force: true })).toEqual([]);
+    expect(manager.list('example.com').find(k => k.selector === 'agenticmail')).toMatchObject({
+      status: 'retiring',
+      error: 'Cloudflare API error',
+    });
+  });
+
+  it('refuses to rotate without a master key', async () => {
+    await expect(createManager(null).rotate('example.com')).rejects.toThrow(/master key/);
+    expect(mockDns.publishDkimKey).not.toHaveBeenCalled();
+  });
+});
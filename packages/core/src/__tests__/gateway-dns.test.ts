@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { DNSConfigurator } from '../gateway/dns-setup.js';
+import { createStaticDnsResolver } from '../mail/email-auth.js';
 
 describe('DNSConfigurator', () => {
   let mockCf: any;
@@ -87,4 +88,37 @@ describe('DNSConfigurator', () => {
       expect(mailCall[1].content).toBe('tunnel-abc.cfargotunnel.com');
     });
   });
+
+  describe('DKIM keys', () => {
+    it('publishes an Ed25519 selector and replaces a stale record', async () => {
+      mockCf.deleteDnsRecord = vi.fn().mockResolvedValue(undefined);
+      mockCf.listDnsRecords.mockResolvedValue([
+        { id: 'old', type: 'TXT', name: 'am1e._domainkey.example.com', content: '"v=DKIM1; k=ed25519; p=OLD"' },
+      ]);
+      const result = await dns.publishDkimKey('example.com', 'zone-1', 'am1e', 'NEW', 'ed25519');
+
+      expect(mockCf.deleteDnsRecord).toHaveBeenCalledWith('zone-1', 'old');
+      expect(mockCf.createDnsRecord.mock.calls[0][1]).toMatchObject({
+        name: 'am1e._domainkey.example.com',
+        content: 'v=DKIM1; k=ed25519; p=NEW',
+      });
+      expect(result.recordId).toBe('rec-1');
+      expect(result.removed).toHaveLength(1);
+    });
+
+    it('verifies each selector against its expected public key', async () => {
+      const resolver = createStaticDnsResolver({
+        'am1r._domainkey.example.com': { TXT: ['v=DKIM1; k=rsa; p=AAAA BBBB'] },
+        'am1e._domainkey.example.com': { TXT: ['v=DKIM1; k=ed25519; p=OLD'] },
+      });
+      const result = await new DNSConfigurator(mockCf, resolver).verify('example.com', {
+        dkim: [
+          { selector: 'am1r', publicKey: 'AAAABBBB' },
+          { selector: 'am1e', publicKey: 'NEW' },
+          { selector: 'missing' },
+        ],
+      });
+      expect(result.dkim).toEqual({ am1r: true, am1e: false, missing: false });
+    });
+  });
 });
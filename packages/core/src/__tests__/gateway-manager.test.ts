@@ -1,5 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { GatewayManager } from '../gateway/manager.js';
+import { OutboundQuotaError } from '../mail/outbound-quota.js';
 import { createTestDatabase } from '../storage/db.js';
 
 describe('GatewayManager', () => {
@@ -149,6 +153,39 @@ describe('GatewayManager', () => {
       });
       expect(result).toBeNull();
     });
+
+    it('enforces outbound quotas on external mail and gives back failed sends', async () => {
+      db.prepare(`
+        INSERT INTO gateway_config (id, mode, config) VALUES ('default', 'relay', ?)
+      `).run(JSON.stringify({
+        relay: {
+          provider: 'gmail', email: 'user@gmail.com', password: 'pass',
+          smtpHost: 'smtp.gmail.com', smtpPort: 587,
+          imapHost: 'imap.gmail.com', imapPort: 993,
+        },
+      }));
+      const dataDir = mkdtempSync(join(tmpdir(), 'am-quota-'));
+      writeFileSync(join(dataDir, 'outbound-policy.json'), JSON.stringify({ version: 1, quotas: { agent: { perHour: 1 } } }));
+      const onQuotaExceeded = vi.fn();
+      try {
+        const mgr = new GatewayManager({ db, stalwart: mockStalwart, dataDir, onQuotaExceeded });
+        const send = vi.spyOn(mgr.getRelay(), 'sendViaRelay')
+          .mockRejectedValueOnce(new Error('SMTP down'))
+          .mockResolvedValue({ messageId: '<m1@x>', envelope: { from: '', to: [] } } as any);
+
+        await expect(mgr.routeOutbound('bot1', { to: 'a@example.com', subject: 'x' })).rejects.toThrow('SMTP down');
+        await mgr.routeOutbound('bot1', { to: 'a@example.com', cc: 'bot2@localhost', subject: 'x' });
+        await expect(mgr.routeOutbound('bot1', { to: 'b@example.com', subject: 'x' })).rejects.toBeInstanceOf(OutboundQuotaError);
+        // Local mail never counts against the quota.
+        expect(await mgr.routeOutbound('bot1', { to: 'bot2@localhost', subject: 'x' })).toBeNull();
+
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(onQuotaExceeded).toHaveBeenCalledWith(expect.objectContaining({ agentName: 'bot1', limit: 'perHour', max: 1 }));
+        expect(mgr.getOutboundQuotaUsage('bot1')?.agent.used).toMatchObject({ perHour: 1, uniqueRecipientsPerDay: 1 });
+      } finally {
+        rmSync(dataDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('getStatus', () => {
@@ -192,6 +229,25 @@ describe('GatewayManager', () => {
       // Not healthy because tunnel isn't running
       expect(status.healthy).toBe(false);
     });
+
+    it('includes DKIM key history in domain mode', async () => {
+      db.prepare(`
+        INSERT INTO gateway_config (id, mode, config) VALUES ('default', 'domain', ?)
+      `).run(JSON.stringify({
+        domain: { domain: 'mybot.com', cloudflareApiToken: 'tok', cloudflareAccountId: 'acc' },
+      }));
+      db.prepare(`
+        INSERT INTO dkim_keys (id, domain, selector, algorithm, signature_id, status, created_at, activated_at)
+        VALUES ('k1', 'mybot.com', 'am20260301r', 'rsa-sha256', 'sig', 'active', '2026-03-01T00:00:00.000Z', '2026-03-01T00:05:00.000Z')
+      `).run();
+
+      const mgr = createManager();
+      await mgr.resume();
+      const dkim = mgr.getStatus().domain?.dkim;
+      await mgr.shutdown();
+      expect(dkim).toMatchObject({ active: ['am20260301r'], pending: [], lastRotatedAt: '2026-03-01T00:05:00.000Z' });
+      expect(dkim?.history[0]).not.toHaveProperty('privateKey');
+    });
   });
 
   describe('shutdown', () => {
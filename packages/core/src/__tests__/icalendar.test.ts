@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import MailComposer from 'nodemailer/lib/mail-composer/index.js';
+import { formatICalendar, parseICalendar } from '../mail/icalendar.js';
+import { parseEmail } from '../mail/parser.js';
+
+// An Outlook-style request: Windows zone name defined by its own
+// VTIMEZONE, folded lines, quoted parameters and escaped text.
+const OUTLOOK_INVITE = [
+  'BEGIN:VCALENDAR',
+  'METHOD:REQUEST',
+  'PRODID:Microsoft Exchange Server 2010',
+  'VERSION:2.0',
+  'BEGIN:VTIMEZONE',
+  'TZID:W. Europe Standard Time',
+  'BEGIN:STANDARD',
+  'DTSTART:16010101T030000',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=10',
+  'END:STANDARD',
+  'BEGIN:DAYLIGHT',
+  'DTSTART:16010101T020000',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=3',
+  'END:DAYLIGHT',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'ORGANIZER;CN="Lee, Ada":mailto:Ada@Example.org',
+  'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN=ops:mailto:o',
+  ' ps@agents.example.com',
+  'ATTENDEE;ROLE=OPT-PARTICIPANT;PARTSTAT=ACCEPTED:mailto:bob@example.org',
+  'DESCRIPTION:Agenda:\\n1. numbers\\, plans\\; next steps',
+  'RRULE:FREQ=WEEKLY;COUNT=4;BYDAY=TU',
+  'EXDATE;TZID=W. Europe Standard Time:20261110T150000',
+  'SUMMARY;LANGUAGE=en-US:Quarterly sync',
+  'DTSTART;TZID=W. Europe Standard Time:20261103T150000',
+  'DTEND;TZID=W. Europe Standard Time:20261103T160000',
+  'UID:040000008200E00074C5B7101A82E008',
+  'SEQUENCE:2',
+  'LOCATION:Room 4',
+  'STATUS:CONFIRMED',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('parseICalendar', () => {
+  it('reads an invite with a custom VTIMEZONE', () => {
+    const invite = parseICalendar(OUTLOOK_INVITE)!;
+    expect(invite.method).toBe('REQUEST');
+    expect(invite.events).toHaveLength(1);
+    const event = invite.events[0];
+    expect(event).toMatchObject({
+      uid: '040000008200E00074C5B7101A82E008',
+      sequence: 2,
+      summary: 'Quarterly sync',
+      description: 'Agenda:\n1. numbers, plans; next steps',
+      location: 'Room 4',
+      status: 'CONFIRMED',
+      organizer: { address: 'ada@example.org', name: 'Lee, Ada' },
+      recurrence: ['FREQ=WEEKLY;COUNT=4;BYDAY=TU'],
+    });
+    expect(event.attendees).toEqual([
+      { address: 'ops@agents.example.com', name: 'ops', role: 'REQ-PARTICIPANT', partstat: 'NEEDS-ACTION', rsvp: true },
+      { address: 'bob@example.org', role: 'OPT-PARTICIPANT', partstat: 'ACCEPTED' },
+    ]);
+    // November is standard time in Berlin (+01:00).
+    expect(event.start).toEqual({ date: new Date('2026-11-03T14:00:00Z'), tzid: 'W. Europe Standard Time' });
+    expect(event.end?.date.toISOString()).toBe('2026-11-03T15:00:00.000Z');
+    expect(event.exdates?.[0].date.toISOString()).toBe('2026-11-10T14:00:00.000Z');
+  });
+
+  it('resolves IANA zones, all-day dates and durations', () => {
+    const invite = parseICalendar([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:a@example.org',
+      'DTSTART;TZID=America/New_York:20260710T090000',
+      'DURATION:PT1H30M',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:b@example.org',
+      'DTSTART;VALUE=DATE:20261224',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\n'))!;
+    expect(invite.method).toBeUndefined();
+    expect(invite.events[0].start?.date.toISOString()).toBe('2026-07-10T13:00:00.000Z');
+    expect(invite.events[0].end?.date.toISOString()).toBe('2026-07-10T14:30:00.000Z');
+    expect(invite.events[1]).toMatchObject({ uid: 'b@example.org', sequence: 0, start: { allDay: true } });
+    expect(parseICalendar('not a calendar')).toBeNull();
+  });
+});
+
+describe('formatICalendar', () => {
+  it('writes folded CRLF lines that parse back to the same event', () => {
+    const text = formatICalendar({
+      method: 'REQUEST',
+      events: [{
+        uid: 'u-1@agenticmail',
+        sequence: 1,
+        summary: 'Planning; Q1, Q2 — ' + 'long '.repeat(20).trim(),
+        organizer: { address: 'ops@agents.example.com', name: 'ops' },
+        attendees: [{ address: 'ada@example.org', name: 'Lee, Ada', partstat: 'NEEDS-ACTION', rsvp: true }],
+        start: new Date('2026-03-30T13:00:00Z'),
+        end: new Date('2026-03-30T13:30:00Z'),
+        timezone: 'Europe/Berlin',
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO',
+      }],
+    });
+    const lines = text.split('\r\n');
+    expect(text.endsWith('\r\n')).toBe(true);
+    expect(text.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(lines.every(l => Buffer.byteLength(l) <= 75)).toBe(true);
+    expect(text).toContain('DTSTART;TZID=Europe/Berlin:20260330T150000');
+    expect(text).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+
+    const event = parseICalendar(text)!.events[0];
+    expect(event).toMatchObject({
+      uid: 'u-1@agenticmail',
+      sequence: 1,
+      summary: 'Planning; Q1, Q2 — ' + 'long '.repeat(20).trim(),
+      attendees: [{ address: 'ada@example.org', name: 'Lee, Ada', partstat: 'NEEDS-ACTION', rsvp: true }],
+      recurrence: ['FREQ=WEEKLY;BYDAY=MO'],
+    });
+    expect(event.start?.date.toISOString()).toBe('2026-03-30T13:00:00.000Z');
+    expect(event.end?.date.toISOString()).toBe('2026-03-30T13:30:00.000Z');
+  });
+});
+
+describe('parseEmail calendar', () => {
+  it('extracts the invite from a text/calendar alternative', async () => {
+    const raw = await new MailComposer({
+      from: 'ada@example.org',
+      to: 'ops@agents.example.com',
+      subject: 'Invitation: Quarterly sync',
+      text: 'Quarterly sync',
+      icalEvent: { method: 'REQUEST', content: OUTLOOK_INVITE.replace('METHOD:REQUEST\r\n', '') },
+    }).compile().build();
+    const parsed = await parseEmail(raw);
+    // METHOD comes from the part's method= parameter when the object has none.
+    expect(parsed.calendar?.method).toBe('REQUEST');
+    expect(parsed.calendar?.events[0].summary).toBe('Quarterly sync');
+
+    const plain = await parseEmail(Buffer.from('From: a@example.org\r\nTo: b@example.org\r\nSubject: hi\r\n\r\nhello'));
+    expect(plain.calendar).toBeUndefined();
+  });
+});
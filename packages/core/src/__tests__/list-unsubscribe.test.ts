@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  UnsubscribeList,
+  createUnsubscribeToken,
+  isValidListName,
+  listUnsubscribeHeaders,
+  verifyUnsubscribeToken,
+} from '../mail/list-unsubscribe.js';
+import { createTestDatabase } from '../storage/db.js';
+
+const SECRET = 'mk_test_secret';
+
+describe('unsubscribe tokens', () => {
+  it('round-trips the target and normalises the address', () => {
+    const token = createUnsubscribeToken(SECRET, { agentId: 'a-1', list: 'news', recipient: 'Dana <Dana@Example.org>' });
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(verifyUnsubscribeToken(SECRET, token)).toEqual({ agentId: 'a-1', list: 'news', recipient: 'dana@example.org' });
+  });
+
+  it('rejects tokens that were altered or signed with another secret', () => {
+    const token = createUnsubscribeToken(SECRET, { agentId: 'a-1', list: 'news', recipient: 'dana@example.org' });
+    const [, mac] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify(['a-2', 'news', 'dana@example.org'])).toString('base64url')}.${mac}`;
+
+    expect(verifyUnsubscribeToken(SECRET, forged)).toBeNull();
+    expect(verifyUnsubscribeToken('mk_other', token)).toBeNull();
+    expect(verifyUnsubscribeToken(SECRET, `${token}.x`)).toBeNull();
+    expect(verifyUnsubscribeToken(SECRET, 'garbage')).toBeNull();
+  });
+
+  it('builds the RFC 8058 headers', () => {
+    expect(listUnsubscribeHeaders('https://mail.example.com/api/agenticmail/unsubscribe/t')).toEqual({
+      'List-Unsubscribe': '<https://mail.example.com/api/agenticmail/unsubscribe/t>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+
+  it('accepts short list names only', () => {
+    expect(isValidListName('product-updates.2026')).toBe(true);
+    expect(isValidListName('')).toBe(false);
+    expect(isValidListName('has space')).toBe(false);
+    expect(isValidListName('x'.repeat(65))).toBe(false);
+  });
+});
+
+describe('UnsubscribeList', () => {
+  let db: ReturnType<typeof createTestDatabase>;
+  let clock: Date;
+  let list: UnsubscribeList;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    clock = new Date('2026-03-01T12:00:00Z');
+    list = new UnsubscribeList(db, () => clock);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('records an opt-out once, scoped to the agent and list', () => {
+    const first = list.record({ agentId: 'a-1', list: 'news', recipient: 'Dana@example.org' }, 'one-click');
+    clock = new Date('2026-03-02T12:00:00Z');
+    expect(list.record({ agentId: 'a-1', list: 'news', recipient: 'dana@example.org' }, 'page')).toEqual(first);
+    expect(first).toEqual({ agentId: 'a-1', list: 'news', address: 'dana@example.org', source: 'one-click', createdAt: '2026-03-01T12:00:00.000Z' });
+
+    expect(list.find('a-1', 'news', ['Dana <DANA@example.org>', 'lee@example.org'])).toHaveLength(1);
+    expect(list.find('a-1', 'offers', ['dana@example.org'])).toEqual([]);
+    expect(list.find('a-2', 'news', ['dana@example.org'])).toEqual([]);
+  });
+
+  it('lists an agent\'s opt-outs, newest first', () => {
+    list.record({ agentId: 'a-1', list: 'news', recipient: 'dana@example.org' }, 'one-click');
+    clock = new Date('2026-03-02T12:00:00Z');
+    list.record({ agentId: 'a-1', list: 'offers', recipient: 'lee@example.org' }, 'page');
+    list.record({ agentId: 'a-2', list: 'news', recipient: 'kim@example.org' }, 'page');
+
+    expect(list.list('a-1').map(r => [r.list, r.address])).toEqual([['offers', 'lee@example.org'], ['news', 'dana@example.org']]);
+    expect(list.list('a-1', 'news').map(r => r.address)).toEqual(['dana@example.org']);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestDatabase } from '../storage/db.js';
+import { AgentMemoryManager, MemoryConsolidationError } from '../memory/index.js';
+import { AccountManager } from '../accounts/manager.js';
+
+// Each store lands a minute after the previous one, so "newer" is well defined.
+let clock = Date.parse('2026-10-01T09:00:00Z');
+beforeEach(() => { vi.useFakeTimers({ toFake: ['Date'] }); });
+afterEach(() => { vi.useRealTimers(); });
+
+function store(manager: AgentMemoryManager, content: string, opts: { category?: string; tags?: string[] } = {}) {
+  clock += 60_000;
+  vi.setSystemTime(clock);
+  return manager.storeMemory('agent1', { content, ...opts });
+}
+
+describe('AgentMemoryManager.consolidate', () => {
+  it('merges near-duplicates into the newest entry and can undo it', async () => {
+    const db = createTestDatabase();
+    const manager = new AgentMemoryManager(db);
+    const a = await store(manager, 'Acme invoices are due on the 15th of each month.', { tags: ['acme'] });
+    const b = await store(manager, 'Acme invoices are due on the 15th of every month.', { tags: ['billing'] });
+    const c = await store(manager, 'acme invoices due the 15th each month', { tags: ['acme'] });
+    const other = await store(manager, 'Globex prefers phone calls.');
+    await manager.recordAccess(a.id);
+    await manager.recordAccess(b.id);
+    await manager.recordAccess(b.id);
+
+    const dry = await manager.consolidate('agent1', { dryRun: true });
+    expect(dry).toMatchObject({ runId: null, dryRun: true, merges: [{ keptId: c.id, changeId: null }] });
+    expect(await manager.getStats('agent1')).toMatchObject({ totalEntries: 4 });
+
+    const report = await manager.consolidate('agent1');
+    expect(report.merges).toHaveLength(1);
+    expect(report.merges[0]).toMatchObject({ agentId: 'agent1', keptId: c.id });
+    expect(report.merges[0].mergedIds.sort()).toEqual([a.id, b.id].sort());
+
+    const kept = (await manager.getMemory(c.id))!;
+    expect(kept.accessCount).toBe(3);
+    expect(kept.tags.sort()).toEqual(['acme', 'billing']);
+    expect(kept.metadata.mergedFrom).toHaveLength(2);
+    expect(await manager.getMemory(a.id)).toBeUndefined();
+    expect((await manager.queryMemories({ agentId: 'agent1' })).map((m) => m.id).sort()).toEqual([c.id, other.id].sort());
+    // Nothing left to do on a second pass.
+    expect((await manager.consolidate('agent1')).merges).toEqual([]);
+
+    const [change] = await manager.listConsolidationChanges('agent1');
+    expect(change).toMatchObject({ id: report.merges[0].changeId, kind: 'merge', runId: report.runId });
+    expect(change.versions).toHaveLength(3);
+
+    const restored = await manager.undoConsolidationChange(change.id, 'agent1');
+    expect(restored).toHaveLength(3);
+    expect((await manager.getMemory(a.id))?.content).toBe(a.content);
+    expect((await manager.getMemory(c.id))?.accessCount).toBe(0);
+    // From a cold manager too.
+    expect(await new AgentMemoryManager(db).getStats('agent1')).toMatchObject({ totalEntries: 4 });
+    await expect(manager.undoConsolidationChange(change.id)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(manager.undoConsolidationChange(change.id, 'agent2')).rejects.toBeInstanceOf(MemoryConsolidationError);
+  });
+
+  it('demotes entries a correction or a negation supersedes', async () => {
+    const manager = new AgentMemoryManager(createTestDatabase());
+    const wrong = await store(manager, 'The Acme billing contact is Bob Smith.', { category: 'knowledge' });
+    const paper = await store(manager, 'Acme wants paper invoices by post.', { category: 'preference' });
+    const unrelated = await store(manager, 'Globex billing runs quarterly.', { category: 'knowledge' });
+    const fix = await store(manager, 'Correction: the Acme billing contact is Alice Jones, not Bob Smith.', { category: 'correction' });
+    const noPaper = await store(manager, 'Acme does not want paper invoices by post.', { category: 'preference' });
+
+    const before = await manager.recall('agent1', 'Acme billing contact', 5, 'lexical');
+    expect(before[0].id).toBe(wrong.id);
+
+    const report = await manager.consolidate();
+    expect(report.merges).toEqual([]);
+    expect(report.supersessions.map((s) => [s.supersededId, s.supersededBy, s.reason])).toEqual([
+      [wrong.id, fix.id, 'correction'],
+      [paper.id, noPaper.id, 'negation'],
+    ]);
+    expect((await manager.getMemory(wrong.id))?.supersededBy).toBe(fix.id);
+    expect((await manager.getMemory(unrelated.id))?.supersededBy).toBeUndefined();
+
+    const after = await manager.recall('agent1', 'Acme billing contact', 5, 'lexical');
+    expect(after[0].id).toBe(fix.id);
+    expect(after.map((m) => m.id)).toContain(wrong.id);
+    const ctx = await manager.generateMemoryContext('agent1');
+    expect(ctx).toContain('Alice Jones');
+    expect(ctx).not.toContain('The Acme billing contact is Bob Smith');
+    expect(ctx).not.toContain('Acme wants paper invoices');
+
+    // Deleting the correction releases the entry it superseded.
+    await manager.deleteMemory(fix.id);
+    expect((await manager.getMemory(wrong.id))?.supersededBy).toBeUndefined();
+  });
+
+  it('refuses to undo a change a later change builds on', async () => {
+    const manager = new AgentMemoryManager(createTestDatabase());
+    const old = await store(manager, 'The office wifi password is hunter2.', { category: 'knowledge' });
+    const fix = await store(manager, 'Correction: the office wifi password is now swordfish.', { category: 'correction' });
+    const first = await manager.consolidate();
+    await store(manager, 'Correction: the office wifi password is now swordfish!', { category: 'correction' });
+    const second = await manager.consolidate();
+    // The duplicate correction absorbed `fix`, so `old` now points at the newer one.
+    expect(second.merges).toHaveLength(1);
+    expect((await manager.getMemory(old.id))?.supersededBy).toBe(second.merges[0].keptId);
+
+    await expect(manager.undoConsolidationChange(first.supersessions[0].changeId!))
+      .rejects.toThrow(`Undo the later consolidation change ${second.merges[0].changeId} first`);
+    await manager.undoConsolidationChange(second.merges[0].changeId!);
+    expect((await manager.getMemory(old.id))?.supersededBy).toBe(fix.id);
+    await manager.undoConsolidationChange(first.supersessions[0].changeId!);
+    expect((await manager.getMemory(old.id))?.supersededBy).toBeUndefined();
+  });
+
+  it('leaves no consolidation history behind when the account is deleted', async () => {
+    const db = createTestDatabase();
+    db.prepare('INSERT INTO agents (id, name, email, api_key, stalwart_principal, metadata) VALUES (?, ?, ?, ?, ?, ?)')
+      .run('agent1', 'ops', 'ops@localhost', 'ak_ops', 'ops', '{}');
+    const manager = new AgentMemoryManager(db);
+    await store(manager, 'Acme vault code is 4471 and rotates on the 15th of each month.');
+    await store(manager, 'Acme vault code is 4471 and rotates on the 15th of every month.');
+    expect((await manager.consolidate('agent1')).merges).toHaveLength(1);
+    const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+    expect(count('agent_memory_versions')).toBeGreaterThan(0);
+
+    const accounts = new AccountManager(db, { deletePrincipal: async () => {} } as any);
+    expect(await accounts.delete('agent1')).toBe(true);
+    expect(count('agent_memory')).toBe(0);
+    expect(count('agent_memory_changes')).toBe(0);
+    expect(count('agent_memory_versions')).toBe(0);
+  });
+});
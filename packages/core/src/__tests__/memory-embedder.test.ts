@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { HashedNgramEmbedder, HttpEmbedder, cosineSimilarity, createEmbedder } from '../memory/embedder.js';
+
+describe('HashedNgramEmbedder', () => {
+  it('places word forms and synonyms near each other', async () => {
+    const e = new HashedNgramEmbedder();
+    const [refund, moneyBack, reimbursed, newsletter] = await e.embed([
+      'customer wants a refund',
+      'Acme asked for their money back',
+      'the client was reimbursed',
+      'the newsletter goes out on Fridays',
+    ]);
+    expect(refund).toHaveLength(512);
+    expect(cosineSimilarity(refund, moneyBack)).toBeGreaterThan(e.minSimilarity);
+    expect(cosineSimilarity(refund, reimbursed)).toBeGreaterThan(e.minSimilarity);
+    expect(cosineSimilarity(refund, newsletter)).toBeLessThan(e.minSimilarity);
+    // Deterministic across instances.
+    expect(Array.from(new HashedNgramEmbedder().embedOne('customer wants a refund'))).toEqual(Array.from(refund));
+  });
+});
+
+describe('HttpEmbedder', () => {
+  it('batches requests and reads OpenAI and Ollama responses', async () => {
+    const calls: any[] = [];
+    const fakeFetch = (async (url: string, init: any) => {
+      const body = JSON.parse(init.body);
+      calls.push({ url, auth: init.headers.Authorization, body });
+      const vectors = body.input.map((_: string, i: number) => [i + 1, 0, 0]);
+      const json = url.endsWith('/api/embed')
+        ? { embeddings: vectors }
+        : { data: vectors.map((embedding: number[], index: number) => ({ index, embedding })).reverse() };
+      return new Response(JSON.stringify(json), { status: 200 });
+    }) as typeof fetch;
+
+    const openai = new HttpEmbedder({ url: 'https://api.example.com/v1/embeddings', model: 'm', apiKey: 'k', batchSize: 2, fetch: fakeFetch });
+    const out = await openai.embed(['a', 'b', 'c']);
+    expect(out.map((v) => Array.from(v))).toEqual([[1, 0, 0], [1, 0, 0], [1, 0, 0]]);
+    expect(calls.map((c) => c.body.input)).toEqual([['a', 'b'], ['c']]);
+    expect(calls[0]).toMatchObject({ auth: 'Bearer k', body: { model: 'm' } });
+
+    const ollama = new HttpEmbedder({ url: 'http://127.0.0.1:11434/api/embed', model: 'n', format: 'ollama', fetch: fakeFetch });
+    expect(await ollama.embed(['x'])).toHaveLength(1);
+    expect(ollama.id).not.toBe(openai.id);
+
+    const failing = new HttpEmbedder({ url: 'https://x/embeddings', model: 'm', fetch: (async () => new Response('nope', { status: 401 })) as typeof fetch });
+    await expect(failing.embed(['a'])).rejects.toThrow('Embedding request failed (401): nope');
+  });
+
+  it('is built from config by createEmbedder', () => {
+    expect(createEmbedder()).toBeInstanceOf(HashedNgramEmbedder);
+    expect(createEmbedder({ provider: 'local', dimensions: 256 }).id).toBe('hashed-ngram-v1:256');
+    expect(createEmbedder({ provider: 'openai' }, 'sk-test').id).toMatch(/^http:openai:text-embedding-3-small@/);
+    expect(createEmbedder({ provider: 'ollama', model: 'mxbai-embed-large' }).id).toMatch(/^http:ollama:mxbai-embed-large@/);
+    expect(() => createEmbedder({ provider: 'http', model: 'm' })).toThrow('url is required');
+  });
+});
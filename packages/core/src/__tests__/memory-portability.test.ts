@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createTestDatabase } from '../storage/db.js';
+import { AgentMemoryManager, formatMemoryJsonl, parseMemoryJsonl } from '../memory/index.js';
+
+async function seed(manager: AgentMemoryManager) {
+  const invoices = await manager.storeMemory('old', {
+    content: 'Acme invoices are due on the 15th.', category: 'knowledge', importance: 'high', tags: ['acme', 'billing'],
+  });
+  const phone = await manager.storeMemory('old', { content: 'Globex prefers phone calls.', category: 'preference', tags: ['globex'] });
+  const personal = await manager.storeMemory('old', { content: 'My favourite colour is green.', category: 'reflection' });
+  await manager.recordAccess(invoices.id);
+  return { invoices, phone, personal };
+}
+
+describe('AgentMemoryManager export / import', () => {
+  it('round-trips an agent through JSONL into another install', async () => {
+    const source = new AgentMemoryManager(createTestDatabase());
+    const { invoices } = await seed(source);
+    const jsonl = formatMemoryJsonl(await source.exportMemories('old'));
+    expect(jsonl.trim().split('\n')).toHaveLength(3);
+
+    const { records, errors } = parseMemoryJsonl(`${jsonl}\nnot json\n{"content":"x","category":"gossip"}\n`);
+    expect(errors).toEqual([{ line: 5, error: 'Invalid JSON' }, { line: 6, error: 'Invalid category: gossip' }]);
+    expect(records[0]).toMatchObject({ id: invoices.id, importance: 'high', tags: ['acme', 'billing'], accessCount: 1, provenance: { agentId: 'old' } });
+
+    const target = new AgentMemoryManager(createTestDatabase());
+    const result = await target.importMemories('new', records);
+    expect(result).toMatchObject({ imported: 3, overwritten: 0, skipped: 0 });
+    const copy = (await target.getMemory(invoices.id))!;
+    expect(copy).toMatchObject({
+      agentId: 'new', category: 'knowledge', importance: 'high', createdAt: invoices.createdAt,
+      metadata: { importedFrom: { agentId: 'old', memoryId: invoices.id } },
+    });
+    expect((await target.recall('new', 'when is the acme invoice due', 1))[0].id).toBe(invoices.id);
+    // Importing the same file again changes nothing.
+    expect(await target.importMemories('new', records)).toMatchObject({ imported: 0, skipped: 3 });
+  });
+
+  it('applies the conflict strategy', async () => {
+    const manager = new AgentMemoryManager(createTestDatabase());
+    const { invoices } = await seed(manager);
+    const records = await manager.exportMemories('old', { tag: 'acme' });
+    expect(records).toHaveLength(1);
+    records[0].importance = 'critical';
+
+    const kept = await manager.importMemories('old', records, { onConflict: 'keep-both' });
+    expect(kept).toMatchObject({ imported: 1 });
+    expect(kept.ids[0]).not.toBe(invoices.id);
+    const overwritten = await manager.importMemories('old', records, { onConflict: 'overwrite' });
+    expect(overwritten).toMatchObject({ imported: 0, overwritten: 1, ids: [invoices.id] });
+    expect(await manager.getMemory(invoices.id)).toMatchObject({ importance: 'critical', createdAt: invoices.createdAt });
+    expect(await manager.getStats('old')).toMatchObject({ totalEntries: 4 });
+  });
+
+  it('transfers a filtered subset to a successor', async () => {
+    const manager = new AgentMemoryManager(createTestDatabase());
+    const { invoices, phone } = await seed(manager);
+    await manager.storeMemory('successor', { content: 'Globex prefers phone calls.' });
+
+    const result = await manager.transferMemories('old', 'successor', { category: 'knowledge' });
+    expect(result).toMatchObject({ imported: 1, skipped: 0 });
+    const copy = (await manager.getMemory(result.ids[0]))!;
+    expect(copy.id).not.toBe(invoices.id);
+    expect(copy).toMatchObject({
+      agentId: 'successor', source: 'transfer', content: invoices.content,
+      metadata: { transferredFrom: { agentId: 'old', memoryId: invoices.id } },
+    });
+
+    // The successor already knows about Globex; re-running adds nothing.
+    const all = await manager.transferMemories('old', 'successor', { query: 'acme globex' });
+    expect(all).toMatchObject({ imported: 0, skipped: 2 });
+    expect(await manager.getMemory(phone.id)).toMatchObject({ agentId: 'old' });
+    await expect(manager.transferMemories('old', 'old')).rejects.toThrow('must be different');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createTestDatabase } from '../storage/db.js';
+import { AgentMemoryManager, MemorySpaceError } from '../memory/index.js';
+
+async function team() {
+  const manager = new AgentMemoryManager(createTestDatabase());
+  await manager.createSpace('Clients', 'Facts about client accounts');
+  await manager.grantSpaceAccess('clients', 'research', 'write');
+  await manager.grantSpaceAccess('clients', 'writer', 'read');
+  return manager;
+}
+
+describe('AgentMemoryManager shared spaces', () => {
+  it('keeps memory personal until an agent is granted a space', async () => {
+    const manager = await team();
+    const fact = await manager.storeSpaceMemory('clients', 'research', { content: 'Acme invoices are due on the 15th.', category: 'knowledge' });
+    expect(fact).toMatchObject({ agentId: 'space:clients', space: 'clients', authoredBy: 'research' });
+    await manager.storeMemory('writer', { content: 'Acme prefers a formal tone in letters.' });
+
+    const recalled = await manager.recall('writer', 'acme invoices', 5);
+    expect(recalled[0]).toMatchObject({ id: fact.id, space: 'clients', authoredBy: 'research' });
+    expect(recalled.some((e) => !e.space)).toBe(true);
+    expect((await manager.queryMemories({ agentId: 'writer', query: 'acme invoices' })).every((e) => !e.space)).toBe(true);
+    const ctx = await manager.generateMemoryContext('writer', 'acme');
+    expect(ctx).toContain('[shared: clients] Acme invoices are due on the 15th.');
+    expect(ctx).toContain('Acme prefers a formal tone');
+
+    // The secretary holds no grant: nothing shared, and the space reads as missing.
+    expect(await manager.recall('secretary', 'acme invoices')).toEqual([]);
+    expect(await manager.generateMemoryContext('secretary')).toBe('');
+    await expect(manager.querySpaceMemories('clients', 'secretary')).rejects.toMatchObject({ statusCode: 404 });
+    // Readers can't write.
+    await expect(manager.storeSpaceMemory('clients', 'writer', { content: 'x' })).rejects.toMatchObject({ statusCode: 403 });
+    expect(await manager.deleteSpaceMemory('clients', 'research', fact.id)).toBe(true);
+    expect(await manager.querySpaceMemories('clients', 'writer')).toEqual([]);
+  });
+
+  it('lists, validates and deletes spaces', async () => {
+    const manager = await team();
+    await expect(manager.createSpace('clients')).rejects.toMatchObject({ statusCode: 409 });
+    await expect(manager.createSpace('no spaces')).rejects.toBeInstanceOf(MemorySpaceError);
+    await expect(manager.grantSpaceAccess('missing', 'writer', 'read')).rejects.toMatchObject({ statusCode: 404 });
+    await manager.storeSpaceMemory('clients', 'research', { content: 'Globex prefers phone calls.' });
+
+    expect(await manager.listSpaces('writer')).toEqual([
+      expect.objectContaining({ name: 'clients', description: 'Facts about client accounts', access: 'read', entries: 1 }),
+    ]);
+    expect((await manager.listSpaces())[0].grants!.map((g) => [g.agentId, g.access])).toEqual([['research', 'write'], ['writer', 'read']]);
+    expect(await manager.revokeSpaceAccess('clients', 'writer')).toBe(true);
+    expect(await manager.listSpaces('writer')).toEqual([]);
+
+    expect(await manager.deleteSpace('clients')).toBe(1);
+    expect(await manager.listSpaces()).toEqual([]);
+    expect(await manager.recall('research', 'globex')).toEqual([]);
+  });
+
+  it('drops a deleted agent\'s grants but keeps what it wrote', async () => {
+    const manager = await team();
+    await manager.storeSpaceMemory('clients', 'research', { content: 'Acme invoices are due on the 15th.' });
+    await manager.storeMemory('research', { content: 'Personal scratch note.' });
+    expect(await manager.deleteAgentMemories('research')).toBe(1);
+    expect(manager.getSpaceAccess('clients', 'research')).toBeNull();
+    expect(await manager.querySpaceMemories('clients', 'writer')).toMatchObject([{ authoredBy: 'research' }]);
+  });
+});
@@ -1341,6 +1341,74 @@ describe('scanOutboundEmail', () => {
   });
 });
 
+// ─── Checksum-validated and international identifiers ────────────────
+
+describe('scanOutboundEmail identifier validation', () => {
+  const scan = (text: string) => scanOutboundEmail({ to: 'ext@example.com', text });
+  const find = (text: string, ruleId: string) => scan(text).warnings.find(w => w.ruleId === ruleId);
+
+  it('only treats Luhn-valid card numbers as high severity', () => {
+    expect(find('Card: 4111 1111 1111 1111', 'ob_credit_card')).toMatchObject({ severity: 'high', confidence: 'validated' });
+    expect(find('Amex 3782 822463 10005', 'ob_credit_card')).toMatchObject({ confidence: 'validated' });
+    expect(find('Order 1234-5678-9012-3456 has shipped', 'ob_credit_card')).toBeUndefined();
+    expect(scan('Order 1234-5678-9012-3456 has shipped').blocked).toBe(false);
+    // Named as a card but fails Luhn: a typo is still worth a warning.
+    expect(find('my visa is 4111 1111 1111 1112', 'ob_credit_card')).toMatchObject({ severity: 'medium', confidence: 'pattern' });
+  });
+
+  it('checks IBANs with mod 97 and routing numbers with the ABA checksum', () => {
+    expect(find('Pay GB29 NWBK 6016 1331 9268 19', 'ob_iban')).toMatchObject({ severity: 'high', confidence: 'validated' });
+    expect(find('Ref GB29 NWBK 6016 1331 9268 18', 'ob_iban')).toBeUndefined();
+    expect(find('IBAN: GB29 NWBK 6016 1331 9268 18', 'ob_iban')).toMatchObject({ severity: 'medium' });
+    expect(find('Routing number: 021000021', 'ob_bank_routing')).toMatchObject({ severity: 'high', confidence: 'validated' });
+    expect(find('Routing number: 021000022', 'ob_bank_routing')).toMatchObject({ severity: 'medium', confidence: 'pattern' });
+    // Account numbers have no check digit and stay high.
+    expect(find('Account #: 12345678901234', 'ob_bank_routing')).toMatchObject({ severity: 'high', confidence: 'pattern' });
+  });
+
+  it.each([
+    ['ob_uk_nino', 'NI number AB 12 34 56 C'],
+    ['ob_ca_sin', 'SIN 130-692-544'],
+    ['ob_in_aadhaar', 'Aadhaar 2341 2341 2346'],
+    ['ob_in_pan', 'PAN ABCPE1234F'],
+    ['ob_de_steuer_id', 'Steuer-ID: 86 095 742 719'],
+    ['ob_fr_insee', 'N° sécu 1 85 05 78 006 084 91'],
+    ['ob_se_personnummer', 'Personnummer 811218-9876'],
+  ])('detects a valid %s', (ruleId, text) => {
+    const result = scan(text);
+    expect(result.warnings.find(w => w.ruleId === ruleId)).toMatchObject({ severity: 'high', confidence: 'validated' });
+    expect(result.blocked).toBe(true);
+  });
+
+  it.each([
+    ['ob_uk_nino', 'Ticket GB 12 34 56 A'],
+    ['ob_ca_sin', 'Parts 130-692-545'],
+    ['ob_in_aadhaar', 'Batch 2341 2341 2347'],
+    ['ob_in_pan', 'SKU ABCXE1234F'],
+    ['ob_de_steuer_id', 'Steuer-ID: 86 095 742 718'],
+    ['ob_fr_insee', 'Lot 1 85 05 78 006 084 92'],
+    ['ob_se_personnummer', 'Invoice 811218-9875'],
+  ])('does not block an invalid %s', (ruleId, text) => {
+    const hit = find(text, ruleId);
+    if (hit) expect(hit).toMatchObject({ severity: 'medium', confidence: 'pattern' });
+    expect(scan(text).blocked).toBe(false);
+  });
+
+  it('needs a label before bare digit runs', () => {
+    expect(find('Tracking 130692544', 'ob_ca_sin')).toBeUndefined();
+    expect(find('SIN: 130692544', 'ob_ca_sin')).toMatchObject({ confidence: 'validated' });
+    expect(find('Call ref 86095742719', 'ob_de_steuer_id')).toBeUndefined();
+  });
+
+  it('warns on EU VAT ids without blocking', () => {
+    expect(find('Our VAT id is DE136695976', 'ob_eu_vat')).toMatchObject({ severity: 'medium', confidence: 'validated' });
+    expect(find('Invoice FR40303265045', 'ob_eu_vat')).toMatchObject({ confidence: 'validated' });
+    expect(find('See DESCRIPTION123', 'ob_eu_vat')).toBeUndefined();
+    expect(find('IVA: ESX1234567X', 'ob_eu_vat')).toMatchObject({ confidence: 'pattern' });
+    expect(scan('Our VAT id is DE136695976').blocked).toBe(false);
+  });
+});
+
 // ─── buildInboundSecurityAdvisory ────────────────────────────────────
 
 describe('buildInboundSecurityAdvisory', () => {
@@ -1609,6 +1677,48 @@ describe('buildInboundSecurityAdvisory', () => {
 
   // --- Attachment with no filename ---
 
+  // --- Sender authentication ---
+
+  it('warns when a verified message failed DMARC', () => {
+    const result = buildInboundSecurityAdvisory(undefined, [], {
+      spf: { result: 'fail', domain: 'bank.example', ip: '203.0.113.9' },
+      dkim: [],
+      dmarc: { result: 'fail', domain: 'bank.example', policy: 'reject', alignment: { dkim: false, spf: false } },
+      arc: { result: 'none', instances: 0, sealers: [] },
+      fromDomain: 'bank.example',
+      fromAligned: false,
+    });
+    expect(result.senderVerified).toBe(false);
+    expect(result.authenticationWarnings.map(w => w.check)).toEqual(['dmarc', 'spf']);
+    expect(result.summary).toContain('[AUTH] DMARC FAIL for bank.example (policy=reject)');
+  });
+
+  it('warns about an unauthenticated sender without a DMARC record', () => {
+    const result = buildInboundSecurityAdvisory(undefined, [], {
+      spf: { result: 'none' },
+      dkim: [],
+      dmarc: { result: 'none', domain: 'shop.example', alignment: { dkim: false, spf: false } },
+      arc: { result: 'none', instances: 0, sealers: [] },
+      fromDomain: 'shop.example',
+      fromAligned: false,
+    });
+    expect(result.authenticationWarnings).toEqual([expect.objectContaining({ check: 'sender' })]);
+  });
+
+  it('adds nothing for an authenticated sender', () => {
+    const result = buildInboundSecurityAdvisory(undefined, [], {
+      spf: { result: 'none' },
+      dkim: [{ result: 'pass', domain: 'shop.example', selector: 's', algorithm: 'ed25519-sha256', aligned: true }],
+      dmarc: { result: 'pass', domain: 'shop.example', policy: 'none', alignment: { dkim: true, spf: false } },
+      arc: { result: 'none', instances: 0, sealers: [] },
+      fromDomain: 'shop.example',
+      fromAligned: true,
+    });
+    expect(result.senderVerified).toBe(true);
+    expect(result.authenticationWarnings).toEqual([]);
+    expect(result.summary).toBe('');
+  });
+
   it('handles attachment with no filename as "unknown"', () => {
     const result = buildInboundSecurityAdvisory(undefined, [
       { size: 1024 },
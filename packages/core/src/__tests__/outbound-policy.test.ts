@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { scanOutboundEmail } from '../mail/outbound-guard.js';
+import {
+  loadOutboundPolicy,
+  mergeOutboundPolicies,
+  OutboundPolicyError,
+  parseOutboundPolicy,
+  type OutboundPolicy,
+} from '../mail/outbound-policy.js';
+
+const IBAN = 'DE89370400440532013000';
+
+function policy(install: unknown, agent?: unknown): OutboundPolicy {
+  const layers = [parseOutboundPolicy(install, 'install')];
+  if (agent) layers.push(parseOutboundPolicy(agent, 'agent', layers[0].rules.map(r => r.id)));
+  return mergeOutboundPolicies(layers);
+}
+
+describe('parseOutboundPolicy', () => {
+  it('reports every problem at once', () => {
+    let error: OutboundPolicyError | undefined;
+    try {
+      parseOutboundPolicy({
+        version: 2,
+        rules: [{ id: 'ob_ssn', pattern: 'x', category: 'pii' }, { id: 'bad', pattern: '(', category: 'nope' }],
+        overrides: { ob_typo: { action: 'block' }, ob_iban: { action: 'shred' } },
+        trustedDomains: [{ domain: 'localhost' }],
+        extra: true,
+      }, 'install');
+    } catch (err) {
+      error = err as OutboundPolicyError;
+    }
+    expect(error).toBeInstanceOf(OutboundPolicyError);
+    expect(error!.issues).toEqual([
+      'version must be 1',
+      'rules[0].id "ob_ssn" is a built-in rule; use overrides to change it',
+      expect.stringMatching(/^rules\[1\]\.pattern does not compile/),
+      expect.stringMatching(/^rules\[1\]\.category must be one of/),
+      'overrides.ob_typo: unknown rule id',
+      'overrides.ob_iban.action must be one of block, warn, redact',
+      'trustedDomains[0].domain must be a domain name or *.domain',
+      'extra is not a policy field',
+    ]);
+  });
+
+  it('lets an agent layer override install rules and defaults', () => {
+    const merged = policy(
+      { version: 1, defaultActions: { medium: 'block' }, rules: [{ id: 'acme', pattern: 'ACME-\\d+', category: 'system_internal' }] },
+      { version: 1, defaultActions: { medium: 'warn' }, overrides: { acme: { severity: 'medium' } } },
+    );
+    expect(merged.defaultActions).toEqual({ medium: { action: 'warn', source: 'agent' } });
+    expect(merged.overrides.acme).toEqual({ severity: 'medium', source: 'agent' });
+    expect(merged.rules.map(r => [r.id, r.source])).toEqual([['acme', 'install']]);
+  });
+
+  it('merges quotas field by field and keeps install limits in the install file', () => {
+    const merged = policy(
+      { version: 1, quotas: { install: { perDay: 1000 }, agent: { perHour: 60, perDay: 300 } } },
+      { version: 1, quotas: { agent: { perHour: 10 }, onExceed: 'queue' } },
+    );
+    expect(merged.quotas).toEqual({ install: { perDay: 1000 }, agent: { perHour: 10, perDay: 300 }, onExceed: 'queue' });
+
+    expect(() => parseOutboundPolicy({ version: 1, quotas: { install: { perDay: 5 }, agent: { perWeek: 1, perMinute: 0 } } }, 'agent'))
+      .toThrow(/quotas\.install may only be set in the install policy; quotas\.agent\.perWeek is not a quota field; quotas\.agent\.perMinute must be an integer/);
+  });
+});
+
+describe('scanOutboundEmail with a policy', () => {
+  it('behaves exactly as before without one, tagging actions as builtin', () => {
+    const result = scanOutboundEmail({ to: 'x@example.com', text: `IBAN ${IBAN}` });
+    expect(result.blocked).toBe(true);
+    expect(result.warnings[0]).toMatchObject({ ruleId: 'ob_iban', action: 'block', policy: 'builtin' });
+    expect(result.policies).toBeUndefined();
+  });
+
+  it('applies custom rules and severity overrides', () => {
+    const p = policy({
+      version: 1,
+      rules: [{ id: 'acme_code', pattern: '\\bACME-\\d{6}\\b', category: 'system_internal', severity: 'medium', description: 'Project code' }],
+      overrides: { ob_iban: { severity: 'medium' } },
+    });
+    const result = scanOutboundEmail({ to: 'x@example.com', text: `Ref ACME-123456, IBAN ${IBAN}` }, p);
+    expect(result.blocked).toBe(false);
+    expect(result.warnings.map(w => [w.ruleId, w.severity, w.action, w.policy])).toEqual([
+      ['ob_iban', 'medium', 'warn', 'install'],
+      ['acme_code', 'medium', 'warn', 'install'],
+    ]);
+  });
+
+  it('redacts matches and sends, reporting the rewritten fields', () => {
+    const p = policy({ version: 1, overrides: { ob_iban: { action: 'redact' }, ob_private_ip: { action: 'redact', placeholder: '[host]' } } });
+    const result = scanOutboundEmail({
+      to: 'x@example.com',
+      subject: `Payment to ${IBAN}`,
+      text: `Pay ${IBAN} today. Server 10.0.0.12 is ready; backup on 10.0.0.13.`,
+      html: `<p>Pay <b>${IBAN}</b></p>`,
+    }, p);
+    expect(result.blocked).toBe(false);
+    expect(result.redacted).toEqual({
+      subject: 'Payment to [REDACTED]',
+      text: 'Pay [REDACTED] today. Server [host] is ready; backup on [host].',
+      html: '<p>Pay <b>[REDACTED]</b></p>',
+    });
+    expect(result.summary).toMatch(/2 redacted before sending/);
+  });
+
+  it('blocks redact hits it cannot remove', () => {
+    const p = policy({ version: 1, overrides: { ob_iban: { action: 'redact' } } });
+    const split = scanOutboundEmail({ to: 'x@example.com', html: '<p>DE8937040044<i></i>0532013000</p>' }, p);
+    expect(split.blocked).toBe(true);
+    expect(split.warnings[0]).toMatchObject({ action: 'block', description: expect.stringMatching(/could not be redacted/) });
+
+    const attached = scanOutboundEmail({
+      to: 'x@example.com',
+      text: 'See attached',
+      attachments: [{ filename: 'pay.txt', contentType: 'text/plain', content: IBAN }],
+    }, p);
+    expect(attached.blocked).toBe(true);
+    expect(attached.warnings[0].description).toMatch(/cannot be redacted in an attachment/);
+  });
+
+  it('exempts trusted domains only when every external recipient is trusted', () => {
+    const p = policy({ version: 1, trustedDomains: [{ domain: '*.ledgerworks.example', rules: ['ob_iban'] }] });
+    const trusted = scanOutboundEmail({ to: 'Books <books@eu.ledgerworks.example>', cc: 'ops@localhost', text: `IBAN ${IBAN}` }, p);
+    expect(trusted.blocked).toBe(false);
+    expect(trusted.warnings).toEqual([]);
+    expect(trusted.exempted).toMatchObject([{ ruleId: 'ob_iban', exemptedBy: ['*.ledgerworks.example'] }]);
+
+    const mixed = scanOutboundEmail({ to: 'books@eu.ledgerworks.example', bcc: ['x@example.com'], text: `IBAN ${IBAN}` }, p);
+    expect(mixed.blocked).toBe(true);
+    expect(scanOutboundEmail({ to: 'books@eu.ledgerworks.example', text: 'SSN 123-45-6789' }, p).blocked).toBe(true);
+  });
+
+  it('scans a comma-separated To list whose last address is internal', () => {
+    expect(scanOutboundEmail({ to: 'x@example.com, agent@localhost', text: `IBAN ${IBAN}` }).blocked).toBe(true);
+  });
+});
+
+describe('loadOutboundPolicy', () => {
+  const dirs: string[] = [];
+  afterEach(() => {
+    for (const d of dirs.splice(0)) rmSync(d, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('merges install and agent files and reports broken ones', () => {
+    const dataDir = mkdtempSync(join(tmpdir(), 'am-policy-'));
+    dirs.push(dataDir);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadOutboundPolicy(dataDir, 'ops')).toMatchObject({ sources: [], errors: [], rules: [] });
+
+    writeFileSync(join(dataDir, 'outbound-policy.json'), JSON.stringify({ version: 1, overrides: { ob_phone: { enabled: false } } }));
+    mkdirSync(join(dataDir, 'outbound-policies'));
+    writeFileSync(join(dataDir, 'outbound-policies', 'ops.json'), JSON.stringify({ version: 1, defaultActions: { high: 'redact' } }));
+    writeFileSync(join(dataDir, 'outbound-policies', 'lyra.json'), '{ not json');
+
+    const ops = loadOutboundPolicy(dataDir, 'ops');
+    expect(ops.sources.map(s => s.scope)).toEqual(['install', 'agent']);
+    expect(ops.defaultActions.high).toEqual({ action: 'redact', source: 'agent' });
+
+    const lyra = loadOutboundPolicy(dataDir, 'lyra');
+    expect(lyra.sources.map(s => s.scope)).toEqual(['install']);
+    expect(lyra.errors).toMatchObject([{ scope: 'agent', path: expect.stringContaining('lyra.json') }]);
+    expect(lyra.defaultActions).toEqual({});
+  });
+});
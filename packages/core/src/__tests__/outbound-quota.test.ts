@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OutboundQuota, OutboundQuotaError, type OutboundQuotaExceeded } from '../mail/outbound-quota.js';
+import type { OutboundQuotaPolicy } from '../mail/outbound-policy.js';
+import { createTestDatabase } from '../storage/db.js';
+
+function quotas(agent: OutboundQuotaPolicy['agent'], install: OutboundQuotaPolicy['install'] = {}): OutboundQuotaPolicy {
+  return { agent, install, onExceed: 'reject' };
+}
+
+function reserveError(fn: () => unknown): OutboundQuotaError {
+  try { fn(); } catch (err) {
+    expect(err).toBeInstanceOf(OutboundQuotaError);
+    return err as OutboundQuotaError;
+  }
+  throw new Error('expected an OutboundQuotaError');
+}
+
+describe('OutboundQuota', () => {
+  let db: ReturnType<typeof createTestDatabase>;
+  let clock: Date;
+  let onExceeded: ReturnType<typeof vi.fn<(exceeded: OutboundQuotaExceeded) => void>>;
+  let quota: OutboundQuota;
+
+  beforeEach(() => {
+    db = createTestDatabase();
+    clock = new Date('2026-03-01T12:00:00Z');
+    onExceeded = vi.fn<(exceeded: OutboundQuotaExceeded) => void>();
+    quota = new OutboundQuota(db, { now: () => clock, onExceeded });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const advance = (ms: number) => { clock = new Date(clock.getTime() + ms); };
+
+  it('records nothing when no limit is configured', () => {
+    expect(quota.reserve('bot', ['a@example.com'], quotas({}))).toBeNull();
+    expect(db.prepare('SELECT COUNT(*) AS n FROM outbound_usage').get()).toEqual({ n: 0 });
+  });
+
+  it('rejects the send over a per-minute limit with the time until a slot frees up', () => {
+    const limits = quotas({ perMinute: 2 });
+    quota.reserve('bot', ['a@example.com'], limits);
+    advance(20_000);
+    quota.reserve('bot', ['Bee <b@example.com>', 'c@example.org'], limits);
+    advance(10_000);
+
+    const err = reserveError(() => quota.reserve('bot', ['d@example.com'], limits));
+    expect(err.statusCode).toBe(429);
+    expect(err.exceeded).toMatchObject({ scope: 'agent', limit: 'perMinute', max: 2, used: 2, retryAfterSeconds: 30 });
+
+    // Other agents have their own counters; the window slides.
+    expect(quota.reserve('other', ['d@example.com'], limits)).not.toBeNull();
+    advance(30_000);
+    expect(quota.reserve('bot', ['d@example.com'], limits)).not.toBeNull();
+  });
+
+  it('counts unique recipients per day, letting repeat recipients through', () => {
+    const limits = quotas({ uniqueRecipientsPerDay: 2 });
+    quota.reserve('bot', ['a@example.com', 'b@example.com'], limits);
+    expect(quota.reserve('bot', ['A@Example.com'], limits)).not.toBeNull();
+
+    const err = reserveError(() => quota.reserve('bot', ['a@example.com', 'c@example.com'], limits));
+    expect(err.exceeded).toMatchObject({ limit: 'uniqueRecipientsPerDay', max: 2, used: 2, retryAfterSeconds: 86_400 });
+  });
+
+  it('limits each recipient domain separately', () => {
+    const limits = quotas({ perDomainPerHour: 1 });
+    quota.reserve('bot', ['a@gmail.com'], limits);
+    expect(quota.reserve('bot', ['a@outlook.com'], limits)).not.toBeNull();
+    const err = reserveError(() => quota.reserve('bot', ['b@outlook.com', 'c@yahoo.com'], limits));
+    expect(err.exceeded).toMatchObject({ limit: 'perDomainPerHour', domain: 'outlook.com', used: 1 });
+  });
+
+  it('applies install limits to every agent together', () => {
+    const limits = quotas({ perHour: 10 }, { perHour: 2 });
+    quota.reserve('one', ['a@example.com'], limits);
+    quota.reserve('two', ['b@example.com'], limits);
+    const err = reserveError(() => quota.reserve('three', ['c@example.com'], limits));
+    expect(err.exceeded).toMatchObject({ scope: 'install', limit: 'perHour', agentName: 'three' });
+    expect(err.message).toContain('this install');
+  });
+
+  it('alerts once per limit until the window frees up', () => {
+    const limits = quotas({ perMinute: 1 });
+    quota.reserve('bot', ['a@example.com'], limits);
+    reserveError(() => quota.reserve('bot', ['a@example.com'], limits));
+    advance(30_000);
+    reserveError(() => quota.reserve('bot', ['a@example.com'], limits));
+    expect(onExceeded).toHaveBeenCalledTimes(1);
+    expect(onExceeded.mock.calls[0][0]).toMatchObject({ agentName: 'bot', limit: 'perMinute', retryAfterSeconds: 60 });
+
+    advance(30_000);
+    quota.reserve('bot', ['a@example.com'], limits);
+    reserveError(() => quota.reserve('bot', ['a@example.com'], limits));
+    expect(onExceeded).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives back released reservations and reports usage', () => {
+    const limits = quotas({ perDay: 1, perDomainPerHour: 5 }, { perDay: 100 });
+    const reservation = quota.reserve('bot', ['a@example.com'], limits);
+    quota.release(reservation);
+    quota.reserve('bot', ['a@example.com', 'b@example.com', 'c@other.org'], limits);
+    quota.reserve('peer', ['z@example.com'], quotas({ perDay: 5 }));
+
+    expect(quota.usage('bot', limits)).toEqual({
+      onExceed: 'reject',
+      agent: {
+        limits: { perDay: 1, perDomainPerHour: 5 },
+        used: { perMinute: 1, perHour: 1, perDay: 1, uniqueRecipientsPerDay: 3, perDomainPerHour: { 'example.com': 1, 'other.org': 1 } },
+      },
+      install: {
+        limits: { perDay: 100 },
+        used: { perMinute: 2, perHour: 2, perDay: 2, uniqueRecipientsPerDay: 4, perDomainPerHour: { 'example.com': 2, 'other.org': 1 } },
+      },
+    });
+  });
+
+  it('prunes rows older than a day', () => {
+    const limits = quotas({ perDay: 5 });
+    quota.reserve('bot', ['a@example.com'], limits);
+    advance(24 * 3_600_000 + 1);
+    quota.reserve('bot', ['b@example.com'], limits);
+    expect(db.prepare('SELECT recipient FROM outbound_usage').all()).toEqual([{ recipient: 'b@example.com' }]);
+  });
+});
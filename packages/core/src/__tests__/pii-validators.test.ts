@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aadhaarValid, abaRoutingValid, caSinValid, deSteuerIdValid, euVatStatus, frInseeValid, ibanValid,
+  indianPanValid, luhnValid, paymentCardValid, sePersonnummerValid, ukNinoValid, verhoeffValid,
+} from '../mail/pii-validators.js';
+
+describe('pii validators', () => {
+  it('Luhn and payment cards', () => {
+    expect(luhnValid('79927398713')).toBe(true);
+    expect(luhnValid('79927398710')).toBe(false);
+    expect(paymentCardValid('4111-1111-1111-1111')).toBe(true);
+    expect(paymentCardValid('0000 0000 0000 0000')).toBe(false);
+    expect(paymentCardValid('4111 1111 1111')).toBe(false);
+  });
+
+  it('IBAN length and mod 97', () => {
+    expect(ibanValid('DE89 3704 0044 0532 0130 00')).toBe(true);
+    expect(ibanValid('DE89 3704 0044 0532 0130 01')).toBe(false);
+    expect(ibanValid('DE89 3704 0044 0532 0130 000')).toBe(false);
+  });
+
+  it('ABA routing numbers', () => {
+    expect(abaRoutingValid('021000021')).toBe(true);
+    expect(abaRoutingValid('021000022')).toBe(false);
+    expect(abaRoutingValid('000000000')).toBe(false);
+  });
+
+  it('national identifiers', () => {
+    expect(ukNinoValid('AB 12 34 56 C')).toBe(true);
+    expect(ukNinoValid('GB123456A')).toBe(false);
+    expect(ukNinoValid('AB123456E')).toBe(false);
+    expect(caSinValid('130 692 544')).toBe(true);
+    expect(caSinValid('830 692 541')).toBe(false);
+    expect(verhoeffValid('2363')).toBe(true);
+    expect(aadhaarValid('2341 2341 2346')).toBe(true);
+    expect(aadhaarValid('1341 2341 2346')).toBe(false);
+    expect(indianPanValid('ABCPE1234F')).toBe(true);
+    expect(indianPanValid('ABCXE1234F')).toBe(false);
+    expect(deSteuerIdValid('86095742719')).toBe(true);
+    expect(deSteuerIdValid('86095742718')).toBe(false);
+    expect(deSteuerIdValid('12345678903')).toBe(false); // no repeated digit
+    expect(frInseeValid('1 85 05 78 006 084 91')).toBe(true);
+    expect(frInseeValid('2 85 04 2A 123 456 64')).toBe(true);
+    expect(frInseeValid('1 85 13 78 006 084 91')).toBe(false);
+    expect(sePersonnummerValid('811218-9876')).toBe(true);
+    expect(sePersonnummerValid('19811218-9876')).toBe(true);
+    expect(sePersonnummerValid('811318-9876')).toBe(false);
+  });
+
+  it('EU VAT ids by country', () => {
+    for (const id of ['ATU13585627', 'BE0403170701', 'DE136695976', 'FR40303265045', 'IT00743110157', 'NL004495445B01', 'PL5260250274']) {
+      expect(euVatStatus(id)).toBe('checked');
+    }
+    expect(euVatStatus('DE136695977')).toBe('failed');
+    expect(euVatStatus('ESX1234567X')).toBe('unchecked');
+    expect(euVatStatus('DESCRIPTION')).toBe('invalid');
+  });
+});
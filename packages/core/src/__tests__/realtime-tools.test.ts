@@ -325,4 +325,10 @@ describe('isOperatorReplySender', () => {
     expect(isOperatorReplySender(undefined, 'ope@example.com')).toBe(false);
     expect(isOperatorReplySender('', 'ope@example.com')).toBe(false);
   });
+
+  it('requires an authenticated From domain when the message was verified', () => {
+    expect(isOperatorReplySender('ope@example.com', 'ope@example.com', { fromAligned: true })).toBe(true);
+    expect(isOperatorReplySender('ope@example.com', 'ope@example.com', { fromAligned: false })).toBe(false);
+    expect(isOperatorReplySender('attacker@evil.example', 'ope@example.com', { fromAligned: true })).toBe(false);
+  });
 });
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { createTestDatabase, type Database } from '../storage/db.js';
+import { SpamModel } from '../mail/spam-model.js';
+import { scoreEmail, SPAM_MODEL_MIN_DOCS } from '../mail/spam-filter.js';
+import type { ParsedEmail } from '../mail/types.js';
+
+function email(n: number, overrides: Partial<ParsedEmail> = {}): ParsedEmail {
+  return {
+    messageId: `<m${n}@example.com>`,
+    subject: `Message ${n}`,
+    from: [{ address: 'friend@example.com' }],
+    to: [{ address: 'agent@localhost' }],
+    date: new Date(),
+    text: 'See you at lunch tomorrow.',
+    html: '',
+    attachments: [],
+    headers: new Map(),
+    ...overrides,
+  };
+}
+
+const promo = (n: number) => email(n, { from: [{ address: 'deals@promo.example' }], subject: 'Picks of the week', text: 'Our weekly picks, curated for you.' });
+
+function log(db: Database, agentId: string, score: number, flags: string[], isSpam: boolean) {
+  db.prepare('INSERT INTO spam_log (id, agent_id, message_uid, score, flags, category, is_spam) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(uuidv4(), agentId, 1, score, JSON.stringify(flags), null, isSpam ? 1 : 0);
+}
+
+describe('SpamModel', () => {
+  it('learns reported senders per agent', () => {
+    const db = createTestDatabase();
+    const model = new SpamModel(db);
+    for (let i = 0; i < SPAM_MODEL_MIN_DOCS; i++) {
+      model.train('a-1', promo(i), 'spam');
+      model.train('a-1', email(100 + i), 'ham');
+    }
+    expect(scoreEmail(promo(999), model.forAgent('a-1')).isSpam).toBe(true);
+    expect(scoreEmail(promo(999), model.forAgent('a-2')).isSpam).toBe(false);
+    expect(scoreEmail(email(999), model.forAgent('a-1')).isSpam).toBe(false);
+
+    const stats = model.stats('a-1');
+    expect(stats).toMatchObject({ trained: true, documents: { feedback: { spam: 5, ham: 5 } } });
+    expect(stats.topSpamTokens.map(t => t.token)).toContain('from:@promo.example');
+  });
+
+  it('moves a message between classes when it is relabelled', () => {
+    const db = createTestDatabase();
+    const model = new SpamModel(db);
+    expect(model.train('a-1', promo(1), 'spam')).toMatchObject({ changed: true });
+    expect(model.train('a-1', promo(1), 'spam')).toMatchObject({ changed: false });
+    expect(model.train('a-1', promo(1), 'ham')).toMatchObject({ changed: true, previous: 'spam' });
+    const row = db.prepare("SELECT spam, ham FROM spam_model_tokens WHERE agent_id = 'a-1' AND token = 'from:@promo.example'").get();
+    expect(row).toEqual({ spam: 0, ham: 1 });
+    expect(model.stats('a-1').documents.feedback).toEqual({ spam: 0, ham: 1 });
+  });
+
+  it('learns rule tokens from spam_log once, skipping uncertain verdicts', () => {
+    const db = createTestDatabase();
+    const model = new SpamModel(db);
+    log(db, 'a-1', 55, ['pi_ignore_instructions'], true);
+    log(db, 'a-1', 5, ['ph_urgency'], false);
+    log(db, 'a-1', 25, ['ph_urgency'], false);
+    expect(model.importSpamLog('a-1')).toBe(2);
+    expect(model.importSpamLog('a-1')).toBe(0);
+    expect(model.stats('a-1').documents.log).toEqual({ spam: 1, ham: 1 });
+  });
+});
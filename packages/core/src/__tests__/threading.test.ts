@@ -1,6 +1,7 @@
 /**
  * Tests for the layered wake-context system:
  *   - thread-id normalization + hash stability
+ *   - header (JWZ) threading over Message-ID / In-Reply-To / References
  *   - ThreadCache: push / read / dedup / cap / delete
  *   - AgentMemoryStore: write / read / delete + frontmatter parsing
  */
@@ -9,7 +10,7 @@ import { mkdtempSync, rmSync, readdirSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import {
-  threadIdFor, normalizeSubject, normalizeAddress,
+  threadIdFor, normalizeSubject, normalizeAddress, parseMessageIds, threadMessages,
   ThreadCache, AgentMemoryStore,
 } from '../threading/index.js';
 
@@ -29,6 +30,16 @@ describe('threadIdFor — normalization', () => {
     expect(normalizeSubject('Audit plan [CLOSED]')).toBe('audit plan');
   });
 
+  it('strips localized reply and forward prefixes', () => {
+    expect(normalizeSubject('AW: Angebot')).toBe('angebot');
+    expect(normalizeSubject('SV: VS: Offert')).toBe('offert');
+    expect(normalizeSubject('Antw: TR: RE: Offre')).toBe('offre');
+    expect(normalizeSubject('回复：项目进度')).toBe('项目进度');
+    expect(normalizeSubject('Re(3): WG: Plan')).toBe('plan');
+    // Only prefixes: a subject that merely starts with the letters stays.
+    expect(normalizeSubject('Aware: rollout')).toBe('aware: rollout');
+  });
+
   it('collapses internal whitespace + lower-cases', () => {
     expect(normalizeSubject('  Audit\t\tPlan  ')).toBe('audit plan');
   });
@@ -59,7 +70,7 @@ describe('threadIdFor — hash properties', () => {
     expect(threadIdFor({ subject: 'RE: RE: Fwd: Audit plan [FINAL]', rootFromAddr: 'vesper@localhost' })).toBe(root);
   });
 
-  it('is subject-only — replies from any sender collapse into the same thread id', () => {
+  it('without threading headers, is subject-only — replies from any sender collapse into the same thread id', () => {
     // This is the explicit contract: a reply from someone OTHER
     // than the root sender must still map to the same thread id
     // so the cache + memory lookups land on the right thread.
@@ -79,6 +90,87 @@ describe('threadIdFor — hash properties', () => {
   });
 });
 
+describe('threadIdFor — message headers', () => {
+  it('keys on the conversation root, so an edited reply subject stays in the thread', () => {
+    const root = threadIdFor({ subject: 'Invoice', messageId: '<a1@vendor.test>' });
+    expect(threadIdFor({ subject: 'Re: Invoice', inReplyTo: '<a1@vendor.test>', references: '<a1@vendor.test>' })).toBe(root);
+    expect(threadIdFor({
+      subject: 'Paid — thanks',
+      inReplyTo: '<a2@me.test>',
+      references: ['<a1@vendor.test>', '<a2@me.test>'],
+    })).toBe(root);
+    // In-Reply-To alone also points at the root.
+    expect(threadIdFor({ subject: 'whatever', inReplyTo: '<a1@vendor.test>' })).toBe(root);
+  });
+
+  it('keeps unrelated same-subject threads apart', () => {
+    const a = threadIdFor({ subject: 'Invoice', messageId: '<a1@vendor.test>' });
+    const b = threadIdFor({ subject: 'Invoice', messageId: '<b1@vendor.test>' });
+    expect(a).not.toBe(b);
+    expect(a).not.toBe(threadIdFor({ subject: 'Invoice' }));
+  });
+
+  it('parses folded and bracket-less id lists', () => {
+    expect(parseMessageIds('<a@x>\r\n <b@x>  <c@x>')).toEqual(['a@x', 'b@x', 'c@x']);
+    expect(parseMessageIds(['<a@x>', 'b@x'])).toEqual(['a@x', 'b@x']);
+    expect(parseMessageIds('')).toEqual([]);
+  });
+});
+
+describe('threadMessages (JWZ)', () => {
+  const d = (min: number) => new Date(Date.UTC(2026, 0, 1, 0, min));
+
+  it('groups by header chain, orders by date and ignores subjects', () => {
+    const threads = threadMessages([
+      { id: 3, subject: 'Paid', messageId: '<a3@x>', inReplyTo: '<a2@x>', references: ['<a1@x>', '<a2@x>'], date: d(3) },
+      { id: 1, subject: 'Invoice', messageId: '<a1@x>', date: d(1) },
+      { id: 9, subject: 'Invoice', messageId: '<b1@x>', date: d(9) },
+      { id: 2, subject: 'Re: Invoice', messageId: '<a2@x>', inReplyTo: '<a1@x>', references: '<a1@x>', date: d(2) },
+    ]);
+    expect(threads).toHaveLength(2);
+    // Newest activity first.
+    expect(threads[0].messages.map(m => m.message.id)).toEqual([9]);
+    const [, invoice] = threads;
+    expect(invoice.messages.map(m => m.message.id)).toEqual([1, 2, 3]);
+    expect(invoice.messages.map(m => m.depth)).toEqual([0, 1, 2]);
+    expect(invoice.messages[2].parentMessageId).toBe('a2@x');
+    expect(invoice).toMatchObject({ rootMessageId: 'a1@x', subject: 'Invoice', lastDate: d(3) });
+  });
+
+  it('produces the same ids as threadIdFor, including for a missing root', () => {
+    const reply = { subject: 'Re: Plan', messageId: '<r@x>', inReplyTo: '<gone@x>', references: '<gone@x>', date: d(5) };
+    const [thread] = threadMessages([reply]);
+    expect(thread.rootMessageId).toBe('gone@x');
+    expect(thread.threadId).toBe(threadIdFor(reply));
+  });
+
+  it('repairs a chain that lost its References header', () => {
+    const threads = threadMessages([
+      { id: 1, subject: 'Plan', messageId: '<p1@x>', date: d(1) },
+      { id: 2, subject: 'Re: Plan', messageId: '<p2@x>', references: '<p1@x>', date: d(2) },
+      { id: 3, subject: 'Re: Plan', messageId: '<p3@x>', inReplyTo: '<p2@x>', date: d(3) },
+    ]);
+    expect(threads).toHaveLength(1);
+    expect(threads[0].threadId).toBe(threadIdFor({ messageId: '<p1@x>' }));
+  });
+
+  it('falls back to the subject for header-less mail and tolerates loops and duplicates', () => {
+    const threads = threadMessages([
+      { id: 1, subject: 'Standup', date: d(1) },
+      { id: 2, subject: 'Re: Standup', date: d(2) },
+      { id: 3, subject: 'Loop', messageId: '<l1@x>', references: ['<l2@x>'], date: d(3) },
+      { id: 4, subject: 'Loop', messageId: '<l2@x>', references: ['<l1@x>'], date: d(4) },
+      { id: 5, subject: 'Loop', messageId: '<l2@x>', references: ['<l1@x>'], date: d(5) },
+    ]);
+    const standup = threads.find(t => t.messages.some(m => m.message.id === 1))!;
+    expect(standup.messages.map(m => m.message.id)).toEqual([1, 2]);
+    expect(standup.threadId).toBe(threadIdFor({ subject: 'Standup' }));
+    expect(standup.rootMessageId).toBeNull();
+    const loop = threads.find(t => t.messages.some(m => m.message.id === 3))!;
+    expect(loop.messages.map(m => m.message.id)).toEqual([3, 4, 5]);
+  });
+});
+
 describe('ThreadCache', () => {
   let dir: string;
   let cache: ThreadCache;
@@ -207,9 +207,21 @@ export class AccountManager {
 
     // Purge per-agent data that keys on agent_id so a deleted agent
     // leaves nothing orphaned behind. agent_memory is the persistent
-    // memory store; the table may not exist yet on installs that never
-    // initialised it, so the delete is best-effort.
-    try { this.db.prepare('DELETE FROM agent_memory WHERE agent_id = ?').run(id); } catch { /* table may not exist */ }
+    // memory store (with its vectors, consolidation history — whose
+    // version snapshots hold full entry text — and shared-space grants;
+    // entries the agent wrote to shared spaces stay). Mirrors
+    // AgentMemoryManager.deleteAgentMemories. The tables may not exist
+    // yet on installs that never initialised them, so the deletes are
+    // best-effort.
+    for (const sql of [
+      'DELETE FROM agent_memory WHERE agent_id = ?',
+      'DELETE FROM agent_memory_vectors WHERE agent_id = ?',
+      'DELETE FROM agent_memory_versions WHERE change_id IN (SELECT id FROM agent_memory_changes WHERE agent_id = ?)',
+      'DELETE FROM agent_memory_changes WHERE agent_id = ?',
+      'DELETE FROM agent_memory_space_grants WHERE agent_id = ?',
+    ]) {
+      try { this.db.prepare(sql).run(id); } catch { /* table may not exist */ }
+    }
 
     return result.changes > 0;
   }
@@ -0,0 +1,36 @@
+/**
+ * In-process feed of SMS, Telegram and phone-call activity.
+ *
+ * Inbound SMS and Telegram messages are recorded from several places —
+ * provider webhooks in the API, but also pollers that run inside core
+ * (Google Voice forwarding, Telegram long-poll, the gateway's SMS
+ * watcher). The managers announce every record here so the API can
+ * fan the activity out to event streams without each caller having to
+ * remember to do it.
+ *
+ * Listeners run synchronously inside the recording call; a listener
+ * that throws is ignored so it can never fail the write that fired it.
+ */
+
+export interface ChannelActivity {
+  type: 'sms' | 'telegram' | 'call';
+  agentId: string;
+  [key: string]: unknown;
+}
+
+export type ChannelActivityListener = (event: ChannelActivity) => void;
+
+const listeners = new Set<ChannelActivityListener>();
+
+/** Subscribe to channel activity. Returns the unsubscribe function. */
+export function onChannelActivity(listener: ChannelActivityListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Announce channel activity to every listener. */
+export function emitChannelActivity(event: ChannelActivity): void {
+  for (const listener of listeners) {
+    try { listener(event); } catch { /* listeners must not break recording */ }
+  }
+}
@@ -1,6 +1,7 @@
 import { homedir } from 'node:os';
 import { join } from 'node:path';
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import type { MemoryEmbedderConfig } from './memory/embedder.js';
 
 /** Deep merge source into target, preserving nested objects */
 function deepMerge(target: Record<string, any>, source: Record<string, any>): void {
@@ -70,7 +71,8 @@ export interface AgenticMailConfig {
    * unset, phone missions still place and track calls (call-control),
    * but a 46elks realtime-media WebSocket cannot be bridged to a
    * conversational model. Read from the `OPENAI_API_KEY` env var or
-   * `config.json`. Optional — no other feature depends on it.
+   * `config.json`. Optional. Also the fallback key of the `openai`
+   * memory embedder (`memory.embedder`).
    */
   openaiApiKey?: string;
   /**
@@ -98,6 +100,34 @@ export interface AgenticMailConfig {
    * Read from `AGENTICMAIL_VOICE_RUNTIME` env var or `config.json`.
    */
   voiceRuntime?: string;
+  /**
+   * Public HTTPS base URL the API is reachable at from the internet
+   * (e.g. `https://mail.example.com`). Used for links that outside
+   * recipients follow, like the one-click unsubscribe URL of bulk
+   * mail. Domain mode falls back to `https://<domain>`, which the
+   * tunnel already routes to the API. Read from `AGENTICMAIL_PUBLIC_URL`
+   * or `config.json`.
+   */
+  publicUrl?: string;
+  /**
+   * Agent memory settings. `embedder` picks how memory entries are
+   * embedded for semantic recall: the built-in CPU-only `local`
+   * embedder (the default), or `openai` / `ollama` / any
+   * OpenAI-compatible `http` endpoint. Changing it leaves existing
+   * entries keyword-searchable only until `agenticmail memory backfill`
+   * runs. `fullTextSearch: 'fts5'` ranks keywords in SQLite instead of
+   * a per-agent in-RAM index; `maxCachedAgents` / `maxCachedEntries`
+   * bound how much memory stays loaded. `consolidateEveryHours`
+   * schedules the duplicate/correction consolidation pass (default 0,
+   * off; set e.g. 24 to opt in). Read from `config.json`.
+   */
+  memory?: {
+    embedder?: MemoryEmbedderConfig;
+    fullTextSearch?: 'memory' | 'fts5';
+    maxCachedAgents?: number;
+    maxCachedEntries?: number;
+    consolidateEveryHours?: number;
+  };
   masterKey: string;
   dataDir: string;
 }
@@ -176,6 +206,9 @@ export function resolveConfig(overrides?: Partial<AgenticMailConfig>): AgenticMa
   if (env.AGENTICMAIL_VOICE_RUNTIME && env.AGENTICMAIL_VOICE_RUNTIME.trim()) {
     config.voiceRuntime = env.AGENTICMAIL_VOICE_RUNTIME.trim();
   }
+  if (env.AGENTICMAIL_PUBLIC_URL && env.AGENTICMAIL_PUBLIC_URL.trim()) {
+    config.publicUrl = env.AGENTICMAIL_PUBLIC_URL.trim();
+  }
 
   // Merge file-based config if it exists (deep merge to preserve nested objects)
   const configPath = join(config.dataDir, 'config.json');
@@ -0,0 +1,341 @@
+import { generateKeyPairSync } from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { Database } from '../storage/db.js';
+import { encryptSecret, decryptSecret } from '../crypto/secrets.js';
+import type { StalwartAdmin } from '../stalwart/admin.js';
+import type { CloudflareClient } from './cloudflare.js';
+import type { DNSConfigurator } from './dns-setup.js';
+import type { DkimAlgorithm, DkimKeyInfo, DkimKeyStatus, DkimStatus } from './types.js';
+
+export interface DkimKeyManagerOptions {
+  db: Database;
+  cf: Pick<CloudflareClient, 'getZone'>;
+  dns: Pick<DNSConfigurator, 'publishDkimKey' | 'removeDkimKey' | 'verify'>;
+  stalwart: Pick<StalwartAdmin, 'installDkimSignature' | 'setDkimSigners' | 'removeDkimSignature' | 'hasDkimSignature'>;
+  /** Master key; private keys are stored with encryptSecret. */
+  encryptionKey: string | null;
+  now?: () => Date;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface DkimRotateOptions {
+  /** Days a replaced selector stays in DNS so mail in flight still verifies. */
+  gracePeriodDays?: number;
+  /** How long to wait for the new selectors to resolve before giving up. */
+  propagationTimeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+export interface DkimRotationResult {
+  domain: string;
+  /**
+   * `active` — Stalwart now signs with the new keys.
+   * `awaiting_dns` — the keys are published but not resolvable yet;
+   * rotating again resumes from there instead of generating new keys.
+   */
+  status: 'active' | 'awaiting_dns';
+  keys: DkimKeyInfo[];
+  /** Keys the new ones replaced, now in their grace period. */
+  retiring: DkimKeyInfo[];
+  /** Keys whose grace period ended during this call. */
+  retired: DkimKeyInfo[];
+}
+
+interface DkimKeyRow {
+  id: string;
+  domain: string;
+  selector: string;
+  algorithm: DkimAlgorithm;
+  signature_id: string;
+  public_key: string;
+  private_key: string | null;
+  status: DkimKeyStatus;
+  error: string | null;
+  created_at: string;
+  published_at: string | null;
+  activated_at: string | null;
+  retire_after: string | null;
+  retired_at: string | null;
+}
+
+export const DKIM_DEFAULT_GRACE_DAYS = 7;
+const DEFAULT_PROPAGATION_TIMEOUT_MS = 120_000;
+const DEFAULT_POLL_INTERVAL_MS = 10_000;
+
+/** Selector and signature used by StalwartAdmin.createDkimSignature during setup. */
+const LEGACY_SELECTOR = 'agenticmail';
+
+/** Each rotation publishes one key per algorithm; Stalwart signs with both. */
+const KEY_TYPES: Array<{ algorithm: DkimAlgorithm; suffix: string }> = [
+  { algorithm: 'rsa-sha256', suffix: 'r' },
+  { algorithm: 'ed25519-sha256', suffix: 'e' },
+];
+
+/**
+ * Generate a DKIM key pair. `publicKey` is the DNS `p=` value (SPKI for
+ * RSA, the raw 32-byte key for Ed25519 per RFC 8463); `privateKey` is
+ * PEM in the form Stalwart loads (PKCS#1 for RSA, PKCS#8 for Ed25519).
+ */
+export function generateDkimKeyPair(algorithm: DkimAlgorithm): { publicKey: string; privateKey: string } {
+  if (algorithm === 'rsa-sha256') {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'der' },
+      privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+    });
+    return { publicKey: publicKey.toString('base64'), privateKey };
+  }
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'der' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  return { publicKey: publicKey.subarray(-32).toString('base64'), privateKey };
+}
+
+function signatureIdFor(domain: string, selector: string): string {
+  const base = `agenticmail-${domain.replace(/\./g, '-')}`;
+  return selector === LEGACY_SELECTOR ? base : `${base}-${selector}`;
+}
+
+function toInfo(row: DkimKeyRow): DkimKeyInfo {
+  return {
+    id: row.id,
+    domain: row.domain,
+    selector: row.selector,
+    algorithm: row.algorithm,
+    status: row.status,
+    publicKey: row.public_key,
+    createdAt: row.created_at,
+    publishedAt: row.published_at,
+    activatedAt: row.activated_at,
+    retireAfter: row.retire_after,
+    retiredAt: row.retired_at,
+    error: row.error,
+  };
+}
+
+/**
+ * DKIM key lifecycle for domain mode: generates RSA-2048 and Ed25519
+ * keys, publishes their selectors through Cloudflare, switches Stalwart
+ * to them once DNS resolves, and removes replaced selectors after a
+ * grace period. State lives in `dkim_keys`, so an interrupted rotation
+ * picks up where it stopped.
+ */
+export class DkimKeyManager {
+  private db: Database;
+  private now: () => Date;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(private options: DkimKeyManagerOptions) {
+    this.db = options.db;
+    this.now = options.now ?? (() => new Date());
+    this.sleep = options.sleep ?? (ms => new Promise(r => setTimeout(r, ms)));
+  }
+
+  /** Keys for a domain (or every domain), newest first. */
+  list(domain?: string): DkimKeyInfo[] {
+    const rows = domain
+      ? this.db.prepare('SELECT * FROM dkim_keys WHERE domain = ? ORDER BY created_at DESC, selector').all(domain)
+      : this.db.prepare('SELECT * FROM dkim_keys ORDER BY created_at DESC, selector').all();
+    return (rows as unknown as DkimKeyRow[]).map(toInfo);
+  }
+
+  status(domain: string): DkimStatus {
+    const history = this.list(domain);
+    const activated = history.map(k => k.activatedAt).filter((t): t is string => !!t).sort();
+    return {
+      active: history.filter(k => k.status === 'active').map(k => k.selector),
+      pending: history.filter(k => k.status === 'pending' || k.status === 'published').map(k => k.selector),
+      lastRotatedAt: activated[activated.length - 1] ?? null,
+      history,
+    };
+  }
+
+  /**
+   * Rotate the domain's signing keys. Retires keys past their grace
+   * period, then generates and publishes a new key pair (or resumes one
+   * still waiting for DNS), waits for it to resolve via
+   * DNSConfigurator.verify, and switches Stalwart over to it.
+   */
+  async rotate(domain: string, options: DkimRotateOptions = {}): Promise<DkimRotationResult> {
+    if (!this.options.encryptionKey) {
+      throw new Error('DKIM key rotation requires the master key to encrypt private keys');
+    }
+    const retired = await this.retireExpired(domain);
+    const zoneId = await this.zoneId(domain);
+
+    let keys = this.rows(domain, ['pending', 'published']);
+    if (keys.length === 0) keys = this.generate(domain);
+    for (const key of keys) {
+      if (key.status === 'pending') await this.publish(zoneId, key);
+    }
+
+    const propagated = await this.waitForPropagation(domain, keys, options);
+    if (!propagated) {
+      return { domain, status: 'awaiting_dns', keys: keys.map(k => toInfo(this.row(k.id))), retiring: [], retired };
+    }
+
+    const retiring = await this.activate(domain, keys, options.gracePeriodDays ?? DKIM_DEFAULT_GRACE_DAYS);
+    return { domain, status: 'active', keys: keys.map(k => toInfo(this.row(k.id))), retiring, retired };
+  }
+
+  /**
+   * Remove retiring keys whose grace period has ended (all retiring keys
+   * with `force`): delete the DNS record and Stalwart signature and wipe
+   * the private key. A key that fails keeps its status and records the
+   * error for the next attempt.
+   */
+  async retireExpired(domain?: string, options: { force?: boolean } = {}): Promise<DkimKeyInfo[]> {
+    const now = this.now().toISOString();
+    const due = (domain
+      ? this.db.prepare("SELECT * FROM dkim_keys WHERE status = 'retiring' AND domain = ? ORDER BY selector").all(domain)
+      : this.db.prepare("SELECT * FROM dkim_keys WHERE status = 'retiring' ORDER BY domain, selector").all()) as unknown as DkimKeyRow[];
+    const zones = new Map<string, string>();
+    const retired: DkimKeyInfo[] = [];
+
+    for (const key of due) {
+      if (!options.force && (!key.retire_after || key.retire_after > now)) continue;
+      try {
+        if (!zones.has(key.domain)) zones.set(key.domain, await this.zoneId(key.domain));
+        await this.options.dns.removeDkimKey(key.domain, zones.get(key.domain)!, key.selector);
+        await this.options.stalwart.removeDkimSignature(key.signature_id);
+        this.db.prepare(
+          "UPDATE dkim_keys SET status = 'retired', retired_at = ?, private_key = NULL, error = NULL WHERE id = ?",
+        ).run(this.now().toISOString(), key.id);
+        retired.push(toInfo(this.row(key.id)));
+      } catch (err) {
+        this.setError(key.id, err);
+      }
+    }
+    return retired;
+  }
+
+  private generate(domain: string): DkimKeyRow[] {
+    const date = this.now().toISOString().slice(0, 10).replace(/-/g, '');
+    const taken = new Set((this.db.prepare('SELECT selector FROM dkim_keys WHERE domain = ?').all(domain) as Array<{ selector: string }>)
+      .map(r => r.selector));
+    let n = 1;
+    const selectorsFor = (i: number) => KEY_TYPES.map(t => `am${date}${t.suffix}${i > 1 ? i : ''}`);
+    while (selectorsFor(n).some(s => taken.has(s))) n++;
+    const selectors = selectorsFor(n);
+
+    const insert = this.db.prepare(`
+      INSERT INTO dkim_keys (id, domain, selector, algorithm, signature_id, public_key, private_key, status, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?)
+    `);
+    const createdAt = this.now().toISOString();
+    this.transaction(() => {
+      KEY_TYPES.forEach(({ algorithm }, i) => {
+        const pair = generateDkimKeyPair(algorithm);
+        insert.run(
+          uuidv4(), domain, selectors[i], algorithm, signatureIdFor(domain, selectors[i]),
+          pair.publicKey, encryptSecret(pair.privateKey, this.options.encryptionKey!), createdAt,
+        );
+      });
+    });
+    return this.rows(domain, ['pending']);
+  }
+
+  private async publish(zoneId: string, key: DkimKeyRow): Promise<void> {
+    try {
+      const keyType = key.algorithm === 'ed25519-sha256' ? 'ed25519' : 'rsa';
+      await this.options.dns.publishDkimKey(key.domain, zoneId, key.selector, key.public_key, keyType);
+    } catch (err) {
+      this.setError(key.id, err);
+      throw err;
+    }
+    this.db.prepare("UPDATE dkim_keys SET status = 'published', published_at = ?, error = NULL WHERE id = ?")
+      .run(this.now().toISOString(), key.id);
+    key.status = 'published';
+  }
+
+  private async waitForPropagation(domain: string, keys: DkimKeyRow[], options: DkimRotateOptions): Promise<boolean> {
+    const timeout = options.propagationTimeoutMs ?? DEFAULT_PROPAGATION_TIMEOUT_MS;
+    const interval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const deadline = this.now().getTime() + timeout;
+    for (;;) {
+      const result = await this.options.dns.verify(domain, {
+        dkim: keys.map(k => ({ selector: k.selector, publicKey: k.public_key })),
+      });
+      if (keys.every(k => result.dkim[k.selector])) return true;
+      if (this.now().getTime() + interval > deadline) return false;
+      await this.sleep(interval);
+    }
+  }
+
+  /** Install the new keys in Stalwart, sign with them, and start the old keys' grace period. */
+  private async activate(domain: string, keys: DkimKeyRow[], graceDays: number): Promise<DkimKeyInfo[]> {
+    const { stalwart } = this.options;
+    const previous = this.rows(domain, ['active']);
+    // The setup-time signature (selector "agenticmail") was generated by
+    // Stalwart and has no row until its first replacement.
+    const adoptLegacy = !this.db.prepare('SELECT 1 FROM dkim_keys WHERE domain = ? AND selector = ?').get(domain, LEGACY_SELECTOR)
+      && await stalwart.hasDkimSignature(domain);
+
+    try {
+      for (const key of keys) {
+        await stalwart.installDkimSignature({
+          signatureId: key.signature_id,
+          domain,
+          selector: key.selector,
+          algorithm: key.algorithm,
+          privateKey: decryptSecret(key.private_key!, this.options.encryptionKey!),
+        });
+      }
+      await stalwart.setDkimSigners(keys.map(k => k.signature_id));
+    } catch (err) {
+      for (const key of keys) this.setError(key.id, err);
+      throw err;
+    }
+
+    const now = this.now();
+    const retireAfter = new Date(now.getTime() + graceDays * 86_400_000).toISOString();
+    const retiringIds = previous.map(k => k.id);
+    this.transaction(() => {
+      const activate = this.db.prepare("UPDATE dkim_keys SET status = 'active', activated_at = ?, error = NULL WHERE id = ?");
+      for (const key of keys) activate.run(now.toISOString(), key.id);
+      const retire = this.db.prepare("UPDATE dkim_keys SET status = 'retiring', retire_after = ? WHERE id = ?");
+      for (const key of previous) retire.run(retireAfter, key.id);
+      if (adoptLegacy) {
+        const id = uuidv4();
+        this.db.prepare(`
+          INSERT INTO dkim_keys (id, domain, selector, algorithm, signature_id, status, created_at, retire_after)
+          VALUES (?, ?, ?, 'rsa-sha256', ?, 'retiring', ?, ?)
+        `).run(id, domain, LEGACY_SELECTOR, signatureIdFor(domain, LEGACY_SELECTOR), now.toISOString(), retireAfter);
+        retiringIds.push(id);
+      }
+    });
+    return retiringIds.map(id => toInfo(this.row(id)));
+  }
+
+  private async zoneId(domain: string): Promise<string> {
+    const zone = await this.options.cf.getZone(domain);
+    if (!zone) throw new Error(`No Cloudflare zone found for ${domain}`);
+    return zone.id;
+  }
+
+  private rows(domain: string, statuses: DkimKeyStatus[]): DkimKeyRow[] {
+    return this.db.prepare(
+      `SELECT * FROM dkim_keys WHERE domain = ? AND status IN (${statuses.map(() => '?').join(', ')}) ORDER BY selector`,
+    ).all(domain, ...statuses) as unknown as DkimKeyRow[];
+  }
+
+  private row(id: string): DkimKeyRow {
+    return this.db.prepare('SELECT * FROM dkim_keys WHERE id = ?').get(id) as unknown as DkimKeyRow;
+  }
+
+  private setError(id: string, err: unknown): void {
+    this.db.prepare('UPDATE dkim_keys SET error = ? WHERE id = ?').run((err as Error).message ?? String(err), id);
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      fn();
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import { promises as dns } from 'node:dns';
 import { CloudflareClient } from './cloudflare.js';
+import type { EmailAuthDnsResolver } from '../mail/email-auth.js';
+
+export type DkimKeyType = 'rsa' | 'ed25519';
 
 export interface DnsSetupResult {
   records: Array<{
@@ -22,7 +25,10 @@ export interface DnsSetupResult {
  * Replaces conflicting records (old MX, SPF, A records) to ensure clean setup.
  */
 export class DNSConfigurator {
-  constructor(private cf: CloudflareClient) {}
+  constructor(
+    private cf: CloudflareClient,
+    private resolver: Pick<EmailAuthDnsResolver, 'resolveTxt' | 'resolveMx'> = dns,
+  ) {}
 
   /**
    * Configure all DNS records required for email on a domain.
@@ -134,32 +140,68 @@ export class DNSConfigurator {
 
     // --- DKIM record (if key provided) ---
     if (options?.dkimSelector && options?.dkimPublicKey) {
-      const dkimName = `${options.dkimSelector}._domainkey.${domain}`;
-      const ourDkim = `v=DKIM1; k=rsa; p=${options.dkimPublicKey}`;
-      const existingDkim = findRecords('TXT', dkimName, 'v=DKIM1');
-      const alreadyCorrect = existingDkim.some((r: any) => normalize(r.content) === ourDkim);
-
-      if (!alreadyCorrect) {
-        // Remove any outdated DKIM records (key mismatch from previous setup)
-        for (const rec of existingDkim) {
-          await this.cf.deleteDnsRecord(zoneId, rec.id);
-          removed.push({ type: 'TXT', name: dkimName, content: rec.content, reason: 'Replaced by current DKIM key' });
-        }
-        await this.cf.createDnsRecord(zoneId, {
-          type: 'TXT',
-          name: dkimName,
-          content: ourDkim,
-        });
+      const dkim = await this.publishDkimKey(domain, zoneId, options.dkimSelector, options.dkimPublicKey, 'rsa', existing);
+      records.push(dkim.record);
+      removed.push(...dkim.removed);
+    }
+
+    return { records, removed };
+  }
+
+  /**
+   * Publish a DKIM public key as `<selector>._domainkey.<domain>`,
+   * replacing a stale record under the same selector.
+   * `existing` saves a zone listing when the caller already has one.
+   */
+  async publishDkimKey(
+    domain: string,
+    zoneId: string,
+    selector: string,
+    publicKey: string,
+    keyType: DkimKeyType = 'rsa',
+    existing?: any[],
+  ): Promise<{ record: DnsSetupResult['records'][number]; removed: DnsSetupResult['removed']; recordId?: string }> {
+    const removed: DnsSetupResult['removed'] = [];
+    const dkimName = `${selector}._domainkey.${domain}`;
+    const ourDkim = `v=DKIM1; k=${keyType}; p=${publicKey}`;
+    const normalize = (s: string) => s.replace(/^["']|["']$/g, '');
+    const existingDkim = (existing ?? await this.cf.listDnsRecords(zoneId)).filter((r: any) =>
+      r.type === 'TXT' && r.name === dkimName && normalize(r.content ?? '').startsWith('v=DKIM1')
+    );
+    let recordId = existingDkim.find((r: any) => normalize(r.content) === ourDkim)?.id;
+
+    if (!recordId) {
+      // Remove any outdated DKIM records (key mismatch from previous setup)
+      for (const rec of existingDkim) {
+        await this.cf.deleteDnsRecord(zoneId, rec.id);
+        removed.push({ type: 'TXT', name: dkimName, content: rec.content, reason: 'Replaced by current DKIM key' });
       }
-      records.push({
+      const created = await this.cf.createDnsRecord(zoneId, {
         type: 'TXT',
         name: dkimName,
         content: ourDkim,
-        purpose: 'DKIM — DomainKeys Identified Mail',
       });
+      recordId = created?.id;
     }
 
-    return { records, removed };
+    return {
+      record: { type: 'TXT', name: dkimName, content: ourDkim, purpose: 'DKIM — DomainKeys Identified Mail' },
+      removed,
+      recordId,
+    };
+  }
+
+  /**
+   * Delete the DKIM TXT record(s) for a selector. Returns the number removed.
+   */
+  async removeDkimKey(domain: string, zoneId: string, selector: string): Promise<number> {
+    const dkimName = `${selector}._domainkey.${domain}`;
+    const existing = await this.cf.listDnsRecords(zoneId);
+    const matches = existing.filter((r: any) => r.type === 'TXT' && r.name === dkimName);
+    for (const rec of matches) {
+      await this.cf.deleteDnsRecord(zoneId, rec.id);
+    }
+    return matches.length;
   }
 
   /**
@@ -230,31 +272,47 @@ export class DNSConfigurator {
 
   /**
    * Verify DNS propagation by resolving MX and TXT records.
+   * Pass `dkim` selectors to also check that each resolves to its
+   * expected public key (any DKIM1 record when `publicKey` is omitted).
    */
-  async verify(domain: string): Promise<{
+  async verify(domain: string, options?: {
+    dkim?: Array<{ selector: string; publicKey?: string }>;
+  }): Promise<{
     mx: boolean;
     spf: boolean;
     dmarc: boolean;
+    dkim: Record<string, boolean>;
   }> {
-    const result = { mx: false, spf: false, dmarc: false };
+    const result = { mx: false, spf: false, dmarc: false, dkim: {} as Record<string, boolean> };
 
     try {
-      const mxRecords = await dns.resolveMx(domain);
+      const mxRecords = await this.resolver.resolveMx(domain);
       result.mx = mxRecords.length > 0;
     } catch { /* not propagated yet */ }
 
     try {
-      const txtRecords = await dns.resolveTxt(domain);
+      const txtRecords = await this.resolver.resolveTxt(domain);
       const flat = txtRecords.map((r) => r.join(''));
       result.spf = flat.some((r) => r.startsWith('v=spf1'));
     } catch { /* not propagated yet */ }
 
     try {
-      const dmarcRecords = await dns.resolveTxt(`_dmarc.${domain}`);
+      const dmarcRecords = await this.resolver.resolveTxt(`_dmarc.${domain}`);
       const flat = dmarcRecords.map((r) => r.join(''));
       result.dmarc = flat.some((r) => r.startsWith('v=DMARC1'));
     } catch { /* not propagated yet */ }
 
+    for (const { selector, publicKey } of options?.dkim ?? []) {
+      result.dkim[selector] = false;
+      try {
+        const dkimRecords = await this.resolver.resolveTxt(`${selector}._domainkey.${domain}`);
+        const flat = dkimRecords.map((r) => r.join('').replace(/\s+/g, ''));
+        result.dkim[selector] = flat.some((r) =>
+          r.startsWith('v=DKIM1') && (!publicKey || r.split(';').includes(`p=${publicKey}`))
+        );
+      } catch { /* not propagated yet */ }
+    }
+
     return result;
   }
 }
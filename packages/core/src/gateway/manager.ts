@@ -8,10 +8,12 @@ import { CloudflareClient } from './cloudflare.js';
 import { DomainPurchaser } from './domain-purchase.js';
 import { DNSConfigurator } from './dns-setup.js';
 import { TunnelManager } from './tunnel.js';
+import { DkimKeyManager, type DkimRotateOptions, type DkimRotationResult } from './dkim-keys.js';
 import type {
   GatewayConfig,
   GatewayMode,
   GatewayStatus,
+  DkimKeyInfo,
   RelayConfig,
   DomainModeConfig,
   GatewayConfigRow,
@@ -22,6 +24,14 @@ import MailComposer from 'nodemailer/lib/mail-composer/index.js';
 import type { SendMailOptions, SendResult, ParsedEmail, AddressInfo, ParsedAttachment } from '../mail/types.js';
 import type { SendResultWithRaw } from '../mail/sender.js';
 import { scoreEmail } from '../mail/spam-filter.js';
+import { loadOutboundPolicy } from '../mail/outbound-policy.js';
+import { OutboundQuota, type OutboundQuotaExceeded, type OutboundQuotaUsage } from '../mail/outbound-quota.js';
+import {
+  verifyEmailAuthentication,
+  formatAuthenticationResults,
+  type EmailAuthDnsResolver,
+  type EmailAuthResult,
+} from '../mail/email-auth.js';
 import { isOperatorReplySender } from '../phone/realtime-tools.js';
 import type { StalwartAdmin } from '../stalwart/admin.js';
 import type { AccountManager } from '../accounts/manager.js';
@@ -52,6 +62,12 @@ export interface GatewayManagerOptions {
   onInboundMail?: (agentName: string, mail: InboundEmail) => void | Promise<void>;
   /** Master key used to encrypt credentials at rest in SQLite. */
   encryptionKey?: string;
+  /** DNS for inbound SPF/DKIM/DMARC/ARC checks; defaults to the system resolver. */
+  dnsResolver?: EmailAuthDnsResolver;
+  /** Where outbound-policy.json lives; outbound quotas are only enforced when set. */
+  dataDir?: string;
+  /** Called when an agent (or the install) first hits an outbound quota limit. */
+  onQuotaExceeded?: (exceeded: OutboundQuotaExceeded) => void;
 }
 
 /**
@@ -69,6 +85,9 @@ export class GatewayManager {
   private tunnel: TunnelManager | null = null;
   private dnsConfigurator: DNSConfigurator | null = null;
   private domainPurchaser: DomainPurchaser | null = null;
+  private dkimKeys: DkimKeyManager | null = null;
+  private dkimRetireTimer: ReturnType<typeof setInterval> | null = null;
+  private outboundQuota: OutboundQuota;
   private smsManager: SmsManager | null = null;
   private smsPollers: Map<string, SmsPoller> = new Map();
   private telegramManager: TelegramManager | null = null;
@@ -80,6 +99,7 @@ export class GatewayManager {
     this.stalwart = options.stalwart;
     this.accountManager = options.accountManager ?? null;
     this.encryptionKey = options.encryptionKey ?? process.env.AGENTICMAIL_MASTER_KEY ?? null;
+    this.outboundQuota = new OutboundQuota(options.db, { onExceeded: options.onQuotaExceeded });
 
     // Wire up inbound mail handler: either user-provided or built-in local delivery
     const inboundHandler = options.onInboundMail ?? (
@@ -169,15 +189,28 @@ export class GatewayManager {
       }
     }
 
+    // Verify the sender before anything trusts the From header. The
+    // relay mailbox's provider already accepted the message, so the
+    // connecting IP is unknown here: SPF stays `none` and DMARC rests
+    // on DKIM.
+    let authentication: EmailAuthResult | undefined;
+    if (mail.raw) {
+      try {
+        authentication = await verifyEmailAuthentication(mail.raw, { resolver: this.options.dnsResolver });
+      } catch (err) {
+        console.warn(`[GatewayManager] Sender verification failed: ${(err as Error).message}`);
+      }
+    }
+
     // Check if this is a reply to a pending approval notification
     try {
-      await this.tryProcessApprovalReply(mail);
+      await this.tryProcessApprovalReply(mail, authentication);
     } catch (err) {
       console.warn(`[GatewayManager] Approval reply check failed: ${(err as Error).message}`);
     }
 
     // --- Spam filter: skip for internal @localhost emails (no SPF/DKIM to check) ---
-    const parsed = inboundToParsedEmail(mail);
+    const parsed = inboundToParsedEmail(mail, authentication);
     const { isInternalEmail } = await import('../mail/spam-filter.js');
     if (!isInternalEmail(parsed)) {
       const spamResult = scoreEmail(parsed);
@@ -237,6 +270,7 @@ export class GatewayManager {
           'X-AgenticMail-Relay': 'inbound',
           'X-Original-From': mail.from,
           ...(mail.messageId ? { 'X-Original-Message-Id': mail.messageId } : {}),
+          ...(authentication ? { 'Authentication-Results': formatAuthenticationResults(authentication) } : {}),
         },
         attachments: mail.attachments?.map(a => ({
           filename: a.filename,
@@ -259,7 +293,7 @@ export class GatewayManager {
    * If the reply body starts with "approve"/"yes" or "reject"/"no", automatically
    * process the pending email (send it or discard it) and confirm to the owner.
    */
-  private async tryProcessApprovalReply(mail: InboundEmail): Promise<boolean> {
+  private async tryProcessApprovalReply(mail: InboundEmail, authentication?: EmailAuthResult): Promise<boolean> {
     // Need In-Reply-To or References to match against notification
     const candidateIds: string[] = [];
     if (mail.inReplyTo) candidateIds.push(mail.inReplyTo);
@@ -283,12 +317,14 @@ export class GatewayManager {
     // reply ONLY when its `From` matches the configured owner (the address
     // the approval notification was sent to). Fail-closed: with no owner
     // relay email configured, nobody is trusted and the reply is inert —
-    // mirroring the operator-query email-reply sibling.
+    // mirroring the operator-query email-reply sibling. When the raw
+    // message was verified, the owner's domain must also have signed it.
     const ownerEmail = this.config.relay?.email;
-    if (!isOperatorReplySender(mail.from, ownerEmail)) {
+    if (!isOperatorReplySender(mail.from, ownerEmail, authentication)) {
       console.warn(
         `[GatewayManager] approval reply for ${row.id} rejected — `
-        + `sender "${mail.from || '(unknown)'}" is not the configured owner`,
+        + `sender "${mail.from || '(unknown)'}" is not the configured owner`
+        + (authentication && !authentication.fromAligned ? ' or failed sender authentication' : ''),
       );
       return false;
     }
@@ -402,6 +438,7 @@ export class GatewayManager {
             contentType: a.contentType,
             encoding: a.encoding,
           })),
+          icalEvent: mailOpts.icalEvent,
         });
       } finally {
         transport.close();
@@ -508,6 +545,8 @@ export class GatewayManager {
     this.dnsConfigurator = new DNSConfigurator(this.cfClient);
     this.tunnel = new TunnelManager(this.cfClient);
     this.domainPurchaser = new DomainPurchaser(this.cfClient);
+    this.dkimKeys = this.createDkimKeyManager(this.cfClient, this.dnsConfigurator);
+    this.startDkimRetirement();
 
     let domain = options.domain;
 
@@ -809,23 +848,54 @@ export class GatewayManager {
     ];
 
     const localDomain = this.config.domain?.domain?.toLowerCase();
-    const isExternal = allRecipients.some((addr) => {
+    const externalRecipients = allRecipients.filter((addr) => {
       const domain = (addr.split('@')[1] ?? 'localhost').toLowerCase();
       return domain !== 'localhost' && domain !== localDomain;
     });
 
-    if (!isExternal) return null;
+    if (externalRecipients.length === 0) return null;
+    if (this.config.mode !== 'relay' && !(this.config.mode === 'domain' && this.config.domain)) return null;
 
-    if (this.config.mode === 'relay') {
-      return this.relay.sendViaRelay(agentName, mail);
+    // Throws OutboundQuotaError (429) before anything leaves the machine.
+    const reservation = this.options.dataDir
+      ? this.outboundQuota.reserve(agentName, externalRecipients, loadOutboundPolicy(this.options.dataDir, agentName).quotas)
+      : null;
+    try {
+      if (this.config.mode === 'relay') {
+        return await this.relay.sendViaRelay(agentName, mail);
+      }
+      // Domain mode: submit to Stalwart for direct MX delivery (DKIM signed, FROM preserved)
+      return await this.sendViaStalwart(agentName, mail);
+    } catch (err) {
+      this.outboundQuota.release(reservation);
+      throw err;
     }
+  }
 
-    // Domain mode: submit to Stalwart for direct MX delivery (DKIM signed, FROM preserved)
-    if (this.config.mode === 'domain' && this.config.domain) {
-      return this.sendViaStalwart(agentName, mail);
-    }
+  /**
+   * Outbound quota counters for an agent next to the limits from its
+   * policy. Null when no dataDir was configured (quotas are off).
+   */
+  getOutboundQuotaUsage(agentName: string): OutboundQuotaUsage | null {
+    if (!this.options.dataDir) return null;
+    return this.outboundQuota.usage(agentName, loadOutboundPolicy(this.options.dataDir, agentName).quotas);
+  }
 
-    return null;
+  /**
+   * The From address external recipients see for an agent: the relay
+   * sub-address in relay mode, the domain address in domain mode, the
+   * agent's own address otherwise. Calendar invites use it as ORGANIZER
+   * so RSVPs come back to the agent.
+   */
+  outboundAddress(agent: { name: string; email: string }): string {
+    if (this.config.mode === 'relay' && this.config.relay?.email) {
+      const at = this.config.relay.email.lastIndexOf('@');
+      return `${this.config.relay.email.slice(0, at)}+${agent.name}@${this.config.relay.email.slice(at + 1)}`;
+    }
+    if (this.config.mode === 'domain' && this.config.domain?.domain) {
+      return agent.email.replace(/@localhost$/, `@${this.config.domain.domain}`);
+    }
+    return agent.email;
   }
 
   /**
@@ -902,6 +972,7 @@ export class GatewayManager {
         contentType: a.contentType,
         encoding: a.encoding,
       })),
+      icalEvent: mail.icalEvent,
     };
 
     // Build raw RFC822 message for Sent folder copy
@@ -962,6 +1033,7 @@ export class GatewayManager {
         domain: this.config.domain.domain,
         dnsConfigured: true,
         tunnelActive: tunnelStatus?.running ?? false,
+        dkim: this.dkimKeys?.status(this.config.domain.domain),
       };
       status.healthy = tunnelStatus?.running ?? false;
     }
@@ -995,6 +1067,53 @@ export class GatewayManager {
     return this.dnsConfigurator;
   }
 
+  // --- DKIM Keys ---
+
+  /**
+   * Generate, publish and switch to new DKIM keys for the domain-mode
+   * domain. See DkimKeyManager.rotate.
+   */
+  async rotateDkimKeys(options?: DkimRotateOptions): Promise<DkimRotationResult> {
+    return this.requireDkimKeys().rotate(this.config.domain!.domain, options);
+  }
+
+  /** Retire replaced DKIM keys whose grace period is over (or all of them with `force`). */
+  async retireDkimKeys(options?: { force?: boolean }): Promise<DkimKeyInfo[]> {
+    return this.requireDkimKeys().retireExpired(this.config.domain!.domain, options);
+  }
+
+  getDkimKeys(): DkimKeyInfo[] {
+    return this.requireDkimKeys().list(this.config.domain!.domain);
+  }
+
+  private requireDkimKeys(): DkimKeyManager {
+    if (this.config.mode !== 'domain' || !this.config.domain || !this.dkimKeys) {
+      throw new Error('DKIM key management requires domain mode');
+    }
+    return this.dkimKeys;
+  }
+
+  private createDkimKeyManager(cf: CloudflareClient, dns: DNSConfigurator): DkimKeyManager {
+    return new DkimKeyManager({
+      db: this.db,
+      cf,
+      dns,
+      stalwart: this.stalwart,
+      encryptionKey: this.encryptionKey,
+    });
+  }
+
+  /** Hourly sweep so replaced selectors leave DNS once their grace period ends. */
+  private startDkimRetirement(): void {
+    if (this.dkimRetireTimer) return;
+    this.dkimRetireTimer = setInterval(() => {
+      this.dkimKeys?.retireExpired().catch((err) => {
+        console.error('[GatewayManager] DKIM key retirement failed:', (err as Error).message);
+      });
+    }, 60 * 60_000);
+    this.dkimRetireTimer.unref?.();
+  }
+
   getTunnelManager(): TunnelManager | null {
     return this.tunnel;
   }
@@ -1333,6 +1452,10 @@ export class GatewayManager {
 
   async shutdown(): Promise<void> {
     await this.relay.shutdown();
+    if (this.dkimRetireTimer) {
+      clearInterval(this.dkimRetireTimer);
+      this.dkimRetireTimer = null;
+    }
     this.tunnel?.stop();
     // Stop all SMS pollers
     for (const poller of this.smsPollers.values()) {
@@ -1399,6 +1522,8 @@ export class GatewayManager {
         this.dnsConfigurator = new DNSConfigurator(this.cfClient);
         this.tunnel = new TunnelManager(this.cfClient);
         this.domainPurchaser = new DomainPurchaser(this.cfClient);
+        this.dkimKeys = this.createDkimKeyManager(this.cfClient, this.dnsConfigurator);
+        this.startDkimRetirement();
 
         if (this.config.domain.tunnelToken) {
           await this.tunnel.start(this.config.domain.tunnelToken);
@@ -1546,7 +1671,7 @@ function parseAddressString(addr: string): AddressInfo {
 /**
  * Convert an InboundEmail (from relay) to a ParsedEmail (for spam filter).
  */
-function inboundToParsedEmail(mail: InboundEmail): ParsedEmail {
+function inboundToParsedEmail(mail: InboundEmail, authentication?: EmailAuthResult): ParsedEmail {
   return {
     messageId: mail.messageId || '',
     subject: mail.subject || '',
@@ -1564,5 +1689,6 @@ function inboundToParsedEmail(mail: InboundEmail): ParsedEmail {
       content: a.content,
     })),
     headers: new Map<string, string>(),
+    ...(authentication ? { authentication } : {}),
   };
 }
@@ -30,6 +30,8 @@ export interface InboundEmail {
     size: number;
     content: Buffer;
   }>;
+  /** The message as fetched, for SPF/DKIM/DMARC/ARC verification. */
+  raw?: Buffer;
 }
 
 /**
@@ -305,6 +307,7 @@ export class RelayGateway {
         contentType: a.contentType,
         encoding: a.encoding,
       })),
+      icalEvent: mail.icalEvent,
     };
 
     // Build raw RFC822 message for Sent folder copy
@@ -537,6 +540,7 @@ export class RelayGateway {
                 size: a.size,
                 content: a.content,
               })) : undefined,
+              raw: source,
             };
 
             try {
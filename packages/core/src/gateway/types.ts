@@ -46,9 +46,43 @@ export interface GatewayStatus {
     domain: string;
     dnsConfigured: boolean;
     tunnelActive: boolean;
+    dkim?: DkimStatus;
   };
 }
 
+export type DkimAlgorithm = 'rsa-sha256' | 'ed25519-sha256';
+
+export type DkimKeyStatus = 'pending' | 'published' | 'active' | 'retiring' | 'retired';
+
+/** A DKIM selector managed by DkimKeyManager. Private keys are never exposed. */
+export interface DkimKeyInfo {
+  id: string;
+  domain: string;
+  selector: string;
+  algorithm: DkimAlgorithm;
+  status: DkimKeyStatus;
+  /** Base64 `p=` value as published in DNS; empty for keys Stalwart generated. */
+  publicKey: string;
+  createdAt: string;
+  publishedAt: string | null;
+  activatedAt: string | null;
+  /** When a retiring key's DNS record and signature get removed. */
+  retireAfter: string | null;
+  retiredAt: string | null;
+  /** Last publish / activate / retire failure, cleared on success. */
+  error: string | null;
+}
+
+export interface DkimStatus {
+  /** Selectors Stalwart currently signs with. */
+  active: string[];
+  /** Selectors published and waiting for DNS propagation. */
+  pending: string[];
+  lastRotatedAt: string | null;
+  /** Every key for the domain, newest first. */
+  history: DkimKeyInfo[];
+}
+
 export interface PurchasedDomain {
   domain: string;
   registrar: string;
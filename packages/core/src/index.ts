@@ -34,7 +34,24 @@ export type {
 } from './mail/types.js';
 
 // Spam Filter & Sanitizer
-export { scoreEmail, isInternalEmail, type SpamResult, type SpamRuleMatch, type SpamCategory, SPAM_THRESHOLD, WARNING_THRESHOLD } from './mail/spam-filter.js';
+export {
+  scoreEmail,
+  isInternalEmail,
+  explainSpamScore,
+  ruleProbability,
+  spamTokens,
+  type SpamResult,
+  type SpamRuleMatch,
+  type SpamCategory,
+  type SpamTokenStats,
+  type SpamTokenContribution,
+  type SpamBayesResult,
+  type SpamExplanation,
+  SPAM_THRESHOLD,
+  WARNING_THRESHOLD,
+  SPAM_MODEL_MIN_DOCS,
+} from './mail/spam-filter.js';
+export { SpamModel, type SpamLabel, type SpamModelStats, type SpamTrainingResult } from './mail/spam-model.js';
 export { classifyEmailRoute, type EmailRouteClassification, type EmailRouteClass, type EmailRouteAction, type EmailRouteInput } from './mail/route-classifier.js';
 export { sanitizeEmail, type SanitizeResult, type SanitizeDetection } from './mail/sanitizer.js';
 
@@ -42,15 +59,108 @@ export { sanitizeEmail, type SanitizeResult, type SanitizeDetection } from './ma
 export {
   scanOutboundEmail,
   buildInboundSecurityAdvisory,
+  outboundRuleIds,
   type OutboundScanResult,
   type OutboundScanInput,
   type OutboundWarning,
   type OutboundCategory,
+  type OutboundConfidence,
   type Severity,
   type SecurityAdvisory,
   type AttachmentAdvisory,
   type LinkAdvisory,
+  type AuthenticationAdvisory,
 } from './mail/outbound-guard.js';
+export {
+  loadOutboundPolicy,
+  parseOutboundPolicy,
+  mergeOutboundPolicies,
+  outboundPolicyPaths,
+  OutboundPolicyError,
+  DEFAULT_REDACTION_PLACEHOLDER,
+  type OutboundAction,
+  type OutboundPolicy,
+  type OutboundPolicyLayer,
+  type OutboundPolicyRule,
+  type OutboundPolicyOverride,
+  type OutboundPolicyScope,
+  type OutboundPolicySource,
+  type OutboundTrustedDomain,
+  type OutboundQuotaExceedAction,
+  type OutboundQuotaLimits,
+  type OutboundQuotaPolicy,
+} from './mail/outbound-policy.js';
+export {
+  OutboundQuota,
+  OutboundQuotaError,
+  type OutboundQuotaCounters,
+  type OutboundQuotaExceeded,
+  type OutboundQuotaLimit,
+  type OutboundQuotaOptions,
+  type OutboundQuotaReservation,
+  type OutboundQuotaScope,
+  type OutboundQuotaUsage,
+} from './mail/outbound-quota.js';
+export { parseBounce, type BounceReport, type BounceRecipient, type BounceType, type BounceAction } from './mail/bounce-parser.js';
+export {
+  BounceTracker,
+  type BounceRecord,
+  type BounceListOptions,
+  type SuppressedRecipient,
+  type SuppressionReason,
+} from './mail/bounce-tracker.js';
+export {
+  UnsubscribeList,
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  listUnsubscribeHeaders,
+  isValidListName,
+  DEFAULT_UNSUBSCRIBE_LIST,
+  type UnsubscribeTarget,
+  type UnsubscribeSource,
+  type UnsubscribeRecord,
+} from './mail/list-unsubscribe.js';
+export {
+  parseICalendar,
+  formatICalendar,
+  type CalendarInvite,
+  type CalendarEvent,
+  type CalendarTime,
+  type CalendarAddress,
+  type CalendarAttendee,
+  type CalendarEventInput,
+  type CalendarInput,
+  type PartStat,
+} from './mail/icalendar.js';
+export {
+  extractAttachmentText,
+  ATTACHMENT_SCAN_LIMITS,
+  type AttachmentScanLimits,
+  type AttachmentExtraction,
+  type ExtractedText,
+} from './mail/attachment-extract.js';
+
+// Inbound Authentication
+export {
+  verifyEmailAuthentication,
+  verifySpf,
+  formatAuthenticationResults,
+  organizationalDomain,
+  createStaticDnsResolver,
+  AUTHSERV_ID,
+  type EmailAuthResult,
+  type EmailAuthOptions,
+  type EmailAuthDnsResolver,
+  type EmailAuthDnsZone,
+  type SpfResult,
+  type SpfVerdict,
+  type DkimSignatureResult,
+  type DkimVerdict,
+  type DmarcResult,
+  type DmarcVerdict,
+  type ArcResult,
+  type ArcVerdict,
+} from './mail/email-auth.js';
 
 // Inbox Watching
 export { InboxWatcher, type InboxWatcherOptions } from './inbox/watcher.js';
@@ -69,7 +179,15 @@ export { GatewayManager, type GatewayManagerOptions, type LocalSmtpConfig } from
 export { RelayGateway, type InboundEmail, type RelaySearchResult } from './gateway/relay.js';
 export { CloudflareClient } from './gateway/cloudflare.js';
 export { DomainPurchaser, type DomainSearchResult, type DomainPurchaseResult } from './gateway/domain-purchase.js';
-export { DNSConfigurator, type DnsSetupResult } from './gateway/dns-setup.js';
+export { DNSConfigurator, type DnsSetupResult, type DkimKeyType } from './gateway/dns-setup.js';
+export {
+  DkimKeyManager,
+  generateDkimKeyPair,
+  DKIM_DEFAULT_GRACE_DAYS,
+  type DkimKeyManagerOptions,
+  type DkimRotateOptions,
+  type DkimRotationResult,
+} from './gateway/dkim-keys.js';
 export { TunnelManager, type TunnelConfig } from './gateway/tunnel.js';
 export { RelayBridge, startRelayBridge, type RelayBridgeOptions } from './gateway/relay-bridge.js';
 export type {
@@ -80,6 +198,10 @@ export type {
   RelayProvider,
   DomainModeConfig,
   PurchasedDomain,
+  DkimAlgorithm,
+  DkimKeyStatus,
+  DkimKeyInfo,
+  DkimStatus,
 } from './gateway/types.js';
 export { RELAY_PRESETS } from './gateway/types.js';
 
@@ -322,6 +444,10 @@ export type {
   VoiceRuntimeConnection,
 } from './phone/index.js';
 
+// Channel activity — SMS / Telegram / call records announced in-process
+// so the API can stream them. See channel-activity.ts.
+export { onChannelActivity, emitChannelActivity, type ChannelActivity, type ChannelActivityListener } from './channel-activity.js';
+
 // Telemetry
 export { recordToolCall, setTelemetryVersion, flushTelemetry } from './telemetry.js';
 
@@ -398,14 +524,19 @@ export {
 } from './host-bridge.js';
 
 // SSRF-safe URL validation for the master API base URL — used by
-// every host integration to bound where its fetch requests can go.
-// See util/safe-url.ts for the blocklist (cloud metadata, file://,
-// javascript:, embedded creds) and CodeQL `js/request-forgery`
-// mitigation.
+// every host integration to bound where its fetch requests can go —
+// and for webhook targets. See util/safe-url.ts for the blocklist
+// (cloud metadata, file://, javascript:, embedded creds) and CodeQL
+// `js/request-forgery` mitigation.
 export {
   validateApiUrl,
+  validateWebhookUrl,
+  checkWebhookHost,
+  type WebhookUrlOptions,
+  type WebhookHostResolver,
   buildApiUrl,
   UnsafeApiUrlError,
+  UnsafeWebhookUrlError,
 } from './util/safe-url.js';
 
 // Setup & Dependencies
@@ -447,25 +578,36 @@ export type {
   VoiceCloneOptions,
 } from './media/index.js';
 
-// Layered wake-context system (thread cache + agent memory).
-// See packages/core/src/threading/* for the design.
+// Layered wake-context system (thread ids, JWZ threading, thread
+// cache + agent memory). See packages/core/src/threading/* for the design.
 export {
-  threadIdFor, normalizeSubject, normalizeAddress,
+  threadIdFor, threadIdForRoot, threadIdForSubject, threadRootMessageId,
+  normalizeSubject, normalizeAddress, parseMessageIds, threadMessages,
   ThreadCache, AgentMemoryStore,
 } from './threading/index.js';
 export type {
-  ThreadIdInput, ThreadCacheEntry, CachedMessage, ThreadCacheOptions,
+  ThreadIdInput, ThreadableMessage, ThreadedMessage, MessageThread, ThreadCacheEntry, CachedMessage, ThreadCacheOptions,
   AgentMemoryFields, AgentMemoryRead, AgentMemoryOptions,
 } from './threading/index.js';
 
 // Persistent per-agent memory — categorised, confidence-decaying,
-// BM25F-searchable knowledge store. See packages/core/src/memory/*.
+// BM25F + embedding (hybrid) searchable knowledge store. See
+// packages/core/src/memory/*.
 export {
-  AgentMemoryManager, MEMORY_CATEGORIES, MemorySearchIndex, stem, tokenize,
+  AgentMemoryManager, MEMORY_CATEGORIES, MEMORY_SEARCH_MODES, MemorySearchIndex, stem, tokenize,
+  HashedNgramEmbedder, HttpEmbedder, createEmbedder, cosineSimilarity,
+  MemoryConsolidationError, planConsolidation,
+  MEMORY_CONFLICT_STRATEGIES, formatMemoryJsonl, parseMemoryJsonl, parseMemoryRecord,
+  MEMORY_SPACE_ACCESS, MemorySpaceError,
 } from './memory/index.js';
 export type {
   AgentMemoryEntry, MemoryCategory, MemoryImportance, MemorySource,
   MemoryStats, CreateMemoryInput, UpdateMemoryInput, MemoryQueryOptions,
+  MemorySearchMode, AgentMemoryManagerOptions, EmbeddingBackfillResult,
+  Embedder, HttpEmbedderOptions, MemoryEmbedderConfig,
+  ConsolidateOptions, ConsolidationReport, MemoryConsolidationChange, ConsolidationOptions, ConsolidationPlan,
+  MemoryFilter, MemoryImportOptions, MemoryImportResult, MemoryConflictStrategy, MemoryExportRecord,
+  MemorySpace, MemorySpaceAccess, MemorySpaceGrant,
 } from './memory/index.js';
 
 // Skill library — JSON how-to-act-like-a-skilled-human bundles agents
@@ -0,0 +1,571 @@
+/**
+ * Text extraction from attachments for the outbound guard.
+ *
+ * Office documents and archives are where a spreadsheet of customer
+ * records actually leaves the building, so the guard reads inside
+ * them: OOXML (docx / xlsx / pptx), ODF (odt / ods / odp), PDF text
+ * streams, ZIP, TAR and gzip. Everything is parsed here with
+ * node:zlib for inflate — no third-party parsers.
+ *
+ * Containers are recognised by their magic bytes, not their extension,
+ * so renaming `customers.xlsx` to `notes.bin` does not skip the scan.
+ * Nesting depth, entry count and decompressed size are capped
+ * (`ATTACHMENT_SCAN_LIMITS`) so a zip bomb costs a bounded amount of
+ * work; whatever was not read is reported in `skipped` rather than
+ * silently passed.
+ *
+ * Extraction is best-effort by design: a PDF whose fonts only map to
+ * glyph ids yields little text, and numeric spreadsheet cells come
+ * back as stored (a 16-digit number saved as a float loses digits).
+ */
+
+import { gunzipSync, inflateRawSync, inflateSync } from 'node:zlib';
+
+export interface AttachmentScanLimits {
+  /** Archive nesting levels opened (zip inside zip inside zip = 3). */
+  maxDepth: number;
+  /** Archive entries examined across the whole attachment. */
+  maxEntries: number;
+  /** Decompressed size of any single entry or stream. */
+  maxEntryBytes: number;
+  /** Decompressed bytes across the whole attachment. */
+  maxTotalBytes: number;
+  /** Characters of text kept per extracted segment. */
+  maxTextChars: number;
+}
+
+export const ATTACHMENT_SCAN_LIMITS: AttachmentScanLimits = {
+  maxDepth: 3,
+  maxEntries: 1000,
+  maxEntryBytes: 10 * 1024 * 1024,
+  maxTotalBytes: 50 * 1024 * 1024,
+  maxTextChars: 1_048_576,
+};
+
+export interface ExtractedText {
+  /** Path inside the attachment, `/`-joined across nested archives; '' for the attachment itself. */
+  path: string;
+  /** Sheet, slide or page the text came from. */
+  location?: string;
+  text: string;
+}
+
+export interface AttachmentExtraction {
+  segments: ExtractedText[];
+  /** Parts that could not be read: encrypted, over a limit, unsupported. */
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+/** Content types whose content should be scanned through outbound rules. */
+const TEXT_SCANNABLE_TYPES = new Set([
+  'text/plain', 'text/html', 'text/csv', 'text/xml', 'text/markdown',
+  'application/json', 'application/xml', 'application/yaml',
+  'application/x-yaml', 'application/javascript', 'application/x-sh',
+]);
+
+/** File extensions whose content should be scanned through outbound rules. */
+const TEXT_SCANNABLE_EXTENSIONS = new Set([
+  '.txt', '.csv', '.json', '.xml', '.yaml', '.yml', '.md', '.log',
+  '.env', '.conf', '.config', '.ini', '.sql', '.js', '.ts', '.py',
+  '.sh', '.html', '.htm', '.css', '.toml',
+]);
+
+const extOf = (name: string): string => {
+  const lower = name.toLowerCase();
+  return lower.includes('.') ? '.' + lower.split('.').pop()! : '';
+};
+
+/** Check if an attachment's content should be scanned based on type or extension. */
+export function isTextScannable(filename?: string, contentType?: string): boolean {
+  if (contentType) {
+    const base = contentType.split(';')[0].trim().toLowerCase();
+    if (TEXT_SCANNABLE_TYPES.has(base) || base.startsWith('text/')) return true;
+  }
+  if (filename) {
+    if (TEXT_SCANNABLE_EXTENSIONS.has(extOf(filename))) return true;
+  }
+  return false;
+}
+
+type Kind = 'zip' | 'pdf' | 'gzip' | 'tar';
+
+function sniff(data: Buffer): Kind | null {
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) return 'zip';
+  if (data.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+  if (data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b) return 'gzip';
+  if (data.length >= 262 && data.subarray(257, 262).toString('latin1') === 'ustar') return 'tar';
+  return null;
+}
+
+/** Shared state for one attachment: limits and what has been used of them. */
+interface Walk {
+  limits: AttachmentScanLimits;
+  bytes: number;
+  entries: number;
+  out: AttachmentExtraction;
+}
+
+const joinPath = (parent: string, child: string) => (parent ? `${parent}/${child}` : child);
+
+/** Bytes still allowed for one decompression. */
+function budget(walk: Walk): number {
+  return Math.max(0, Math.min(walk.limits.maxEntryBytes, walk.limits.maxTotalBytes - walk.bytes));
+}
+
+/** Run a zlib decoder under the remaining budget; null (and a skip note) if it would exceed it. */
+function decompress(walk: Walk, path: string, run: (maxOutputLength: number) => Buffer): Buffer | null {
+  const limit = budget(walk);
+  if (limit === 0) {
+    walk.out.skipped.push({ path, reason: 'decompressed size limit reached' });
+    return null;
+  }
+  try {
+    const result = run(limit);
+    walk.bytes += result.length;
+    return result;
+  } catch (err) {
+    const tooBig = err instanceof RangeError || /buffer|output length/i.test((err as Error).message);
+    walk.out.skipped.push({ path, reason: tooBig ? 'decompressed size limit reached' : `corrupt compressed data` });
+    return null;
+  }
+}
+
+function pushText(walk: Walk, path: string, text: string, location?: string): void {
+  const trimmed = text.length > walk.limits.maxTextChars ? text.slice(0, walk.limits.maxTextChars) : text;
+  if (trimmed.trim()) walk.out.segments.push({ path, ...(location ? { location } : {}), text: trimmed });
+}
+
+/**
+ * Extract scannable text from one attachment. `contentType` only
+ * matters for plain-text detection; containers are sniffed.
+ */
+export function extractAttachmentText(
+  filename: string, contentType: string | undefined, data: Buffer, limits: AttachmentScanLimits = ATTACHMENT_SCAN_LIMITS,
+): AttachmentExtraction {
+  const walk: Walk = { limits, bytes: 0, entries: 0, out: { segments: [], skipped: [] } };
+  visit(walk, filename, contentType, data, '', 0);
+  return walk.out;
+}
+
+function visit(walk: Walk, name: string, contentType: string | undefined, data: Buffer, path: string, depth: number): void {
+  const kind = sniff(data);
+  if (!kind) {
+    if (isTextScannable(name, contentType)) pushText(walk, path, data.toString('utf-8'));
+    return;
+  }
+  if (kind === 'pdf') {
+    extractPdf(walk, data, path);
+    return;
+  }
+  if (depth >= walk.limits.maxDepth) {
+    walk.out.skipped.push({ path: path || name, reason: `archive nested deeper than ${walk.limits.maxDepth} levels` });
+    return;
+  }
+  if (kind === 'gzip') {
+    const inner = decompress(walk, path || name, (max) => gunzipSync(data, { maxOutputLength: max }));
+    const innerName = name.replace(/\.tgz$/i, '.tar').replace(/\.gz$/i, '');
+    if (inner) visit(walk, innerName, undefined, inner, path, depth + 1);
+    return;
+  }
+  if (kind === 'tar') {
+    for (const entry of readTar(data)) {
+      if (++walk.entries > walk.limits.maxEntries) {
+        walk.out.skipped.push({ path: path || name, reason: `more than ${walk.limits.maxEntries} archive entries` });
+        return;
+      }
+      visit(walk, entry.name, undefined, entry.data, joinPath(path, entry.name), depth + 1);
+    }
+    return;
+  }
+  extractZip(walk, name, data, path, depth);
+}
+
+// ─── ZIP ─────────────────────────────────────────────────────────────
+
+interface ZipEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+function readZipDirectory(data: Buffer): ZipEntry[] | string {
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65_557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) return 'no zip central directory';
+  const count = data.readUInt16LE(eocd + 10);
+  const cdOffset = data.readUInt32LE(eocd + 16);
+  if (count === 0xffff || cdOffset === 0xffffffff) return 'zip64 archives are not supported';
+  const entries: ZipEntry[] = [];
+  let p = cdOffset;
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > data.length || data.readUInt32LE(p) !== 0x02014b50) return 'corrupt zip central directory';
+    const nameLen = data.readUInt16LE(p + 28);
+    entries.push({
+      flags: data.readUInt16LE(p + 8),
+      method: data.readUInt16LE(p + 10),
+      compressedSize: data.readUInt32LE(p + 20),
+      size: data.readUInt32LE(p + 24),
+      offset: data.readUInt32LE(p + 42),
+      name: data.toString('utf-8', p + 46, p + 46 + nameLen),
+    });
+    p += 46 + nameLen + data.readUInt16LE(p + 30) + data.readUInt16LE(p + 32);
+  }
+  return entries;
+}
+
+function readZipEntry(walk: Walk, data: Buffer, entry: ZipEntry, path: string): Buffer | null {
+  if (entry.flags & 1) {
+    walk.out.skipped.push({ path, reason: 'encrypted' });
+    return null;
+  }
+  const local = entry.offset;
+  if (local + 30 > data.length || data.readUInt32LE(local) !== 0x04034b50) {
+    walk.out.skipped.push({ path, reason: 'corrupt zip entry' });
+    return null;
+  }
+  const start = local + 30 + data.readUInt16LE(local + 26) + data.readUInt16LE(local + 28);
+  const raw = data.subarray(start, start + entry.compressedSize);
+  if (entry.method === 0) {
+    if (raw.length > budget(walk)) {
+      walk.out.skipped.push({ path, reason: 'decompressed size limit reached' });
+      return null;
+    }
+    walk.bytes += raw.length;
+    return raw;
+  }
+  if (entry.method === 8) return decompress(walk, path, (max) => inflateRawSync(raw, { maxOutputLength: max }));
+  walk.out.skipped.push({ path, reason: `unsupported zip compression method ${entry.method}` });
+  return null;
+}
+
+function extractZip(walk: Walk, name: string, data: Buffer, path: string, depth: number): void {
+  const entries = readZipDirectory(data);
+  if (typeof entries === 'string') {
+    walk.out.skipped.push({ path: path || name, reason: entries });
+    return;
+  }
+  const byName = new Map(entries.map(e => [e.name, e]));
+  const read = (entryName: string): string | null => {
+    const entry = byName.get(entryName);
+    if (!entry) return null;
+    const buf = readZipEntry(walk, data, entry, joinPath(path, entryName));
+    return buf ? buf.toString('utf-8') : null;
+  };
+
+  if (byName.has('[Content_Types].xml') && extractOoxml(walk, byName, read, path)) return;
+  const mimetype = byName.has('mimetype') ? read('mimetype') : null;
+  if (mimetype?.startsWith('application/vnd.oasis.opendocument.')) {
+    extractOdf(walk, mimetype, read('content.xml') ?? '', path);
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.name.endsWith('/')) continue;
+    if (++walk.entries > walk.limits.maxEntries) {
+      walk.out.skipped.push({ path: path || name, reason: `more than ${walk.limits.maxEntries} archive entries` });
+      return;
+    }
+    const entryPath = joinPath(path, entry.name);
+    const content = readZipEntry(walk, data, entry, entryPath);
+    if (content) visit(walk, entry.name, undefined, content, entryPath, depth + 1);
+  }
+}
+
+// ─── TAR ─────────────────────────────────────────────────────────────
+
+function readTar(data: Buffer): Array<{ name: string; data: Buffer }> {
+  const files: Array<{ name: string; data: Buffer }> = [];
+  let p = 0;
+  while (p + 512 <= data.length) {
+    const header = data.subarray(p, p + 512);
+    if (header.every(b => b === 0)) break;
+    const field = (start: number, len: number) => header.toString('utf-8', start, start + len).replace(/\0.*$/s, '');
+    const size = parseInt(field(124, 12).trim() || '0', 8) || 0;
+    const type = field(156, 1);
+    const prefix = field(257, 6) === 'ustar' ? field(345, 155) : '';
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+    if (type === '0' || type === '') files.push({ name, data: data.subarray(p + 512, p + 512 + size) });
+    p += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
+// ─── XML helpers (OOXML / ODF) ───────────────────────────────────────
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/** Document XML to text: paragraphs and rows become lines, cells and tabs become tabs, runs join up. */
+function xmlText(xml: string): string {
+  return decodeXml(xml
+    .replace(/<\/text:p>(?=<\/table:table-cell>)/g, '')
+    .replace(/<(?:w:tab|text:tab)\b[^>]*\/>|<\/table:table-cell>/g, '\t')
+    .replace(/<text:s\b[^>]*\/>/g, ' ')
+    .replace(/<\/(?:w:p|a:p|text:p|text:h|table:table-row)>|<(?:w:br|a:br|text:line-break)\b[^>]*\/>/g, '\n')
+    .replace(/<[^>]+>/g, ''));
+}
+
+const attr = (tag: string, name: string): string | undefined =>
+  tag.match(new RegExp(`\\s${name.replace(/[:]/g, '\\:')}="([^"]*)"`))?.[1];
+
+const numbered = (a: string, b: string) => Number(a.match(/(\d+)\.xml$/)?.[1] ?? 0) - Number(b.match(/(\d+)\.xml$/)?.[1] ?? 0);
+
+/** Returns false when the package is not a Word / Excel / PowerPoint file, so it is walked as a plain zip. */
+function extractOoxml(walk: Walk, byName: Map<string, ZipEntry>, read: (name: string) => string | null, path: string): boolean {
+  const names = [...byName.keys()];
+  if (byName.has('word/document.xml')) {
+    const parts = names.filter(n => /^word\/(?:document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/.test(n));
+    for (const part of parts) {
+      const xml = read(part);
+      if (xml) pushText(walk, joinPath(path, part), xmlText(xml));
+    }
+    return true;
+  }
+  if (byName.has('xl/workbook.xml')) {
+    extractXlsx(walk, read, path);
+    return true;
+  }
+  if (names.some(n => n.startsWith('ppt/slides/'))) {
+    const slides = names.filter(n => /^ppt\/slides\/slide\d+\.xml$/.test(n)).sort(numbered);
+    for (const slide of slides) {
+      const xml = read(slide);
+      if (xml) pushText(walk, joinPath(path, slide), xmlText(xml), `slide ${slide.match(/(\d+)\.xml$/)![1]}`);
+    }
+    return true;
+  }
+  return false;
+}
+
+function extractXlsx(walk: Walk, read: (name: string) => string | null, path: string): void {
+  const shared = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => xmlText(m[1]));
+  const rels = new Map<string, string>();
+  for (const m of (read('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attr(m[0], 'Id');
+    const target = attr(m[0], 'Target');
+    if (id && target) rels.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+  for (const m of (read('xl/workbook.xml') ?? '').matchAll(/<sheet\b[^>]*>/g)) {
+    const sheetName = decodeXml(attr(m[0], 'name') ?? '');
+    const target = rels.get(attr(m[0], 'r:id') ?? '');
+    const xml = target ? read(target) : null;
+    if (!xml) continue;
+    const rows: string[] = [];
+    for (const row of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+      const cells: string[] = [];
+      for (const cell of row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const type = attr(cell[1], 't');
+        const body = cell[2] ?? '';
+        const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+        if (type === 's' && value !== undefined) cells.push(shared[Number(value)] ?? '');
+        else if (type === 'inlineStr') cells.push(xmlText(body));
+        else if (value !== undefined) cells.push(decodeXml(value));
+      }
+      rows.push(cells.join('\t'));
+    }
+    pushText(walk, joinPath(path, target!), rows.join('\n'), `sheet "${sheetName}"`);
+  }
+}
+
+function extractOdf(walk: Walk, mimetype: string, content: string, path: string): void {
+  const part = joinPath(path, 'content.xml');
+  if (mimetype.includes('spreadsheet')) {
+    for (const m of content.matchAll(/<table:table\b([^>]*)>([\s\S]*?)<\/table:table>/g)) {
+      pushText(walk, part, xmlText(m[2]), `sheet "${decodeXml(attr(m[1], 'table:name') ?? '')}"`);
+    }
+    return;
+  }
+  if (mimetype.includes('presentation')) {
+    let n = 0;
+    for (const m of content.matchAll(/<draw:page\b[^>]*>([\s\S]*?)<\/draw:page>/g)) {
+      pushText(walk, part, xmlText(m[1]), `slide ${++n}`);
+    }
+    return;
+  }
+  pushText(walk, part, xmlText(content));
+}
+
+// ─── PDF ─────────────────────────────────────────────────────────────
+
+interface PdfObject {
+  dict: string;
+  stream?: Buffer;
+}
+
+/** Decode a PDF string's bytes: UTF-16BE with a BOM, else PDFDocEncoding ≈ Latin-1. */
+function pdfString(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let out = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return out;
+  }
+  return String.fromCharCode(...bytes);
+}
+
+/** Read a literal `( … )` string starting at `src[i] === '('`. */
+function readLiteral(src: string, i: number): { bytes: number[]; end: number } {
+  const bytes: number[] = [];
+  let depth = 0;
+  for (let p = i; p < src.length; p++) {
+    const ch = src[p];
+    if (ch === '\\') {
+      const next = src[++p];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+      if (next in escapes) bytes.push(escapes[next]);
+      else if (/[0-7]/.test(next)) {
+        let oct = next;
+        while (oct.length < 3 && /[0-7]/.test(src[p + 1])) oct += src[++p];
+        bytes.push(parseInt(oct, 8) & 0xff);
+      } else if (next === '\r' && src[p + 1] === '\n') p++;
+      else if (next !== '\n' && next !== '\r') bytes.push(next.charCodeAt(0));
+      continue;
+    }
+    if (ch === '(') { if (depth++ === 0) continue; }
+    if (ch === ')' && --depth === 0) return { bytes, end: p + 1 };
+    bytes.push(ch.charCodeAt(0) & 0xff);
+  }
+  return { bytes, end: src.length };
+}
+
+/** Text shown by a content stream's Tj / TJ / ' / " operators, one line per positioning operator. */
+function pdfContentText(content: string): string {
+  let out = '';
+  let pending: string[] = [];
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '(') {
+      const lit = readLiteral(content, i);
+      pending.push(pdfString(lit.bytes));
+      i = lit.end;
+    } else if (ch === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s/g, '');
+      const bytes: number[] = [];
+      for (let h = 0; h < hex.length; h += 2) bytes.push(parseInt(hex.slice(h, h + 2).padEnd(2, '0'), 16));
+      pending.push(pdfString(bytes));
+      i = end < 0 ? content.length : end + 1;
+    } else if (ch === '%') {
+      const eol = content.indexOf('\n', i);
+      i = eol < 0 ? content.length : eol + 1;
+    } else if (/[A-Za-z'"*]/.test(ch)) {
+      const op = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      if (op === 'Tj' || op === 'TJ' || op === "'" || op === '"') {
+        if (op === "'" || op === '"') out += '\n';
+        out += pending.join('');
+      } else if (op === 'Td' || op === 'TD' || op === 'T*' || op === 'Tm' || op === 'ET') {
+        if (!out.endsWith('\n')) out += '\n';
+      }
+      pending = [];
+      i += op.length;
+    } else if (ch === '-' || /\d/.test(ch)) {
+      // A large negative kerning inside TJ is a word gap.
+      const num = content.slice(i).match(/^-?\d*\.?\d+/);
+      if (num && Number(num[0]) <= -200 && pending.length) pending.push(' ');
+      i += num ? num[0].length : 1;
+    } else {
+      i++;
+    }
+  }
+  return out;
+}
+
+function extractPdf(walk: Walk, data: Buffer, path: string): void {
+  const src = data.toString('latin1');
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(src)) {
+    walk.out.skipped.push({ path, reason: 'encrypted PDF' });
+    return;
+  }
+
+  const objects = new Map<number, PdfObject>();
+  const decode = (obj: PdfObject, num: number): Buffer | null => {
+    if (!obj.stream) return null;
+    const filter = obj.dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+    const filters = filter.match(/\/\w+/g) ?? [];
+    if (filters.length === 0) return obj.stream;
+    if (filters.length === 1 && filters[0] === '/FlateDecode') {
+      return decompress(walk, path || `object ${num}`, (max) => inflateSync(obj.stream!, { maxOutputLength: max }));
+    }
+    return null; // Images and other encodings carry no text.
+  };
+
+  for (const m of src.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+    const start = m.index + m[0].length;
+    const end = src.indexOf('endobj', start);
+    const body = src.slice(start, end < 0 ? src.length : end);
+    const streamAt = body.search(/\bstream\r?\n/);
+    if (streamAt < 0) {
+      objects.set(Number(m[1]), { dict: body });
+      continue;
+    }
+    const dataStart = start + streamAt + body.slice(streamAt).match(/^stream\r?\n/)![0].length;
+    const length = Number(body.slice(0, streamAt).match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/)?.[1]);
+    const dataEnd = Number.isFinite(length) && length > 0 ? dataStart + length : src.indexOf('endstream', dataStart);
+    objects.set(Number(m[1]), { dict: body.slice(0, streamAt), stream: data.subarray(dataStart, dataEnd < 0 ? data.length : dataEnd) });
+  }
+
+  // PDF 1.5+ keeps most dictionaries, page objects included, in object streams.
+  for (const [num, obj] of [...objects]) {
+    if (!/\/Type\s*\/ObjStm\b/.test(obj.dict)) continue;
+    const decoded = decode(obj, num)?.toString('latin1');
+    if (!decoded) continue;
+    const first = Number(obj.dict.match(/\/First\s+(\d+)/)?.[1] ?? 0);
+    const pairs = decoded.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let k = 0; k + 1 < pairs.length; k += 2) {
+      const from = first + pairs[k + 1];
+      const to = k + 3 < pairs.length ? first + pairs[k + 3] : decoded.length;
+      if (!objects.has(pairs[k])) objects.set(pairs[k], { dict: decoded.slice(from, to) });
+    }
+  }
+
+  const refs = (text: string): number[] => [...text.matchAll(/(\d+)\s+\d+\s+R/g)].map(r => Number(r[1]));
+  const pages: number[] = [];
+  const seen = new Set<number>();
+  const walkPages = (num: number) => {
+    if (seen.has(num) || seen.size > 100_000) return;
+    seen.add(num);
+    const dict = objects.get(num)?.dict ?? '';
+    if (/\/Type\s*\/Pages\b/.test(dict)) {
+      for (const kid of refs(dict.match(/\/Kids\s*\[([^\]]*)\]/)?.[1] ?? '')) walkPages(kid);
+    } else if (/\/Type\s*\/Page\b/.test(dict)) {
+      pages.push(num);
+    }
+  };
+  for (const obj of objects.values()) {
+    if (!/\/Type\s*\/Catalog\b/.test(obj.dict)) continue;
+    const root = obj.dict.match(/\/Pages\s+(\d+)\s+\d+\s+R/);
+    if (root) walkPages(Number(root[1]));
+  }
+
+  const contentText = (streams: number[]) => streams
+    .map(n => { const obj = objects.get(n); return obj ? decode(obj, n)?.toString('latin1') ?? '' : ''; })
+    .map(pdfContentText)
+    .join('\n');
+
+  if (pages.length === 0) {
+    // No page tree found: scan every stream that draws text.
+    const streams = [...objects.entries()].filter(([, o]) => o.stream && !/\/Type\s*\/(?:ObjStm|XRef)\b/.test(o.dict)).map(([n]) => n);
+    pushText(walk, path, contentText(streams));
+    return;
+  }
+  pages.forEach((pageNum, index) => {
+    const dict = objects.get(pageNum)!.dict;
+    const contents = dict.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/)?.[1] ?? '';
+    let streams = refs(contents);
+    // /Contents may point at an array object instead of a stream.
+    if (streams.length === 1 && !objects.get(streams[0])?.stream) streams = refs(objects.get(streams[0])?.dict ?? '');
+    pushText(walk, path, contentText(streams), `page ${index + 1}`);
+  });
+}
@@ -0,0 +1,311 @@
+/**
+ * Bounce and delivery status notification parsing.
+ *
+ * Standard reports (RFC 3464 `multipart/report; report-type=delivery-status`)
+ * are read from their `message/delivery-status` part. Everything else —
+ * qmail, old Exim, Gmail and Exchange prose, and DSNs whose MIME
+ * structure was flattened on the way in (relay mode re-delivers the
+ * text) — goes through heuristics that only run on mail that looks
+ * like a bounce: sent by a mailer daemon, carrying `X-Failed-Recipients`,
+ * or with a bounce subject.
+ *
+ * Only permanent address failures are `hard`; full mailboxes, policy
+ * rejections and delays are `soft`.
+ */
+
+export type BounceType = 'hard' | 'soft';
+export type BounceAction = 'failed' | 'delayed' | 'delivered' | 'relayed' | 'expanded';
+
+export interface BounceRecipient {
+  /** Lower-cased address the report is about. */
+  address: string;
+  action: BounceAction;
+  /** Enhanced status code (`5.1.1`) when the report gives one. */
+  status?: string;
+  diagnosticCode?: string;
+  remoteMta?: string;
+  /** Null for success actions (delivered, relayed, expanded). */
+  type: BounceType | null;
+}
+
+export interface BounceReport {
+  /** `dsn` for a parsed RFC 3464 report, `heuristic` for everything else. */
+  format: 'dsn' | 'heuristic';
+  reportingMta?: string;
+  recipients: BounceRecipient[];
+  /** Message-ID of the mail that bounced, from the returned headers. */
+  originalMessageId?: string;
+  originalSubject?: string;
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+const DAEMON_SENDER = /^(mailer-daemon|mail-daemon|mailerdaemon|postmaster)@/i;
+const DAEMON_NAME = /mail delivery (system|subsystem)|mailer.daemon/i;
+const BOUNCE_SUBJECT = /undeliver|undelivered|delivery (status notification|failure|has failed|incomplete)|returned mail|failure notice|mail delivery failed|could not be delivered|delivery failure|non.?delivery/i;
+const ADDRESS = /[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+/;
+const ENHANCED_STATUS = /\b([245])\.(\d{1,3})\.(\d{1,3})\b/;
+const SMTP_CODE = /\b([45])\d\d\b/;
+/** Server wording for "this address does not exist". */
+const UNKNOWN_ADDRESS = /user unknown|unknown (user|recipient)|no such (user|mailbox|recipient|address)|does ?n[o']t exist|address (couldn't|could not|can't|cannot) be found|address not found|invalid (recipient|mailbox|address)|mailbox (unavailable|not found|does not exist)|recipient not found|user not found|not a valid mailbox|unrouteable address|no mailbox here|account (has been )?(disabled|deleted|closed)|host (or domain name )?not found|domain not found|no mx (record|host)/i;
+
+// ─── MIME ────────────────────────────────────────────────────────────
+
+function parseHeaders(head: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  let current = '';
+  for (const line of head.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && current) {
+      headers.set(current, `${headers.get(current)} ${line.trim()}`);
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    current = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins, as for Message-ID and Subject.
+    if (!headers.has(current)) headers.set(current, line.slice(colon + 1).trim());
+    else current = '';
+  }
+  return headers;
+}
+
+function splitPart(text: string): MimePart {
+  if (/^\r?\n/.test(text)) return { headers: new Map(), body: text.replace(/^\r?\n/, '') };
+  const match = /\r?\n\r?\n/.exec(text);
+  if (!match) return { headers: parseHeaders(text), body: '' };
+  return { headers: parseHeaders(text.slice(0, match.index)), body: text.slice(match.index + match[0].length) };
+}
+
+function contentType(part: MimePart): { type: string; params: Map<string, string> } {
+  const [type, ...rest] = (part.headers.get('content-type') ?? 'text/plain').split(';');
+  const params = new Map<string, string>();
+  for (const p of rest) {
+    const eq = p.indexOf('=');
+    if (eq > 0) params.set(p.slice(0, eq).trim().toLowerCase(), p.slice(eq + 1).trim().replace(/^"|"$/g, ''));
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers.get('content-transfer-encoding') ?? '').toLowerCase();
+  if (encoding === 'base64') return Buffer.from(part.body.replace(/\s+/g, ''), 'base64').toString('utf-8');
+  if (encoding === 'quoted-printable') {
+    return Buffer.from(
+      part.body.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+      'latin1',
+    ).toString('utf-8');
+  }
+  return part.body;
+}
+
+/** Every leaf part, depth first; nested multiparts are walked to a fixed depth. */
+function leafParts(part: MimePart, depth = 0): MimePart[] {
+  const { type, params } = contentType(part);
+  const boundary = params.get('boundary');
+  if (!type.startsWith('multipart/') || !boundary || depth > 5) return [part];
+  const delimiter = `--${boundary}`;
+  const parts: MimePart[] = [];
+  let section: string[] | null = null; // null before the first delimiter (preamble)
+  for (const line of part.body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === delimiter || trimmed === `${delimiter}--`) {
+      if (section) parts.push(...leafParts(splitPart(section.join('\n')), depth + 1));
+      if (trimmed !== delimiter) return parts; // closing delimiter; the epilogue is ignored
+      section = [];
+    } else if (section) {
+      section.push(line);
+    }
+  }
+  if (section?.length) parts.push(...leafParts(splitPart(section.join('\n')), depth + 1));
+  return parts;
+}
+
+// ─── Classification ──────────────────────────────────────────────────
+
+/** Permanent address failures; the rest of 5.x.x (policy, size, full mailbox) is soft. */
+function classify(action: BounceAction, status?: string, diagnostic?: string): BounceType | null {
+  if (action !== 'failed' && action !== 'delayed') return null;
+  if (action === 'delayed') return 'soft';
+  const enhanced = status?.match(ENHANCED_STATUS);
+  if (enhanced) {
+    const [, cls, subject, detail] = enhanced;
+    if (cls !== '5') return 'soft';
+    if (subject === '1' && detail !== '5') return 'hard';
+    if (subject === '2' && detail === '1') return 'hard';
+    if (subject === '4' && detail === '4') return 'hard';
+    if (subject === '0' && diagnostic && UNKNOWN_ADDRESS.test(diagnostic)) return 'hard';
+    return 'soft';
+  }
+  const code = diagnostic?.match(SMTP_CODE);
+  if (code?.[1] === '4') return 'soft';
+  return diagnostic && UNKNOWN_ADDRESS.test(diagnostic) ? 'hard' : 'soft';
+}
+
+function stripType(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const semi = value.indexOf(';');
+  return (semi >= 0 ? value.slice(semi + 1) : value).trim() || undefined;
+}
+
+function bareAddress(value: string | undefined): string | undefined {
+  const match = value?.match(ADDRESS);
+  return match ? match[0].toLowerCase() : undefined;
+}
+
+// ─── RFC 3464 ────────────────────────────────────────────────────────
+
+/** Per-message and per-recipient field groups of a delivery-status body. */
+function statusGroups(body: string): Array<Map<string, string>> {
+  return body
+    .split(/\r?\n[ \t]*\r?\n/)
+    .map(block => parseHeaders(block.trim()))
+    .filter(group => group.size > 0);
+}
+
+function recipientsFromGroups(groups: Array<Map<string, string>>): BounceRecipient[] {
+  const recipients: BounceRecipient[] = [];
+  for (const group of groups) {
+    const address = bareAddress(stripType(group.get('final-recipient') ?? group.get('original-recipient')));
+    if (!address) continue;
+    const action = (group.get('action') ?? 'failed').toLowerCase().split(/\s/)[0] as BounceAction;
+    if (!['failed', 'delayed', 'delivered', 'relayed', 'expanded'].includes(action)) continue;
+    const status = group.get('status')?.match(ENHANCED_STATUS)?.[0];
+    const diagnosticCode = stripType(group.get('diagnostic-code'));
+    recipients.push({
+      address,
+      action,
+      ...(status ? { status } : {}),
+      ...(diagnosticCode ? { diagnosticCode } : {}),
+      ...(group.get('remote-mta') ? { remoteMta: stripType(group.get('remote-mta')) } : {}),
+      type: classify(action, status, diagnosticCode),
+    });
+  }
+  return recipients;
+}
+
+function originalHeaders(parts: MimePart[]): { messageId?: string; subject?: string } {
+  const returned = parts.find(p => ['message/rfc822', 'text/rfc822-headers', 'message/global', 'message/global-headers']
+    .includes(contentType(p).type));
+  if (!returned) return {};
+  const headers = splitPart(decodeBody(returned).replace(/^\s+/, '')).headers;
+  return { messageId: headers.get('message-id'), subject: headers.get('subject') };
+}
+
+// ─── Heuristics ──────────────────────────────────────────────────────
+
+function looksLikeBounce(headers: Map<string, string>): boolean {
+  const from = headers.get('from') ?? '';
+  const sender = bareAddress(from) ?? '';
+  return DAEMON_SENDER.test(sender)
+    || DAEMON_NAME.test(from)
+    || headers.has('x-failed-recipients')
+    || BOUNCE_SUBJECT.test(headers.get('subject') ?? '');
+}
+
+/** The line carrying the server's reply for an address in a prose bounce. */
+function diagnosticNear(text: string, index: number): string | undefined {
+  const lines = text.slice(index).split(/\r?\n/).slice(0, 6).map(l => l.trim()).filter(Boolean);
+  const line = lines.find(l => SMTP_CODE.test(l) || ENHANCED_STATUS.test(l)) ?? lines[1];
+  return line?.slice(0, 300);
+}
+
+function heuristicRecipients(text: string, headers: Map<string, string>, ownAddresses: Set<string>): BounceRecipient[] {
+  // A DSN flattened into the text keeps its field lines.
+  if (/^Final-Recipient:/im.test(text)) {
+    const fields = text.slice(text.search(/^(Reporting-MTA|Final-Recipient):/im));
+    const found = recipientsFromGroups(statusGroups(fields));
+    if (found.length) return found;
+  }
+
+  const addresses = new Map<string, number>();
+  const add = (value: string | undefined, index: number) => {
+    const address = bareAddress(value);
+    if (address && !ownAddresses.has(address) && !DAEMON_SENDER.test(address) && !addresses.has(address)) addresses.set(address, index);
+  };
+  for (const value of (headers.get('x-failed-recipients') ?? '').split(',')) add(value, -1);
+  const patterns = [
+    /^<([^>\s]+@[^>\s]+)>:\s*$/gm, // qmail
+    /following address(?:\(es\)|es)? failed:\s*\r?\n\s*<?([^\s>]+@[^\s>]+)/gi, // Exim
+    /(?:wasn't|was not|couldn't be|could not be) delivered to\s+<?([^\s<>]+@[^\s<>,]*[^\s<>,.])/gi, // Gmail, Exchange
+    /^\s*<?([^\s<>]+@[^\s<>]+?)>?(?:\.{3}|:)\s+[^\r\n]*?\b(?:user unknown|[45]\d\d)\b/gim, // sendmail, generic
+  ];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) add(match[1], match.index ?? 0);
+  }
+
+  return [...addresses].map(([address, index]) => {
+    const at = index >= 0 ? index : text.toLowerCase().indexOf(address);
+    const diagnosticCode = at >= 0 ? diagnosticNear(text, at) : undefined;
+    const status = diagnosticCode?.match(ENHANCED_STATUS)?.[0];
+    // The reply code decides; prose only when the server gave none.
+    const replyClass = status?.[0] ?? diagnosticCode?.match(SMTP_CODE)?.[1];
+    const action: BounceAction = replyClass === '4'
+      || (!replyClass && /\b(delayed|will (retry|keep trying))\b/i.test(text) && !/permanent/i.test(text))
+      ? 'delayed'
+      : 'failed';
+    return {
+      address,
+      action,
+      ...(status ? { status } : {}),
+      ...(diagnosticCode ? { diagnosticCode } : {}),
+      type: classify(action, status, diagnosticCode ?? (UNKNOWN_ADDRESS.test(text) ? text.match(UNKNOWN_ADDRESS)![0] : undefined)),
+    };
+  });
+}
+
+// ─── Entry point ─────────────────────────────────────────────────────
+
+/**
+ * Parse a raw message as a bounce or delivery status notification.
+ * Returns null when it is not one (including DSNs that only report
+ * successful delivery).
+ */
+export function parseBounce(raw: Buffer | string): BounceReport | null {
+  const text = typeof raw === 'string' ? raw : raw.toString('utf-8');
+  const message = splitPart(text);
+  const { type, params } = contentType(message);
+  const parts = leafParts(message);
+
+  if (type === 'multipart/report' && /delivery-status/i.test(params.get('report-type') ?? '')) {
+    const statusPart = parts.find(p => /^message\/(global-)?delivery-status$/.test(contentType(p).type));
+    if (statusPart) {
+      const groups = statusGroups(decodeBody(statusPart));
+      const recipients = recipientsFromGroups(groups);
+      if (!recipients.some(r => r.type)) return null;
+      const original = originalHeaders(parts);
+      return {
+        format: 'dsn',
+        ...(groups[0]?.has('reporting-mta') ? { reportingMta: stripType(groups[0].get('reporting-mta')) } : {}),
+        recipients,
+        ...(original.messageId ? { originalMessageId: original.messageId } : {}),
+        ...(original.subject ? { originalSubject: original.subject } : {}),
+      };
+    }
+  }
+
+  if (!looksLikeBounce(message.headers)) return null;
+  const bodyText = parts
+    .filter(p => ['text/plain', 'message/delivery-status', 'text/rfc822-headers', 'message/rfc822'].includes(contentType(p).type))
+    .map(decodeBody)
+    .join('\n');
+  const ownAddresses = new Set([bareAddress(message.headers.get('to')), bareAddress(message.headers.get('from'))]
+    .filter((a): a is string => !!a));
+  const recipients = heuristicRecipients(bodyText, message.headers, ownAddresses);
+  if (!recipients.some(r => r.type)) return null;
+
+  // Returned headers: a returned part, else the first Message-ID after
+  // the bounce's own headers, else the bounce's In-Reply-To.
+  const original = originalHeaders(parts);
+  const inline = bodyText.match(/^Message-ID:\s*(<[^>\r\n]+>)/im)?.[1];
+  const originalMessageId = original.messageId ?? inline ?? message.headers.get('in-reply-to');
+  const originalSubject = original.subject ?? bodyText.match(/^Subject:\s*([^\r\n]+)/im)?.[1]?.trim();
+  return {
+    format: 'heuristic',
+    recipients,
+    ...(originalMessageId ? { originalMessageId } : {}),
+    ...(originalSubject ? { originalSubject } : {}),
+  };
+}
@@ -0,0 +1,261 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Database } from '../storage/db.js';
+import type { BounceAction, BounceReport, BounceType } from './bounce-parser.js';
+
+export interface BounceRecord {
+  id: string;
+  agentId: string;
+  recipient: string;
+  type: BounceType;
+  action: BounceAction;
+  status?: string;
+  diagnostic?: string;
+  reportingMta?: string;
+  /** Message-ID of the mail that bounced, in angle brackets. */
+  originalMessageId?: string;
+  originalSubject?: string;
+  /** Message-ID of the bounce itself. */
+  bounceMessageId?: string;
+  format: BounceReport['format'];
+  /** True when this hard bounce put the recipient on the suppression list. */
+  suppressed: boolean;
+  createdAt: string;
+}
+
+/**
+ * `hard_bounce` entries are stored; `mailer_daemon` is implied for any
+ * MAILER-DAEMON address, since a bounce is never worth replying to.
+ */
+export type SuppressionReason = 'hard_bounce' | 'mailer_daemon';
+
+export interface SuppressedRecipient {
+  address: string;
+  reason: SuppressionReason;
+  bounceId?: string;
+  detail?: string;
+  agentId?: string;
+  createdAt: string;
+}
+
+export interface BounceListOptions {
+  agentId?: string;
+  /** Bounces of one sent message, with or without angle brackets. */
+  messageId?: string;
+  recipient?: string;
+  type?: BounceType;
+  limit?: number;
+}
+
+interface BounceRow {
+  id: string;
+  agent_id: string;
+  recipient: string;
+  type: BounceType;
+  action: BounceAction;
+  status: string | null;
+  diagnostic: string | null;
+  reporting_mta: string | null;
+  original_message_id: string | null;
+  original_subject: string | null;
+  bounce_message_id: string | null;
+  format: BounceReport['format'];
+  suppressed: number;
+  created_at: string;
+}
+
+interface SuppressedRow {
+  address: string;
+  reason: SuppressionReason;
+  bounce_id: string | null;
+  detail: string | null;
+  agent_id: string | null;
+  created_at: string;
+}
+
+const MAILER_DAEMON = /^(mailer-daemon|mailer_daemon|mailerdaemon)@/;
+
+/** Bare lowercase address from `Name <addr>` or `addr`. */
+function bareAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+function bracketed(messageId: string): string {
+  const id = messageId.trim().replace(/^<|>$/g, '');
+  return `<${id}>`;
+}
+
+/**
+ * Stores parsed bounces and keeps the install-wide suppression list.
+ * A hard bounce suppresses its address and flags the matching
+ * `contacts` rows of every agent — but only when it names a message
+ * this agent sent to that address (see `recordSent`). Anyone can mail
+ * an agent a DSN, so an uncorrelated report is recorded and nothing
+ * more. Soft bounces are only recorded.
+ */
+export class BounceTracker {
+  constructor(private db: Database, private now: () => Date = () => new Date()) {}
+
+  /**
+   * Note the recipients of a message `agentId` sent, so a later bounce
+   * of it can be matched back. Rows older than a month are pruned by
+   * the API's housekeeping sweep.
+   */
+  recordSent(agentId: string, messageId: string, addresses: string[]): void {
+    const unique = [...new Set(addresses.map(bareAddress).filter(a => a.includes('@')))];
+    if (!messageId.trim() || unique.length === 0) return;
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO sent_recipients (message_id, agent_id, address, created_at) VALUES (?, ?, ?, ?)',
+    );
+    const createdAt = this.now().toISOString();
+    for (const address of unique) insert.run(bracketed(messageId), agentId, address, createdAt);
+  }
+
+  /**
+   * Record the failed and delayed recipients of a report received by
+   * `agentId`. A bounce message seen again (same Message-ID) is skipped.
+   * Returns the newly recorded rows.
+   */
+  record(agentId: string, report: BounceReport, bounceMessageId?: string): BounceRecord[] {
+    const createdAt = this.now().toISOString();
+    const recorded: BounceRecord[] = [];
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO bounces (id, agent_id, recipient, type, action, status, diagnostic, reporting_mta,
+         original_message_id, original_subject, bounce_message_id, format, suppressed, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const sentTo = this.db.prepare(
+      'SELECT 1 FROM sent_recipients WHERE message_id = ? AND agent_id = ? AND address = ?',
+    );
+    this.db.exec('BEGIN');
+    try {
+      for (const r of report.recipients) {
+        if (!r.type) continue;
+        const record: BounceRecord = {
+          id: uuidv4(),
+          agentId,
+          recipient: bareAddress(r.address),
+          type: r.type,
+          action: r.action,
+          ...(r.status ? { status: r.status } : {}),
+          ...(r.diagnosticCode ? { diagnostic: r.diagnosticCode } : {}),
+          ...(report.reportingMta ? { reportingMta: report.reportingMta } : {}),
+          ...(report.originalMessageId ? { originalMessageId: bracketed(report.originalMessageId) } : {}),
+          ...(report.originalSubject ? { originalSubject: report.originalSubject } : {}),
+          ...(bounceMessageId ? { bounceMessageId: bracketed(bounceMessageId) } : {}),
+          format: report.format,
+          suppressed: false,
+          createdAt,
+        };
+        record.suppressed = record.type === 'hard' && !!record.originalMessageId
+          && !!sentTo.get(record.originalMessageId, agentId, record.recipient);
+        const result = insert.run(
+          record.id, agentId, record.recipient, record.type, record.action, record.status ?? null,
+          record.diagnostic ?? null, record.reportingMta ?? null, record.originalMessageId ?? null,
+          record.originalSubject ?? null, record.bounceMessageId ?? null, record.format, record.suppressed ? 1 : 0, createdAt,
+        );
+        if (result.changes === 0) continue;
+        recorded.push(record);
+        if (record.suppressed) {
+          this.insertSuppression(record.recipient, 'hard_bounce', record.id, record.diagnostic ?? record.status ?? null, agentId, createdAt);
+        }
+      }
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+    return recorded;
+  }
+
+  /** Newest first. */
+  list(options: BounceListOptions = {}): BounceRecord[] {
+    const where: string[] = [];
+    const params: string[] = [];
+    if (options.agentId) { where.push('agent_id = ?'); params.push(options.agentId); }
+    if (options.messageId) { where.push('original_message_id = ?'); params.push(bracketed(options.messageId)); }
+    if (options.recipient) { where.push('recipient = ?'); params.push(bareAddress(options.recipient)); }
+    if (options.type) { where.push('type = ?'); params.push(options.type); }
+    const limit = Math.min(Math.max(options.limit ?? 100, 1), 1000);
+    const rows = this.db.prepare(
+      `SELECT * FROM bounces${where.length ? ` WHERE ${where.join(' AND ')}` : ''} ORDER BY created_at DESC, rowid DESC LIMIT ${limit}`,
+    ).all(...params) as unknown as BounceRow[];
+    return rows.map(toBounceRecord);
+  }
+
+  /** The entries among `addresses` that are on the suppression list. */
+  suppressed(addresses: string[]): SuppressedRecipient[] {
+    const unique = [...new Set(addresses.map(bareAddress).filter(a => a.includes('@')))];
+    if (unique.length === 0) return [];
+    const rows = this.db.prepare(
+      `SELECT * FROM suppressed_recipients WHERE address IN (${unique.map(() => '?').join(', ')})`,
+    ).all(...unique) as unknown as SuppressedRow[];
+    const daemons = unique
+      .filter(a => MAILER_DAEMON.test(a) && !rows.some(r => r.address === a))
+      .map((address): SuppressedRecipient => ({ address, reason: 'mailer_daemon', createdAt: this.now().toISOString() }));
+    return [...rows.map(toSuppressed), ...daemons].sort((a, b) => a.address.localeCompare(b.address));
+  }
+
+  /** Take an address off the list and clear its contacts flag. False when it was not listed. */
+  unsuppress(address: string): boolean {
+    const bare = bareAddress(address);
+    const result = this.db.prepare('DELETE FROM suppressed_recipients WHERE address = ?').run(bare);
+    if (result.changes === 0) return false;
+    this.db.prepare('UPDATE contacts SET bounced = 0, bounced_at = NULL WHERE lower(email) = ?').run(bare);
+    return true;
+  }
+
+  /** Newest first. */
+  listSuppressed(limit = 500): SuppressedRecipient[] {
+    const rows = this.db.prepare(
+      `SELECT * FROM suppressed_recipients ORDER BY created_at DESC, address LIMIT ?`,
+    ).all(Math.min(Math.max(limit, 1), 5000)) as unknown as SuppressedRow[];
+    return rows.map(toSuppressed);
+  }
+
+  private insertSuppression(
+    address: string,
+    reason: SuppressionReason,
+    bounceId: string | null,
+    detail: string | null,
+    agentId: string | null,
+    createdAt: string,
+  ): void {
+    this.db.prepare(
+      `INSERT OR IGNORE INTO suppressed_recipients (address, reason, bounce_id, detail, agent_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ).run(address, reason, bounceId, detail, agentId, createdAt);
+    this.db.prepare('UPDATE contacts SET bounced = 1, bounced_at = ? WHERE lower(email) = ? AND bounced = 0')
+      .run(createdAt, address);
+  }
+}
+
+function toBounceRecord(row: BounceRow): BounceRecord {
+  return {
+    id: row.id,
+    agentId: row.agent_id,
+    recipient: row.recipient,
+    type: row.type,
+    action: row.action,
+    ...(row.status ? { status: row.status } : {}),
+    ...(row.diagnostic ? { diagnostic: row.diagnostic } : {}),
+    ...(row.reporting_mta ? { reportingMta: row.reporting_mta } : {}),
+    ...(row.original_message_id ? { originalMessageId: row.original_message_id } : {}),
+    ...(row.original_subject ? { originalSubject: row.original_subject } : {}),
+    ...(row.bounce_message_id ? { bounceMessageId: row.bounce_message_id } : {}),
+    format: row.format,
+    suppressed: !!row.suppressed,
+    createdAt: row.created_at,
+  };
+}
+
+function toSuppressed(row: SuppressedRow): SuppressedRecipient {
+  return {
+    address: row.address,
+    reason: row.reason,
+    ...(row.bounce_id ? { bounceId: row.bounce_id } : {}),
+    ...(row.detail ? { detail: row.detail } : {}),
+    ...(row.agent_id ? { agentId: row.agent_id } : {}),
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,834 @@
+import { createHash, createPublicKey, verify as cryptoVerify, type KeyObject } from 'node:crypto';
+import { promises as dns } from 'node:dns';
+import { isIPv4, isIPv6 } from 'node:net';
+
+// --- DNS ---
+
+/**
+ * The lookups the verifier needs, shaped like `node:dns/promises` so a
+ * `Resolver` instance fits as-is. A missing name or record type must
+ * reject with code `ENOTFOUND` / `ENODATA`; any other rejection counts
+ * as a temporary failure.
+ */
+export interface EmailAuthDnsResolver {
+  resolveTxt(name: string): Promise<string[][]>;
+  resolve4(name: string): Promise<string[]>;
+  resolve6(name: string): Promise<string[]>;
+  resolveMx(name: string): Promise<Array<{ exchange: string; priority: number }>>;
+}
+
+export interface EmailAuthDnsZone {
+  [name: string]: {
+    TXT?: string[];
+    A?: string[];
+    AAAA?: string[];
+    MX?: Array<{ exchange: string; priority: number }>;
+  };
+}
+
+function dnsError(code: string, name: string): Error {
+  return Object.assign(new Error(`${code} ${name}`), { code });
+}
+
+/**
+ * Resolver over a fixed set of records, for tests and offline use.
+ * Names are matched case-insensitively; a long TXT value is returned
+ * as a single string, as if it were one unsplit record.
+ */
+export function createStaticDnsResolver(zone: EmailAuthDnsZone): EmailAuthDnsResolver {
+  const records = new Map(Object.entries(zone).map(([name, rr]) => [name.toLowerCase().replace(/\.$/, ''), rr]));
+  const lookup = <K extends keyof EmailAuthDnsZone[string]>(name: string, type: K) => {
+    const rr = records.get(name.toLowerCase().replace(/\.$/, ''));
+    if (!rr) return Promise.reject(dnsError('ENOTFOUND', name));
+    const values = rr[type];
+    if (!values?.length) return Promise.reject(dnsError('ENODATA', name));
+    return Promise.resolve(values as NonNullable<EmailAuthDnsZone[string][K]>);
+  };
+  return {
+    resolveTxt: async (name) => (await lookup(name, 'TXT')).map(v => [v]),
+    resolve4: (name) => lookup(name, 'A'),
+    resolve6: (name) => lookup(name, 'AAAA'),
+    resolveMx: (name) => lookup(name, 'MX'),
+  };
+}
+
+let systemResolver: EmailAuthDnsResolver | null = null;
+
+/** The system resolver, with a short timeout so a dead DNS server can't stall delivery. */
+function defaultResolver(): EmailAuthDnsResolver {
+  systemResolver ??= new dns.Resolver({ timeout: 3_000, tries: 2 });
+  return systemResolver;
+}
+
+class TempDnsError extends Error {}
+
+/** Runs a lookup; missing records come back empty, anything else is a TempDnsError. */
+async function query<T>(lookup: () => Promise<T[]>): Promise<T[]> {
+  try {
+    return await lookup();
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException)?.code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') return [];
+    throw new TempDnsError((err as Error)?.message ?? String(err));
+  }
+}
+
+async function txtRecords(resolver: EmailAuthDnsResolver, name: string): Promise<string[]> {
+  return (await query(() => resolver.resolveTxt(name))).map(chunks => chunks.join(''));
+}
+
+// --- Result types ---
+
+export type SpfVerdict = 'pass' | 'fail' | 'softfail' | 'neutral' | 'none' | 'temperror' | 'permerror';
+export type DkimVerdict = 'pass' | 'fail' | 'neutral' | 'temperror' | 'permerror';
+export type DmarcVerdict = 'pass' | 'fail' | 'none' | 'temperror' | 'permerror';
+export type ArcVerdict = 'pass' | 'fail' | 'none';
+
+export interface SpfResult {
+  result: SpfVerdict;
+  /** The domain checked: the envelope sender's, or the HELO name. */
+  domain?: string;
+  ip?: string;
+  reason?: string;
+}
+
+export interface DkimSignatureResult {
+  result: DkimVerdict;
+  /** The signing domain (`d=`). */
+  domain: string;
+  selector: string;
+  algorithm: string;
+  /** Whether `d=` aligns (relaxed) with the From domain. */
+  aligned: boolean;
+  reason?: string;
+}
+
+export interface DmarcResult {
+  result: DmarcVerdict;
+  /** The From domain the policy applies to. */
+  domain?: string;
+  /** Requested disposition for failing mail (`sp=` when the record came from the organisational domain). */
+  policy?: 'none' | 'quarantine' | 'reject';
+  alignment: { dkim: boolean; spf: boolean };
+  reason?: string;
+}
+
+export interface ArcResult {
+  result: ArcVerdict;
+  /** Number of ARC sets on the message. */
+  instances: number;
+  /** Sealing domains, oldest first. */
+  sealers: string[];
+  reason?: string;
+}
+
+export interface EmailAuthResult {
+  spf: SpfResult;
+  dkim: DkimSignatureResult[];
+  dmarc: DmarcResult;
+  arc: ArcResult;
+  /** The single From domain, when the message has one. */
+  fromDomain?: string;
+  /**
+   * An SPF or DKIM pass aligned with the From domain — the From
+   * address is the sender's own, whether or not the domain publishes
+   * a DMARC record.
+   */
+  fromAligned: boolean;
+}
+
+export interface EmailAuthOptions {
+  resolver?: EmailAuthDnsResolver;
+  /** Connecting client IP. SPF is only evaluated when it is known. */
+  ip?: string;
+  /** SMTP MAIL FROM; defaults to the Return-Path header. */
+  mailFrom?: string;
+  /** SMTP HELO/EHLO name, checked by SPF when there is no envelope sender. */
+  helo?: string;
+  /** Clock for signature expiry checks. */
+  now?: Date;
+}
+
+// --- Message parsing ---
+
+interface RawHeader {
+  /** Lower-cased field name. */
+  name: string;
+  /** The whole field as received, folding kept, without the final CRLF. */
+  raw: string;
+  /** Everything after the colon. */
+  value: string;
+}
+
+interface RawMessage {
+  headers: RawHeader[];
+  /** Body as latin1 text, so each char is one byte. */
+  body: string;
+}
+
+function splitMessage(raw: Buffer | string): RawMessage {
+  const text = (typeof raw === 'string' ? raw : raw.toString('latin1')).replace(/\r?\n/g, '\r\n');
+  const end = text.startsWith('\r\n') ? 0 : text.indexOf('\r\n\r\n');
+  const head = end < 0 ? text : text.slice(0, end);
+  const body = end < 0 ? '' : text.slice(end + (end === 0 ? 2 : 4));
+
+  const headers: RawHeader[] = [];
+  for (const line of head ? head.split('\r\n') : []) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].raw += '\r\n' + line;
+      continue;
+    }
+    headers.push({ name: '', raw: line, value: '' });
+  }
+  for (const h of headers) {
+    const colon = h.raw.indexOf(':');
+    h.name = (colon < 0 ? h.raw : h.raw.slice(0, colon)).trim().toLowerCase();
+    h.value = colon < 0 ? '' : h.raw.slice(colon + 1);
+  }
+  return { headers: headers.filter(h => h.name), body };
+}
+
+/** `tag=value` list as used by DKIM-Signature, ARC and key/policy records. */
+function parseTags(value: string): Map<string, string> | null {
+  const tags = new Map<string, string>();
+  for (const part of value.split(';')) {
+    if (!part.trim()) continue;
+    const eq = part.indexOf('=');
+    if (eq < 0) return null;
+    const name = part.slice(0, eq).trim().toLowerCase();
+    if (!name || tags.has(name)) return null;
+    tags.set(name, part.slice(eq + 1).replace(/\r\n[ \t]/g, ' ').trim());
+  }
+  return tags;
+}
+
+const stripSpace = (s: string) => s.replace(/[ \t\r\n]+/g, '');
+
+// --- Canonicalization (RFC 6376 §3.4) ---
+
+function canonHeader(h: RawHeader, mode: 'simple' | 'relaxed'): string {
+  if (mode === 'simple') return h.raw + '\r\n';
+  const value = h.value.replace(/\r\n/g, '').replace(/[ \t]+/g, ' ').trim();
+  return `${h.name}:${value}\r\n`;
+}
+
+function canonBody(body: string, mode: 'simple' | 'relaxed'): string {
+  let out = body;
+  if (mode === 'relaxed') out = out.replace(/[ \t]+\r\n/g, '\r\n').replace(/[ \t]+$/, '').replace(/[ \t]+/g, ' ');
+  if (out && !out.endsWith('\r\n')) out += '\r\n';
+  out = out.replace(/(\r\n)+$/, '\r\n');
+  if (mode === 'simple' && (out === '' || out === '\r\n')) return '\r\n';
+  return out === '\r\n' ? '' : out;
+}
+
+/** Header fields named in `h=`, each taking the bottom-most instance not yet used. */
+function selectHeaders(headers: RawHeader[], names: string[], mode: 'simple' | 'relaxed'): string {
+  const used = new Set<RawHeader>();
+  let out = '';
+  for (const name of names) {
+    const lower = name.trim().toLowerCase();
+    for (let i = headers.length - 1; i >= 0; i--) {
+      const h = headers[i];
+      if (h.name !== lower || used.has(h)) continue;
+      used.add(h);
+      out += canonHeader(h, mode);
+      break;
+    }
+  }
+  return out;
+}
+
+/** The signing header itself, with its `b=` value emptied and no trailing CRLF. */
+function unsignedHeader(h: RawHeader, mode: 'simple' | 'relaxed'): string {
+  const value = h.value.replace(/(^|;)([ \t\r\n]*b[ \t\r\n]*=)[^;]*/i, '$1$2');
+  const stripped: RawHeader = { name: h.name, raw: h.raw.slice(0, h.raw.length - h.value.length) + value, value };
+  return canonHeader(stripped, mode).slice(0, -2);
+}
+
+// --- Keys and signatures ---
+
+/** ASN.1 prefix that wraps a raw 32-byte Ed25519 key as SubjectPublicKeyInfo (RFC 8410). */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+const MIN_RSA_BITS = 1024;
+
+type KeyLookup =
+  | { ok: true; key: KeyObject; keyType: 'rsa' | 'ed25519' }
+  | { ok: false; result: DkimVerdict; reason: string };
+
+async function fetchKey(resolver: EmailAuthDnsResolver, selector: string, domain: string): Promise<KeyLookup> {
+  let records: string[];
+  try {
+    records = await txtRecords(resolver, `${selector}._domainkey.${domain}`);
+  } catch (err) {
+    return { ok: false, result: 'temperror', reason: `key lookup failed: ${(err as Error).message}` };
+  }
+  if (records.length === 0) return { ok: false, result: 'permerror', reason: 'no key published' };
+  const tags = parseTags(records[0]);
+  if (!tags) return { ok: false, result: 'permerror', reason: 'malformed key record' };
+  if (tags.has('v') && tags.get('v') !== 'DKIM1') return { ok: false, result: 'permerror', reason: 'bad key record version' };
+  const p = stripSpace(tags.get('p') ?? '');
+  if (!p) return { ok: false, result: 'permerror', reason: 'key revoked' };
+  const keyType = (tags.get('k') ?? 'rsa').toLowerCase();
+  const der = Buffer.from(p, 'base64');
+  try {
+    if (keyType === 'ed25519') {
+      const key = createPublicKey({ key: Buffer.concat([ED25519_SPKI_PREFIX, der]), format: 'der', type: 'spki' });
+      return { ok: true, key, keyType };
+    }
+    if (keyType !== 'rsa') return { ok: false, result: 'permerror', reason: `unsupported key type ${keyType}` };
+    let key: KeyObject;
+    try {
+      key = createPublicKey({ key: der, format: 'der', type: 'spki' });
+    } catch {
+      key = createPublicKey({ key: der, format: 'der', type: 'pkcs1' });
+    }
+    if ((key.asymmetricKeyDetails?.modulusLength ?? 0) < MIN_RSA_BITS) {
+      return { ok: false, result: 'permerror', reason: 'RSA key too short' };
+    }
+    return { ok: true, key, keyType };
+  } catch {
+    return { ok: false, result: 'permerror', reason: 'unreadable public key' };
+  }
+}
+
+interface SignatureCheck {
+  result: DkimVerdict;
+  domain: string;
+  selector: string;
+  algorithm: string;
+  reason?: string;
+}
+
+/**
+ * Verifies one DKIM-Signature or ARC-Message-Signature (they differ
+ * only in the tags they require).
+ */
+async function checkMessageSignature(
+  message: RawMessage,
+  header: RawHeader,
+  kind: 'dkim' | 'arc',
+  resolver: EmailAuthDnsResolver,
+  now: Date,
+): Promise<SignatureCheck> {
+  const tags = parseTags(header.value);
+  const domain = (tags?.get('d') ?? '').toLowerCase();
+  const selector = tags?.get('s') ?? '';
+  const algorithm = (tags?.get('a') ?? '').toLowerCase();
+  const fail = (result: DkimVerdict, reason: string): SignatureCheck => ({ result, domain, selector, algorithm, reason });
+
+  if (!tags) return fail('permerror', 'malformed signature');
+  if (kind === 'dkim' && tags.get('v') !== '1') return fail('permerror', 'unsupported DKIM version');
+  for (const required of ['a', 'b', 'bh', 'd', 'h', 's']) {
+    if (!tags.get(required)) return fail('permerror', `missing ${required}= tag`);
+  }
+  if (algorithm === 'rsa-sha1') return fail('permerror', 'rsa-sha1 is no longer accepted');
+  if (algorithm !== 'rsa-sha256' && algorithm !== 'ed25519-sha256') return fail('permerror', `unsupported algorithm ${algorithm}`);
+
+  const signed = tags.get('h')!.split(':').map(n => n.trim().toLowerCase()).filter(Boolean);
+  if (!signed.includes('from')) return fail('permerror', 'From is not signed');
+  // An ARC-Message-Signature's i= is its instance number, not an identity.
+  const identity = kind === 'dkim' ? tags.get('i') : undefined;
+  if (identity) {
+    const idDomain = identity.slice(identity.lastIndexOf('@') + 1).toLowerCase();
+    if (idDomain !== domain && !idDomain.endsWith(`.${domain}`)) return fail('permerror', 'i= is outside d=');
+  }
+  const expires = Number(tags.get('x'));
+  if (tags.has('x') && Number.isFinite(expires) && expires * 1000 < now.getTime()) return fail('fail', 'signature expired');
+
+  const [headerMode, bodyMode = 'simple'] = (tags.get('c') ?? 'simple/simple').toLowerCase().split('/');
+  const modes = ['simple', 'relaxed'];
+  if (!modes.includes(headerMode) || !modes.includes(bodyMode)) return fail('permerror', 'unsupported canonicalization');
+
+  let body = canonBody(message.body, bodyMode as 'simple' | 'relaxed');
+  if (tags.has('l')) {
+    const length = Number(tags.get('l'));
+    if (!Number.isInteger(length) || length < 0 || length > body.length) return fail('permerror', 'bad l= length');
+    body = body.slice(0, length);
+  }
+  const bodyHash = createHash('sha256').update(Buffer.from(body, 'latin1')).digest('base64');
+  if (bodyHash !== stripSpace(tags.get('bh')!)) return fail('fail', 'body hash mismatch');
+
+  const key = await fetchKey(resolver, selector, domain);
+  if (!key.ok) return fail(key.result, key.reason);
+  if ((algorithm === 'ed25519-sha256') !== (key.keyType === 'ed25519')) return fail('permerror', 'key type does not match algorithm');
+
+  const data = Buffer.from(
+    selectHeaders(message.headers, signed, headerMode as 'simple' | 'relaxed') + unsignedHeader(header, headerMode as 'simple' | 'relaxed'),
+    'latin1',
+  );
+  return verifySignature(data, tags.get('b')!, key, algorithm)
+    ? { result: 'pass', domain, selector, algorithm }
+    : fail('fail', 'signature did not verify');
+}
+
+function verifySignature(
+  data: Buffer,
+  signature: string,
+  key: Extract<KeyLookup, { ok: true }>,
+  algorithm: string,
+): boolean {
+  const sig = Buffer.from(stripSpace(signature), 'base64');
+  try {
+    // Ed25519 (RFC 8463) signs the SHA-256 digest of the header data.
+    return algorithm === 'ed25519-sha256'
+      ? cryptoVerify(null, createHash('sha256').update(data).digest(), key.key, sig)
+      : cryptoVerify('sha256', data, key.key, sig);
+  } catch {
+    return false;
+  }
+}
+
+// --- Domains and alignment ---
+
+/**
+ * Two-label public suffixes common enough to matter. A stand-in for
+ * the Public Suffix List: elsewhere the organisational domain is the
+ * last two labels.
+ */
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk', 'ltd.uk', 'plc.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au',
+  'co.nz', 'org.nz', 'co.jp', 'ne.jp', 'or.jp', 'ac.jp',
+  'co.in', 'co.za', 'co.kr', 'co.il', 'co.id', 'co.th',
+  'com.br', 'com.cn', 'com.mx', 'com.ar', 'com.tr', 'com.sg', 'com.hk', 'com.tw', 'com.my',
+]);
+
+export function organizationalDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length <= 2) return labels.join('.');
+  const lastTwo = labels.slice(-2).join('.');
+  return labels.slice(MULTI_LABEL_SUFFIXES.has(lastTwo) ? -3 : -2).join('.');
+}
+
+function aligned(domain: string | undefined, fromDomain: string | undefined, mode: 'r' | 's' = 'r'): boolean {
+  if (!domain || !fromDomain) return false;
+  const a = domain.toLowerCase();
+  const b = fromDomain.toLowerCase();
+  return mode === 's' ? a === b : organizationalDomain(a) === organizationalDomain(b);
+}
+
+/**
+ * Domains of the addresses in a From field. Quoted display names and
+ * comments are dropped first, so `"ceo@bank.example" <x@evil.example>`
+ * yields only evil.example.
+ */
+function addressDomains(value: string): string[] {
+  const cleaned = value
+    .replace(/\r\n[ \t]/g, ' ')
+    .replace(/"(?:[^"\\]|\\.)*"/g, '')
+    .replace(/\((?:[^()\\]|\\.)*\)/g, '');
+  const angled = [...cleaned.matchAll(/<([^<>]*)>/g)].map(m => m[1]);
+  const addresses = angled.length > 0 ? angled : cleaned.split(',');
+  const domains = addresses
+    .map(a => a.trim().match(/@([^@\s>]+)$/)?.[1]?.toLowerCase().replace(/\.$/, ''))
+    .filter((d): d is string => !!d);
+  return [...new Set(domains)];
+}
+
+function envelopeDomain(address: string | undefined): string | undefined {
+  const addr = address?.trim().replace(/^<|>$/g, '');
+  if (!addr) return undefined;
+  const at = addr.lastIndexOf('@');
+  return (at < 0 ? addr : addr.slice(at + 1)).toLowerCase() || undefined;
+}
+
+// --- IP matching ---
+
+function ipBytes(ip: string): number[] | null {
+  if (isIPv4(ip)) return ip.split('.').map(Number);
+  if (!isIPv6(ip)) return null;
+  let addr = ip.split('%')[0];
+  const v4 = addr.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const [a, b, c, d] = v4[1].split('.').map(Number);
+    addr = addr.slice(0, -v4[1].length) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [left, right] = addr.split('::');
+  const head = left ? left.split(':') : [];
+  const tail = right !== undefined && right ? right.split(':') : [];
+  const groups = right === undefined ? head : [...head, ...Array(8 - head.length - tail.length).fill('0'), ...tail];
+  if (groups.length !== 8) return null;
+  return groups.flatMap(g => {
+    const n = parseInt(g, 16);
+    return [n >> 8, n & 0xff];
+  });
+}
+
+/** IPv4-mapped IPv6 (`::ffff:a.b.c.d`), as Node reports IPv4 peers on dual-stack sockets, is checked as IPv4. */
+function normalizeIp(ip: string): string {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  return mapped ? mapped[1] : ip;
+}
+
+function inNetwork(ip: number[], network: string, bits: number): boolean {
+  const net = ipBytes(network);
+  if (!net || net.length !== ip.length) return false;
+  for (let i = 0; i < ip.length && bits > 0; i++, bits -= 8) {
+    const mask = bits >= 8 ? 0xff : (0xff << (8 - bits)) & 0xff;
+    if ((ip[i] & mask) !== (net[i] & mask)) return false;
+  }
+  return true;
+}
+
+// --- SPF (RFC 7208) ---
+
+const SPF_LOOKUP_LIMIT = 10;
+const SPF_VOID_LOOKUP_LIMIT = 2;
+
+class SpfPermError extends Error {}
+
+interface SpfContext {
+  ip: string;
+  bytes: number[];
+  sender: string;
+  helo: string;
+  resolver: EmailAuthDnsResolver;
+  lookups: number;
+  voids: number;
+}
+
+function countLookup(ctx: SpfContext): void {
+  if (++ctx.lookups > SPF_LOOKUP_LIMIT) throw new SpfPermError('too many DNS lookups');
+}
+
+async function spfQuery<T>(ctx: SpfContext, lookup: () => Promise<T[]>): Promise<T[]> {
+  const out = await query(lookup);
+  if (out.length === 0 && ++ctx.voids > SPF_VOID_LOOKUP_LIMIT) throw new SpfPermError('too many void lookups');
+  return out;
+}
+
+/** Macro expansion (RFC 7208 §7), for the letters a receiver can know. */
+function expandMacros(spec: string, domain: string, ctx: SpfContext): string {
+  const [local, senderDomain] = ctx.sender.includes('@')
+    ? [ctx.sender.slice(0, ctx.sender.lastIndexOf('@')), ctx.sender.slice(ctx.sender.lastIndexOf('@') + 1)]
+    : ['postmaster', ctx.sender];
+  const v6 = ctx.bytes.length === 16;
+  const values: Record<string, string> = {
+    s: ctx.sender,
+    l: local,
+    o: senderDomain,
+    d: domain,
+    i: v6 ? ctx.bytes.flatMap(b => [b >> 4, b & 0xf]).map(n => n.toString(16)).join('.') : ctx.ip,
+    p: 'unknown',
+    v: v6 ? 'ip6' : 'in-addr',
+    h: ctx.helo || 'unknown',
+  };
+  return spec.replace(/%(?:\{([a-z])(\d*)(r?)([.\-+,/_=]*)\}|(.))/gi, (whole, letter, digits, reverse, delims, escape) => {
+    if (escape !== undefined) {
+      if (escape === '%') return '%';
+      if (escape === '_') return ' ';
+      if (escape === '-') return '%20';
+      throw new SpfPermError(`bad macro ${whole}`);
+    }
+    const value = values[letter.toLowerCase()];
+    if (value === undefined) throw new SpfPermError(`bad macro ${whole}`);
+    let parts = value.split(new RegExp(`[${(delims || '.').replace(/[-\\\]]/g, '\\$&')}]`));
+    if (reverse) parts = parts.reverse();
+    if (digits) parts = parts.slice(-Number(digits));
+    return parts.join('.');
+  });
+}
+
+/** `mechanism:domain/cidr4//cidr6` → target domain and prefix lengths. */
+function splitTarget(arg: string | undefined, domain: string, ctx: SpfContext): { target: string; v4: number; v6: number } {
+  const m = (arg ?? '').match(/^([^/]*)(?:\/(\d+))?(?:\/\/(\d+))?$/);
+  if (!m) throw new SpfPermError(`bad argument ${arg}`);
+  const v4 = m[2] === undefined ? 32 : Number(m[2]);
+  const v6 = m[3] === undefined ? 128 : Number(m[3]);
+  if (v4 > 32 || v6 > 128) throw new SpfPermError(`bad prefix length in ${arg}`);
+  return { target: m[1] ? expandMacros(m[1], domain, ctx) : domain, v4, v6 };
+}
+
+async function addressMatches(ctx: SpfContext, host: string, v4: number, v6: number): Promise<boolean> {
+  const v6Mode = ctx.bytes.length === 16;
+  const addrs = v6Mode
+    ? await spfQuery(ctx, () => ctx.resolver.resolve6(host))
+    : await spfQuery(ctx, () => ctx.resolver.resolve4(host));
+  return addrs.some(a => inNetwork(ctx.bytes, a, v6Mode ? v6 : v4));
+}
+
+async function checkHost(ctx: SpfContext, domain: string, depth = 0): Promise<SpfVerdict> {
+  if (depth > SPF_LOOKUP_LIMIT) throw new SpfPermError('include loop');
+  const records = (await query(() => ctx.resolver.resolveTxt(domain)))
+    .map(chunks => chunks.join(''))
+    .filter(r => /^v=spf1(\s|$)/i.test(r));
+  if (records.length === 0) return 'none';
+  if (records.length > 1) throw new SpfPermError(`multiple SPF records for ${domain}`);
+
+  let redirect: string | undefined;
+  for (const term of records[0].split(/\s+/).slice(1).filter(Boolean)) {
+    const modifier = term.match(/^([a-z][a-z0-9._-]*)=(.*)$/i);
+    if (modifier) {
+      if (modifier[1].toLowerCase() === 'redirect') redirect = modifier[2];
+      continue;
+    }
+    const m = term.match(/^([+\-~?]?)([a-z0-9]+)(?::([^/]*(?:\/.*)?)|(\/.*))?$/i);
+    if (!m) throw new SpfPermError(`bad term ${term}`);
+    const qualifier = m[1] || '+';
+    const mechanism = m[2].toLowerCase();
+    const arg = m[3] ?? m[4];
+    let matched = false;
+
+    switch (mechanism) {
+      case 'all':
+        matched = true;
+        break;
+      case 'ip4':
+      case 'ip6': {
+        const [network, prefix] = (arg ?? '').split('/');
+        const family = mechanism === 'ip4' ? isIPv4(network) : isIPv6(network);
+        if (!family) throw new SpfPermError(`bad ${mechanism} ${arg}`);
+        const max = mechanism === 'ip4' ? 32 : 128;
+        const bits = prefix === undefined ? max : Number(prefix);
+        if (!(bits >= 0 && bits <= max)) throw new SpfPermError(`bad ${mechanism} ${arg}`);
+        matched = inNetwork(ctx.bytes, network, bits);
+        break;
+      }
+      case 'a': {
+        countLookup(ctx);
+        const { target, v4, v6 } = splitTarget(arg, domain, ctx);
+        matched = await addressMatches(ctx, target, v4, v6);
+        break;
+      }
+      case 'mx': {
+        countLookup(ctx);
+        const { target, v4, v6 } = splitTarget(arg, domain, ctx);
+        const hosts = (await spfQuery(ctx, () => ctx.resolver.resolveMx(target))).slice(0, SPF_LOOKUP_LIMIT);
+        for (const mx of hosts) {
+          if (await addressMatches(ctx, mx.exchange, v4, v6)) { matched = true; break; }
+        }
+        break;
+      }
+      case 'include': {
+        countLookup(ctx);
+        if (!arg) throw new SpfPermError('include without a domain');
+        const result = await checkHost(ctx, expandMacros(arg, domain, ctx), depth + 1);
+        if (result === 'temperror') return 'temperror';
+        if (result === 'permerror' || result === 'none') throw new SpfPermError(`include:${arg} has no usable record`);
+        matched = result === 'pass';
+        break;
+      }
+      case 'exists': {
+        countLookup(ctx);
+        if (!arg) throw new SpfPermError('exists without a domain');
+        const target = expandMacros(arg, domain, ctx);
+        matched = (await spfQuery(ctx, () => ctx.resolver.resolve4(target))).length > 0;
+        break;
+      }
+      case 'ptr':
+        // Deprecated (RFC 7208 §5.5) and slow: counted, never matched.
+        countLookup(ctx);
+        break;
+      default:
+        throw new SpfPermError(`unknown mechanism ${mechanism}`);
+    }
+
+    if (matched) {
+      return ({ '+': 'pass', '-': 'fail', '~': 'softfail', '?': 'neutral' } as const)[qualifier as '+' | '-' | '~' | '?'];
+    }
+  }
+
+  if (redirect) {
+    countLookup(ctx);
+    const result = await checkHost(ctx, expandMacros(redirect, domain, ctx), depth + 1);
+    if (result === 'none') throw new SpfPermError(`redirect=${redirect} has no record`);
+    return result;
+  }
+  return 'neutral';
+}
+
+/**
+ * SPF check of `ip` for the envelope sender (or the HELO name when the
+ * sender is empty, as for bounces).
+ */
+export async function verifySpf(
+  ip: string | undefined,
+  mailFrom: string | undefined,
+  helo: string | undefined,
+  resolver: EmailAuthDnsResolver = defaultResolver(),
+): Promise<SpfResult> {
+  const domain = envelopeDomain(mailFrom) ?? envelopeDomain(helo);
+  if (!ip) return { result: 'none', ...(domain ? { domain } : {}), reason: 'connecting IP unknown' };
+  const client = normalizeIp(ip);
+  const bytes = ipBytes(client);
+  if (!bytes) return { result: 'permerror', ip, reason: 'invalid IP address' };
+  if (!domain) return { result: 'none', ip: client, reason: 'no envelope sender or HELO name' };
+
+  const sender = mailFrom?.trim().replace(/^<|>$/g, '') || `postmaster@${domain}`;
+  const ctx: SpfContext = { ip: client, bytes, sender, helo: helo ?? '', resolver, lookups: 0, voids: 0 };
+  try {
+    return { result: await checkHost(ctx, domain), domain, ip: client };
+  } catch (err) {
+    if (err instanceof SpfPermError) return { result: 'permerror', domain, ip: client, reason: err.message };
+    return { result: 'temperror', domain, ip: client, reason: (err as Error).message };
+  }
+}
+
+// --- DMARC (RFC 7489) ---
+
+async function dmarcRecord(resolver: EmailAuthDnsResolver, domain: string): Promise<Map<string, string> | null> {
+  const records = (await txtRecords(resolver, `_dmarc.${domain}`)).filter(r => /^v\s*=\s*DMARC1\s*(;|$)/i.test(r));
+  return records.length === 1 ? parseTags(records[0]) : null;
+}
+
+const POLICIES = new Set(['none', 'quarantine', 'reject']);
+
+async function evaluateDmarc(
+  resolver: EmailAuthDnsResolver,
+  fromDomains: string[],
+  spf: SpfResult,
+  dkim: DkimSignatureResult[],
+): Promise<DmarcResult> {
+  const none = { dkim: false, spf: false };
+  if (fromDomains.length !== 1) {
+    return { result: 'permerror', alignment: none, reason: fromDomains.length ? 'multiple From domains' : 'no From domain' };
+  }
+  const domain = fromDomains[0];
+  let record: Map<string, string> | null;
+  let fromOrg = false;
+  try {
+    record = await dmarcRecord(resolver, domain);
+    const org = organizationalDomain(domain);
+    if (!record && org !== domain) {
+      record = await dmarcRecord(resolver, org);
+      fromOrg = !!record;
+    }
+  } catch (err) {
+    return { result: 'temperror', domain, alignment: none, reason: (err as Error).message };
+  }
+  if (!record) return { result: 'none', domain, alignment: none, reason: 'no DMARC record' };
+
+  const p = record.get('p')?.toLowerCase();
+  if (!p || !POLICIES.has(p)) return { result: 'permerror', domain, alignment: none, reason: 'invalid p= policy' };
+  const sp = record.get('sp')?.toLowerCase();
+  const policy = (fromOrg && sp && POLICIES.has(sp) ? sp : p) as DmarcResult['policy'];
+  const adkim = record.get('adkim')?.toLowerCase() === 's' ? 's' : 'r';
+  const aspf = record.get('aspf')?.toLowerCase() === 's' ? 's' : 'r';
+
+  const alignment = {
+    dkim: dkim.some(s => s.result === 'pass' && aligned(s.domain, domain, adkim)),
+    spf: spf.result === 'pass' && aligned(spf.domain, domain, aspf),
+  };
+  return { result: alignment.dkim || alignment.spf ? 'pass' : 'fail', domain, policy, alignment };
+}
+
+// --- ARC (RFC 8617) ---
+
+const ARC_MAX_INSTANCES = 50;
+
+function arcInstance(h: RawHeader): number {
+  const m = h.value.match(/^\s*i\s*=\s*(\d+)\s*;/i) ?? h.value.match(/(?:^|;)\s*i\s*=\s*(\d+)\s*(?:;|$)/i);
+  return m ? Number(m[1]) : NaN;
+}
+
+async function verifyArc(message: RawMessage, resolver: EmailAuthDnsResolver, now: Date): Promise<ArcResult> {
+  const sets = new Map<number, { seal?: RawHeader; ams?: RawHeader; aar?: RawHeader }>();
+  const names = { 'arc-seal': 'seal', 'arc-message-signature': 'ams', 'arc-authentication-results': 'aar' } as const;
+  let count = 0;
+  for (const h of message.headers) {
+    const slot = names[h.name as keyof typeof names];
+    if (!slot) continue;
+    count++;
+    const i = arcInstance(h);
+    const set = sets.get(i) ?? {};
+    if (!Number.isInteger(i) || i < 1 || set[slot]) return { result: 'fail', instances: 0, sealers: [], reason: 'malformed or duplicate ARC instance' };
+    set[slot] = h;
+    sets.set(i, set);
+  }
+  if (count === 0) return { result: 'none', instances: 0, sealers: [] };
+
+  const n = sets.size;
+  const fail = (reason: string, sealers: string[] = []): ArcResult => ({ result: 'fail', instances: n, sealers, reason });
+  if (n > ARC_MAX_INSTANCES) return fail('too many ARC sets');
+  const ordered: Array<{ seal: RawHeader; ams: RawHeader; aar: RawHeader; tags: Map<string, string> }> = [];
+  for (let i = 1; i <= n; i++) {
+    const set = sets.get(i);
+    if (!set?.seal || !set.ams || !set.aar) return fail(`ARC set ${i} is incomplete`);
+    const tags = parseTags(set.seal.value);
+    if (!tags) return fail(`ARC-Seal ${i} is malformed`);
+    ordered.push({ seal: set.seal, ams: set.ams, aar: set.aar, tags });
+  }
+  const sealers = ordered.map(s => (s.tags.get('d') ?? '').toLowerCase());
+
+  for (const [index, set] of ordered.entries()) {
+    const cv = set.tags.get('cv')?.toLowerCase();
+    if (cv === 'fail') return fail(`ARC set ${index + 1} recorded a broken chain`, sealers);
+    if (cv !== (index === 0 ? 'none' : 'pass')) return fail(`ARC set ${index + 1} has cv=${cv ?? '(missing)'}`, sealers);
+  }
+
+  const latest = await checkMessageSignature(message, ordered[n - 1].ams, 'arc', resolver, now);
+  if (latest.result !== 'pass') return fail(`ARC-Message-Signature ${n}: ${latest.reason ?? latest.result}`, sealers);
+
+  for (let i = n; i >= 1; i--) {
+    const seal = ordered[i - 1];
+    const algorithm = (seal.tags.get('a') ?? '').toLowerCase();
+    if (algorithm !== 'rsa-sha256' && algorithm !== 'ed25519-sha256') return fail(`ARC-Seal ${i} uses ${algorithm || 'no algorithm'}`, sealers);
+    const key = await fetchKey(resolver, seal.tags.get('s') ?? '', sealers[i - 1]);
+    if (!key.ok) return fail(`ARC-Seal ${i}: ${key.reason}`, sealers);
+    let data = '';
+    for (let j = 0; j < i - 1; j++) {
+      data += canonHeader(ordered[j].aar, 'relaxed') + canonHeader(ordered[j].ams, 'relaxed') + canonHeader(ordered[j].seal, 'relaxed');
+    }
+    data += canonHeader(seal.aar, 'relaxed') + canonHeader(seal.ams, 'relaxed') + unsignedHeader(seal.seal, 'relaxed');
+    if (!verifySignature(Buffer.from(data, 'latin1'), seal.tags.get('b') ?? '', key, algorithm)) {
+      return fail(`ARC-Seal ${i} did not verify`, sealers);
+    }
+  }
+  return { result: 'pass', instances: n, sealers };
+}
+
+// --- Entry point ---
+
+/**
+ * Verify a raw RFC 5322 message: every DKIM signature, SPF for the
+ * connecting IP when given, DMARC alignment of the From domain, and
+ * the ARC chain. Never throws — DNS trouble shows up as `temperror`.
+ */
+export async function verifyEmailAuthentication(
+  raw: Buffer | string,
+  options: EmailAuthOptions = {},
+): Promise<EmailAuthResult> {
+  const resolver = options.resolver ?? defaultResolver();
+  const now = options.now ?? new Date();
+  const message = splitMessage(raw);
+  const fromHeaders = message.headers.filter(h => h.name === 'from');
+  const fromDomains = fromHeaders.length === 1 ? addressDomains(fromHeaders[0].value) : [];
+  const fromDomain = fromDomains.length === 1 ? fromDomains[0] : undefined;
+
+  const returnPath = message.headers.find(h => h.name === 'return-path')?.value;
+  const [spf, dkim, arc] = await Promise.all([
+    verifySpf(options.ip, options.mailFrom ?? returnPath, options.helo, resolver),
+    Promise.all(message.headers
+      .filter(h => h.name === 'dkim-signature')
+      .map(async (h): Promise<DkimSignatureResult> => {
+        const check = await checkMessageSignature(message, h, 'dkim', resolver, now);
+        return { ...check, aligned: aligned(check.domain, fromDomain) };
+      })),
+    verifyArc(message, resolver, now),
+  ]);
+  const dmarc = fromHeaders.length > 1
+    ? { result: 'permerror' as const, alignment: { dkim: false, spf: false }, reason: 'multiple From headers' }
+    : await evaluateDmarc(resolver, fromDomains, spf, dkim);
+
+  const fromAligned = !!fromDomain && (
+    dkim.some(s => s.result === 'pass' && s.aligned) || (spf.result === 'pass' && aligned(spf.domain, fromDomain))
+  );
+  return { spf, dkim, dmarc, arc, ...(fromDomain ? { fromDomain } : {}), fromAligned };
+}
+
+/** Default authserv-id for the headers this verifier writes. */
+export const AUTHSERV_ID = 'agenticmail';
+
+/**
+ * Render a result as an Authentication-Results header value (RFC 8601),
+ * in the form the spam filter's authentication rules read.
+ */
+export function formatAuthenticationResults(result: EmailAuthResult, authservId = AUTHSERV_ID): string {
+  const parts = [authservId];
+  parts.push(`spf=${result.spf.result}${result.spf.domain ? ` smtp.mailfrom=${result.spf.domain}` : ''}`);
+  if (result.dkim.length === 0) parts.push('dkim=none');
+  for (const sig of result.dkim) parts.push(`dkim=${sig.result} header.d=${sig.domain || 'unknown'} header.s=${sig.selector || 'unknown'}`);
+  parts.push(`dmarc=${result.dmarc.result}${result.dmarc.domain ? ` header.from=${result.dmarc.domain}` : ''}`);
+  parts.push(`arc=${result.arc.result}`);
+  return parts.join('; ');
+}
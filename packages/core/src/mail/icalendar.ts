@@ -0,0 +1,510 @@
+/**
+ * iCalendar (RFC 5545) parsing and writing for meeting invites (iTIP,
+ * RFC 5546, carried in mail per iMIP, RFC 6047).
+ *
+ * parseICalendar turns a `text/calendar` part into the invite's METHOD
+ * and its VEVENTs — organizer, attendees, times, recurrence. Times
+ * with a TZID are resolved to instants: an IANA name through Intl, any
+ * other name (Outlook writes Windows zone names) through the
+ * calendar's own VTIMEZONE rules. Floating times are read as UTC.
+ *
+ * formatICalendar writes a calendar with CRLF line endings, escaped
+ * text and lines folded at 75 octets. Events given a time zone get a
+ * VTIMEZONE generated from Intl, so recurring meetings keep their wall
+ * clock time across DST changes.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type PartStat = 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE' | 'DELEGATED';
+
+export interface CalendarTime {
+  /** The instant. An all-day date is midnight UTC of that date. */
+  date: Date;
+  /** The TZID the value was written in, if any. */
+  tzid?: string;
+  /** A DATE value (all-day), not a DATE-TIME. */
+  allDay?: boolean;
+}
+
+export interface CalendarAddress {
+  address: string;
+  name?: string;
+}
+
+export interface CalendarAttendee extends CalendarAddress {
+  role?: string;
+  partstat?: string;
+  rsvp?: boolean;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  summary?: string;
+  description?: string;
+  location?: string;
+  status?: string;
+  organizer?: CalendarAddress;
+  attendees: CalendarAttendee[];
+  start?: CalendarTime;
+  /** DTEND, or DTSTART + DURATION. */
+  end?: CalendarTime;
+  /** RRULE values, e.g. `FREQ=WEEKLY;BYDAY=MO`. */
+  recurrence?: string[];
+  /** Set on an event that overrides one occurrence of a series. */
+  recurrenceId?: CalendarTime;
+  exdates?: CalendarTime[];
+  dtstamp?: Date;
+  url?: string;
+}
+
+export interface CalendarInvite {
+  /** iTIP METHOD: REQUEST, REPLY, CANCEL, PUBLISH, … (upper case). */
+  method?: string;
+  events: CalendarEvent[];
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  type: string;
+  props: ContentLine[];
+  children: Component[];
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // NAME *(;PARAM=value) : value — parameter values may be quoted and contain ':' or ';'.
+  const m = /^([A-Za-z0-9-]+)/.exec(line);
+  if (!m) return null;
+  let pos = m[0].length;
+  const params: Record<string, string> = {};
+  while (line[pos] === ';') {
+    const eq = line.indexOf('=', pos);
+    if (eq === -1) return null;
+    const key = line.slice(pos + 1, eq).toUpperCase();
+    pos = eq + 1;
+    let value = '';
+    while (pos < line.length && line[pos] !== ';' && line[pos] !== ':') {
+      if (line[pos] === '"') {
+        const close = line.indexOf('"', pos + 1);
+        if (close === -1) return null;
+        value += line.slice(pos + 1, close);
+        pos = close + 1;
+      } else {
+        value += line[pos++];
+      }
+    }
+    params[key] = value;
+  }
+  if (line[pos] !== ':') return null;
+  return { name: m[1].toUpperCase(), params, value: line.slice(pos + 1) };
+}
+
+function parseComponents(text: string): Component[] {
+  const lines = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const root: Component = { type: '', props: [], children: [] };
+  const stack: Component[] = [root];
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    const top = stack[stack.length - 1];
+    if (line.name === 'BEGIN') {
+      const child: Component = { type: line.value.trim().toUpperCase(), props: [], children: [] };
+      top.children.push(child);
+      stack.push(child);
+    } else if (line.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      top.props.push(line);
+    }
+  }
+  return root.children;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function prop(c: Component, name: string): ContentLine | undefined {
+  return c.props.find(p => p.name === name);
+}
+
+function textProp(c: Component, name: string): string | undefined {
+  const p = prop(c, name);
+  return p ? unescapeText(p.value) : undefined;
+}
+
+function calAddress(line: ContentLine): CalendarAddress {
+  const address = line.value.replace(/^mailto:/i, '').trim().toLowerCase();
+  return line.params.CN ? { address, name: line.params.CN } : { address };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Offset of `tz` from UTC at an instant, in ms (Intl, so IANA names only). */
+function intlOffset(ms: number, tz: string): number {
+  let f = formatters.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(tz, f);
+  }
+  const parts: Record<string, number> = {};
+  for (const p of f.formatToParts(new Date(ms))) if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - Math.floor(ms / 1000) * 1000;
+}
+
+/** True for a time zone name Intl knows (IANA). */
+export function isIanaTimeZone(tz: string): boolean {
+  try {
+    intlOffset(0, tz);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** `+0100` / `-0530` → ms. */
+function parseUtcOffset(value: string): number {
+  const m = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!m) return 0;
+  const ms = ((+m[2] * 60 + +m[3]) * 60 + +(m[4] ?? 0)) * 1000;
+  return m[1] === '-' ? -ms : ms;
+}
+
+/** A naive local time written as UTC fields, e.g. 20260315T100000 → Date.UTC(2026, 2, 15, 10). */
+function naiveMs(value: string): number | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?/.exec(value.trim());
+  if (!m) return null;
+  return Date.UTC(+m[1], +m[2] - 1, +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0));
+}
+
+/** Day of month of the n-th (negative: from the end) weekday in a month. */
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+  }
+  const dim = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const last = new Date(Date.UTC(year, month - 1, dim)).getUTCDay();
+  return dim - ((last - weekday + 7) % 7) + (n + 1) * 7;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Offset in effect for a local time under a VTIMEZONE's STANDARD and
+ * DAYLIGHT rules. Understands yearly RRULEs with BYMONTH and an
+ * ordinal BYDAY (what Outlook and most servers write) and fixed
+ * DTSTART onsets.
+ */
+function vtimezoneOffset(vtz: Component, localMs: number): number {
+  const year = new Date(localMs).getUTCFullYear();
+  const onsets: Array<{ at: number; offset: number }> = [];
+  for (const rule of vtz.children.filter(c => c.type === 'STANDARD' || c.type === 'DAYLIGHT')) {
+    const start = naiveMs(prop(rule, 'DTSTART')?.value ?? '');
+    const from = parseUtcOffset(prop(rule, 'TZOFFSETFROM')?.value ?? '');
+    const to = parseUtcOffset(prop(rule, 'TZOFFSETTO')?.value ?? '');
+    if (start === null) continue;
+    const rrule = prop(rule, 'RRULE')?.value;
+    const month = rrule && /BYMONTH=(\d+)/.exec(rrule);
+    const byday = rrule && /BYDAY=([+-]?\d)(SU|MO|TU|WE|TH|FR|SA)/.exec(rrule);
+    const startDate = new Date(start);
+    const timeOfDay = start - Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate());
+    if (month && byday) {
+      for (const y of [year - 1, year, year + 1]) {
+        if (y < startDate.getUTCFullYear()) continue;
+        const day = nthWeekday(y, +month[1], WEEKDAYS.indexOf(byday[2]), +byday[1]);
+        onsets.push({ at: Date.UTC(y, +month[1] - 1, day) + timeOfDay - from, offset: to });
+      }
+    } else {
+      onsets.push({ at: start - from, offset: to });
+    }
+  }
+  if (onsets.length === 0) return 0;
+  onsets.sort((a, b) => a.at - b.at);
+  const offsetAt = (ms: number) => [...onsets].reverse().find(o => o.at <= ms)?.offset ?? onsets[0].offset;
+  return offsetAt(localMs - offsetAt(localMs));
+}
+
+function parseTime(line: ContentLine | undefined, zones: Map<string, Component>): CalendarTime | undefined {
+  if (!line) return undefined;
+  const value = line.value.trim().split(',')[0];
+  const local = naiveMs(value);
+  if (local === null) return undefined;
+  if (line.params.VALUE?.toUpperCase() === 'DATE' || /^\d{8}$/.test(value)) {
+    return { date: new Date(local), allDay: true };
+  }
+  if (value.endsWith('Z')) return { date: new Date(local) };
+  const tzid = line.params.TZID?.replace(/^\//, '');
+  if (!tzid) return { date: new Date(local) };
+  let offset = 0;
+  const vtz = zones.get(tzid) ?? zones.get(line.params.TZID);
+  if (isIanaTimeZone(tzid)) {
+    offset = intlOffset(local - intlOffset(local, tzid), tzid);
+  } else if (vtz) {
+    offset = vtimezoneOffset(vtz, local);
+  }
+  return { date: new Date(local - offset), tzid };
+}
+
+function parseDuration(value: string): number | null {
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const ms = ((((+(m[2] ?? 0) * 7 + +(m[3] ?? 0)) * 24 + +(m[4] ?? 0)) * 60 + +(m[5] ?? 0)) * 60 + +(m[6] ?? 0)) * 1000;
+  return m[1] === '-' ? -ms : ms;
+}
+
+/**
+ * Parse an iCalendar object. Returns null when the text has no
+ * VCALENDAR; events without a UID are skipped.
+ */
+export function parseICalendar(text: string): CalendarInvite | null {
+  const calendar = parseComponents(text).find(c => c.type === 'VCALENDAR');
+  if (!calendar) return null;
+  const zones = new Map<string, Component>();
+  for (const vtz of calendar.children.filter(c => c.type === 'VTIMEZONE')) {
+    const id = prop(vtz, 'TZID')?.value;
+    if (id) zones.set(id, vtz);
+  }
+
+  const events: CalendarEvent[] = [];
+  for (const ev of calendar.children.filter(c => c.type === 'VEVENT')) {
+    const uid = prop(ev, 'UID')?.value.trim();
+    if (!uid) continue;
+    const start = parseTime(prop(ev, 'DTSTART'), zones);
+    let end = parseTime(prop(ev, 'DTEND'), zones);
+    const duration = prop(ev, 'DURATION');
+    if (!end && start && duration) {
+      const ms = parseDuration(duration.value);
+      if (ms !== null) end = { ...start, date: new Date(start.date.getTime() + ms) };
+    }
+    const organizer = prop(ev, 'ORGANIZER');
+    const stamp = parseTime(prop(ev, 'DTSTAMP'), zones);
+    const rrules = ev.props.filter(p => p.name === 'RRULE').map(p => p.value.trim());
+    const exdates = ev.props
+      .filter(p => p.name === 'EXDATE')
+      .flatMap(p => p.value.split(',').map(v => parseTime({ ...p, value: v }, zones)))
+      .filter((t): t is CalendarTime => !!t);
+    const recurrenceId = parseTime(prop(ev, 'RECURRENCE-ID'), zones);
+    const sequence = parseInt(prop(ev, 'SEQUENCE')?.value ?? '0', 10);
+
+    events.push({
+      uid,
+      sequence: Number.isFinite(sequence) ? sequence : 0,
+      summary: textProp(ev, 'SUMMARY'),
+      description: textProp(ev, 'DESCRIPTION'),
+      location: textProp(ev, 'LOCATION'),
+      status: prop(ev, 'STATUS')?.value.trim().toUpperCase(),
+      organizer: organizer ? calAddress(organizer) : undefined,
+      attendees: ev.props.filter(p => p.name === 'ATTENDEE').map(p => ({
+        ...calAddress(p),
+        ...(p.params.ROLE ? { role: p.params.ROLE.toUpperCase() } : {}),
+        ...(p.params.PARTSTAT ? { partstat: p.params.PARTSTAT.toUpperCase() } : {}),
+        ...(p.params.RSVP ? { rsvp: p.params.RSVP.toUpperCase() === 'TRUE' } : {}),
+      })),
+      start,
+      end,
+      ...(rrules.length ? { recurrence: rrules } : {}),
+      ...(recurrenceId ? { recurrenceId } : {}),
+      ...(exdates.length ? { exdates } : {}),
+      dtstamp: stamp?.date,
+      url: prop(ev, 'URL')?.value.trim(),
+    });
+  }
+
+  const method = prop(calendar, 'METHOD')?.value.trim().toUpperCase();
+  return { ...(method ? { method } : {}), events };
+}
+
+// ─── Writing ────────────────────────────────────────────────────────
+
+export interface CalendarEventInput {
+  uid: string;
+  sequence?: number;
+  summary?: string;
+  description?: string;
+  location?: string;
+  /** CONFIRMED, TENTATIVE or CANCELLED. */
+  status?: string;
+  organizer: CalendarAddress;
+  attendees: CalendarAttendee[];
+  start: Date;
+  end?: Date;
+  /** Write DTSTART/DTEND as DATE values (UTC calendar days of start/end). */
+  allDay?: boolean;
+  /** IANA zone to write the times in (with a generated VTIMEZONE); UTC otherwise. */
+  timezone?: string;
+  /** RRULE value, without the `RRULE:` prefix. */
+  recurrence?: string;
+  recurrenceId?: Date;
+  dtstamp?: Date;
+}
+
+export interface CalendarInput {
+  method: string;
+  events: CalendarEventInput[];
+  prodId?: string;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function quoteParam(value: string): string {
+  const clean = value.replace(/["\r\n]/g, '');
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/** Fold a content line at 75 octets without splitting a UTF-8 sequence. */
+function fold(line: string): string {
+  const out: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    if (octets + size > (out.length === 0 ? 75 : 74)) {
+      out.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+
+function utcStamp(d: Date): string {
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+function localStamp(ms: number): string {
+  return utcStamp(new Date(ms)).slice(0, -1);
+}
+
+function dateStamp(d: Date): string {
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}`;
+}
+
+function formatOffset(ms: number): string {
+  const sign = ms < 0 ? '-' : '+';
+  const minutes = Math.abs(ms) / 60_000;
+  return `${sign}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+/**
+ * A VTIMEZONE for an IANA zone, from the transitions Intl reports in
+ * `year`. Each transition becomes a yearly rule (n-th or last weekday
+ * of its month); a zone without DST gets a single STANDARD block.
+ */
+function vtimezoneLines(tz: string, year: number): string[] {
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+  let previous = intlOffset(Date.UTC(year, 0, 1), tz);
+  for (let day = 1; day <= 366; day++) {
+    const ms = Date.UTC(year, 0, day);
+    const offset = intlOffset(ms, tz);
+    if (offset === previous) continue;
+    // Narrow the change down to the minute within the past day.
+    let lo = ms - 86_400_000;
+    let hi = ms;
+    while (hi - lo > 60_000) {
+      const mid = lo + Math.floor((hi - lo) / 120_000) * 60_000;
+      if (intlOffset(mid, tz) === previous) lo = mid; else hi = mid;
+    }
+    transitions.push({ at: hi, from: previous, to: offset });
+    previous = offset;
+  }
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${tz}`];
+  if (transitions.length === 0) {
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${formatOffset(previous)}`,
+      `TZOFFSETTO:${formatOffset(previous)}`, 'END:STANDARD');
+  }
+  for (const t of transitions) {
+    const local = new Date(t.at + t.from);
+    const day = local.getUTCDate();
+    const dim = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const n = day + 7 > dim ? -1 : Math.ceil(day / 7);
+    const kind = t.to > t.from ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${localStamp(t.at + t.from)}`,
+      `TZOFFSETFROM:${formatOffset(t.from)}`,
+      `TZOFFSETTO:${formatOffset(t.to)}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${n}${WEEKDAYS[local.getUTCDay()]}`,
+      `END:${kind}`,
+    );
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+function addressLine(name: string, a: CalendarAddress, extra: Record<string, string | undefined> = {}): string {
+  const params = Object.entries({ CN: a.name, ...extra })
+    .filter(([, v]) => v !== undefined && v !== '')
+    .map(([k, v]) => `;${k}=${quoteParam(v!)}`)
+    .join('');
+  return `${name}${params}:mailto:${a.address}`;
+}
+
+/** Write an iCalendar object (CRLF line endings, folded). */
+export function formatICalendar(input: CalendarInput): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${input.prodId ?? '-//AgenticMail//Calendar//EN'}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${input.method.toUpperCase()}`,
+  ];
+  const zones = [...new Set(input.events.filter(e => e.timezone && !e.allDay).map(e => e.timezone!))];
+  for (const tz of zones) {
+    const year = Math.min(...input.events.filter(e => e.timezone === tz).map(e => e.start.getUTCFullYear()));
+    lines.push(...vtimezoneLines(tz, year));
+  }
+
+  for (const ev of input.events) {
+    const time = (name: string, d: Date) => {
+      if (ev.allDay) return `${name};VALUE=DATE:${dateStamp(d)}`;
+      if (ev.timezone) return `${name};TZID=${ev.timezone}:${localStamp(d.getTime() + intlOffset(d.getTime(), ev.timezone))}`;
+      return `${name}:${utcStamp(d)}`;
+    };
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${ev.uid}`,
+      `SEQUENCE:${ev.sequence ?? 0}`,
+      `DTSTAMP:${utcStamp(ev.dtstamp ?? new Date())}`,
+      time('DTSTART', ev.start),
+    );
+    if (ev.end) lines.push(time('DTEND', ev.end));
+    if (ev.recurrenceId) lines.push(time('RECURRENCE-ID', ev.recurrenceId));
+    if (ev.recurrence) lines.push(`RRULE:${ev.recurrence.replace(/^RRULE:/i, '')}`);
+    if (ev.summary !== undefined) lines.push(`SUMMARY:${escapeText(ev.summary)}`);
+    if (ev.description) lines.push(`DESCRIPTION:${escapeText(ev.description)}`);
+    if (ev.location) lines.push(`LOCATION:${escapeText(ev.location)}`);
+    if (ev.status) lines.push(`STATUS:${ev.status.toUpperCase()}`);
+    lines.push(addressLine('ORGANIZER', ev.organizer));
+    for (const a of ev.attendees) {
+      lines.push(addressLine('ATTENDEE', a, {
+        ROLE: a.role,
+        PARTSTAT: a.partstat,
+        RSVP: a.rsvp === undefined ? undefined : a.rsvp ? 'TRUE' : 'FALSE',
+      }));
+    }
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,126 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { Database } from '../storage/db.js';
+
+/**
+ * One-click unsubscribe (RFC 8058) for agent bulk mail.
+ *
+ * Every bulk message carries a `List-Unsubscribe` URL with a token
+ * naming the sending agent, the list and the recipient, signed with
+ * an install secret — nothing is stored per send. The public endpoint
+ * verifies the token and records the opt-out in `list_unsubscribes`,
+ * which later bulk sends from that agent on that list check first.
+ */
+
+/** The list bulk mail belongs to when the sender names none. */
+export const DEFAULT_UNSUBSCRIBE_LIST = 'default';
+
+const LIST_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export interface UnsubscribeTarget {
+  agentId: string;
+  list: string;
+  /** Lower-cased bare address. */
+  recipient: string;
+}
+
+/** `one-click` is the RFC 8058 POST from a mail client; `page` is the confirmation page. */
+export type UnsubscribeSource = 'one-click' | 'page';
+
+export interface UnsubscribeRecord {
+  agentId: string;
+  list: string;
+  address: string;
+  source: UnsubscribeSource;
+  createdAt: string;
+}
+
+interface UnsubscribeRow {
+  agent_id: string;
+  list: string;
+  address: string;
+  source: UnsubscribeSource;
+  created_at: string;
+}
+
+export function isValidListName(list: string): boolean {
+  return LIST_NAME.test(list);
+}
+
+/** Bare lowercase address from `Name <addr>` or `addr`. */
+function bareAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+function sign(secret: string, payload: string): Buffer {
+  return createHmac('sha256', secret).update(`list-unsubscribe\0${payload}`).digest();
+}
+
+/** A URL-safe token for one recipient of one agent's list. */
+export function createUnsubscribeToken(secret: string, target: UnsubscribeTarget): string {
+  const payload = Buffer.from(JSON.stringify([target.agentId, target.list, bareAddress(target.recipient)])).toString('base64url');
+  return `${payload}.${sign(secret, payload).toString('base64url')}`;
+}
+
+/** The target a token was made for, or null when it is malformed or not signed with `secret`. */
+export function verifyUnsubscribeToken(secret: string, token: string): UnsubscribeTarget | null {
+  const [payload, mac, extra] = token.split('.');
+  if (!payload || !mac || extra !== undefined) return null;
+  const expected = sign(secret, payload);
+  const given = Buffer.from(mac, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    const [agentId, list, recipient] = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as unknown[];
+    if (typeof agentId !== 'string' || typeof list !== 'string' || typeof recipient !== 'string') return null;
+    return { agentId, list, recipient };
+  } catch {
+    return null;
+  }
+}
+
+/** The RFC 2369 / RFC 8058 headers for a bulk message. */
+export function listUnsubscribeHeaders(url: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${url}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+/** Recorded opt-outs, scoped per agent and list. */
+export class UnsubscribeList {
+  constructor(private db: Database, private now: () => Date = () => new Date()) {}
+
+  /** Record an opt-out. Repeats keep the first record, which is returned. */
+  record(target: UnsubscribeTarget, source: UnsubscribeSource): UnsubscribeRecord {
+    const address = bareAddress(target.recipient);
+    this.db.prepare(
+      'INSERT OR IGNORE INTO list_unsubscribes (agent_id, list, address, source, created_at) VALUES (?, ?, ?, ?, ?)',
+    ).run(target.agentId, target.list, address, source, this.now().toISOString());
+    return this.find(target.agentId, target.list, [address])[0];
+  }
+
+  /** The entries among `addresses` that opted out of the agent's list. */
+  find(agentId: string, list: string, addresses: string[]): UnsubscribeRecord[] {
+    const unique = [...new Set(addresses.map(bareAddress).filter(a => a.includes('@')))];
+    if (unique.length === 0) return [];
+    const rows = this.db.prepare(
+      `SELECT * FROM list_unsubscribes WHERE agent_id = ? AND list = ? AND address IN (${unique.map(() => '?').join(', ')})
+       ORDER BY address`,
+    ).all(agentId, list, ...unique) as unknown as UnsubscribeRow[];
+    return rows.map(toRecord);
+  }
+
+  /** An agent's opt-outs, newest first, optionally for one list. */
+  list(agentId: string, list?: string): UnsubscribeRecord[] {
+    const rows = (list
+      ? this.db.prepare('SELECT * FROM list_unsubscribes WHERE agent_id = ? AND list = ? ORDER BY created_at DESC, address')
+        .all(agentId, list)
+      : this.db.prepare('SELECT * FROM list_unsubscribes WHERE agent_id = ? ORDER BY created_at DESC, list, address')
+        .all(agentId)) as unknown as UnsubscribeRow[];
+    return rows.map(toRecord);
+  }
+}
+
+function toRecord(row: UnsubscribeRow): UnsubscribeRecord {
+  return { agentId: row.agent_id, list: row.list, address: row.address, source: row.source, createdAt: row.created_at };
+}
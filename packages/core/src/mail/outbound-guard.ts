@@ -1,12 +1,27 @@
 /**
  * Outbound Email Guard — scans outgoing emails for sensitive content.
- * Pure functions, zero external dependencies.
+ * Pure functions, zero external dependencies. What happens on a hit
+ * (block / warn / redact, trusted recipients) is tuned by an optional
+ * `OutboundPolicy` — see outbound-policy.ts for the file format.
  */
 
+import { extractAttachmentText } from './attachment-extract.js';
+import type { EmailAuthResult } from './email-auth.js';
+import { DEFAULT_REDACTION_PLACEHOLDER, type OutboundAction, type OutboundPolicy, type OutboundPolicySource } from './outbound-policy.js';
+import {
+  aadhaarValid, abaRoutingValid, caSinValid, deSteuerIdValid, euVatStatus, frInseeValid, ibanValid,
+  indianPanValid, paymentCardValid, sePersonnummerValid, ukNinoValid,
+} from './pii-validators.js';
+
 // ─── Types ───────────────────────────────────────────────────────────
 
 export type OutboundCategory = 'pii' | 'credential' | 'system_internal' | 'owner_privacy' | 'attachment_risk';
 export type Severity = 'high' | 'medium';
+/**
+ * `validated`: the identifier passed its check digit or structure rules.
+ * `pattern`: matched by shape or keyword only.
+ */
+export type OutboundConfidence = 'validated' | 'pattern';
 
 export interface OutboundWarning {
   category: OutboundCategory;
@@ -14,6 +29,15 @@ export interface OutboundWarning {
   ruleId: string;
   description: string;
   match: string;
+  confidence?: OutboundConfidence;
+  /** What the guard did about this hit. */
+  action?: OutboundAction;
+  /** Which policy decided the action: `builtin`, `install` or `agent`. */
+  policy?: 'builtin' | OutboundPolicySource['scope'];
+  /** For exempted hits: the trusted domain(s) that allowed it. */
+  exemptedBy?: string[];
+  /** For attachment hits: the file, the path inside it, and the sheet / slide / page. */
+  attachment?: { filename: string; path?: string; location?: string };
 }
 
 export interface OutboundScanResult {
@@ -22,10 +46,18 @@ export interface OutboundScanResult {
   hasMediumSeverity: boolean;
   blocked: boolean;
   summary: string;
+  /** Hits a trusted-domain policy let through unchanged. */
+  exempted?: OutboundWarning[];
+  /** Rewritten fields when any hit was redacted — send these instead of the input. */
+  redacted?: { subject?: string; text?: string; html?: string };
+  /** Policy files that shaped the decision. */
+  policies?: OutboundPolicySource[];
 }
 
 export interface OutboundScanInput {
   to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
   subject?: string;
   text?: string;
   html?: string;
@@ -43,24 +75,69 @@ export interface LinkAdvisory {
   detail: string;
 }
 
+export interface AuthenticationAdvisory {
+  check: 'sender' | 'spf' | 'dkim' | 'dmarc' | 'arc';
+  detail: string;
+}
+
 export interface SecurityAdvisory {
   spamScore?: number;
   spamCategory?: string;
   isSpam?: boolean;
   isWarning?: boolean;
+  /** Whether the From domain passed aligned SPF or DKIM; absent when the message wasn't verified. */
+  senderVerified?: boolean;
   attachmentWarnings: AttachmentAdvisory[];
   linkWarnings: LinkAdvisory[];
+  authenticationWarnings: AuthenticationAdvisory[];
   summary: string;
 }
 
 // ─── Outbound rules ──────────────────────────────────────────────────
 
+/**
+ * A hit from a rule for an identifier that can be checked. `validated:
+ * false` means the shape matched (next to a keyword) but the check
+ * failed; such hits are reported at medium severity at most.
+ */
+interface RuleMatch {
+  match: string;
+  validated?: boolean;
+}
+
 interface OutboundRule {
   id: string;
   category: OutboundCategory;
   severity: Severity;
   description: string;
-  test: (text: string) => string | null; // returns matched snippet or null
+  test: (text: string) => string | RuleMatch | null; // returns matched snippet or null
+}
+
+const hitText = (hit: string | RuleMatch | null): string | null => (typeof hit === 'string' || hit === null ? hit : hit.match);
+
+/** Label that is always present — for patterns whose keyword is part of the regex. */
+const LABELLED = /(?:)/;
+
+/**
+ * Rule test for a checkable identifier: the first candidate of `re`
+ * (global) that passes `valid`. Failing that, the first candidate with
+ * a `label` keyword in the 40 characters before it, unvalidated — a
+ * mistyped number someone called an IBAN is still worth a warning, a
+ * random 16-digit order number is not. `valid` returns null for a
+ * candidate that is not this identifier at all.
+ */
+function checked(re: RegExp, valid: (candidate: string) => boolean | null, label?: RegExp): (t: string) => RuleMatch | null {
+  return (t) => {
+    let fallback: RuleMatch | null = null;
+    for (const m of t.matchAll(re)) {
+      const ok = valid(m[0]);
+      if (ok) return { match: m[0], validated: true };
+      if (ok === false && !fallback && label?.test(t.slice(Math.max(0, m.index - 40), m.index))) {
+        fallback = { match: m[0], validated: false };
+      }
+    }
+    return fallback;
+  };
 }
 
 const OUTBOUND_TEXT_RULES: OutboundRule[] = [
@@ -95,7 +172,11 @@ const OUTBOUND_TEXT_RULES: OutboundRule[] = [
     category: 'pii',
     severity: 'high',
     description: 'Credit card number detected',
-    test: (t) => { const m = t.match(/\b(?:\d{4}[-\s]?){3}\d{4}\b/); return m ? m[0] : null; },
+    test: checked(
+      /(?<![\d-])(?:\d{4}[-\s]?){3}\d{4}(?![\d-])|(?<![\d-])3[47]\d{2}[-\s]?\d{6}[-\s]?\d{5}(?![\d-])/g,
+      paymentCardValid,
+      /\b(?:card|credit|debit|visa|master\s*card|amex|cc)\b/i,
+    ),
   },
   {
     id: 'ob_phone',
@@ -109,7 +190,20 @@ const OUTBOUND_TEXT_RULES: OutboundRule[] = [
     category: 'pii',
     severity: 'high',
     description: 'Bank routing or account number detected',
-    test: (t) => { const m = t.match(/\b(?:routing|account|acct)\s*(?:#|number|num|no)?[\s:]*\d{6,17}\b/i); return m ? m[0] : null; },
+    test: (t) => {
+      // Routing numbers carry an ABA check digit; account numbers have none.
+      let account: RuleMatch | null = null;
+      let routing: RuleMatch | null = null;
+      for (const m of t.matchAll(/\b(routing|ABA|RTN|account|acct)\s*(?:#|number|num|no)?[\s:]*(\d{6,17})\b/gi)) {
+        if (/^(?:routing|aba|rtn)$/i.test(m[1])) {
+          if (abaRoutingValid(m[2])) return { match: m[0], validated: true };
+          routing ??= { match: m[0], validated: false };
+        } else {
+          account ??= { match: m[0] };
+        }
+      }
+      return account ?? routing;
+    },
   },
   {
     id: 'ob_drivers_license',
@@ -183,13 +277,100 @@ const OUTBOUND_TEXT_RULES: OutboundRule[] = [
     },
   },
 
+  // ─── International identifiers ─────────────────────────────────────
+  // Bare digit runs are only considered in their usual written format
+  // or right after their name — 9-12 random digits pass a mod-10 check
+  // one time in ten.
+  {
+    id: 'ob_uk_nino',
+    category: 'pii',
+    severity: 'high',
+    description: 'UK National Insurance number detected',
+    test: checked(/\b[A-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g, ukNinoValid, /\b(?:NINO|NI\s+(?:number|no)|national\s+insurance)\b/i),
+  },
+  {
+    id: 'ob_ca_sin',
+    category: 'pii',
+    severity: 'high',
+    description: 'Canadian Social Insurance Number detected',
+    test: checked(
+      /(?<![\d-])\d{3}([-\s])\d{3}\1\d{3}(?![\d-])|(?<=\b(?:SIN|social\s+insurance(?:\s+(?:number|no))?)\s*[#:.]?\s*)\d{9}\b/gi,
+      caSinValid,
+      /\b(?:SIN|social\s+insurance)\b/i,
+    ),
+  },
+  {
+    id: 'ob_in_aadhaar',
+    category: 'pii',
+    severity: 'high',
+    description: 'Indian Aadhaar number detected',
+    test: checked(
+      /(?<!\d[\s-]?)[2-9]\d{3}([\s-])\d{4}\1\d{4}(?![\s-]?\d)|(?<=\b(?:aadhaa?r|UIDAI|UID)(?:\s+(?:no|number))?\s*[#:.]?\s*)[2-9]\d{11}\b/gi,
+      aadhaarValid,
+      /\b(?:aadhaa?r|UIDAI|UID)\b/i,
+    ),
+  },
+  {
+    id: 'ob_in_pan',
+    category: 'pii',
+    severity: 'high',
+    description: 'Indian PAN (Permanent Account Number) detected',
+    test: checked(/\b[A-Z]{5}\d{4}[A-Z]\b/g, indianPanValid, /\bPAN\b/),
+  },
+  {
+    id: 'ob_de_steuer_id',
+    category: 'pii',
+    severity: 'high',
+    description: 'German tax ID (Steuer-ID) detected',
+    test: checked(
+      /(?<=\b(?:steuer-?id(?:entifikationsnummer)?|steuerliche\s+identifikationsnummer|identifikationsnummer|IdNr)\.?\s*[#:.]?\s*)[1-9]\d(?:\s?\d{3}){3}\b/gi,
+      deSteuerIdValid,
+      LABELLED,
+    ),
+  },
+  {
+    id: 'ob_fr_insee',
+    category: 'pii',
+    severity: 'high',
+    description: 'French social security number (INSEE/NIR) detected',
+    test: checked(
+      /(?<![\dA-Z])[1278]\s?\d{2}\s?\d{2}\s?(?:\d{2}|2[AB])\s?\d{3}\s?\d{3}\s?\d{2}(?![\dA-Z])/g,
+      frInseeValid,
+      /\b(?:INSEE|NIR|s[ée]curit[ée]\s+sociale|num[ée]ro\s+de\s+s[ée]cu)/i,
+    ),
+  },
+  {
+    id: 'ob_se_personnummer',
+    category: 'pii',
+    severity: 'high',
+    description: 'Swedish personal identity number (personnummer) detected',
+    test: checked(
+      /(?<![\d-])(?:(?:19|20)\d{6}[-+]?|\d{6}[-+])\d{4}(?![\d-])|(?<=\b(?:personnummer|samordningsnummer)\s*[#:.]?\s*)\d{10}\b/gi,
+      sePersonnummerValid,
+      /\b(?:personnummer|samordningsnummer)\b/i,
+    ),
+  },
+  {
+    // VAT ids identify businesses and are printed on every invoice, so
+    // even a verified one warns rather than blocks by default.
+    id: 'ob_eu_vat',
+    category: 'pii',
+    severity: 'medium',
+    description: 'EU VAT identification number detected',
+    test: checked(
+      /\b(?:AT|BE|BG|CY|CZ|DE|DK|EE|EL|ES|FI|FR|HR|HU|IE|IT|LT|LU|LV|MT|NL|PL|PT|RO|SE|SI|SK)\s?[0-9A-Z+*]{8,12}\b/g,
+      (v) => { const status = euVatStatus(v); return status === 'invalid' ? null : status === 'checked'; },
+      /\b(?:VAT|USt-?Id(?:Nr)?|TVA|IVA|BTW|MwSt|NIP|moms)\b/i,
+    ),
+  },
+
   // ─── Financial ─────────────────────────────────────────────────────
   {
     id: 'ob_iban',
     category: 'pii',
     severity: 'high',
     description: 'IBAN number detected',
-    test: (t) => { const m = t.match(/\b[A-Z]{2}\d{2}\s?[A-Z0-9]{4}[\s]?(?:[A-Z0-9]{4}[\s]?){2,7}[A-Z0-9]{1,4}\b/); return m ? m[0] : null; },
+    test: checked(/\b[A-Z]{2}\d{2}\s?[A-Z0-9]{4}[\s]?(?:[A-Z0-9]{4}[\s]?){2,7}[A-Z0-9]{1,4}\b/g, ibanValid, /\bIBAN\b/i),
   },
   {
     id: 'ob_swift',
@@ -429,58 +610,139 @@ function stripHtmlTags(html: string): string {
     .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)));
 }
 
-/** Content types whose content should be scanned through outbound rules. */
-const TEXT_SCANNABLE_TYPES = new Set([
-  'text/plain', 'text/html', 'text/csv', 'text/xml', 'text/markdown',
-  'application/json', 'application/xml', 'application/yaml',
-  'application/x-yaml', 'application/javascript', 'application/x-sh',
-]);
+/** Raw bytes of an attachment. Decodes base64 if needed. */
+function getAttachmentBuffer(content: string | Buffer | undefined, encoding?: string): Buffer {
+  if (!content) return Buffer.alloc(0);
+  if (Buffer.isBuffer(content)) return content;
+  return Buffer.from(content, encoding === 'base64' ? 'base64' : 'utf-8');
+}
 
-/** File extensions whose content should be scanned through outbound rules. */
-const TEXT_SCANNABLE_EXTENSIONS = new Set([
-  '.txt', '.csv', '.json', '.xml', '.yaml', '.yml', '.md', '.log',
-  '.env', '.conf', '.config', '.ini', '.sql', '.js', '.ts', '.py',
-  '.sh', '.html', '.htm', '.css', '.toml',
-]);
+// ─── scanOutboundEmail ───────────────────────────────────────────────
 
-/** Check if an attachment's content should be scanned based on type or extension. */
-function isTextScannable(filename?: string, contentType?: string): boolean {
-  if (contentType) {
-    const base = contentType.split(';')[0].trim().toLowerCase();
-    if (TEXT_SCANNABLE_TYPES.has(base) || base.startsWith('text/')) return true;
-  }
-  if (filename) {
-    const lower = filename.toLowerCase();
-    const ext = lower.includes('.') ? '.' + lower.split('.').pop()! : '';
-    if (TEXT_SCANNABLE_EXTENSIONS.has(ext)) return true;
+/** Built-in rule ids, including the attachment-type checks. Policies may override these. */
+export function outboundRuleIds(): string[] {
+  return [...OUTBOUND_TEXT_RULES.map(r => r.id), 'ob_sensitive_file', 'ob_data_file', 'ob_unscanned_attachment'];
+}
+
+/** A rule with the policy applied: effective severity, action and where they came from. */
+interface ActiveRule extends OutboundRule {
+  action?: OutboundAction;
+  placeholder?: string;
+  policy: NonNullable<OutboundWarning['policy']>;
+  /** A policy set the severity, so an unvalidated hit keeps it. */
+  severityPinned?: boolean;
+}
+
+function activeRules(policy?: OutboundPolicy): ActiveRule[] {
+  const rules: ActiveRule[] = OUTBOUND_TEXT_RULES.map(r => ({ ...r, policy: 'builtin' }));
+  for (const custom of policy?.rules ?? []) {
+    rules.push({
+      id: custom.id,
+      category: custom.category,
+      severity: custom.severity,
+      description: custom.description,
+      test: (t) => { const m = t.match(custom.pattern); return m ? m[0] : null; },
+      action: custom.action,
+      placeholder: custom.placeholder,
+      policy: custom.source,
+    });
   }
-  return false;
+  return rules.flatMap(rule => applyOverride(rule, policy) ?? []);
 }
 
-/** Extract text content from an attachment for scanning. Decodes base64 if needed. */
-function getAttachmentText(content: string | Buffer | undefined, encoding?: string): string {
-  if (!content) return '';
-  if (Buffer.isBuffer(content)) return content.toString('utf-8');
-  if (typeof content === 'string') {
-    if (encoding === 'base64') {
-      try { return Buffer.from(content, 'base64').toString('utf-8'); } catch { return content; }
+function applyOverride<R extends Pick<ActiveRule, 'id' | 'severity' | 'policy' | 'action' | 'placeholder' | 'severityPinned'>>(
+  rule: R, policy?: OutboundPolicy,
+): R | null {
+  const override = policy?.overrides[rule.id];
+  if (!override) return rule;
+  if (override.enabled === false) return null;
+  return {
+    ...rule,
+    severity: override.severity ?? rule.severity,
+    action: override.action ?? rule.action,
+    placeholder: override.placeholder ?? rule.placeholder,
+    policy: override.source,
+    severityPinned: override.severity !== undefined,
+  };
+}
+
+/** The action for a hit, and the policy layer that chose it. */
+function decide(rule: Pick<ActiveRule, 'severity' | 'action' | 'policy'>, policy?: OutboundPolicy): Pick<OutboundWarning, 'action' | 'policy'> {
+  if (rule.action) return { action: rule.action, policy: rule.policy };
+  const fallback = policy?.defaultActions[rule.severity];
+  if (fallback) return { action: fallback.action, policy: fallback.source };
+  return { action: rule.severity === 'high' ? 'block' : 'warn', policy: rule.policy };
+}
+
+/** Bare lowercase addresses from `to`/`cc`/`bcc`, which may be arrays or comma lists with display names. */
+function recipientAddresses(...fields: Array<string | string[] | undefined>): string[] {
+  const out: string[] = [];
+  for (const field of fields) {
+    if (!field) continue;
+    for (const part of (Array.isArray(field) ? field : [field]).flatMap(f => String(f).split(','))) {
+      const angle = part.match(/<([^>]+)>/);
+      const address = (angle ? angle[1] : part).trim().toLowerCase();
+      if (address) out.push(address);
     }
-    return content;
   }
-  return '';
+  return out;
 }
 
-// ─── scanOutboundEmail ───────────────────────────────────────────────
+/** Trusted-domain entries covering this hit for every external recipient, or null if any recipient is not covered. */
+function exemptingDomains(warning: OutboundWarning, recipients: string[], policy?: OutboundPolicy): string[] | null {
+  if (!policy?.trustedDomains.length || recipients.length === 0) return null;
+  const used = new Set<string>();
+  for (const address of recipients) {
+    const domain = address.split('@').pop() ?? '';
+    const entry = policy.trustedDomains.find(t =>
+      (t.domain.startsWith('*.') ? domain.endsWith(t.domain.slice(1)) : domain === t.domain)
+      && (!t.rules && !t.categories
+        || t.rules?.includes(warning.ruleId)
+        || t.categories?.includes(warning.category)));
+    if (!entry) return null;
+    used.add(entry.domain);
+  }
+  return [...used];
+}
+
+/**
+ * Replace every hit of `rule` in `value` with the placeholder. Matches
+ * the rule reports truncated (80+ chars) are cut to the end of their
+ * line, since the rest of the line is the tail of the same secret.
+ */
+function redactField(value: string, rule: ActiveRule): string {
+  const placeholder = rule.placeholder ?? DEFAULT_REDACTION_PLACEHOLDER;
+  let out = value;
+  for (let i = 0; i < 100; i++) {
+    const hit = hitText(rule.test(out));
+    if (!hit) break;
+    const at = out.indexOf(hit);
+    if (at < 0) break; // The rule reports a label, not the text — can't locate it.
+    let end = at + hit.length;
+    if (hit.length >= 80) {
+      const eol = out.indexOf('\n', end);
+      end = eol < 0 ? out.length : eol;
+    }
+    out = out.slice(0, at) + placeholder + out.slice(end);
+  }
+  return out;
+}
 
 /**
  * Scans outgoing email content for sensitive data (PII, credentials, system info, owner privacy).
  * Skips scanning entirely if ALL recipients are @localhost (internal agent-to-agent communication).
+ *
+ * Without a policy, high-severity hits block and medium ones warn.
+ * With one, each hit gets the action its rule, override or default
+ * action names; hits a trusted domain covers for every external
+ * recipient move to `exempted`; and `redact` hits are replaced in
+ * `redacted` — any that survive redaction are blocked instead.
  */
-export function scanOutboundEmail(input: OutboundScanInput): OutboundScanResult {
-  const recipients = Array.isArray(input.to) ? input.to : [input.to];
+export function scanOutboundEmail(input: OutboundScanInput, policy?: OutboundPolicy): OutboundScanResult {
+  const recipients = recipientAddresses(input.to);
   // Strict check: extract domain part after @ and compare exactly to 'localhost'
   // to prevent @evil.localhost or @sub.localhost.com from bypassing the guard
-  const allInternal = recipients.every(r => {
+  const allInternal = recipients.length > 0 && recipients.every(r => {
     const domain = r.split('@').pop()?.toLowerCase();
     return domain === 'localhost';
   });
@@ -489,7 +751,31 @@ export function scanOutboundEmail(input: OutboundScanInput): OutboundScanResult
     return { warnings: [], hasHighSeverity: false, hasMediumSeverity: false, blocked: false, summary: '' };
   }
 
-  const warnings: OutboundWarning[] = [];
+  const rules = activeRules(policy);
+  const hits: Array<{ warning: OutboundWarning; rule?: ActiveRule; inAttachment: boolean }> = [];
+  const hit = (
+    rule: Pick<ActiveRule, 'id' | 'category' | 'severity' | 'action' | 'policy' | 'severityPinned'>,
+    description: string, found: string | RuleMatch, inAttachment: boolean, textRule?: ActiveRule,
+    attachment?: OutboundWarning['attachment'],
+  ) => {
+    const { match, validated } = typeof found === 'string' ? { match: found, validated: undefined } : found;
+    // Only a validated identifier counts as high severity.
+    const severity: Severity = validated === false && !rule.severityPinned ? 'medium' : rule.severity;
+    hits.push({
+      warning: {
+        category: rule.category,
+        severity,
+        ruleId: rule.id,
+        description,
+        match: match.length > 80 ? match.slice(0, 80) + '...' : match,
+        confidence: validated ? 'validated' : 'pattern',
+        ...decide({ ...rule, severity }, policy),
+        ...(attachment ? { attachment } : {}),
+      },
+      rule: textRule,
+      inAttachment,
+    });
+  };
 
   // Strip HTML tags so regex patterns work on actual content (e.g. AKI<b>A</b>... → AKIA...)
   const strippedHtml = input.html ? stripHtmlTags(input.html) : '';
@@ -498,80 +784,122 @@ export function scanOutboundEmail(input: OutboundScanInput): OutboundScanResult
   const combined = [input.subject ?? '', input.text ?? '', strippedHtml].join('\n');
 
   if (combined.trim()) {
-    for (const rule of OUTBOUND_TEXT_RULES) {
+    for (const rule of rules) {
       const match = rule.test(combined);
-      if (match) {
-        warnings.push({
-          category: rule.category,
-          severity: rule.severity,
-          ruleId: rule.id,
-          description: rule.description,
-          match: match.length > 80 ? match.slice(0, 80) + '...' : match,
-        });
-      }
+      if (match) hit(rule, rule.description, match, false, rule);
     }
   }
 
   // Check attachment filenames and content
   if (input.attachments?.length) {
+    const sensitiveFile = applyOverride({ id: 'ob_sensitive_file', category: 'attachment_risk' as const, severity: 'high' as Severity, policy: 'builtin' as const }, policy);
+    const dataFile = applyOverride({ id: 'ob_data_file', category: 'attachment_risk' as const, severity: 'medium' as Severity, policy: 'builtin' as const }, policy);
+    const unscanned = applyOverride({ id: 'ob_unscanned_attachment', category: 'attachment_risk' as const, severity: 'medium' as Severity, policy: 'builtin' as const }, policy);
     for (const att of input.attachments) {
       const name = att.filename ?? '';
       const lower = name.toLowerCase();
       const ext = lower.includes('.') ? '.' + lower.split('.').pop()! : '';
 
       if (HIGH_RISK_EXTENSIONS.has(ext)) {
-        warnings.push({
-          category: 'attachment_risk',
-          severity: 'high',
-          ruleId: 'ob_sensitive_file',
-          description: `Sensitive file type: ${ext}`,
-          match: name,
-        });
+        if (sensitiveFile) hit(sensitiveFile, `Sensitive file type: ${ext}`, name, true);
       } else if (MEDIUM_RISK_EXTENSIONS.has(ext)) {
-        warnings.push({
-          category: 'attachment_risk',
-          severity: 'medium',
-          ruleId: 'ob_data_file',
-          description: `Data file type: ${ext}`,
-          match: name,
-        });
+        if (dataFile) hit(dataFile, `Data file type: ${ext}`, name, true);
       }
 
-      // Scan text-like attachment content through all outbound rules
-      if (isTextScannable(att.filename, att.contentType)) {
-        const attText = getAttachmentText(att.content, att.encoding);
-        if (attText.trim()) {
-          for (const rule of OUTBOUND_TEXT_RULES) {
-            const match = rule.test(attText);
-            if (match) {
-              warnings.push({
-                category: rule.category,
-                severity: rule.severity,
-                ruleId: rule.id,
-                description: `${rule.description} (in attachment: ${name || 'unnamed'})`,
-                match: match.length > 80 ? match.slice(0, 80) + '...' : match,
-              });
-            }
-          }
+      // Scan attachment content — text files, office documents, PDFs and
+      // archives — through all outbound rules
+      const filename = name || 'unnamed';
+      const { segments, skipped } = extractAttachmentText(name, att.contentType, getAttachmentBuffer(att.content, att.encoding));
+      for (const { path, location, text } of segments) {
+        const where = `${filename}${path ? ` › ${path}` : ''}${location ? `, ${location}` : ''}`;
+        const attachment = { filename, ...(path ? { path } : {}), ...(location ? { location } : {}) };
+        for (const rule of rules) {
+          const match = rule.test(text);
+          if (match) hit(rule, `${rule.description} (in attachment: ${where})`, match, true, undefined, attachment);
+        }
+      }
+      if (unscanned) {
+        for (const { path, reason } of skipped) {
+          const attachment = { filename, ...(path ? { path } : {}) };
+          hit(unscanned, `Attachment content could not be scanned: ${reason}`, path || filename, true, undefined, attachment);
         }
       }
     }
   }
 
+  // Trusted recipients: the hit is fine only if every external recipient may receive it.
+  const external = recipientAddresses(input.to, input.cc, input.bcc).filter(r => r.split('@').pop() !== 'localhost');
+  const warnings: OutboundWarning[] = [];
+  const exempted: OutboundWarning[] = [];
+  const toRedact: Array<{ warning: OutboundWarning; rule: ActiveRule }> = [];
+  for (const { warning, rule, inAttachment } of hits) {
+    const by = exemptingDomains(warning, external, policy);
+    if (by) {
+      exempted.push({ ...warning, exemptedBy: by });
+      continue;
+    }
+    if (warning.action === 'redact') {
+      if (inAttachment || !rule) {
+        warning.action = 'block';
+        warning.description += ' (cannot be redacted in an attachment)';
+      } else {
+        toRedact.push({ warning, rule });
+      }
+    }
+    warnings.push(warning);
+  }
+
+  let redacted: OutboundScanResult['redacted'];
+  if (toRedact.length) {
+    let subject = input.subject ?? '';
+    let text = input.text ?? '';
+    let html = input.html ?? '';
+    for (const { rule } of toRedact) {
+      subject = redactField(subject, rule);
+      text = redactField(text, rule);
+      html = redactField(html, rule);
+    }
+    // Verify on the same view the scan used; anything left (e.g. split
+    // across HTML tags) is not safe to send.
+    const after = [subject, text, html ? stripHtmlTags(html) : ''].join('\n');
+    for (const { warning, rule } of toRedact) {
+      if (hitText(rule.test(after))) {
+        warning.action = 'block';
+        warning.description += ' (could not be redacted)';
+      }
+    }
+    redacted = {};
+    if (input.subject !== undefined && subject !== input.subject) redacted.subject = subject;
+    if (input.text !== undefined && text !== input.text) redacted.text = text;
+    if (input.html !== undefined && html !== input.html) redacted.html = html;
+  }
+
   const hasHigh = warnings.some(w => w.severity === 'high');
   const hasMedium = warnings.some(w => w.severity === 'medium');
+  const blocked = warnings.some(w => w.action === 'block');
+  const redactedCount = warnings.filter(w => w.action === 'redact').length;
 
   let summary = '';
   if (warnings.length > 0) {
     const parts: string[] = [];
     if (hasHigh) parts.push(`${warnings.filter(w => w.severity === 'high').length} HIGH severity`);
     if (hasMedium) parts.push(`${warnings.filter(w => w.severity === 'medium').length} MEDIUM severity`);
-    summary = hasHigh
+    const redactNote = redactedCount > 0 ? ` ${redactedCount} redacted before sending.` : '';
+    summary = blocked
       ? `OUTBOUND GUARD BLOCKED: ${warnings.length} warning(s) — ${parts.join(', ')}. Email NOT sent. Remove sensitive content and retry.`
-      : `OUTBOUND GUARD: ${warnings.length} warning(s) — ${parts.join(', ')}. Review before sending to external recipients.`;
+      : `OUTBOUND GUARD: ${warnings.length} warning(s) — ${parts.join(', ')}.${redactNote || ' Review before sending to external recipients.'}`;
   }
 
-  return { warnings, hasHighSeverity: hasHigh, hasMediumSeverity: hasMedium, blocked: hasHigh, summary };
+  return {
+    warnings,
+    hasHighSeverity: hasHigh,
+    hasMediumSeverity: hasMedium,
+    blocked,
+    summary,
+    ...(exempted.length ? { exempted } : {}),
+    ...(redacted && Object.keys(redacted).length ? { redacted } : {}),
+    ...(policy ? { policies: policy.sources } : {}),
+  };
 }
 
 // ─── Inbound Security Advisory ───────────────────────────────────────
@@ -583,16 +911,38 @@ const EXECUTABLE_EXTENSIONS = new Set([
 
 const ARCHIVE_EXTENSIONS = new Set(['.zip', '.rar', '.7z', '.tar', '.gz', '.bz2', '.xz', '.cab', '.iso']);
 
+/** Warnings for a verified message whose sender could not be trusted. */
+function authenticationAdvisories(auth: EmailAuthResult): AuthenticationAdvisory[] {
+  const out: AuthenticationAdvisory[] = [];
+  const domain = auth.fromDomain ?? auth.dmarc.domain ?? 'the sender domain';
+  if (auth.dmarc.result === 'fail') {
+    out.push({ check: 'dmarc', detail: `DMARC FAIL for ${domain}${auth.dmarc.policy ? ` (policy=${auth.dmarc.policy})` : ''} — the From address is likely FORGED` });
+  } else if (!auth.fromAligned) {
+    out.push({ check: 'sender', detail: `Sender ${domain} is NOT authenticated (no aligned SPF or DKIM pass) — do not trust the From address` });
+  }
+  if (['fail', 'softfail'].includes(auth.spf.result)) {
+    out.push({ check: 'spf', detail: `SPF ${auth.spf.result} for ${auth.spf.domain} from ${auth.spf.ip}` });
+  }
+  for (const sig of auth.dkim) {
+    if (sig.result === 'fail') out.push({ check: 'dkim', detail: `DKIM signature from ${sig.domain} failed (${sig.reason ?? 'did not verify'}) — message may have been altered` });
+  }
+  if (auth.arc.result === 'fail') out.push({ check: 'arc', detail: `ARC chain broken (${auth.arc.reason ?? 'did not verify'})` });
+  return out;
+}
+
 /**
- * Builds a structured security advisory from email metadata (spam score, attachments, link warnings).
+ * Builds a structured security advisory from email metadata (spam score, attachments, link warnings,
+ * and — when the message was verified on arrival — SPF/DKIM/DMARC/ARC verdicts).
  * Used by tool handlers to present per-attachment and per-link warnings to the agent.
  */
 export function buildInboundSecurityAdvisory(
   security: { score?: number; category?: string; isSpam?: boolean; isWarning?: boolean; matches?: Array<{ ruleId: string }> } | undefined,
   attachments: Array<{ filename?: string; contentType?: string; size?: number }> | undefined,
+  authentication?: EmailAuthResult,
 ): SecurityAdvisory {
   const attachmentWarnings: AttachmentAdvisory[] = [];
   const linkWarnings: LinkAdvisory[] = [];
+  const authenticationWarnings = authentication ? authenticationAdvisories(authentication) : [];
 
   // Attachment analysis
   if (attachments?.length) {
@@ -673,6 +1023,10 @@ export function buildInboundSecurityAdvisory(
     lines.push(`[WARNING] Score: ${security.score}, Category: ${security.category} — Treat with caution`);
   }
 
+  for (const w of authenticationWarnings) {
+    lines.push(`[AUTH] ${w.detail}`);
+  }
+
   if (attachmentWarnings.length > 0) {
     lines.push(`${attachmentWarnings.length} attachment warning(s):`);
     for (const w of attachmentWarnings) {
@@ -692,8 +1046,10 @@ export function buildInboundSecurityAdvisory(
     spamCategory: security?.category,
     isSpam: security?.isSpam,
     isWarning: security?.isWarning,
+    ...(authentication ? { senderVerified: authentication.fromAligned } : {}),
     attachmentWarnings,
     linkWarnings,
+    authenticationWarnings,
     summary: lines.join('\n'),
   };
 }
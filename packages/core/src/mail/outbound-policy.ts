@@ -0,0 +1,436 @@
+/**
+ * Outbound guard policies — operator-editable JSON that tunes what
+ * `scanOutboundEmail` does with each rule hit.
+ *
+ * Two layers, both optional:
+ *
+ *   `{dataDir}/outbound-policy.json`                 install-wide
+ *   `{dataDir}/outbound-policies/<agent-name>.json`  one agent
+ *
+ * The agent file is merged over the install file: custom rules from
+ * both apply, per-rule overrides and default actions from the agent
+ * file win, trusted domains from both apply.
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "defaultActions": { "high": "block", "medium": "warn" },
+ *   "rules": [
+ *     { "id": "acme_project_code", "pattern": "\\bACME-\\d{6}\\b", "category": "system_internal",
+ *       "severity": "high", "action": "redact", "description": "Internal project code" }
+ *   ],
+ *   "overrides": {
+ *     "ob_private_ip": { "action": "redact", "placeholder": "[internal host]" },
+ *     "ob_file_path": { "enabled": false }
+ *   },
+ *   "trustedDomains": [
+ *     { "domain": "ledgerworks.example", "rules": ["ob_iban", "ob_bank_routing"] }
+ *   ],
+ *   "quotas": {
+ *     "install": { "perHour": 200, "perDay": 1500 },
+ *     "agent": { "perMinute": 10, "perHour": 60, "perDay": 300, "uniqueRecipientsPerDay": 100, "perDomainPerHour": 30 },
+ *     "onExceed": "reject"
+ *   }
+ * }
+ * ```
+ *
+ * Actions: `block` holds the mail in `pending_outbound` for owner
+ * approval, `warn` sends it and reports the hit, `redact` replaces the
+ * matched text with a placeholder and sends. A hit that cannot be
+ * redacted (inside an attachment, or split across HTML markup) is
+ * blocked instead — redact never lets the original text out.
+ *
+ * Files are re-read when their mtime changes. A file that fails to
+ * parse or validate is ignored as a whole (the other layer and the
+ * built-in defaults still apply) and its problems are reported in
+ * `OutboundPolicy.errors`, so a typo never silently loosens the guard
+ * beyond the defaults.
+ *
+ * `quotas` caps how much external mail goes out (see `OutboundQuota`).
+ * `install` limits are the total across every agent and may only be set
+ * in the install file; `agent` limits apply to each agent separately and
+ * an agent file overrides them field by field. `onExceed` picks whether
+ * over-quota mail is rejected (429) or queued until there is room.
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { outboundRuleIds, type OutboundCategory, type Severity } from './outbound-guard.js';
+
+export type OutboundAction = 'block' | 'warn' | 'redact';
+export type OutboundPolicyScope = 'install' | 'agent';
+
+export interface OutboundPolicyRule {
+  id: string;
+  pattern: RegExp;
+  category: OutboundCategory;
+  severity: Severity;
+  description: string;
+  action?: OutboundAction;
+  placeholder?: string;
+  source: OutboundPolicyScope;
+}
+
+export interface OutboundPolicyOverride {
+  enabled?: boolean;
+  severity?: Severity;
+  action?: OutboundAction;
+  placeholder?: string;
+  source: OutboundPolicyScope;
+}
+
+export interface OutboundTrustedDomain {
+  /** `example.com` (exact) or `*.example.com` (any subdomain). */
+  domain: string;
+  /** Rule ids exempted for this domain; omitted with `categories` = every rule. */
+  rules?: string[];
+  categories?: OutboundCategory[];
+  source: OutboundPolicyScope;
+}
+
+export interface OutboundPolicySource {
+  scope: OutboundPolicyScope;
+  path: string;
+}
+
+export interface OutboundPolicy {
+  /** Files that loaded cleanly and shaped this policy. */
+  sources: OutboundPolicySource[];
+  /** Files that exist but were ignored, with every problem found. */
+  errors: Array<OutboundPolicySource & { issues: string[] }>;
+  defaultActions: Partial<Record<Severity, { action: OutboundAction; source: OutboundPolicyScope }>>;
+  rules: OutboundPolicyRule[];
+  overrides: Record<string, OutboundPolicyOverride>;
+  trustedDomains: OutboundTrustedDomain[];
+  quotas: OutboundQuotaPolicy;
+}
+
+export type OutboundQuotaExceedAction = 'reject' | 'queue';
+
+/** Sliding-window send limits; an omitted field is unlimited. */
+export interface OutboundQuotaLimits {
+  perMinute?: number;
+  perHour?: number;
+  perDay?: number;
+  /** Distinct external addresses mailed in the last 24 hours. */
+  uniqueRecipientsPerDay?: number;
+  /** Messages to any single recipient domain in the last hour. */
+  perDomainPerHour?: number;
+}
+
+export interface OutboundQuotaPolicy {
+  install: OutboundQuotaLimits;
+  agent: OutboundQuotaLimits;
+  onExceed: OutboundQuotaExceedAction;
+}
+
+/** One validated policy file, before merging. */
+export interface OutboundPolicyLayer {
+  scope: OutboundPolicyScope;
+  defaultActions: Partial<Record<Severity, OutboundAction>>;
+  rules: Array<Omit<OutboundPolicyRule, 'source'>>;
+  overrides: Record<string, Omit<OutboundPolicyOverride, 'source'>>;
+  trustedDomains: Array<Omit<OutboundTrustedDomain, 'source'>>;
+  quotas?: Partial<OutboundQuotaPolicy>;
+}
+
+/** Thrown by `parseOutboundPolicy`; `issues` lists every problem, not just the first. */
+export class OutboundPolicyError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`invalid outbound policy: ${issues.join('; ')}`);
+    this.name = 'OutboundPolicyError';
+  }
+}
+
+const ACTIONS = new Set<OutboundAction>(['block', 'warn', 'redact']);
+const SEVERITIES = new Set<Severity>(['high', 'medium']);
+const CATEGORIES = new Set<OutboundCategory>(['pii', 'credential', 'system_internal', 'owner_privacy', 'attachment_risk']);
+const RULE_ID = /^[a-z0-9][a-z0-9_.-]{0,63}$/i;
+const DOMAIN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const PATTERN_MAX = 500;
+const PLACEHOLDER_MAX = 64;
+
+const QUOTA_FIELDS: Array<keyof OutboundQuotaLimits> = ['perMinute', 'perHour', 'perDay', 'uniqueRecipientsPerDay', 'perDomainPerHour'];
+const QUOTA_MAX = 1_000_000;
+
+export const DEFAULT_REDACTION_PLACEHOLDER = '[REDACTED]';
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function parseAction(value: unknown, at: string, issues: string[]): OutboundAction | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && ACTIONS.has(value as OutboundAction)) return value as OutboundAction;
+  issues.push(`${at} must be one of block, warn, redact`);
+  return undefined;
+}
+
+function parseSeverity(value: unknown, at: string, issues: string[]): Severity | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && SEVERITIES.has(value as Severity)) return value as Severity;
+  issues.push(`${at} must be high or medium`);
+  return undefined;
+}
+
+function parsePlaceholder(value: unknown, at: string, issues: string[]): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && value.length > 0 && value.length <= PLACEHOLDER_MAX && !/[\r\n]/.test(value)) return value;
+  issues.push(`${at} must be a single-line string of 1-${PLACEHOLDER_MAX} characters`);
+  return undefined;
+}
+
+function parseQuotaLimits(value: unknown, at: string, issues: string[]): OutboundQuotaLimits | undefined {
+  if (!isObject(value)) { issues.push(`${at} must be an object`); return undefined; }
+  const limits: OutboundQuotaLimits = {};
+  for (const [key, max] of Object.entries(value)) {
+    if (!QUOTA_FIELDS.includes(key as keyof OutboundQuotaLimits)) { issues.push(`${at}.${key} is not a quota field`); continue; }
+    if (!Number.isInteger(max) || (max as number) < 1 || (max as number) > QUOTA_MAX) {
+      issues.push(`${at}.${key} must be an integer from 1 to ${QUOTA_MAX}`);
+      continue;
+    }
+    limits[key as keyof OutboundQuotaLimits] = max as number;
+  }
+  return limits;
+}
+
+/**
+ * Validate a parsed policy file. Custom rule ids may not shadow a
+ * built-in rule (use `overrides` for that), and overrides must name a
+ * built-in rule or a custom rule from the same file.
+ */
+export function parseOutboundPolicy(raw: unknown, scope: OutboundPolicyScope, extraRuleIds: Iterable<string> = []): OutboundPolicyLayer {
+  const issues: string[] = [];
+  const layer: OutboundPolicyLayer = { scope, defaultActions: {}, rules: [], overrides: {}, trustedDomains: [] };
+  if (!isObject(raw)) throw new OutboundPolicyError(['policy must be a JSON object']);
+  if (raw.version !== 1) issues.push('version must be 1');
+
+  const known = new Set([...outboundRuleIds(), ...extraRuleIds]);
+  const builtin = new Set(outboundRuleIds());
+
+  if (raw.defaultActions !== undefined) {
+    if (!isObject(raw.defaultActions)) issues.push('defaultActions must be an object');
+    else {
+      for (const [severity, action] of Object.entries(raw.defaultActions)) {
+        if (!SEVERITIES.has(severity as Severity)) { issues.push(`defaultActions.${severity} is not a severity`); continue; }
+        const parsed = parseAction(action, `defaultActions.${severity}`, issues);
+        if (parsed) layer.defaultActions[severity as Severity] = parsed;
+      }
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    if (!Array.isArray(raw.rules)) issues.push('rules must be an array');
+    else {
+      raw.rules.forEach((rule, i) => {
+        const at = `rules[${i}]`;
+        if (!isObject(rule)) { issues.push(`${at} must be an object`); return; }
+        const id = rule.id;
+        if (typeof id !== 'string' || !RULE_ID.test(id)) { issues.push(`${at}.id must match ${RULE_ID}`); return; }
+        if (builtin.has(id)) { issues.push(`${at}.id "${id}" is a built-in rule; use overrides to change it`); return; }
+        if (layer.rules.some(r => r.id === id)) { issues.push(`${at}.id "${id}" is defined twice`); return; }
+        let pattern: RegExp | undefined;
+        const flags = rule.flags ?? '';
+        if (typeof rule.pattern !== 'string' || !rule.pattern || rule.pattern.length > PATTERN_MAX) {
+          issues.push(`${at}.pattern must be a regex source of 1-${PATTERN_MAX} characters`);
+        } else if (typeof flags !== 'string' || !/^[imsu]*$/.test(flags)) {
+          issues.push(`${at}.flags may only contain i, m, s, u`);
+        } else {
+          try { pattern = new RegExp(rule.pattern, flags); } catch (err) {
+            issues.push(`${at}.pattern does not compile: ${(err as Error).message}`);
+          }
+        }
+        if (typeof rule.category !== 'string' || !CATEGORIES.has(rule.category as OutboundCategory)) {
+          issues.push(`${at}.category must be one of ${[...CATEGORIES].join(', ')}`);
+        }
+        const severity = parseSeverity(rule.severity ?? 'high', `${at}.severity`, issues);
+        const action = parseAction(rule.action, `${at}.action`, issues);
+        const placeholder = parsePlaceholder(rule.placeholder, `${at}.placeholder`, issues);
+        if (rule.description !== undefined && typeof rule.description !== 'string') issues.push(`${at}.description must be a string`);
+        if (!pattern || !severity || !CATEGORIES.has(rule.category as OutboundCategory)) return;
+        layer.rules.push({
+          id,
+          pattern,
+          category: rule.category as OutboundCategory,
+          severity,
+          description: typeof rule.description === 'string' && rule.description ? rule.description : `Matched policy rule ${id}`,
+          ...(action ? { action } : {}),
+          ...(placeholder ? { placeholder } : {}),
+        });
+      });
+    }
+  }
+
+  if (raw.overrides !== undefined) {
+    if (!isObject(raw.overrides)) issues.push('overrides must be an object keyed by rule id');
+    else {
+      for (const [id, value] of Object.entries(raw.overrides)) {
+        const at = `overrides.${id}`;
+        if (!known.has(id) && !layer.rules.some(r => r.id === id)) { issues.push(`${at}: unknown rule id`); continue; }
+        if (!isObject(value)) { issues.push(`${at} must be an object`); continue; }
+        const override: Omit<OutboundPolicyOverride, 'source'> = {};
+        if (value.enabled !== undefined) {
+          if (typeof value.enabled !== 'boolean') issues.push(`${at}.enabled must be a boolean`);
+          else override.enabled = value.enabled;
+        }
+        const severity = parseSeverity(value.severity, `${at}.severity`, issues);
+        if (severity) override.severity = severity;
+        const action = parseAction(value.action, `${at}.action`, issues);
+        if (action) override.action = action;
+        const placeholder = parsePlaceholder(value.placeholder, `${at}.placeholder`, issues);
+        if (placeholder) override.placeholder = placeholder;
+        for (const key of Object.keys(value)) {
+          if (!['enabled', 'severity', 'action', 'placeholder'].includes(key)) issues.push(`${at}.${key} is not an override field`);
+        }
+        layer.overrides[id] = override;
+      }
+    }
+  }
+
+  if (raw.trustedDomains !== undefined) {
+    if (!Array.isArray(raw.trustedDomains)) issues.push('trustedDomains must be an array');
+    else {
+      raw.trustedDomains.forEach((entry, i) => {
+        const at = `trustedDomains[${i}]`;
+        if (!isObject(entry)) { issues.push(`${at} must be an object`); return; }
+        const domain = typeof entry.domain === 'string' ? entry.domain.trim().toLowerCase() : '';
+        if (!DOMAIN.test(domain)) { issues.push(`${at}.domain must be a domain name or *.domain`); return; }
+        if (domain === 'localhost' || domain.endsWith('.localhost')) { issues.push(`${at}.domain may not be localhost`); return; }
+        const trusted: Omit<OutboundTrustedDomain, 'source'> = { domain };
+        if (entry.rules !== undefined) {
+          if (!Array.isArray(entry.rules) || entry.rules.some(r => typeof r !== 'string')) issues.push(`${at}.rules must be an array of rule ids`);
+          else {
+            for (const id of entry.rules as string[]) {
+              if (!known.has(id) && !layer.rules.some(r => r.id === id)) issues.push(`${at}.rules: unknown rule id "${id}"`);
+            }
+            trusted.rules = entry.rules as string[];
+          }
+        }
+        if (entry.categories !== undefined) {
+          if (!Array.isArray(entry.categories) || entry.categories.some(c => !CATEGORIES.has(c as OutboundCategory))) {
+            issues.push(`${at}.categories must be an array of ${[...CATEGORIES].join(', ')}`);
+          } else trusted.categories = entry.categories as OutboundCategory[];
+        }
+        layer.trustedDomains.push(trusted);
+      });
+    }
+  }
+
+  if (raw.quotas !== undefined) {
+    if (!isObject(raw.quotas)) issues.push('quotas must be an object');
+    else {
+      const quotas: Partial<OutboundQuotaPolicy> = {};
+      if (raw.quotas.install !== undefined) {
+        if (scope !== 'install') issues.push('quotas.install may only be set in the install policy');
+        else {
+          const limits = parseQuotaLimits(raw.quotas.install, 'quotas.install', issues);
+          if (limits) quotas.install = limits;
+        }
+      }
+      if (raw.quotas.agent !== undefined) {
+        const limits = parseQuotaLimits(raw.quotas.agent, 'quotas.agent', issues);
+        if (limits) quotas.agent = limits;
+      }
+      if (raw.quotas.onExceed !== undefined) {
+        if (raw.quotas.onExceed === 'reject' || raw.quotas.onExceed === 'queue') quotas.onExceed = raw.quotas.onExceed;
+        else issues.push('quotas.onExceed must be reject or queue');
+      }
+      for (const key of Object.keys(raw.quotas)) {
+        if (!['install', 'agent', 'onExceed'].includes(key)) issues.push(`quotas.${key} is not a quota section`);
+      }
+      layer.quotas = quotas;
+    }
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!['version', 'defaultActions', 'rules', 'overrides', 'trustedDomains', 'quotas'].includes(key)) issues.push(`${key} is not a policy field`);
+  }
+  if (issues.length) throw new OutboundPolicyError(issues);
+  return layer;
+}
+
+/** Merge layers in order; later layers win on overrides and default actions. */
+export function mergeOutboundPolicies(layers: OutboundPolicyLayer[]): OutboundPolicy {
+  const policy: OutboundPolicy = {
+    sources: [], errors: [], defaultActions: {}, rules: [], overrides: {}, trustedDomains: [],
+    quotas: { install: {}, agent: {}, onExceed: 'reject' },
+  };
+  for (const layer of layers) {
+    const source = layer.scope;
+    for (const [severity, action] of Object.entries(layer.defaultActions)) {
+      policy.defaultActions[severity as Severity] = { action: action!, source };
+    }
+    for (const rule of layer.rules) {
+      // An agent rule with an install rule's id replaces it.
+      policy.rules = policy.rules.filter(r => r.id !== rule.id);
+      policy.rules.push({ ...rule, source });
+    }
+    for (const [id, override] of Object.entries(layer.overrides)) {
+      policy.overrides[id] = { ...policy.overrides[id], ...override, source };
+    }
+    policy.trustedDomains.push(...layer.trustedDomains.map(d => ({ ...d, source })));
+    if (layer.quotas) {
+      policy.quotas = {
+        install: { ...policy.quotas.install, ...layer.quotas.install },
+        agent: { ...policy.quotas.agent, ...layer.quotas.agent },
+        onExceed: layer.quotas.onExceed ?? policy.quotas.onExceed,
+      };
+    }
+  }
+  return policy;
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────
+
+/** Where the policy files for an install (and optionally one agent) live. */
+export function outboundPolicyPaths(dataDir: string, agentName?: string): OutboundPolicySource[] {
+  const paths: OutboundPolicySource[] = [{ scope: 'install', path: join(dataDir, 'outbound-policy.json') }];
+  if (agentName && /^[A-Za-z0-9._-]+$/.test(agentName) && !agentName.startsWith('.')) {
+    paths.push({ scope: 'agent', path: join(dataDir, 'outbound-policies', `${agentName}.json`) });
+  }
+  return paths;
+}
+
+type CachedLayer = { mtimeMs: number; size: number; layer?: OutboundPolicyLayer; issues?: string[] };
+const layerCache = new Map<string, CachedLayer>();
+
+function readLayer(source: OutboundPolicySource, extraRuleIds: string[]): CachedLayer | null {
+  if (!existsSync(source.path)) return null;
+  const stat = statSync(source.path);
+  const cached = layerCache.get(source.path);
+  // Agent overrides can name install rules, so only reuse an agent
+  // layer's result when it validated (a failure may be a stale id).
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size && (cached.layer || source.scope === 'install')) {
+    return cached;
+  }
+  const entry: CachedLayer = { mtimeMs: stat.mtimeMs, size: stat.size };
+  try {
+    entry.layer = parseOutboundPolicy(JSON.parse(readFileSync(source.path, 'utf-8')), source.scope, extraRuleIds);
+  } catch (err) {
+    entry.issues = err instanceof OutboundPolicyError ? err.issues : [(err as Error).message];
+    console.warn(`[outbound-guard] Ignoring ${source.path}: ${entry.issues.join('; ')}`);
+  }
+  layerCache.set(source.path, entry);
+  return entry;
+}
+
+/**
+ * Load the effective outbound policy for an agent (or the install
+ * alone). Missing files are fine — the result is then the built-in
+ * behaviour: high severity blocks, medium warns.
+ */
+export function loadOutboundPolicy(dataDir: string, agentName?: string): OutboundPolicy {
+  const layers: OutboundPolicyLayer[] = [];
+  const sources: OutboundPolicySource[] = [];
+  const errors: OutboundPolicy['errors'] = [];
+  for (const source of outboundPolicyPaths(dataDir, agentName)) {
+    const entry = readLayer(source, layers.flatMap(l => l.rules.map(r => r.id)));
+    if (!entry) continue;
+    if (entry.layer) {
+      layers.push(entry.layer);
+      sources.push(source);
+    } else {
+      errors.push({ ...source, issues: entry.issues ?? [] });
+    }
+  }
+  return { ...mergeOutboundPolicies(layers), sources, errors };
+}
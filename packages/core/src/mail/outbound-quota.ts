@@ -0,0 +1,282 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Database } from '../storage/db.js';
+import type { OutboundQuotaLimits, OutboundQuotaPolicy } from './outbound-policy.js';
+
+export type OutboundQuotaScope = 'install' | 'agent';
+export type OutboundQuotaLimit = keyof OutboundQuotaLimits;
+
+/** The first limit a send would have broken. */
+export interface OutboundQuotaExceeded {
+  agentName: string;
+  scope: OutboundQuotaScope;
+  limit: OutboundQuotaLimit;
+  max: number;
+  used: number;
+  /** Set for `perDomainPerHour`. */
+  domain?: string;
+  /** Seconds until enough of the window has expired for this send to fit. */
+  retryAfterSeconds: number;
+}
+
+/** Thrown by `OutboundQuota.reserve`; the API turns it into a 429 with `Retry-After`. */
+export class OutboundQuotaError extends Error {
+  readonly statusCode = 429;
+
+  constructor(public readonly exceeded: OutboundQuotaExceeded) {
+    const where = exceeded.domain ? ` to ${exceeded.domain}` : '';
+    super(
+      `Outbound quota exceeded for ${exceeded.scope === 'install' ? 'this install' : `agent "${exceeded.agentName}"`}: `
+      + `${exceeded.limit}${where} is ${exceeded.max} (used ${exceeded.used}). Retry in ${exceeded.retryAfterSeconds}s.`,
+    );
+    this.name = 'OutboundQuotaError';
+  }
+
+  get retryAfterSeconds(): number {
+    return this.exceeded.retryAfterSeconds;
+  }
+}
+
+export interface OutboundQuotaReservation {
+  id: string;
+  agentName: string;
+  recipients: string[];
+}
+
+export interface OutboundQuotaCounters {
+  perMinute: number;
+  perHour: number;
+  perDay: number;
+  uniqueRecipientsPerDay: number;
+  /** Messages per recipient domain in the last hour, busiest first. */
+  perDomainPerHour: Record<string, number>;
+}
+
+export interface OutboundQuotaUsage {
+  onExceed: OutboundQuotaPolicy['onExceed'];
+  agent: { limits: OutboundQuotaLimits; used: OutboundQuotaCounters };
+  install: { limits: OutboundQuotaLimits; used: OutboundQuotaCounters };
+}
+
+export interface OutboundQuotaOptions {
+  /** Called once per limit hit; repeats are suppressed until the window frees up. */
+  onExceeded?: (exceeded: OutboundQuotaExceeded) => void;
+  now?: () => Date;
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const PRUNE_INTERVAL = MINUTE;
+
+const MESSAGE_WINDOWS: Array<[OutboundQuotaLimit, number]> = [['perMinute', MINUTE], ['perHour', HOUR], ['perDay', DAY]];
+
+/** Bare lowercase address from `Name <addr>` or `addr`. */
+function bareAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+/**
+ * Sliding-window counters for external mail, per agent and install-wide.
+ * Every external send is recorded as one row per recipient in
+ * `outbound_usage`; `reserve` checks the limits and records the send in
+ * one synchronous step, so concurrent requests cannot both slip under a
+ * limit. Rows older than a day are pruned as sends come in.
+ */
+export class OutboundQuota {
+  private alerted = new Map<string, number>();
+  private lastPrune = 0;
+
+  constructor(private db: Database, private options: OutboundQuotaOptions = {}) {}
+
+  /**
+   * Check `quotas` for a send to `recipients` (external addresses only)
+   * and record it. Returns null when no limit is configured, so nothing
+   * is recorded; throws `OutboundQuotaError` when a limit would be broken.
+   */
+  reserve(agentName: string, recipients: string[], quotas: OutboundQuotaPolicy): OutboundQuotaReservation | null {
+    if (!hasLimits(quotas.agent) && !hasLimits(quotas.install)) return null;
+    const now = this.now();
+    this.prune(now);
+    const addresses = [...new Set(recipients.map(bareAddress).filter(a => a.includes('@')))];
+    if (addresses.length === 0) return null;
+
+    const exceeded = this.check('agent', agentName, addresses, quotas.agent, now)
+      ?? this.check('install', agentName, addresses, quotas.install, now);
+    if (exceeded) {
+      this.alert(exceeded, now);
+      throw new OutboundQuotaError(exceeded);
+    }
+
+    const reservation: OutboundQuotaReservation = { id: uuidv4(), agentName, recipients: addresses };
+    const sentAt = now.toISOString();
+    const insert = this.db.prepare(
+      'INSERT INTO outbound_usage (send_id, agent_name, recipient, domain, sent_at) VALUES (?, ?, ?, ?, ?)',
+    );
+    this.db.exec('BEGIN');
+    try {
+      for (const address of addresses) insert.run(reservation.id, agentName, address, address.split('@')[1], sentAt);
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+    return reservation;
+  }
+
+  /** Give back a reservation whose send failed. */
+  release(reservation: OutboundQuotaReservation | null): void {
+    if (!reservation) return;
+    this.db.prepare('DELETE FROM outbound_usage WHERE send_id = ?').run(reservation.id);
+  }
+
+  /** Current counters for one agent and the install, next to the limits that apply. */
+  usage(agentName: string, quotas: OutboundQuotaPolicy): OutboundQuotaUsage {
+    const now = this.now();
+    return {
+      onExceed: quotas.onExceed,
+      agent: { limits: quotas.agent, used: this.counters(agentName, now) },
+      install: { limits: quotas.install, used: this.counters(null, now) },
+    };
+  }
+
+  /** Drop rows that no window can see any more. */
+  prune(now = this.now()): void {
+    if (now.getTime() - this.lastPrune < PRUNE_INTERVAL) return;
+    this.lastPrune = now.getTime();
+    this.db.prepare('DELETE FROM outbound_usage WHERE sent_at < ?').run(new Date(now.getTime() - DAY).toISOString());
+    for (const [key, until] of this.alerted) if (until <= now.getTime()) this.alerted.delete(key);
+  }
+
+  private check(
+    scope: OutboundQuotaScope,
+    agentName: string,
+    addresses: string[],
+    limits: OutboundQuotaLimits,
+    now: Date,
+  ): OutboundQuotaExceeded | null {
+    const agent = scope === 'agent' ? agentName : null;
+    const base = { agentName, scope };
+
+    for (const [limit, windowMs] of MESSAGE_WINDOWS) {
+      const max = limits[limit];
+      if (!max) continue;
+      const since = new Date(now.getTime() - windowMs).toISOString();
+      const used = this.countSends(agent, since);
+      if (used + 1 > max) {
+        return { ...base, limit, max, used, retryAfterSeconds: this.sendRetryAfter(agent, since, used + 1 - max, windowMs, now) };
+      }
+    }
+
+    const uniqueMax = limits.uniqueRecipientsPerDay;
+    if (uniqueMax) {
+      const since = new Date(now.getTime() - DAY).toISOString();
+      const seen = new Set(this.all<{ recipient: string }>(
+        `SELECT DISTINCT recipient FROM outbound_usage WHERE sent_at > ?${agent ? ' AND agent_name = ?' : ''}`,
+        since, agent,
+      ).map(r => r.recipient));
+      const fresh = addresses.filter(a => !seen.has(a)).length;
+      if (fresh > 0 && seen.size + fresh > uniqueMax) {
+        // Each recipient frees its slot a day after it was last mailed.
+        const over = seen.size + fresh - uniqueMax;
+        const row = this.all<{ last: string }>(
+          `SELECT MAX(sent_at) AS last FROM outbound_usage WHERE sent_at > ?${agent ? ' AND agent_name = ?' : ''}
+           GROUP BY recipient ORDER BY last LIMIT 1 OFFSET ?`,
+          since, agent, over - 1,
+        )[0];
+        return {
+          ...base,
+          limit: 'uniqueRecipientsPerDay',
+          max: uniqueMax,
+          used: seen.size,
+          retryAfterSeconds: row ? retryAfter(row.last, DAY, now) : Math.ceil(DAY / 1000),
+        };
+      }
+    }
+
+    const domainMax = limits.perDomainPerHour;
+    if (domainMax) {
+      const since = new Date(now.getTime() - HOUR).toISOString();
+      for (const domain of new Set(addresses.map(a => a.split('@')[1]))) {
+        const used = this.countSends(agent, since, domain);
+        if (used + 1 > domainMax) {
+          return {
+            ...base,
+            limit: 'perDomainPerHour',
+            max: domainMax,
+            used,
+            domain,
+            retryAfterSeconds: this.sendRetryAfter(agent, since, used + 1 - domainMax, HOUR, now, domain),
+          };
+        }
+      }
+    }
+    return null;
+  }
+
+  private counters(agent: string | null, now: Date): OutboundQuotaCounters {
+    const since = (windowMs: number) => new Date(now.getTime() - windowMs).toISOString();
+    const filter = agent ? ' AND agent_name = ?' : '';
+    const unique = this.all<{ n: number }>(
+      `SELECT COUNT(DISTINCT recipient) AS n FROM outbound_usage WHERE sent_at > ?${filter}`,
+      since(DAY), agent,
+    )[0];
+    const domains = this.all<{ domain: string; n: number }>(
+      `SELECT domain, COUNT(DISTINCT send_id) AS n FROM outbound_usage WHERE sent_at > ?${filter}
+       GROUP BY domain ORDER BY n DESC, domain`,
+      since(HOUR), agent,
+    );
+    return {
+      perMinute: this.countSends(agent, since(MINUTE)),
+      perHour: this.countSends(agent, since(HOUR)),
+      perDay: this.countSends(agent, since(DAY)),
+      uniqueRecipientsPerDay: unique?.n ?? 0,
+      perDomainPerHour: Object.fromEntries(domains.map(d => [d.domain, d.n])),
+    };
+  }
+
+  private countSends(agent: string | null, since: string, domain?: string): number {
+    const row = this.all<{ n: number }>(
+      `SELECT COUNT(DISTINCT send_id) AS n FROM outbound_usage WHERE sent_at > ?${agent ? ' AND agent_name = ?' : ''}${domain ? ' AND domain = ?' : ''}`,
+      since, agent, domain ?? null,
+    )[0];
+    return row?.n ?? 0;
+  }
+
+  /** When the `over`-th oldest send in the window drops out of it. */
+  private sendRetryAfter(agent: string | null, since: string, over: number, windowMs: number, now: Date, domain?: string): number {
+    const row = this.all<{ first: string }>(
+      `SELECT MIN(sent_at) AS first FROM outbound_usage WHERE sent_at > ?${agent ? ' AND agent_name = ?' : ''}${domain ? ' AND domain = ?' : ''}
+       GROUP BY send_id ORDER BY first LIMIT 1 OFFSET ?`,
+      since, agent, domain ?? null, over - 1,
+    )[0];
+    return row ? retryAfter(row.first, windowMs, now) : Math.ceil(windowMs / 1000);
+  }
+
+  /** Run a query whose optional filters were appended only when their value is set. */
+  private all<T>(sql: string, ...params: Array<string | number | null>): T[] {
+    return this.db.prepare(sql).all(...params.filter(p => p !== null)) as unknown as T[];
+  }
+
+  private alert(exceeded: OutboundQuotaExceeded, now: Date): void {
+    const key = [exceeded.scope, exceeded.scope === 'agent' ? exceeded.agentName : '', exceeded.limit, exceeded.domain ?? ''].join('\0');
+    const until = this.alerted.get(key);
+    if (until !== undefined && until > now.getTime()) return;
+    this.alerted.set(key, now.getTime() + exceeded.retryAfterSeconds * 1000);
+    try { this.options.onExceeded?.(exceeded); } catch (err) {
+      console.warn('[outbound-quota] onExceeded handler failed:', (err as Error).message);
+    }
+  }
+
+  private now(): Date {
+    return this.options.now?.() ?? new Date();
+  }
+}
+
+function hasLimits(limits: OutboundQuotaLimits): boolean {
+  return Object.values(limits).some(v => typeof v === 'number' && v > 0);
+}
+
+function retryAfter(sentAt: string, windowMs: number, now: Date): number {
+  return Math.max(1, Math.ceil((new Date(sentAt).getTime() + windowMs - now.getTime()) / 1000));
+}
@@ -1,5 +1,27 @@
 import { simpleParser } from 'mailparser';
 import type { ParsedEmail } from './types.js';
+import { parseICalendar, type CalendarInvite } from './icalendar.js';
+
+type MailparserAttachment = Awaited<ReturnType<typeof simpleParser>>['attachments'][number];
+
+/**
+ * The invite carried by a message: the first `text/calendar` part (or,
+ * failing that, an `.ics` / `application/ics` attachment). METHOD
+ * falls back to the part's `method=` parameter.
+ */
+function calendarFromAttachments(attachments: MailparserAttachment[]): CalendarInvite | undefined {
+  const part = attachments.find(a => a.contentType === 'text/calendar')
+    ?? attachments.find(a => a.contentType === 'application/ics' || /\.ics$/i.test(a.filename ?? ''));
+  if (!part) return undefined;
+  const invite = parseICalendar(part.content.toString('utf8'));
+  if (!invite) return undefined;
+  if (!invite.method) {
+    const type = part.headers?.get('content-type') as { params?: Record<string, string> } | undefined;
+    const method = type?.params?.method;
+    if (method) invite.method = method.toUpperCase();
+  }
+  return invite;
+}
 
 export async function parseEmail(raw: Buffer | string): Promise<ParsedEmail> {
   const parsed = await simpleParser(raw);
@@ -26,6 +48,8 @@ export async function parseEmail(raw: Buffer | string): Promise<ParsedEmail> {
     ? Array.isArray(parsed.replyTo) ? parsed.replyTo.flatMap((r) => r.value) : parsed.replyTo.value
     : undefined;
 
+  const calendar = calendarFromAttachments(parsed.attachments ?? []);
+
   return {
     messageId: parsed.messageId ?? '',
     subject: parsed.subject ?? '',
@@ -47,5 +71,7 @@ export async function parseEmail(raw: Buffer | string): Promise<ParsedEmail> {
       content: a.content,
     })),
     headers: parsed.headers as unknown as Map<string, string>,
+    headerLines: parsed.headerLines?.map((h) => ({ key: h.key, line: h.line })),
+    ...(calendar ? { calendar } : {}),
   };
 }
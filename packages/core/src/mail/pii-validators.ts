@@ -0,0 +1,252 @@
+/**
+ * Check-digit and structure validators for the identifiers the outbound
+ * guard looks for. A regex only says "this is shaped like a card
+ * number"; these say "this could actually be one", which is what lets
+ * the guard tell a credit card from a 16-digit order number.
+ *
+ * Every validator takes the matched text as written (spaces, dashes
+ * and dots allowed) and returns a boolean. Pure functions.
+ */
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '');
+const compact = (value: string): string => value.replace(/[\s.-]/g, '').toUpperCase();
+
+/** Luhn (mod 10) — payment cards, Canadian SIN, Swedish personnummer, Italian VAT. */
+export function luhnValid(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 2) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits.charCodeAt(digits.length - 1 - i) - 48;
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/** ISO 7064 mod 97-10 over an alphanumeric string (letters A=10 … Z=35). */
+function mod97(value: string): number {
+  let rest = 0;
+  for (const ch of value) {
+    const code = ch.charCodeAt(0);
+    const n = code >= 65 ? String(code - 55) : ch;
+    for (const d of n) rest = (rest * 10 + (d.charCodeAt(0) - 48)) % 97;
+  }
+  return rest;
+}
+
+/** IBAN lengths by country (ISO 13616 registry, SEPA and common others). */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29, CH: 21, CR: 22,
+  CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22,
+  GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, JO: 30,
+  KW: 30, KZ: 20, LB: 28, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27,
+  MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24,
+  SE: 24, SI: 19, SK: 24, SM: 27, TN: 24, TR: 26, UA: 29, VG: 24, XK: 20,
+};
+
+/** IBAN: registered country length and the mod-97 check (remainder 1). */
+export function ibanValid(value: string): boolean {
+  const iban = compact(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const length = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (length !== undefined && iban.length !== length) return false;
+  return mod97(iban.slice(4) + iban.slice(0, 4)) === 1;
+}
+
+/** US ABA routing number: 3-7-1 weighted sum divisible by 10. */
+export function abaRoutingValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 9 || /^0+$/.test(d)) return false;
+  const n = (i: number) => d.charCodeAt(i) - 48;
+  const sum = 3 * (n(0) + n(3) + n(6)) + 7 * (n(1) + n(4) + n(7)) + (n(2) + n(5) + n(8));
+  return sum % 10 === 0;
+}
+
+/** Payment card: 13-19 digits, not all one digit, Luhn. */
+export function paymentCardValid(value: string): boolean {
+  const d = digitsOf(value);
+  return d.length >= 13 && d.length <= 19 && !/^(\d)\1+$/.test(d) && luhnValid(d);
+}
+
+/** UK National Insurance number. No check digit — the prefix and suffix rules are the validation. */
+export function ukNinoValid(value: string): boolean {
+  return /^(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(compact(value));
+}
+
+/** Canadian Social Insurance Number: 9 digits, Luhn, never starting 0 or 8. */
+export function caSinValid(value: string): boolean {
+  const d = digitsOf(value);
+  return d.length === 9 && d[0] !== '0' && d[0] !== '8' && luhnValid(d);
+}
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/** Verhoeff dihedral check (the whole string, check digit last). */
+export function verhoeffValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (!d) return false;
+  let c = 0;
+  for (let i = 0; i < d.length; i++) {
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][d.charCodeAt(d.length - 1 - i) - 48]];
+  }
+  return c === 0;
+}
+
+/** Indian Aadhaar: 12 digits, first digit 2-9, Verhoeff. */
+export function aadhaarValid(value: string): boolean {
+  const d = digitsOf(value);
+  return d.length === 12 && d[0] >= '2' && verhoeffValid(d);
+}
+
+/** Indian PAN. No check digit — the fourth character must be a known holder type. */
+export function indianPanValid(value: string): boolean {
+  return /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/.test(compact(value));
+}
+
+/** ISO 7064 MOD 11,10 over all digits but the last; true when the last digit matches. */
+function mod11_10Valid(d: string): boolean {
+  let product = 10;
+  for (let i = 0; i < d.length - 1; i++) {
+    let sum = (d.charCodeAt(i) - 48 + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  let check = 11 - product;
+  if (check === 10) check = 0;
+  return check === d.charCodeAt(d.length - 1) - 48;
+}
+
+/**
+ * German Steuerliche Identifikationsnummer: 11 digits, no leading 0,
+ * exactly one digit repeated (twice or three times) in the first ten,
+ * and the MOD 11,10 check digit.
+ */
+export function deSteuerIdValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 11 || d[0] === '0') return false;
+  const counts = new Map<string, number>();
+  for (const ch of d.slice(0, 10)) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  const repeated = [...counts.values()].filter(n => n > 1);
+  if (repeated.length !== 1 || repeated[0] > 3) return false;
+  return mod11_10Valid(d);
+}
+
+/**
+ * French INSEE / NIR (numéro de sécurité sociale): 13 characters plus a
+ * 2-digit key = 97 − (number mod 97). Corsican departments 2A / 2B
+ * count as 19 / 18 for the key.
+ */
+export function frInseeValid(value: string): boolean {
+  const v = compact(value);
+  const m = v.match(/^([1278])(\d{2})(\d{2})(\d{2}|2A|2B)(\d{3})(\d{3})(\d{2})$/);
+  if (!m) return false;
+  const month = Number(m[3]);
+  if (!((month >= 1 && month <= 12) || (month >= 20 && month <= 42) || month >= 50)) return false;
+  const dept = m[4] === '2A' ? '19' : m[4] === '2B' ? '18' : m[4];
+  const number = BigInt(`${m[1]}${m[2]}${m[3]}${dept}${m[5]}${m[6]}`);
+  return 97n - (number % 97n) === BigInt(m[7]);
+}
+
+/**
+ * Swedish personnummer / samordningsnummer: (YY)YYMMDD[-+]NNNC with a
+ * real month, a day of 01-31 (61-91 for samordningsnummer) and Luhn
+ * over the last ten digits.
+ */
+export function sePersonnummerValid(value: string): boolean {
+  const d = digitsOf(value);
+  if (d.length !== 10 && d.length !== 12) return false;
+  const ten = d.slice(-10);
+  const month = Number(ten.slice(2, 4));
+  let day = Number(ten.slice(4, 6));
+  if (day > 60) day -= 60;
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31 && luhnValid(ten);
+}
+
+const weighted = (d: string, weights: number[]) => weights.reduce((sum, w, i) => sum + w * (d.charCodeAt(i) - 48), 0);
+
+/**
+ * EU VAT number body checks, by country prefix. Countries missing here
+ * are recognised by format only (see `EU_VAT_FORMATS`).
+ */
+const EU_VAT_CHECKS: Record<string, (body: string) => boolean> = {
+  AT: (b) => {
+    // U + 8 digits; Luhn-style over digits 1-7, offset by 4.
+    const d = b.slice(1);
+    let sum = 0;
+    for (let i = 0; i < 7; i++) {
+      let n = d.charCodeAt(i) - 48;
+      if (i % 2 === 1) { n *= 2; if (n > 9) n -= 9; }
+      sum += n;
+    }
+    return (10 - ((sum + 4) % 10)) % 10 === d.charCodeAt(7) - 48;
+  },
+  BE: (b) => 97 - (Number(b.slice(0, 8)) % 97) === Number(b.slice(8)),
+  DE: (b) => mod11_10Valid(b),
+  DK: (b) => weighted(b, [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+  FI: (b) => {
+    const r = weighted(b, [7, 9, 10, 5, 8, 4, 2]) % 11;
+    return r !== 1 && (r === 0 ? 0 : 11 - r) === b.charCodeAt(7) - 48;
+  },
+  FR: (b) => {
+    // Numeric keys only; the newer alphanumeric keys have no public formula.
+    if (!/^\d{2}/.test(b)) return false;
+    return (12 + 3 * (Number(b.slice(2)) % 97)) % 97 === Number(b.slice(0, 2));
+  },
+  IT: (b) => luhnValid(b),
+  LU: (b) => Number(b.slice(0, 6)) % 89 === Number(b.slice(6)),
+  NL: (b) => {
+    // 2020+ sole-trader numbers use mod 97 over the full id; older ones weighted mod 11.
+    if (mod97(`NL${b}`) === 1) return true;
+    const d = b.slice(0, 9);
+    return (weighted(d, [9, 8, 7, 6, 5, 4, 3, 2]) - (d.charCodeAt(8) - 48)) % 11 === 0;
+  },
+  PL: (b) => {
+    const r = weighted(b, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11;
+    return r !== 10 && r === b.charCodeAt(9) - 48;
+  },
+  PT: (b) => {
+    const r = 11 - (weighted(b, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+    return (r >= 10 ? 0 : r) === b.charCodeAt(8) - 48;
+  },
+  SE: (b) => luhnValid(b.slice(0, 10)),
+};
+
+/** Body formats of EU VAT ids (after the country prefix). */
+export const EU_VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/, BE: /^[01]\d{9}$/, BG: /^\d{9,10}$/, CY: /^\d{8}[A-Z]$/, CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/, DK: /^\d{8}$/, EE: /^\d{9}$/, EL: /^\d{9}$/, ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/, FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/, HR: /^\d{11}$/, HU: /^\d{8}$/, IE: /^\d[A-Z0-9+*]\d{5}[A-Z]{1,2}$/,
+  IT: /^\d{11}$/, LT: /^(?:\d{9}|\d{12})$/, LU: /^\d{8}$/, LV: /^\d{11}$/, MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/, PL: /^\d{10}$/, PT: /^\d{9}$/, RO: /^\d{2,10}$/, SE: /^\d{10}01$/,
+  SI: /^\d{8}$/, SK: /^\d{10}$/,
+};
+
+/**
+ * EU VAT id status: `invalid` when it is not any country's format,
+ * `unchecked` for a country without a check digit here, else `checked`
+ * or `failed` by that country's check.
+ */
+export function euVatStatus(value: string): 'checked' | 'failed' | 'unchecked' | 'invalid' {
+  const v = compact(value);
+  const country = v.slice(0, 2);
+  const body = v.slice(2);
+  const format = EU_VAT_FORMATS[country];
+  if (!format || !format.test(body)) return 'invalid';
+  const check = EU_VAT_CHECKS[country];
+  if (!check) return 'unchecked';
+  return check(body) ? 'checked' : 'failed';
+}
@@ -1,5 +1,6 @@
 import { ImapFlow } from 'imapflow';
 import type { EmailEnvelope, MailboxInfo, SearchCriteria } from './types.js';
+import { parseMessageIds } from '../threading/thread-id.js';
 
 export interface MailReceiverOptions {
   host: string;
@@ -9,6 +10,13 @@ export interface MailReceiverOptions {
   secure?: boolean;
 }
 
+/** Message-IDs from a fetched `References:` header block (possibly folded). */
+function parseReferencesHeader(raw: Buffer | undefined): string[] {
+  if (!raw || raw.length === 0) return [];
+  const value = raw.toString('utf8').replace(/\r?\n[ \t]+/g, ' ').replace(/^references:/i, '');
+  return parseMessageIds(value);
+}
+
 export class MailReceiver {
   private client: ImapFlow;
   private connected = false;
@@ -107,9 +115,11 @@ export class MailReceiver {
         envelope: true,
         flags: true,
         size: true,
+        headers: ['references'],
       })) {
         const env = msg.envelope;
         if (!env) continue;
+        const references = parseReferencesHeader(msg.headers);
         envelopes.push({
           uid: msg.uid,
           seq: msg.seq,
@@ -131,6 +141,8 @@ export class MailReceiver {
             name: a.name,
             address: a.address ?? '',
           })),
+          inReplyTo: env.inReplyTo || undefined,
+          references: references.length ? references : undefined,
           date: env.date ?? new Date(),
           flags: msg.flags ?? new Set<string>(),
           size: msg.size ?? 0,
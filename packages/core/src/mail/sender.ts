@@ -91,6 +91,7 @@ export class MailSender {
         contentType: a.contentType,
         encoding: a.encoding,
       })),
+      icalEvent: mail.icalEvent,
     };
 
     // Build raw RFC822 message (for Sent folder copy)
@@ -22,10 +22,41 @@ export interface SpamRuleMatch {
 
 export interface SpamResult {
   score: number;
+  /** Spam probability: the rule score, adjusted by the agent's trained model when one is given. */
+  probability: number;
   isSpam: boolean;
   isWarning: boolean;
   matches: SpamRuleMatch[];
   topCategory: SpamCategory | null;
+  /** The trained model's view, when it had enough training and tokens to judge. */
+  bayes?: SpamBayesResult;
+}
+
+/**
+ * Token counts for the adaptive layer — `SpamModel.forAgent()` serves
+ * them from SQLite. Word tokens are learned from report / not-spam
+ * feedback only; `rule:` tokens also from spam_log verdicts.
+ */
+export interface SpamTokenStats {
+  docs: {
+    words: { spam: number; ham: number };
+    rules: { spam: number; ham: number };
+  };
+  counts(tokens: string[]): Map<string, { spam: number; ham: number }>;
+}
+
+export interface SpamTokenContribution {
+  token: string;
+  /** Smoothed probability that a message with this token is spam. */
+  probability: number;
+  spam: number;
+  ham: number;
+}
+
+export interface SpamBayesResult {
+  probability: number;
+  /** The tokens that decided it, most decisive first. */
+  tokens: SpamTokenContribution[];
 }
 
 interface SpamRule {
@@ -39,6 +70,17 @@ interface SpamRule {
 export const SPAM_THRESHOLD = 40;
 export const WARNING_THRESHOLD = 20;
 
+/** Training messages of each class a token family needs before it counts. */
+export const SPAM_MODEL_MIN_DOCS = 5;
+/** Rule points per unit of log-odds: SPAM_THRESHOLD maps to 0.5, WARNING_THRESHOLD to ~0.12. */
+const RULE_SCORE_SCALE = 10;
+/** How much the trained model's log-odds count against the rules'. */
+const BAYES_WEIGHT = 2;
+const BAYES_MAX_TOKENS = 15;
+/** Tokens closer than this to 0.5 say nothing and are left out. */
+const BAYES_MIN_DEVIATION = 0.1;
+const MAX_TOKENS_PER_MESSAGE = 1000;
+
 // --- Internal email detection ---
 
 export function isInternalEmail(email: ParsedEmail, localDomains?: string[]): boolean {
@@ -425,13 +467,14 @@ const RULES: SpamRule[] = [
     },
   },
 
-  // === Authentication (SPF/DKIM/DMARC from headers) ===
+  // === Authentication (verified locally when available, else from headers) ===
   {
     id: 'auth_spf_fail',
     category: 'authentication',
     score: 15,
     description: 'SPF authentication failed',
     test: (email) => {
+      if (email.authentication) return ['fail', 'softfail'].includes(email.authentication.spf.result);
       const authResults = email.headers.get('authentication-results') ?? '';
       return /spf=(fail|softfail)/i.test(authResults);
     },
@@ -442,6 +485,10 @@ const RULES: SpamRule[] = [
     score: 15,
     description: 'DKIM authentication failed',
     test: (email) => {
+      if (email.authentication) {
+        const sigs = email.authentication.dkim;
+        return sigs.some(s => s.result === 'fail') && !sigs.some(s => s.result === 'pass');
+      }
       const authResults = email.headers.get('authentication-results') ?? '';
       return /dkim=fail/i.test(authResults);
     },
@@ -452,16 +499,33 @@ const RULES: SpamRule[] = [
     score: 20,
     description: 'DMARC authentication failed',
     test: (email) => {
+      if (email.authentication) return email.authentication.dmarc.result === 'fail';
       const authResults = email.headers.get('authentication-results') ?? '';
       return /dmarc=fail/i.test(authResults);
     },
   },
+  {
+    id: 'auth_arc_fail',
+    category: 'authentication',
+    score: 10,
+    description: 'ARC chain is broken',
+    test: (email) => {
+      if (email.authentication) return email.authentication.arc.result === 'fail';
+      const authResults = email.headers.get('authentication-results') ?? '';
+      return /arc=fail/i.test(authResults);
+    },
+  },
   {
     id: 'auth_no_auth_results',
     category: 'authentication',
     score: 3,
     description: 'No Authentication-Results header present',
     test: (email) => {
+      // Verified but nothing to verify: no signature and no SPF verdict.
+      if (email.authentication) {
+        const { spf, dkim, arc } = email.authentication;
+        return dkim.length === 0 && spf.result === 'none' && arc.result === 'none';
+      }
       return !email.headers.has('authentication-results');
     },
   },
@@ -615,9 +679,86 @@ const RULES: SpamRule[] = [
   },
 ];
 
+// --- Adaptive (Bayesian) layer ---
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const logit = (p: number) => Math.log(p / (1 - p));
+
+/** The rule score as a probability, centred on SPAM_THRESHOLD. */
+export function ruleProbability(score: number): number {
+  return logistic((score - SPAM_THRESHOLD) / RULE_SCORE_SCALE);
+}
+
+/**
+ * Features a message is learned and judged by: body and subject
+ * words, the sender address and domain, link hosts, and the ids of
+ * the rules it tripped (so the model can learn that a rule misfires
+ * for this agent).
+ */
+export function spamTokens(email: ParsedEmail, ruleIds: string[] = []): string[] {
+  const tokens = new Set<string>();
+  const words = (text: string, prefix = '') => {
+    for (const m of text.toLowerCase().matchAll(/[\p{L}\p{N}][\p{L}\p{N}'_-]{2,29}/gu)) {
+      if (!/^[\d_-]+$/.test(m[0])) tokens.add(prefix + m[0]);
+    }
+  };
+  const body = email.text || (email.html ?? '').replace(/<style[\s\S]*?<\/style>|<script[\s\S]*?<\/script>/gi, ' ').replace(/<[^>]+>/g, ' ');
+  const from = email.from[0]?.address?.toLowerCase();
+  if (from) {
+    tokens.add(`from:${from}`);
+    tokens.add(`from:@${from.split('@')[1] ?? ''}`);
+  }
+  for (const m of `${email.text ?? ''} ${email.html ?? ''}`.matchAll(/https?:\/\/([a-z0-9.-]+)/gi)) tokens.add(`url:${m[1].toLowerCase()}`);
+  for (const id of ruleIds) tokens.add(`rule:${id}`);
+  words(email.subject ?? '', 'subject:');
+  words(body);
+  return [...tokens].slice(0, MAX_TOKENS_PER_MESSAGE);
+}
+
+/**
+ * Robinson's smoothed token probability: a token seen in few messages
+ * stays near 0.5, one seen often moves toward its observed spam rate.
+ * Null when the token's family is not trained enough yet.
+ */
+export function spamTokenProbability(token: string, count: { spam: number; ham: number }, stats: SpamTokenStats): number | null {
+  const docs = token.startsWith('rule:') ? stats.docs.rules : stats.docs.words;
+  if (docs.spam < SPAM_MODEL_MIN_DOCS || docs.ham < SPAM_MODEL_MIN_DOCS) return null;
+  const spamRate = count.spam / docs.spam;
+  const hamRate = count.ham / docs.ham;
+  if (spamRate + hamRate === 0) return null;
+  const n = count.spam + count.ham;
+  return (0.5 + n * (spamRate / (spamRate + hamRate))) / (1 + n);
+}
+
+/** Combine the most decisive tokens (Robinson's geometric-mean method). Null when no token has an opinion. */
+function bayesVerdict(tokens: string[], stats: SpamTokenStats): SpamBayesResult | null {
+  const counts = stats.counts(tokens);
+  const scored: SpamTokenContribution[] = [];
+  for (const [token, count] of counts) {
+    const probability = spamTokenProbability(token, count, stats);
+    if (probability !== null && Math.abs(probability - 0.5) >= BAYES_MIN_DEVIATION) scored.push({ token, probability, ...count });
+  }
+  if (scored.length === 0) return null;
+  scored.sort((a, b) => Math.abs(b.probability - 0.5) - Math.abs(a.probability - 0.5));
+  const top = scored.slice(0, BAYES_MAX_TOKENS);
+  const n = top.length;
+  const p = 1 - Math.exp(top.reduce((sum, t) => sum + Math.log(1 - t.probability), 0) / n);
+  const q = 1 - Math.exp(top.reduce((sum, t) => sum + Math.log(t.probability), 0) / n);
+  const probability = p + q === 0 ? 0.5 : (1 + (p - q) / (p + q)) / 2;
+  return { probability: Math.min(0.99, Math.max(0.01, probability)), tokens: top };
+}
+
 // --- Main scoring function ---
 
-export function scoreEmail(email: ParsedEmail): SpamResult {
+/**
+ * Score an inbound email. With only the rules, `isSpam` means
+ * `score >= SPAM_THRESHOLD`. Given an agent's trained token stats, the
+ * rule probability and the model's are added in log-odds and `isSpam`
+ * means `probability >= 0.5` — so a learned sender can be caught with
+ * no rule hits, and a rule that misfires for this agent can be
+ * outvoted.
+ */
+export function scoreEmail(email: ParsedEmail, model?: SpamTokenStats): SpamResult {
   const bodyText = [email.subject, email.text ?? ''].join('\n');
   const bodyHtml = email.html ?? '';
   const matches: SpamRuleMatch[] = [];
@@ -661,11 +802,66 @@ export function scoreEmail(email: ParsedEmail): SpamResult {
     }
   }
 
+  const base = ruleProbability(score);
+  const bayes = model ? bayesVerdict(spamTokens(email, matches.map(m => m.ruleId)), model) : null;
+  if (!bayes) {
+    return {
+      score,
+      probability: base,
+      isSpam: score >= SPAM_THRESHOLD,
+      isWarning: score >= WARNING_THRESHOLD && score < SPAM_THRESHOLD,
+      matches,
+      topCategory,
+    };
+  }
+  const probability = logistic(logit(base) + BAYES_WEIGHT * logit(bayes.probability));
+  const isSpam = probability >= 0.5;
   return {
     score,
-    isSpam: score >= SPAM_THRESHOLD,
-    isWarning: score >= WARNING_THRESHOLD && score < SPAM_THRESHOLD,
+    probability,
+    isSpam,
+    isWarning: !isSpam && probability >= ruleProbability(WARNING_THRESHOLD),
     matches,
     topCategory,
+    bayes,
+  };
+}
+
+export interface SpamExplanation {
+  probability: number;
+  /** What the rules alone would say. */
+  ruleProbability: number;
+  bayesProbability: number | null;
+  /** Rules that fired, highest score first. */
+  rules: SpamRuleMatch[];
+  /** Learned tokens pushing toward spam / toward not-spam, most decisive first. */
+  tokens: { spam: SpamTokenContribution[]; ham: SpamTokenContribution[] };
+  summary: string;
+}
+
+/** Why a message scored what it did: the top rules and learned tokens on each side. */
+export function explainSpamScore(result: SpamResult, limit = 5): SpamExplanation {
+  const rules = [...result.matches].sort((a, b) => b.score - a.score);
+  const tokens = result.bayes?.tokens ?? [];
+  const spam = tokens.filter(t => t.probability > 0.5).slice(0, limit);
+  const ham = tokens.filter(t => t.probability < 0.5).slice(0, limit);
+  const verdict = result.isSpam ? 'spam' : result.isWarning ? 'suspicious' : 'not spam';
+  const parts = [
+    rules.length
+      ? `rules scored ${result.score} (${rules.slice(0, limit).map(r => `${r.ruleId} +${r.score}`).join(', ')})`
+      : 'no rules fired',
+  ];
+  if (result.bayes) {
+    parts.push(`the trained model gave ${result.bayes.probability.toFixed(2)}`);
+    if (spam.length) parts.push(`toward spam: ${spam.map(t => t.token).join(', ')}`);
+    if (ham.length) parts.push(`toward not spam: ${ham.map(t => t.token).join(', ')}`);
+  }
+  return {
+    probability: result.probability,
+    ruleProbability: ruleProbability(result.score),
+    bayesProbability: result.bayes?.probability ?? null,
+    rules: rules.slice(0, limit),
+    tokens: { spam, ham },
+    summary: `${verdict} (p=${result.probability.toFixed(2)}): ${parts.join('; ')}.`,
   };
 }
@@ -0,0 +1,213 @@
+import { createHash } from 'node:crypto';
+import type { Database } from '../storage/db.js';
+import type { ParsedEmail } from './types.js';
+import {
+  scoreEmail,
+  spamTokenProbability,
+  spamTokens,
+  SPAM_MODEL_MIN_DOCS,
+  WARNING_THRESHOLD,
+  type SpamTokenContribution,
+  type SpamTokenStats,
+} from './spam-filter.js';
+
+export type SpamLabel = 'spam' | 'ham';
+
+export interface SpamTrainingResult {
+  /** Message-ID based key; re-training the same message replaces its earlier label. */
+  key: string;
+  label: SpamLabel;
+  /** The message's earlier label, when this call flipped it. */
+  previous?: SpamLabel;
+  tokens: number;
+  /** False when the message was already trained with this label. */
+  changed: boolean;
+}
+
+export interface SpamModelStats {
+  agentId: string;
+  /** Word tokens (and so learned senders and phrases) are in use. */
+  trained: boolean;
+  minDocs: number;
+  documents: {
+    feedback: { spam: number; ham: number };
+    log: { spam: number; ham: number };
+  };
+  tokens: number;
+  topSpamTokens: SpamTokenContribution[];
+  topHamTokens: SpamTokenContribution[];
+  lastFeedbackAt: string | null;
+}
+
+type DocCounts = SpamModelStats['documents'];
+
+/** Keeps `IN (...)` lists under SQLite's bound-parameter limit. */
+const LOOKUP_CHUNK = 500;
+/** spam_log rows taken per import; the rest follow on the next call. */
+const LOG_IMPORT_BATCH = 5000;
+
+function messageKey(email: ParsedEmail): string {
+  if (email.messageId) return `msg:${email.messageId.trim().toLowerCase()}`;
+  const digest = createHash('sha256')
+    .update(`${email.from[0]?.address ?? ''}\n${email.subject ?? ''}\n${email.date?.toISOString?.() ?? ''}`)
+    .digest('hex');
+  return `sha:${digest.slice(0, 32)}`;
+}
+
+/**
+ * Per-agent token model behind the adaptive spam score. Trained from
+ * report / not-spam feedback (words, senders, link hosts and rule ids)
+ * and from spam_log history (rule ids only), so it learns both what an
+ * agent's spam looks like and which rules misfire for it.
+ */
+export class SpamModel {
+  constructor(private db: Database) {}
+
+  /** Record report (`spam`) or not-spam (`ham`) feedback for a message. */
+  train(agentId: string, email: ParsedEmail, label: SpamLabel): SpamTrainingResult {
+    const key = messageKey(email);
+    const existing = this.db.prepare(
+      'SELECT label, tokens FROM spam_model_docs WHERE agent_id = ? AND doc_key = ?',
+    ).get(agentId, key) as { label: SpamLabel; tokens: string } | undefined;
+    if (existing?.label === label) {
+      return { key, label, tokens: (JSON.parse(existing.tokens) as string[]).length, changed: false };
+    }
+
+    const tokens = spamTokens(email, scoreEmail(email).matches.map(m => m.ruleId));
+    this.transaction(() => {
+      if (existing) this.adjust(agentId, JSON.parse(existing.tokens) as string[], existing.label, -1);
+      this.db.prepare(`
+        INSERT INTO spam_model_docs (agent_id, doc_key, label, source, tokens, created_at)
+        VALUES (?, ?, ?, 'feedback', ?, datetime('now'))
+        ON CONFLICT(agent_id, doc_key) DO UPDATE SET
+          label = excluded.label, source = 'feedback', tokens = excluded.tokens, created_at = excluded.created_at
+      `).run(agentId, key, label, JSON.stringify(tokens));
+      this.adjust(agentId, tokens, label, 1);
+    });
+    return { key, label, ...(existing ? { previous: existing.label } : {}), tokens: tokens.length, changed: true };
+  }
+
+  /**
+   * Learn rule-id tokens from spam_log verdicts not seen yet. Spam
+   * verdicts count as spam, clean scores below WARNING_THRESHOLD as
+   * ham; the uncertain middle is left out. Returns rows learned.
+   */
+  importSpamLog(agentId: string): number {
+    const mark = this.db.prepare(
+      "SELECT MAX(created_at) AS mark FROM spam_model_docs WHERE agent_id = ? AND source = 'log'",
+    ).get(agentId) as { mark: string | null };
+    const rows = this.db.prepare(`
+      SELECT id, score, flags, is_spam, created_at FROM spam_log
+      WHERE agent_id = ? AND created_at >= ?
+      ORDER BY created_at LIMIT ?
+    `).all(agentId, mark.mark ?? '', LOG_IMPORT_BATCH) as Array<{ id: string; score: number; flags: string; is_spam: number; created_at: string }>;
+    if (rows.length === 0) return 0;
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO spam_model_docs (agent_id, doc_key, label, source, tokens, created_at)
+      VALUES (?, ?, ?, 'log', ?, ?)
+    `);
+    let learned = 0;
+    this.transaction(() => {
+      for (const row of rows) {
+        const label: SpamLabel | null = row.is_spam ? 'spam' : row.score < WARNING_THRESHOLD ? 'ham' : null;
+        if (!label) continue;
+        let flags: string[] = [];
+        try { flags = JSON.parse(row.flags); } catch { /* keep the verdict, drop bad flags */ }
+        const tokens = flags.map(f => `rule:${f}`);
+        if (insert.run(agentId, `log:${row.id}`, label, JSON.stringify(tokens), row.created_at).changes === 0) continue;
+        this.adjust(agentId, tokens, label, 1);
+        learned++;
+      }
+    });
+    return learned;
+  }
+
+  /** Token stats for `scoreEmail`, after catching up on spam_log. */
+  forAgent(agentId: string): SpamTokenStats {
+    this.importSpamLog(agentId);
+    return this.tokenStats(agentId, this.documentCounts(agentId));
+  }
+
+  stats(agentId: string, limit = 10): SpamModelStats {
+    this.importSpamLog(agentId);
+    const documents = this.documentCounts(agentId);
+    const model = this.tokenStats(agentId, documents);
+    const { tokens } = this.db.prepare(
+      'SELECT COUNT(*) AS tokens FROM spam_model_tokens WHERE agent_id = ?',
+    ).get(agentId) as { tokens: number };
+    const { last } = this.db.prepare(
+      "SELECT MAX(created_at) AS last FROM spam_model_docs WHERE agent_id = ? AND source = 'feedback'",
+    ).get(agentId) as { last: string | null };
+
+    // Rank the most-seen tokens; a token seen a handful of times is noise.
+    const candidates = this.db.prepare(
+      'SELECT token, spam, ham FROM spam_model_tokens WHERE agent_id = ? ORDER BY spam + ham DESC LIMIT 2000',
+    ).all(agentId) as Array<{ token: string; spam: number; ham: number }>;
+    const scored = candidates
+      .map(c => ({ ...c, probability: spamTokenProbability(c.token, c, model) }))
+      .filter((c): c is SpamTokenContribution => c.probability !== null);
+    return {
+      agentId,
+      trained: documents.feedback.spam >= SPAM_MODEL_MIN_DOCS && documents.feedback.ham >= SPAM_MODEL_MIN_DOCS,
+      minDocs: SPAM_MODEL_MIN_DOCS,
+      documents,
+      tokens,
+      topSpamTokens: scored.filter(t => t.probability > 0.5).sort((a, b) => b.probability - a.probability).slice(0, limit),
+      topHamTokens: scored.filter(t => t.probability < 0.5).sort((a, b) => a.probability - b.probability).slice(0, limit),
+      lastFeedbackAt: last,
+    };
+  }
+
+  private tokenStats(agentId: string, docs: DocCounts): SpamTokenStats {
+    const db = this.db;
+    return {
+      docs: {
+        words: docs.feedback,
+        rules: { spam: docs.feedback.spam + docs.log.spam, ham: docs.feedback.ham + docs.log.ham },
+      },
+      counts(tokens) {
+        const out = new Map<string, { spam: number; ham: number }>();
+        for (let i = 0; i < tokens.length; i += LOOKUP_CHUNK) {
+          const chunk = tokens.slice(i, i + LOOKUP_CHUNK);
+          const rows = db.prepare(
+            `SELECT token, spam, ham FROM spam_model_tokens WHERE agent_id = ? AND token IN (${chunk.map(() => '?').join(', ')})`,
+          ).all(agentId, ...chunk) as Array<{ token: string; spam: number; ham: number }>;
+          for (const row of rows) out.set(row.token, { spam: row.spam, ham: row.ham });
+        }
+        return out;
+      },
+    };
+  }
+
+  private documentCounts(agentId: string): DocCounts {
+    const counts: DocCounts = { feedback: { spam: 0, ham: 0 }, log: { spam: 0, ham: 0 } };
+    const rows = this.db.prepare(
+      'SELECT source, label, COUNT(*) AS n FROM spam_model_docs WHERE agent_id = ? GROUP BY source, label',
+    ).all(agentId) as Array<{ source: keyof DocCounts; label: SpamLabel; n: number }>;
+    for (const row of rows) counts[row.source][row.label] = row.n;
+    return counts;
+  }
+
+  private adjust(agentId: string, tokens: string[], label: SpamLabel, delta: 1 | -1): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO spam_model_tokens (agent_id, token, spam, ham) VALUES (?, ?, ?, ?)
+      ON CONFLICT(agent_id, token) DO UPDATE SET spam = spam + excluded.spam, ham = ham + excluded.ham
+    `);
+    const spam = label === 'spam' ? delta : 0;
+    const ham = label === 'ham' ? delta : 0;
+    for (const token of tokens) upsert.run(agentId, token, spam, ham);
+    if (delta < 0) this.db.prepare('DELETE FROM spam_model_tokens WHERE agent_id = ? AND spam <= 0 AND ham <= 0').run(agentId);
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      fn();
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+}
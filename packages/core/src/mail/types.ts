@@ -1,3 +1,6 @@
+import type { EmailAuthResult } from './email-auth.js';
+import type { CalendarInvite } from './icalendar.js';
+
 export interface SendMailOptions {
   to: string | string[];
   subject: string;
@@ -12,6 +15,9 @@ export interface SendMailOptions {
   headers?: Record<string, string>;
   /** Display name for the From header, e.g. "Fola from Astrum" */
   fromName?: string;
+  /** iCalendar object sent as a `text/calendar; method=…` alternative
+   *  part (iMIP), e.g. an invite or an RSVP. */
+  icalEvent?: { method: string; content: string; filename?: string };
 }
 
 export interface Attachment {
@@ -42,6 +48,10 @@ export interface EmailEnvelope {
    *  them, we just weren't surfacing them. */
   cc?: AddressInfo[];
   bcc?: AddressInfo[];
+  /** `In-Reply-To` from ENVELOPE and `References` from a header
+   *  fetch — the inputs to header-based threading (threading/jwz.ts). */
+  inReplyTo?: string;
+  references?: string[];
   date: Date;
   flags: Set<string>;
   size: number;
@@ -66,6 +76,19 @@ export interface ParsedEmail {
   references?: string[];
   attachments: ParsedAttachment[];
   headers: Map<string, string>;
+  /** Raw header lines as received (`key` lower-cased, `line` is the
+   *  full `Name: value` text, possibly folded). `headers` is
+   *  mailparser's decoded view, which merges some headers (every
+   *  `List-*` becomes one `list` entry, `X-Priority` becomes
+   *  `priority`) — use these when the literal header matters. */
+  headerLines?: { key: string; line: string }[];
+  /** Verified SPF/DKIM/DMARC/ARC verdicts, when the raw message was
+   *  checked on arrival (`verifyEmailAuthentication`). The spam
+   *  filter prefers these to any Authentication-Results header. */
+  authentication?: EmailAuthResult;
+  /** Meeting invite data from a `text/calendar` part (iTIP METHOD and
+   *  VEVENTs), when the message carries one. */
+  calendar?: CalendarInvite;
 }
 
 export interface ParsedAttachment {
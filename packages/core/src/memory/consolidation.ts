@@ -0,0 +1,198 @@
+/**
+ * Memory consolidation — the planning half.
+ *
+ * Agents store the same fact many times in slightly different words,
+ * and a later `correction` does not by itself stop the entry it
+ * corrects from ranking. `planConsolidation()` looks at one agent's
+ * entries and decides:
+ *
+ * - **Supersessions** — an older entry is replaced by a newer one:
+ *   - a `correction` supersedes older non-correction entries about the
+ *     same thing (most of the shorter entry's terms appear in the
+ *     other);
+ *   - of two entries in one category that say the same thing except
+ *     one negates it ("Acme wants paper invoices" / "Acme does not
+ *     want paper invoices"), the newer supersedes the older.
+ * - **Merges** — clusters of near-duplicates in one category (Jaccard
+ *   similarity of their stemmed terms at or above a threshold, with
+ *   the same negation), folded into the newest entry.
+ *
+ * It is pure: `AgentMemoryManager.consolidate()` applies the plan,
+ * records a version history and can undo each change.
+ */
+
+import { tokenize } from './text-search.js';
+import type { AgentMemoryEntry } from './manager.js';
+
+export interface ConsolidationOptions {
+  /** Jaccard similarity at which two entries count as duplicates. Default 0.8. */
+  duplicateThreshold?: number;
+  /**
+   * Share of the shorter entry's terms a correction must have in common
+   * with an entry to supersede it. Default 0.6 (and at least 2 terms).
+   */
+  supersedeThreshold?: number;
+}
+
+export interface PlannedMerge {
+  keep: AgentMemoryEntry;
+  absorb: AgentMemoryEntry[];
+}
+
+export interface PlannedSupersession {
+  entry: AgentMemoryEntry;
+  by: AgentMemoryEntry;
+  reason: 'correction' | 'negation';
+}
+
+export interface ConsolidationPlan {
+  merges: PlannedMerge[];
+  supersessions: PlannedSupersession[];
+}
+
+/** Thrown when a consolidation change can't be found or undone; `statusCode` is for the API. */
+export class MemoryConsolidationError extends Error {
+  constructor(message: string, readonly statusCode: 404 | 409) {
+    super(message);
+    this.name = 'MemoryConsolidationError';
+  }
+}
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'neither', 'nor', 'none', 'nothing', 'nobody', 'cannot',
+  'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'wont', 'cant',
+  'shouldnt', 'wouldnt', 'couldnt', 'hasnt', 'havent', 'hadnt', 'mustnt',
+]);
+
+interface Profile {
+  entry: AgentMemoryEntry;
+  terms: Set<string>;
+  negated: boolean;
+}
+
+function profile(entry: AgentMemoryEntry): Profile {
+  const text = `${entry.title} ${entry.content}`;
+  // Polarity comes from the content alone: titles default to its first
+  // line, and counting that twice would cancel a negation out.
+  // Apostrophes are dropped so "doesn't" reads as one word.
+  const words = entry.content.toLowerCase().replace(/['’]/g, '').split(/[^a-z0-9]+/);
+  const negations = words.filter((w) => NEGATIONS.has(w)).length;
+  return { entry, terms: new Set(tokenize(text)), negated: negations % 2 === 1 };
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let n = 0;
+  for (const t of small) if (large.has(t)) n += 1;
+  return n;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = intersectionSize(a, b);
+  const union = a.size + b.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+const newestFirst = (a: AgentMemoryEntry, b: AgentMemoryEntry) =>
+  b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id);
+
+/**
+ * Pairs of profiles whose Jaccard similarity can reach `threshold`,
+ * found by prefix filtering: with terms in a global rarest-first order,
+ * two sets at or above the threshold share a term among each set's
+ * first |set| − ⌈threshold·|set|⌉ + 1 terms. Avoids comparing every
+ * pair.
+ */
+function similarPairs(profiles: Profile[], threshold: number): [Profile, Profile][] {
+  const df = new Map<string, number>();
+  for (const p of profiles) for (const t of p.terms) df.set(t, (df.get(t) ?? 0) + 1);
+  const order = (a: string, b: string) => (df.get(a)! - df.get(b)!) || a.localeCompare(b);
+
+  const byPrefixTerm = new Map<string, number[]>();
+  const pairs: [Profile, Profile][] = [];
+  const seen = new Set<string>();
+  profiles.forEach((p, i) => {
+    const sorted = Array.from(p.terms).sort(order);
+    const prefix = sorted.slice(0, sorted.length - Math.ceil(threshold * sorted.length) + 1);
+    for (const t of prefix) {
+      const others = byPrefixTerm.get(t) ?? [];
+      for (const j of others) {
+        const key = `${j}:${i}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        if (jaccard(profiles[j].terms, p.terms) >= threshold) pairs.push([profiles[j], p]);
+      }
+      others.push(i);
+      byPrefixTerm.set(t, others);
+    }
+  });
+  return pairs;
+}
+
+/** Decide which of one agent's entries to supersede and which to merge. */
+export function planConsolidation(entries: AgentMemoryEntry[], options: ConsolidationOptions = {}): ConsolidationPlan {
+  const duplicateThreshold = options.duplicateThreshold ?? 0.8;
+  const supersedeThreshold = options.supersedeThreshold ?? 0.6;
+  const live = entries.filter((e) => !e.supersededBy).map(profile).filter((p) => p.terms.size > 0);
+  const supersessions: PlannedSupersession[] = [];
+  const superseded = new Set<string>();
+
+  // Corrections first: they are the explicit signal.
+  const corrections = live.filter((p) => p.entry.category === 'correction').sort((a, b) => newestFirst(a.entry, b.entry));
+  for (const c of corrections) {
+    for (const p of live) {
+      if (p.entry.category === 'correction' || superseded.has(p.entry.id)) continue;
+      if (p.entry.createdAt >= c.entry.createdAt) continue;
+      const shared = intersectionSize(c.terms, p.terms);
+      if (shared >= 2 && shared / Math.min(c.terms.size, p.terms.size) >= supersedeThreshold) {
+        supersessions.push({ entry: p.entry, by: c.entry, reason: 'correction' });
+        superseded.add(p.entry.id);
+      }
+    }
+  }
+
+  const byCategory = new Map<string, Profile[]>();
+  for (const p of live) {
+    if (superseded.has(p.entry.id)) continue;
+    byCategory.set(p.entry.category, [...(byCategory.get(p.entry.category) ?? []), p]);
+  }
+
+  const merges: PlannedMerge[] = [];
+  for (const group of byCategory.values()) {
+    const duplicates: [Profile, Profile][] = [];
+    for (const [a, b] of similarPairs(group, duplicateThreshold)) {
+      if (a.negated === b.negated) { duplicates.push([a, b]); continue; }
+      // Same statement, opposite polarity: the newer one wins.
+      const [older, newer] = newestFirst(a.entry, b.entry) < 0 ? [b, a] : [a, b];
+      if (superseded.has(older.entry.id)) continue;
+      supersessions.push({ entry: older.entry, by: newer.entry, reason: 'negation' });
+      superseded.add(older.entry.id);
+    }
+
+    // Union-find over the duplicate pairs that survived.
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+    for (const [a, b] of duplicates) {
+      if (superseded.has(a.entry.id) || superseded.has(b.entry.id)) continue;
+      for (const id of [a.entry.id, b.entry.id]) if (!parent.has(id)) parent.set(id, id);
+      parent.set(find(a.entry.id), find(b.entry.id));
+    }
+    const clusters = new Map<string, AgentMemoryEntry[]>();
+    for (const p of group) {
+      if (!parent.has(p.entry.id)) continue;
+      const root = find(p.entry.id);
+      clusters.set(root, [...(clusters.get(root) ?? []), p.entry]);
+    }
+    for (const cluster of clusters.values()) {
+      const [keep, ...absorb] = cluster.sort(newestFirst);
+      merges.push({ keep, absorb });
+    }
+  }
+
+  return { merges, supersessions };
+}
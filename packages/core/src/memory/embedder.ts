@@ -0,0 +1,312 @@
+/**
+ * Text embedders for semantic memory recall.
+ *
+ * An `Embedder` turns text into fixed-length vectors whose cosine
+ * similarity tracks meaning. `AgentMemoryManager` stores one vector per
+ * memory entry next to its `agent_memory` row and fuses cosine ranking
+ * with the BM25F index (see manager.ts).
+ *
+ * Two kinds ship here:
+ * - `HashedNgramEmbedder` — the default. CPU-only, no model download,
+ *   deterministic. Word stems, word bigrams and character trigrams are
+ *   hashed into a fixed number of dimensions (the "hashing trick"), so
+ *   word forms and misspellings land near each other. A small built-in
+ *   concept table maps common business synonyms and phrases ("refund",
+ *   "money back", "reimburse") onto shared features. It is not a
+ *   language model: synonyms outside that table only match through an
+ *   HTTP provider.
+ * - `HttpEmbedder` — any OpenAI-compatible `/embeddings` endpoint
+ *   (OpenAI, Azure, vLLM, LM Studio, …) or Ollama's `/api/embed`.
+ *
+ * `createEmbedder()` builds one from `config.memory.embedder`.
+ */
+
+import { createHash } from 'node:crypto';
+import { stem, tokenize } from './text-search.js';
+
+export interface Embedder {
+  /**
+   * Identifies the model and its settings. Vectors are stored with it,
+   * and a vector from another id is never compared — it is re-embedded
+   * by a backfill instead.
+   */
+  readonly id: string;
+  /** Cosine similarity below which a hit counts as unrelated. */
+  readonly minSimilarity: number;
+  /** One L2-normalised vector per input text, in order. */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export type MemoryEmbedderConfig =
+  | { provider: 'local'; dimensions?: number }
+  | {
+      provider: 'openai' | 'ollama' | 'http';
+      /** Endpoint; defaults to OpenAI's or a local Ollama's. Required for `http`. */
+      url?: string;
+      model?: string;
+      /** Bearer token; `openai` falls back to `config.openaiApiKey`. */
+      apiKey?: string;
+      /** Requested vector size, for models that support shortening. */
+      dimensions?: number;
+      minSimilarity?: number;
+      /** Texts per request. */
+      batchSize?: number;
+    };
+
+// ─── Vector helpers ─────────────────────────────────────
+
+/** Cosine similarity; 0 when the lengths differ or either vector is zero. */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+}
+
+function normalize(v: Float32Array): Float32Array {
+  let norm = 0;
+  for (const x of v) norm += x * x;
+  if (norm === 0) return v;
+  const scale = 1 / Math.sqrt(norm);
+  for (let i = 0; i < v.length; i++) v[i] *= scale;
+  return v;
+}
+
+// ─── Hashed n-gram embedder ─────────────────────────────
+
+/**
+ * Synonym groups for the local embedder. Each word or phrase in a group
+ * adds the group's concept feature, so "refund" and "money back" share
+ * a dimension. Entries are stemmed when the table is built.
+ */
+const CONCEPTS: Record<string, string[]> = {
+  refund: ['refund', 'reimburse', 'reimbursement', 'money back', 'chargeback', 'repay', 'pay back', 'credit back'],
+  cancel: ['cancel', 'cancellation', 'terminate', 'termination', 'discontinue', 'opt out', 'unsubscribe'],
+  price: ['price', 'pricing', 'cost', 'fee', 'rate', 'quote', 'how much'],
+  invoice: ['invoice', 'bill', 'billing', 'receipt', 'statement'],
+  payment: ['pay', 'payment', 'paid', 'remit', 'remittance', 'wire', 'transfer'],
+  money: ['money', 'cash', 'fund', 'funds', 'dollar', 'euro', 'budget', 'spend', 'expense'],
+  discount: ['discount', 'coupon', 'promo', 'promo code', 'voucher', 'rebate', 'deal'],
+  meeting: ['meeting', 'meet', 'call', 'sync', 'appointment', 'catch up', 'standup'],
+  schedule: ['schedule', 'reschedule', 'book', 'booking', 'calendar', 'slot', 'availability'],
+  deadline: ['deadline', 'due', 'due date', 'cutoff', 'by end of'],
+  late: ['late', 'delay', 'delayed', 'overdue', 'behind', 'slip'],
+  urgent: ['urgent', 'asap', 'immediately', 'emergency', 'priority', 'right away'],
+  complaint: ['complaint', 'complain', 'unhappy', 'dissatisfied', 'angry', 'upset', 'frustrated', 'annoyed'],
+  problem: ['problem', 'issue', 'bug', 'error', 'fault', 'broken', 'defect', 'outage', 'failure', 'not working'],
+  fix: ['fix', 'repair', 'resolve', 'patch', 'solve', 'workaround'],
+  customer: ['customer', 'client', 'buyer', 'account', 'subscriber'],
+  order: ['order', 'purchase', 'buy', 'bought'],
+  shipping: ['ship', 'shipping', 'shipment', 'delivery', 'deliver', 'dispatch', 'tracking', 'parcel', 'package'],
+  return: ['return', 'exchange', 'send back', 'rma'],
+  contract: ['contract', 'agreement', 'terms', 'sla', 'renewal', 'renew'],
+  request: ['ask', 'request', 'want', 'need', 'require', 'would like', 'demand'],
+  prefer: ['prefer', 'preference', 'like', 'favorite', 'favourite', 'love', 'rather'],
+  dislike: ['dislike', 'hate', 'avoid', 'never'],
+  confirm: ['confirm', 'approve', 'accept', 'agree', 'sign off', 'go ahead'],
+  reject: ['reject', 'decline', 'deny', 'refuse', 'turn down'],
+  document: ['document', 'doc', 'file', 'attachment', 'pdf', 'report', 'spreadsheet'],
+  email: ['email', 'mail', 'message', 'inbox', 'newsletter'],
+  phone: ['phone', 'mobile', 'cell', 'telephone', 'sms', 'text message'],
+  login: ['password', 'credential', 'login', 'log in', 'sign in', 'passcode', 'otp', 'verification code'],
+  manager: ['manager', 'boss', 'supervisor', 'lead', 'director', 'head of'],
+  colleague: ['employee', 'staff', 'colleague', 'teammate', 'coworker', 'team'],
+  time_off: ['vacation', 'holiday', 'leave', 'pto', 'time off', 'out of office', 'ooo'],
+  help: ['help', 'support', 'assist', 'assistance', 'helpdesk'],
+  address: ['address', 'location', 'office', 'street', 'postcode', 'zip'],
+};
+
+/** Stemmed word or phrase → concept names. */
+const CONCEPT_INDEX: Map<string, string[]> = (() => {
+  const index = new Map<string, string[]>();
+  for (const [concept, phrases] of Object.entries(CONCEPTS)) {
+    for (const phrase of phrases) {
+      const key = phrase.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem).join(' ');
+      index.set(key, [...(index.get(key) ?? []), concept]);
+    }
+  }
+  return index;
+})();
+
+/** Longest phrase in the concept table, in words. */
+const MAX_CONCEPT_WORDS = Math.max(...Array.from(CONCEPT_INDEX.keys(), k => k.split(' ').length));
+
+/** 32-bit FNV-1a. */
+function fnv1a(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * The default, CPU-only embedder: feature hashing of word stems (weight
+ * 1), word bigrams (0.5), character trigrams of each word (0.3 spread
+ * over the word's trigrams) and concept-table hits (1.5), with
+ * sub-linear term frequency. A second hash picks each feature's sign so
+ * collisions cancel out on average.
+ */
+export class HashedNgramEmbedder implements Embedder {
+  readonly id: string;
+  readonly minSimilarity = 0.2;
+
+  constructor(readonly dimensions = 512) {
+    if (!Number.isInteger(dimensions) || dimensions < 16) throw new Error('dimensions must be an integer of at least 16');
+    this.id = `hashed-ngram-v1:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(t => this.embedOne(t));
+  }
+
+  embedOne(text: string): Float32Array {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => features.set(feature, (features.get(feature) ?? 0) + weight);
+
+    const stems = tokenize(text);
+    for (let i = 0; i < stems.length; i++) {
+      add(`w:${stems[i]}`, 1);
+      if (i + 1 < stems.length) add(`b:${stems[i]} ${stems[i + 1]}`, 0.5);
+      const padded = `<${stems[i]}>`;
+      if (padded.length > 3) {
+        const grams = padded.length - 2;
+        for (let j = 0; j < grams; j++) add(`c:${padded.slice(j, j + 3)}`, 0.3 / grams);
+      }
+    }
+
+    // Concepts match on all words (stop words included: "pay back").
+    const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem);
+    for (let i = 0; i < words.length; i++) {
+      for (let n = 1; n <= MAX_CONCEPT_WORDS && i + n <= words.length; n++) {
+        for (const concept of CONCEPT_INDEX.get(words.slice(i, i + n).join(' ')) ?? []) add(`k:${concept}`, 1.5);
+      }
+    }
+
+    const vector = new Float32Array(this.dimensions);
+    for (const [feature, weight] of features) {
+      const h = fnv1a(feature);
+      const sign = fnv1a(`±${feature}`) & 1 ? 1 : -1;
+      vector[h % this.dimensions] += sign * (weight > 1 ? 1 + Math.log(weight) : weight);
+    }
+    return normalize(vector);
+  }
+}
+
+// ─── HTTP embedder ──────────────────────────────────────
+
+const DEFAULT_URLS = {
+  openai: 'https://api.openai.com/v1/embeddings',
+  ollama: 'http://127.0.0.1:11434/api/embed',
+} as const;
+
+const DEFAULT_MODELS = {
+  openai: 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+} as const;
+
+export interface HttpEmbedderOptions {
+  url: string;
+  model: string;
+  /** `openai`: `{ model, input }` → `data[].embedding`. `ollama`: `{ model, input }` → `embeddings[]`. */
+  format?: 'openai' | 'ollama';
+  apiKey?: string;
+  dimensions?: number;
+  minSimilarity?: number;
+  batchSize?: number;
+  timeoutMs?: number;
+  /** For tests. */
+  fetch?: typeof fetch;
+}
+
+/** Embeddings from an HTTP provider, batched, with a per-request timeout. */
+export class HttpEmbedder implements Embedder {
+  readonly id: string;
+  readonly minSimilarity: number;
+  private readonly format: 'openai' | 'ollama';
+  private readonly batchSize: number;
+  private readonly doFetch: typeof fetch;
+
+  constructor(private readonly options: HttpEmbedderOptions) {
+    if (!options.url) throw new Error('Embedder url is required');
+    if (!options.model) throw new Error('Embedder model is required');
+    this.format = options.format ?? 'openai';
+    this.minSimilarity = options.minSimilarity ?? 0.3;
+    this.batchSize = Math.max(1, options.batchSize ?? 64);
+    this.doFetch = options.fetch ?? fetch;
+    // The endpoint is part of the id: the same model name on two servers
+    // need not be the same model.
+    const endpoint = createHash('sha256').update(options.url).digest('hex').slice(0, 8);
+    this.id = `http:${this.format}:${options.model}${options.dimensions ? `:${options.dimensions}` : ''}@${endpoint}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const out: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      out.push(...await this.request(texts.slice(i, i + this.batchSize)));
+    }
+    return out;
+  }
+
+  private async request(input: string[]): Promise<Float32Array[]> {
+    const { url, model, apiKey, dimensions, timeoutMs = 15_000 } = this.options;
+    const res = await this.doFetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, input, ...(dimensions ? { dimensions } : {}) }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!res.ok) {
+      const detail = (await res.text().catch(() => '')).slice(0, 200);
+      throw new Error(`Embedding request failed (${res.status})${detail ? `: ${detail}` : ''}`);
+    }
+    const data = await res.json() as any;
+    const vectors: unknown = this.format === 'ollama'
+      ? data?.embeddings
+      : Array.isArray(data?.data)
+        ? [...data.data].sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0)).map((d: any) => d.embedding)
+        : undefined;
+    if (!Array.isArray(vectors) || vectors.length !== input.length || !vectors.every(v => Array.isArray(v) && v.length > 0)) {
+      throw new Error('Embedding response did not contain one vector per input');
+    }
+    return vectors.map((v: number[]) => normalize(Float32Array.from(v)));
+  }
+}
+
+/**
+ * Build the embedder `config.memory.embedder` describes. No config (or
+ * `provider: 'local'`) gives the hashed n-gram embedder.
+ */
+export function createEmbedder(config?: MemoryEmbedderConfig, fallbackApiKey?: string): Embedder {
+  if (!config || config.provider === 'local') return new HashedNgramEmbedder(config?.dimensions);
+  if (config.provider === 'http' && !config.url) throw new Error('memory.embedder.url is required for the http provider');
+  const preset = config.provider === 'http' ? undefined : config.provider;
+  return new HttpEmbedder({
+    url: config.url ?? DEFAULT_URLS[preset!],
+    model: config.model ?? (preset ? DEFAULT_MODELS[preset] : ''),
+    format: config.provider === 'ollama' ? 'ollama' : 'openai',
+    apiKey: config.apiKey ?? (config.provider === 'openai' ? fallbackApiKey : undefined),
+    dimensions: config.dimensions,
+    minSimilarity: config.minSimilarity,
+    batchSize: config.batchSize,
+  });
+}
+
+/** Vector ↔ SQLite BLOB. */
+export function vectorToBlob(v: Float32Array): Uint8Array {
+  return new Uint8Array(v.buffer.slice(v.byteOffset, v.byteOffset + v.byteLength));
+}
+
+export function blobToVector(blob: Uint8Array): Float32Array {
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
@@ -1,6 +1,7 @@
 export {
   AgentMemoryManager,
   MEMORY_CATEGORIES,
+  MEMORY_SEARCH_MODES,
 } from './manager.js';
 export type {
   AgentMemoryEntry,
@@ -11,9 +12,56 @@ export type {
   CreateMemoryInput,
   UpdateMemoryInput,
   MemoryQueryOptions,
+  MemorySearchMode,
+  AgentMemoryManagerOptions,
+  EmbeddingBackfillResult,
+  ConsolidateOptions,
+  ConsolidationReport,
+  MemoryConsolidationChange,
+  MemoryFilter,
+  MemoryImportOptions,
+  MemoryImportResult,
 } from './manager.js';
+export {
+  MemoryConsolidationError,
+  planConsolidation,
+} from './consolidation.js';
+export type {
+  ConsolidationOptions,
+  ConsolidationPlan,
+} from './consolidation.js';
+export {
+  MEMORY_SPACE_ACCESS,
+  MemorySpaceError,
+} from './spaces.js';
+export type {
+  MemorySpace,
+  MemorySpaceAccess,
+  MemorySpaceGrant,
+} from './spaces.js';
+export {
+  MEMORY_CONFLICT_STRATEGIES,
+  formatMemoryJsonl,
+  parseMemoryJsonl,
+  parseMemoryRecord,
+} from './portable.js';
+export type {
+  MemoryConflictStrategy,
+  MemoryExportRecord,
+} from './portable.js';
 export {
   MemorySearchIndex,
   stem,
   tokenize,
 } from './text-search.js';
+export {
+  HashedNgramEmbedder,
+  HttpEmbedder,
+  createEmbedder,
+  cosineSimilarity,
+} from './embedder.js';
+export type {
+  Embedder,
+  HttpEmbedderOptions,
+  MemoryEmbedderConfig,
+} from './embedder.js';
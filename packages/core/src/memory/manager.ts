@@ -18,13 +18,35 @@
  *   block for injection into an agent's prompt (or a voice session).
  * - Pruning of expired / low-confidence entries.
  *
- * Design: an in-memory `Map` + BM25F search index fronts the
- * `agent_memory` SQLite table. Reads hit memory; writes update both.
+ * Design: the `agent_memory` SQLite table is the source of truth. An
+ * agent's entries (and their BM25F index) are loaded into RAM on first
+ * access and kept in an LRU cache bounded by agent and entry budgets;
+ * cold agents are evicted and reload on their next access. Reads of a
+ * cached agent hit memory; writes update both. Keyword ranking can run
+ * in an SQLite FTS5 table instead (`fullTextSearch: 'fts5'`).
+ *
+ * Text queries can also rank by meaning: every entry gets an embedding
+ * (see embedder.ts) stored in `agent_memory_vectors`, and the default
+ * `hybrid` mode fuses the BM25F and cosine rankings with Reciprocal Rank
+ * Fusion, so "customer wants a refund" finds "Acme asked for their money
+ * back" without losing exact-keyword hits.
  */
 
 import { randomUUID } from 'node:crypto';
 import type { Database } from '../storage/db.js';
-import { MemorySearchIndex } from './text-search.js';
+import {
+  FIELD_WEIGHT_CONTENT, FIELD_WEIGHT_TAGS, FIELD_WEIGHT_TITLE, MemorySearchIndex, STOP_WORDS,
+} from './text-search.js';
+import {
+  MemoryConsolidationError, planConsolidation,
+  type ConsolidationOptions, type PlannedMerge, type PlannedSupersession,
+} from './consolidation.js';
+import {
+  MemorySpaceError, normalizeSpaceName, spaceFromOwnerId, spaceOwnerId,
+  type MemorySpace, type MemorySpaceAccess, type MemorySpaceGrant,
+} from './spaces.js';
+import { toExportRecord, type MemoryConflictStrategy, type MemoryExportRecord } from './portable.js';
+import { HashedNgramEmbedder, blobToVector, cosineSimilarity, vectorToBlob, type Embedder } from './embedder.js';
 
 function sj(v: string | null | undefined, fb: any = {}): any {
   if (!v) return fb;
@@ -110,6 +132,16 @@ export interface AgentMemoryEntry {
   expiresAt?: string;
   tags: string[];
   metadata: Record<string, any>;
+  /**
+   * Id of the newer entry that replaces this one (set by consolidation).
+   * Superseded entries rank far lower in search and are left out of
+   * `generateMemoryContext()`.
+   */
+  supersededBy?: string;
+  /** The shared space this entry belongs to; absent for personal memory. */
+  space?: string;
+  /** For a shared-space entry, the agent that wrote it. */
+  authoredBy?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -123,7 +155,7 @@ export interface MemoryStats {
 }
 
 /** Input shape for createMemory — id, timestamps, accessCount, and some fields have defaults. */
-export type CreateMemoryInput = Omit<AgentMemoryEntry, 'id' | 'createdAt' | 'updatedAt' | 'accessCount' | 'confidence' | 'tags' | 'metadata' | 'lastAccessedAt' | 'expiresAt'> & {
+export type CreateMemoryInput = Omit<AgentMemoryEntry, 'id' | 'createdAt' | 'updatedAt' | 'accessCount' | 'confidence' | 'tags' | 'metadata' | 'lastAccessedAt' | 'expiresAt' | 'supersededBy' | 'space'> & {
   confidence?: number;
   tags?: string[];
   metadata?: Record<string, any>;
@@ -132,7 +164,7 @@ export type CreateMemoryInput = Omit<AgentMemoryEntry, 'id' | 'createdAt' | 'upd
 };
 
 /** Input shape for updateMemory — partial updates merged with existing entry. */
-export type UpdateMemoryInput = Partial<Omit<AgentMemoryEntry, 'id' | 'agentId' | 'createdAt'>>;
+export type UpdateMemoryInput = Partial<Omit<AgentMemoryEntry, 'id' | 'agentId' | 'createdAt' | 'space' | 'authoredBy'>>;
 
 /** Query options for filtering memory entries. */
 export interface MemoryQueryOptions {
@@ -141,7 +173,108 @@ export interface MemoryQueryOptions {
   importance?: string;
   source?: string;
   query?: string;
+  /** How `query` is matched; defaults to the manager's `defaultMode`. */
+  mode?: MemorySearchMode;
   limit?: number;
+  /** Also search the shared spaces the agent can read. */
+  includeShared?: boolean;
+}
+
+/**
+ * - `lexical` — BM25F keyword search only.
+ * - `semantic` — cosine similarity of embeddings only.
+ * - `hybrid` — both, fused with Reciprocal Rank Fusion.
+ */
+export type MemorySearchMode = 'lexical' | 'semantic' | 'hybrid';
+
+export const MEMORY_SEARCH_MODES: readonly MemorySearchMode[] = ['lexical', 'semantic', 'hybrid'];
+
+export interface AgentMemoryManagerOptions {
+  /** Embeds entries for semantic recall. Default: the CPU-only `HashedNgramEmbedder`. */
+  embedder?: Embedder;
+  /** Mode used when a query does not name one. Default `hybrid`. */
+  defaultMode?: MemorySearchMode;
+  /**
+   * Agents whose memory is held in RAM at once (default 32). Agents load
+   * on first access; the least recently used are evicted past either
+   * budget.
+   */
+  maxCachedAgents?: number;
+  /** Entries held in RAM across cached agents (default 20,000). */
+  maxCachedEntries?: number;
+  /**
+   * Where keyword ranking runs: `memory` (default) builds a BM25F index
+   * per cached agent; `fts5` ranks in an SQLite FTS5 table instead, so
+   * cached agents carry no index and a cold query needs no index build.
+   */
+  fullTextSearch?: 'memory' | 'fts5';
+}
+
+export interface ConsolidateOptions extends ConsolidationOptions {
+  /** Report what would change without writing anything. */
+  dryRun?: boolean;
+}
+
+/** What one consolidation pass did (or, for a dry run, would do). */
+export interface ConsolidationReport {
+  /** Groups this pass's changes; null for a dry run. */
+  runId: string | null;
+  dryRun: boolean;
+  merges: { changeId: string | null; agentId: string; keptId: string; mergedIds: string[] }[];
+  supersessions: {
+    changeId: string | null;
+    agentId: string;
+    supersededId: string;
+    supersededBy: string;
+    reason: 'correction' | 'negation';
+  }[];
+}
+
+/** One recorded consolidation change, with the entries as they were before it. */
+export interface MemoryConsolidationChange {
+  id: string;
+  runId: string;
+  agentId: string;
+  kind: 'merge' | 'supersede';
+  detail: Record<string, any>;
+  createdAt: string;
+  undoneAt?: string;
+  /** Snapshots of every entry the change touched, taken before it. */
+  versions: AgentMemoryEntry[];
+}
+
+/** Which of an agent's entries an export or transfer covers. */
+export interface MemoryFilter {
+  category?: string;
+  /** Entries carrying this tag. */
+  tag?: string;
+  /** Entries matching this text query (hybrid recall), best first. */
+  query?: string;
+  limit?: number;
+}
+
+export interface MemoryImportOptions {
+  /**
+   * What to do with a record matching an entry the agent already has
+   * (same id, or the same content). Default `skip`.
+   */
+  onConflict?: MemoryConflictStrategy;
+}
+
+export interface MemoryImportResult {
+  /** New entries written (including `keep-both` copies). */
+  imported: number;
+  overwritten: number;
+  skipped: number;
+  /** Ids of the written entries, in record order. */
+  ids: string[];
+}
+
+export interface EmbeddingBackfillResult {
+  /** Entries that were missing a vector for the current embedder. */
+  total: number;
+  embedded: number;
+  failed: number;
 }
 
 // ─── Importance Weight Map ──────────────────────────────
@@ -153,19 +286,80 @@ const IMPORTANCE_WEIGHT: Record<MemoryImportance, number> = {
   low: 1,
 };
 
+/** Score multiplier for superseded entries in text search. */
+const SUPERSEDED_WEIGHT = 0.1;
+
+/** Reciprocal Rank Fusion constant (Cormack et al.); damps the head of each list. */
+const RRF_K = 60;
+
+/** Entries embedded per embedder call during a backfill. */
+const BACKFILL_BATCH = 32;
+
+const INSERT_SQL = `INSERT INTO agent_memory (id, agent_id, category, title, content, source, importance, confidence, access_count, last_accessed_at, expires_at, tags, metadata, superseded_by, authored_by, created_at, updated_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+function insertParams(entry: AgentMemoryEntry): unknown[] {
+  return [
+    entry.id, entry.agentId, entry.category, entry.title, entry.content,
+    entry.source, entry.importance, entry.confidence, entry.accessCount,
+    entry.lastAccessedAt || null, entry.expiresAt || null,
+    JSON.stringify(entry.tags), JSON.stringify(entry.metadata),
+    entry.supersededBy || null, entry.authoredBy || null, entry.createdAt, entry.updatedAt,
+  ];
+}
+
+const UPDATE_SQL = `UPDATE agent_memory SET
+    category = ?, title = ?, content = ?, source = ?,
+    importance = ?, confidence = ?, access_count = ?,
+    last_accessed_at = ?, expires_at = ?, tags = ?,
+    metadata = ?, superseded_by = ?, updated_at = ?
+  WHERE id = ?`;
+
+function updateParams(entry: AgentMemoryEntry): unknown[] {
+  return [
+    entry.category, entry.title, entry.content, entry.source,
+    entry.importance, entry.confidence, entry.accessCount,
+    entry.lastAccessedAt || null, entry.expiresAt || null,
+    JSON.stringify(entry.tags), JSON.stringify(entry.metadata),
+    entry.supersededBy || null, entry.updatedAt, entry.id,
+  ];
+}
+
+/** The text an entry is embedded from. */
+function embeddingText(entry: AgentMemoryEntry): string {
+  return [entry.title, entry.content, entry.tags.join(' ')].filter(Boolean).join('\n');
+}
+
 // ─── Agent Memory Manager ───────────────────────────────
 
+/** One agent's memory as held in RAM while the agent is cached. */
+interface AgentMemoryState {
+  memories: Map<string, AgentMemoryEntry>;
+  /** BM25F index over `memories`; absent when ranking runs in FTS5. */
+  searchIndex?: MemorySearchIndex;
+  /** memoryId → embedding from the current embedder */
+  vectors: Map<string, Float32Array>;
+}
+
 export class AgentMemoryManager {
-  private memories = new Map<string, AgentMemoryEntry>();
-  /** Per-agent index: agentId → Set of memory IDs for O(1) agent lookups */
-  private agentIndex = new Map<string, Set<string>>();
-  /** Full-text search index (BM25F + stemming + inverted index) */
-  private searchIndex = new MemorySearchIndex();
+  /** Cached agents in least- to most-recently-used order. */
+  private agents = new Map<string, AgentMemoryState>();
+  /** Entries held across every cached agent. */
+  private cachedEntries = 0;
+  private readonly embedder: Embedder;
+  private readonly defaultMode: MemorySearchMode;
+  private readonly maxCachedAgents: number;
+  private readonly maxCachedEntries: number;
+  private readonly fullTextSearch: 'memory' | 'fts5';
   private initialized = false;
 
-  constructor(private db: Database) {
+  constructor(private db: Database, options: AgentMemoryManagerOptions = {}) {
+    this.embedder = options.embedder ?? new HashedNgramEmbedder();
+    this.defaultMode = options.defaultMode ?? 'hybrid';
+    this.maxCachedAgents = Math.max(1, options.maxCachedAgents ?? 32);
+    this.maxCachedEntries = Math.max(1, options.maxCachedEntries ?? 20_000);
+    this.fullTextSearch = options.fullTextSearch ?? 'memory';
     this.ensureTable();
-    this.loadFromDb();
   }
 
   // ─── Database layer ─────────────────────────────────
@@ -193,9 +387,93 @@ export class AgentMemoryManager {
     `);
     try { this.db.exec('CREATE INDEX IF NOT EXISTS idx_agent_memory_agent ON agent_memory(agent_id)'); } catch { /* ignore */ }
     try { this.db.exec('CREATE INDEX IF NOT EXISTS idx_agent_memory_category ON agent_memory(category)'); } catch { /* ignore */ }
+    try { this.db.exec('ALTER TABLE agent_memory ADD COLUMN superseded_by TEXT'); } catch { /* already there */ }
+    try { this.db.exec('ALTER TABLE agent_memory ADD COLUMN authored_by TEXT'); } catch { /* already there */ }
+    // Shared spaces (see spaces.ts) and which agents may read / write them.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agent_memory_spaces (
+        name TEXT PRIMARY KEY,
+        description TEXT NOT NULL DEFAULT '',
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS agent_memory_space_grants (
+        space TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        access TEXT NOT NULL,
+        granted_at TEXT NOT NULL,
+        PRIMARY KEY (space, agent_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_agent_memory_space_grants_agent ON agent_memory_space_grants(agent_id);
+    `);
+    // Consolidation history: one row per merge / supersession, plus a
+    // snapshot of every entry it touched so it can be undone.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agent_memory_changes (
+        id TEXT PRIMARY KEY,
+        run_id TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        detail TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        undone_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_agent_memory_changes_agent ON agent_memory_changes(agent_id, created_at);
+      CREATE TABLE IF NOT EXISTS agent_memory_versions (
+        change_id TEXT NOT NULL,
+        memory_id TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        PRIMARY KEY (change_id, memory_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_agent_memory_versions_memory ON agent_memory_versions(memory_id);
+    `);
+    // One vector per entry, tagged with the embedder that produced it.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agent_memory_vectors (
+        memory_id TEXT PRIMARY KEY,
+        agent_id TEXT NOT NULL,
+        embedder TEXT NOT NULL,
+        dims INTEGER NOT NULL,
+        vector BLOB NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+    try { this.db.exec('CREATE INDEX IF NOT EXISTS idx_agent_memory_vectors_agent ON agent_memory_vectors(agent_id)'); } catch { /* ignore */ }
+    if (this.fullTextSearch === 'fts5') this.ensureFtsTable();
     this.initialized = true;
   }
 
+  /**
+   * External-content FTS5 index over agent_memory, kept in sync by
+   * triggers. The triggers stay once created, so switching FTS5 off and
+   * on again never leaves a stale index; the first creation indexes the
+   * existing rows.
+   */
+  private ensureFtsTable(): void {
+    const exists = this.db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'agent_memory_fts'").get();
+    if (exists) return;
+    this.db.exec(`
+      CREATE VIRTUAL TABLE agent_memory_fts USING fts5(
+        title, content, tags, agent_id,
+        content='agent_memory', content_rowid='rowid', tokenize='porter unicode61'
+      );
+      CREATE TRIGGER IF NOT EXISTS agent_memory_fts_ai AFTER INSERT ON agent_memory BEGIN
+        INSERT INTO agent_memory_fts(rowid, title, content, tags, agent_id)
+        VALUES (new.rowid, new.title, new.content, new.tags, new.agent_id);
+      END;
+      CREATE TRIGGER IF NOT EXISTS agent_memory_fts_ad AFTER DELETE ON agent_memory BEGIN
+        INSERT INTO agent_memory_fts(agent_memory_fts, rowid, title, content, tags, agent_id)
+        VALUES ('delete', old.rowid, old.title, old.content, old.tags, old.agent_id);
+      END;
+      CREATE TRIGGER IF NOT EXISTS agent_memory_fts_au AFTER UPDATE OF title, content, tags ON agent_memory BEGIN
+        INSERT INTO agent_memory_fts(agent_memory_fts, rowid, title, content, tags, agent_id)
+        VALUES ('delete', old.rowid, old.title, old.content, old.tags, old.agent_id);
+        INSERT INTO agent_memory_fts(rowid, title, content, tags, agent_id)
+        VALUES (new.rowid, new.title, new.content, new.tags, new.agent_id);
+      END;
+      INSERT INTO agent_memory_fts(agent_memory_fts) VALUES ('rebuild');
+    `);
+  }
+
   /** Run a write statement, swallowing errors with a log (memory must never crash a caller). */
   private dbRun(sql: string, params: unknown[]): void {
     try {
@@ -214,46 +492,207 @@ export class AgentMemoryManager {
     }
   }
 
-  private loadFromDb(): void {
-    const rows = this.dbAll('SELECT * FROM agent_memory');
-    for (const r of rows) {
+  // ─── Agent cache ────────────────────────────────────
+
+  /**
+   * An agent's memory, loaded from the database on first access and
+   * marked most recently used. Loading may evict colder agents.
+   */
+  private agentState(agentId: string): AgentMemoryState {
+    const cached = this.agents.get(agentId);
+    if (cached) {
+      this.agents.delete(agentId);
+      this.agents.set(agentId, cached);
+      return cached;
+    }
+
+    const state: AgentMemoryState = {
+      memories: new Map(),
+      searchIndex: this.fullTextSearch === 'memory' ? new MemorySearchIndex() : undefined,
+      vectors: new Map(),
+    };
+    for (const r of this.dbAll('SELECT * FROM agent_memory WHERE agent_id = ? ORDER BY rowid', [agentId])) {
       try {
         const entry = this.rowToEntry(r);
-        this.memories.set(entry.id, entry);
-        this.indexAdd(entry.agentId, entry.id);
-        this.searchIndex.addDocument(entry.id, entry);
+        state.memories.set(entry.id, entry);
+        state.searchIndex?.addDocument(entry.id, entry);
       } catch { /* skip malformed row */ }
     }
+    // Vectors from another embedder are left for a backfill to replace.
+    const vectorRows = this.dbAll(
+      'SELECT memory_id, vector FROM agent_memory_vectors WHERE agent_id = ? AND embedder = ?',
+      [agentId, this.embedder.id],
+    );
+    for (const r of vectorRows) {
+      if (state.memories.has(r.memory_id)) state.vectors.set(r.memory_id, blobToVector(r.vector));
+    }
+
+    this.agents.set(agentId, state);
+    this.cachedEntries += state.memories.size;
+    this.evict(agentId);
+    return state;
   }
 
-  /** Add a memory ID to the per-agent index. */
-  private indexAdd(agentId: string, memoryId: string): void {
-    let set = this.agentIndex.get(agentId);
-    if (!set) { set = new Set(); this.agentIndex.set(agentId, set); }
-    set.add(memoryId);
+  /** Drop least-recently-used agents until the cache fits its budget. */
+  private evict(keep: string): void {
+    for (const [agentId, state] of this.agents) {
+      if (this.agents.size <= this.maxCachedAgents && this.cachedEntries <= this.maxCachedEntries) break;
+      if (agentId === keep) continue;
+      this.agents.delete(agentId);
+      this.cachedEntries -= state.memories.size;
+    }
   }
 
-  /** Remove a memory ID from the per-agent index. */
-  private indexRemove(agentId: string, memoryId: string): void {
-    const set = this.agentIndex.get(agentId);
-    if (set) { set.delete(memoryId); if (set.size === 0) this.agentIndex.delete(agentId); }
+  /** The cached agent owning a memory id, loading it if needed. */
+  private locate(memoryId: string): { state: AgentMemoryState; entry: AgentMemoryEntry } | undefined {
+    for (const state of this.agents.values()) {
+      const entry = state.memories.get(memoryId);
+      if (entry) return { state: this.agentState(entry.agentId), entry };
+    }
+    const [row] = this.dbAll('SELECT agent_id FROM agent_memory WHERE id = ?', [memoryId]);
+    if (!row) return undefined;
+    const state = this.agentState(row.agent_id);
+    const entry = state.memories.get(memoryId);
+    return entry ? { state, entry } : undefined;
   }
 
-  /** Get all memory entries for an agent via the index. */
-  private getAgentMemories(agentId: string): AgentMemoryEntry[] {
-    const ids = this.agentIndex.get(agentId);
-    if (!ids || ids.size === 0) return [];
-    const result: AgentMemoryEntry[] = [];
-    for (const id of ids) {
-      const entry = this.memories.get(id);
-      if (entry) result.push(entry);
+  private addToState(state: AgentMemoryState, entry: AgentMemoryEntry): void {
+    if (!state.memories.has(entry.id)) this.cachedEntries += 1;
+    state.memories.set(entry.id, entry);
+    state.searchIndex?.addDocument(entry.id, entry);
+  }
+
+  private removeFromState(state: AgentMemoryState, memoryId: string): void {
+    if (state.memories.delete(memoryId)) this.cachedEntries -= 1;
+    state.searchIndex?.removeDocument(memoryId);
+    state.vectors.delete(memoryId);
+  }
+
+  /** How many agents and entries are held in RAM right now. */
+  getCacheStatus(): { agents: number; entries: number } {
+    return { agents: this.agents.size, entries: this.cachedEntries };
+  }
+
+  /**
+   * Embed entries and store their vectors. Failures (an HTTP provider
+   * being down) are logged and leave the entries lexical-only until a
+   * backfill. Returns how many were embedded.
+   */
+  private async embedEntries(entries: AgentMemoryEntry[]): Promise<number> {
+    if (entries.length === 0) return 0;
+    const texts = entries.map(embeddingText);
+    let vectors: Float32Array[];
+    try {
+      vectors = await this.embedder.embed(texts);
+    } catch (err) {
+      console.error('[agent-memory] Embedding failed:', (err as Error).message);
+      return 0;
     }
-    return result;
+    const now = new Date().toISOString();
+    let stored = 0;
+    entries.forEach((entry, i) => {
+      // Skip entries deleted or edited while the embedder was working. An
+      // agent evicted meanwhile can't be checked; a backfill catches up.
+      const state = this.agents.get(entry.agentId);
+      const current = state?.memories.get(entry.id);
+      if (!state || !current || embeddingText(current) !== texts[i]) return;
+      state.vectors.set(entry.id, vectors[i]);
+      this.dbRun(
+        `INSERT INTO agent_memory_vectors (memory_id, agent_id, embedder, dims, vector, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(memory_id) DO UPDATE SET embedder = excluded.embedder, dims = excluded.dims,
+           vector = excluded.vector, updated_at = excluded.updated_at`,
+        [entry.id, entry.agentId, this.embedder.id, vectors[i].length, vectorToBlob(vectors[i]), now],
+      );
+      stored += 1;
+    });
+    return stored;
+  }
+
+  /**
+   * BM25F keyword hits among the candidates, best first — from the
+   * agent's in-memory index, or from FTS5 (porter-stemmed, same field
+   * weights) when `fullTextSearch` is `fts5`.
+   */
+  private lexicalSearch(
+    agentId: string,
+    state: AgentMemoryState,
+    query: string,
+    candidateIds: Set<string>,
+  ): { id: string; score: number }[] {
+    if (state.searchIndex) return state.searchIndex.search(query, candidateIds);
+
+    const terms = Array.from(new Set(query.toLowerCase().split(/[^a-z0-9]+/)))
+      .filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+    if (terms.length === 0) return [];
+    // The agent_id phrase narrows the match inside FTS5; the join makes it exact.
+    const agentPhrase = /[\p{L}\p{N}]/u.test(agentId) ? `agent_id:"${agentId.replace(/"/g, '""')}" AND ` : '';
+    const rows = this.dbAll(
+      `SELECT m.id, bm25(agent_memory_fts, ?, ?, ?, 0) AS rank
+       FROM agent_memory_fts JOIN agent_memory m ON m.rowid = agent_memory_fts.rowid
+       WHERE agent_memory_fts MATCH ? AND m.agent_id = ?
+       ORDER BY rank`,
+      [
+        FIELD_WEIGHT_TITLE, FIELD_WEIGHT_CONTENT, FIELD_WEIGHT_TAGS,
+        `${agentPhrase}(${terms.map((t) => `"${t}"`).join(' OR ')})`, agentId,
+      ],
+    );
+    // bm25() is negative, lower is better.
+    return rows.filter((r) => candidateIds.has(r.id)).map((r) => ({ id: r.id, score: -r.rank }));
+  }
+
+  /**
+   * Relevance of candidate entries to a query, best first. Lexical
+   * scores are BM25F, semantic scores cosine similarity (hits under the
+   * embedder's `minSimilarity` dropped), hybrid scores the RRF sum
+   * Σ 1/(k + rank) over both lists. A semantic query whose embedding
+   * fails falls back to lexical.
+   */
+  private async rankByQuery(
+    agentId: string,
+    state: AgentMemoryState,
+    query: string,
+    candidateIds: Set<string>,
+    mode: MemorySearchMode,
+  ): Promise<{ id: string; score: number }[]> {
+    const lexical = mode === 'semantic' ? [] : this.lexicalSearch(agentId, state, query, candidateIds);
+    if (mode === 'lexical') return lexical;
+
+    let queryVector: Float32Array;
+    try {
+      [queryVector] = await this.embedder.embed([query]);
+    } catch (err) {
+      console.error('[agent-memory] Query embedding failed, using keyword search:', (err as Error).message);
+      return mode === 'semantic' ? this.lexicalSearch(agentId, state, query, candidateIds) : lexical;
+    }
+    const semantic: { id: string; score: number }[] = [];
+    for (const id of candidateIds) {
+      const vector = state.vectors.get(id);
+      if (!vector) continue;
+      const score = cosineSimilarity(queryVector, vector);
+      if (score >= this.embedder.minSimilarity) semantic.push({ id, score });
+    }
+    semantic.sort((a, b) => b.score - a.score);
+    if (mode === 'semantic') return semantic;
+
+    const fused = new Map<string, number>();
+    for (const list of [lexical, semantic]) {
+      list.forEach((r, rank) => fused.set(r.id, (fused.get(r.id) ?? 0) + 1 / (RRF_K + rank + 1)));
+    }
+    return Array.from(fused, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score);
+  }
+
+  /** All memory entries for an agent. */
+  private getAgentMemories(agentId: string): AgentMemoryEntry[] {
+    return Array.from(this.agentState(agentId).memories.values());
   }
 
   // ─── Convenience Methods ─────────────────────────────
 
-  /** Store a memory with minimal input — the common "just remember this" case. */
+  /**
+   * Store a memory with minimal input — the common "just remember this"
+   * case. `authoredBy` names the writing agent for shared-space entries.
+   */
   async storeMemory(agentId: string, opts: {
     content: string;
     category?: string;
@@ -261,12 +700,13 @@ export class AgentMemoryManager {
     confidence?: number;
     title?: string;
     tags?: string[];
-  }): Promise<AgentMemoryEntry> {
+  }, authoredBy?: string): Promise<AgentMemoryEntry> {
     const category = (opts.category && VALID_CATEGORIES.has(opts.category) ? opts.category : 'context') as MemoryCategory;
     const importance = (opts.importance && VALID_IMPORTANCE.has(opts.importance as MemoryImportance)
       ? opts.importance : 'normal') as MemoryImportance;
     return this.createMemory({
       agentId,
+      authoredBy,
       content: opts.content,
       category,
       importance,
@@ -278,9 +718,12 @@ export class AgentMemoryManager {
     });
   }
 
-  /** Search memories by text query, sorted by relevance. */
-  async recall(agentId: string, query: string, limit: number = 5): Promise<AgentMemoryEntry[]> {
-    return this.queryMemories({ agentId, query, limit });
+  /**
+   * Search memories by text query, sorted by relevance — the agent's
+   * own and those in shared spaces it can read (labelled by `space`).
+   */
+  async recall(agentId: string, query: string, limit: number = 5, mode?: MemorySearchMode): Promise<AgentMemoryEntry[]> {
+    return this.queryMemories({ agentId, query, limit, mode, includeShared: true });
   }
 
   // ─── CRUD Operations ────────────────────────────────
@@ -293,35 +736,26 @@ export class AgentMemoryManager {
       confidence: input.confidence ?? 0.8,
       tags: input.tags ?? [],
       metadata: input.metadata ?? {},
+      space: spaceFromOwnerId(input.agentId),
       id: randomUUID(),
       accessCount: 0,
       createdAt: now,
       updatedAt: now,
     };
 
-    this.memories.set(entry.id, entry);
-    this.indexAdd(entry.agentId, entry.id);
-    this.searchIndex.addDocument(entry.id, entry);
+    this.addToState(this.agentState(entry.agentId), entry);
 
-    this.dbRun(
-      `INSERT INTO agent_memory (id, agent_id, category, title, content, source, importance, confidence, access_count, last_accessed_at, expires_at, tags, metadata, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        entry.id, entry.agentId, entry.category, entry.title, entry.content,
-        entry.source, entry.importance, entry.confidence, entry.accessCount,
-        entry.lastAccessedAt || null, entry.expiresAt || null,
-        JSON.stringify(entry.tags), JSON.stringify(entry.metadata),
-        entry.createdAt, entry.updatedAt,
-      ],
-    );
+    this.dbRun(INSERT_SQL, insertParams(entry));
+    await this.embedEntries([entry]);
 
     return entry;
   }
 
   /** Update an existing memory entry by merging provided fields. */
   async updateMemory(id: string, updates: UpdateMemoryInput): Promise<AgentMemoryEntry | null> {
-    const existing = this.memories.get(id);
-    if (!existing) return null;
+    const found = this.locate(id);
+    if (!found) return null;
+    const { state, entry: existing } = found;
 
     const now = new Date().toISOString();
     const updated: AgentMemoryEntry = {
@@ -333,95 +767,114 @@ export class AgentMemoryManager {
       updatedAt: now,
     };
 
-    this.memories.set(id, updated);
+    state.memories.set(id, updated);
 
+    const reembed = embeddingText(updated) !== embeddingText(existing);
     if (updates.title !== undefined || updates.content !== undefined || updates.tags !== undefined) {
-      this.searchIndex.addDocument(id, updated);
+      state.searchIndex?.addDocument(id, updated);
     }
+    // A stale vector would keep matching the old text.
+    if (reembed) state.vectors.delete(id);
 
-    this.dbRun(
-      `UPDATE agent_memory SET
-        category = ?, title = ?, content = ?, source = ?,
-        importance = ?, confidence = ?, access_count = ?,
-        last_accessed_at = ?, expires_at = ?, tags = ?,
-        metadata = ?, updated_at = ?
-       WHERE id = ?`,
-      [
-        updated.category, updated.title, updated.content, updated.source,
-        updated.importance, updated.confidence, updated.accessCount,
-        updated.lastAccessedAt || null, updated.expiresAt || null,
-        JSON.stringify(updated.tags), JSON.stringify(updated.metadata),
-        updated.updatedAt, id,
-      ],
-    );
+    this.dbRun(UPDATE_SQL, updateParams(updated));
+    if (reembed) await this.embedEntries([updated]);
 
     return updated;
   }
 
   /** Delete a single memory entry. Returns true if it existed. */
   async deleteMemory(id: string): Promise<boolean> {
-    const entry = this.memories.get(id);
-    const existed = this.memories.delete(id);
-    if (entry) this.indexRemove(entry.agentId, id);
-    this.searchIndex.removeDocument(id);
+    const found = this.locate(id);
+    if (found) this.removeFromState(found.state, id);
     this.dbRun('DELETE FROM agent_memory WHERE id = ?', [id]);
-    return existed;
+    this.dbRun('DELETE FROM agent_memory_vectors WHERE memory_id = ?', [id]);
+    if (found) this.releaseSuperseded(found.entry.agentId, id);
+    return !!found;
+  }
+
+  /** Entries superseded by a deleted entry stand on their own again. */
+  private releaseSuperseded(agentId: string, deletedId: string): void {
+    for (const entry of this.agents.get(agentId)?.memories.values() ?? []) {
+      if (entry.supersededBy === deletedId) entry.supersededBy = undefined;
+    }
+    this.dbRun('UPDATE agent_memory SET superseded_by = NULL WHERE superseded_by = ?', [deletedId]);
   }
 
   /**
-   * Purge every memory entry belonging to an agent — Map, per-agent
-   * index, search index, and the database row. Called when an agent is
-   * deleted so no orphaned memory is left behind.
+   * Purge every memory entry belonging to an agent — cache, search
+   * index, vectors, and the database rows — and its shared-space
+   * grants. Called when an agent is deleted so no orphaned memory is
+   * left behind; entries it wrote to shared spaces are kept.
    * Returns the number of entries removed.
    */
   async deleteAgentMemories(agentId: string): Promise<number> {
-    const ids = Array.from(this.agentIndex.get(agentId) ?? []);
-    for (const id of ids) {
-      this.memories.delete(id);
-      this.searchIndex.removeDocument(id);
+    const [{ n } = { n: 0 }] = this.dbAll('SELECT COUNT(*) AS n FROM agent_memory WHERE agent_id = ?', [agentId]);
+    const cached = this.agents.get(agentId);
+    if (cached) {
+      this.agents.delete(agentId);
+      this.cachedEntries -= cached.memories.size;
     }
-    this.agentIndex.delete(agentId);
     this.dbRun('DELETE FROM agent_memory WHERE agent_id = ?', [agentId]);
-    return ids.length;
+    this.dbRun('DELETE FROM agent_memory_vectors WHERE agent_id = ?', [agentId]);
+    this.dbRun('DELETE FROM agent_memory_versions WHERE change_id IN (SELECT id FROM agent_memory_changes WHERE agent_id = ?)', [agentId]);
+    this.dbRun('DELETE FROM agent_memory_changes WHERE agent_id = ?', [agentId]);
+    // Its grants go too; what it wrote to shared spaces stays.
+    this.dbRun('DELETE FROM agent_memory_space_grants WHERE agent_id = ?', [agentId]);
+    return Number(n);
   }
 
   /** Retrieve a single memory entry by id. */
   async getMemory(id: string): Promise<AgentMemoryEntry | undefined> {
-    return this.memories.get(id);
+    return this.locate(id)?.entry;
   }
 
   // ─── Query Operations ───────────────────────────────
 
-  /** Query an agent's memory with optional category/importance/source filters + text search. */
+  /**
+   * Query an agent's memory with optional category/importance/source
+   * filters + text search. Text hits are ranked by relevance (see
+   * `mode`) × importance weight. With `includeShared`, readable shared
+   * spaces are searched too and ranked alongside.
+   */
   async queryMemories(opts: MemoryQueryOptions): Promise<AgentMemoryEntry[]> {
-    let results = this.getAgentMemories(opts.agentId);
-
-    if (opts.category) results = results.filter((m) => m.category === opts.category);
-    if (opts.importance) results = results.filter((m) => m.importance === opts.importance);
-    if (opts.source) results = results.filter((m) => m.source === opts.source);
-
-    if (opts.query) {
+    const owners = [opts.agentId, ...(opts.includeShared ? this.readableSpaceOwners(opts.agentId) : [])];
+    const scored: { entry: AgentMemoryEntry; score: number }[] = [];
+    const listed: AgentMemoryEntry[] = [];
+
+    for (const owner of owners) {
+      const state = this.agentState(owner);
+      let results = Array.from(state.memories.values());
+      if (opts.category) results = results.filter((m) => m.category === opts.category);
+      if (opts.importance) results = results.filter((m) => m.importance === opts.importance);
+      if (opts.source) results = results.filter((m) => m.source === opts.source);
+
+      if (!opts.query) {
+        listed.push(...results);
+        continue;
+      }
       const candidateIds = new Set(results.map((m) => m.id));
-      const searchResults = this.searchIndex.search(opts.query, candidateIds);
-      if (searchResults.length > 0) {
-        const scored = searchResults
-          .map((r) => {
-            const entry = this.memories.get(r.id);
-            return entry ? { entry, score: r.score * IMPORTANCE_WEIGHT[entry.importance] } : null;
-          })
-          .filter((r): r is { entry: AgentMemoryEntry; score: number } => r !== null);
-        scored.sort((a, b) => b.score - a.score);
-        return scored.slice(0, opts.limit || 100).map((d) => d.entry);
+      const searchResults = await this.rankByQuery(owner, state, opts.query, candidateIds, opts.mode ?? this.defaultMode);
+      for (const r of searchResults) {
+        const entry = state.memories.get(r.id);
+        if (!entry) continue;
+        const demotion = entry.supersededBy ? SUPERSEDED_WEIGHT : 1;
+        scored.push({ entry, score: r.score * IMPORTANCE_WEIGHT[entry.importance] * demotion });
       }
-      return [];
     }
 
-    results.sort((a, b) => {
+    if (opts.query) {
+      scored.sort((a, b) => b.score - a.score);
+      return scored.slice(0, opts.limit || 100).map((d) => d.entry);
+    }
+
+    listed.sort((a, b) => {
+      // Superseded entries list after everything current.
+      if (!a.supersededBy !== !b.supersededBy) return a.supersededBy ? 1 : -1;
       const weightDiff = IMPORTANCE_WEIGHT[b.importance] - IMPORTANCE_WEIGHT[a.importance];
       if (weightDiff !== 0) return weightDiff;
       return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
     });
-    return results.slice(0, opts.limit || 100);
+    return listed.slice(0, opts.limit || 100);
   }
 
   /** Memories created within the last N hours for an agent. */
@@ -436,7 +889,7 @@ export class AgentMemoryManager {
 
   /** Bump access count + lastAccessedAt for a memory entry. */
   async recordAccess(memoryId: string): Promise<void> {
-    const entry = this.memories.get(memoryId);
+    const entry = this.locate(memoryId)?.entry;
     if (!entry) return;
     const now = new Date().toISOString();
     entry.accessCount += 1;
@@ -453,28 +906,36 @@ export class AgentMemoryManager {
   /**
    * Render an agent's memory as a markdown block for prompt injection.
    * Ranks entries by confidence × access × recency × importance, with a
-   * BM25F relevance boost when a query is supplied, groups by category,
-   * and truncates to ~maxTokens (estimated at 4 chars/token).
+   * relevance boost (hybrid by default, see `rankByQuery`) when a query
+   * is supplied, groups by category, and truncates to ~maxTokens
+   * (estimated at 4 chars/token). Superseded entries are left out.
+   * Entries from shared spaces the agent can read are blended in,
+   * labelled `[shared: <space>]`.
    */
-  async generateMemoryContext(agentId: string, query?: string, maxTokens: number = 1500): Promise<string> {
-    const entries = this.getAgentMemories(agentId).filter((m) => m.confidence >= 0.1);
+  async generateMemoryContext(
+    agentId: string,
+    query?: string,
+    maxTokens: number = 1500,
+    mode?: MemorySearchMode,
+  ): Promise<string> {
+    const entries: AgentMemoryEntry[] = [];
+    // Relevance is normalised per owner: the agent and each shared space.
+    const relevanceMap = new Map<string, number>();
+    for (const owner of [agentId, ...this.readableSpaceOwners(agentId)]) {
+      const state = this.agentState(owner);
+      // A superseded entry would put the contradicted fact back in the prompt.
+      const own = Array.from(state.memories.values()).filter((m) => m.confidence >= 0.1 && !m.supersededBy);
+      entries.push(...own);
+      if (!query || own.length === 0) continue;
+      const candidateIds = new Set(own.map((e) => e.id));
+      const searchResults = await this.rankByQuery(owner, state, query, candidateIds, mode ?? this.defaultMode);
+      const maxScore = searchResults[0]?.score ?? 0;
+      for (const r of searchResults) relevanceMap.set(r.id, maxScore > 0 ? r.score / maxScore : 0);
+    }
     if (entries.length === 0) return '';
 
     const now = Date.now();
 
-    let relevanceMap: Map<string, number> | undefined;
-    if (query) {
-      const candidateIds = new Set(entries.map((e) => e.id));
-      const searchResults = this.searchIndex.search(query, candidateIds);
-      if (searchResults.length > 0) {
-        relevanceMap = new Map();
-        const maxScore = searchResults[0].score;
-        for (const r of searchResults) {
-          relevanceMap.set(r.id, maxScore > 0 ? r.score / maxScore : 0);
-        }
-      }
-    }
-
     const scored = entries.map((entry) => {
       const accessWeight = 1 + Math.log1p(entry.accessCount) * 0.3;
       const lastTouch = entry.lastAccessedAt || entry.createdAt;
@@ -482,10 +943,8 @@ export class AgentMemoryManager {
       const recencyWeight = 1 / (1 + Math.log1p(ageHours / 24) * 0.2);
       let score = entry.confidence * accessWeight * recencyWeight;
       score *= IMPORTANCE_WEIGHT[entry.importance];
-      if (relevanceMap) {
-        const relevance = relevanceMap.get(entry.id) || 0;
-        if (relevance > 0) score *= 1 + relevance * 3;
-      }
+      const relevance = relevanceMap.get(entry.id) || 0;
+      if (relevance > 0) score *= 1 + relevance * 3;
       return { entry, score };
     });
 
@@ -510,9 +969,10 @@ export class AgentMemoryManager {
       lines.push(header, '');
       charCount += header.length + 2;
       for (const entry of categoryEntries) {
-        const badge = entry.importance === 'critical' ? '[CRITICAL] '
-          : entry.importance === 'high' ? '[HIGH] '
-          : '';
+        const badge = (entry.space ? `[shared: ${entry.space}] ` : '')
+          + (entry.importance === 'critical' ? '[CRITICAL] '
+            : entry.importance === 'high' ? '[HIGH] '
+            : '');
         const entryLine = `- **${badge}${entry.title}**: ${entry.content}`;
         if (charCount + entryLine.length + 1 > maxChars) break;
         lines.push(entryLine);
@@ -548,31 +1008,546 @@ export class AgentMemoryManager {
     return decayed;
   }
 
-  /** Prune entries with confidence < 0.1 or past their expiresAt. */
+  /**
+   * Prune entries with confidence < 0.1 or past their expiresAt. Without
+   * an agent id, every agent's — found in SQL, so cold agents are not
+   * loaded.
+   */
   async pruneExpired(agentId?: string): Promise<number> {
     const now = new Date().toISOString();
-    const toDelete: { id: string; agentId: string }[] = [];
-
-    const entries = agentId
+    const toDelete: { id: string; agentId: string }[] = agentId
       ? this.getAgentMemories(agentId)
-      : Array.from(this.memories.values());
-
-    for (const entry of entries) {
-      const isLowConfidence = entry.confidence < 0.1;
-      const isExpired = !!entry.expiresAt && entry.expiresAt <= now;
-      if (isLowConfidence || isExpired) toDelete.push({ id: entry.id, agentId: entry.agentId });
-    }
+        .filter((entry) => entry.confidence < 0.1 || (!!entry.expiresAt && entry.expiresAt <= now))
+        .map((entry) => ({ id: entry.id, agentId: entry.agentId }))
+      : this.dbAll(
+        `SELECT id, agent_id AS agentId FROM agent_memory
+         WHERE confidence < 0.1 OR (expires_at IS NOT NULL AND expires_at != '' AND expires_at <= ?)`,
+        [now],
+      );
 
     for (const item of toDelete) {
-      this.memories.delete(item.id);
-      this.indexRemove(item.agentId, item.id);
-      this.searchIndex.removeDocument(item.id);
+      const state = this.agents.get(item.agentId);
+      if (state) this.removeFromState(state, item.id);
       this.dbRun('DELETE FROM agent_memory WHERE id = ?', [item.id]);
+      this.dbRun('DELETE FROM agent_memory_vectors WHERE memory_id = ?', [item.id]);
     }
+    for (const item of toDelete) this.releaseSuperseded(item.agentId, item.id);
 
     return toDelete.length;
   }
 
+  // ─── Consolidation ──────────────────────────────────
+
+  /**
+   * Merge near-duplicates and supersede contradicted entries (see
+   * consolidation.ts) for one agent, or every agent one at a time.
+   * Each merge and supersession is recorded with snapshots of the
+   * entries it touched, so `undoConsolidationChange()` can reverse it.
+   */
+  async consolidate(agentId?: string, options: ConsolidateOptions = {}): Promise<ConsolidationReport> {
+    const report: ConsolidationReport = {
+      runId: options.dryRun ? null : randomUUID(),
+      dryRun: !!options.dryRun,
+      merges: [],
+      supersessions: [],
+    };
+    const agentIds = agentId
+      ? [agentId]
+      : this.dbAll('SELECT DISTINCT agent_id FROM agent_memory').map((r) => r.agent_id as string);
+
+    for (const id of agentIds) {
+      const state = this.agentState(id);
+      const plan = planConsolidation(Array.from(state.memories.values()), options);
+      for (const s of plan.supersessions) {
+        const changeId = options.dryRun ? null : this.applySupersession(state, report.runId!, s);
+        if (options.dryRun || changeId) {
+          report.supersessions.push({
+            changeId, agentId: id, supersededId: s.entry.id, supersededBy: s.by.id, reason: s.reason,
+          });
+        }
+      }
+      for (const m of plan.merges) {
+        const changeId = options.dryRun ? null : await this.applyMerge(state, report.runId!, m);
+        if (options.dryRun || changeId) {
+          report.merges.push({ changeId, agentId: id, keptId: m.keep.id, mergedIds: m.absorb.map((e) => e.id) });
+        }
+      }
+    }
+    return report;
+  }
+
+  /** Recorded consolidation changes for an agent, newest first. */
+  async listConsolidationChanges(agentId: string, limit: number = 50): Promise<MemoryConsolidationChange[]> {
+    const changes = this.dbAll(
+      'SELECT * FROM agent_memory_changes WHERE agent_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?',
+      [agentId, limit],
+    );
+    return changes.map((c) => ({
+      id: c.id,
+      runId: c.run_id,
+      agentId: c.agent_id,
+      kind: c.kind,
+      detail: sj(c.detail),
+      createdAt: c.created_at,
+      undoneAt: c.undone_at || undefined,
+      versions: this.dbAll('SELECT snapshot FROM agent_memory_versions WHERE change_id = ?', [c.id])
+        .map((v) => sj(v.snapshot) as AgentMemoryEntry),
+    }));
+  }
+
+  /**
+   * Put every entry a consolidation change touched back the way it was
+   * before — re-creating merged-away entries and clearing a
+   * supersession. A later change involving the same entries has to be
+   * undone first. Pass `agentId` to refuse other agents' changes.
+   */
+  async undoConsolidationChange(changeId: string, agentId?: string): Promise<AgentMemoryEntry[]> {
+    const [change] = this.dbAll('SELECT rowid AS seq, * FROM agent_memory_changes WHERE id = ?', [changeId]);
+    if (!change || (agentId && change.agent_id !== agentId)) {
+      throw new MemoryConsolidationError('Consolidation change not found', 404);
+    }
+    if (change.undone_at) throw new MemoryConsolidationError('Consolidation change was already undone', 409);
+
+    const snapshots = this.dbAll('SELECT memory_id, snapshot FROM agent_memory_versions WHERE change_id = ?', [changeId])
+      .map((v) => sj(v.snapshot) as AgentMemoryEntry);
+    const ids = snapshots.map((e) => e.id);
+    const [later] = this.dbAll(
+      `SELECT DISTINCT c.id FROM agent_memory_changes c JOIN agent_memory_versions v ON v.change_id = c.id
+       WHERE c.agent_id = ? AND c.undone_at IS NULL AND c.rowid > ? AND v.memory_id IN (${ids.map(() => '?').join(', ')})
+       ORDER BY c.rowid DESC LIMIT 1`,
+      [change.agent_id, change.seq, ...ids],
+    );
+    if (later) throw new MemoryConsolidationError(`Undo the later consolidation change ${later.id} first`, 409);
+
+    const state = this.agentState(change.agent_id);
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      for (const snapshot of snapshots) {
+        const exists = this.db.prepare('SELECT 1 FROM agent_memory WHERE id = ?').get(snapshot.id);
+        if (exists) this.db.prepare(UPDATE_SQL).run(...(updateParams(snapshot) as any[]));
+        else this.db.prepare(INSERT_SQL).run(...(insertParams(snapshot) as any[]));
+      }
+      this.db.prepare('UPDATE agent_memory_changes SET undone_at = ? WHERE id = ?').run(now, changeId);
+    });
+
+    const stale: AgentMemoryEntry[] = [];
+    for (const snapshot of snapshots) {
+      const current = state.memories.get(snapshot.id);
+      if (!current || embeddingText(current) !== embeddingText(snapshot)) {
+        state.vectors.delete(snapshot.id);
+        stale.push(snapshot);
+      }
+      this.addToState(state, snapshot);
+    }
+    await this.embedEntries(stale);
+    return snapshots;
+  }
+
+  /** Record a change and its snapshots, then apply `write` — all or nothing. */
+  private recordChange(
+    runId: string,
+    kind: 'merge' | 'supersede',
+    detail: Record<string, any>,
+    before: AgentMemoryEntry[],
+    write: () => void,
+  ): string | null {
+    const id = randomUUID();
+    const agentId = before[0].agentId;
+    try {
+      this.transaction(() => {
+        this.db.prepare('INSERT INTO agent_memory_changes (id, run_id, agent_id, kind, detail, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+          .run(id, runId, agentId, kind, JSON.stringify(detail), new Date().toISOString());
+        const version = this.db.prepare('INSERT INTO agent_memory_versions (change_id, memory_id, snapshot) VALUES (?, ?, ?)');
+        for (const entry of before) version.run(id, entry.id, JSON.stringify(entry));
+        write();
+      });
+      return id;
+    } catch (err) {
+      console.error(`[agent-memory] Consolidation ${kind} failed:`, (err as Error).message);
+      return null;
+    }
+  }
+
+  private applySupersession(state: AgentMemoryState, runId: string, s: PlannedSupersession): string | null {
+    const updated: AgentMemoryEntry = { ...s.entry, supersededBy: s.by.id, updatedAt: new Date().toISOString() };
+    const changeId = this.recordChange(
+      runId, 'supersede',
+      { supersededId: s.entry.id, supersededBy: s.by.id, reason: s.reason },
+      [s.entry],
+      () => { this.db.prepare(UPDATE_SQL).run(...(updateParams(updated) as any[])); },
+    );
+    if (changeId) state.memories.set(updated.id, updated);
+    return changeId;
+  }
+
+  /**
+   * Fold the absorbed entries into the kept one: access counts add up,
+   * tags are unioned, the highest importance and confidence win, and
+   * entries the absorbed ones superseded now point at the kept one.
+   */
+  private async applyMerge(state: AgentMemoryState, runId: string, m: PlannedMerge): Promise<string | null> {
+    const group = [m.keep, ...m.absorb];
+    const absorbedIds = new Set(m.absorb.map((e) => e.id));
+    const repointed = Array.from(state.memories.values()).filter((e) => e.supersededBy && absorbedIds.has(e.supersededBy));
+    const now = new Date().toISOString();
+    const latest = (values: (string | undefined)[]) => values.reduce<string | undefined>((a, b) => (b && (!a || b > a) ? b : a), undefined);
+
+    const kept: AgentMemoryEntry = {
+      ...m.keep,
+      accessCount: group.reduce((n, e) => n + e.accessCount, 0),
+      tags: Array.from(new Set(group.flatMap((e) => e.tags))),
+      importance: group.map((e) => e.importance).sort((a, b) => IMPORTANCE_WEIGHT[b] - IMPORTANCE_WEIGHT[a])[0],
+      confidence: Math.max(...group.map((e) => e.confidence)),
+      lastAccessedAt: latest(group.map((e) => e.lastAccessedAt)),
+      // Keep the entry as long as the longest-lived of the group.
+      expiresAt: group.some((e) => !e.expiresAt) ? undefined : latest(group.map((e) => e.expiresAt)),
+      metadata: { ...m.keep.metadata, mergedFrom: [...(m.keep.metadata.mergedFrom ?? []), ...absorbedIds] },
+      updatedAt: now,
+    };
+    const moved = repointed.map((e) => ({ ...e, supersededBy: m.keep.id, updatedAt: now }));
+
+    const changeId = this.recordChange(
+      runId, 'merge',
+      { keptId: m.keep.id, mergedIds: Array.from(absorbedIds) },
+      [...group, ...repointed],
+      () => {
+        this.db.prepare(UPDATE_SQL).run(...(updateParams(kept) as any[]));
+        for (const e of moved) this.db.prepare(UPDATE_SQL).run(...(updateParams(e) as any[]));
+        const del = this.db.prepare('DELETE FROM agent_memory WHERE id = ?');
+        const delVector = this.db.prepare('DELETE FROM agent_memory_vectors WHERE memory_id = ?');
+        for (const id of absorbedIds) { del.run(id); delVector.run(id); }
+      },
+    );
+    if (!changeId) return null;
+
+    for (const id of absorbedIds) this.removeFromState(state, id);
+    for (const e of moved) state.memories.set(e.id, e);
+    const retag = embeddingText(kept) !== embeddingText(m.keep);
+    state.memories.set(kept.id, kept);
+    if (retag) {
+      state.searchIndex?.addDocument(kept.id, kept);
+      state.vectors.delete(kept.id);
+      await this.embedEntries([kept]);
+    }
+    return changeId;
+  }
+
+  private transaction(fn: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      fn();
+      this.db.exec('COMMIT');
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  // ─── Shared Spaces ──────────────────────────────────
+
+  /** Owner ids of the shared spaces an agent can read. */
+  private readableSpaceOwners(agentId: string): string[] {
+    return this.dbAll('SELECT space FROM agent_memory_space_grants WHERE agent_id = ? ORDER BY space', [agentId])
+      .map((r) => spaceOwnerId(r.space));
+  }
+
+  private requireSpace(name: string): { name: string; description: string; created_at: string } {
+    const [row] = this.dbAll('SELECT * FROM agent_memory_spaces WHERE name = ?', [normalizeSpaceName(name)]);
+    if (!row) throw new MemorySpaceError('Memory space not found', 404);
+    return row;
+  }
+
+  /**
+   * The space, checked for the agent's access. A space the agent holds
+   * no grant for reads as not found, so names can't be probed.
+   */
+  private requireSpaceAccess(name: string, agentId: string, needed: MemorySpaceAccess): string {
+    const space = this.requireSpace(name).name;
+    const access = this.getSpaceAccess(space, agentId);
+    if (!access) throw new MemorySpaceError('Memory space not found', 404);
+    if (needed === 'write' && access !== 'write') throw new MemorySpaceError('Write access to this memory space is required', 403);
+    return space;
+  }
+
+  async createSpace(name: string, description: string = ''): Promise<MemorySpace> {
+    const space = normalizeSpaceName(name);
+    if (this.dbAll('SELECT 1 FROM agent_memory_spaces WHERE name = ?', [space]).length > 0) {
+      throw new MemorySpaceError(`Memory space already exists: ${space}`, 409);
+    }
+    const now = new Date().toISOString();
+    this.dbRun('INSERT INTO agent_memory_spaces (name, description, created_at) VALUES (?, ?, ?)', [space, description, now]);
+    return { name: space, description, createdAt: now, entries: 0, grants: [] };
+  }
+
+  /**
+   * Spaces an agent holds a grant for (with its `access`), or — with no
+   * agent — every space with its grants.
+   */
+  async listSpaces(agentId?: string): Promise<MemorySpace[]> {
+    const rows = agentId
+      ? this.dbAll(
+        `SELECT s.*, g.access FROM agent_memory_spaces s
+         JOIN agent_memory_space_grants g ON g.space = s.name AND g.agent_id = ? ORDER BY s.name`,
+        [agentId],
+      )
+      : this.dbAll('SELECT * FROM agent_memory_spaces ORDER BY name');
+    return rows.map((r) => {
+      const [{ n } = { n: 0 }] = this.dbAll('SELECT COUNT(*) AS n FROM agent_memory WHERE agent_id = ?', [spaceOwnerId(r.name)]);
+      const space: MemorySpace = { name: r.name, description: r.description, createdAt: r.created_at, entries: Number(n) };
+      if (agentId) space.access = r.access;
+      else space.grants = this.spaceGrants(r.name);
+      return space;
+    });
+  }
+
+  private spaceGrants(space: string): MemorySpaceGrant[] {
+    return this.dbAll('SELECT * FROM agent_memory_space_grants WHERE space = ? ORDER BY agent_id', [space])
+      .map((g) => ({ agentId: g.agent_id, access: g.access, grantedAt: g.granted_at }));
+  }
+
+  /** Delete a space, its grants and every entry in it. Returns the entries removed. */
+  async deleteSpace(name: string): Promise<number> {
+    const space = this.requireSpace(name).name;
+    const removed = await this.deleteAgentMemories(spaceOwnerId(space));
+    this.dbRun('DELETE FROM agent_memory_space_grants WHERE space = ?', [space]);
+    this.dbRun('DELETE FROM agent_memory_spaces WHERE name = ?', [space]);
+    return removed;
+  }
+
+  /** Give an agent read or read/write access to a space, replacing any grant it had. */
+  async grantSpaceAccess(name: string, agentId: string, access: MemorySpaceAccess): Promise<MemorySpaceGrant> {
+    const space = this.requireSpace(name).name;
+    if (access !== 'read' && access !== 'write') throw new MemorySpaceError('access must be read or write', 400);
+    const grantedAt = new Date().toISOString();
+    this.dbRun(
+      `INSERT INTO agent_memory_space_grants (space, agent_id, access, granted_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(space, agent_id) DO UPDATE SET access = excluded.access, granted_at = excluded.granted_at`,
+      [space, agentId, access, grantedAt],
+    );
+    return { agentId, access, grantedAt };
+  }
+
+  /** Remove an agent's grant. Returns true if it had one. */
+  async revokeSpaceAccess(name: string, agentId: string): Promise<boolean> {
+    const space = this.requireSpace(name).name;
+    const had = this.getSpaceAccess(space, agentId) !== null;
+    this.dbRun('DELETE FROM agent_memory_space_grants WHERE space = ? AND agent_id = ?', [space, agentId]);
+    return had;
+  }
+
+  getSpaceAccess(name: string, agentId: string): MemorySpaceAccess | null {
+    const [row] = this.dbAll(
+      'SELECT access FROM agent_memory_space_grants WHERE space = ? AND agent_id = ?',
+      [name.trim().toLowerCase(), agentId],
+    );
+    return row?.access ?? null;
+  }
+
+  /** Store an entry in a shared space, recording the writing agent. Needs write access. */
+  async storeSpaceMemory(name: string, agentId: string, opts: Parameters<AgentMemoryManager['storeMemory']>[1]): Promise<AgentMemoryEntry> {
+    const space = this.requireSpaceAccess(name, agentId, 'write');
+    return this.storeMemory(spaceOwnerId(space), opts, agentId);
+  }
+
+  /** List / search one shared space. Needs read access. */
+  async querySpaceMemories(
+    name: string,
+    agentId: string,
+    opts: Omit<MemoryQueryOptions, 'agentId' | 'includeShared'> = {},
+  ): Promise<AgentMemoryEntry[]> {
+    const space = this.requireSpaceAccess(name, agentId, 'read');
+    return this.queryMemories({ ...opts, agentId: spaceOwnerId(space) });
+  }
+
+  /** Delete an entry from a shared space. Needs write access. */
+  async deleteSpaceMemory(name: string, agentId: string, memoryId: string): Promise<boolean> {
+    const space = this.requireSpaceAccess(name, agentId, 'write');
+    const entry = this.locate(memoryId)?.entry;
+    if (!entry || entry.space !== space) return false;
+    return this.deleteMemory(memoryId);
+  }
+
+  // ─── Export / Import ────────────────────────────────
+
+  /**
+   * An agent's entries as export records (see portable.ts): oldest
+   * first, or best match first when filtering by `query`.
+   */
+  async exportMemories(agentId: string, filter: MemoryFilter = {}): Promise<MemoryExportRecord[]> {
+    let entries = filter.query
+      ? await this.queryMemories({ agentId, category: filter.category, query: filter.query, limit: Number.MAX_SAFE_INTEGER })
+      : this.getAgentMemories(agentId)
+        .filter((e) => !filter.category || e.category === filter.category)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    if (filter.tag) entries = entries.filter((e) => e.tags.includes(filter.tag!));
+    if (filter.limit) entries = entries.slice(0, filter.limit);
+    const now = new Date().toISOString();
+    return entries.map((e) => toExportRecord(e, now));
+  }
+
+  /**
+   * Write exported records into an agent's memory. A record matches an
+   * existing entry by id or by identical content; `onConflict` decides
+   * whether it is skipped, overwrites that entry, or is added alongside.
+   * New entries keep the record's id when it is free. Imported entries
+   * carry `metadata.importedFrom` when the record names its origin.
+   */
+  async importMemories(
+    agentId: string,
+    records: MemoryExportRecord[],
+    options: MemoryImportOptions = {},
+  ): Promise<MemoryImportResult> {
+    return this.writeRecords(agentId, records, options.onConflict ?? 'skip', (r) => (
+      r.provenance.agentId
+        ? { metadata: { ...r.metadata, importedFrom: { agentId: r.provenance.agentId, memoryId: r.id, exportedAt: r.provenance.exportedAt } } }
+        : {}
+    ));
+  }
+
+  /**
+   * Copy the entries matching `filter` from one agent to another, e.g.
+   * when an agent is retired and a successor takes over its accounts.
+   * Copies get `source: 'transfer'` and `metadata.transferredFrom`
+   * (origin agent and entry id); conflicts default to `skip`, so
+   * re-running a transfer adds nothing twice.
+   */
+  async transferMemories(
+    fromAgentId: string,
+    toAgentId: string,
+    filter: MemoryFilter = {},
+    options: MemoryImportOptions = {},
+  ): Promise<MemoryImportResult> {
+    if (fromAgentId === toAgentId) throw new Error('The target agent must be different from the source agent');
+    const records = await this.exportMemories(fromAgentId, filter);
+    const transferredAt = new Date().toISOString();
+    return this.writeRecords(toAgentId, records, options.onConflict ?? 'skip', (r) => ({
+      source: 'transfer',
+      metadata: { ...r.metadata, transferredFrom: { agentId: fromAgentId, memoryId: r.id, transferredAt } },
+    }));
+  }
+
+  private async writeRecords(
+    agentId: string,
+    records: MemoryExportRecord[],
+    onConflict: MemoryConflictStrategy,
+    stamp: (record: MemoryExportRecord) => Partial<AgentMemoryEntry>,
+  ): Promise<MemoryImportResult> {
+    const state = this.agentState(agentId);
+    const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+    const byContent = new Map(Array.from(state.memories.values(), (e) => [normalize(e.content), e.id] as const));
+    const planned = new Set<string>();
+    const idTaken = (id: string) =>
+      state.memories.has(id) || planned.has(id) || this.dbAll('SELECT 1 FROM agent_memory WHERE id = ?', [id]).length > 0;
+
+    // First decide where every record goes, so supersededBy links
+    // between records can point at the ids they end up with.
+    const result: MemoryImportResult = { imported: 0, overwritten: 0, skipped: 0, ids: [] };
+    const idMap = new Map<string, string>();
+    const plan: { record: MemoryExportRecord; id: string; replaces?: AgentMemoryEntry }[] = [];
+    for (const record of records) {
+      const matchId = (record.id && (state.memories.has(record.id) || planned.has(record.id)) ? record.id : undefined)
+        ?? byContent.get(normalize(record.content));
+      // Only entries the agent already had are overwritten; a repeat
+      // within the records themselves is skipped.
+      if (matchId && (onConflict === 'skip' || (onConflict === 'overwrite' && planned.has(matchId)))) {
+        result.skipped += 1;
+        if (record.id) idMap.set(record.id, matchId);
+        continue;
+      }
+      const replaces = matchId && onConflict === 'overwrite' ? state.memories.get(matchId) : undefined;
+      const id = replaces?.id ?? (record.id && !idTaken(record.id) ? record.id : randomUUID());
+      if (record.id) idMap.set(record.id, id);
+      plan.push({ record, id, replaces });
+      planned.add(id);
+      byContent.set(normalize(record.content), id);
+    }
+
+    const now = new Date().toISOString();
+    const written = plan.map(({ record, id, replaces }) => {
+      const { provenance: _provenance, supersededBy, ...fields } = record;
+      const link = supersededBy ? idMap.get(supersededBy) ?? (state.memories.has(supersededBy) ? supersededBy : undefined) : undefined;
+      const entry: AgentMemoryEntry = {
+        ...fields,
+        ...stamp(record),
+        id,
+        agentId,
+        supersededBy: link === id ? undefined : link,
+        // An overwritten entry is still the entry the agent had.
+        createdAt: replaces?.createdAt ?? fields.createdAt,
+        updatedAt: now,
+      };
+      return { entry, replaces };
+    });
+
+    this.transaction(() => {
+      const insert = this.db.prepare(INSERT_SQL);
+      const update = this.db.prepare(UPDATE_SQL);
+      for (const { entry, replaces } of written) {
+        if (replaces) update.run(...(updateParams(entry) as any[]));
+        else insert.run(...(insertParams(entry) as any[]));
+      }
+    });
+
+    for (const { entry, replaces } of written) {
+      if (replaces) state.vectors.delete(entry.id);
+      this.addToState(state, entry);
+      result.ids.push(entry.id);
+      if (replaces) result.overwritten += 1;
+      else result.imported += 1;
+    }
+    this.evict(agentId);
+    for (let i = 0; i < written.length; i += BACKFILL_BATCH) {
+      await this.embedEntries(written.slice(i, i + BACKFILL_BATCH).map((w) => w.entry));
+    }
+    return result;
+  }
+
+  // ─── Embeddings ─────────────────────────────────────
+
+  /**
+   * Embed every entry (one agent's, or all) that has no vector from the
+   * current embedder — entries written before vectors existed, after an
+   * embedder change, or while a provider was unreachable. Safe to re-run.
+   * Across all agents, one agent is loaded at a time.
+   */
+  async backfillEmbeddings(agentId?: string): Promise<EmbeddingBackfillResult> {
+    if (!agentId) {
+      const result: EmbeddingBackfillResult = { total: 0, embedded: 0, failed: 0 };
+      const agents = this.dbAll(
+        `SELECT DISTINCT m.agent_id FROM agent_memory m
+         LEFT JOIN agent_memory_vectors v ON v.memory_id = m.id AND v.embedder = ?
+         WHERE v.memory_id IS NULL`,
+        [this.embedder.id],
+      );
+      for (const { agent_id } of agents) {
+        const one = await this.backfillEmbeddings(agent_id);
+        result.total += one.total;
+        result.embedded += one.embedded;
+        result.failed += one.failed;
+      }
+      return result;
+    }
+    const state = this.agentState(agentId);
+    const missing = Array.from(state.memories.values()).filter((e) => !state.vectors.has(e.id));
+    let embedded = 0;
+    for (let i = 0; i < missing.length; i += BACKFILL_BATCH) {
+      embedded += await this.embedEntries(missing.slice(i, i + BACKFILL_BATCH));
+    }
+    return { total: missing.length, embedded, failed: missing.length - embedded };
+  }
+
+  /** Which embedder is active and how much of the memory it covers. */
+  getEmbeddingStatus(agentId?: string): { embedder: string; entries: number; embedded: number } {
+    const where = agentId ? 'WHERE m.agent_id = ?' : '';
+    const [row] = this.dbAll(
+      `SELECT COUNT(*) AS entries, COUNT(v.memory_id) AS embedded FROM agent_memory m
+       LEFT JOIN agent_memory_vectors v ON v.memory_id = m.id AND v.embedder = ?
+       ${where}`,
+      agentId ? [this.embedder.id, agentId] : [this.embedder.id],
+    );
+    return { embedder: this.embedder.id, entries: Number(row?.entries ?? 0), embedded: Number(row?.embedded ?? 0) };
+  }
+
   // ─── Statistics ─────────────────────────────────────
 
   /** Aggregate statistics for a specific agent's memory. */
@@ -621,6 +1596,9 @@ export class AgentMemoryManager {
       expiresAt: row.expires_at || undefined,
       tags: Array.isArray(sj(row.tags)) ? sj(row.tags) : [],
       metadata: sj(row.metadata || '{}'),
+      supersededBy: row.superseded_by || undefined,
+      space: spaceFromOwnerId(row.agent_id),
+      authoredBy: row.authored_by || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -0,0 +1,127 @@
+/**
+ * Memory export format — one JSON object per line (JSONL).
+ *
+ * Each line carries everything needed to recreate an entry on another
+ * agent or install: category, importance, confidence, tags, metadata,
+ * timestamps, and `provenance` (the agent it was exported from and
+ * when). `AgentMemoryManager.exportMemories()` produces the records;
+ * `parseMemoryJsonl()` validates a file line by line so one bad line
+ * doesn't sink the rest of an import.
+ */
+
+import {
+  MEMORY_CATEGORIES,
+  type AgentMemoryEntry, type MemoryCategory, type MemoryImportance, type MemorySource,
+} from './manager.js';
+
+export interface MemoryExportRecord {
+  /** The entry's id where it was exported from; imports reuse it when free. */
+  id: string;
+  category: MemoryCategory;
+  title: string;
+  content: string;
+  source: MemorySource;
+  importance: MemoryImportance;
+  confidence: number;
+  accessCount: number;
+  lastAccessedAt?: string;
+  expiresAt?: string;
+  tags: string[];
+  metadata: Record<string, any>;
+  supersededBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  provenance: { agentId: string; exportedAt: string };
+}
+
+/** What to do with a record that matches an entry the agent already has. */
+export type MemoryConflictStrategy = 'skip' | 'overwrite' | 'keep-both';
+
+export const MEMORY_CONFLICT_STRATEGIES: readonly MemoryConflictStrategy[] = ['skip', 'overwrite', 'keep-both'];
+
+const IMPORTANCE = new Set<string>(['critical', 'high', 'normal', 'low']);
+const SOURCES = new Set<string>([
+  'interaction', 'self_reflection', 'correction', 'system', 'context_compaction', 'transfer',
+]);
+
+export function toExportRecord(entry: AgentMemoryEntry, exportedAt: string): MemoryExportRecord {
+  const { agentId, ...rest } = entry;
+  return { ...rest, provenance: { agentId, exportedAt } };
+}
+
+const isDate = (v: unknown) => typeof v === 'string' && !Number.isNaN(Date.parse(v));
+
+/**
+ * Validate one exported record. Only `content` is required; everything
+ * else falls back to the defaults `storeMemory()` uses. Throws with a
+ * message naming the bad field.
+ */
+export function parseMemoryRecord(value: unknown): MemoryExportRecord {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Invalid record: expected an object');
+  const r = value as Record<string, any>;
+  const content = typeof r.content === 'string' ? r.content.trim() : '';
+  if (!content) throw new Error('content is required');
+  if (r.category !== undefined && !Object.hasOwn(MEMORY_CATEGORIES, r.category)) {
+    throw new Error(`Invalid category: ${String(r.category)}`);
+  }
+  if (r.importance !== undefined && !IMPORTANCE.has(r.importance)) throw new Error(`Invalid importance: ${String(r.importance)}`);
+  if (r.source !== undefined && !SOURCES.has(r.source)) throw new Error(`Invalid source: ${String(r.source)}`);
+  if (r.confidence !== undefined && !(typeof r.confidence === 'number' && r.confidence >= 0 && r.confidence <= 1)) {
+    throw new Error('confidence must be a number between 0 and 1');
+  }
+  if (r.tags !== undefined && !(Array.isArray(r.tags) && r.tags.every((t: unknown) => typeof t === 'string'))) {
+    throw new Error('tags must be an array of strings');
+  }
+  if (r.metadata !== undefined && (!r.metadata || typeof r.metadata !== 'object' || Array.isArray(r.metadata))) {
+    throw new Error('metadata must be an object');
+  }
+  for (const key of ['createdAt', 'updatedAt', 'lastAccessedAt', 'expiresAt']) {
+    if (r[key] !== undefined && r[key] !== null && !isDate(r[key])) throw new Error(`${key} must be an ISO date`);
+  }
+
+  const now = new Date().toISOString();
+  const createdAt = r.createdAt ? new Date(r.createdAt).toISOString() : now;
+  return {
+    id: typeof r.id === 'string' && r.id ? r.id : '',
+    category: r.category ?? 'context',
+    title: typeof r.title === 'string' && r.title.trim() ? r.title.trim() : content.slice(0, 80),
+    content,
+    source: r.source ?? 'system',
+    importance: r.importance ?? 'normal',
+    confidence: r.confidence ?? 1,
+    accessCount: Number.isInteger(r.accessCount) && r.accessCount > 0 ? r.accessCount : 0,
+    lastAccessedAt: r.lastAccessedAt ? new Date(r.lastAccessedAt).toISOString() : undefined,
+    expiresAt: r.expiresAt ? new Date(r.expiresAt).toISOString() : undefined,
+    tags: r.tags ?? [],
+    metadata: r.metadata ?? {},
+    supersededBy: typeof r.supersededBy === 'string' && r.supersededBy ? r.supersededBy : undefined,
+    createdAt,
+    updatedAt: r.updatedAt ? new Date(r.updatedAt).toISOString() : createdAt,
+    provenance: {
+      agentId: typeof r.provenance?.agentId === 'string' ? r.provenance.agentId : '',
+      exportedAt: isDate(r.provenance?.exportedAt) ? r.provenance.exportedAt : '',
+    },
+  };
+}
+
+export function formatMemoryJsonl(records: MemoryExportRecord[]): string {
+  return records.map((r) => JSON.stringify(r) + '\n').join('');
+}
+
+/** Parse a JSONL export. Blank lines are ignored; bad lines are reported by 1-based line number. */
+export function parseMemoryJsonl(text: string): {
+  records: MemoryExportRecord[];
+  errors: { line: number; error: string }[];
+} {
+  const records: MemoryExportRecord[] = [];
+  const errors: { line: number; error: string }[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      records.push(parseMemoryRecord(JSON.parse(line)));
+    } catch (err) {
+      errors.push({ line: i + 1, error: err instanceof SyntaxError ? 'Invalid JSON' : (err as Error).message });
+    }
+  });
+  return { records, errors };
+}
@@ -0,0 +1,61 @@
+/**
+ * Shared memory spaces — named pools of memory a team of agents can be
+ * granted `read` or `write` access to.
+ *
+ * Memory stays personal by default: an agent sees a space only once it
+ * holds a grant. A space's entries live in `agent_memory` like any
+ * agent's, owned by the pseudo agent id `space:<name>`, so search,
+ * embeddings, consolidation and pruning work on them unchanged. Each
+ * entry records the agent that wrote it (`authoredBy`).
+ */
+
+export type MemorySpaceAccess = 'read' | 'write';
+
+export const MEMORY_SPACE_ACCESS: readonly MemorySpaceAccess[] = ['read', 'write'];
+
+export interface MemorySpaceGrant {
+  agentId: string;
+  access: MemorySpaceAccess;
+  grantedAt: string;
+}
+
+export interface MemorySpace {
+  name: string;
+  description: string;
+  createdAt: string;
+  entries: number;
+  /** The asking agent's access, when listed for an agent. */
+  access?: MemorySpaceAccess;
+  /** Every grant, when listed without an agent (master view). */
+  grants?: MemorySpaceGrant[];
+}
+
+/** Thrown for a bad space name, a missing space or grant, or a write without write access. */
+export class MemorySpaceError extends Error {
+  constructor(message: string, readonly statusCode: 400 | 403 | 404 | 409) {
+    super(message);
+    this.name = 'MemorySpaceError';
+  }
+}
+
+const SPACE_PREFIX = 'space:';
+const SPACE_NAME = /^[a-z0-9][a-z0-9_-]{0,62}$/;
+
+/** The owner id a space's entries are stored under. */
+export function spaceOwnerId(name: string): string {
+  return SPACE_PREFIX + name;
+}
+
+/** The space an owner id belongs to, or undefined for an agent. */
+export function spaceFromOwnerId(ownerId: string): string | undefined {
+  return ownerId.startsWith(SPACE_PREFIX) ? ownerId.slice(SPACE_PREFIX.length) : undefined;
+}
+
+/** Lower-cases a space name and checks it is a slug (letters, digits, `-`, `_`). */
+export function normalizeSpaceName(name: string): string {
+  const normalized = name.trim().toLowerCase();
+  if (!SPACE_NAME.test(normalized)) {
+    throw new MemorySpaceError('Invalid space name: use up to 63 letters, digits, "-" or "_"', 400);
+  }
+  return normalized;
+}
@@ -1,6 +1,7 @@
 import { createHash, createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
 import type { Database } from '../storage/db.js';
 import { encryptSecret, decryptSecret, isEncryptedSecret } from '../crypto/secrets.js';
+import { emitChannelActivity } from '../channel-activity.js';
 import { normalizePhoneNumber } from '../sms/manager.js';
 import { buildTwilioStreamTwiML } from './twilio.js';
 import { TWILIO_REALTIME_WS_PATH } from './realtime-paths.js';
@@ -1586,6 +1587,7 @@ export class PhoneManager {
       mission.createdAt,
       mission.updatedAt,
     );
+    announceCall(mission);
   }
 
   private updateProviderCall(missionId: string, providerCallId: string | undefined, metadata: Record<string, unknown>): PhoneCallMission {
@@ -1617,10 +1619,30 @@ export class PhoneManager {
       SET status = ?, transcript_json = ?, metadata_json = ?, updated_at = ?
       WHERE id = ?
     `).run(status, JSON.stringify(nextTranscript), JSON.stringify(nextMetadata), new Date().toISOString(), missionId);
-    return this.getMission(missionId)!;
+    const updated = this.getMission(missionId)!;
+    if (status !== mission.status) announceCall(updated, mission.status);
+    return updated;
   }
 }
 
+/**
+ * Announce a call's status on the channel-activity feed. Only the call
+ * summary goes out — policy and transport stay in the database.
+ */
+function announceCall(mission: PhoneCallMission, previousStatus?: PhoneMissionState): void {
+  emitChannelActivity({
+    type: 'call',
+    agentId: mission.agentId,
+    missionId: mission.id,
+    status: mission.status,
+    ...(previousStatus ? { previousStatus } : {}),
+    from: mission.from,
+    to: mission.to,
+    provider: mission.provider,
+    ...(mission.providerCallId ? { providerCallId: mission.providerCallId } : {}),
+  });
+}
+
 export function buildPhoneTransportConfig(input: {
   provider?: unknown;
   phoneNumber?: unknown;
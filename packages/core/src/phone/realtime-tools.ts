@@ -42,6 +42,8 @@
  * > `response.output_audio.delta` vs legacy `response.audio.delta`).
  */
 
+import type { EmailAuthResult } from '../mail/email-auth.js';
+
 // ─── Tool definition / call types ───────────────────────
 
 /**
@@ -992,15 +994,20 @@ export function extractEmailAddress(value: string | null | undefined): string {
  * means nobody is trusted (fail closed), so the email-reply path is
  * simply inert on a deployment without one.
  *
- * NOTE: ultimate strength still depends on inbound SPF/DKIM rejecting a
- * spoofed `From`; this check closes the casual-leak path — a leaked or
- * forwarded subject token replied to from an arbitrary address.
+ * The address match alone only closes the casual-leak path — a leaked or
+ * forwarded subject token replied to from an arbitrary address. Pass the
+ * message's `verifyEmailAuthentication` result as `authentication` to
+ * also require that the From domain passed aligned SPF or DKIM; a forged
+ * `From: <operator>` then fails even with the right token. Callers that
+ * have the raw message should always pass it.
  */
 export function isOperatorReplySender(
   from: string | null | undefined,
   operatorEmail: string | null | undefined,
+  authentication?: Pick<EmailAuthResult, 'fromAligned'>,
 ): boolean {
   const operator = extractEmailAddress(operatorEmail);
   if (!operator) return false;
-  return extractEmailAddress(from) === operator;
+  if (extractEmailAddress(from) !== operator) return false;
+  return authentication ? authentication.fromAligned : true;
 }
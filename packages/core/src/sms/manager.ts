@@ -12,6 +12,7 @@
 
 import type { Database } from '../storage/db.js';
 import { encryptSecret, decryptSecret, isEncryptedSecret } from '../crypto/secrets.js';
+import { emitChannelActivity } from '../channel-activity.js';
 
 export interface SmsConfig {
   /** Whether SMS is enabled for this agent */
@@ -610,7 +611,9 @@ export class SmsManager {
       'INSERT INTO sms_messages (id, agent_id, direction, phone_number, body, status, created_at, metadata) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
     ).run(id, agentId, 'inbound', parsed.from, parsed.body, 'received', createdAt, JSON.stringify(metadata ?? {}));
 
-    return { id, agentId, direction: 'inbound', phoneNumber: parsed.from, body: parsed.body, status: 'received', createdAt, metadata };
+    const message: SmsMessage = { id, agentId, direction: 'inbound', phoneNumber: parsed.from, body: parsed.body, status: 'received', createdAt, metadata };
+    emitChannelActivity({ type: 'sms', agentId, direction: 'inbound', message });
+    return message;
   }
 
   /** Record an outbound SMS attempt */
@@ -625,7 +628,9 @@ export class SmsManager {
       'INSERT INTO sms_messages (id, agent_id, direction, phone_number, body, status, created_at, metadata) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
     ).run(id, agentId, 'outbound', normalized, body, status, now, JSON.stringify(metadata ?? {}));
 
-    return { id, agentId, direction: 'outbound', phoneNumber: normalized, body, status, createdAt: now, metadata };
+    const message: SmsMessage = { id, agentId, direction: 'outbound', phoneNumber: normalized, body, status, createdAt: now, metadata };
+    emitChannelActivity({ type: 'sms', agentId, direction: 'outbound', message });
+    return message;
   }
 
   /** Update SMS status and optional provider metadata */
@@ -344,6 +344,83 @@ export class StalwartAdmin {
     return !!(existing['private-key'] && existing['domain']);
   }
 
+  /**
+   * Store a DKIM signature with a key generated outside Stalwart
+   * (PKCS#1 PEM for RSA, PKCS#8 PEM for Ed25519). Does not start
+   * signing with it — see {@link setDkimSigners}.
+   */
+  async installDkimSignature(signature: {
+    signatureId: string;
+    domain: string;
+    selector: string;
+    algorithm: 'rsa-sha256' | 'ed25519-sha256';
+    privateKey: string;
+  }): Promise<void> {
+    const { execFileSync } = await import('node:child_process');
+    const cli = this.cliArgs();
+    const prefix = `signature.${signature.signatureId}`;
+
+    try {
+      execFileSync('docker', [...cli, 'server', 'delete-config', prefix], {
+        timeout: 10_000, stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch { /* may not exist */ }
+
+    const settings: [string, string][] = [
+      [`${prefix}.private-key`, signature.privateKey],
+      [`${prefix}.domain`, signature.domain],
+      [`${prefix}.selector`, signature.selector],
+      [`${prefix}.algorithm`, signature.algorithm],
+      [`${prefix}.canonicalization`, 'relaxed/relaxed'],
+      [`${prefix}.set-body-length`, 'false'],
+    ];
+    for (const [key, value] of settings) {
+      await this.updateSetting(key, value);
+    }
+  }
+
+  /**
+   * Point the `auth.dkim.sign` rule at the given signatures (every
+   * outgoing message is signed with each one) and reload the config.
+   */
+  async setDkimSigners(signatureIds: string[]): Promise<void> {
+    const { execFileSync } = await import('node:child_process');
+    const cli = this.cliArgs();
+
+    try {
+      execFileSync('docker', [...cli, 'server', 'delete-config', 'auth.dkim.sign'], {
+        timeout: 10_000, stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch { /* may not exist */ }
+
+    const list = signatureIds.map(id => `'${id}'`).join(', ');
+    const rules: [string, string][] = [
+      ['auth.dkim.sign.0000.if', `listener != 'smtp'`],
+      ['auth.dkim.sign.0000.then', `[${list}]`],
+      ['auth.dkim.sign.0001.else', 'false'],
+    ];
+    for (const [key, value] of rules) {
+      await this.updateSetting(key, value);
+    }
+
+    try {
+      execFileSync('docker', [...cli, 'server', 'reload-config'], {
+        timeout: 10_000, stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch { /* best effort */ }
+  }
+
+  /** Delete a DKIM signature from Stalwart's DB. */
+  async removeDkimSignature(signatureId: string): Promise<void> {
+    const { execFileSync } = await import('node:child_process');
+    const cli = this.cliArgs();
+    try {
+      execFileSync('docker', [...cli, 'server', 'delete-config', `signature.${signatureId}`], {
+        timeout: 10_000, stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch { /* already gone */ }
+  }
+
   /**
    * Configure Gmail SMTP as outbound relay (smarthost).
    * Routes all non-local mail through smtp.gmail.com using app password auth.
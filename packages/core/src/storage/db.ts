@@ -404,6 +404,370 @@ ALTER TABLE agents ADD COLUMN wake_on_cc INTEGER NOT NULL DEFAULT 1;
 ALTER TABLE agents ADD COLUMN stopped INTEGER NOT NULL DEFAULT 0;
 ALTER TABLE agents ADD COLUMN stopped_at TEXT;
 ALTER TABLE agents ADD COLUMN stopped_reason TEXT;
+`,
+  '018_rule_pipelines.sql': `
+-- Multi-rule pipelines. A matching rule with stop = 1 ends
+-- evaluation (the original first-match-wins behaviour, so existing
+-- rows default to it); stop = 0 lets lower-priority rules run too.
+-- hit_count / last_matched_at are bumped every time the rule fires
+-- on live mail so operators can spot dead or runaway rules.
+ALTER TABLE email_rules ADD COLUMN stop INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE email_rules ADD COLUMN hit_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE email_rules ADD COLUMN last_matched_at TEXT;
+ALTER TABLE email_rules ADD COLUMN updated_at TEXT;
+`,
+  '019_scheduled_recurrence.sql': `
+-- Recurring schedules. recurrence holds an RRULE or cron string
+-- evaluated in timezone; occurrence_at is the nominal time of the
+-- occurrence being worked on and send_at when it will actually go out
+-- (after the send window and any retry backoff). A template_id plus
+-- variables (JSON) is rendered at send time instead of the frozen body.
+ALTER TABLE scheduled_emails ADD COLUMN recurrence TEXT;
+ALTER TABLE scheduled_emails ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+ALTER TABLE scheduled_emails ADD COLUMN send_window TEXT;
+ALTER TABLE scheduled_emails ADD COLUMN template_id TEXT;
+ALTER TABLE scheduled_emails ADD COLUMN variables TEXT;
+ALTER TABLE scheduled_emails ADD COLUMN starts_at TEXT;
+ALTER TABLE scheduled_emails ADD COLUMN occurrence_at TEXT;
+ALTER TABLE scheduled_emails ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE scheduled_emails ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 4;
+ALTER TABLE scheduled_emails ADD COLUMN last_run_at TEXT;
+ALTER TABLE scheduled_emails ADD COLUMN updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_due ON scheduled_emails(status, send_at);
+
+-- One row per occurrence: status is retrying until it is sent or
+-- the attempts run out.
+CREATE TABLE IF NOT EXISTS scheduled_email_runs (
+  id TEXT PRIMARY KEY,
+  schedule_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  occurrence_at TEXT NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  message_id TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(schedule_id, occurrence_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_runs_schedule ON scheduled_email_runs(schedule_id, occurrence_at);
+`,
+  '020_event_journal.sql': `
+-- Durable journal of every event published to /events and
+-- /events/all. id is the SSE event id clients echo back as
+-- Last-Event-ID; AUTOINCREMENT keeps ids from being reused after the
+-- retention sweep empties the table. agent_id is NULL for events not
+-- addressed to one agent (e.g. an untargeted broadcast).
+CREATE TABLE IF NOT EXISTS event_journal (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  agent_id TEXT,
+  type TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_journal_agent ON event_journal(agent_id, id);
+CREATE INDEX IF NOT EXISTS idx_event_journal_created ON event_journal(created_at);
+`,
+  '021_webhooks.sql': `
+-- Outbound webhooks. agent_id scopes a subscription to one agent's
+-- events (NULL = every agent, master-created only); events is a JSON
+-- array of event types or wildcards ("*", "mail.*"). secret signs each
+-- delivery with HMAC-SHA256.
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT,
+  url TEXT NOT NULL,
+  events TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  description TEXT,
+  active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_agent ON webhooks(agent_id);
+
+-- Delivery queue and log in one: a row is pending until it is
+-- delivered or its attempts run out. event_id is shared by every
+-- delivery of the same event (including manual redeliveries) so
+-- receivers can de-duplicate.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  agent_id TEXT,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8,
+  next_attempt_at TEXT,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  redelivery_of TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT,
+  delivered_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+`,
+  '022_spam_model.sql': `
+-- Per-agent adaptive spam model. A document is one trained message:
+-- report / not-spam feedback (source 'feedback', keyed by Message-ID)
+-- or a spam_log verdict (source 'log', keyed by the log row). tokens
+-- keeps what was learned so a relabel can be untrained exactly.
+CREATE TABLE IF NOT EXISTS spam_model_docs (
+  agent_id TEXT NOT NULL,
+  doc_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  source TEXT NOT NULL,
+  tokens TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (agent_id, doc_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_spam_model_docs_source ON spam_model_docs(agent_id, source, created_at);
+
+CREATE TABLE IF NOT EXISTS spam_model_tokens (
+  agent_id TEXT NOT NULL,
+  token TEXT NOT NULL,
+  spam INTEGER NOT NULL DEFAULT 0,
+  ham INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (agent_id, token)
+);
+`,
+  '023_dkim_keys.sql': `
+-- DKIM signing keys for domain mode, one row per selector. Lifecycle:
+-- pending -> published (TXT record created) -> active (Stalwart signs
+-- with it) -> retiring (replaced; DNS kept until retire_after) ->
+-- retired (record and signature removed, private key wiped). private_key
+-- is encrypted with the master key; NULL for keys Stalwart generated.
+CREATE TABLE IF NOT EXISTS dkim_keys (
+  id TEXT PRIMARY KEY,
+  domain TEXT NOT NULL,
+  selector TEXT NOT NULL,
+  algorithm TEXT NOT NULL,
+  signature_id TEXT NOT NULL,
+  public_key TEXT NOT NULL DEFAULT '',
+  private_key TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  error TEXT,
+  created_at TEXT NOT NULL,
+  published_at TEXT,
+  activated_at TEXT,
+  retire_after TEXT,
+  retired_at TEXT,
+  UNIQUE (domain, selector)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dkim_keys_domain ON dkim_keys(domain, status);
+`,
+  '024_outbound_quotas.sql': `
+-- Outbound quota accounting: one row per external recipient of every
+-- send through the relay or domain gateway, kept for 24 hours so the
+-- per-minute/hour/day windows can be counted. outbound_queue holds mail
+-- that was over quota and asked to wait instead of failing; mail_options
+-- is the JSON the send route replays once the quota frees up.
+CREATE TABLE IF NOT EXISTS outbound_usage (
+  send_id TEXT NOT NULL,
+  agent_name TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  sent_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_usage_agent ON outbound_usage(agent_name, sent_at);
+CREATE INDEX IF NOT EXISTS idx_outbound_usage_sent ON outbound_usage(sent_at);
+
+CREATE TABLE IF NOT EXISTS outbound_queue (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  mail_options TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  send_after TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  message_id TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  sent_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbound_queue_due ON outbound_queue(status, send_after);
+CREATE INDEX IF NOT EXISTS idx_outbound_queue_agent ON outbound_queue(agent_id, status);
+`,
+  '025_bounces.sql': `
+-- Bounces and delivery status notifications parsed out of agent inboxes,
+-- one row per reported recipient. A hard bounce also lands the address
+-- on the install-wide suppression list, which /mail/send refuses unless
+-- overridden, and flags every contacts row for it.
+CREATE TABLE IF NOT EXISTS bounces (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  type TEXT NOT NULL,
+  action TEXT NOT NULL,
+  status TEXT,
+  diagnostic TEXT,
+  reporting_mta TEXT,
+  original_message_id TEXT,
+  original_subject TEXT,
+  bounce_message_id TEXT,
+  format TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  UNIQUE (bounce_message_id, recipient)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bounces_agent ON bounces(agent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_bounces_original ON bounces(original_message_id);
+CREATE INDEX IF NOT EXISTS idx_bounces_recipient ON bounces(recipient);
+
+CREATE TABLE IF NOT EXISTS suppressed_recipients (
+  address TEXT PRIMARY KEY,
+  reason TEXT NOT NULL,
+  bounce_id TEXT,
+  detail TEXT,
+  agent_id TEXT,
+  created_at TEXT NOT NULL
+);
+
+ALTER TABLE contacts ADD COLUMN bounced INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE contacts ADD COLUMN bounced_at TEXT;
+`,
+  '026_list_unsubscribes.sql': `
+-- Recipients who used the List-Unsubscribe link of an agent's bulk
+-- mail. Scoped per agent and list; later bulk sends on the same list
+-- skip them.
+CREATE TABLE IF NOT EXISTS list_unsubscribes (
+  agent_id TEXT NOT NULL,
+  list TEXT NOT NULL,
+  address TEXT NOT NULL,
+  source TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (agent_id, list, address)
+);
+`,
+  '027_campaigns.sql': `
+-- Mail merge campaigns. The recipient list is resolved when the
+-- campaign is created (storage table, CSV or tagged contacts) and each
+-- row keeps its merge variables and its own progress. Contacts gain a
+-- JSON array of tags so a campaign can target them.
+CREATE TABLE IF NOT EXISTS campaigns (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  source TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  text_body TEXT,
+  html_body TEXT,
+  template_id TEXT,
+  list TEXT,
+  per_hour INTEGER NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  send_window TEXT,
+  start_at TEXT NOT NULL,
+  next_send_at TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  completed_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS campaign_recipients (
+  id TEXT PRIMARY KEY,
+  campaign_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  address TEXT NOT NULL,
+  name TEXT,
+  variables TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  message_id TEXT,
+  error TEXT,
+  sent_at TEXT,
+  bounced_at TEXT,
+  replied_at TEXT,
+  updated_at TEXT NOT NULL,
+  UNIQUE (campaign_id, address),
+  FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_due ON campaigns(status, next_send_at);
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_queue ON campaign_recipients(campaign_id, status, position);
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_message ON campaign_recipients(message_id);
+
+ALTER TABLE contacts ADD COLUMN tags TEXT;
+`,
+  '028_template_schema.sql': `
+-- A template's variables as a JSON Schema (properties, required,
+-- defaults), checked before the template is rendered.
+ALTER TABLE templates ADD COLUMN variable_schema TEXT;
+`,
+  '029_calendar_invites.sql': `
+-- Meeting invites an agent has sent (iTIP REQUEST / CANCEL). Each
+-- attendee row carries the PARTSTAT from their latest REPLY.
+CREATE TABLE IF NOT EXISTS calendar_invites (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  uid TEXT NOT NULL,
+  sequence INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'confirmed',
+  organizer TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  description TEXT,
+  location TEXT,
+  start_at TEXT NOT NULL,
+  end_at TEXT NOT NULL,
+  all_day INTEGER NOT NULL DEFAULT 0,
+  timezone TEXT,
+  recurrence TEXT,
+  message_id TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (agent_id, uid)
+);
+
+CREATE TABLE IF NOT EXISTS calendar_invite_attendees (
+  invite_id TEXT NOT NULL,
+  address TEXT NOT NULL,
+  name TEXT,
+  partstat TEXT NOT NULL DEFAULT 'NEEDS-ACTION',
+  responded_at TEXT,
+  PRIMARY KEY (invite_id, address),
+  FOREIGN KEY (invite_id) REFERENCES calendar_invites(id) ON DELETE CASCADE
+);
+`,
+  '030_webhook_private_targets.sql': `
+-- Whether a webhook may deliver to a loopback or private address. Only
+-- URLs saved with the master key set it; master-only (agent_id NULL)
+-- webhooks that already exist keep working.
+ALTER TABLE webhooks ADD COLUMN allow_private INTEGER NOT NULL DEFAULT 0;
+UPDATE webhooks SET allow_private = 1 WHERE agent_id IS NULL;
+`,
+  '031_sent_recipients.sql': `
+-- Who each message an agent sent went to, by Message-ID. A hard bounce
+-- only suppresses its address when it names a message and recipient
+-- listed here, so a forged DSN can't suppress an address this install
+-- never mailed. bounces.suppressed records which bounces did.
+CREATE TABLE IF NOT EXISTS sent_recipients (
+  message_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  address TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (message_id, address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sent_recipients_created ON sent_recipients(created_at);
+
+ALTER TABLE bounces ADD COLUMN suppressed INTEGER NOT NULL DEFAULT 0;
+UPDATE bounces SET suppressed = 1 WHERE type = 'hard';
 `,
 };
 
@@ -17,6 +17,7 @@
 import { timingSafeEqual } from 'node:crypto';
 import type { Database } from '../storage/db.js';
 import { encryptSecret, decryptSecret, isEncryptedSecret } from '../crypto/secrets.js';
+import { emitChannelActivity } from '../channel-activity.js';
 
 /** Transport mode: long-poll `getUpdates`, or a registered webhook. */
 export type TelegramMode = 'poll' | 'webhook';
@@ -300,11 +301,13 @@ export class TelegramManager {
       id, agentId, 'inbound', String(input.chatId), input.telegramMessageId,
       input.fromId ?? null, input.text, 'received', createdAt, JSON.stringify(metadata ?? {}),
     );
-    return {
+    const message: TelegramMessage = {
       id, agentId, direction: 'inbound', chatId: String(input.chatId),
       telegramMessageId: input.telegramMessageId, fromId: input.fromId, text: input.text,
       status: 'received', createdAt, metadata,
     };
+    emitChannelActivity({ type: 'telegram', agentId, direction: 'inbound', message });
+    return message;
   }
 
   /** Record an outbound Telegram message attempt. */
@@ -322,10 +325,12 @@ export class TelegramManager {
       id, agentId, 'outbound', String(input.chatId), input.telegramMessageId ?? null,
       null, input.text, status, createdAt, JSON.stringify(metadata ?? {}),
     );
-    return {
+    const message: TelegramMessage = {
       id, agentId, direction: 'outbound', chatId: String(input.chatId),
       telegramMessageId: input.telegramMessageId, text: input.text, status, createdAt, metadata,
     };
+    emitChannelActivity({ type: 'telegram', agentId, direction: 'outbound', message });
+    return message;
   }
 
   /** Update the status (+ optional metadata) of a stored message. */
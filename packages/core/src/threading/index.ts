@@ -1,7 +1,10 @@
 /**
  * Layered wake-context system for AgenticMail's dispatcher.
  *
- * - `thread-id`: stable threadId from `(subject, root-from)`.
+ * - `thread-id`: stable threadId from the conversation root's
+ *   Message-ID, falling back to the normalized subject.
+ * - `jwz`: header-based threading over a set of messages, for the
+ *   `/mail/threads` API.
  * - `thread-cache`: dispatcher-owned ring buffer of recent
  *   envelopes per thread. Layer 1 (facts).
  * - `agent-memory`: per-agent narrative the worker writes at
@@ -11,8 +14,13 @@
  * "Thread context" block in the wake prompt, so the agent
  * doesn't re-read 12 emails on every reply.
  */
-export { threadIdFor, normalizeSubject, normalizeAddress } from './thread-id.js';
+export {
+  threadIdFor, threadIdForRoot, threadIdForSubject, threadRootMessageId,
+  normalizeSubject, normalizeAddress, parseMessageIds,
+} from './thread-id.js';
 export type { ThreadIdInput } from './thread-id.js';
+export { threadMessages } from './jwz.js';
+export type { ThreadableMessage, ThreadedMessage, MessageThread } from './jwz.js';
 export { ThreadCache } from './thread-cache.js';
 export type { ThreadCacheEntry, CachedMessage, ThreadCacheOptions } from './thread-cache.js';
 export { AgentMemoryStore } from './agent-memory.js';
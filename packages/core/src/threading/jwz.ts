@@ -0,0 +1,180 @@
+/**
+ * JWZ conversation threading over a set of messages.
+ *
+ * Implements the container-linking half of Jamie Zawinski's algorithm
+ * (https://www.jwz.org/doc/threading.html): every Message-ID seen in
+ * a `Message-ID`, `References` or `In-Reply-To` header gets a
+ * container, each `References` chain links its containers parent →
+ * child, and the message itself hangs off its last reference. The
+ * containers left without a parent are the thread roots. Referenced
+ * messages that are not in the set (expunged, in another folder,
+ * never received) still anchor their thread as empty containers, so
+ * replies to them group correctly.
+ *
+ * Deliberately NOT implemented: JWZ's final "group roots by subject"
+ * pass. It is what merges two unrelated "Invoice" conversations, and
+ * the header chain is authoritative whenever it exists. Messages with
+ * no threading headers at all fall back to the subject-hash id, so
+ * those still group by subject with each other.
+ *
+ * Thread ids match `threadIdFor` for every message whose `References`
+ * header starts at the root — i.e. every reply a standards-following
+ * client sends. The threader only disagrees when a client dropped
+ * `References` and kept just `In-Reply-To`; then the full chain is
+ * the better answer.
+ */
+
+import { parseMessageIds, threadIdForRoot, threadIdForSubject } from './thread-id.js';
+
+export interface ThreadableMessage {
+  messageId?: string | null;
+  inReplyTo?: string | null;
+  references?: string | readonly string[] | null;
+  subject?: string | null;
+  date?: Date | string | null;
+}
+
+export interface ThreadedMessage<T> {
+  message: T;
+  /** Message-ID of the container this one replies to, null at the root. */
+  parentMessageId: string | null;
+  /** Reply depth below the thread root (root = 0). */
+  depth: number;
+}
+
+export interface MessageThread<T> {
+  threadId: string;
+  /** Root Message-ID, which may belong to a message not in the set.
+   *  Null for threads grouped by the subject fallback. */
+  rootMessageId: string | null;
+  /** Subject of the root message, else of the earliest message. */
+  subject: string;
+  /** Oldest first. */
+  messages: ThreadedMessage<T>[];
+  /** Date of the newest message. */
+  lastDate: Date;
+}
+
+interface Container<T> {
+  id: string;
+  /** False for the placeholder ids given to messages without a Message-ID. */
+  real: boolean;
+  message?: T;
+  parent?: Container<T>;
+  children: Set<Container<T>>;
+}
+
+function toTime(date: Date | string | null | undefined): number {
+  if (!date) return 0;
+  const t = (date instanceof Date ? date : new Date(date)).getTime();
+  return Number.isNaN(t) ? 0 : t;
+}
+
+/** True when `node` is `ancestor` or sits somewhere below it. */
+function isDescendant<T>(node: Container<T>, ancestor: Container<T>): boolean {
+  for (let c: Container<T> | undefined = node; c; c = c.parent) {
+    if (c === ancestor) return true;
+  }
+  return false;
+}
+
+function link<T>(parent: Container<T>, child: Container<T>): void {
+  if (child.parent) child.parent.children.delete(child);
+  child.parent = parent;
+  parent.children.add(child);
+}
+
+/**
+ * Group messages into conversations. Threads come back newest-activity
+ * first; messages inside a thread oldest first. Duplicate Message-IDs
+ * (the same mail in INBOX and Sent) are kept as separate entries in
+ * the same thread.
+ */
+export function threadMessages<T extends ThreadableMessage>(messages: readonly T[]): MessageThread<T>[] {
+  const containers = new Map<string, Container<T>>();
+  const container = (id: string, real = true): Container<T> => {
+    let c = containers.get(id);
+    if (!c) {
+      c = { id, real, children: new Set() };
+      containers.set(id, c);
+    }
+    return c;
+  };
+
+  messages.forEach((message, index) => {
+    const ownId = parseMessageIds(message.messageId)[0];
+    let self: Container<T>;
+    if (ownId && !containers.get(ownId)?.message) {
+      self = container(ownId);
+    } else {
+      // No Message-ID, or a duplicate of one already placed.
+      self = container(`\0${index}`, false);
+    }
+    self.message = message;
+
+    const refs = parseMessageIds(message.references);
+    const parentId = parseMessageIds(message.inReplyTo)[0];
+    if (parentId && refs[refs.length - 1] !== parentId) refs.push(parentId);
+
+    // Link the References chain without overriding links made by
+    // earlier messages and without creating loops.
+    for (let i = 1; i < refs.length; i++) {
+      const parent = container(refs[i - 1]);
+      const child = container(refs[i]);
+      if (parent === child || child.parent) continue;
+      if (isDescendant(parent, child)) continue;
+      link(parent, child);
+    }
+
+    // The message's own parent is authoritative: its last reference.
+    const last = refs.length ? container(refs[refs.length - 1]) : undefined;
+    if (last && last !== self && !isDescendant(last, self)) link(last, self);
+    else if (ownId && self.id !== ownId) {
+      // A duplicate with no references of its own sits beside the original.
+      const original = containers.get(ownId)!;
+      if (original.parent) link(original.parent, self);
+      else link(original, self);
+    }
+  });
+
+  const byId = new Map<string, MessageThread<T>>();
+  for (const root of containers.values()) {
+    if (root.parent) continue;
+    const found: ThreadedMessage<T>[] = [];
+    const stack: Array<{ c: Container<T>; depth: number }> = [{ c: root, depth: 0 }];
+    while (stack.length) {
+      const { c, depth } = stack.pop()!;
+      if (c.message) {
+        found.push({ message: c.message, parentMessageId: c.parent?.real ? c.parent.id : null, depth });
+      }
+      for (const child of c.children) stack.push({ c: child, depth: depth + 1 });
+    }
+    if (found.length === 0) continue;
+
+    const threadId = root.real ? threadIdForRoot(root.id) : threadIdForSubject(root.message?.subject);
+    const existing = byId.get(threadId);
+    if (existing) {
+      existing.messages.push(...found);
+      continue;
+    }
+    byId.set(threadId, {
+      threadId,
+      rootMessageId: root.real ? root.id : null,
+      subject: root.message?.subject ?? '',
+      messages: found,
+      lastDate: new Date(0),
+    });
+  }
+
+  const position = new Map<T, number>();
+  messages.forEach((m, i) => position.set(m, i));
+  const threads = [...byId.values()];
+  for (const thread of threads) {
+    thread.messages.sort((a, b) =>
+      toTime(a.message.date) - toTime(b.message.date)
+      || (position.get(a.message) ?? 0) - (position.get(b.message) ?? 0));
+    if (!thread.subject) thread.subject = thread.messages[0].message.subject ?? '';
+    thread.lastDate = new Date(Math.max(...thread.messages.map(m => toTime(m.message.date))));
+  }
+  return threads.sort((a, b) => b.lastDate.getTime() - a.lastDate.getTime());
+}
@@ -1,18 +1,34 @@
 /**
  * Stable thread-id derivation.
  *
- * Two messages belong to the same thread if their normalized
- * `(subject, root-from)` tuple matches. Computing this on demand
- * from envelope data is cheap and avoids depending on the IMAP
- * `THREAD` extension (which Stalwart doesn't advertise) or on
- * reconstructing `In-Reply-To` / `References` chains (which agents
- * sometimes forge or strip).
+ * A message's thread is identified by the ROOT of its reply chain,
+ * read from the RFC 5322 headers the way JWZ threading does
+ * (https://www.jwz.org/doc/threading.html):
  *
- * # Normalization rules
+ *   1. the first id in `References` (the conversation's root), else
+ *   2. the first id in `In-Reply-To` (the parent), else
+ *   3. the message's own `Message-ID` (it IS the root).
  *
- *   - Strip every leading `Re:` / `Fwd:` / `Re[2]:` chain. Some
- *     clients chain prefixes (`Re: Re: Fwd: Re: …`), which would
- *     otherwise produce a different thread id for every hop.
+ * Every well-formed reply carries the root in `References`, so the
+ * original and all of its replies hash to the same id even when a
+ * participant edits the subject, and two unrelated "Invoice" mails
+ * from the same vendor stay apart because their Message-IDs differ.
+ * Deriving the id per message means callers that only ever see one
+ * message at a time (the dispatcher's thread cache, the MCP
+ * `get_thread_id` tool) agree with the full threader in `jwz.ts`
+ * without a lookup.
+ *
+ * When a message carries none of the three headers (hand-built test
+ * mail, some gateways) the id falls back to a hash of the normalized
+ * subject, which is what every id was before header threading.
+ *
+ * # Subject normalization rules
+ *
+ *   - Strip every leading reply / forward prefix, including the
+ *     localized ones (`AW:`, `SV:`, `VS:`, `Antw:`, `TR:`, `RE:`,
+ *     `回复:`, `转发:`, `返信:`, …) and counters (`Re[2]:`, `Re(3):`).
+ *     Some clients chain prefixes (`Re: AW: Fwd: Re: …`), which would
+ *     otherwise produce a different subject for every hop.
  *   - Collapse internal whitespace to single spaces.
  *   - Trim leading + trailing whitespace.
  *   - Lower-case for case-insensitive matching.
@@ -22,22 +38,26 @@
  *
  * # Identity hash
  *
- * SHA-256 of `<normalizedSubject>\n<rootFromLower>`, base64url
- * truncated to 16 chars (~12 bytes of entropy = ~10^28 distinct
- * threads; collision-free for any realistic deployment).
- *
- * The root sender is included so two unrelated conversations
- * that share a generic subject ("hello", "follow up") aren't
- * collapsed into one thread. We use the FIRST sender's address
- * on the thread — agents reading a reply pass their own
- * envelope's `from` value, but the thread id stays stable
- * because we re-derive `rootFromAddr` from the cache when
- * looking up an existing thread (see thread-cache.ts).
+ * SHA-256 of `mid\n<root-message-id>` (header threading) or of the
+ * normalized subject (fallback), base64url truncated to 16 chars
+ * (~12 bytes of entropy = ~10^28 distinct threads; collision-free
+ * for any realistic deployment).
  */
 
 import { createHash } from 'node:crypto';
 
-/** Strip every leading "Re:", "Fwd:", "Fw:", "Re[2]:" etc. */
+/**
+ * Reply / forward prefixes across the locales mail clients ship in:
+ * English, German (AW, WG), Scandinavian (SV, VS, VB), Dutch (Antw,
+ * Doorst), French (TR), Italian (Rif), Portuguese / Spanish (Res,
+ * Enc, RV), Polish (Odp, PD), Turkish (YNT, ILT), Chinese, Japanese,
+ * Korean, Russian and Greek. Single-letter prefixes (Italian `R:`,
+ * `I:`) are left out — they collide with real subjects too often.
+ */
+const REPLY_PREFIX =
+  /^\s*(?:re|fwd?|fw|aw|wg|sv|vs|vb|antw|doorst|tr|rif|res|enc|rv|odp|pd|ynt|ilt|回复|回覆|答复|答覆|转发|轉寄|轉發|返信|転送|회신|답장|전달|ответ|отв|пересл|απ|σχετ|πρθ)\s*(?:\[\d+\]|\(\d+\))?\s*[:：]\s*/i;
+
+/** Strip every leading "Re:", "Fwd:", "AW:", "Re[2]:", "回复：" etc. */
 function stripReplyPrefixes(subject: string): string {
   // Cap input length before regex iteration. The combination of
   // `\s*` segments inside the prefix matcher is technically
@@ -47,7 +67,7 @@ function stripReplyPrefixes(subject: string): string {
   let s = subject.length > 1000 ? subject.slice(0, 1000) : subject;
   // Repeat until no more prefixes match — handles chained "Re: Fwd: Re: foo"
   for (;;) {
-    const next = s.replace(/^\s*(?:re|fwd?|fw)\s*(?:\[\d+\])?\s*:\s*/i, '');
+    const next = s.replace(REPLY_PREFIX, '');
     if (next === s) break;
     s = next;
   }
@@ -80,30 +100,79 @@ export function normalizeAddress(addr: string | undefined | null): string {
   return raw.trim().toLowerCase();
 }
 
+/**
+ * Pull the `<id@host>` tokens out of a Message-ID / In-Reply-To /
+ * References value, in header order, without the angle brackets.
+ * Accepts the raw header string or an already-split array (mailparser
+ * hands `references` back as either). Values without any brackets
+ * are taken whole, so a bare `id@host` still works.
+ */
+export function parseMessageIds(value: string | readonly string[] | undefined | null): string[] {
+  if (!value) return [];
+  const out: string[] = [];
+  for (const part of typeof value === 'string' ? [value] : value) {
+    if (typeof part !== 'string') continue;
+    // Bounded for the same reason as normalizeAddress; a References
+    // header past 8 KB is a loop or an attack, not a conversation.
+    const bounded = part.length > 8192 ? part.slice(0, 8192) : part;
+    const bracketed = bounded.match(/<[^<>\s]+>/g);
+    if (bracketed) {
+      for (const id of bracketed) out.push(id.slice(1, -1));
+    } else {
+      const bare = bounded.trim();
+      if (bare && !/\s/.test(bare)) out.push(bare);
+    }
+  }
+  return out;
+}
+
 export interface ThreadIdInput {
   subject?: string | null;
   /** Optional. Kept as a field so call sites that previously
-   *  passed it keep working, but NOT used in the hash. The thread
-   *  id is intentionally subject-only so a reply from a different
-   *  sender (the replier, not the root) still maps to the same
-   *  thread without needing a cache lookup first. The dispatcher's
-   *  legacy `threadIdFromSubject` uses the same convention; this
-   *  function is its disk-safe + hashed equivalent. */
+   *  passed it keep working, but NOT used in the hash. */
   rootFromAddr?: string | null;
+  /** The message's own `Message-ID`. */
+  messageId?: string | null;
+  /** `In-Reply-To` — the parent message. */
+  inReplyTo?: string | null;
+  /** `References` — raw header or split list, root first. */
+  references?: string | readonly string[] | null;
 }
 
 /**
- * Subject-only stable thread id. Collisions between unrelated
- * conversations that genuinely share the same normalized subject
- * ("hello", "follow up") are accepted as the tradeoff for stable
- * threading across replies. In practice agents on different
- * threads use different participants, so the wake-budget +
- * thread-close logic disambiguates downstream.
+ * The Message-ID of the conversation root this message hangs off, or
+ * null when the message carries no threading headers at all.
  */
-export function threadIdFor(input: ThreadIdInput): string {
-  const subject = normalizeSubject(input.subject);
+export function threadRootMessageId(input: ThreadIdInput): string | null {
+  return parseMessageIds(input.references)[0]
+    ?? parseMessageIds(input.inReplyTo)[0]
+    ?? parseMessageIds(input.messageId)[0]
+    ?? null;
+}
+
+/** Hash a root Message-ID into a thread id. */
+export function threadIdForRoot(rootMessageId: string): string {
+  return createHash('sha256')
+    .update(`mid\n${rootMessageId}`)
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+/** Hash a subject into a thread id (the header-less fallback). */
+export function threadIdForSubject(subject: string | undefined | null): string {
   return createHash('sha256')
-    .update(subject)
+    .update(normalizeSubject(subject))
     .digest('base64url')
     .slice(0, 16);
 }
+
+/**
+ * Stable thread id for one message: the hashed conversation root from
+ * its headers, or the hashed normalized subject when it has none.
+ * Passing only `subject` (older call sites, tasks) therefore yields
+ * the subject-hash id.
+ */
+export function threadIdFor(input: ThreadIdInput): string {
+  const root = threadRootMessageId(input);
+  return root ? threadIdForRoot(root) : threadIdForSubject(input.subject);
+}
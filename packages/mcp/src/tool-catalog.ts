@@ -83,6 +83,7 @@ export const TOOL_SETS = {
   /** Less-common mail operations. */
   mail_extras: [
     'forward_email',
+    'read_thread',
     'list_folders',
     'list_folder',
     'mark_read',
@@ -107,12 +108,15 @@ export const TOOL_SETS = {
     'broadcast_email',
   ],
 
-  /** Compose-time helpers — drafts, templates, signatures, scheduling. */
+  /** Compose-time helpers — drafts, templates, signatures, scheduling, campaigns, meeting invites. */
   mail_compose: [
     'manage_drafts',
     'manage_templates',
     'manage_signatures',
     'manage_scheduled',
+    'manage_campaigns',
+    'manage_invites',
+    'respond_to_invite',
     'template_send',
     'import_relay_email',
   ],
@@ -240,7 +244,7 @@ export const SET_DESCRIPTIONS: Record<ToolSetName, string> = {
   essential: 'Always-on baseline — inbox, send/reply, search, agent discover/message/call (RPC), tasks',
   mail_extras: 'Less-common mail ops — forward, folders, mark/move/delete, tags',
   mail_bulk: 'Bulk operations — fan-out read, mass-mark, mass-move, digest',
-  mail_compose: 'Compose-time — drafts, templates, signatures, scheduling',
+  mail_compose: 'Compose-time — drafts, templates, signatures, scheduling, mail merge campaigns, meeting invites and RSVPs',
   mail_safety: 'Outbound safety — pending approvals, rules, spam controls',
   agent_coord: 'Beyond-basic coordination — push wait, task lifecycle (claim/submit), check_messages',
   contacts: 'Address book and your own metadata',
@@ -324,6 +324,14 @@ export const toolDefinitions = [
           },
           description: 'File attachments. Same set is attached to every per-recipient delivery.',
         },
+        bulk: {
+          type: 'boolean',
+          description: 'Mark the broadcast as bulk mail (newsletters, announcements to external people). Each delivery gets List-Unsubscribe / one-click unsubscribe headers, and recipients who already unsubscribed from the list are skipped. Needs a public URL (domain mode or AGENTICMAIL_PUBLIC_URL).',
+        },
+        list: {
+          type: 'string',
+          description: 'Bulk list name (with bulk: true), e.g. "product-updates". Unsubscribes are per list; default "default".',
+        },
       },
       required: ['to', 'subject'],
     },
@@ -508,14 +516,17 @@ export const toolDefinitions = [
   },
   {
     name: 'manage_contacts',
-    description: 'List, add, or delete contacts',
+    description: 'List, add, or delete contacts, or list the recipients who unsubscribed from your bulk mail (action "unsubscribes")',
     inputSchema: {
       type: 'object' as const,
       properties: {
-        action: { type: 'string', enum: ['list', 'add', 'delete'], description: 'Action to perform' },
+        action: { type: 'string', enum: ['list', 'add', 'delete', 'unsubscribes'], description: 'Action to perform' },
         email: { type: 'string', description: 'Contact email (for add)' },
         name: { type: 'string', description: 'Contact name (for add)' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Tags for the contact (for add), e.g. ["vip"]; campaigns can target a tag' },
+        tag: { type: 'string', description: 'Only contacts with this tag (for list)' },
         id: { type: 'string', description: 'Contact ID (for delete)' },
+        list: { type: 'string', description: 'Bulk list name (for unsubscribes; omit for every list)' },
       },
       required: ['action'],
     },
@@ -542,16 +553,111 @@ export const toolDefinitions = [
   },
   {
     name: 'manage_scheduled',
-    description: 'Manage scheduled emails: create a new scheduled email, list pending ones, or cancel one. Accepts flexible time formats for create: ISO 8601, relative ("in 30 minutes"), named ("tomorrow 8am"), day-based ("next monday 9am"), or human-friendly ("02-14-2026 3:30 PM EST").',
+    description: 'Manage scheduled emails: create a one-off or recurring schedule, list them, inspect one (next occurrences and send history), pause, resume, or cancel. Accepts flexible time formats for sendAt: ISO 8601 (a time without Z/offset is read in `timezone`), relative ("in 30 minutes"), named ("tomorrow 8am"), day-based ("next monday 9am"), or human-friendly ("02-14-2026 3:30 PM EST"). Recurring schedules take an RRULE ("FREQ=WEEKLY;BYDAY=MO,FR") or cron ("0 9 * * 1-5") plus an IANA timezone; failed sends are retried with exponential backoff.',
     inputSchema: {
       type: 'object' as const,
       properties: {
-        action: { type: 'string', enum: ['create', 'list', 'cancel'], description: 'Action to perform (default: create)' },
+        action: { type: 'string', enum: ['create', 'list', 'get', 'pause', 'resume', 'cancel'], description: 'Action to perform (default: create)' },
         to: { type: 'string', description: 'Recipient email (for create)' },
-        subject: { type: 'string', description: 'Email subject (for create)' },
-        text: { type: 'string', description: 'Body text (for create)' },
-        sendAt: { type: 'string', description: 'When to send (for create)' },
-        id: { type: 'string', description: 'Scheduled email ID (for cancel)' },
+        subject: { type: 'string', description: 'Email subject (for create; optional with templateId). {{variables}} are substituted' },
+        text: { type: 'string', description: 'Body text (for create; optional with templateId)' },
+        sendAt: { type: 'string', description: 'When to send (for create). For recurring schedules this is the series start and may be omitted' },
+        recurrence: { type: 'string', description: 'RRULE or 5-field cron expression (for create)' },
+        timezone: { type: 'string', description: 'IANA timezone the schedule runs in, e.g. Europe/Berlin (default UTC)' },
+        sendWindow: {
+          type: 'object',
+          description: 'Only send inside these hours, e.g. { days: ["mon","tue","wed","thu","fri"], start: "09:00", end: "17:00" }',
+          properties: {
+            days: { type: 'array', items: { type: 'string' } },
+            start: { type: 'string' },
+            end: { type: 'string' },
+          },
+        },
+        templateId: { type: 'string', description: 'Template to render at send time instead of a fixed body (for create)' },
+        variables: { type: 'object', description: 'Values for {{placeholders}}; {{date}} is the local send date' },
+        maxAttempts: { type: 'number', description: 'Send attempts per occurrence before giving up (default 4)' },
+        id: { type: 'string', description: 'Scheduled email ID (for get, pause, resume, cancel)' },
+      },
+      required: ['action'],
+    },
+  },
+  {
+    name: 'respond_to_invite',
+    description: 'Answer a meeting invite in your inbox (read_email shows one under "Calendar invite"). Sends the organizer a standard iCalendar REPLY with your answer, so it lands in their calendar.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        uid: { type: 'number', description: 'UID of the invite email' },
+        response: { type: 'string', enum: ['accepted', 'declined', 'tentative'], description: 'Your answer' },
+        comment: { type: 'string', description: 'Optional note to the organizer' },
+        folder: { type: 'string', description: 'Folder the invite is in (default: INBOX)' },
+      },
+      required: ['uid', 'response'],
+    },
+  },
+  {
+    name: 'manage_invites',
+    description: 'Send meeting invites from your address and track who accepted. create sends an iCalendar REQUEST to every attendee; update reschedules or edits it (attendees are asked again when the time changes); cancel sends a CANCEL. Attendee answers are recorded as their replies arrive.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        action: { type: 'string', enum: ['create', 'list', 'get', 'update', 'cancel'], description: 'Action to perform' },
+        uid: { type: 'string', description: 'Invite UID (for get, update, cancel)' },
+        to: { type: 'array', items: { type: 'string' }, description: 'Attendee email addresses (for create; replaces the list on update)' },
+        summary: { type: 'string', description: 'Meeting title (for create, update)' },
+        start: { type: 'string', description: 'ISO 8601 start; a time without Z/offset is read in `timezone`. YYYY-MM-DD for an all-day event' },
+        end: { type: 'string', description: 'ISO 8601 end (or use durationMinutes; default 30 minutes)' },
+        durationMinutes: { type: 'number', description: 'Meeting length in minutes' },
+        timezone: { type: 'string', description: 'IANA timezone the meeting is in, e.g. Europe/Berlin (default UTC)' },
+        allDay: { type: 'boolean', description: 'All-day event (start/end are dates)' },
+        location: { type: 'string', description: 'Where the meeting is (room, address or call link)' },
+        description: { type: 'string', description: 'Agenda or notes' },
+        recurrence: { type: 'string', description: 'RRULE for a repeating meeting, e.g. FREQ=WEEKLY;BYDAY=TU;COUNT=6' },
+        comment: { type: 'string', description: 'Note added to the update or cancellation email' },
+        status: { type: 'string', enum: ['confirmed', 'cancelled'], description: 'Only invites with this status (for list)' },
+      },
+      required: ['action'],
+    },
+  },
+  {
+    name: 'manage_campaigns',
+    description: 'Mail merge campaigns: send one personalised email per recipient from a storage table, CSV text, or your contacts with a tag. The subject and body use {{field}} placeholders filled from each recipient\'s columns. Sends are throttled (perHour), start at startAt, respect an optional send window, and each one passes the outbound guard. Track per-recipient progress (queued, sent, blocked, skipped, failed, bounced, replied) and pause, resume or cancel.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        action: { type: 'string', enum: ['create', 'list', 'get', 'pause', 'resume', 'cancel'], description: 'Action to perform' },
+        name: { type: 'string', description: 'Campaign name (for create)' },
+        source: {
+          type: 'object',
+          description: 'Recipients (for create): { type: "table", table, emailColumn?, nameColumn? }, { type: "csv", csv, emailColumn?, nameColumn? } or { type: "contacts", tag? }. emailColumn defaults to "email"',
+          properties: {
+            type: { type: 'string', enum: ['table', 'csv', 'contacts'] },
+            table: { type: 'string' },
+            csv: { type: 'string' },
+            tag: { type: 'string' },
+            emailColumn: { type: 'string' },
+            nameColumn: { type: 'string' },
+          },
+        },
+        subject: { type: 'string', description: 'Subject with {{field}} placeholders (for create; optional with templateId)' },
+        text: { type: 'string', description: 'Body text with {{field}} placeholders (for create; optional with templateId)' },
+        html: { type: 'string', description: 'HTML body (for create)' },
+        templateId: { type: 'string', description: 'Saved template to use for the subject and body (for create)' },
+        perHour: { type: 'number', description: 'Messages per hour, 1-3600 (default 60)' },
+        startAt: { type: 'string', description: 'ISO 8601 start time; a time without Z/offset is read in `timezone` (default: now)' },
+        timezone: { type: 'string', description: 'IANA timezone for startAt and sendWindow (default UTC)' },
+        sendWindow: {
+          type: 'object',
+          description: 'Only send inside these hours, e.g. { days: ["mon","tue","wed","thu","fri"], start: "09:00", end: "17:00" }',
+          properties: {
+            days: { type: 'array', items: { type: 'string' } },
+            start: { type: 'string' },
+            end: { type: 'string' },
+          },
+        },
+        list: { type: 'string', description: 'Mailing list name; adds one-click unsubscribe links and skips recipients who unsubscribed' },
+        id: { type: 'string', description: 'Campaign ID (for get, pause, resume, cancel)' },
+        status: { type: 'string', description: 'Only recipients with this status (for get)' },
       },
       required: ['action'],
     },
@@ -807,15 +913,18 @@ export const toolDefinitions = [
   },
   {
     name: 'manage_templates',
-    description: 'List, create, or delete email templates',
+    description: 'List, create, preview, or delete email templates. Templates use {{name}}, {{name | default: "x"}}, {{#if x}}…{{else}}…{{/if}}, {{#unless x}}, {{#each items}}…{{/each}} and {{> signature}}; values are HTML-escaped in the HTML body. preview renders without sending and lists undefined variables.',
     inputSchema: {
       type: 'object' as const,
       properties: {
-        action: { type: 'string', enum: ['list', 'create', 'delete'], description: 'Action to perform' },
-        id: { type: 'string', description: 'Template ID (for delete)' },
+        action: { type: 'string', enum: ['list', 'create', 'preview', 'delete'], description: 'Action to perform' },
+        id: { type: 'string', description: 'Template ID (for preview, delete)' },
         name: { type: 'string', description: 'Template name (for create)' },
         subject: { type: 'string', description: 'Template subject (for create)' },
         text: { type: 'string', description: 'Template body text (for create)' },
+        html: { type: 'string', description: 'Template HTML body (for create)' },
+        schema: { type: 'object', description: 'JSON Schema for the variables: { required: ["name"], properties: { name: { type: "string" }, plan: { type: "string", default: "basic" } } } (for create)' },
+        variables: { type: 'object', description: 'Variables to render with (for preview)' },
       },
       required: ['action'],
     },
@@ -918,7 +1027,7 @@ export const toolDefinitions = [
   },
   {
     name: 'template_send',
-    description: 'Send an email using a saved template with variable substitution. Variables like {{name}} are replaced.',
+    description: 'Send an email using a saved template. Variables like {{name}} are filled in; the send is refused if a variable is missing or fails the template\'s schema.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -938,16 +1047,23 @@ export const toolDefinitions = [
   },
   {
     name: 'manage_rules',
-    description: 'Manage server-side email rules that auto-process incoming messages (move, tag, mark read, delete).',
+    description: 'Manage server-side email rules that auto-process incoming messages (tag, move, mark read, delete, forward, auto-reply from a template, assign a task). Rules run highest priority first; a matching rule with stop=false lets later rules run too.',
     inputSchema: {
       type: 'object' as const,
       properties: {
-        action: { type: 'string', enum: ['list', 'create', 'delete'], description: 'Action to perform' },
-        id: { type: 'string', description: 'Rule ID (for delete)' },
-        name: { type: 'string', description: 'Rule name (for create)' },
-        priority: { type: 'number', description: 'Higher priority rules match first (for create)' },
-        conditions: { type: 'object', description: 'Match conditions: { from_contains?, subject_contains?, subject_regex?, to_contains?, has_attachment? }' },
-        actions: { type: 'object', description: 'Actions on match: { move_to?, mark_read?, delete?, add_tags? }' },
+        action: { type: 'string', enum: ['list', 'create', 'update', 'delete', 'test'], description: 'Action to perform. "test" is a dry-run: it shows what a rule (pass conditions/actions, or id) or the whole enabled rule set (neither) would do to existing mail, without changing anything' },
+        id: { type: 'string', description: 'Rule ID (for update, delete, test)' },
+        name: { type: 'string', description: 'Rule name (for create, update)' },
+        priority: { type: 'number', description: 'Higher priority rules match first (for create, update)' },
+        enabled: { type: 'boolean', description: 'Enable or disable the rule (for create, update)' },
+        stop: { type: 'boolean', description: 'Stop evaluating later rules when this one matches (default true)' },
+        conditions: { type: 'object', description: 'Condition tree; keys in one object are ANDed. Combinators: { all: [...] }, { any: [...] }, { not: {...} }. Tests: from_contains, from_exact, to_contains, to_exact, cc_contains, cc_exact, subject_contains, subject_regex, body_contains, body_regex, header: { name, contains?|equals?|regex?|exists? }, spam_score_gte, spam_score_lt, route_class, has_attachment' },
+        uid: { type: 'number', description: 'Message UID to test against (for test)' },
+        folder: { type: 'string', description: 'Folder to test against (for test, default INBOX)' },
+        since: { type: 'string', description: 'Only test messages on/after this date (for test, ISO 8601)' },
+        before: { type: 'string', description: 'Only test messages before this date (for test, ISO 8601)' },
+        limit: { type: 'number', description: 'Newest N messages to test (for test, default 50, max 200)' },
+        actions: { type: 'array', items: { type: 'object' }, description: 'Ordered steps: { type: "tag", tags: [...] }, { type: "mark_read" }, { type: "move", folder }, { type: "delete" }, { type: "forward", to, note? }, { type: "auto_reply", template, variables? }, { type: "assign_task", assignee, taskType?, task? }. The legacy object { move_to?, mark_read?, delete?, add_tags? } is still accepted.' },
       },
       required: ['action'],
     },
@@ -985,7 +1101,7 @@ export const toolDefinitions = [
   },
   {
     name: 'get_thread_id',
-    description: 'Resolve the stable thread id for a message UID. Use this BEFORE calling save_thread_memory or when you want to inspect the cache for a thread. Pass the UID of any message on the thread (root or reply) — the API normalises the subject, resolves the canonical root sender, and returns the same id every time. `folder` defaults to INBOX.',
+    description: 'Resolve the stable thread id for a message UID. Use this BEFORE calling save_thread_memory or read_thread. Pass the UID of any message on the thread (root or reply) — the id comes from the conversation root in the Message-ID / In-Reply-To / References headers (the normalised subject when a message has none), so it is the same for every message on the thread. `folder` defaults to INBOX.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -995,6 +1111,19 @@ export const toolDefinitions = [
       required: ['uid'],
     },
   },
+  {
+    name: 'read_thread',
+    description: 'Read a whole conversation in order — every message of the thread across INBOX and Sent, oldest first, threaded by Message-ID / In-Reply-To / References (so a reply with an edited subject still belongs). Pass `threadId` (from get_thread_id or the /mail/threads listing) or the `uid` of any message on the thread. Bodies are included for the newest `maxBodies` messages (default 5, 0 for headers only).',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        threadId: { type: 'string', description: 'Thread id from get_thread_id.' },
+        uid: { type: 'number', description: 'UID of any message on the thread (alternative to threadId).' },
+        folder: { type: 'string', description: 'Folder of `uid`. Defaults to INBOX.' },
+        maxBodies: { type: 'number', description: 'How many of the newest messages to include bodies for (0-20, default 5).' },
+      },
+    },
+  },
   {
     name: 'tail_worker',
     description: 'Tail the log of a running (or recently-finished) dispatcher worker. Use this when check_activity shows a worker has been running a long time or is marked stale, and you want to see what it is actually doing — every tool call, tool result, and assistant chunk is logged as a one-liner. Returns the last N lines (default 80). The workerId comes from check_activity output. Requires master key.',
@@ -1069,11 +1198,11 @@ export const toolDefinitions = [
   },
   {
     name: 'manage_spam',
-    description: 'Manage spam: list spam folder, report a message as spam, mark as not-spam, or get the spam score of a message. Emails are auto-scored on arrival; high-scoring messages are moved to Spam automatically.',
+    description: 'Manage spam: list spam folder, report a message as spam, mark as not-spam, get the spam score of a message with an explanation, or show what your spam model has learned. Emails are auto-scored on arrival; high-scoring messages are moved to Spam automatically. Reporting and not-spam train your personal spam model.',
     inputSchema: {
       type: 'object' as const,
       properties: {
-        action: { type: 'string', enum: ['list', 'report', 'not_spam', 'score'], description: 'Action to perform' },
+        action: { type: 'string', enum: ['list', 'report', 'not_spam', 'score', 'model'], description: 'Action to perform' },
         uid: { type: 'number', description: 'Message UID (for report, not_spam, score)' },
         folder: { type: 'string', description: 'Source folder (for report/score, default: INBOX)' },
         limit: { type: 'number', description: 'Max messages to list (for list, default: 20)' },
@@ -1671,7 +1800,7 @@ export const toolDefinitions = [
   // ─── Persistent agent memory ───────────────────────────────────────
   {
     name: 'memory',
-    description: 'Your persistent, long-term memory — knowledge that survives across every conversation, like a human employee learning on the job. Use `set` to remember something durable (a preference, a fact, a correction, a learned skill); `search` to recall by topic; `list` to browse; `get` to read one entry; `delete` to forget. Memory is private to you and persists forever unless it decays from disuse or you delete it. Store things you would want to still know weeks from now — not transient task state.',
+    description: 'Your persistent, long-term memory — knowledge that survives across every conversation, like a human employee learning on the job. Use `set` to remember something durable (a preference, a fact, a correction, a learned skill); `search` to recall by topic; `list` to browse; `get` to read one entry; `delete` to forget. Memory is private to you and persists forever unless it decays from disuse or you delete it. If you have been granted shared memory spaces (teams of agents sharing client facts), `search` also recalls from them, and `set` / `list` with `space` write to or browse one. Store things you would want to still know weeks from now — not transient task state.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -1682,8 +1811,10 @@ export const toolDefinitions = [
         importance: { type: 'string', enum: ['critical', 'high', 'normal', 'low'], description: 'set: how important this is (default: normal). critical entries never decay.' },
         tags: { type: 'array', items: { type: 'string' }, description: 'set: optional tags.' },
         query: { type: 'string', description: 'search: the topic to recall.' },
+        mode: { type: 'string', enum: ['hybrid', 'semantic', 'lexical'], description: 'search: hybrid (default) matches by meaning and keywords; semantic by meaning only ("refund" finds "money back"); lexical by exact keywords only.' },
         id: { type: 'string', description: 'get | delete: the memory entry id.' },
         limit: { type: 'number', description: 'search | list: max entries to return (default 50).' },
+        space: { type: 'string', description: 'set | list: a shared memory space you have been granted, instead of your personal memory (set needs write access).' },
       },
       required: ['action'],
     },
@@ -2030,9 +2161,14 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
         return `Email NOT sent — blocked by outbound guard.\n${result.summary}\n\nPending ID: ${result.pendingId}\nYour owner has been notified via email with the full content for review.\n\nYou MUST now:\n1. Inform your owner in this conversation that the email was blocked and needs their approval.\n2. Mention the recipient, subject, and why it was flagged.\n3. If this email is urgent or has a deadline, tell your owner about the time sensitivity.\n4. Periodically check with manage_pending_emails(action='list') and follow up with your owner if still pending.`;
       }
 
+      // Over the outbound sending quota and the policy queues instead of failing
+      if (result?.queued && result?.queueId) {
+        return `Email NOT sent yet — you are over your outbound sending quota (${result.quota?.limit ?? 'limit'} of ${result.quota?.max ?? '?'}). It is queued and will go out automatically after ${result.sendAfter}.\nQueue ID: ${result.queueId}\nDo not resend it, and slow down before sending more external email.`;
+      }
+
       let response = `Email sent successfully. Message ID: ${result?.messageId ?? 'unknown'}`;
       if (result?.outboundWarnings?.length) {
-        response += `\n\n--- Outbound Guard ---\n[WARNING] ${result.outboundWarnings.length} potential issue(s):\n${result.outboundWarnings.map((w: any) => `  [${w.severity?.toUpperCase()}] ${w.description}: ${w.match}`).join('\n')}`;
+        response += `\n\n--- Outbound Guard ---\n[WARNING] ${result.outboundWarnings.length} potential issue(s):\n${result.outboundWarnings.map((w: any) => `  [${w.severity?.toUpperCase()}] ${w.description}: ${w.match}${w.action === 'redact' ? ' (redacted before sending)' : ''}`).join('\n')}`;
       }
       return response;
     }
@@ -2063,7 +2199,7 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
           }))
         : undefined;
 
-      const results: Array<{ to: string; status: 'sent' | 'blocked' | 'error'; detail: string }> = [];
+      const results: Array<{ to: string; status: 'sent' | 'blocked' | 'queued' | 'skipped' | 'error'; detail: string }> = [];
       for (const recipient of recipients) {
         const sendBody: Record<string, unknown> = {
           to: recipient,
@@ -2073,12 +2209,18 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
         };
         if (attachments) sendBody.attachments = attachments;
         if (args.wake !== undefined) sendBody.wake = args.wake;
+        if (args.bulk) sendBody.bulk = true;
+        if (args.bulk && args.list) sendBody.list = args.list;
 
         try {
           const result = await apiRequest('POST', '/mail/send', sendBody);
           if (result?.blocked && result?.pendingId) {
             scheduleFollowUp(result.pendingId, recipient, String(args.subject || '(no subject)'), makePendingCheck(result.pendingId));
             results.push({ to: recipient, status: 'blocked', detail: `pendingId=${result.pendingId} (${result.summary ?? 'outbound guard'})` });
+          } else if (result?.queued && result?.queueId) {
+            results.push({ to: recipient, status: 'queued', detail: `queueId=${result.queueId} (over quota, sends after ${result.sendAfter})` });
+          } else if (result?.skipped) {
+            results.push({ to: recipient, status: 'skipped', detail: `unsubscribed from list "${result.list}" on ${result.unsubscribedAt}` });
           } else {
             results.push({ to: recipient, status: 'sent', detail: `messageId=${result?.messageId ?? 'unknown'}` });
           }
@@ -2089,16 +2231,24 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
 
       const sent = results.filter(r => r.status === 'sent').length;
       const blocked = results.filter(r => r.status === 'blocked').length;
+      const queued = results.filter(r => r.status === 'queued').length;
+      const skipped = results.filter(r => r.status === 'skipped').length;
       const errored = results.filter(r => r.status === 'error').length;
-      const header = `Broadcast complete: ${sent} sent, ${blocked} blocked, ${errored} errored (of ${recipients.length} recipients).`;
+      const header = `Broadcast complete: ${sent} sent, ${blocked} blocked, ${queued > 0 ? `${queued} queued, ` : ''}${skipped > 0 ? `${skipped} skipped, ` : ''}${errored} errored (of ${recipients.length} recipients).`;
       const lines = results.map(r => {
-        const tag = r.status === 'sent' ? '[SENT]' : r.status === 'blocked' ? '[BLOCKED]' : '[ERROR]';
+        const tag = r.status === 'sent' ? '[SENT]' : r.status === 'blocked' ? '[BLOCKED]' : r.status === 'queued' ? '[QUEUED]' : r.status === 'skipped' ? '[SKIPPED]' : '[ERROR]';
         return `  ${tag} ${r.to} — ${r.detail}`;
       });
       let response = `${header}\n${lines.join('\n')}`;
       if (blocked > 0) {
         response += `\n\nBlocked deliveries are awaiting owner approval. Use manage_pending_emails(action='list') to review and follow up.`;
       }
+      if (queued > 0) {
+        response += `\n\nQueued deliveries were over your outbound sending quota and will go out automatically — do not resend them.`;
+      }
+      if (skipped > 0) {
+        response += `\n\nSkipped recipients unsubscribed from this list. Do not email them this kind of mail again; manage_contacts(action='unsubscribes') lists them.`;
+      }
       return response;
     }
 
@@ -2139,6 +2289,17 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
           lines.push(`  - ${att.filename} (${att.contentType}, ${Math.round(att.size / 1024)}KB)`);
         }
       }
+      for (const ev of result.calendar?.events ?? []) {
+        lines.push('---');
+        lines.push(`Calendar invite${result.calendar.method ? ` (${result.calendar.method})` : ''}: ${ev.summary ?? '(no title)'}`);
+        if (ev.start) lines.push(`  When: ${ev.start.date}${ev.end ? ` – ${ev.end.date}` : ''}${ev.start.tzid ? ` (${ev.start.tzid})` : ''}${ev.start.allDay ? ' (all day)' : ''}`);
+        if (ev.recurrence?.length) lines.push(`  Repeats: ${ev.recurrence.join('; ')}`);
+        if (ev.location) lines.push(`  Where: ${ev.location}`);
+        if (ev.organizer) lines.push(`  Organizer: ${ev.organizer.address}`);
+        for (const a of ev.attendees ?? []) lines.push(`  Attendee: ${a.address}${a.partstat ? ` ${a.partstat}` : ''}`);
+        lines.push(`  UID: ${ev.uid} (sequence ${ev.sequence})`);
+        if (result.calendar.method === 'REQUEST') lines.push(`  Answer with respond_to_invite (uid ${uid}).`);
+      }
       const secSection = mcpBuildSecuritySection(result.security, result.attachments);
       if (secSection) lines.push(secSection);
       return lines.filter(line => line !== null).join('\n');
@@ -2273,7 +2434,7 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
 
       let response = `Reply sent to ${to}. Message ID: ${sendResult?.messageId ?? 'unknown'}`;
       if (sendResult?.outboundWarnings?.length) {
-        response += `\n\n--- Outbound Guard ---\n${sendResult.outboundWarnings.map((w: any) => `  [${w.severity?.toUpperCase()}] ${w.description}`).join('\n')}`;
+        response += `\n\n--- Outbound Guard ---\n${sendResult.outboundWarnings.map((w: any) => `  [${w.severity?.toUpperCase()}] ${w.description}${w.action === 'redact' ? ' (redacted before sending)' : ''}`).join('\n')}`;
       }
       return response;
     }
@@ -2313,7 +2474,7 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
 
       let response = `Forwarded to ${args.to}. Message ID: ${fwdResult?.messageId ?? 'unknown'}`;
       if (fwdResult?.outboundWarnings?.length) {
-        response += `\n\n--- Outbound Guard ---\n${fwdResult.outboundWarnings.map((w: any) => `  [${w.severity?.toUpperCase()}] ${w.description}`).join('\n')}`;
+        response += `\n\n--- Outbound Guard ---\n${fwdResult.outboundWarnings.map((w: any) => `  [${w.severity?.toUpperCase()}] ${w.description}${w.action === 'redact' ? ' (redacted before sending)' : ''}`).join('\n')}`;
       }
       return response;
     }
@@ -2372,13 +2533,16 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
 
     case 'manage_contacts': {
       if (args.action === 'list') {
-        const r = await apiRequest('GET', '/contacts');
+        const query = args.tag ? `?tag=${encodeURIComponent(String(args.tag))}` : '';
+        const r = await apiRequest('GET', `/contacts${query}`);
         if (!r?.contacts?.length) return 'No contacts.';
-        return r.contacts.map((c: any) => `${c.name || '(no name)'} <${c.email}>`).join('\n');
+        return r.contacts.map((c: any) =>
+          `${c.name || '(no name)'} <${c.email}>${c.tags?.length ? ` [${c.tags.join(', ')}]` : ''}`,
+        ).join('\n');
       }
       if (args.action === 'add') {
         if (!args.email) throw new Error('email is required');
-        await apiRequest('POST', '/contacts', { email: args.email, name: args.name });
+        await apiRequest('POST', '/contacts', { email: args.email, name: args.name, tags: args.tags });
         return `Contact added: ${args.name || ''} <${args.email}>`;
       }
       if (args.action === 'delete') {
@@ -2386,6 +2550,12 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
         await apiRequest('DELETE', `/contacts/${args.id}`);
         return 'Contact deleted.';
       }
+      if (args.action === 'unsubscribes') {
+        const query = args.list ? `?list=${encodeURIComponent(String(args.list))}` : '';
+        const r = await apiRequest('GET', `/contacts/unsubscribes${query}`);
+        if (!r?.unsubscribes?.length) return 'No unsubscribes.';
+        return r.unsubscribes.map((u: any) => `${u.address} — list "${u.list}", ${u.createdAt} (${u.source})`).join('\n');
+      }
       throw new Error('Invalid action');
     }
 
@@ -2425,9 +2595,32 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
         const r = await apiRequest('GET', '/scheduled');
         if (!r?.scheduled?.length) return 'No scheduled emails.';
         return r.scheduled.map((s: any) =>
-          `[${s.id}] To: ${s.to_addr} | Subject: ${s.subject} | Send at: ${s.send_at} | Status: ${s.status}`
+          `[${s.id}] To: ${s.to_addr} | Subject: ${s.subject || '(template)'} | Send at: ${s.send_at} | Status: ${s.status}`
+          + (s.recurrence ? ` | Repeats: ${s.recurrence} (${s.timezone})` : '')
         ).join('\n');
       }
+      if (action === 'get') {
+        if (!args.id) throw new Error('id is required');
+        const r = await apiRequest('GET', `/scheduled/${args.id}`);
+        const s = r?.scheduled;
+        if (!s) return 'Scheduled email not found.';
+        const lines = [
+          `[${s.id}] To: ${s.to_addr} | Status: ${s.status}${s.recurrence ? ` | Repeats: ${s.recurrence} (${s.timezone})` : ''}`,
+          `Next send: ${s.send_at}`,
+        ];
+        if (r.upcoming?.length) lines.push(`Upcoming: ${r.upcoming.join(', ')}`);
+        for (const run of r.runs ?? []) {
+          lines.push(`  ${run.occurrence_at} ${run.status} (attempts: ${run.attempts})${run.error ? ` — ${run.error}` : ''}`);
+        }
+        return lines.join('\n');
+      }
+      if (action === 'pause' || action === 'resume') {
+        if (!args.id) throw new Error('id is required');
+        const r = await apiRequest('POST', `/scheduled/${args.id}/${action}`);
+        return action === 'pause'
+          ? 'Scheduled email paused.'
+          : `Scheduled email resumed${r?.sendAt ? `; next send ${r.sendAt}` : ` (${r?.status})`}.`;
+      }
       if (action === 'cancel') {
         if (!args.id) throw new Error('id is required');
         await apiRequest('DELETE', `/scheduled/${args.id}`);
@@ -2436,10 +2629,113 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
       // create
       const r = await apiRequest('POST', '/scheduled', {
         to: args.to, subject: args.subject, text: args.text, sendAt: args.sendAt,
+        recurrence: args.recurrence, timezone: args.timezone, sendWindow: args.sendWindow,
+        templateId: args.templateId, variables: args.variables, maxAttempts: args.maxAttempts,
       });
+      if (args.recurrence) {
+        return `Recurring email scheduled. First send ${r?.sendAt}. ID: ${r?.id}`
+          + (r?.upcoming?.length ? `\nUpcoming: ${r.upcoming.join(', ')}` : '');
+      }
       return `Email scheduled for ${r?.sendAt}. ID: ${r?.id}`;
     }
 
+    case 'respond_to_invite': {
+      const uid = Number(args.uid);
+      if (!uid || uid < 1 || !Number.isInteger(uid)) throw new Error('uid must be a positive integer');
+      const r = await apiRequest('POST', '/calendar/respond', {
+        uid, response: args.response, comment: args.comment, folder: args.folder,
+      });
+      return `Sent ${String(r?.partstat).toLowerCase()} reply to ${r?.organizer}.`;
+    }
+
+    case 'manage_invites': {
+      const action = args.action;
+      const describe = (i: any) => {
+        const answers = (i.attendees ?? []).map((a: any) => `  ${a.address} ${a.partstat}`);
+        return [
+          `[${i.uid}] ${i.summary} | ${i.status} | ${i.allDay ? `${i.start.slice(0, 10)} (all day)` : `${i.start} – ${i.end}`}`
+            + `${i.timezone ? ` (${i.timezone})` : ''}${i.recurrence ? ` | ${i.recurrence}` : ''}`,
+          ...answers,
+        ].join('\n');
+      };
+      const path = (uid: unknown) => {
+        if (!uid) throw new Error('uid is required');
+        return `/calendar/invites/${encodeURIComponent(String(uid))}`;
+      };
+      const fields = {
+        to: args.to, summary: args.summary, start: args.start, end: args.end, durationMinutes: args.durationMinutes,
+        timezone: args.timezone, allDay: args.allDay, location: args.location, description: args.description,
+        recurrence: args.recurrence, comment: args.comment,
+      };
+      if (action === 'list') {
+        const query = args.status ? `?status=${encodeURIComponent(String(args.status))}` : '';
+        const r = await apiRequest('GET', `/calendar/invites${query}`);
+        if (!r?.invites?.length) return 'No invites.';
+        return r.invites.map(describe).join('\n');
+      }
+      if (action === 'get') return describe(await apiRequest('GET', path(args.uid)));
+      if (action === 'create') {
+        const r = await apiRequest('POST', '/calendar/invites', fields);
+        return `Invite sent to ${r?.attendees?.length ?? 0} attendee(s).\n${describe(r)}`;
+      }
+      if (action === 'update') {
+        const r = await apiRequest('PATCH', path(args.uid), fields);
+        return `Updated invite sent (sequence ${r?.sequence}).\n${describe(r)}`;
+      }
+      if (action === 'cancel') {
+        await apiRequest('POST', `${path(args.uid)}/cancel`, { comment: args.comment });
+        return 'Invite cancelled; attendees were sent a cancellation.';
+      }
+      throw new Error('Invalid action');
+    }
+
+    case 'manage_campaigns': {
+      const action = args.action;
+      const progress = (c: any) => Object.entries(c.progress ?? {})
+        .filter(([, n]) => (n as number) > 0).map(([k, n]) => `${k} ${n}`).join(', ');
+      if (action === 'list') {
+        const r = await apiRequest('GET', '/campaigns');
+        if (!r?.campaigns?.length) return 'No campaigns.';
+        return r.campaigns.map((c: any) =>
+          `[${c.id}] ${c.name} | ${c.status} | ${c.total} recipients (${progress(c)}) | ${c.perHour}/hour`,
+        ).join('\n');
+      }
+      if (action === 'get') {
+        if (!args.id) throw new Error('id is required');
+        const query = args.status ? `?status=${encodeURIComponent(String(args.status))}` : '';
+        const r = await apiRequest('GET', `/campaigns/${args.id}${query}`);
+        const c = r?.campaign;
+        if (!c) return 'Campaign not found.';
+        const lines = [
+          `[${c.id}] ${c.name} | ${c.status} | ${c.perHour}/hour${c.list ? ` | list "${c.list}"` : ''}`,
+          `Progress: ${progress(c)}`,
+          ...(c.status === 'active' ? [`Next send: ${c.nextSendAt}`] : []),
+        ];
+        for (const rcpt of r.recipients ?? []) {
+          lines.push(`  ${rcpt.address} ${rcpt.status}${rcpt.error ? ` — ${rcpt.error}` : ''}`);
+        }
+        return lines.join('\n');
+      }
+      if (action === 'pause' || action === 'resume' || action === 'cancel') {
+        if (!args.id) throw new Error('id is required');
+        const r = await apiRequest('POST', `/campaigns/${args.id}/${action}`);
+        if (action === 'cancel') return `Campaign cancelled; ${r?.cancelled ?? 0} queued recipient(s) will not be sent.`;
+        return action === 'pause' ? 'Campaign paused.' : `Campaign resumed; next send ${r?.nextSendAt}.`;
+      }
+      if (action === 'create') {
+        const r = await apiRequest('POST', '/campaigns', {
+          name: args.name, source: args.source, subject: args.subject, text: args.text, html: args.html,
+          templateId: args.templateId, perHour: args.perHour, startAt: args.startAt, timezone: args.timezone,
+          sendWindow: args.sendWindow, list: args.list,
+        });
+        const dropped = [r?.invalid ? `${r.invalid} without a valid address` : '', r?.duplicates ? `${r.duplicates} duplicate(s)` : '']
+          .filter(Boolean).join(', ');
+        return `Campaign created: ${r?.recipients} recipient(s), first send ${r?.startAt}. ID: ${r?.id}`
+          + (dropped ? `\nLeft out: ${dropped}.` : '');
+      }
+      throw new Error('Invalid action');
+    }
+
     case 'create_folder': {
       if (!args.name) throw new Error('name is required');
       await apiRequest('POST', '/mail/folders', { name: args.name });
@@ -2919,10 +3215,24 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
         return r.templates.map((t: any) => `[${t.id}] ${t.name}: ${t.subject}`).join('\n');
       }
       if (args.action === 'create') {
-        if (!args.name || !args.subject || !args.text) throw new Error('name, subject, and text are required');
-        const r = await apiRequest('POST', '/templates', { name: args.name, subject: args.subject, text: args.text });
+        if (!args.name || !args.subject || (!args.text && !args.html)) throw new Error('name, subject, and text or html are required');
+        const r = await apiRequest('POST', '/templates', {
+          name: args.name, subject: args.subject, text: args.text, html: args.html, schema: args.schema,
+        });
         return `Template "${args.name}" created. ID: ${r?.id}`;
       }
+      if (args.action === 'preview') {
+        if (!args.id) throw new Error('id is required');
+        const r = await apiRequest('POST', `/templates/${args.id}/preview`, { variables: args.variables });
+        const lines = [`Subject: ${r?.subject}`];
+        if (r?.text !== undefined) lines.push('', r.text);
+        if (r?.html !== undefined) lines.push('', '--- HTML ---', r.html);
+        if (r?.errors?.length) {
+          lines.push('', 'Errors (sending would be refused):');
+          for (const e of r.errors) lines.push(`  ${e.part ? `${e.part}: ` : ''}${e.path} ${e.message}`);
+        }
+        return lines.join('\n');
+      }
       if (args.action === 'delete') {
         if (!args.id) throw new Error('id is required');
         await apiRequest('DELETE', `/templates/${args.id}`);
@@ -3218,21 +3528,55 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
         const r = await apiRequest('GET', '/rules');
         if (!r?.rules?.length) return 'No email rules configured.';
         return r.rules.map((rule: any) =>
-          `[${rule.id.slice(0, 8)}] ${rule.name} (priority: ${rule.priority}, enabled: ${rule.enabled})\n  Conditions: ${JSON.stringify(rule.conditions)}\n  Actions: ${JSON.stringify(rule.actions)}`
+          `[${rule.id.slice(0, 8)}] ${rule.name} (priority: ${rule.priority}, enabled: ${rule.enabled}, stop: ${rule.stop}, hits: ${rule.hit_count ?? 0}${rule.last_matched_at ? `, last matched: ${rule.last_matched_at}` : ''})\n  Conditions: ${JSON.stringify(rule.conditions)}\n  Actions: ${JSON.stringify(rule.actions)}`
         ).join('\n');
       }
       if (args.action === 'create') {
         const r = await apiRequest('POST', '/rules', {
-          name: args.name, priority: args.priority, conditions: args.conditions, actions: args.actions,
+          name: args.name, priority: args.priority, enabled: args.enabled, stop: args.stop,
+          conditions: args.conditions, actions: args.actions,
         });
         return `Rule "${r?.name}" created. ID: ${r?.id}`;
       }
+      if (args.action === 'update') {
+        if (!args.id) throw new Error('id is required');
+        // Only forward the fields the caller set — PUT /rules/:id is a
+        // partial update.
+        const patch: Record<string, unknown> = {};
+        for (const key of ['name', 'priority', 'enabled', 'stop', 'conditions', 'actions']) {
+          if (args[key] !== undefined) patch[key] = args[key];
+        }
+        const r = await apiRequest('PUT', `/rules/${args.id}`, patch);
+        return `Rule "${r?.name}" updated.`;
+      }
       if (args.action === 'delete') {
         if (!args.id) throw new Error('id is required');
         await apiRequest('DELETE', `/rules/${args.id}`);
         return 'Rule deleted.';
       }
-      throw new Error('Invalid action. Use: list, create, or delete');
+      if (args.action === 'test') {
+        const body: Record<string, unknown> = {
+          uid: args.uid, folder: args.folder, since: args.since, before: args.before, limit: args.limit,
+        };
+        if (args.conditions !== undefined || args.actions !== undefined) {
+          body.rule = { name: args.name, conditions: args.conditions, actions: args.actions, stop: args.stop };
+        } else if (args.id) {
+          body.ruleId = args.id;
+        }
+        const r = await apiRequest('POST', '/rules/test', body);
+        if (!r?.results?.length) return `No messages to test in ${r?.folder ?? 'INBOX'}.`;
+        const lines = r.results.map((m: any) => {
+          const head = `[UID ${m.uid}] ${m.subject || '(no subject)'} — ${m.from}`;
+          if (!m.matched) return `${head}\n  no match`;
+          const steps = m.actions.map((a: any) =>
+            `${a.wouldRun ? '' : '(skip) '}${a.type}${a.detail ? `: ${a.detail}` : ''}`).join(' → ');
+          const spamNote = m.reachesRules ? '' : ' [would be moved to spam before rules run]';
+          return `${head}\n  matched ${m.rules.map((x: any) => x.name).join(', ')}${spamNote}\n  ${steps || '(no actions)'}`;
+        });
+        const more = r.truncated ? ` (newest ${r.scanned} of ${r.total})` : '';
+        return `Dry-run: ${r.matched}/${r.scanned} messages matched${more}. Nothing was changed.\n\n${lines.join('\n')}`;
+      }
+      throw new Error('Invalid action. Use: list, create, update, delete, or test');
     }
 
     case 'cleanup_agents': {
@@ -3325,6 +3669,37 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
       return `Thread ${r.threadId} (subject "${r.subject}", root from ${r.rootFromAddr}).`;
     }
 
+    case 'read_thread': {
+      let threadId = typeof args.threadId === 'string' ? args.threadId.trim() : '';
+      if (!threadId) {
+        if (typeof args.uid !== 'number' || args.uid < 1) throw new Error('threadId or uid (number, ≥1) is required');
+        const folder = typeof args.folder === 'string' ? args.folder : 'INBOX';
+        const r = await apiRequest('GET', `/agents/me/thread-id?uid=${args.uid}&folder=${encodeURIComponent(folder)}`);
+        if (!r?.threadId) throw new Error('Failed to resolve thread id');
+        threadId = r.threadId;
+      }
+      const thread = await apiRequest('GET', `/mail/threads/${encodeURIComponent(threadId)}`);
+      if (!thread?.messages?.length) return `Thread ${threadId} has no messages.`;
+      const maxBodies = Math.min(Math.max(typeof args.maxBodies === 'number' ? Math.floor(args.maxBodies) : 5, 0), 20);
+      const withBody = new Set(maxBodies ? thread.messages.slice(-maxBodies).map((m: any) => `${m.folder}:${m.uid}`) : []);
+      const lines = [
+        `Thread ${thread.threadId} — "${thread.subject}" (${thread.messageCount} messages; ${thread.participants.join(', ')})`,
+      ];
+      for (const m of thread.messages) {
+        const from = m.from?.map((a: any) => a.address).join(', ') ?? 'unknown';
+        lines.push('', `${'  '.repeat(Math.min(m.depth, 6))}[${m.folder} #${m.uid}] ${m.date} ${from}: ${m.subject}`);
+        if (!withBody.has(`${m.folder}:${m.uid}`)) continue;
+        try {
+          const full = await apiRequest('GET', `/mail/messages/${m.uid}?folder=${encodeURIComponent(m.folder)}`);
+          const body = String(full?.text ?? '').trim();
+          lines.push(body.length > 2000 ? `${body.slice(0, 2000)}\n… (truncated — read_email ${m.uid} for the rest)` : body || '(no text body)');
+        } catch (err) {
+          lines.push(`(body unavailable: ${(err as Error).message})`);
+        }
+      }
+      return lines.join('\n');
+    }
+
     case 'tail_worker': {
       if (!args.workerId) throw new Error('workerId is required');
       const lines = typeof args.lines === 'number' ? args.lines : 80;
@@ -3479,14 +3854,14 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
       if (action === 'report') {
         const uid = Number(args.uid);
         if (!uid || uid < 1) throw new Error('uid is required');
-        await apiRequest('POST', `/mail/messages/${uid}/spam`, { folder: args.folder || 'INBOX' });
-        return `Message UID ${uid} moved to Spam.`;
+        const result = await apiRequest('POST', `/mail/messages/${uid}/spam`, { folder: args.folder || 'INBOX' });
+        return `Message UID ${uid} moved to Spam.${result?.learned ? ' Your spam model learned from it.' : ''}`;
       }
       if (action === 'not_spam') {
         const uid = Number(args.uid);
         if (!uid || uid < 1) throw new Error('uid is required');
-        await apiRequest('POST', `/mail/messages/${uid}/not-spam`);
-        return `Message UID ${uid} moved from Spam to INBOX.`;
+        const result = await apiRequest('POST', `/mail/messages/${uid}/not-spam`);
+        return `Message UID ${uid} moved from Spam to INBOX.${result?.learned ? ' Your spam model learned from it.' : ''}`;
       }
       if (action === 'score') {
         const uid = Number(args.uid);
@@ -3495,6 +3870,7 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
         const result = await apiRequest('GET', `/mail/messages/${uid}/spam-score?folder=${encodeURIComponent(String(folder))}`);
         const lines = [
           `Spam Score: ${result.score}/100 (${result.isSpam ? 'SPAM' : result.isWarning ? 'WARNING' : 'CLEAN'})`,
+          typeof result.probability === 'number' ? `Spam Probability: ${result.probability.toFixed(2)}` : null,
           result.topCategory ? `Top Category: ${result.topCategory}` : null,
         ];
         if (result.matches?.length) {
@@ -3503,9 +3879,21 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
             lines.push(`  [${m.ruleId}] +${m.score} — ${m.description}`);
           }
         }
+        if (result.explanation?.summary) lines.push(`Why: ${result.explanation.summary}`);
         return lines.filter(Boolean).join('\n');
       }
-      throw new Error('Invalid action. Use: list, report, not_spam, or score');
+      if (action === 'model') {
+        const result = await apiRequest('GET', '/mail/spam/model');
+        const { feedback, log } = result.documents;
+        const lines = [
+          `Spam model: ${result.trained ? 'trained' : `learning (needs ${result.minDocs} spam and ${result.minDocs} not-spam reports)`}`,
+          `Reports: ${feedback.spam} spam, ${feedback.ham} not spam | From filter history: ${log.spam} spam, ${log.ham} clean | Tokens: ${result.tokens}`,
+        ];
+        if (result.topSpamTokens?.length) lines.push(`Spam signals: ${result.topSpamTokens.map((t: any) => t.token).join(', ')}`);
+        if (result.topHamTokens?.length) lines.push(`Not-spam signals: ${result.topHamTokens.map((t: any) => t.token).join(', ')}`);
+        return lines.join('\n');
+      }
+      throw new Error('Invalid action. Use: list, report, not_spam, score, or model');
     }
 
     case 'manage_pending_emails': {
@@ -3979,9 +4367,10 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
     // ─── Persistent agent memory ─────────────────────────────────────
     case 'memory': {
       const action = String(args.action || '');
+      const spacePath = args.space ? `/memory/spaces/${encodeURIComponent(String(args.space))}/memory` : '';
       if (action === 'set') {
         if (!args.content) throw new Error('content is required for action "set"');
-        const result = await apiRequest('POST', '/memory', {
+        const result = await apiRequest('POST', spacePath || '/memory', {
           content: args.content,
           title: args.title,
           category: args.category,
@@ -4005,12 +4394,14 @@ async function dispatchToolCall(name: string, args: Record<string, unknown>, use
         if (action === 'search') {
           if (!args.query) throw new Error('query is required for action "search"');
           query.set('query', String(args.query));
+          if (args.mode) query.set('mode', String(args.mode));
+          query.set('shared', 'true');
         }
         if (args.category) query.set('category', String(args.category));
         if (args.importance) query.set('importance', String(args.importance));
         if (args.limit) query.set('limit', String(args.limit));
         const suffix = query.toString() ? `?${query.toString()}` : '';
-        const result = await apiRequest('GET', `/memory${suffix}`);
+        const result = await apiRequest('GET', `${action === 'list' && spacePath ? spacePath : '/memory'}${suffix}`);
         return JSON.stringify(result, null, 2);
       }
       throw new Error('Invalid action. Use: set | get | search | list | delete');
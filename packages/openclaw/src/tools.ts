@@ -1006,27 +1006,41 @@ export function registerTools(
   });
 
   reg('agenticmail_schedule', {
-    description: 'Manage scheduled emails: create a new scheduled email, list pending scheduled emails, or cancel a scheduled email.',
+    description: 'Manage scheduled emails: create a one-off or recurring scheduled email (RRULE or cron in an IANA timezone, optional send window, optional template), list them, get one with its upcoming occurrences and send history, pause, resume, or cancel.',
     parameters: {
-      action: { type: 'string', required: true, description: 'create, list, or cancel' },
+      action: { type: 'string', required: true, description: 'create, list, get, pause, resume, or cancel' },
       to: { type: 'string', description: 'Recipient (for create)' },
-      subject: { type: 'string', description: 'Subject (for create)' },
+      subject: { type: 'string', description: 'Subject (for create; optional with templateId)' },
       text: { type: 'string', description: 'Body text (for create)' },
-      sendAt: { type: 'string', description: 'When to send (for create). Examples: "in 30 minutes", "in 1 hour", "tomorrow 8am", "next monday 9am", "tonight", or ISO 8601' },
-      id: { type: 'string', description: 'Scheduled email ID (for cancel)' },
+      sendAt: { type: 'string', description: 'When to send (for create). Examples: "in 30 minutes", "in 1 hour", "tomorrow 8am", "next monday 9am", "tonight", or ISO 8601. For recurring schedules, the series start (optional)' },
+      recurrence: { type: 'string', description: 'RRULE ("FREQ=WEEKLY;BYDAY=MO") or cron ("0 9 * * 1-5") (for create)' },
+      timezone: { type: 'string', description: 'IANA timezone, e.g. America/New_York (default UTC)' },
+      sendWindow: { type: 'object', description: 'Business-hours window, e.g. { days: ["mon","fri"], start: "09:00", end: "17:00" }' },
+      templateId: { type: 'string', description: 'Template rendered at send time (for create)' },
+      variables: { type: 'object', description: 'Template/body {{variables}} (for create)' },
+      maxAttempts: { type: 'number', description: 'Send attempts per occurrence (default 4)' },
+      id: { type: 'string', description: 'Scheduled email ID (for get, pause, resume, cancel)' },
     },
     handler: async (params: any) => {
       try {
         const c = await ctxForParams(ctx, params);
         const action = params.action || 'create';
         if (action === 'list') return await apiRequest(c, 'GET', '/scheduled');
+        if (action === 'get' || action === 'pause' || action === 'resume' || action === 'cancel') {
+          if (!params.id) return { success: false, error: `id is required for ${action}` };
+        }
+        if (action === 'get') return await apiRequest(c, 'GET', `/scheduled/${params.id}`);
+        if (action === 'pause' || action === 'resume') return await apiRequest(c, 'POST', `/scheduled/${params.id}/${action}`);
         if (action === 'cancel') {
-          if (!params.id) return { success: false, error: 'id is required for cancel' };
           await apiRequest(c, 'DELETE', `/scheduled/${params.id}`);
           return { success: true };
         }
         // Default: create
-        return await apiRequest(c, 'POST', '/scheduled', { to: params.to, subject: params.subject, text: params.text, sendAt: params.sendAt });
+        return await apiRequest(c, 'POST', '/scheduled', {
+          to: params.to, subject: params.subject, text: params.text, sendAt: params.sendAt,
+          recurrence: params.recurrence, timezone: params.timezone, sendWindow: params.sendWindow,
+          templateId: params.templateId, variables: params.variables, maxAttempts: params.maxAttempts,
+        });
       } catch (err) { return { success: false, error: (err as Error).message }; }
     },
   });
@@ -1858,14 +1872,21 @@ export function registerTools(
   });
 
   reg('agenticmail_rules', {
-    description: 'Manage server-side email rules that auto-process incoming messages (move, tag, mark read, delete). Rules run before you even see the email, saving tokens on manual triage.',
+    description: 'Manage server-side email rules that auto-process incoming messages (tag, move, mark read, delete, forward, auto-reply from a template, assign a task). Rules run before you even see the email, saving tokens on manual triage.',
     parameters: {
-      action: { type: 'string', required: true, description: 'list, create, or delete' },
-      id: { type: 'string', description: 'Rule ID (for delete)' },
-      name: { type: 'string', description: 'Rule name (for create)' },
-      priority: { type: 'number', description: 'Higher priority rules match first (for create)' },
-      conditions: { type: 'object', description: 'Match conditions: { from_contains?, from_exact?, subject_contains?, subject_regex?, to_contains?, has_attachment? }' },
-      actions: { type: 'object', description: 'Actions on match: { move_to?, mark_read?, delete?, add_tags? }' },
+      action: { type: 'string', required: true, description: 'list, create, update, delete, or test (dry-run against existing mail; changes nothing)' },
+      id: { type: 'string', description: 'Rule ID (for update, delete, test)' },
+      name: { type: 'string', description: 'Rule name (for create, update)' },
+      priority: { type: 'number', description: 'Higher priority rules match first (for create, update)' },
+      enabled: { type: 'boolean', description: 'Enable or disable the rule (for create, update)' },
+      stop: { type: 'boolean', description: 'Stop evaluating later rules when this one matches (default true)' },
+      conditions: { type: 'object', description: 'Condition tree: keys ANDed, plus { all: [...] }, { any: [...] }, { not: {...} }. Tests: from_/to_/cc_contains, from_/to_/cc_exact, subject_contains, subject_regex, body_contains, body_regex, header: { name, contains?|equals?|regex?|exists? }, spam_score_gte, spam_score_lt, route_class, has_attachment' },
+      uid: { type: 'number', description: 'Message UID to test against (for test)' },
+      folder: { type: 'string', description: 'Folder to test against (for test, default INBOX)' },
+      since: { type: 'string', description: 'Only test messages on/after this date (for test)' },
+      before: { type: 'string', description: 'Only test messages before this date (for test)' },
+      limit: { type: 'number', description: 'Newest N messages to test (for test, default 50)' },
+      actions: { type: 'array', items: { type: 'object' }, description: 'Ordered steps: { type: tag, tags } | { type: mark_read } | { type: move, folder } | { type: delete } | { type: forward, to } | { type: auto_reply, template } | { type: assign_task, assignee, task? }. Legacy { move_to?, mark_read?, delete?, add_tags? } still accepted.' },
     },
     handler: async (params: any) => {
       try {
@@ -1873,15 +1894,35 @@ export function registerTools(
         if (params.action === 'list') return await apiRequest(c, 'GET', '/rules');
         if (params.action === 'create') {
           return await apiRequest(c, 'POST', '/rules', {
-            name: params.name, priority: params.priority, conditions: params.conditions, actions: params.actions,
+            name: params.name, priority: params.priority, enabled: params.enabled, stop: params.stop,
+            conditions: params.conditions, actions: params.actions,
           });
         }
+        if (params.action === 'update') {
+          if (!params.id) return { success: false, error: 'id is required for update' };
+          const patch: Record<string, unknown> = {};
+          for (const key of ['name', 'priority', 'enabled', 'stop', 'conditions', 'actions']) {
+            if (params[key] !== undefined) patch[key] = params[key];
+          }
+          return await apiRequest(c, 'PUT', `/rules/${params.id}`, patch);
+        }
         if (params.action === 'delete') {
           if (!params.id) return { success: false, error: 'id is required for delete' };
           await apiRequest(c, 'DELETE', `/rules/${params.id}`);
           return { success: true };
         }
-        return { success: false, error: 'Invalid action. Use: list, create, or delete' };
+        if (params.action === 'test') {
+          const body: Record<string, unknown> = {
+            uid: params.uid, folder: params.folder, since: params.since, before: params.before, limit: params.limit,
+          };
+          if (params.conditions !== undefined || params.actions !== undefined) {
+            body.rule = { name: params.name, conditions: params.conditions, actions: params.actions, stop: params.stop };
+          } else if (params.id) {
+            body.ruleId = params.id;
+          }
+          return await apiRequest(c, 'POST', '/rules/test', body);
+        }
+        return { success: false, error: 'Invalid action. Use: list, create, update, delete, or test' };
       } catch (err) { return { success: false, error: (err as Error).message }; }
     },
   });
@@ -2085,9 +2126,9 @@ export function registerTools(
   });
 
   reg('agenticmail_spam', {
-    description: 'Manage spam: list the spam folder, report a message as spam, mark as not-spam, or get the detailed spam score of a message. Emails are auto-scored on arrival — high-scoring messages (prompt injection, phishing, scams) are moved to Spam automatically.',
+    description: 'Manage spam: list the spam folder, report a message as spam, mark as not-spam, get the detailed spam score of a message with an explanation, or show what your spam model has learned. Emails are auto-scored on arrival — high-scoring messages (prompt injection, phishing, scams) are moved to Spam automatically. Reporting and not-spam train your personal spam model.',
     parameters: {
-      action: { type: 'string', required: true, description: 'list, report, not_spam, or score' },
+      action: { type: 'string', required: true, description: 'list, report, not_spam, score, or model' },
       uid: { type: 'number', description: 'Message UID (for report, not_spam, score)' },
       folder: { type: 'string', description: 'Source folder (for report/score, default: INBOX)' },
       limit: { type: 'number', description: 'Max messages to list (for list, default: 20)' },
@@ -2120,7 +2161,10 @@ export function registerTools(
           const folder = params.folder || 'INBOX';
           return await apiRequest(c, 'GET', `/mail/messages/${uid}/spam-score?folder=${encodeURIComponent(folder)}`);
         }
-        return { success: false, error: 'Invalid action. Use: list, report, not_spam, or score' };
+        if (action === 'model') {
+          return await apiRequest(c, 'GET', '/mail/spam/model');
+        }
+        return { success: false, error: 'Invalid action. Use: list, report, not_spam, score, or model' };
       } catch (err) { return { success: false, error: (err as Error).message }; }
     },
   });